@@ -219,7 +219,7 @@ export default tseslint.config(
   },
   // extra settings for scripts that we run directly with node
   {
-    files: ['./scripts/**/*.js', 'esbuild.config.js', 'test-pii-filters.js'],
+    files: ['./scripts/**/*.js', 'esbuild.config.js'],
     languageOptions: {
       globals: {
         ...globals.node,
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { expect, describe, it, beforeEach, afterEach } from 'vitest';
+import { TestRig } from './test-helper.js';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+
+describe('hooks', () => {
+  let rig: TestRig;
+  let server: Server;
+  let hookInputs: Array<Record<string, unknown>>;
+
+  beforeEach(async () => {
+    rig = new TestRig();
+    hookInputs = [];
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        hookInputs.push(JSON.parse(body));
+        res.writeHead(403, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ reason: 'Shell commands are not allowed.' }));
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+  });
+
+  afterEach(async () => {
+    await rig.cleanup();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should stop a shell command when an http BeforeTool hook returns 403', async () => {
+    const { port } = server.address() as AddressInfo;
+    rig.setup('hooks-http-deny', {
+      fakeResponsesPath: join(import.meta.dirname, 'hooks.http-deny.responses'),
+      settings: {
+        tools: { enableHooks: true },
+        hooks: {
+          BeforeTool: [
+            {
+              matcher: 'run_shell_command',
+              hooks: [
+                {
+                  type: 'http',
+                  url: `http://127.0.0.1:${port}/before-tool`,
+                  retries: 0,
+                },
+              ],
+            },
+          ],
+        },
+      },
+    });
+
+    const result = await rig.run(
+      'Create blocked.txt with a shell command.',
+      '--output-format',
+      'json',
+    );
+    const parsed = JSON.parse(result);
+
+    expect(hookInputs).toHaveLength(1);
+    expect(hookInputs[0]).toMatchObject({
+      hook_event_name: 'BeforeTool',
+      tool_name: 'run_shell_command',
+      tool_input: { command: 'echo created > blocked.txt' },
+    });
+    expect(existsSync(join(rig.testDir!, 'blocked.txt'))).toBe(false);
+    expect(parsed.stats.tools.totalCalls).toBe(1);
+    expect(parsed.stats.tools.totalFail).toBe(1);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { AgentExecutionEvent } from '@a2a-js/sdk/server';
+import { TaskEventLog } from './eventLog.js';
+
+const statusEvent = (state: 'working' | 'completed'): AgentExecutionEvent => ({
+  kind: 'status-update',
+  taskId: 'task-id',
+  contextId: 'context-id',
+  status: { state },
+  final: state === 'completed',
+});
+
+describe('TaskEventLog', () => {
+  it('should number events from 1 and replay those after a sequence', () => {
+    const log = new TaskEventLog();
+    log.append(statusEvent('working'));
+    log.append(statusEvent('working'));
+    log.append(statusEvent('completed'));
+
+    expect(log.lastSequence).toBe(3);
+    expect(log.since(0).map((record) => record.sequence)).toEqual([1, 2, 3]);
+    expect(log.since(2)).toEqual([
+      { sequence: 3, event: statusEvent('completed') },
+    ]);
+    expect(log.since(3)).toEqual([]);
+  });
+
+  it('should notify subscribers until they unsubscribe', () => {
+    const log = new TaskEventLog();
+    const listener = vi.fn();
+    const unsubscribe = log.subscribe(listener);
+
+    log.append(statusEvent('working'));
+    unsubscribe();
+    log.append(statusEvent('completed'));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({
+      sequence: 1,
+      event: statusEvent('working'),
+    });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AgentExecutionEvent } from '@a2a-js/sdk/server';
+
+export interface TaskEventRecord {
+  /** Position of the event in the task's history, starting at 1. */
+  sequence: number;
+  event: AgentExecutionEvent;
+}
+
+type TaskEventListener = (record: TaskEventRecord) => void;
+
+/**
+ * Keeps every event a task has published so that clients which reconnect can
+ * replay the ones they missed, and notifies live subscribers of new ones.
+ */
+export class TaskEventLog {
+  private records: TaskEventRecord[] = [];
+  private listeners = new Set<TaskEventListener>();
+
+  get lastSequence(): number {
+    return this.records.length;
+  }
+
+  append(event: AgentExecutionEvent): TaskEventRecord {
+    const record = { sequence: this.records.length + 1, event };
+    this.records.push(record);
+    for (const listener of this.listeners) {
+      listener(record);
+    }
+    return record;
+  }
+
+  /**
+   * Returns the events published after the given sequence number.
+   */
+  since(sequence: number): TaskEventRecord[] {
+    return this.records.slice(Math.max(0, sequence));
+  }
+
+  /**
+   * Calls `listener` for every event appended from now on. Returns a function
+   * that removes the listener.
+   */
+  subscribe(listener: TaskEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
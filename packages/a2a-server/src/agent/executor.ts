@@ -21,10 +21,12 @@ import {
   GeminiEventType,
   SimpleExtensionLoader,
 } from '@google/gemini-cli-core';
+import * as fse from 'fs-extra';
 import { v4 as uuidv4 } from 'uuid';
 
 import { logger } from '../utils/logger.js';
 import type {
+  AbortedToolCall,
   StateChange,
   AgentSettings,
   PersistedStateMetadata,
@@ -37,6 +39,7 @@ import {
 import { loadConfig, loadEnvironment, setTargetDir } from '../config/config.js';
 import { loadSettings } from '../config/settings.js';
 import { loadExtensions } from '../config/extension.js';
+import type { TenantConfig, TenantRegistry } from '../config/tenants.js';
 import { Task } from './task.js';
 import { requestStorage } from '../http/requestStorage.js';
 import { pushTaskStateFailed } from '../utils/executor_utils.js';
@@ -48,10 +51,12 @@ import { pushTaskStateFailed } from '../utils/executor_utils.js';
 class TaskWrapper {
   task: Task;
   agentSettings: AgentSettings;
+  tenantId?: string;
 
-  constructor(task: Task, agentSettings: AgentSettings) {
+  constructor(task: Task, agentSettings: AgentSettings, tenantId?: string) {
     this.task = task;
     this.agentSettings = agentSettings;
+    this.tenantId = tenantId;
   }
 
   get id() {
@@ -77,6 +82,9 @@ class TaskWrapper {
       artifacts: [],
     };
     sdkTask.metadata!['_contextId'] = this.task.contextId;
+    if (this.tenantId) {
+      sdkTask.metadata!['_tenantId'] = this.tenantId;
+    }
     return sdkTask;
   }
 }
@@ -88,16 +96,29 @@ export class CoderAgentExecutor implements AgentExecutor {
   private tasks: Map<string, TaskWrapper> = new Map();
   // Track tasks with an active execution loop.
   private executingTasks = new Set<string>();
+  // Aborts the active execution loop of a task.
+  private executionAbortControllers = new Map<string, AbortController>();
 
-  constructor(private taskStore?: TaskStore) {}
+  constructor(
+    private taskStore?: TaskStore,
+    private tenants?: TenantRegistry,
+  ) {}
 
   private async getConfig(
     agentSettings: AgentSettings,
     taskId: string,
+    tenant?: TenantConfig,
   ): Promise<Config> {
-    const workspaceRoot = setTargetDir(agentSettings);
-    loadEnvironment(); // Will override any global env with workspace envs
-    const settings = loadSettings(workspaceRoot);
+    const workspaceRoot = setTargetDir(agentSettings, tenant?.id);
+    // A tenant's agent can write to its workspace, so the workspace's .env
+    // files must not change the environment every tenant shares.
+    if (!tenant) {
+      loadEnvironment(); // Will override any global env with workspace envs
+    }
+    const settings = {
+      ...loadSettings(workspaceRoot),
+      ...tenant?.settings,
+    };
     const extensions = loadExtensions(workspaceRoot);
     return await loadConfig(
       settings,
@@ -106,6 +127,46 @@ export class CoderAgentExecutor implements AgentExecutor {
     );
   }
 
+  /**
+   * Confines a task's workspace to its tenant's workspace root, creating the
+   * directory so the task never falls back to the server's own directory.
+   */
+  private async resolveTenantSettings(
+    tenant: TenantConfig,
+    agentSettings?: AgentSettings,
+  ): Promise<AgentSettings> {
+    const workspacePath = this.tenants!.resolveWorkspace(
+      tenant,
+      agentSettings?.workspacePath,
+    );
+    await fse.ensureDir(workspacePath);
+    return {
+      kind: CoderAgentEvent.StateAgentSettingsEvent,
+      workspacePath,
+    };
+  }
+
+  private getTenant(tenantId: string | undefined): TenantConfig | undefined {
+    const tenant = this.tenants?.get(tenantId);
+    if (this.tenants && !tenant) {
+      throw new Error(`Unknown tenant "${tenantId}".`);
+    }
+    return tenant;
+  }
+
+  /**
+   * Whether the task has a running execution on this server.
+   */
+  isExecuting(taskId: string): boolean {
+    return this.executingTasks.has(taskId);
+  }
+
+  private countExecutingTasks(tenantId: string): number {
+    return Array.from(this.executingTasks).filter(
+      (taskId) => this.tasks.get(taskId)?.tenantId === tenantId,
+    ).length;
+  }
+
   /**
    * Reconstructs TaskWrapper from SDKTask.
    */
@@ -123,7 +184,12 @@ export class CoderAgentExecutor implements AgentExecutor {
     }
 
     const agentSettings = persistedState._agentSettings;
-    const config = await this.getConfig(agentSettings, sdkTask.id);
+    const tenantId = metadata['_tenantId'] as string | undefined;
+    const config = await this.getConfig(
+      agentSettings,
+      sdkTask.id,
+      this.getTenant(tenantId),
+    );
     const contextId: string =
       (metadata['_contextId'] as string) || sdkTask.contextId;
     const runtimeTask = await Task.create(
@@ -135,7 +201,7 @@ export class CoderAgentExecutor implements AgentExecutor {
     runtimeTask.taskState = persistedState._taskState;
     await runtimeTask.geminiClient.initialize();
 
-    const wrapper = new TaskWrapper(runtimeTask, agentSettings);
+    const wrapper = new TaskWrapper(runtimeTask, agentSettings, tenantId);
     this.tasks.set(sdkTask.id, wrapper);
     logger.info(`Task ${sdkTask.id} reconstructed from store.`);
     return wrapper;
@@ -146,13 +212,17 @@ export class CoderAgentExecutor implements AgentExecutor {
     contextId: string,
     agentSettingsInput?: AgentSettings,
     eventBus?: ExecutionEventBus,
+    tenantId?: string,
   ): Promise<TaskWrapper> {
-    const agentSettings = agentSettingsInput || ({} as AgentSettings);
-    const config = await this.getConfig(agentSettings, taskId);
+    const tenant = this.getTenant(tenantId);
+    const agentSettings = tenant
+      ? await this.resolveTenantSettings(tenant, agentSettingsInput)
+      : agentSettingsInput || ({} as AgentSettings);
+    const config = await this.getConfig(agentSettings, taskId, tenant);
     const runtimeTask = await Task.create(taskId, contextId, config, eventBus);
     await runtimeTask.geminiClient.initialize();
 
-    const wrapper = new TaskWrapper(runtimeTask, agentSettings);
+    const wrapper = new TaskWrapper(runtimeTask, agentSettings, tenant?.id);
     this.tasks.set(taskId, wrapper);
     logger.info(`New task ${taskId} created.`);
     return wrapper;
@@ -166,6 +236,40 @@ export class CoderAgentExecutor implements AgentExecutor {
     return Array.from(this.tasks.values());
   }
 
+  /**
+   * Cancels a task: stops waiting for its in-flight tool calls, aborts its
+   * execution loop, marks it canceled and saves it. Returns the tool calls
+   * that were aborted.
+   */
+  async abortTask(
+    wrapper: TaskWrapper,
+    reason: string,
+  ): Promise<AbortedToolCall[]> {
+    const { task } = wrapper;
+    const abortedToolCalls = task.cancelPendingTools(reason);
+
+    const stateChange: StateChange = {
+      kind: CoderAgentEvent.StateChangeEvent,
+    };
+    task.setTaskStateAndPublishUpdate(
+      'canceled',
+      stateChange,
+      reason,
+      undefined,
+      true,
+    );
+    // The execution loop sees the task is already canceled and leaves the
+    // state alone.
+    this.executionAbortControllers.get(task.id)?.abort();
+
+    logger.info(
+      `[CoderAgentExecutor] Task ${task.id} cancellation processed. Saving state.`,
+    );
+    await this.taskStore?.save(wrapper.toSDKTask());
+    logger.info(`[CoderAgentExecutor] Task ${task.id} state CANCELED saved.`);
+    return abortedToolCalls;
+  }
+
   cancelTask = async (
     taskId: string,
     eventBus: ExecutionEventBus,
@@ -232,23 +336,7 @@ export class CoderAgentExecutor implements AgentExecutor {
       logger.info(
         `[CoderAgentExecutor] Initiating cancellation for task ${taskId}.`,
       );
-      task.cancelPendingTools('Task canceled by user request.');
-
-      const stateChange: StateChange = {
-        kind: CoderAgentEvent.StateChangeEvent,
-      };
-      task.setTaskStateAndPublishUpdate(
-        'canceled',
-        stateChange,
-        'Task canceled by user request.',
-        undefined,
-        true,
-      );
-      logger.info(
-        `[CoderAgentExecutor] Task ${taskId} cancellation processed. Saving state.`,
-      );
-      await this.taskStore?.save(wrapper.toSDKTask());
-      logger.info(`[CoderAgentExecutor] Task ${taskId} state CANCELED saved.`);
+      await this.abortTask(wrapper, 'Task canceled by user request.');
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error';
@@ -340,7 +428,24 @@ export class CoderAgentExecutor implements AgentExecutor {
       );
     }
 
+    const tenantId = store?.tenant?.id;
     let wrapper: TaskWrapper | undefined = this.tasks.get(taskId);
+    const sdkTaskTenantId = sdkTask?.metadata?.['_tenantId'];
+    if (
+      (wrapper && wrapper.tenantId !== tenantId) ||
+      (!wrapper && sdkTask && sdkTaskTenantId !== tenantId)
+    ) {
+      logger.warn(
+        `[CoderAgentExecutor] Task ${taskId} does not belong to the requesting tenant.`,
+      );
+      pushTaskStateFailed(
+        new Error(`Task ${taskId} not found.`),
+        eventBus,
+        taskId,
+        contextId,
+      );
+      return;
+    }
 
     if (wrapper) {
       wrapper.task.eventBus = eventBus;
@@ -395,6 +500,7 @@ export class CoderAgentExecutor implements AgentExecutor {
           contextId,
           agentSettings,
           eventBus,
+          tenantId,
         );
       } catch (error) {
         logger.error(
@@ -405,7 +511,7 @@ export class CoderAgentExecutor implements AgentExecutor {
         return;
       }
       const newTaskSDK = wrapper.toSDKTask();
-      eventBus.publish({
+      wrapper.task.publish({
         ...newTaskSDK,
         kind: 'task',
         status: { state: 'submitted', timestamp: new Date().toISOString() },
@@ -455,10 +561,31 @@ export class CoderAgentExecutor implements AgentExecutor {
       return;
     }
 
+    const tenant = this.tenants?.get(wrapper.tenantId);
+    if (
+      tenant?.maxConcurrentTasks !== undefined &&
+      this.countExecutingTasks(tenant.id) >= tenant.maxConcurrentTasks
+    ) {
+      logger.warn(
+        `[CoderAgentExecutor] Tenant ${tenant.id} is at its limit of ${tenant.maxConcurrentTasks} running tasks. Not executing task ${taskId}.`,
+      );
+      // Leave the task's state alone so the client can retry the message.
+      currentTask.setTaskStateAndPublishUpdate(
+        currentTask.taskState,
+        { kind: CoderAgentEvent.StateChangeEvent },
+        `Tenant ${tenant.id} already has ${tenant.maxConcurrentTasks} tasks running. Try again later.`,
+        undefined,
+        true,
+        'Tenant concurrency limit reached.',
+      );
+      return;
+    }
+
     logger.info(
       `[CoderAgentExecutor] Starting main execution for message ${userMessage.messageId} for task ${taskId}.`,
     );
     this.executingTasks.add(taskId);
+    this.executionAbortControllers.set(taskId, abortController);
 
     try {
       let agentTurnActive = true;
@@ -599,6 +726,7 @@ export class CoderAgentExecutor implements AgentExecutor {
       }
     } finally {
       this.executingTasks.delete(taskId);
+      this.executionAbortControllers.delete(taskId);
       logger.info(
         `[CoderAgentExecutor] Saving final state for task ${taskId}.`,
       );
@@ -269,5 +269,64 @@ describe('Task', () => {
       );
       expect(finalCall).toBeUndefined();
     });
+
+    it('should report the in-flight tool calls it cancels', async () => {
+      const toolCalls = [
+        {
+          request: { callId: '1', name: 'run_shell_command' },
+          status: 'executing',
+        },
+        { request: { callId: '2', name: 'replace' }, status: 'success' },
+        {
+          request: { callId: '3', name: 'write_file' },
+          status: 'awaiting_approval',
+        },
+      ] as ToolCall[];
+      // @ts-expect-error - Calling private method
+      task._schedulerToolCallsUpdate(toolCalls);
+      const pendingTools = task.waitForPendingTools();
+
+      expect(task.cancelPendingTools('Canceled')).toEqual([
+        { callId: '1', name: 'run_shell_command', status: 'executing' },
+        { callId: '3', name: 'write_file', status: 'awaiting_approval' },
+      ]);
+      await expect(pendingTools).rejects.toThrow('Canceled');
+      expect(task.cancelPendingTools('Canceled again')).toEqual([]);
+    });
+  });
+
+  describe('publish', () => {
+    it('should record events in order and forward them to the event bus', () => {
+      const mockEventBus: ExecutionEventBus = {
+        publish: vi.fn(),
+        on: vi.fn(),
+        off: vi.fn(),
+        once: vi.fn(),
+        removeAllListeners: vi.fn(),
+        finished: vi.fn(),
+      };
+      // @ts-expect-error - Calling private constructor
+      const task: Task = new Task(
+        'task-id',
+        'context-id',
+        createMockConfig() as Config,
+      );
+
+      task._sendTextContent('before the bus');
+      task.eventBus = mockEventBus;
+      task.setTaskStateAndPublishUpdate('working', {
+        kind: CoderAgentEvent.StateChangeEvent,
+      });
+
+      const records = task.events.since(0);
+      expect(records.map((record) => record.sequence)).toEqual([1, 2]);
+      expect(records[1].event).toMatchObject({
+        kind: 'status-update',
+        status: { state: 'working' },
+      });
+      expect(mockEventBus.publish).toHaveBeenCalledTimes(1);
+      expect(mockEventBus.publish).toHaveBeenCalledWith(records[1].event);
+      expect(task.events.since(1)).toEqual([records[1]]);
+    });
   });
 });
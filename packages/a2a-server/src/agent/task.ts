@@ -27,7 +27,7 @@ import {
   type UserTierId,
   type AnsiOutput,
 } from '@google/gemini-cli-core';
-import type { RequestContext } from '@a2a-js/sdk/server';
+import type { AgentExecutionEvent, RequestContext } from '@a2a-js/sdk/server';
 import { type ExecutionEventBus } from '@a2a-js/sdk/server';
 import type {
   TaskStatusUpdateEvent,
@@ -42,6 +42,7 @@ import { logger } from '../utils/logger.js';
 import * as fs from 'node:fs';
 import { CoderAgentEvent } from '../types.js';
 import type {
+  AbortedToolCall,
   CoderAgentMessage,
   StateChange,
   ToolCallUpdate,
@@ -52,6 +53,7 @@ import type {
   Citation,
 } from '../types.js';
 import type { PartUnion, Part as genAiPart } from '@google/genai';
+import { TaskEventLog } from './eventLog.js';
 
 type UnionKeys<T> = T extends T ? keyof T : never;
 
@@ -64,11 +66,14 @@ export class Task {
   pendingToolConfirmationDetails: Map<string, ToolCallConfirmationDetails>;
   taskState: TaskState;
   eventBus?: ExecutionEventBus;
+  // Every event published for this task, for clients that reconnect.
+  readonly events = new TaskEventLog();
   completedToolCalls: CompletedToolCall[];
   skipFinalTrueAfterInlineEdit = false;
 
   // For tool waiting logic
   private pendingToolCalls: Map<string, string> = new Map(); //toolCallId --> status
+  private pendingToolCallNames: Map<string, string> = new Map(); //toolCallId --> tool name
   private toolCompletionPromise?: Promise<void>;
   private toolCompletionNotifier?: {
     resolve: () => void;
@@ -142,6 +147,15 @@ export class Task {
     return metadata;
   }
 
+  /**
+   * Records an event in the task's history and publishes it on the current
+   * event bus, if any.
+   */
+  publish(event: AgentExecutionEvent): void {
+    this.events.append(event);
+    this.eventBus?.publish(event);
+  }
+
   private _resetToolCompletionPromise(): void {
     this.toolCompletionPromise = new Promise((resolve, reject) => {
       this.toolCompletionNotifier = { resolve, reject };
@@ -152,9 +166,16 @@ export class Task {
     }
   }
 
-  private _registerToolCall(toolCallId: string, status: string): void {
+  private _registerToolCall(
+    toolCallId: string,
+    status: string,
+    name?: string,
+  ): void {
     const wasEmpty = this.pendingToolCalls.size === 0;
     this.pendingToolCalls.set(toolCallId, status);
+    if (name) {
+      this.pendingToolCallNames.set(toolCallId, name);
+    }
     if (wasEmpty) {
       this._resetToolCompletionPromise();
     }
@@ -166,6 +187,7 @@ export class Task {
   private _resolveToolCall(toolCallId: string): void {
     if (this.pendingToolCalls.has(toolCallId)) {
       this.pendingToolCalls.delete(toolCallId);
+      this.pendingToolCallNames.delete(toolCallId);
       logger.info(
         `[Task] Resolved tool call: ${toolCallId}. Pending: ${this.pendingToolCalls.size}`,
       );
@@ -185,18 +207,31 @@ export class Task {
     return this.toolCompletionPromise;
   }
 
-  cancelPendingTools(reason: string): void {
+  /**
+   * Stops waiting for the in-flight tool calls and returns them.
+   */
+  cancelPendingTools(reason: string): AbortedToolCall[] {
     if (this.pendingToolCalls.size > 0) {
       logger.info(
         `[Task] Cancelling all ${this.pendingToolCalls.size} pending tool calls. Reason: ${reason}`,
       );
     }
+    const abortedToolCalls = Array.from(
+      this.pendingToolCalls,
+      ([callId, status]) => ({
+        callId,
+        name: this.pendingToolCallNames.get(callId) ?? 'unknown',
+        status,
+      }),
+    );
     if (this.toolCompletionNotifier) {
       this.toolCompletionNotifier.reject(new Error(reason));
     }
     this.pendingToolCalls.clear();
+    this.pendingToolCallNames.clear();
     // Reset the promise for any future operations, ensuring it's in a clean state.
     this._resetToolCompletionPromise();
+    return abortedToolCalls;
   }
 
   private _createTextMessage(
@@ -290,7 +325,7 @@ export class Task {
       metadataError,
       traceId,
     );
-    this.eventBus?.publish(event);
+    this.publish(event);
   }
 
   private _schedulerOutputUpdate(
@@ -329,7 +364,7 @@ export class Task {
       append: true,
       lastChunk: false,
     };
-    this.eventBus?.publish(artifactEvent);
+    this.publish(artifactEvent);
   }
 
   private async _schedulerAllToolCallsComplete(
@@ -361,7 +396,7 @@ export class Task {
         this._resolveToolCall(tc.request.callId);
       } else {
         // This will update the map
-        this._registerToolCall(tc.request.callId, tc.status);
+        this._registerToolCall(tc.request.callId, tc.status, tc.request.name);
       }
 
       if (tc.status === 'awaiting_approval' && tc.confirmationDetails) {
@@ -385,7 +420,7 @@ export class Task {
           message,
           false, // Always false for these continuous updates
         );
-        this.eventBus?.publish(event);
+        this.publish(event);
       }
     });
 
@@ -787,7 +822,7 @@ export class Task {
         message,
         false,
       );
-      this.eventBus?.publish(event);
+      this.publish(event);
       return false;
     }
   }
@@ -938,7 +973,7 @@ export class Task {
     const textContent: TextContent = {
       kind: CoderAgentEvent.TextContentEvent,
     };
-    this.eventBus?.publish(
+    this.publish(
       this._createStatusUpdateEvent(
         this.taskState,
         textContent,
@@ -972,7 +1007,7 @@ export class Task {
     const thought: Thought = {
       kind: CoderAgentEvent.ThoughtEvent,
     };
-    this.eventBus?.publish(
+    this.publish(
       this._createStatusUpdateEvent(
         this.taskState,
         thought,
@@ -994,7 +1029,7 @@ export class Task {
     const citationEvent: Citation = {
       kind: CoderAgentEvent.CitationEvent,
     };
-    this.eventBus?.publish(
+    this.publish(
       this._createStatusUpdateEvent(this.taskState, citationEvent, message),
     );
   }
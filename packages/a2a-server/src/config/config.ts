@@ -117,13 +117,31 @@ export async function loadConfig(
   return config;
 }
 
-export function setTargetDir(agentSettings: AgentSettings | undefined): string {
-  const originalCWD = process.cwd();
-  const targetDir =
-    process.env['CODER_AGENT_WORKSPACE_PATH'] ??
-    (agentSettings?.kind === CoderAgentEvent.StateAgentSettingsEvent
+/**
+ * Returns the workspace directory of a task. `CODER_AGENT_WORKSPACE_PATH`
+ * overrides the task's own workspace, except for tasks of a tenant, which
+ * always use the workspace resolved for the tenant.
+ */
+export function getTargetDir(
+  agentSettings: AgentSettings | undefined,
+  tenantId?: string,
+): string | undefined {
+  const settingsDir =
+    agentSettings?.kind === CoderAgentEvent.StateAgentSettingsEvent
       ? agentSettings.workspacePath
-      : undefined);
+      : undefined;
+  if (tenantId) {
+    return settingsDir;
+  }
+  return process.env['CODER_AGENT_WORKSPACE_PATH'] ?? settingsDir;
+}
+
+export function setTargetDir(
+  agentSettings: AgentSettings | undefined,
+  tenantId?: string,
+): string {
+  const originalCWD = process.cwd();
+  const targetDir = getTargetDir(agentSettings, tenantId);
 
   if (!targetDir) {
     return originalCWD;
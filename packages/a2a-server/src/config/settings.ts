@@ -124,7 +124,7 @@ function resolveEnvVarsInString(value: string): string {
   });
 }
 
-function resolveEnvVarsInObject<T>(obj: T): T {
+export function resolveEnvVarsInObject<T>(obj: T): T {
   if (
     obj === null ||
     obj === undefined ||
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { createHash } from 'node:crypto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import {
+  loadTenants,
+  TenantAccessError,
+  TenantRegistry,
+  type TenantConfig,
+} from './tenants.js';
+
+describe('loadTenants', () => {
+  let tempDir: string;
+  let tenantsFile: string;
+
+  const writeTenants = (content: unknown) =>
+    fs.writeFileSync(tenantsFile, JSON.stringify(content));
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tenants-test-'));
+    tenantsFile = path.join(tempDir, 'tenants.json');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should load tenants, expanding variables and relative roots', () => {
+    vi.stubEnv('TEAM_A_KEY', 'secret-a');
+    writeTenants({
+      tenants: [
+        {
+          id: 'team-a',
+          apiKeys: ['$TEAM_A_KEY'],
+          workspaceRoot: 'workspaces/team-a',
+          maxConcurrentTasks: 2,
+          settings: { excludeTools: ['run_shell_command'] },
+        },
+      ],
+    });
+
+    const tenants = loadTenants(tenantsFile);
+
+    expect(tenants.authenticate('secret-a')).toEqual({
+      id: 'team-a',
+      apiKeys: ['secret-a'],
+      workspaceRoot: path.join(tempDir, 'workspaces', 'team-a'),
+      maxConcurrentTasks: 2,
+      settings: { excludeTools: ['run_shell_command'] },
+    });
+  });
+
+  it('should reject a file without tenants', () => {
+    writeTenants({ tenants: [] });
+    expect(() => loadTenants(tenantsFile)).toThrow(
+      `Invalid tenants file ${tenantsFile}: "tenants" must be a non-empty array.`,
+    );
+  });
+
+  it('should report which tenant is invalid', () => {
+    writeTenants({
+      tenants: [
+        { id: 'team-a', apiKeys: ['a'], workspaceRoot: '/srv/a' },
+        { id: 'team b', apiKeys: ['b'], workspaceRoot: '/srv/b' },
+      ],
+    });
+    expect(() => loadTenants(tenantsFile)).toThrow(
+      'tenants[1]: "id" must contain only letters, digits, "-" and "_".',
+    );
+  });
+
+  it('should reject an invalid concurrency limit', () => {
+    writeTenants({
+      tenants: [
+        {
+          id: 'team-a',
+          apiKeys: ['a'],
+          workspaceRoot: '/srv/a',
+          maxConcurrentTasks: 0,
+        },
+      ],
+    });
+    expect(() => loadTenants(tenantsFile)).toThrow(
+      'tenants[0]: "maxConcurrentTasks" must be a positive integer.',
+    );
+  });
+
+  it('should report unreadable files', () => {
+    expect(() => loadTenants(tenantsFile)).toThrow(
+      `Failed to read tenants file ${tenantsFile}:`,
+    );
+  });
+});
+
+describe('TenantRegistry', () => {
+  const teamA: TenantConfig = {
+    id: 'team-a',
+    apiKeys: ['secret-a'],
+    workspaceRoot: '/srv/a2a/team-a',
+  };
+  const teamB: TenantConfig = {
+    id: 'team-b',
+    apiKeys: [
+      `sha256:${createHash('sha256').update('secret-b').digest('hex')}`,
+    ],
+    workspaceRoot: '/srv/a2a/team-b',
+  };
+
+  it('should authenticate plain and hashed keys', () => {
+    const tenants = new TenantRegistry([teamA, teamB]);
+    expect(tenants.authenticate('secret-a')).toBe(teamA);
+    expect(tenants.authenticate('secret-b')).toBe(teamB);
+    expect(tenants.authenticate('secret-c')).toBeUndefined();
+    expect(tenants.get('team-b')).toBe(teamB);
+    expect(tenants.get(undefined)).toBeUndefined();
+  });
+
+  it('should reject duplicate ids and shared keys', () => {
+    expect(() => new TenantRegistry([teamA, teamA])).toThrow(
+      'Duplicate tenant id "team-a".',
+    );
+    expect(
+      () => new TenantRegistry([teamA, { ...teamB, apiKeys: ['secret-a'] }]),
+    ).toThrow('Tenant "team-b" reuses an API key of tenant "team-a".');
+  });
+
+  it('should keep workspaces under the tenant root', () => {
+    const tenants = new TenantRegistry([teamA]);
+    expect(tenants.resolveWorkspace(teamA)).toBe('/srv/a2a/team-a');
+    expect(tenants.resolveWorkspace(teamA, 'repo')).toBe(
+      '/srv/a2a/team-a/repo',
+    );
+    expect(tenants.resolveWorkspace(teamA, '/srv/a2a/team-a/repo')).toBe(
+      '/srv/a2a/team-a/repo',
+    );
+    expect(() => tenants.resolveWorkspace(teamA, '../team-b')).toThrow(
+      TenantAccessError,
+    );
+    expect(() => tenants.resolveWorkspace(teamA, '/srv/a2a/team-a-2')).toThrow(
+      'Workspace /srv/a2a/team-a-2 is outside the workspace root of tenant team-a.',
+    );
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { createHash } from 'node:crypto';
+import stripJsonComments from 'strip-json-comments';
+import { getErrorMessage } from '@google/gemini-cli-core';
+
+import { resolveEnvVarsInObject, type Settings } from './settings.js';
+
+export interface TenantConfig {
+  id: string;
+  /**
+   * Bearer tokens or API keys that authenticate as this tenant. Entries of the
+   * form `sha256:<hex>` are matched against the SHA-256 digest of the token.
+   */
+  apiKeys: string[];
+  /** Every workspace of this tenant's tasks must live under this directory. */
+  workspaceRoot: string;
+  /** Maximum number of tasks of this tenant that may execute at once. */
+  maxConcurrentTasks?: number;
+  /** Settings that override the user and workspace settings. */
+  settings?: Settings;
+}
+
+/**
+ * Thrown when a tenant asks for a workspace outside its workspace root.
+ */
+export class TenantAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TenantAccessError';
+  }
+}
+
+const SHA256_PREFIX = 'sha256:';
+const TENANT_ID_REGEX = /^[a-zA-Z0-9_-]+$/;
+
+const sha256 = (value: string): string =>
+  createHash('sha256').update(value).digest('hex');
+
+export class TenantRegistry {
+  private tenants = new Map<string, TenantConfig>();
+  private tenantsByKeyDigest = new Map<string, TenantConfig>();
+
+  constructor(tenants: TenantConfig[]) {
+    for (const tenant of tenants) {
+      if (this.tenants.has(tenant.id)) {
+        throw new Error(`Duplicate tenant id "${tenant.id}".`);
+      }
+      this.tenants.set(tenant.id, tenant);
+      for (const apiKey of tenant.apiKeys) {
+        const digest = apiKey.startsWith(SHA256_PREFIX)
+          ? apiKey.slice(SHA256_PREFIX.length).toLowerCase()
+          : sha256(apiKey);
+        if (this.tenantsByKeyDigest.has(digest)) {
+          throw new Error(
+            `Tenant "${tenant.id}" reuses an API key of tenant "${this.tenantsByKeyDigest.get(digest)!.id}".`,
+          );
+        }
+        this.tenantsByKeyDigest.set(digest, tenant);
+      }
+    }
+  }
+
+  get(tenantId: string | undefined): TenantConfig | undefined {
+    return tenantId === undefined ? undefined : this.tenants.get(tenantId);
+  }
+
+  /**
+   * Returns the tenant a bearer token or API key belongs to.
+   */
+  authenticate(token: string): TenantConfig | undefined {
+    // Looking up the digest rather than the token keeps comparisons from
+    // leaking how much of a key was guessed correctly.
+    return this.tenantsByKeyDigest.get(sha256(token));
+  }
+
+  /**
+   * Resolves a task's workspace path against the tenant's workspace root,
+   * defaulting to the root itself.
+   */
+  resolveWorkspace(tenant: TenantConfig, workspacePath?: string): string {
+    const resolved = workspacePath
+      ? path.resolve(tenant.workspaceRoot, workspacePath)
+      : tenant.workspaceRoot;
+    const relative = path.relative(tenant.workspaceRoot, resolved);
+    if (
+      relative === '..' ||
+      relative.startsWith(`..${path.sep}`) ||
+      path.isAbsolute(relative)
+    ) {
+      throw new TenantAccessError(
+        `Workspace ${workspacePath} is outside the workspace root of tenant ${tenant.id}.`,
+      );
+    }
+    return resolved;
+  }
+}
+
+function parseTenant(value: unknown, index: number, baseDir: string) {
+  const fail = (message: string): never => {
+    throw new Error(`tenants[${index}]: ${message}`);
+  };
+  if (typeof value !== 'object' || value === null) {
+    return fail('must be an object.');
+  }
+  const tenant = value as Record<string, unknown>;
+
+  const { id, apiKeys, workspaceRoot, maxConcurrentTasks, settings } = tenant;
+  if (typeof id !== 'string' || !TENANT_ID_REGEX.test(id)) {
+    fail('"id" must contain only letters, digits, "-" and "_".');
+  }
+  if (
+    !Array.isArray(apiKeys) ||
+    apiKeys.length === 0 ||
+    !apiKeys.every((key) => typeof key === 'string' && key.length > 0)
+  ) {
+    fail('"apiKeys" must be a non-empty array of strings.');
+  }
+  if (typeof workspaceRoot !== 'string' || workspaceRoot.length === 0) {
+    fail('"workspaceRoot" must be a path.');
+  }
+  if (
+    maxConcurrentTasks !== undefined &&
+    (!Number.isInteger(maxConcurrentTasks) || Number(maxConcurrentTasks) < 1)
+  ) {
+    fail('"maxConcurrentTasks" must be a positive integer.');
+  }
+  if (
+    settings !== undefined &&
+    (typeof settings !== 'object' || settings === null)
+  ) {
+    fail('"settings" must be an object.');
+  }
+
+  return {
+    id,
+    apiKeys,
+    workspaceRoot: path.resolve(baseDir, workspaceRoot as string),
+    maxConcurrentTasks,
+    settings,
+  } as TenantConfig;
+}
+
+/**
+ * Loads the tenants file: `{ "tenants": [...] }`. `$VAR` references are
+ * expanded from the environment, so keys need not be stored in the file, and
+ * relative workspace roots resolve against the file's directory.
+ */
+export function loadTenants(filePath: string): TenantRegistry {
+  let parsed: unknown;
+  try {
+    parsed = resolveEnvVarsInObject(
+      JSON.parse(stripJsonComments(fs.readFileSync(filePath, 'utf-8'))),
+    );
+  } catch (error) {
+    throw new Error(
+      `Failed to read tenants file ${filePath}: ${getErrorMessage(error)}`,
+    );
+  }
+
+  const tenants = (parsed as { tenants?: unknown } | null)?.tenants;
+  if (!Array.isArray(tenants) || tenants.length === 0) {
+    throw new Error(
+      `Invalid tenants file ${filePath}: "tenants" must be a non-empty array.`,
+    );
+  }
+  try {
+    const baseDir = path.dirname(path.resolve(filePath));
+    return new TenantRegistry(
+      tenants.map((tenant, index) => parseTenant(tenant, index, baseDir)),
+    );
+  } catch (error) {
+    throw new Error(
+      `Invalid tenants file ${filePath}: ${getErrorMessage(error)}`,
+    );
+  }
+}
@@ -6,19 +6,28 @@
 
 import express from 'express';
 
-import type { AgentCard } from '@a2a-js/sdk';
-import type { TaskStore } from '@a2a-js/sdk/server';
+import type { AgentCard, TaskState } from '@a2a-js/sdk';
+import type { AgentExecutionEvent } from '@a2a-js/sdk/server';
 import { DefaultRequestHandler, InMemoryTaskStore } from '@a2a-js/sdk/server';
 import { A2AExpressApp } from '@a2a-js/sdk/server/express'; // Import server components
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../utils/logger.js';
 import type { AgentSettings } from '../types.js';
-import { GCSTaskStore, NoOpTaskStore } from '../persistence/gcs.js';
+import { NoOpTaskStore } from '../persistence/gcs.js';
+import {
+  createTaskStore,
+  getTaskStoreUri,
+  isPersistentTaskStore,
+  TenantScopedTaskStore,
+} from '../persistence/taskStore.js';
 import { CoderAgentExecutor } from '../agent/executor.js';
+import type { TaskEventRecord } from '../agent/eventLog.js';
 import { requestStorage } from './requestStorage.js';
+import { createAuthMiddleware, getRequestTenant } from './auth.js';
 import { loadConfig, loadEnvironment, setTargetDir } from '../config/config.js';
 import { loadSettings } from '../config/settings.js';
 import { loadExtensions } from '../config/extension.js';
+import { loadTenants, TenantAccessError } from '../config/tenants.js';
 import { commandRegistry } from '../commands/command-registry.js';
 import { SimpleExtensionLoader } from '@google/gemini-cli-core';
 
@@ -64,11 +73,67 @@ export function updateCoderAgentCardUrl(port: number) {
   coderAgentCard.url = `http://localhost:${port}/`;
 }
 
+const TASK_STATES: readonly TaskState[] = [
+  'submitted',
+  'working',
+  'input-required',
+  'completed',
+  'canceled',
+  'failed',
+  'rejected',
+  'auth-required',
+  'unknown',
+];
+
+const FINAL_TASK_STATES: readonly TaskState[] = [
+  'completed',
+  'canceled',
+  'failed',
+  'rejected',
+];
+
+const DEFAULT_TASK_PAGE_SIZE = 20;
+const DEFAULT_EVENT_STREAM_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_TASK_PAGE_SIZE = 100;
+
+function parseNonNegativeInteger(value: unknown): number | undefined {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    return undefined;
+  }
+  return Number(value);
+}
+
+// Whether no more events will be published for the task.
+function isFinalEvent(event: AgentExecutionEvent): boolean {
+  return (
+    event.kind === 'status-update' &&
+    event.final &&
+    FINAL_TASK_STATES.includes(event.status.state)
+  );
+}
+
+function writeTaskEvent(res: express.Response, record: TaskEventRecord) {
+  res.write(
+    `id: ${record.sequence}\ndata: ${JSON.stringify(record.event)}\n\n`,
+  );
+}
+
 export async function createApp() {
   try {
     // Load the server configuration once on startup.
     const workspaceRoot = setTargetDir(undefined);
     loadEnvironment();
+    const tenantsFile = process.env['CODER_AGENT_TENANTS_FILE'];
+    if (tenantsFile && process.env['CODER_AGENT_WORKSPACE_PATH']) {
+      throw new Error(
+        "CODER_AGENT_WORKSPACE_PATH cannot be combined with CODER_AGENT_TENANTS_FILE; set each tenant's workspaceRoot instead.",
+      );
+    }
+    const tenants = tenantsFile ? loadTenants(tenantsFile) : undefined;
+    const eventStreamIdleTimeoutMs =
+      parseNonNegativeInteger(
+        process.env['CODER_AGENT_EVENT_STREAM_IDLE_TIMEOUT_MS'],
+      ) ?? DEFAULT_EVENT_STREAM_IDLE_TIMEOUT_MS;
     const settings = loadSettings(workspaceRoot);
     const extensions = loadExtensions(workspaceRoot);
     const config = await loadConfig(
@@ -78,23 +143,27 @@ export async function createApp() {
     );
 
     // loadEnvironment() is called within getConfig now
-    const bucketName = process.env['GCS_BUCKET_NAME'];
-    let taskStoreForExecutor: TaskStore;
-    let taskStoreForHandler: TaskStore;
-
-    if (bucketName) {
-      logger.info(`Using GCSTaskStore with bucket: ${bucketName}`);
-      const gcsTaskStore = new GCSTaskStore(bucketName);
-      taskStoreForExecutor = gcsTaskStore;
-      taskStoreForHandler = new NoOpTaskStore(gcsTaskStore);
-    } else {
-      logger.info('Using InMemoryTaskStore');
-      const inMemoryTaskStore = new InMemoryTaskStore();
-      taskStoreForExecutor = inMemoryTaskStore;
-      taskStoreForHandler = inMemoryTaskStore;
-    }
+    const taskStoreUri = getTaskStoreUri();
+    logger.info(`Using task store: ${taskStoreUri}`);
+    const taskStoreForExecutor = createTaskStore(taskStoreUri);
+    // Persistent stores snapshot the workspace, so only the executor saves.
+    const handlerStore = isPersistentTaskStore(taskStoreForExecutor)
+      ? new NoOpTaskStore(taskStoreForExecutor)
+      : taskStoreForExecutor;
+    const taskStoreForHandler = tenants
+      ? new TenantScopedTaskStore(handlerStore)
+      : handlerStore;
 
-    const agentExecutor = new CoderAgentExecutor(taskStoreForExecutor);
+    const agentExecutor = new CoderAgentExecutor(taskStoreForExecutor, tenants);
+
+    if (tenants) {
+      logger.info(`Loaded tenants from ${tenantsFile}`);
+      coderAgentCard.securitySchemes = {
+        bearer: { type: 'http', scheme: 'bearer' },
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      };
+      coderAgentCard.security = [{ bearer: [] }, { apiKey: [] }];
+    }
 
     const requestHandler = new DefaultRequestHandler(
       coderAgentCard,
@@ -103,8 +172,11 @@ export async function createApp() {
     );
 
     let expressApp = express();
+    if (tenants) {
+      expressApp.use(createAuthMiddleware(tenants));
+    }
     expressApp.use((req, res, next) => {
-      requestStorage.run({ req }, next);
+      requestStorage.run({ req, tenant: getRequestTenant(res) }, next);
     });
 
     const appBuilder = new A2AExpressApp(requestHandler);
@@ -122,10 +194,16 @@ export async function createApp() {
           taskId,
           contextId,
           agentSettings,
+          undefined,
+          getRequestTenant(res)?.id,
         );
         await taskStoreForExecutor.save(wrapper.toSDKTask());
         res.status(201).json(wrapper.id);
       } catch (error) {
+        if (error instanceof TenantAccessError) {
+          res.status(403).send({ error: error.message });
+          return;
+        }
         logger.error('[CoreAgent] Error creating task:', error);
         const errorMessage =
           error instanceof Error
@@ -136,6 +214,13 @@ export async function createApp() {
     });
 
     expressApp.post('/executeCommand', async (req, res) => {
+      // Commands run against the server's own configuration and workspace,
+      // which no tenant owns.
+      if (tenants) {
+        return res.status(403).json({
+          error: '/executeCommand is not available on a multi-tenant server.',
+        });
+      }
       try {
         const { command, args } = req.body;
 
@@ -167,6 +252,174 @@ export async function createApp() {
       }
     });
 
+    // Returns the tenant's task from memory, reconstructing it from the store
+    // if this server has not seen it yet. Other tenants' tasks are not found.
+    const findTask = async (taskId: string, res: express.Response) => {
+      const tenantId = getRequestTenant(res)?.id;
+      const wrapper = agentExecutor.getTask(taskId);
+      if (wrapper) {
+        return wrapper.tenantId === tenantId ? wrapper : undefined;
+      }
+      const sdkTask = await taskStoreForExecutor.load(taskId);
+      if (!sdkTask || sdkTask.metadata?.['_tenantId'] !== tenantId) {
+        return undefined;
+      }
+      return agentExecutor.reconstruct(sdkTask);
+    };
+    const getTenantTasks = (res: express.Response) => {
+      const tenantId = getRequestTenant(res)?.id;
+      return agentExecutor
+        .getAllTasks()
+        .filter((wrapper) => wrapper.tenantId === tenantId);
+    };
+
+    expressApp.get('/tasks', (req, res) => {
+      const { state } = req.query;
+      if (state !== undefined && !TASK_STATES.includes(state as TaskState)) {
+        res.status(400).send({
+          error: `Invalid "state". Expected one of: ${TASK_STATES.join(', ')}.`,
+        });
+        return;
+      }
+      const offset =
+        req.query['offset'] === undefined
+          ? 0
+          : parseNonNegativeInteger(req.query['offset']);
+      const limit =
+        req.query['limit'] === undefined
+          ? DEFAULT_TASK_PAGE_SIZE
+          : parseNonNegativeInteger(req.query['limit']);
+      if (offset === undefined) {
+        res.status(400).send({ error: '"offset" must be a whole number.' });
+        return;
+      }
+      if (limit === undefined || limit < 1 || limit > MAX_TASK_PAGE_SIZE) {
+        res.status(400).send({
+          error: `"limit" must be between 1 and ${MAX_TASK_PAGE_SIZE}.`,
+        });
+        return;
+      }
+
+      const matching = getTenantTasks(res).filter(
+        (wrapper) => !state || wrapper.task.taskState === state,
+      );
+      const nextOffset = offset + limit;
+      res.status(200).json({
+        tasks: matching.slice(offset, nextOffset).map(({ task }) => ({
+          id: task.id,
+          contextId: task.contextId,
+          taskState: task.taskState,
+          lastEventSequence: task.events.lastSequence,
+        })),
+        total: matching.length,
+        nextOffset: nextOffset < matching.length ? nextOffset : undefined,
+      });
+    });
+
+    expressApp.delete('/tasks/:taskId', async (req, res) => {
+      try {
+        const wrapper = await findTask(req.params.taskId, res);
+        if (!wrapper) {
+          res.status(404).send({ error: 'Task not found' });
+          return;
+        }
+        if (FINAL_TASK_STATES.includes(wrapper.task.taskState)) {
+          res.status(409).send({
+            error: `Task ${wrapper.id} is already ${wrapper.task.taskState}.`,
+          });
+          return;
+        }
+        const abortedToolCalls = await agentExecutor.abortTask(
+          wrapper,
+          'Task canceled by user request.',
+        );
+        res.status(200).json({
+          id: wrapper.id,
+          taskState: wrapper.task.taskState,
+          abortedToolCalls,
+        });
+      } catch (error) {
+        logger.error('[CoreAgent] Error canceling task:', error);
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : 'Unknown error canceling task';
+        res.status(500).send({ error: errorMessage });
+      }
+    });
+
+    // Streams the task's events as server-sent events, starting after the
+    // sequence number in `since` or the `Last-Event-ID` header, then follows
+    // new events until the task finishes or the client disconnects. Streams of
+    // tasks without a running execution, such as a task reloaded from the
+    // store that waits for input, end after a while without events; clients
+    // reconnect with `Last-Event-ID` to keep following them.
+    expressApp.get('/tasks/:taskId/events', async (req, res) => {
+      const since = parseNonNegativeInteger(
+        req.query['since'] ?? req.get('Last-Event-ID') ?? '0',
+      );
+      if (since === undefined) {
+        res.status(400).send({ error: '"since" must be a whole number.' });
+        return;
+      }
+      let wrapper;
+      try {
+        wrapper = await findTask(req.params.taskId, res);
+      } catch (error) {
+        logger.error('[CoreAgent] Error loading task events:', error);
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error loading task';
+        res.status(500).send({ error: errorMessage });
+        return;
+      }
+      if (!wrapper) {
+        res.status(404).send({ error: 'Task not found' });
+        return;
+      }
+
+      const { task } = wrapper;
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+      res.flushHeaders();
+      for (const record of task.events.since(since)) {
+        writeTaskEvent(res, record);
+      }
+      if (FINAL_TASK_STATES.includes(task.taskState)) {
+        res.end();
+        return;
+      }
+      let idleTimer: NodeJS.Timeout | undefined;
+      const stopFollowing = () => {
+        clearTimeout(idleTimer);
+        unsubscribe();
+      };
+      const resetIdleTimer = () => {
+        clearTimeout(idleTimer);
+        idleTimer = setTimeout(() => {
+          if (agentExecutor.isExecuting(task.id)) {
+            resetIdleTimer();
+            return;
+          }
+          stopFollowing();
+          res.end();
+        }, eventStreamIdleTimeoutMs);
+      };
+      const unsubscribe = task.events.subscribe((record) => {
+        writeTaskEvent(res, record);
+        if (isFinalEvent(record.event)) {
+          stopFollowing();
+          res.end();
+        } else {
+          resetIdleTimer();
+        }
+      });
+      resetIdleTimer();
+      req.on('close', stopFollowing);
+    });
+
     expressApp.get('/tasks/metadata', async (req, res) => {
       // This endpoint is only meaningful if the task store is in-memory.
       if (!(taskStoreForExecutor instanceof InMemoryTaskStore)) {
@@ -176,7 +429,7 @@ export async function createApp() {
         });
       }
       try {
-        const wrappers = agentExecutor.getAllTasks();
+        const wrappers = getTenantTasks(res);
         if (wrappers && wrappers.length > 0) {
           const tasksMetadata = await Promise.all(
             wrappers.map((wrapper) => wrapper.task.getMetadata()),
@@ -196,14 +449,7 @@ export async function createApp() {
     });
 
     expressApp.get('/tasks/:taskId/metadata', async (req, res) => {
-      const taskId = req.params.taskId;
-      let wrapper = agentExecutor.getTask(taskId);
-      if (!wrapper) {
-        const sdkTask = await taskStoreForExecutor.load(taskId);
-        if (sdkTask) {
-          wrapper = await agentExecutor.reconstruct(sdkTask);
-        }
-      }
+      const wrapper = await findTask(req.params.taskId, res);
       if (!wrapper) {
         res.status(404).send({ error: 'Task not found' });
         return;
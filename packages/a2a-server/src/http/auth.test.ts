@@ -0,0 +1,74 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { describe, it, expect, vi } from 'vitest';
+
+import { TenantRegistry } from '../config/tenants.js';
+import { createAuthMiddleware, getRequestTenant } from './auth.js';
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const tenants = new TenantRegistry([
+  { id: 'team-a', apiKeys: ['secret-a'], workspaceRoot: '/srv/team-a' },
+]);
+
+function createTestApp() {
+  const app = express();
+  app.use(createAuthMiddleware(tenants));
+  app.get('/.well-known/agent-card.json', (req, res) => {
+    res.json({ tenant: getRequestTenant(res)?.id ?? null });
+  });
+  app.get('/whoami', (req, res) => {
+    res.json({ tenant: getRequestTenant(res)?.id });
+  });
+  return app;
+}
+
+describe('createAuthMiddleware', () => {
+  it('should accept bearer tokens', async () => {
+    const response = await request(createTestApp())
+      .get('/whoami')
+      .set('Authorization', 'Bearer secret-a');
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ tenant: 'team-a' });
+  });
+
+  it('should accept API keys', async () => {
+    const response = await request(createTestApp())
+      .get('/whoami')
+      .set('X-API-Key', 'secret-a');
+    expect(response.body).toEqual({ tenant: 'team-a' });
+  });
+
+  it('should reject missing and unknown credentials', async () => {
+    const missing = await request(createTestApp()).get('/whoami');
+    expect(missing.status).toBe(401);
+    expect(missing.headers['www-authenticate']).toBe('Bearer');
+    expect(missing.body).toEqual({ error: 'Missing or invalid credentials.' });
+
+    const unknown = await request(createTestApp())
+      .get('/whoami')
+      .set('Authorization', 'Bearer secret-b');
+    expect(unknown.status).toBe(401);
+
+    const wrongScheme = await request(createTestApp())
+      .get('/whoami')
+      .set('Authorization', 'Basic secret-a');
+    expect(wrongScheme.status).toBe(401);
+  });
+
+  it('should leave the agent card public', async () => {
+    const response = await request(createTestApp()).get(
+      '/.well-known/agent-card.json',
+    );
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ tenant: null });
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type express from 'express';
+import type { TenantConfig, TenantRegistry } from '../config/tenants.js';
+import { logger } from '../utils/logger.js';
+
+// Agent discovery stays public so clients can learn how to authenticate.
+const PUBLIC_PATHS = new Set(['/.well-known/agent-card.json']);
+
+function getToken(req: express.Request): string | undefined {
+  const authorization = req.get('Authorization');
+  if (authorization) {
+    const match = /^Bearer\s+(.+)$/i.exec(authorization);
+    return match?.[1].trim();
+  }
+  return req.get('X-API-Key');
+}
+
+/**
+ * Authenticates requests with `Authorization: Bearer <token>` or
+ * `X-API-Key: <key>` and stores the matching tenant in `res.locals.tenant`.
+ */
+export function createAuthMiddleware(
+  tenants: TenantRegistry,
+): express.RequestHandler {
+  return (req, res, next) => {
+    if (PUBLIC_PATHS.has(req.path)) {
+      next();
+      return;
+    }
+    const token = getToken(req);
+    const tenant = token ? tenants.authenticate(token) : undefined;
+    if (!tenant) {
+      logger.warn(
+        `[Auth] Rejected ${req.method} ${req.path}: ${token ? 'unknown' : 'missing'} credentials.`,
+      );
+      res
+        .status(401)
+        .set('WWW-Authenticate', 'Bearer')
+        .json({ error: 'Missing or invalid credentials.' });
+      return;
+    }
+    res.locals['tenant'] = tenant;
+    next();
+  };
+}
+
+export function getRequestTenant(
+  res: express.Response,
+): TenantConfig | undefined {
+  return res.locals['tenant'] as TenantConfig | undefined;
+}
@@ -10,6 +10,7 @@ import type express from 'express';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as os from 'node:os';
+import * as http from 'node:http';
 import type { Server } from 'node:http';
 import type { AddressInfo } from 'node:net';
 
@@ -25,7 +26,8 @@ vi.mock('../utils/logger.js', () => ({
 }));
 
 // Mock Task.create to avoid its complex setup
-vi.mock('../agent/task.js', () => {
+vi.mock('../agent/task.js', async () => {
+  const { TaskEventLog } = await import('../agent/eventLog.js');
   class MockTask {
     id: string;
     contextId: string;
@@ -38,6 +40,24 @@ vi.mock('../agent/task.js', () => {
     geminiClient = {
       initialize: vi.fn().mockResolvedValue(undefined),
     };
+    events = new TaskEventLog();
+    cancelPendingTools = vi
+      .fn()
+      .mockReturnValue([
+        { callId: 'call-1', name: 'run_shell_command', status: 'executing' },
+      ]);
+    setTaskStateAndPublishUpdate = vi.fn(
+      (state, _message, _text, _parts, final = false) => {
+        this.taskState = state;
+        this.events.append({
+          kind: 'status-update',
+          taskId: this.id,
+          contextId: this.contextId,
+          status: { state },
+          final,
+        });
+      },
+    );
     constructor(id: string, contextId: string) {
       this.id = id;
       this.contextId = contextId;
@@ -152,6 +172,121 @@ describe('Agent Server Endpoints', () => {
     expect(response.status).toBe(404);
   });
 
+  it('should list tasks by state with pagination via GET /tasks', async () => {
+    const first = (await createTask('list-context-1')).body;
+    const second = (await createTask('list-context-2')).body;
+    await request(app).delete(`/tasks/${second}`);
+
+    const submitted = await request(app).get('/tasks?state=submitted');
+    expect(submitted.status).toBe(200);
+    expect(submitted.body.tasks).toContainEqual({
+      id: first,
+      contextId: 'list-context-1',
+      taskState: 'submitted',
+      lastEventSequence: 0,
+    });
+    expect(submitted.body.tasks.map((t: { id: string }) => t.id)).not.toContain(
+      second,
+    );
+
+    const page = await request(app).get('/tasks?limit=1&offset=1');
+    expect(page.status).toBe(200);
+    expect(page.body.tasks).toHaveLength(1);
+    expect(page.body.total).toBeGreaterThanOrEqual(2);
+    expect(page.body.nextOffset).toBe(page.body.total > 2 ? 2 : undefined);
+  });
+
+  it('should reject invalid task list queries', async () => {
+    expect((await request(app).get('/tasks?state=bogus')).status).toBe(400);
+    expect((await request(app).get('/tasks?limit=0')).status).toBe(400);
+    expect((await request(app).get('/tasks?offset=-1')).status).toBe(400);
+  });
+
+  it('should cancel a task and report aborted tool calls via DELETE /tasks/:taskId', async () => {
+    const taskId = (await createTask('cancel-context')).body;
+
+    const response = await request(app).delete(`/tasks/${taskId}`);
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      id: taskId,
+      taskState: 'canceled',
+      abortedToolCalls: [
+        { callId: 'call-1', name: 'run_shell_command', status: 'executing' },
+      ],
+    });
+
+    expect((await request(app).delete(`/tasks/${taskId}`)).status).toBe(409);
+    expect((await request(app).delete('/tasks/fake-task')).status).toBe(404);
+  });
+
+  it('should replay task events from a sequence number via GET /tasks/:taskId/events', async () => {
+    const taskId = (await createTask('events-context')).body;
+    await request(app).delete(`/tasks/${taskId}`);
+
+    const response = await request(app).get(`/tasks/${taskId}/events?since=0`);
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('text/event-stream');
+    expect(response.text).toMatch(/^id: 1\ndata: /);
+    expect(JSON.parse(response.text.split('data: ')[1])).toMatchObject({
+      kind: 'status-update',
+      status: { state: 'canceled' },
+      final: true,
+    });
+
+    const resumed = await request(app)
+      .get(`/tasks/${taskId}/events`)
+      .set('Last-Event-ID', '1');
+    expect(resumed.text).toBe('');
+    expect((await request(app).get('/tasks/fake-task/events')).status).toBe(
+      404,
+    );
+  });
+
+  it('should stream new task events until the task finishes', async () => {
+    const taskId = (await createTask('live-events-context')).body;
+    const port = (server.address() as AddressInfo).port;
+
+    const body = await new Promise<string>((resolve, reject) => {
+      http
+        .get(`http://localhost:${port}/tasks/${taskId}/events`, (res) => {
+          let data = '';
+          res.setEncoding('utf8');
+          res.on('data', (chunk) => (data += chunk));
+          res.on('end', () => resolve(data));
+          // The stream is subscribed once headers arrive, so cancel now.
+          request(app).delete(`/tasks/${taskId}`).catch(reject);
+        })
+        .on('error', reject);
+    });
+
+    expect(body).toMatch(/^id: 1\ndata: .*"state":"canceled"/);
+  });
+
+  it('should end the event stream of an idle task after the idle timeout', async () => {
+    vi.stubEnv('CODER_AGENT_EVENT_STREAM_IDLE_TIMEOUT_MS', '50');
+    try {
+      const idleApp = await createApp();
+      const taskId = (
+        await request(idleApp)
+          .post('/tasks')
+          .send({
+            contextId: 'idle-events-context',
+            agentSettings: {
+              kind: 'agent-settings',
+              workspacePath: testWorkspace,
+            },
+          })
+      ).body;
+
+      const response = await request(idleApp).get(`/tasks/${taskId}/events`);
+
+      expect(response.status).toBe(200);
+      expect(response.text).toBe('');
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
   it('should return agent metadata via GET /.well-known/agent-card.json', async () => {
     const response = await request(app).get('/.well-known/agent-card.json');
     const port = (server.address() as AddressInfo).port;
@@ -160,3 +295,116 @@ describe('Agent Server Endpoints', () => {
     expect(response.body.url).toBe(`http://localhost:${port}/`);
   });
 });
+
+describe('Agent Server Endpoints with tenants', () => {
+  let app: express.Express;
+  let tempDir: string;
+
+  const asTeamA = (req: request.Test) =>
+    req.set('Authorization', 'Bearer secret-a');
+  const asTeamB = (req: request.Test) => req.set('X-API-Key', 'secret-b');
+  const createTask = (workspacePath?: string) =>
+    asTeamA(
+      request(app)
+        .post('/tasks')
+        .send({
+          contextId: 'tenant-context',
+          agentSettings: { kind: 'agent-settings', workspacePath },
+        }),
+    );
+
+  beforeAll(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gemini-tenants-test-'));
+    const tenantsFile = path.join(tempDir, 'tenants.json');
+    fs.writeFileSync(
+      tenantsFile,
+      JSON.stringify({
+        tenants: [
+          { id: 'team-a', apiKeys: ['secret-a'], workspaceRoot: 'team-a' },
+          { id: 'team-b', apiKeys: ['secret-b'], workspaceRoot: 'team-b' },
+        ],
+      }),
+    );
+    vi.stubEnv('CODER_AGENT_TENANTS_FILE', tenantsFile);
+    vi.stubEnv('CODER_AGENT_WORKSPACE_PATH', undefined);
+    app = await createApp();
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should require credentials except for the agent card', async () => {
+    const response = await request(app).get('/tasks');
+    expect(response.status).toBe(401);
+
+    const card = await request(app).get('/.well-known/agent-card.json');
+    expect(card.status).toBe(200);
+    expect(card.body.security).toEqual([{ bearer: [] }, { apiKey: [] }]);
+  });
+
+  it("should hide a tenant's tasks from other tenants", async () => {
+    const taskId = (await createTask('repo')).body;
+    expect(fs.existsSync(path.join(tempDir, 'team-a', 'repo'))).toBe(true);
+
+    const ownList = await asTeamA(request(app).get('/tasks'));
+    expect(ownList.body.tasks.map((t: { id: string }) => t.id)).toContain(
+      taskId,
+    );
+    const otherList = await asTeamB(request(app).get('/tasks'));
+    expect(otherList.body).toEqual({ tasks: [], total: 0 });
+
+    expect(
+      (await asTeamB(request(app).get(`/tasks/${taskId}/metadata`))).status,
+    ).toBe(404);
+    expect(
+      (await asTeamB(request(app).delete(`/tasks/${taskId}`))).status,
+    ).toBe(404);
+    expect(
+      (await asTeamA(request(app).get(`/tasks/${taskId}/metadata`))).status,
+    ).toBe(200);
+  });
+
+  it("should not load a tenant workspace's .env files", async () => {
+    const envDir = path.join(tempDir, 'team-a', 'env-repo', '.gemini');
+    fs.mkdirSync(envDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(envDir, '.env'),
+      `CODER_AGENT_WORKSPACE_PATH=${tempDir}\nGEMINI_API_KEY=tenant-key\n`,
+    );
+    const apiKey = process.env['GEMINI_API_KEY'];
+
+    expect((await createTask('env-repo')).status).toBe(201);
+    expect(process.env['CODER_AGENT_WORKSPACE_PATH']).toBeUndefined();
+    expect(process.env['GEMINI_API_KEY']).toBe(apiKey);
+
+    const response = await asTeamB(
+      request(app)
+        .post('/tasks')
+        .send({
+          contextId: 'tenant-context',
+          agentSettings: { kind: 'agent-settings', workspacePath: 'repo' },
+        }),
+    );
+    expect(response.status).toBe(201);
+    expect(process.cwd()).toBe(
+      fs.realpathSync(path.join(tempDir, 'team-b', 'repo')),
+    );
+  });
+
+  it('should not run server commands for tenants', async () => {
+    const response = await asTeamA(
+      request(app).post('/executeCommand').send({ command: 'extensions list' }),
+    );
+    expect(response.status).toBe(403);
+  });
+
+  it("should reject workspaces outside the tenant's root", async () => {
+    const response = await createTask('../team-b');
+    expect(response.status).toBe(403);
+    expect(response.body.error).toContain(
+      'outside the workspace root of tenant team-a',
+    );
+  });
+});
@@ -6,5 +6,10 @@
 
 import type express from 'express';
 import { AsyncLocalStorage } from 'node:async_hooks';
+import type { TenantConfig } from '../config/tenants.js';
 
-export const requestStorage = new AsyncLocalStorage<{ req: express.Request }>();
+export const requestStorage = new AsyncLocalStorage<{
+  req: express.Request;
+  /** The authenticated tenant, when the server is multi-tenant. */
+  tenant?: TenantConfig;
+}>();
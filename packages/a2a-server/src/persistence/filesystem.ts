@@ -0,0 +1,119 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as tar from 'tar';
+import * as fse from 'fs-extra';
+import { promises as fsPromises } from 'node:fs';
+import { join, resolve } from 'node:path';
+import type { Task as SDKTask } from '@a2a-js/sdk';
+import type { TaskStore } from '@a2a-js/sdk/server';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger.js';
+import type { PersistedTaskMetadata } from '../types.js';
+import {
+  archiveWorkspace,
+  assertTaskIdValid,
+  getWorkDirToSave,
+  isTaskOfRequestingTenant,
+  prepareWorkspace,
+  toLoadedTask,
+} from './workspace.js';
+
+const METADATA_FILE = 'metadata.json';
+const WORKSPACE_FILE = 'workspace.tar.gz';
+
+/**
+ * Persists tasks under `<rootDir>/tasks/<taskId>/` as a `metadata.json` file
+ * and a `workspace.tar.gz` snapshot of the workspace directory, mirroring the
+ * objects `GCSTaskStore` writes to its bucket.
+ */
+export class FileSystemTaskStore implements TaskStore {
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    if (!rootDir) {
+      throw new Error('Task store directory is required.');
+    }
+    this.rootDir = resolve(rootDir);
+    logger.info(`FileSystemTaskStore using directory: ${this.rootDir}`);
+  }
+
+  private getTaskDir(taskId: string): string {
+    assertTaskIdValid(taskId);
+    return join(this.rootDir, 'tasks', taskId);
+  }
+
+  async save(task: SDKTask): Promise<void> {
+    const taskId = task.id;
+    const taskDir = this.getTaskDir(taskId);
+    const workDir = getWorkDirToSave(task);
+
+    try {
+      await fse.ensureDir(taskDir);
+      // Write to a temporary file and rename so a crash never leaves a
+      // half-written snapshot behind.
+      const tmpMetadataFile = join(taskDir, `${METADATA_FILE}.${uuidv4()}`);
+      await fsPromises.writeFile(
+        tmpMetadataFile,
+        JSON.stringify(task.metadata),
+      );
+      await fsPromises.rename(tmpMetadataFile, join(taskDir, METADATA_FILE));
+      logger.info(`Task ${taskId} metadata saved to ${taskDir}`);
+
+      const tmpArchiveFile = join(taskDir, `${WORKSPACE_FILE}.${uuidv4()}`);
+      try {
+        if (await archiveWorkspace(taskId, workDir, tmpArchiveFile)) {
+          await fsPromises.rename(
+            tmpArchiveFile,
+            join(taskDir, WORKSPACE_FILE),
+          );
+          logger.info(`Task ${taskId} workspace saved to ${taskDir}`);
+        }
+      } finally {
+        await fse.remove(tmpArchiveFile);
+      }
+    } catch (error) {
+      logger.error(`Failed to save task ${taskId} to ${taskDir}:`, error);
+      throw error;
+    }
+  }
+
+  async load(taskId: string): Promise<SDKTask | undefined> {
+    const taskDir = this.getTaskDir(taskId);
+    const metadataFile = join(taskDir, METADATA_FILE);
+
+    try {
+      if (!(await fse.pathExists(metadataFile))) {
+        logger.info(`Task ${taskId} metadata not found in ${taskDir}.`);
+        return undefined;
+      }
+      const loadedMetadata = JSON.parse(
+        await fsPromises.readFile(metadataFile, 'utf-8'),
+      ) as PersistedTaskMetadata;
+      logger.info(`Task ${taskId} metadata loaded from ${taskDir}.`);
+      if (!isTaskOfRequestingTenant(taskId, loadedMetadata)) {
+        return undefined;
+      }
+
+      const { persistedState, workDir } = await prepareWorkspace(
+        taskId,
+        loadedMetadata,
+      );
+      const archiveFile = join(taskDir, WORKSPACE_FILE);
+      if (await fse.pathExists(archiveFile)) {
+        await tar.x({ file: archiveFile, cwd: workDir });
+        logger.info(`Task ${taskId} workspace restored to ${workDir}`);
+      } else {
+        logger.info(`Task ${taskId} workspace archive not found.`);
+      }
+
+      return toLoadedTask(taskId, loadedMetadata, persistedState);
+    } catch (error) {
+      logger.error(`Failed to load task ${taskId} from ${taskDir}:`, error);
+      throw error;
+    }
+  }
+}
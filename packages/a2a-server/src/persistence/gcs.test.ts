@@ -81,6 +81,7 @@ vi.mock('../utils/logger.js', () => ({
   },
 }));
 vi.mock('../config/config.js', () => ({
+  getTargetDir: vi.fn(),
   setTargetDir: vi.fn(),
 }));
 vi.mock('node:stream/promises', () => ({
@@ -15,21 +15,17 @@ import type { Task as SDKTask } from '@a2a-js/sdk';
 import type { TaskStore } from '@a2a-js/sdk/server';
 import { logger } from '../utils/logger.js';
 import { setTargetDir } from '../config/config.js';
-import { getPersistedState, type PersistedTaskMetadata } from '../types.js';
+import { getPersistedState } from '../types.js';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  getTmpArchiveFilename,
+  getWorkDirToSave,
+  isTaskIdValid,
+  isTaskOfRequestingTenant,
+} from './workspace.js';
 
 type ObjectType = 'metadata' | 'workspace';
 
-const getTmpArchiveFilename = (taskId: string): string =>
-  `task-${taskId}-workspace-${uuidv4()}.tar.gz`;
-
-// Validate the taskId to prevent path traversal attacks by ensuring it only contains safe characters.
-const isTaskIdValid = (taskId: string): boolean => {
-  // Allow only alphanumeric characters, dashes, and underscores, and ensure it's not empty.
-  const validTaskIdRegex = /^[a-zA-Z0-9_-]+$/;
-  return validTaskIdRegex.test(taskId);
-};
-
 export class GCSTaskStore implements TaskStore {
   private storage: Storage;
   private bucketName: string;
@@ -94,14 +90,7 @@ export class GCSTaskStore implements TaskStore {
   async save(task: SDKTask): Promise<void> {
     await this.ensureBucketInitialized();
     const taskId = task.id;
-    const persistedState = getPersistedState(
-      task.metadata as PersistedTaskMetadata,
-    );
-
-    if (!persistedState) {
-      throw new Error(`Task ${taskId} is missing persisted state in metadata.`);
-    }
-    const workDir = process.cwd();
+    const workDir = getWorkDirToSave(task);
 
     const metadataObjectPath = this.getObjectPath(taskId, 'metadata');
     const workspaceObjectPath = this.getObjectPath(taskId, 'workspace');
@@ -247,6 +236,9 @@ export class GCSTaskStore implements TaskStore {
       const jsonData = gunzipSync(compressedMetadata).toString();
       const loadedMetadata = JSON.parse(jsonData);
       logger.info(`Task ${taskId} metadata loaded from GCS.`);
+      if (!isTaskOfRequestingTenant(taskId, loadedMetadata)) {
+        return undefined;
+      }
 
       const persistedState = getPersistedState(loadedMetadata);
       if (!persistedState) {
@@ -256,7 +248,7 @@ export class GCSTaskStore implements TaskStore {
       }
       const agentSettings = persistedState._agentSettings;
 
-      const workDir = setTargetDir(agentSettings);
+      const workDir = setTargetDir(agentSettings, loadedMetadata['_tenantId']);
       await fse.ensureDir(workDir);
       const workspaceFile = this.storage
         .bucket(this.bucketName)
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { mkdirSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import type { Task as SDKTask } from '@a2a-js/sdk';
+import type { TaskStore } from '@a2a-js/sdk/server';
+import { logger } from '../utils/logger.js';
+import type { PersistedTaskMetadata } from '../types.js';
+import {
+  assertTaskIdValid,
+  extractWorkspaceArchive,
+  getWorkDirToSave,
+  isTaskOfRequestingTenant,
+  prepareWorkspace,
+  readWorkspaceArchive,
+  toLoadedTask,
+} from './workspace.js';
+
+// The subset of `node:sqlite` used here. The module ships with Node.js 22.13+
+// and is looked up at runtime so the server still starts on older versions.
+interface StatementSync {
+  run(...params: unknown[]): unknown;
+  get(...params: unknown[]): unknown;
+}
+
+interface DatabaseSync {
+  exec(sql: string): void;
+  prepare(sql: string): StatementSync;
+  close(): void;
+}
+
+interface SQLiteModule {
+  DatabaseSync: new (path: string) => DatabaseSync;
+}
+
+interface TaskRow {
+  metadata: string;
+  workspace: Uint8Array | null;
+}
+
+export function isSQLiteAvailable(): boolean {
+  return process.getBuiltinModule?.('node:sqlite') !== undefined;
+}
+
+/**
+ * Persists tasks in a single SQLite database file: one row per task holding
+ * its metadata as JSON and a gzipped tarball of its workspace.
+ */
+export class SQLiteTaskStore implements TaskStore {
+  private db: DatabaseSync;
+
+  constructor(databasePath: string) {
+    if (!databasePath) {
+      throw new Error('SQLite database path is required.');
+    }
+    const sqlite = process.getBuiltinModule?.('node:sqlite') as
+      | SQLiteModule
+      | undefined;
+    if (!sqlite) {
+      throw new Error(
+        `SQLiteTaskStore requires Node.js 22.13 or later (running ${process.version}).`,
+      );
+    }
+    const resolvedPath = resolve(databasePath);
+    mkdirSync(dirname(resolvedPath), { recursive: true });
+    this.db = new sqlite.DatabaseSync(resolvedPath);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS tasks (
+        id TEXT PRIMARY KEY,
+        metadata TEXT NOT NULL,
+        workspace BLOB,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    logger.info(`SQLiteTaskStore using database: ${resolvedPath}`);
+  }
+
+  async save(task: SDKTask): Promise<void> {
+    const taskId = task.id;
+    assertTaskIdValid(taskId);
+    const workDir = getWorkDirToSave(task);
+
+    try {
+      const workspace = await readWorkspaceArchive(taskId, workDir);
+      // Like the other stores, an empty workspace keeps the previous snapshot.
+      this.db
+        .prepare(
+          `INSERT INTO tasks (id, metadata, workspace, updated_at)
+           VALUES (?, ?, ?, ?)
+           ON CONFLICT(id) DO UPDATE SET
+             metadata = excluded.metadata,
+             workspace = COALESCE(excluded.workspace, tasks.workspace),
+             updated_at = excluded.updated_at`,
+        )
+        .run(
+          taskId,
+          JSON.stringify(task.metadata),
+          workspace ?? null,
+          new Date().toISOString(),
+        );
+      logger.info(`Task ${taskId} saved to SQLite.`);
+    } catch (error) {
+      logger.error(`Failed to save task ${taskId} to SQLite:`, error);
+      throw error;
+    }
+  }
+
+  async load(taskId: string): Promise<SDKTask | undefined> {
+    assertTaskIdValid(taskId);
+
+    try {
+      const row = this.db
+        .prepare('SELECT metadata, workspace FROM tasks WHERE id = ?')
+        .get(taskId) as TaskRow | undefined;
+      if (!row) {
+        logger.info(`Task ${taskId} not found in SQLite.`);
+        return undefined;
+      }
+      const loadedMetadata = JSON.parse(row.metadata) as PersistedTaskMetadata;
+      if (!isTaskOfRequestingTenant(taskId, loadedMetadata)) {
+        return undefined;
+      }
+
+      const { persistedState, workDir } = await prepareWorkspace(
+        taskId,
+        loadedMetadata,
+      );
+      if (row.workspace) {
+        await extractWorkspaceArchive(taskId, row.workspace, workDir);
+        logger.info(`Task ${taskId} workspace restored to ${workDir}`);
+      } else {
+        logger.info(`Task ${taskId} has no workspace snapshot.`);
+      }
+
+      return toLoadedTask(taskId, loadedMetadata, persistedState);
+    } catch (error) {
+      logger.error(`Failed to load task ${taskId} from SQLite:`, error);
+      throw error;
+    }
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,428 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { Task as SDKTask, TaskState } from '@a2a-js/sdk';
+import type { TaskStore } from '@a2a-js/sdk/server';
+import { InMemoryTaskStore } from '@a2a-js/sdk/server';
+import type { Mock } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { setTargetDir } from '../config/config.js';
+import { CoderAgentEvent, setPersistedState } from '../types.js';
+import { GCSTaskStore } from './gcs.js';
+import { FileSystemTaskStore } from './filesystem.js';
+import { SQLiteTaskStore, isSQLiteAvailable } from './sqlite.js';
+import type { Request } from 'express';
+import { requestStorage } from '../http/requestStorage.js';
+import {
+  createTaskStore,
+  getTaskStoreUri,
+  isPersistentTaskStore,
+  TenantScopedTaskStore,
+} from './taskStore.js';
+
+// Objects written to the fake GCS bucket, keyed by `<bucket>/<path>`.
+const gcsObjects = vi.hoisted(() => new Map<string, Buffer>());
+
+vi.mock('@google-cloud/storage', async () => {
+  const { Writable } = await import('node:stream');
+  const { promises: fsPromises } = await import('node:fs');
+
+  class FakeFile {
+    constructor(private key: string) {}
+
+    async save(data: Buffer) {
+      gcsObjects.set(this.key, Buffer.from(data));
+    }
+
+    async exists() {
+      return [gcsObjects.has(this.key)];
+    }
+
+    async download(options?: { destination?: string }) {
+      const data = gcsObjects.get(this.key)!;
+      if (options?.destination) {
+        await fsPromises.writeFile(options.destination, data);
+        return [];
+      }
+      return [data];
+    }
+
+    createWriteStream() {
+      const chunks: Buffer[] = [];
+      return new Writable({
+        write(chunk, _encoding, callback) {
+          chunks.push(chunk);
+          callback();
+        },
+        final: (callback) => {
+          gcsObjects.set(this.key, Buffer.concat(chunks));
+          callback();
+        },
+      });
+    }
+  }
+
+  class Storage {
+    async getBuckets() {
+      return [[{ name: 'test-bucket' }]];
+    }
+
+    bucket(name: string) {
+      return {
+        file: (objectPath: string) => new FakeFile(`${name}/${objectPath}`),
+      };
+    }
+  }
+
+  return { Storage };
+});
+vi.mock('../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+vi.mock('../config/config.js', async () => {
+  const actual = await vi.importActual('../config/config.js');
+  return { ...actual, setTargetDir: vi.fn() };
+});
+
+describe('getTaskStoreUri', () => {
+  it('should prefer TASK_STORE', () => {
+    expect(
+      getTaskStoreUri({
+        TASK_STORE: 'sqlite:///var/lib/a2a/tasks.db',
+        GCS_BUCKET_NAME: 'bucket',
+      }),
+    ).toBe('sqlite:///var/lib/a2a/tasks.db');
+  });
+
+  it('should fall back to GCS_BUCKET_NAME, then memory', () => {
+    expect(getTaskStoreUri({ GCS_BUCKET_NAME: 'bucket' })).toBe('gs://bucket');
+    expect(getTaskStoreUri({})).toBe('memory://');
+  });
+});
+
+describe('createTaskStore', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'task-store-uri-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should create an in-memory store', () => {
+    const store = createTaskStore('memory://');
+    expect(store).toBeInstanceOf(InMemoryTaskStore);
+    expect(isPersistentTaskStore(store)).toBe(false);
+  });
+
+  it('should create a GCS store', () => {
+    const store = createTaskStore('gs://test-bucket');
+    expect(store).toBeInstanceOf(GCSTaskStore);
+    expect(isPersistentTaskStore(store)).toBe(true);
+  });
+
+  it('should create a filesystem store', () => {
+    const store = createTaskStore(`file://${tempDir}`);
+    expect(store).toBeInstanceOf(FileSystemTaskStore);
+    expect(isPersistentTaskStore(store)).toBe(true);
+  });
+
+  it.skipIf(!isSQLiteAvailable())('should create a SQLite store', () => {
+    const store = createTaskStore(`sqlite://${tempDir}/tasks.db`);
+    expect(store).toBeInstanceOf(SQLiteTaskStore);
+    (store as SQLiteTaskStore).close();
+  });
+
+  it('should reject unknown schemes', () => {
+    expect(() => createTaskStore('redis://localhost')).toThrow(
+      'Unsupported TASK_STORE "redis://localhost".',
+    );
+  });
+});
+
+describe('TenantScopedTaskStore', () => {
+  const loadAs = (store: TaskStore, tenantId: string | undefined) =>
+    requestStorage.run(
+      {
+        req: {} as Request,
+        tenant: tenantId
+          ? { id: tenantId, apiKeys: [], workspaceRoot: '/srv' }
+          : undefined,
+      },
+      () => store.load('task-1'),
+    );
+
+  it('should only load tasks of the requesting tenant', async () => {
+    const store = new TenantScopedTaskStore(new InMemoryTaskStore());
+    await store.save(makeTask('task-1', 'working', { _tenantId: 'team-a' }));
+
+    await expect(loadAs(store, 'team-a')).resolves.toMatchObject({
+      id: 'task-1',
+    });
+    await expect(loadAs(store, 'team-b')).resolves.toBeUndefined();
+    await expect(loadAs(store, undefined)).resolves.toBeUndefined();
+  });
+
+  it('should load untenanted tasks without a tenant', async () => {
+    const store = new TenantScopedTaskStore(new InMemoryTaskStore());
+    await store.save(makeTask('task-1', 'working'));
+
+    await expect(loadAs(store, undefined)).resolves.toMatchObject({
+      id: 'task-1',
+    });
+    await expect(loadAs(store, 'team-a')).resolves.toBeUndefined();
+  });
+});
+
+interface StoreFactory {
+  name: string;
+  skip?: boolean;
+  /** Opens a store; stores opened on the same location share their data. */
+  open: (location: string) => TaskStore;
+}
+
+const storeFactories: StoreFactory[] = [
+  { name: 'GCSTaskStore', open: () => new GCSTaskStore('test-bucket') },
+  {
+    name: 'FileSystemTaskStore',
+    open: (location) => new FileSystemTaskStore(location),
+  },
+  {
+    name: 'SQLiteTaskStore',
+    skip: !isSQLiteAvailable(),
+    open: (location) => new SQLiteTaskStore(path.join(location, 'tasks.db')),
+  },
+];
+
+function makeTask(
+  id: string,
+  state: TaskState,
+  metadata: Record<string, unknown> = {},
+  workspacePath = '/workspace',
+): SDKTask {
+  return {
+    id,
+    contextId: 'ctx-1',
+    kind: 'task',
+    status: { state },
+    metadata: setPersistedState(
+      { _contextId: 'ctx-1', ...metadata },
+      {
+        _agentSettings: {
+          kind: CoderAgentEvent.StateAgentSettingsEvent,
+          workspacePath,
+        },
+        _taskState: state,
+      },
+    ),
+  };
+}
+
+describe.each(storeFactories)('$name contract', ({ skip, open }) => {
+  let tempDir: string;
+  let workspaceDir: string;
+  let restoreDir: string;
+  let storeDir: string;
+  let openStores: TaskStore[];
+
+  const openStore = () => {
+    const store = open(storeDir);
+    openStores.push(store);
+    return store;
+  };
+  const makeWorkspaceTask = (
+    id: string,
+    state: TaskState,
+    metadata: Record<string, unknown> = {},
+  ) => makeTask(id, state, metadata, workspaceDir);
+  const loadAs = (store: TaskStore, taskId: string, tenantId: string) =>
+    requestStorage.run(
+      {
+        req: {} as Request,
+        tenant: { id: tenantId, apiKeys: [], workspaceRoot: tempDir },
+      },
+      () => store.load(taskId),
+    );
+
+  beforeEach(() => {
+    if (skip) return;
+    gcsObjects.clear();
+    openStores = [];
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'task-store-contract-'));
+    workspaceDir = path.join(tempDir, 'workspace');
+    restoreDir = path.join(tempDir, 'restore');
+    storeDir = path.join(tempDir, 'store');
+    fs.mkdirSync(workspaceDir);
+    // Stores must never snapshot the server's working directory.
+    vi.spyOn(process, 'cwd').mockReturnValue(os.homedir());
+    (setTargetDir as Mock).mockReturnValue(restoreDir);
+  });
+
+  afterEach(() => {
+    if (skip) return;
+    for (const store of openStores) {
+      (store as { close?: () => void }).close?.();
+    }
+    vi.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it.skipIf(skip)('should return undefined for an unknown task', async () => {
+    await expect(openStore().load('missing')).resolves.toBeUndefined();
+  });
+
+  it.skipIf(skip)(
+    'should restore metadata and workspace across store instances',
+    async () => {
+      fs.mkdirSync(path.join(workspaceDir, 'src'));
+      fs.writeFileSync(path.join(workspaceDir, 'src', 'main.ts'), 'main');
+      const task = makeWorkspaceTask('task-1', 'input-required', {
+        note: 'hi',
+      });
+      await openStore().save(task);
+
+      const loaded = await openStore().load('task-1');
+
+      expect(loaded).toEqual({
+        id: 'task-1',
+        contextId: 'ctx-1',
+        kind: 'task',
+        status: { state: 'input-required', timestamp: expect.any(String) },
+        metadata: task.metadata,
+        history: [],
+        artifacts: [],
+      });
+      expect(setTargetDir).toHaveBeenCalledWith(
+        {
+          kind: CoderAgentEvent.StateAgentSettingsEvent,
+          workspacePath: workspaceDir,
+        },
+        undefined,
+      );
+      expect(
+        fs.readFileSync(path.join(restoreDir, 'src', 'main.ts'), 'utf-8'),
+      ).toBe('main');
+    },
+  );
+
+  it.skipIf(skip)(
+    "should not restore the workspace of another tenant's task",
+    async () => {
+      fs.writeFileSync(path.join(workspaceDir, 'notes.txt'), 'team-a');
+      await openStore().save(
+        makeWorkspaceTask('task-1', 'working', { _tenantId: 'team-a' }),
+      );
+
+      const loaded = await loadAs(openStore(), 'task-1', 'team-b');
+
+      expect(loaded).toBeUndefined();
+      expect(setTargetDir).not.toHaveBeenCalled();
+      expect(fs.existsSync(path.join(restoreDir, 'notes.txt'))).toBe(false);
+    },
+  );
+
+  it.skipIf(skip)(
+    "should save each task's own workspace across tenants",
+    async () => {
+      const teamADir = path.join(tempDir, 'team-a');
+      const teamBDir = path.join(tempDir, 'team-b');
+      fs.mkdirSync(teamADir);
+      fs.mkdirSync(teamBDir);
+      fs.writeFileSync(path.join(teamADir, 'notes.txt'), 'team-a');
+      fs.writeFileSync(path.join(teamBDir, 'notes.txt'), 'team-b');
+      // The server last handled a request of team-b.
+      vi.spyOn(process, 'cwd').mockReturnValue(teamBDir);
+      const store = openStore();
+
+      await store.save(
+        makeTask('task-a', 'working', { _tenantId: 'team-a' }, teamADir),
+      );
+      await store.save(
+        makeTask('task-b', 'working', { _tenantId: 'team-b' }, teamBDir),
+      );
+
+      await loadAs(store, 'task-a', 'team-a');
+      expect(fs.readFileSync(path.join(restoreDir, 'notes.txt'), 'utf-8')).toBe(
+        'team-a',
+      );
+      await loadAs(store, 'task-b', 'team-b');
+      expect(fs.readFileSync(path.join(restoreDir, 'notes.txt'), 'utf-8')).toBe(
+        'team-b',
+      );
+    },
+  );
+
+  it.skipIf(skip)('should return the latest save of a task', async () => {
+    const store = openStore();
+    fs.writeFileSync(path.join(workspaceDir, 'notes.txt'), 'first');
+    await store.save(makeWorkspaceTask('task-1', 'working'));
+    fs.writeFileSync(path.join(workspaceDir, 'notes.txt'), 'second');
+    await store.save(makeWorkspaceTask('task-1', 'completed'));
+
+    const loaded = await store.load('task-1');
+
+    expect(loaded?.status.state).toBe('completed');
+    expect(fs.readFileSync(path.join(restoreDir, 'notes.txt'), 'utf-8')).toBe(
+      'second',
+    );
+  });
+
+  it.skipIf(skip)(
+    'should keep the previous workspace snapshot when the workspace is empty',
+    async () => {
+      const store = openStore();
+      fs.writeFileSync(path.join(workspaceDir, 'notes.txt'), 'kept');
+      await store.save(makeWorkspaceTask('task-1', 'working'));
+      fs.rmSync(path.join(workspaceDir, 'notes.txt'));
+      await store.save(makeWorkspaceTask('task-1', 'completed'));
+
+      const loaded = await store.load('task-1');
+
+      expect(loaded?.status.state).toBe('completed');
+      expect(fs.readFileSync(path.join(restoreDir, 'notes.txt'), 'utf-8')).toBe(
+        'kept',
+      );
+    },
+  );
+
+  it.skipIf(skip)('should load a task saved without a workspace', async () => {
+    const store = openStore();
+    await store.save(makeWorkspaceTask('task-1', 'submitted'));
+
+    const loaded = await store.load('task-1');
+
+    expect(loaded?.status.state).toBe('submitted');
+    expect(fs.readdirSync(restoreDir)).toEqual([]);
+  });
+
+  it.skipIf(skip)('should reject task ids with unsafe characters', async () => {
+    const store = openStore();
+    await expect(
+      store.save(makeWorkspaceTask('../../escape', 'working')),
+    ).rejects.toThrow('Invalid taskId: ../../escape');
+    await expect(store.load('../../escape')).rejects.toThrow(
+      'Invalid taskId: ../../escape',
+    );
+  });
+
+  it.skipIf(skip)('should reject tasks without persisted state', async () => {
+    const task = { ...makeWorkspaceTask('task-1', 'working'), metadata: {} };
+    await expect(openStore().save(task)).rejects.toThrow(
+      'Task task-1 is missing persisted state in metadata.',
+    );
+  });
+});
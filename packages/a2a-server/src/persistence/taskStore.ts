@@ -0,0 +1,89 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Task as SDKTask } from '@a2a-js/sdk';
+import type { TaskStore } from '@a2a-js/sdk/server';
+import { InMemoryTaskStore } from '@a2a-js/sdk/server';
+import { logger } from '../utils/logger.js';
+import { requestStorage } from '../http/requestStorage.js';
+import { GCSTaskStore } from './gcs.js';
+import { FileSystemTaskStore } from './filesystem.js';
+import { SQLiteTaskStore } from './sqlite.js';
+
+/**
+ * Returns the task store URI for the server: `TASK_STORE` when set, otherwise
+ * `gs://$GCS_BUCKET_NAME` for compatibility, falling back to memory.
+ */
+export function getTaskStoreUri(env: NodeJS.ProcessEnv = process.env): string {
+  if (env['TASK_STORE']) {
+    return env['TASK_STORE'];
+  }
+  if (env['GCS_BUCKET_NAME']) {
+    return `gs://${env['GCS_BUCKET_NAME']}`;
+  }
+  return 'memory://';
+}
+
+/**
+ * Creates the task store a URI points at:
+ *
+ * - `memory://` keeps tasks in memory only.
+ * - `gs://<bucket>` stores them in a Google Cloud Storage bucket.
+ * - `file://<dir>` stores them under a local directory.
+ * - `sqlite://<file>` stores them in a SQLite database.
+ *
+ * Relative paths resolve against the server's working directory.
+ */
+export function createTaskStore(uri: string): TaskStore {
+  const match = /^([a-z]+):(?:\/\/)?(.*)$/.exec(uri);
+  const [, scheme, location] = match ?? [];
+  switch (scheme) {
+    case 'memory':
+      return new InMemoryTaskStore();
+    case 'gs':
+      return new GCSTaskStore(location);
+    case 'file':
+      return new FileSystemTaskStore(location);
+    case 'sqlite':
+      return new SQLiteTaskStore(location);
+    default:
+      throw new Error(
+        `Unsupported TASK_STORE "${uri}". Use memory://, gs://<bucket>, file://<dir> or sqlite://<file>.`,
+      );
+  }
+}
+
+/**
+ * Whether a store snapshots the workspace on save. Such stores are only saved
+ * to by the executor, which knows when the workspace is in a consistent state.
+ */
+export function isPersistentTaskStore(store: TaskStore): boolean {
+  return !(store instanceof InMemoryTaskStore);
+}
+
+/**
+ * Hides tasks of other tenants from the A2A request handler. The tenant is
+ * the one authenticated for the request being handled.
+ */
+export class TenantScopedTaskStore implements TaskStore {
+  constructor(private realStore: TaskStore) {}
+
+  async save(task: SDKTask): Promise<void> {
+    return this.realStore.save(task);
+  }
+
+  async load(taskId: string): Promise<SDKTask | undefined> {
+    const task = await this.realStore.load(taskId);
+    const tenantId = requestStorage.getStore()?.tenant?.id;
+    if (task && task.metadata?.['_tenantId'] !== tenantId) {
+      logger.warn(
+        `[TenantScopedTaskStore] Task ${taskId} does not belong to the requesting tenant.`,
+      );
+      return undefined;
+    }
+    return task;
+  }
+}
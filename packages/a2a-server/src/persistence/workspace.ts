@@ -0,0 +1,192 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as tar from 'tar';
+import * as fse from 'fs-extra';
+import { promises as fsPromises } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import type { Task as SDKTask } from '@a2a-js/sdk';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger.js';
+import { getTargetDir, setTargetDir } from '../config/config.js';
+import { requestStorage } from '../http/requestStorage.js';
+import {
+  getPersistedState,
+  type PersistedStateMetadata,
+  type PersistedTaskMetadata,
+} from '../types.js';
+
+export const getTmpArchiveFilename = (taskId: string): string =>
+  `task-${taskId}-workspace-${uuidv4()}.tar.gz`;
+
+// Validate the taskId to prevent path traversal attacks by ensuring it only contains safe characters.
+export const isTaskIdValid = (taskId: string): boolean => {
+  // Allow only alphanumeric characters, dashes, and underscores, and ensure it's not empty.
+  const validTaskIdRegex = /^[a-zA-Z0-9_-]+$/;
+  return validTaskIdRegex.test(taskId);
+};
+
+export function assertTaskIdValid(taskId: string): void {
+  if (!isTaskIdValid(taskId)) {
+    throw new Error(`Invalid taskId: ${taskId}`);
+  }
+}
+
+/**
+ * Returns the persisted state of a task that is about to be saved, throwing if
+ * the executor did not attach it.
+ */
+export function getStateToSave(task: SDKTask): PersistedStateMetadata {
+  const persistedState = getPersistedState(
+    task.metadata as PersistedTaskMetadata,
+  );
+  if (!persistedState) {
+    throw new Error(`Task ${task.id} is missing persisted state in metadata.`);
+  }
+  return persistedState;
+}
+
+/**
+ * Returns the workspace directory of a task that is about to be saved. The
+ * server's working directory follows whichever task was handled last, so it is
+ * only used for tasks that have no workspace of their own.
+ */
+export function getWorkDirToSave(task: SDKTask): string {
+  const workDir = getTargetDir(
+    getStateToSave(task)._agentSettings,
+    task.metadata?.['_tenantId'] as string | undefined,
+  );
+  return workDir ? resolve(workDir) : process.cwd();
+}
+
+/**
+ * Writes a gzipped tarball of `workDir` to `destination`. Returns false without
+ * writing anything when the directory is missing or empty.
+ */
+export async function archiveWorkspace(
+  taskId: string,
+  workDir: string,
+  destination: string,
+): Promise<boolean> {
+  if (!(await fse.pathExists(workDir))) {
+    logger.info(
+      `Workspace directory ${workDir} not found, skipping workspace save for task ${taskId}.`,
+    );
+    return false;
+  }
+  const entries = await fsPromises.readdir(workDir);
+  if (entries.length === 0) {
+    logger.info(
+      `Workspace directory ${workDir} is empty, skipping workspace save for task ${taskId}.`,
+    );
+    return false;
+  }
+  await tar.c(
+    { gzip: true, file: destination, cwd: workDir, portable: true },
+    entries,
+  );
+  if (!(await fse.pathExists(destination))) {
+    throw new Error(`tar.c command failed to create ${destination}`);
+  }
+  return true;
+}
+
+/**
+ * Archives `workDir` into a temporary file and returns its contents, or
+ * undefined when there is nothing to archive.
+ */
+export async function readWorkspaceArchive(
+  taskId: string,
+  workDir: string,
+): Promise<Buffer | undefined> {
+  const tmpArchiveFile = join(tmpdir(), getTmpArchiveFilename(taskId));
+  try {
+    if (!(await archiveWorkspace(taskId, workDir, tmpArchiveFile))) {
+      return undefined;
+    }
+    return await fsPromises.readFile(tmpArchiveFile);
+  } finally {
+    await fse.remove(tmpArchiveFile);
+  }
+}
+
+/**
+ * Whether a persisted task belongs to the tenant of the request being handled.
+ * Stores check this before restoring the task's workspace, so a request never
+ * restores, and overwrites, the workspace of another tenant.
+ */
+export function isTaskOfRequestingTenant(
+  taskId: string,
+  metadata: PersistedTaskMetadata,
+): boolean {
+  if (metadata['_tenantId'] === requestStorage.getStore()?.tenant?.id) {
+    return true;
+  }
+  logger.warn(`Task ${taskId} does not belong to the requesting tenant.`);
+  return false;
+}
+
+/**
+ * Validates loaded metadata and points the server at the task's workspace
+ * directory, creating it if needed. Returns the directory to restore into.
+ */
+export async function prepareWorkspace(
+  taskId: string,
+  metadata: PersistedTaskMetadata,
+): Promise<{ persistedState: PersistedStateMetadata; workDir: string }> {
+  const persistedState = getPersistedState(metadata);
+  if (!persistedState) {
+    throw new Error(
+      `Loaded metadata for task ${taskId} is missing internal persisted state.`,
+    );
+  }
+  const workDir = setTargetDir(
+    persistedState._agentSettings,
+    metadata['_tenantId'] as string | undefined,
+  );
+  await fse.ensureDir(workDir);
+  return { persistedState, workDir };
+}
+
+/**
+ * Extracts a workspace archive held in memory into `workDir`.
+ */
+export async function extractWorkspaceArchive(
+  taskId: string,
+  archive: Uint8Array,
+  workDir: string,
+): Promise<void> {
+  const tmpArchiveFile = join(tmpdir(), getTmpArchiveFilename(taskId));
+  try {
+    await fsPromises.writeFile(tmpArchiveFile, archive);
+    await tar.x({ file: tmpArchiveFile, cwd: workDir });
+  } finally {
+    await fse.remove(tmpArchiveFile);
+  }
+}
+
+/**
+ * Rebuilds the SDK task a store hands back from its persisted metadata.
+ */
+export function toLoadedTask(
+  taskId: string,
+  metadata: PersistedTaskMetadata,
+  persistedState: PersistedStateMetadata,
+): SDKTask {
+  return {
+    id: taskId,
+    contextId: (metadata['_contextId'] as string) || uuidv4(),
+    kind: 'task',
+    status: {
+      state: persistedState._taskState,
+      timestamp: new Date().toISOString(),
+    },
+    metadata,
+    history: [],
+    artifacts: [],
+  };
+}
@@ -112,6 +112,16 @@ export interface TaskMetadata {
   }>;
 }
 
+/**
+ * A tool call that was still in flight when its task was canceled.
+ */
+export interface AbortedToolCall {
+  callId: string;
+  name: string;
+  /** The status the tool call had when it was aborted. */
+  status: string;
+}
+
 export interface PersistedStateMetadata {
   _agentSettings: AgentSettings;
   _taskState: TaskState;
@@ -5,19 +5,31 @@
  */
 
 import winston from 'winston';
+import { requestStorage } from '../http/requestStorage.js';
+
+// Stamps the tenant of the request being handled, if any, on every entry.
+const tenantFormat = winston.format((info) => {
+  const tenantId = requestStorage.getStore()?.tenant?.id;
+  if (tenantId) {
+    info['tenantId'] = tenantId;
+  }
+  return info;
+});
 
 const logger = winston.createLogger({
   level: 'info',
   format: winston.format.combine(
+    tenantFormat(),
     // First, add a timestamp to the log info object
     winston.format.timestamp({
       format: 'YYYY-MM-DD HH:mm:ss.SSS A', // Custom timestamp format
     }),
     // Here we define the custom output format
     winston.format.printf((info) => {
-      const { level, timestamp, message, ...rest } = info;
+      const { level, timestamp, message, tenantId, ...rest } = info;
+      const tenant = tenantId ? ` [tenant:${tenantId}]` : '';
       return (
-        `[${level.toUpperCase()}] ${timestamp} -- ${message}` +
+        `[${level.toUpperCase()}] ${timestamp}${tenant} -- ${message}` +
         `${Object.keys(rest).length > 0 ? `\n${JSON.stringify(rest, null, 2)}` : ''}`
       ); // Only print ...rest if present
     }),
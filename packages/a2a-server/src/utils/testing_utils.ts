@@ -52,6 +52,7 @@ export function createMockConfig(
     getUserTier: vi.fn(),
     getEnableMessageBusIntegration: vi.fn().mockReturnValue(false),
     getMessageBus: vi.fn(),
+    getHookSystem: vi.fn(),
     getPolicyEngine: vi.fn(),
     getEnableExtensionReloading: vi.fn().mockReturnValue(false),
     ...overrides,
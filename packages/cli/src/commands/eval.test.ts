@@ -0,0 +1,115 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import yargs from 'yargs';
+import { evalCommand, formatEvalTable } from './eval.js';
+import type { EvalRunResult } from './eval/runner.js';
+
+function run(overrides: Partial<EvalRunResult>): EvalRunResult {
+  return {
+    scenario: 'fix-typo',
+    profile: 'default',
+    status: 'pass',
+    responseText: '',
+    turns: 2,
+    toolCalls: { read_file: 1, replace: 1 },
+    usage: {
+      promptTokens: 12000,
+      candidateTokens: 300,
+      cachedTokens: 0,
+      totalTokens: 12300,
+    },
+    assertions: [
+      {
+        assertion: { type: 'toolCalled', tool: 'replace' },
+        passed: true,
+        message: 'replace called 1 time(s), expected at least 1',
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('eval command', () => {
+  it('should default to comparing the original and default profiles', async () => {
+    const parser = yargs([])
+      .command({ ...evalCommand, handler: () => {} })
+      .fail(false);
+
+    const argv = await parser.parse('eval scenarios');
+
+    expect(argv['scenarios']).toEqual(['scenarios']);
+    expect(argv['profiles']).toEqual(['original', 'default']);
+    expect(argv['record']).toBe(false);
+  });
+});
+
+describe('formatEvalTable', () => {
+  it('should put each profile in its own column and list failures', () => {
+    const output = formatEvalTable(
+      ['original', 'default'],
+      [
+        {
+          scenario: 'fix-typo',
+          runs: [
+            run({ profile: 'original' }),
+            run({
+              status: 'fail',
+              turns: 4,
+              toolCalls: { read_file: 3 },
+              usage: {
+                promptTokens: 9000,
+                candidateTokens: 250,
+                cachedTokens: 0,
+                totalTokens: 9250,
+              },
+              assertions: [
+                {
+                  assertion: { type: 'toolCalled', tool: 'replace' },
+                  passed: false,
+                  message: 'replace called 0 time(s), expected at least 1',
+                },
+              ],
+            }),
+          ],
+        },
+        {
+          scenario: 'explain',
+          runs: [
+            run({ profile: 'original', assertions: [] }),
+            run({ status: 'error', error: 'No recording at x.' }),
+          ],
+        },
+      ],
+    );
+
+    expect(output).toBe(
+      [
+        'Scenario  Metric         original   default',
+        '--------  -------------  --------  --------',
+        'fix-typo  Result         PASS 1/1  FAIL 0/1',
+        '          Turns                 2         4',
+        '          Tool Calls            2         3',
+        '          Input Tokens     12,000     9,000',
+        '          Output Tokens       300       250',
+        '          Total Tokens     12,300     9,250',
+        '--------  -------------  --------  --------',
+        'explain   Result         PASS 0/0     ERROR',
+        '          Turns                 2         2',
+        '          Tool Calls            2         2',
+        '          Input Tokens     12,000    12,000',
+        '          Output Tokens       300       300',
+        '          Total Tokens     12,300    12,300',
+        '',
+        'Failures:',
+        '- fix-typo [default]: replace called 0 time(s), expected at least 1',
+        '- explain [default]: No recording at x.',
+        '',
+      ].join('\n'),
+    );
+  });
+});
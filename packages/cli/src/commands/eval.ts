@@ -0,0 +1,229 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// File for 'gemini eval' command
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { CommandModule } from 'yargs';
+import { debugLogger } from '@google/gemini-cli-core';
+import { loadSettings } from '../config/settings.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { loadScenarios, type EvalScenario } from './eval/scenario.js';
+import {
+  DEFAULT_EVAL_MAX_TURNS,
+  runEvalScenario,
+  type EvalRunOptions,
+  type EvalRunResult,
+} from './eval/runner.js';
+
+const FORMATS = ['table', 'json'] as const;
+type EvalFormat = (typeof FORMATS)[number];
+
+const DEFAULT_PROFILES = ['original', 'default'];
+
+interface EvalArgs {
+  scenarios: string[];
+  profiles: string[];
+  record: boolean;
+  recordings?: string;
+  workspace: string;
+  maxTurns: number;
+  format: EvalFormat;
+}
+
+export interface EvalScenarioReport {
+  scenario: string;
+  runs: EvalRunResult[];
+}
+
+function countToolCalls(run: EvalRunResult): number {
+  return Object.values(run.toolCalls).reduce((sum, count) => sum + count, 0);
+}
+
+function describeStatus(run: EvalRunResult): string {
+  if (run.status === 'error') {
+    return 'ERROR';
+  }
+  const passed = run.assertions.filter((a) => a.passed).length;
+  return `${run.status.toUpperCase()} ${passed}/${run.assertions.length}`;
+}
+
+/**
+ * Formats the reports as a table with one column per prompt profile, followed
+ * by the failed assertions and errors of each run.
+ */
+export function formatEvalTable(
+  profiles: string[],
+  reports: EvalScenarioReport[],
+): string {
+  const header = ['Scenario', 'Metric', ...profiles];
+  const metrics: Array<[string, (run: EvalRunResult) => string]> = [
+    ['Result', describeStatus],
+    ['Turns', (run) => run.turns.toLocaleString('en-US')],
+    ['Tool Calls', (run) => countToolCalls(run).toLocaleString('en-US')],
+    ['Input Tokens', (run) => run.usage.promptTokens.toLocaleString('en-US')],
+    [
+      'Output Tokens',
+      (run) => run.usage.candidateTokens.toLocaleString('en-US'),
+    ],
+    ['Total Tokens', (run) => run.usage.totalTokens.toLocaleString('en-US')],
+  ];
+
+  const groups = reports.map((report) =>
+    metrics.map(([label, format], index) => [
+      index === 0 ? report.scenario : '',
+      label,
+      ...report.runs.map(format),
+    ]),
+  );
+
+  const table = [header, ...groups.flat()];
+  const widths = header.map((_, column) =>
+    Math.max(...table.map((cells) => cells[column].length)),
+  );
+  const formatLine = (cells: string[]) =>
+    cells
+      .map((cell, column) =>
+        column < 2
+          ? cell.padEnd(widths[column])
+          : cell.padStart(widths[column]),
+      )
+      .join('  ')
+      .trimEnd();
+  const divider = widths.map((width) => '-'.repeat(width)).join('  ');
+
+  const lines = [formatLine(header)];
+  for (const group of groups) {
+    lines.push(divider, ...group.map(formatLine));
+  }
+
+  const details: string[] = [];
+  for (const report of reports) {
+    for (const run of report.runs) {
+      const problems = run.error
+        ? [run.error]
+        : run.assertions.filter((a) => !a.passed).map((a) => a.message);
+      for (const problem of problems) {
+        details.push(`- ${report.scenario} [${run.profile}]: ${problem}`);
+      }
+    }
+  }
+  if (details.length > 0) {
+    lines.push('', 'Failures:', ...details);
+  }
+  return lines.join('\n') + '\n';
+}
+
+export async function runEvalSuite(
+  scenarios: EvalScenario[],
+  profiles: string[],
+  options: EvalRunOptions,
+): Promise<EvalScenarioReport[]> {
+  const reports: EvalScenarioReport[] = [];
+  for (const scenario of scenarios) {
+    const runs: EvalRunResult[] = [];
+    for (const profile of profiles) {
+      runs.push(await runEvalScenario(scenario, profile, options));
+    }
+    reports.push({ scenario: scenario.name, runs });
+  }
+  return reports;
+}
+
+export async function handleEval(args: EvalArgs) {
+  try {
+    const scenarios = await loadScenarios(args.scenarios);
+    if (scenarios.length === 0) {
+      debugLogger.log('No scenarios found.');
+      return;
+    }
+
+    const settings = loadSettings();
+    const reports = await runEvalSuite(scenarios, args.profiles, {
+      settings,
+      workspaceRoot: path.resolve(args.workspace),
+      recordingsDir: args.recordings && path.resolve(args.recordings),
+      record: args.record,
+      maxTurns: args.maxTurns,
+    });
+
+    if (args.format === 'json') {
+      process.stdout.write(
+        JSON.stringify({ profiles: args.profiles, reports }, null, 2) + '\n',
+      );
+    } else {
+      process.stdout.write(formatEvalTable(args.profiles, reports));
+    }
+
+    if (
+      reports.some((report) => report.runs.some((run) => run.status !== 'pass'))
+    ) {
+      process.exit(1);
+    }
+  } catch (error) {
+    debugLogger.error(getErrorMessage(error));
+    process.exit(1);
+  }
+}
+
+export const evalCommand: CommandModule = {
+  command: 'eval <scenarios..>',
+  describe:
+    'Replay eval scenarios through prompt profiles and compare the results.',
+  builder: (yargs) =>
+    yargs
+      .positional('scenarios', {
+        describe: 'Scenario files, or directories of .json scenario files.',
+        type: 'string',
+        array: true,
+        demandOption: true,
+      })
+      .option('profiles', {
+        describe: 'Prompt profiles to compare, one report column each.',
+        type: 'array',
+        string: true,
+        default: DEFAULT_PROFILES,
+      })
+      .option('record', {
+        describe:
+          'Call the model and overwrite the recordings instead of replaying them.',
+        type: 'boolean',
+        default: false,
+      })
+      .option('recordings', {
+        describe:
+          'Directory of recorded responses. Defaults to a "recordings" directory next to each scenario.',
+        type: 'string',
+      })
+      .option('workspace', {
+        describe:
+          'Directory to create scenario workspaces in. Must match between recording and replay.',
+        type: 'string',
+        default: path.join(os.tmpdir(), 'gemini-eval'),
+      })
+      .option('max-turns', {
+        describe: 'Maximum number of model turns per scenario run.',
+        type: 'number',
+        default: DEFAULT_EVAL_MAX_TURNS,
+      })
+      .option('format', {
+        describe: 'Output format.',
+        choices: FORMATS,
+        default: 'table',
+      })
+      .version(false),
+  handler: async (args) => {
+    await handleEval({
+      scenarios: args['scenarios'] as string[],
+      profiles: args['profiles'] as string[],
+      record: args['record'] as boolean,
+      recordings: args['recordings'] as string | undefined,
+      workspace: args['workspace'] as string,
+      maxTurns: args['maxTurns'] as number,
+      format: args['format'] as EvalFormat,
+    });
+  },
+};
@@ -0,0 +1,255 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type {
+  Config,
+  CompletedToolCall,
+  ServerGeminiStreamEvent,
+} from '@google/gemini-cli-core';
+import { executeToolCall, GeminiEventType } from '@google/gemini-cli-core';
+import { loadCliConfig } from '../../config/config.js';
+import type { LoadedSettings } from '../../config/settings.js';
+import { runEvalScenario, runEvalTurns } from './runner.js';
+import type { EvalScenario } from './scenario.js';
+
+vi.mock('@google/gemini-cli-core', async (importOriginal) => {
+  const original =
+    await importOriginal<typeof import('@google/gemini-cli-core')>();
+  return {
+    ...original,
+    executeToolCall: vi.fn(),
+  };
+});
+
+vi.mock('../../config/config.js', () => ({
+  loadCliConfig: vi.fn(),
+}));
+
+async function* stream(events: ServerGeminiStreamEvent[]) {
+  for (const event of events) {
+    yield event;
+  }
+}
+
+function finished(promptTokenCount: number, candidatesTokenCount: number) {
+  return {
+    type: GeminiEventType.Finished,
+    value: {
+      reason: undefined,
+      usageMetadata: {
+        promptTokenCount,
+        candidatesTokenCount,
+        totalTokenCount: promptTokenCount + candidatesTokenCount,
+      },
+    },
+  } as ServerGeminiStreamEvent;
+}
+
+function toolCall(callId: string, name: string): ServerGeminiStreamEvent {
+  return {
+    type: GeminiEventType.ToolCallRequest,
+    value: {
+      callId,
+      name,
+      args: {},
+      isClientInitiated: false,
+      prompt_id: 'eval',
+    },
+  };
+}
+
+describe('runEvalTurns', () => {
+  let sendMessageStream: ReturnType<typeof vi.fn>;
+  let config: Config;
+
+  beforeEach(() => {
+    sendMessageStream = vi.fn();
+    config = {
+      getGeminiClient: () => ({ sendMessageStream }),
+    } as unknown as Config;
+    vi.mocked(executeToolCall).mockImplementation(
+      async (_config, request) =>
+        ({
+          response: {
+            responseParts: [{ text: `${request.name} result` }],
+          },
+        }) as CompletedToolCall,
+    );
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should count turns, tool calls and tokens until the model stops', async () => {
+    sendMessageStream
+      .mockReturnValueOnce(
+        stream([
+          toolCall('1', 'read_file'),
+          toolCall('2', 'read_file'),
+          finished(100, 10),
+        ]),
+      )
+      .mockReturnValueOnce(stream([toolCall('3', 'replace'), finished(200, 5)]))
+      .mockReturnValueOnce(
+        stream([
+          { type: GeminiEventType.Content, value: 'Fixed ' },
+          { type: GeminiEventType.Content, value: 'the typo.' },
+          finished(300, 20),
+        ]),
+      );
+
+    const result = await runEvalTurns(config, 'Fix it', 'eval');
+
+    expect(result).toEqual({
+      responseText: 'Fixed the typo.',
+      turns: 3,
+      toolCalls: { read_file: 2, replace: 1 },
+      usage: {
+        promptTokens: 600,
+        candidateTokens: 35,
+        cachedTokens: 0,
+        totalTokens: 635,
+      },
+    });
+    expect(sendMessageStream).toHaveBeenNthCalledWith(
+      2,
+      [{ text: 'read_file result' }, { text: 'read_file result' }],
+      expect.any(AbortSignal),
+      'eval',
+    );
+  });
+
+  it('should stop after the maximum number of turns', async () => {
+    sendMessageStream.mockImplementation(() =>
+      stream([toolCall('1', 'list_directory')]),
+    );
+
+    await expect(runEvalTurns(config, 'Loop', 'eval', 2)).rejects.toThrow(
+      'Exceeded the maximum of 2 turns.',
+    );
+    expect(sendMessageStream).toHaveBeenCalledTimes(2);
+  });
+
+  it('should surface stream errors', async () => {
+    sendMessageStream.mockReturnValue(
+      stream([
+        {
+          type: GeminiEventType.Error,
+          value: { error: { message: 'No more mock responses' } },
+        },
+      ]),
+    );
+
+    await expect(runEvalTurns(config, 'Hi', 'eval')).rejects.toEqual({
+      message: 'No more mock responses',
+    });
+  });
+});
+
+describe('runEvalScenario', () => {
+  let tempDir: string;
+  let scenario: EvalScenario;
+  const settings = { merged: {} } as LoadedSettings;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'eval-runner-test-'));
+    scenario = {
+      name: 'greet',
+      prompt: 'Say hello',
+      files: { 'notes.txt': 'hello' },
+      assertions: [
+        { type: 'responseContains', text: 'Hello' },
+        { type: 'fileContains', path: 'notes.txt', text: 'hello' },
+      ],
+      filePath: path.join(tempDir, 'greet.json'),
+    };
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should report an error when the recording is missing', async () => {
+    const result = await runEvalScenario(scenario, 'default', {
+      settings,
+      workspaceRoot: path.join(tempDir, 'workspaces'),
+    });
+
+    expect(result.status).toBe('error');
+    expect(result.error).toBe(
+      `No recording at ${path.join(tempDir, 'recordings', 'greet.default.jsonl')}. Run with --record to create it.`,
+    );
+    expect(loadCliConfig).not.toHaveBeenCalled();
+  });
+
+  it('should not delete directories outside the workspace root', async () => {
+    const outside = path.join(tempDir, 'keep');
+    fs.mkdirSync(outside);
+
+    const result = await runEvalScenario({ ...scenario, name: '..' }, 'keep', {
+      settings,
+      workspaceRoot: path.join(tempDir, 'workspaces'),
+      record: true,
+    });
+
+    expect(result.status).toBe('error');
+    expect(result.error).toBe(
+      `The workspace of scenario ".." with profile "keep" is outside ${path.join(tempDir, 'workspaces')}.`,
+    );
+    expect(fs.existsSync(outside)).toBe(true);
+  });
+
+  it('should replay the recording in a fresh workspace', async () => {
+    const recording = path.join(tempDir, 'recordings', 'greet.original.jsonl');
+    fs.mkdirSync(path.dirname(recording));
+    fs.writeFileSync(recording, '');
+    const workspaceDir = path.join(tempDir, 'workspaces', 'greet', 'original');
+    fs.mkdirSync(workspaceDir, { recursive: true });
+    fs.writeFileSync(path.join(workspaceDir, 'stale.txt'), 'stale');
+
+    const config = {
+      promptProfileService: { setActiveProfile: vi.fn() },
+      initialize: vi.fn(),
+      refreshAuth: vi.fn(),
+      getGeminiClient: () => ({
+        sendMessageStream: () =>
+          stream([
+            { type: GeminiEventType.Content, value: 'Hello!' },
+            finished(10, 2),
+          ]),
+      }),
+    };
+    vi.mocked(loadCliConfig).mockResolvedValue(config as unknown as Config);
+
+    const result = await runEvalScenario(scenario, 'original', {
+      settings,
+      workspaceRoot: path.join(tempDir, 'workspaces'),
+    });
+
+    expect(result.status).toBe('pass');
+    expect(result.turns).toBe(1);
+    expect(result.usage.totalTokens).toBe(12);
+    expect(vi.mocked(loadCliConfig).mock.calls[0][2]).toMatchObject({
+      prompt: 'Say hello',
+      promptProfile: 'original',
+      approvalMode: 'yolo',
+      fakeResponses: recording,
+      recordResponses: undefined,
+    });
+    expect(vi.mocked(loadCliConfig).mock.calls[0][3]).toBe(workspaceDir);
+    expect(config.promptProfileService.setActiveProfile).toHaveBeenCalledWith(
+      'original',
+    );
+    expect(config.refreshAuth).toHaveBeenCalled();
+    expect(fs.existsSync(path.join(workspaceDir, 'stale.txt'))).toBe(false);
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import type { Config, ToolCallRequestInfo } from '@google/gemini-cli-core';
+import {
+  AuthType,
+  executeToolCall,
+  formatBudgetExceeded,
+  GeminiEventType,
+  getErrorMessage,
+  promptIdContext,
+} from '@google/gemini-cli-core';
+import type { Part } from '@google/genai';
+import { loadCliConfig, type CliArgs } from '../../config/config.js';
+import type { LoadedSettings } from '../../config/settings.js';
+import { validateNonInteractiveAuth } from '../../validateNonInterActiveAuth.js';
+import {
+  checkAssertions,
+  getRecordingPath,
+  writeScenarioFiles,
+  type EvalAssertionResult,
+  type EvalScenario,
+} from './scenario.js';
+
+export const DEFAULT_EVAL_MAX_TURNS = 20;
+
+export interface EvalTokenUsage {
+  promptTokens: number;
+  candidateTokens: number;
+  cachedTokens: number;
+  totalTokens: number;
+}
+
+export interface EvalTurnsResult {
+  responseText: string;
+  turns: number;
+  toolCalls: Record<string, number>;
+  usage: EvalTokenUsage;
+}
+
+export type EvalRunStatus = 'pass' | 'fail' | 'error';
+
+export interface EvalRunResult extends EvalTurnsResult {
+  scenario: string;
+  profile: string;
+  status: EvalRunStatus;
+  error?: string;
+  assertions: EvalAssertionResult[];
+}
+
+export interface EvalRunOptions {
+  settings: LoadedSettings;
+  /** Directory that holds one workspace per scenario and profile. */
+  workspaceRoot: string;
+  recordingsDir?: string;
+  /** Call the real model and overwrite the recordings instead of replaying. */
+  record?: boolean;
+  maxTurns?: number;
+}
+
+function emptyUsage(): EvalTokenUsage {
+  return {
+    promptTokens: 0,
+    candidateTokens: 0,
+    cachedTokens: 0,
+    totalTokens: 0,
+  };
+}
+
+/**
+ * Sends the prompt and executes the requested tools until the model stops
+ * calling tools, mirroring the non-interactive CLI loop.
+ */
+export async function runEvalTurns(
+  config: Config,
+  prompt: string,
+  promptId: string,
+  maxTurns = DEFAULT_EVAL_MAX_TURNS,
+): Promise<EvalTurnsResult> {
+  const geminiClient = config.getGeminiClient();
+  const abortController = new AbortController();
+  const result: EvalTurnsResult = {
+    responseText: '',
+    turns: 0,
+    toolCalls: {},
+    usage: emptyUsage(),
+  };
+
+  let parts: Part[] = [{ text: prompt }];
+  while (true) {
+    if (result.turns >= maxTurns) {
+      throw new Error(`Exceeded the maximum of ${maxTurns} turns.`);
+    }
+    result.turns++;
+
+    const toolCallRequests: ToolCallRequestInfo[] = [];
+    for await (const event of geminiClient.sendMessageStream(
+      parts,
+      abortController.signal,
+      promptId,
+    )) {
+      if (event.type === GeminiEventType.Content) {
+        result.responseText += event.value;
+      } else if (event.type === GeminiEventType.ToolCallRequest) {
+        toolCallRequests.push(event.value);
+      } else if (event.type === GeminiEventType.Finished) {
+        const usage = event.value.usageMetadata;
+        result.usage.promptTokens += usage?.promptTokenCount ?? 0;
+        result.usage.candidateTokens += usage?.candidatesTokenCount ?? 0;
+        result.usage.cachedTokens += usage?.cachedContentTokenCount ?? 0;
+        result.usage.totalTokens += usage?.totalTokenCount ?? 0;
+      } else if (event.type === GeminiEventType.LoopDetected) {
+        throw new Error('Loop detected, stopping execution.');
+      } else if (event.type === GeminiEventType.MaxSessionTurns) {
+        throw new Error('Maximum session turns exceeded.');
+      } else if (event.type === GeminiEventType.BudgetExceeded) {
+        throw new Error(formatBudgetExceeded(event.value));
+      } else if (event.type === GeminiEventType.Error) {
+        throw event.value.error;
+      }
+    }
+
+    if (toolCallRequests.length === 0) {
+      return result;
+    }
+
+    parts = [];
+    for (const requestInfo of toolCallRequests) {
+      result.toolCalls[requestInfo.name] =
+        (result.toolCalls[requestInfo.name] ?? 0) + 1;
+      const completedToolCall = await executeToolCall(
+        config,
+        requestInfo,
+        abortController.signal,
+      );
+      parts.push(...(completedToolCall.response.responseParts ?? []));
+    }
+  }
+}
+
+function createEvalArgs(
+  scenario: EvalScenario,
+  profile: string,
+  recordingPath: string,
+  record: boolean,
+): CliArgs {
+  return {
+    query: undefined,
+    model: undefined,
+    promptProfile: profile,
+    sandbox: undefined,
+    debug: undefined,
+    prompt: scenario.prompt,
+    promptInteractive: undefined,
+    yolo: undefined,
+    approvalMode: 'yolo',
+    allowedMcpServerNames: undefined,
+    allowedTools: undefined,
+    experimentalAcp: undefined,
+    extensions: undefined,
+    listExtensions: undefined,
+    includeDirectories: undefined,
+    screenReader: undefined,
+    useSmartEdit: undefined,
+    useWriteTodos: undefined,
+    outputFormat: undefined,
+    fakeResponses: record ? undefined : recordingPath,
+    recordResponses: record ? recordingPath : undefined,
+    mcpServe: undefined,
+  };
+}
+
+/**
+ * Returns `<workspaceRoot>/<scenario>/<profile>`, which each run deletes and
+ * recreates, after making sure it is inside the workspace root.
+ */
+function getWorkspaceDir(
+  workspaceRoot: string,
+  scenario: EvalScenario,
+  profile: string,
+): string {
+  const root = path.resolve(workspaceRoot);
+  const workspaceDir = path.resolve(root, scenario.name, profile);
+  const relative = path.relative(root, workspaceDir);
+  if (
+    !relative ||
+    relative === '..' ||
+    relative.startsWith(`..${path.sep}`) ||
+    path.isAbsolute(relative)
+  ) {
+    throw new Error(
+      `The workspace of scenario "${scenario.name}" with profile "${profile}" is outside ${root}.`,
+    );
+  }
+  return workspaceDir;
+}
+
+/**
+ * Runs one scenario with one prompt profile in a fresh workspace. Model
+ * responses are replayed from the scenario's recording for that profile, or
+ * recorded from the real model when `record` is set.
+ *
+ * The workspace path only depends on the scenario and profile, so the
+ * absolute paths in recorded tool calls still resolve on replay.
+ */
+export async function runEvalScenario(
+  scenario: EvalScenario,
+  profile: string,
+  options: EvalRunOptions,
+): Promise<EvalRunResult> {
+  const result: EvalRunResult = {
+    scenario: scenario.name,
+    profile,
+    status: 'error',
+    responseText: '',
+    turns: 0,
+    toolCalls: {},
+    usage: emptyUsage(),
+    assertions: [],
+  };
+  const recordingPath = getRecordingPath(
+    scenario,
+    profile,
+    options.recordingsDir,
+  );
+  try {
+    const workspaceDir = getWorkspaceDir(
+      options.workspaceRoot,
+      scenario,
+      profile,
+    );
+    if (options.record) {
+      await fs.mkdir(path.dirname(recordingPath), { recursive: true });
+      await fs.rm(recordingPath, { force: true });
+    } else {
+      try {
+        await fs.access(recordingPath);
+      } catch {
+        throw new Error(
+          `No recording at ${recordingPath}. Run with --record to create it.`,
+        );
+      }
+    }
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+    await fs.mkdir(workspaceDir, { recursive: true });
+    await writeScenarioFiles(scenario, workspaceDir);
+
+    const config = await loadCliConfig(
+      options.settings.merged,
+      randomUUID(),
+      createEvalArgs(scenario, profile, recordingPath, !!options.record),
+      workspaceDir,
+    );
+    // Comparing against the default profile by accident would be misleading,
+    // so an unknown profile fails the run instead of falling back.
+    config.promptProfileService.setActiveProfile(profile);
+    await config.initialize();
+    if (options.record) {
+      await validateNonInteractiveAuth(
+        options.settings.merged.security?.auth?.selectedType,
+        options.settings.merged.security?.auth?.useExternal,
+        config,
+        options.settings,
+      );
+    } else {
+      // Replayed responses never reach the network, so any auth type will do.
+      await config.refreshAuth(
+        options.settings.merged.security?.auth?.selectedType ??
+          AuthType.USE_GEMINI,
+      );
+    }
+
+    const promptId = `eval-${scenario.name}-${profile}`;
+    const turnsResult = await promptIdContext.run(promptId, () =>
+      runEvalTurns(config, scenario.prompt, promptId, options.maxTurns),
+    );
+    Object.assign(result, turnsResult);
+
+    result.assertions = await checkAssertions(scenario, {
+      ...turnsResult,
+      workspaceDir,
+    });
+    result.status = result.assertions.every((assertion) => assertion.passed)
+      ? 'pass'
+      : 'fail';
+  } catch (error) {
+    result.error = getErrorMessage(error);
+  }
+  return result;
+}
@@ -0,0 +1,180 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  checkAssertions,
+  getRecordingPath,
+  loadScenarios,
+  writeScenarioFiles,
+  type EvalRunOutcome,
+  type EvalScenario,
+} from './scenario.js';
+
+describe('eval scenarios', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'eval-scenario-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function writeScenario(name: string, content: unknown) {
+    const filePath = path.join(tempDir, name);
+    fs.writeFileSync(filePath, JSON.stringify(content));
+    return filePath;
+  }
+
+  it('should load scenario directories in name order', async () => {
+    writeScenario('b.json', { prompt: 'second' });
+    writeScenario('a.json', {
+      name: 'first',
+      prompt: 'first',
+      assertions: [{ type: 'toolCalled', tool: 'read_file' }],
+    });
+    fs.writeFileSync(path.join(tempDir, 'README.md'), 'ignored');
+
+    const scenarios = await loadScenarios([tempDir]);
+
+    expect(scenarios).toEqual([
+      {
+        name: 'first',
+        prompt: 'first',
+        assertions: [{ type: 'toolCalled', tool: 'read_file' }],
+        filePath: path.join(tempDir, 'a.json'),
+      },
+      {
+        name: 'b',
+        prompt: 'second',
+        assertions: [],
+        filePath: path.join(tempDir, 'b.json'),
+      },
+    ]);
+  });
+
+  it('should reject invalid scenarios', async () => {
+    const filePath = writeScenario('bad.json', {
+      assertions: [{ type: 'toolCalled' }],
+    });
+
+    await expect(loadScenarios([filePath])).rejects.toThrow(
+      `Invalid scenario ${filePath}: prompt: The 'prompt' field is required.; assertions.0.tool: Required`,
+    );
+  });
+
+  it('should reject scenario names that are not a single path segment', async () => {
+    const traversal = writeScenario('a.json', {
+      name: '../../..',
+      prompt: 'a',
+    });
+    const separator = writeScenario('b.json', { name: 'x/y', prompt: 'b' });
+    const fromFile = writeScenario('...json', { prompt: 'c' });
+
+    await expect(loadScenarios([traversal])).rejects.toThrow(
+      `Invalid scenario ${traversal}: name: Scenario names may only contain letters, digits, "_", "-" and ".".`,
+    );
+    await expect(loadScenarios([separator])).rejects.toThrow(
+      `Invalid scenario ${separator}: name: Scenario names may only`,
+    );
+    await expect(loadScenarios([fromFile])).rejects.toThrow(
+      `Invalid scenario ${fromFile}: Scenario names cannot be "." or "..".`,
+    );
+  });
+
+  it('should reject duplicate scenario names', async () => {
+    const a = writeScenario('a.json', { name: 'same', prompt: 'a' });
+    const b = writeScenario('b.json', { name: 'same', prompt: 'b' });
+
+    await expect(loadScenarios([a, b])).rejects.toThrow(
+      'Duplicate scenario name "same".',
+    );
+  });
+
+  it('should place recordings next to the scenario by default', () => {
+    const scenario = {
+      name: 'fix-typo',
+      filePath: path.join(tempDir, 'fix-typo.json'),
+    } as EvalScenario;
+
+    expect(getRecordingPath(scenario, 'default')).toBe(
+      path.join(tempDir, 'recordings', 'fix-typo.default.jsonl'),
+    );
+    expect(getRecordingPath(scenario, 'original', '/recs')).toBe(
+      path.join('/recs', 'fix-typo.original.jsonl'),
+    );
+  });
+
+  it('should write fixture files inside the workspace only', async () => {
+    await writeScenarioFiles(
+      { files: { 'src/index.ts': 'export {};' } } as unknown as EvalScenario,
+      tempDir,
+    );
+    expect(
+      fs.readFileSync(path.join(tempDir, 'src', 'index.ts'), 'utf-8'),
+    ).toBe('export {};');
+
+    await expect(
+      writeScenarioFiles(
+        { files: { '../escape.txt': 'x' } } as unknown as EvalScenario,
+        tempDir,
+      ),
+    ).rejects.toThrow(
+      'Scenario path "../escape.txt" is outside the workspace.',
+    );
+  });
+
+  it('should check assertions against the run outcome', async () => {
+    fs.writeFileSync(path.join(tempDir, 'README.md'), 'Hello world');
+    const outcome: EvalRunOutcome = {
+      responseText: 'Fixed the typo.',
+      turns: 3,
+      toolCalls: { read_file: 1, replace: 1 },
+      workspaceDir: tempDir,
+    };
+    const scenario = {
+      assertions: [
+        { type: 'toolCalled', tool: 'replace' },
+        { type: 'toolCalled', tool: 'read_file', min: 2 },
+        { type: 'toolNotCalled', tool: 'run_shell_command' },
+        { type: 'responseContains', text: 'typo' },
+        { type: 'fileExists', path: 'missing.txt' },
+        { type: 'fileContains', path: 'README.md', text: 'Hello world' },
+        { type: 'maxTurns', value: 2 },
+        { type: 'maxToolCalls', value: 2 },
+      ],
+    } as EvalScenario;
+
+    const results = await checkAssertions(scenario, outcome);
+
+    expect(results.map(({ passed, message }) => ({ passed, message }))).toEqual(
+      [
+        {
+          passed: true,
+          message: 'replace called 1 time(s), expected at least 1',
+        },
+        {
+          passed: false,
+          message: 'read_file called 1 time(s), expected at least 2',
+        },
+        {
+          passed: true,
+          message: 'run_shell_command called 0 time(s), expected none',
+        },
+        { passed: true, message: 'response should contain "typo"' },
+        { passed: false, message: 'missing.txt should exist' },
+        { passed: true, message: 'README.md should contain "Hello world"' },
+        { passed: false, message: '3 turn(s), expected at most 2' },
+        { passed: true, message: '2 tool call(s), expected at most 2' },
+      ],
+    );
+  });
+});
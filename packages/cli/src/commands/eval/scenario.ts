@@ -0,0 +1,293 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import { z } from 'zod';
+
+const EvalAssertionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('toolCalled'),
+    tool: z.string(),
+    min: z.number().int().positive().optional(),
+  }),
+  z.object({ type: z.literal('toolNotCalled'), tool: z.string() }),
+  z.object({ type: z.literal('responseContains'), text: z.string() }),
+  z.object({ type: z.literal('fileExists'), path: z.string() }),
+  z.object({
+    type: z.literal('fileContains'),
+    path: z.string(),
+    text: z.string(),
+  }),
+  z.object({ type: z.literal('maxTurns'), value: z.number().int() }),
+  z.object({ type: z.literal('maxToolCalls'), value: z.number().int() }),
+]);
+
+/**
+ * Scenario names become directory and file names of workspaces and
+ * recordings, so they are limited to a single safe path segment.
+ */
+const EvalScenarioNameSchema = z
+  .string()
+  .regex(
+    /^[\w.-]+$/,
+    'Scenario names may only contain letters, digits, "_", "-" and ".".',
+  )
+  .refine((name) => name !== '.' && name !== '..', {
+    message: 'Scenario names cannot be "." or "..".',
+  });
+
+/**
+ * Defines the Zod schema for an eval scenario file.
+ */
+const EvalScenarioSchema = z.object({
+  name: EvalScenarioNameSchema.optional(),
+  description: z.string().optional(),
+  prompt: z.string({
+    required_error: "The 'prompt' field is required.",
+    invalid_type_error: "The 'prompt' field must be a string.",
+  }),
+  files: z.record(z.string()).optional(),
+  assertions: z.array(EvalAssertionSchema).default([]),
+});
+
+export type EvalAssertion = z.infer<typeof EvalAssertionSchema>;
+
+export interface EvalScenario
+  extends Omit<z.infer<typeof EvalScenarioSchema>, 'name'> {
+  name: string;
+  /** Absolute path of the file the scenario was loaded from. */
+  filePath: string;
+}
+
+/** What a single run of a scenario produced, as seen by its assertions. */
+export interface EvalRunOutcome {
+  responseText: string;
+  turns: number;
+  toolCalls: Record<string, number>;
+  workspaceDir: string;
+}
+
+export interface EvalAssertionResult {
+  assertion: EvalAssertion;
+  passed: boolean;
+  message: string;
+}
+
+export async function loadScenarioFile(
+  filePath: string,
+): Promise<EvalScenario> {
+  const absolutePath = path.resolve(filePath);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await fs.readFile(absolutePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to read scenario ${absolutePath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+  }
+
+  const result = EvalScenarioSchema.safeParse(parsed);
+  if (!result.success) {
+    throw invalidScenarioError(absolutePath, result.error);
+  }
+
+  const name = EvalScenarioNameSchema.safeParse(
+    result.data.name ?? path.basename(absolutePath, '.json'),
+  );
+  if (!name.success) {
+    throw invalidScenarioError(absolutePath, name.error);
+  }
+
+  return {
+    ...result.data,
+    name: name.data,
+    filePath: absolutePath,
+  };
+}
+
+function invalidScenarioError(absolutePath: string, error: z.ZodError) {
+  const issues = error.issues
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join('.')}: ${issue.message}`
+        : issue.message,
+    )
+    .join('; ');
+  return new Error(`Invalid scenario ${absolutePath}: ${issues}`);
+}
+
+/**
+ * Loads scenarios from the given files and directories. Directories contribute
+ * every `.json` file directly inside them, in name order.
+ */
+export async function loadScenarios(
+  targets: string[],
+): Promise<EvalScenario[]> {
+  const files: string[] = [];
+  for (const target of targets) {
+    const stats = await fs.stat(target);
+    if (stats.isDirectory()) {
+      const entries = await fs.readdir(target);
+      files.push(
+        ...entries
+          .filter((entry) => entry.endsWith('.json'))
+          .sort()
+          .map((entry) => path.join(target, entry)),
+      );
+    } else {
+      files.push(target);
+    }
+  }
+
+  const scenarios = await Promise.all(files.map(loadScenarioFile));
+  const seen = new Set<string>();
+  for (const scenario of scenarios) {
+    if (seen.has(scenario.name)) {
+      throw new Error(`Duplicate scenario name "${scenario.name}".`);
+    }
+    seen.add(scenario.name);
+  }
+  return scenarios;
+}
+
+/**
+ * Returns the recording a scenario replays for a prompt profile:
+ * `<recordingsDir>/<scenario>.<profile>.jsonl`, where `recordingsDir`
+ * defaults to a `recordings` directory next to the scenario file.
+ */
+export function getRecordingPath(
+  scenario: EvalScenario,
+  profile: string,
+  recordingsDir?: string,
+): string {
+  return path.join(
+    recordingsDir ?? path.join(path.dirname(scenario.filePath), 'recordings'),
+    `${scenario.name}.${profile}.jsonl`,
+  );
+}
+
+/**
+ * Writes the scenario's fixture files into the workspace directory.
+ */
+export async function writeScenarioFiles(
+  scenario: EvalScenario,
+  workspaceDir: string,
+): Promise<void> {
+  for (const [relativePath, content] of Object.entries(scenario.files ?? {})) {
+    const filePath = resolveInWorkspace(workspaceDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+}
+
+function resolveInWorkspace(workspaceDir: string, relativePath: string) {
+  const filePath = path.resolve(workspaceDir, relativePath);
+  const relative = path.relative(workspaceDir, filePath);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(
+      `Scenario path "${relativePath}" is outside the workspace.`,
+    );
+  }
+  return filePath;
+}
+
+async function readWorkspaceFile(
+  workspaceDir: string,
+  relativePath: string,
+): Promise<string | undefined> {
+  try {
+    return await fs.readFile(
+      resolveInWorkspace(workspaceDir, relativePath),
+      'utf-8',
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+async function checkAssertion(
+  assertion: EvalAssertion,
+  outcome: EvalRunOutcome,
+): Promise<EvalAssertionResult> {
+  const totalToolCalls = Object.values(outcome.toolCalls).reduce(
+    (sum, count) => sum + count,
+    0,
+  );
+  const result = (passed: boolean, message: string) => ({
+    assertion,
+    passed,
+    message,
+  });
+
+  switch (assertion.type) {
+    case 'toolCalled': {
+      const min = assertion.min ?? 1;
+      const count = outcome.toolCalls[assertion.tool] ?? 0;
+      return result(
+        count >= min,
+        `${assertion.tool} called ${count} time(s), expected at least ${min}`,
+      );
+    }
+    case 'toolNotCalled': {
+      const count = outcome.toolCalls[assertion.tool] ?? 0;
+      return result(
+        count === 0,
+        `${assertion.tool} called ${count} time(s), expected none`,
+      );
+    }
+    case 'responseContains':
+      return result(
+        outcome.responseText.includes(assertion.text),
+        `response should contain "${assertion.text}"`,
+      );
+    case 'fileExists':
+      return result(
+        (await readWorkspaceFile(outcome.workspaceDir, assertion.path)) !==
+          undefined,
+        `${assertion.path} should exist`,
+      );
+    case 'fileContains': {
+      const content = await readWorkspaceFile(
+        outcome.workspaceDir,
+        assertion.path,
+      );
+      return result(
+        content?.includes(assertion.text) ?? false,
+        content === undefined
+          ? `${assertion.path} does not exist`
+          : `${assertion.path} should contain "${assertion.text}"`,
+      );
+    }
+    case 'maxTurns':
+      return result(
+        outcome.turns <= assertion.value,
+        `${outcome.turns} turn(s), expected at most ${assertion.value}`,
+      );
+    case 'maxToolCalls':
+      return result(
+        totalToolCalls <= assertion.value,
+        `${totalToolCalls} tool call(s), expected at most ${assertion.value}`,
+      );
+    default: {
+      const unreachable: never = assertion;
+      return unreachable;
+    }
+  }
+}
+
+export async function checkAssertions(
+  scenario: EvalScenario,
+  outcome: EvalRunOutcome,
+): Promise<EvalAssertionResult[]> {
+  const results: EvalAssertionResult[] = [];
+  for (const assertion of scenario.assertions) {
+    results.push(await checkAssertion(assertion, outcome));
+  }
+  return results;
+}
@@ -51,7 +51,7 @@ describe('mcp command', () => {
     consoleErrorMock.mockRestore();
   });
 
-  it('should register add, remove, and list subcommands', () => {
+  it('should register add, remove, list, and serve subcommands', () => {
     const mockYargs = {
       command: vi.fn().mockReturnThis(),
       demandCommand: vi.fn().mockReturnThis(),
@@ -60,7 +60,7 @@ describe('mcp command', () => {
 
     (mcpCommand.builder as (y: Argv) => Argv)(mockYargs as unknown as Argv);
 
-    expect(mockYargs.command).toHaveBeenCalledTimes(3);
+    expect(mockYargs.command).toHaveBeenCalledTimes(4);
 
     // Verify that the specific subcommands are registered
     const commandCalls = mockYargs.command.mock.calls;
@@ -69,6 +69,7 @@ describe('mcp command', () => {
     expect(commandNames).toContain('add <name> <commandOrUrl> [args...]');
     expect(commandNames).toContain('remove <name>');
     expect(commandNames).toContain('list');
+    expect(commandNames).toContain('serve');
 
     expect(mockYargs.demandCommand).toHaveBeenCalledWith(
       1,
@@ -9,6 +9,7 @@ import type { CommandModule, Argv } from 'yargs';
 import { addCommand } from './mcp/add.js';
 import { removeCommand } from './mcp/remove.js';
 import { listCommand } from './mcp/list.js';
+import { serveCommand } from './mcp/serve.js';
 
 export const mcpCommand: CommandModule = {
   command: 'mcp',
@@ -18,6 +19,7 @@ export const mcpCommand: CommandModule = {
       .command(addCommand)
       .command(removeCommand)
       .command(listCommand)
+      .command(serveCommand)
       .demandCommand(1, 'You need at least one command before continuing.')
       .version(false),
   handler: () => {
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { MockTool, PolicyDecision, type Config } from '@google/gemini-cli-core';
+import { listenHttp, type HttpServeOptions } from './serve.js';
+
+const TOKEN = 'test-token';
+const AUTHORIZATION = { Authorization: `Bearer ${TOKEN}` };
+
+const INITIALIZE_REQUEST = JSON.stringify({
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-06-18',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '0.0.1' },
+  },
+});
+
+describe('listenHttp', () => {
+  let server: http.Server | undefined;
+  let port: number;
+
+  const listen = async (options: Partial<HttpServeOptions> = {}) => {
+    const config = {
+      getToolRegistry: () => ({
+        getAllTools: () => [new MockTool({ name: 'run_it' })],
+      }),
+      getPolicyEngine: () => ({ check: () => PolicyDecision.ALLOW }),
+    } as unknown as Config;
+    server = await listenHttp(config, '1.2.3', {
+      host: '127.0.0.1',
+      port: 0,
+      token: TOKEN,
+      allowedHosts: [],
+      allowedOrigins: [],
+      ...options,
+    });
+    port = (server.address() as AddressInfo).port;
+  };
+
+  const initialize = (headers: http.OutgoingHttpHeaders) =>
+    new Promise<number | undefined>((resolve, reject) => {
+      const req = http.request(
+        {
+          host: '127.0.0.1',
+          port,
+          path: '/mcp',
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json, text/event-stream',
+            ...headers,
+          },
+        },
+        (res) => {
+          res.resume();
+          resolve(res.statusCode);
+        },
+      );
+      req.on('error', reject);
+      req.end(INITIALIZE_REQUEST);
+    });
+
+  beforeEach(() => {
+    server = undefined;
+  });
+
+  afterEach(async () => {
+    server?.closeAllConnections();
+    await new Promise((resolve) => server?.close(resolve) ?? resolve(null));
+  });
+
+  it('should serve the tools to clients that send the token', async () => {
+    await listen();
+    const client = new Client({ name: 'test-client', version: '0.0.1' });
+    await client.connect(
+      new StreamableHTTPClientTransport(
+        new URL(`http://localhost:${port}/mcp`),
+        { requestInit: { headers: AUTHORIZATION } },
+      ),
+    );
+
+    const { tools } = await client.listTools();
+
+    expect(tools.map((tool) => tool.name)).toEqual(['run_it']);
+    await client.close();
+  });
+
+  it('should reject requests without the token', async () => {
+    await listen();
+
+    expect(await initialize({})).toBe(401);
+    expect(await initialize({ Authorization: 'Bearer wrong-token' })).toBe(401);
+  });
+
+  it('should reject requests for other hosts', async () => {
+    await listen({ allowedHosts: ['gemini.internal'] });
+
+    expect(
+      await initialize({ ...AUTHORIZATION, Host: `attacker.example:${port}` }),
+    ).toBe(403);
+    expect(
+      await initialize({ ...AUTHORIZATION, Host: `gemini.internal:${port}` }),
+    ).toBe(200);
+    expect(await initialize({ ...AUTHORIZATION, Host: `[::1]:${port}` })).toBe(
+      200,
+    );
+  });
+
+  it('should only accept the allowed origins when set', async () => {
+    await listen({ allowedOrigins: ['https://app.example.com'] });
+
+    expect(
+      await initialize({
+        ...AUTHORIZATION,
+        Origin: 'https://attacker.example',
+      }),
+    ).toBe(403);
+    expect(
+      await initialize({ ...AUTHORIZATION, Origin: 'https://app.example.com' }),
+    ).toBe(200);
+  });
+});
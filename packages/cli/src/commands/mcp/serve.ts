@@ -0,0 +1,326 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// File for 'gemini mcp serve' command
+import { randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { CommandModule } from 'yargs';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { debugLogger, type Config } from '@google/gemini-cli-core';
+import { loadCliConfig, type CliArgs } from '../../config/config.js';
+import { loadSettings, type LoadedSettings } from '../../config/settings.js';
+import { getErrorMessage } from '../../utils/errors.js';
+import { getCliVersion } from '../../utils/version.js';
+import { createToolServer } from './toolServer.js';
+
+const MCP_SESSION_ID_HEADER = 'mcp-session-id';
+const TOKEN_ENV_VAR = 'GEMINI_MCP_SERVE_TOKEN';
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+const WILDCARD_HOSTS = ['0.0.0.0', '::'];
+
+interface ServeArgs {
+  transport: 'stdio' | 'http';
+  host: string;
+  port: number;
+  allowedHosts: string[];
+  allowedOrigins: string[];
+  approvalMode: string | undefined;
+}
+
+export interface HttpServeOptions {
+  host: string;
+  port: number;
+  /** Bearer token that every request must send. */
+  token: string;
+  /** Extra host names, without port, that clients may connect with. */
+  allowedHosts: string[];
+  /** Origins that requests must come from. Any origin when empty. */
+  allowedOrigins: string[];
+}
+
+function createServeArgs(args: ServeArgs): CliArgs {
+  return {
+    query: undefined,
+    model: undefined,
+    promptProfile: undefined,
+    sandbox: undefined,
+    debug: undefined,
+    prompt: undefined,
+    promptInteractive: undefined,
+    yolo: undefined,
+    approvalMode: args.approvalMode,
+    allowedMcpServerNames: undefined,
+    allowedTools: undefined,
+    experimentalAcp: undefined,
+    // Extensions can bring their own MCP servers, which are not served.
+    extensions: ['none'],
+    listExtensions: undefined,
+    includeDirectories: undefined,
+    screenReader: undefined,
+    useSmartEdit: undefined,
+    useWriteTodos: undefined,
+    outputFormat: undefined,
+    fakeResponses: undefined,
+    recordResponses: undefined,
+    mcpServe: true,
+  };
+}
+
+/**
+ * Loads the config for serving tools. Configured MCP servers are not
+ * connected, so that a server running `gemini mcp serve` cannot start itself.
+ */
+async function loadServeConfig(
+  settings: LoadedSettings,
+  args: ServeArgs,
+): Promise<Config> {
+  const config = await loadCliConfig(
+    {
+      ...settings.merged,
+      mcpServers: {},
+      mcp: { ...settings.merged.mcp, serverCommand: undefined },
+    },
+    randomUUID(),
+    createServeArgs(args),
+  );
+  await config.initialize();
+
+  // Some tools, like web search, need the model. Serving the other tools
+  // does not, so failing to authenticate is not fatal.
+  const authType = settings.merged.security?.auth?.selectedType;
+  if (authType) {
+    try {
+      await config.refreshAuth(authType);
+    } catch (error) {
+      debugLogger.warn(
+        `Tools that need the model will fail: ${getErrorMessage(error)}`,
+      );
+    }
+  }
+  return config;
+}
+
+async function serveStdio(config: Config, version: string): Promise<void> {
+  const server = createToolServer(config, version);
+  const closed = new Promise<void>((resolve) => {
+    server.onclose = resolve;
+  });
+  await server.connect(new StdioServerTransport());
+  await closed;
+}
+
+function formatHost(hostname: string, port: number): string {
+  return hostname.includes(':')
+    ? `[${hostname}]:${port}`
+    : `${hostname}:${port}`;
+}
+
+/**
+ * Returns the `Host` headers to accept, so that a web page cannot reach the
+ * server through DNS rebinding. Loopback names are accepted when listening on
+ * a loopback or wildcard address.
+ */
+function getAllowedHostHeaders(
+  options: HttpServeOptions,
+  port: number,
+): string[] {
+  const hostnames = new Set([options.host, ...options.allowedHosts]);
+  if (
+    LOOPBACK_HOSTS.includes(options.host) ||
+    WILDCARD_HOSTS.includes(options.host)
+  ) {
+    LOOPBACK_HOSTS.forEach((hostname) => hostnames.add(hostname));
+  }
+  return [...hostnames].map((hostname) => formatHost(hostname, port));
+}
+
+function isAuthorized(req: http.IncomingMessage, token: string): boolean {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(req.headers.authorization ?? '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Starts an HTTP server that serves the tools at `/mcp` and resolves once it
+ * is listening.
+ */
+export async function listenHttp(
+  config: Config,
+  version: string,
+  options: HttpServeOptions,
+): Promise<http.Server> {
+  const transports = new Map<string, StreamableHTTPServerTransport>();
+  let allowedHostHeaders: string[] = [];
+
+  const handleRequest = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== '/mcp') {
+      res.writeHead(404).end();
+      return;
+    }
+    if (!isAuthorized(req, options.token)) {
+      res.writeHead(401, { 'WWW-Authenticate': 'Bearer' }).end();
+      return;
+    }
+
+    const sessionId = req.headers[MCP_SESSION_ID_HEADER] as string | undefined;
+    let transport = sessionId ? transports.get(sessionId) : undefined;
+    if (!transport) {
+      if (sessionId || req.method !== 'POST') {
+        res.writeHead(400).end('Invalid or missing session ID');
+        return;
+      }
+      // Every session gets its own server, so that confirmations are asked
+      // of the client that called the tool.
+      const newTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (newSessionId) => {
+          transports.set(newSessionId, newTransport);
+        },
+        enableDnsRebindingProtection: true,
+        allowedHosts: allowedHostHeaders,
+        allowedOrigins: options.allowedOrigins,
+      });
+      newTransport.onclose = () => {
+        if (newTransport.sessionId) {
+          transports.delete(newTransport.sessionId);
+        }
+      };
+      await createToolServer(config, version).connect(newTransport);
+      transport = newTransport;
+    }
+
+    await transport.handleRequest(req, res);
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      debugLogger.warn(`Error handling MCP request: ${getErrorMessage(error)}`);
+      if (!res.headersSent) {
+        res.writeHead(500).end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, resolve);
+  });
+  // The port is only known once listening when it is picked by the system.
+  const { port } = httpServer.address() as AddressInfo;
+  allowedHostHeaders = getAllowedHostHeaders(options, port);
+  return httpServer;
+}
+
+async function serveHttp(
+  config: Config,
+  version: string,
+  args: ServeArgs,
+): Promise<void> {
+  const configuredToken = process.env[TOKEN_ENV_VAR];
+  const token = configuredToken || randomBytes(32).toString('hex');
+  const httpServer = await listenHttp(config, version, {
+    host: args.host,
+    port: args.port,
+    token,
+    allowedHosts: args.allowedHosts,
+    allowedOrigins: args.allowedOrigins,
+  });
+
+  const address = httpServer.address() as AddressInfo;
+  debugLogger.log(
+    `Serving MCP tools at http://${formatHost(args.host, address.port)}/mcp (press Ctrl+C to stop)`,
+  );
+  if (!configuredToken) {
+    debugLogger.log(
+      `Clients must send the header "Authorization: Bearer ${token}". Set ${TOKEN_ENV_VAR} to choose the token.`,
+    );
+  }
+  await new Promise<void>((resolve) => httpServer.once('close', resolve));
+}
+
+async function serve(args: ServeArgs) {
+  if (args.transport === 'http') {
+    const config = await loadServeConfig(loadSettings(), args);
+    await serveHttp(config, await getCliVersion(), args);
+    return;
+  }
+
+  // Stdout carries the protocol, so log to stderr while serving.
+  const { log, info, debug } = console;
+  console.log = console.error;
+  console.info = console.error;
+  console.debug = console.error;
+  try {
+    const config = await loadServeConfig(loadSettings(), args);
+    await serveStdio(config, await getCliVersion());
+  } finally {
+    console.log = log;
+    console.info = info;
+    console.debug = debug;
+  }
+}
+
+export const serveCommand: CommandModule = {
+  command: 'serve',
+  describe: "Serve this CLI's tools to MCP clients",
+  builder: (yargs) =>
+    yargs
+      .usage('Usage: gemini mcp serve [options]')
+      .option('transport', {
+        describe: 'Transport to serve on',
+        type: 'string',
+        default: 'stdio',
+        choices: ['stdio', 'http'],
+      })
+      .option('host', {
+        describe: 'Host to listen on with the http transport',
+        type: 'string',
+        default: '127.0.0.1',
+      })
+      .option('port', {
+        describe: 'Port to listen on with the http transport (0 for any)',
+        type: 'number',
+        default: 0,
+      })
+      .option('allowed-host', {
+        describe:
+          'Host name, besides --host and loopback names, that http clients may connect with',
+        type: 'array',
+        string: true,
+        nargs: 1,
+        default: [],
+      })
+      .option('allowed-origin', {
+        describe:
+          'Origin that http requests must come from, e.g. https://example.com. Requests from any origin are accepted when not set.',
+        type: 'array',
+        string: true,
+        nargs: 1,
+        default: [],
+      })
+      .option('approval-mode', {
+        describe:
+          'Approval mode for tool calls. Ignored in untrusted folders, which always use default.',
+        type: 'string',
+        choices: ['default', 'auto_edit', 'yolo'],
+      }),
+  handler: async (argv) => {
+    await serve({
+      transport: argv['transport'] as 'stdio' | 'http',
+      host: argv['host'] as string,
+      port: argv['port'] as number,
+      allowedHosts: argv['allowedHost'] as string[],
+      allowedOrigins: argv['allowedOrigin'] as string[],
+      approvalMode: argv['approvalMode'] as string | undefined,
+    });
+  },
+};
@@ -0,0 +1,240 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  ElicitRequestSchema,
+  type ElicitResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  MockTool,
+  NotificationType,
+  PolicyDecision,
+  ToolConfirmationOutcome,
+  type Config,
+  type HookSystem,
+} from '@google/gemini-cli-core';
+import { createToolServer } from './toolServer.js';
+
+describe('createToolServer', () => {
+  let tool: MockTool;
+  let onConfirm: ReturnType<typeof vi.fn>;
+  let check: ReturnType<typeof vi.fn>;
+  let hookSystem: Partial<HookSystem> | undefined;
+  let client: Client;
+
+  const connect = async (elicit?: () => ElicitResult) => {
+    const config = {
+      getToolRegistry: () => ({ getAllTools: () => [tool] }),
+      getPolicyEngine: () => ({ check }),
+      getHookSystem: () => hookSystem,
+    } as unknown as Config;
+    const server = createToolServer(config, '1.2.3');
+
+    client = new Client(
+      { name: 'test-client', version: '0.0.1' },
+      { capabilities: elicit ? { elicitation: {} } : {} },
+    );
+    if (elicit) {
+      client.setRequestHandler(ElicitRequestSchema, async () => elicit());
+    }
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+  };
+
+  beforeEach(() => {
+    onConfirm = vi.fn();
+    check = vi.fn().mockReturnValue(PolicyDecision.ALLOW);
+    hookSystem = undefined;
+    tool = new MockTool({
+      name: 'run_it',
+      description: 'Runs it.',
+      params: {
+        type: 'object',
+        properties: { target: { type: 'string' } },
+      },
+      shouldConfirmExecute: async () => ({
+        type: 'exec',
+        title: 'Confirm Shell Command',
+        command: 'rm -rf build',
+        rootCommand: 'rm',
+        onConfirm,
+      }),
+      execute: async (params) => ({
+        llmContent: `ran ${params['target']}`,
+        returnDisplay: '',
+      }),
+    });
+  });
+
+  afterEach(async () => {
+    await client?.close();
+  });
+
+  it('should list the registered tools', async () => {
+    await connect();
+
+    const { tools } = await client.listTools();
+
+    expect(tools).toEqual([
+      expect.objectContaining({
+        name: 'run_it',
+        description: 'Runs it.',
+        inputSchema: {
+          type: 'object',
+          properties: { target: { type: 'string' } },
+        },
+      }),
+    ]);
+  });
+
+  it('should run tools the policy allows without asking', async () => {
+    const elicit = vi.fn();
+    await connect(elicit);
+
+    const result = await client.callTool({
+      name: 'run_it',
+      arguments: { target: 'build' },
+    });
+
+    expect(check).toHaveBeenCalledWith(
+      { name: 'run_it', args: { target: 'build' } },
+      undefined,
+    );
+    expect(elicit).not.toHaveBeenCalled();
+    expect(result.content).toEqual([{ type: 'text', text: 'ran build' }]);
+  });
+
+  it('should refuse tools the policy denies', async () => {
+    check.mockReturnValue(PolicyDecision.DENY);
+    await connect();
+
+    const result = await client.callTool({ name: 'run_it', arguments: {} });
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([
+      { type: 'text', text: 'Tool "run_it" was denied by policy.' },
+    ]);
+  });
+
+  it('should ask the client to confirm when the policy asks the user', async () => {
+    check.mockReturnValue(PolicyDecision.ASK_USER);
+    const elicit = vi.fn(
+      (): ElicitResult => ({
+        action: 'accept',
+        content: { decision: ToolConfirmationOutcome.ProceedAlways },
+      }),
+    );
+    await connect(elicit);
+
+    const result = await client.callTool({
+      name: 'run_it',
+      arguments: { target: 'build' },
+    });
+
+    expect(elicit).toHaveBeenCalledTimes(1);
+    expect(onConfirm).toHaveBeenCalledWith(
+      ToolConfirmationOutcome.ProceedAlways,
+    );
+    expect(result.content).toEqual([{ type: 'text', text: 'ran build' }]);
+  });
+
+  it('should not run the tool when the user declines', async () => {
+    check.mockReturnValue(PolicyDecision.ASK_USER);
+    await connect(() => ({ action: 'decline' }));
+
+    const result = await client.callTool({ name: 'run_it', arguments: {} });
+
+    expect(onConfirm).toHaveBeenCalledWith(ToolConfirmationOutcome.Cancel);
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([
+      { type: 'text', text: 'Tool "run_it" was canceled by the user.' },
+    ]);
+  });
+
+  it('should refuse to ask clients that do not support elicitation', async () => {
+    check.mockReturnValue(PolicyDecision.ASK_USER);
+    await connect();
+
+    const result = await client.callTool({ name: 'run_it', arguments: {} });
+
+    expect(onConfirm).not.toHaveBeenCalled();
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([
+      {
+        type: 'text',
+        text: 'Tool "run_it" needs confirmation, but the client does not support elicitation.',
+      },
+    ]);
+  });
+
+  it('should not run tools that a BeforeTool hook blocks', async () => {
+    const execute = vi.spyOn(tool, 'execute');
+    const fireBeforeToolEvent = vi.fn().mockResolvedValue('Not allowed.');
+    hookSystem = { fireBeforeToolEvent };
+    await connect();
+
+    const result = await client.callTool({
+      name: 'run_it',
+      arguments: { target: 'build' },
+    });
+
+    expect(fireBeforeToolEvent).toHaveBeenCalledWith(
+      'run_it',
+      { target: 'build' },
+      expect.any(AbortSignal),
+    );
+    expect(check).not.toHaveBeenCalled();
+    expect(execute).not.toHaveBeenCalled();
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([
+      { type: 'text', text: 'Tool call blocked by a hook: Not allowed.' },
+    ]);
+  });
+
+  it('should notify hooks before asking the client to confirm', async () => {
+    check.mockReturnValue(PolicyDecision.ASK_USER);
+    const fireNotificationEvent = vi.fn();
+    hookSystem = {
+      fireBeforeToolEvent: vi.fn().mockResolvedValue(undefined),
+      fireNotificationEvent,
+    };
+    await connect(() => ({
+      action: 'accept',
+      content: { decision: ToolConfirmationOutcome.ProceedOnce },
+    }));
+
+    const result = await client.callTool({
+      name: 'run_it',
+      arguments: { target: 'build' },
+    });
+
+    expect(fireNotificationEvent).toHaveBeenCalledWith(
+      NotificationType.ToolPermission,
+      'Permission needed to use run_it',
+      expect.objectContaining({
+        tool_name: 'run_it',
+        confirmation_type: 'exec',
+      }),
+    );
+    expect(result.content).toEqual([{ type: 'text', text: 'ran build' }]);
+  });
+
+  it('should report unknown tools', async () => {
+    await connect();
+
+    const result = await client.callTool({ name: 'missing', arguments: {} });
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([
+      { type: 'text', text: 'Tool "missing" not found.' },
+    ]);
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  type CallToolResult,
+  type Tool as McpTool,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Part, PartListUnion } from '@google/genai';
+import {
+  DiscoveredMCPTool,
+  MUTATOR_KINDS,
+  NotificationType,
+  PolicyDecision,
+  ToolConfirmationOutcome,
+  debugLogger,
+  partToString,
+  type AnyDeclarativeTool,
+  type Config,
+  type ToolCallConfirmationDetails,
+} from '@google/gemini-cli-core';
+import { getErrorMessage } from '../../utils/errors.js';
+
+interface ConfirmationOption {
+  outcome: ToolConfirmationOutcome;
+  name: string;
+}
+
+/**
+ * Returns the tools to serve. Tools discovered from other MCP servers are left
+ * out so that clients only see this CLI's own tools.
+ */
+function getServedTools(config: Config): AnyDeclarativeTool[] {
+  return config
+    .getToolRegistry()
+    .getAllTools()
+    .filter((tool) => !(tool instanceof DiscoveredMCPTool));
+}
+
+function toMcpTool(tool: AnyDeclarativeTool): McpTool {
+  const schema = (tool.schema.parametersJsonSchema ??
+    tool.schema.parameters ?? { type: 'object' }) as McpTool['inputSchema'];
+  return {
+    name: tool.name,
+    title: tool.displayName,
+    description: tool.description,
+    inputSchema: { ...schema, type: 'object' },
+    annotations: {
+      title: tool.displayName,
+      readOnlyHint: !MUTATOR_KINDS.includes(tool.kind),
+    },
+  };
+}
+
+function toMcpContent(llmContent: PartListUnion): CallToolResult['content'] {
+  const parts: Array<string | Part> = Array.isArray(llmContent)
+    ? llmContent
+    : [llmContent];
+  return parts.map((part) => {
+    if (typeof part === 'string') {
+      return { type: 'text', text: part };
+    }
+    const { mimeType, data } = part.inlineData ?? {};
+    if (mimeType?.startsWith('image/') && data) {
+      return { type: 'image', mimeType, data };
+    }
+    if (mimeType?.startsWith('audio/') && data) {
+      return { type: 'audio', mimeType, data };
+    }
+    return { type: 'text', text: partToString(part) };
+  });
+}
+
+function errorResult(message: string): CallToolResult {
+  return { content: [{ type: 'text', text: message }], isError: true };
+}
+
+function getConfirmationOptions(
+  details: ToolCallConfirmationDetails,
+): ConfirmationOption[] {
+  const alwaysOptions: ConfirmationOption[] =
+    details.type === 'mcp'
+      ? [
+          {
+            outcome: ToolConfirmationOutcome.ProceedAlwaysServer,
+            name: `Always allow ${details.serverName}`,
+          },
+          {
+            outcome: ToolConfirmationOutcome.ProceedAlwaysTool,
+            name: `Always allow ${details.toolName}`,
+          },
+        ]
+      : [
+          {
+            outcome: ToolConfirmationOutcome.ProceedAlways,
+            name:
+              details.type === 'exec'
+                ? `Always allow ${details.rootCommand}`
+                : 'Always allow',
+          },
+        ];
+  return [
+    { outcome: ToolConfirmationOutcome.ProceedOnce, name: 'Allow once' },
+    ...alwaysOptions,
+    { outcome: ToolConfirmationOutcome.Cancel, name: 'Reject' },
+  ];
+}
+
+function describeConfirmation(details: ToolCallConfirmationDetails): string {
+  switch (details.type) {
+    case 'edit':
+      return `${details.title}\n\n${details.fileDiff}`;
+    case 'exec':
+      return `${details.title}\n\n${details.command}`;
+    case 'mcp':
+      return details.title;
+    case 'info':
+      return `${details.title}\n\n${details.prompt}`;
+    default: {
+      const unreachable: never = details;
+      throw new Error(`Unexpected: ${unreachable}`);
+    }
+  }
+}
+
+/**
+ * Asks the client's user to confirm a tool call with an elicitation request.
+ * Resolves to `Cancel` unless the user picks one of the proceed options.
+ */
+async function confirmWithClient(
+  server: Server,
+  details: ToolCallConfirmationDetails,
+  signal: AbortSignal,
+): Promise<ToolConfirmationOutcome> {
+  const options = getConfirmationOptions(details);
+  const result = await server.elicitInput(
+    {
+      message: describeConfirmation(details),
+      requestedSchema: {
+        type: 'object',
+        properties: {
+          decision: {
+            type: 'string',
+            title: 'Decision',
+            enum: options.map((option) => option.outcome),
+            enumNames: options.map((option) => option.name),
+          },
+        },
+        required: ['decision'],
+      },
+    },
+    { signal },
+  );
+
+  const decision = result.content?.['decision'];
+  const option = options.find((option) => option.outcome === decision);
+  return result.action === 'accept' && option
+    ? option.outcome
+    : ToolConfirmationOutcome.Cancel;
+}
+
+/**
+ * Runs a tool call from an MCP client.
+ *
+ * `BeforeTool` hooks run first and can block the call. The policy engine
+ * decides next: denied calls fail and allowed calls run.
+ * When it asks for the user, the tool's own confirmation is requested from
+ * the client's user as an elicitation.
+ */
+export async function callTool(
+  config: Config,
+  server: Server,
+  name: string,
+  args: Record<string, unknown>,
+  signal: AbortSignal,
+): Promise<CallToolResult> {
+  const tool = getServedTools(config).find((tool) => tool.name === name);
+  if (!tool) {
+    return errorResult(`Tool "${name}" not found.`);
+  }
+
+  try {
+    const invocation = tool.build(args);
+    const hookSystem = config.getHookSystem();
+    const blockedReason = await hookSystem?.fireBeforeToolEvent(
+      tool.name,
+      args,
+      signal,
+    );
+    if (blockedReason !== undefined) {
+      return errorResult(`Tool call blocked by a hook: ${blockedReason}`);
+    }
+
+    const decision = config
+      .getPolicyEngine()
+      .check({ name: tool.name, args }, undefined);
+
+    if (decision === PolicyDecision.DENY) {
+      return errorResult(`Tool "${name}" was denied by policy.`);
+    }
+
+    if (decision === PolicyDecision.ASK_USER) {
+      const details = await invocation.shouldConfirmExecute(signal);
+      if (details) {
+        if (!server.getClientCapabilities()?.elicitation) {
+          return errorResult(
+            `Tool "${name}" needs confirmation, but the client does not support elicitation.`,
+          );
+        }
+        void hookSystem?.fireNotificationEvent(
+          NotificationType.ToolPermission,
+          `Permission needed to use ${tool.displayName}`,
+          {
+            tool_name: tool.name,
+            tool_input: args,
+            confirmation_type: details.type,
+            title: details.title,
+          },
+        );
+        const outcome = await confirmWithClient(server, details, signal);
+        await details.onConfirm(outcome);
+        if (outcome === ToolConfirmationOutcome.Cancel) {
+          return errorResult(`Tool "${name}" was canceled by the user.`);
+        }
+      }
+    }
+
+    const result = await invocation.execute(signal);
+    if (result.error) {
+      return errorResult(result.error.message);
+    }
+    return { content: toMcpContent(result.llmContent) };
+  } catch (error) {
+    debugLogger.warn(`Tool "${name}" failed: ${getErrorMessage(error)}`);
+    return errorResult(getErrorMessage(error));
+  }
+}
+
+/**
+ * Creates an MCP server that serves the tools registered on the config.
+ * Each client connection needs its own server.
+ */
+export function createToolServer(config: Config, version: string): Server {
+  const server = new Server(
+    { name: 'gemini-cli', version },
+    { capabilities: { tools: {} } },
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: getServedTools(config).map(toMcpTool),
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) =>
+    callTool(
+      config,
+      server,
+      request.params.name,
+      request.params.arguments ?? {},
+      extra.signal,
+    ),
+  );
+
+  return server;
+}
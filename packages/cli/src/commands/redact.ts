@@ -0,0 +1,125 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// File for 'gemini redact' command
+import type { CommandModule } from 'yargs';
+import * as fs from 'node:fs/promises';
+import type { RedactionMatch, RedactionRule } from '@google/gemini-cli-core';
+import {
+  Redactor,
+  Storage,
+  countMatchesByRule,
+  debugLogger,
+  formatRedactionFileError,
+  getRedactionRuleSources,
+  loadRedactionRulesFromToml,
+} from '@google/gemini-cli-core';
+import { getErrorMessage } from '../utils/errors.js';
+import { readStdin } from '../utils/readStdin.js';
+import { ExtensionManager } from '../config/extension-manager.js';
+import { requestConsentNonInteractive } from '../config/extensions/consent.js';
+import { promptForSetting } from '../config/extensions/extensionSettings.js';
+import { loadSettings } from '../config/settings.js';
+import { isWorkspaceTrusted } from '../config/trustedFolders.js';
+
+const STDIN_PATH = '-';
+
+interface RedactArgs {
+  file: string;
+  check?: boolean;
+}
+
+/**
+ * Loads the same redaction rules an interactive session in the current
+ * directory would use: built-in rules, then active extensions, user and
+ * (trusted) project `redaction.toml` files.
+ */
+async function loadRedactionRules(
+  workspaceDir: string,
+): Promise<RedactionRule[]> {
+  const settings = loadSettings(workspaceDir).merged;
+  const extensionManager = new ExtensionManager({
+    workspaceDir,
+    requestConsent: requestConsentNonInteractive,
+    requestSetting: promptForSetting,
+    settings,
+  });
+  const extensions = await extensionManager.loadExtensions();
+  const sources = getRedactionRuleSources({
+    userRulesPath: Storage.getUserRedactionRulesPath(),
+    projectRulesPath: isWorkspaceTrusted(settings).isTrusted
+      ? new Storage(workspaceDir).getProjectRedactionRulesPath()
+      : undefined,
+    extensions,
+  });
+  const { rules, errors } = await loadRedactionRulesFromToml(sources);
+  for (const error of errors) {
+    debugLogger.warn(formatRedactionFileError(error));
+  }
+  return rules;
+}
+
+async function readInput(file: string): Promise<string> {
+  if (file === STDIN_PATH) {
+    return readStdin();
+  }
+  return fs.readFile(file, 'utf-8');
+}
+
+export async function handleRedact(args: RedactArgs) {
+  try {
+    const rules = await loadRedactionRules(process.cwd());
+    const input = await readInput(args.file);
+    const matches: RedactionMatch[] = [];
+    const redacted = new Redactor(rules).redactText(input, matches);
+
+    if (!args.check) {
+      process.stdout.write(redacted);
+      return;
+    }
+
+    const label = args.file === STDIN_PATH ? 'stdin' : args.file;
+    if (matches.length === 0) {
+      debugLogger.log(`No secrets found in ${label}.`);
+      return;
+    }
+    debugLogger.error(
+      `${matches.length} ${matches.length === 1 ? 'secret' : 'secrets'} found in ${label}:`,
+    );
+    for (const [rule, count] of Object.entries(countMatchesByRule(matches))) {
+      debugLogger.error(`  - ${rule} ×${count}`);
+    }
+    process.exit(1);
+  } catch (error) {
+    debugLogger.error(getErrorMessage(error));
+    process.exit(1);
+  }
+}
+
+export const redactCommand: CommandModule = {
+  command: 'redact <file>',
+  describe: 'Print a file with secrets redacted, or check it for secrets.',
+  builder: (yargs) =>
+    yargs
+      .positional('file', {
+        describe: `The file to redact, or "${STDIN_PATH}" to read from stdin.`,
+        type: 'string',
+        demandOption: true,
+      })
+      .option('check', {
+        describe:
+          'Do not print the redacted output; exit with a non-zero code if any secret is found.',
+        type: 'boolean',
+        default: false,
+      })
+      .version(false),
+  handler: async (args) => {
+    await handleRedact({
+      file: args['file'] as string,
+      check: args['check'] as boolean,
+    });
+  },
+};
@@ -0,0 +1,172 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  afterEach,
+  type MockInstance,
+} from 'vitest';
+import yargs from 'yargs';
+import {
+  CostLedgerService,
+  Storage,
+  debugLogger,
+} from '@google/gemini-cli-core';
+import { handleStats, parseSince, statsCommand } from './stats.js';
+
+describe('stats command', () => {
+  it('should reject an unknown grouping', () => {
+    const parser = yargs([]).command(statsCommand).fail(false);
+    expect(() => parser.parse('stats --by user')).toThrow(
+      /Invalid values:\s+Argument: by, Given: "user"/,
+    );
+  });
+});
+
+describe('parseSince', () => {
+  const now = new Date('2025-06-15T12:00:00.000Z');
+
+  it('should parse relative durations', () => {
+    expect(parseSince('7d', now).toISOString()).toBe(
+      '2025-06-08T12:00:00.000Z',
+    );
+    expect(parseSince('12h', now).toISOString()).toBe(
+      '2025-06-15T00:00:00.000Z',
+    );
+    expect(parseSince('2w', now).toISOString()).toBe(
+      '2025-06-01T12:00:00.000Z',
+    );
+  });
+
+  it('should parse a date as local midnight', () => {
+    expect(parseSince('2025-06-01', now)).toEqual(new Date(2025, 5, 1));
+  });
+
+  it('should reject anything else', () => {
+    expect(() => parseSince('last week', now)).toThrow(
+      'Invalid --since value "last week"',
+    );
+  });
+});
+
+describe('handleStats', () => {
+  let tempDir: string;
+  let stdoutSpy: MockInstance;
+  let processSpy: MockInstance;
+
+  function record(
+    projectRoot: string,
+    sessionId: string,
+    model: string,
+    costUsd: number,
+  ) {
+    new CostLedgerService(new Storage(projectRoot), sessionId).record({
+      promptId: `${sessionId}-prompt`,
+      model,
+      promptTokens: 1000,
+      candidateTokens: 100,
+      cachedTokens: 200,
+      thoughtsTokens: 0,
+      totalTokens: 1100,
+      costUsd,
+    });
+  }
+
+  function output(): string {
+    return stdoutSpy.mock.calls.map((call) => call[0]).join('');
+  }
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'stats-test-'));
+    vi.spyOn(Storage, 'getGlobalTempDir').mockReturnValue(tempDir);
+    stdoutSpy = vi
+      .spyOn(process.stdout, 'write')
+      .mockImplementation(() => true);
+    processSpy = vi
+      .spyOn(process, 'exit')
+      .mockImplementation(() => undefined as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should print a table grouped by model across projects', async () => {
+    record('/work/app', 'session-a', 'gemini-2.5-pro', 0.5);
+    record('/work/lib', 'session-b', 'gemini-2.5-pro', 0.25);
+    record('/work/lib', 'session-b', 'gemini-2.5-flash', 0.01);
+
+    await handleStats({ since: '7d', by: 'model', format: 'table' });
+
+    const lines = output().trimEnd().split('\n');
+    expect(lines[0]).toMatch(/^Model\s+Requests\s+Input Tokens/);
+    expect(lines[2]).toMatch(/^gemini-2\.5-pro\s+2\s+2,000.*\$0\.7500$/);
+    expect(lines[3]).toMatch(/^gemini-2\.5-flash\s+1\s+1,000.*\$0\.0100$/);
+    expect(lines[5]).toMatch(/^Total\s+3\s+3,000.*\$0\.7600$/);
+    expect(processSpy).not.toHaveBeenCalled();
+  });
+
+  it('should export CSV grouped by project', async () => {
+    record('/work/app', 'session-a', 'gemini-2.5-pro', 0.5);
+    record('/work/my,lib', 'session-b', 'gemini-2.5-pro', 0.25);
+
+    await handleStats({ since: '7d', by: 'project', format: 'csv' });
+
+    expect(output()).toBe(
+      [
+        'project,requests,prompt_tokens,candidate_tokens,cached_tokens,total_tokens,cost_usd',
+        '/work/app,1,1000,100,200,1100,0.500000',
+        '"/work/my,lib",1,1000,100,200,1100,0.250000',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should export JSON with a total', async () => {
+    record('/work/app', 'session-a', 'gemini-2.5-pro', 0.5);
+
+    await handleStats({ since: '7d', by: 'session', format: 'json' });
+
+    const report = JSON.parse(output());
+    expect(report.by).toBe('session');
+    expect(report.rows).toEqual([
+      expect.objectContaining({ key: 'session-a', requests: 1 }),
+    ]);
+    expect(report.total).toEqual(
+      expect.objectContaining({ key: 'Total', costUsd: 0.5 }),
+    );
+  });
+
+  it('should say when nothing was recorded', async () => {
+    const logSpy = vi.spyOn(debugLogger, 'log');
+
+    await handleStats({ since: '7d', by: 'day', format: 'table' });
+
+    expect(stdoutSpy).not.toHaveBeenCalled();
+    expect(logSpy).toHaveBeenCalledWith(
+      expect.stringContaining('No usage recorded since'),
+    );
+  });
+
+  it('should exit with 1 on an invalid --since', async () => {
+    const errorSpy = vi.spyOn(debugLogger, 'error');
+
+    await handleStats({ since: 'yesterday', by: 'day', format: 'table' });
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Invalid --since value "yesterday"'),
+    );
+    expect(processSpy).toHaveBeenCalledWith(1);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// File for 'gemini stats' command
+import type { CommandModule } from 'yargs';
+import type {
+  CostReportGrouping,
+  CostReportRow,
+} from '@google/gemini-cli-core';
+import {
+  aggregateCostLedger,
+  debugLogger,
+  loadCostLedger,
+  totalCostReport,
+} from '@google/gemini-cli-core';
+import { getErrorMessage } from '../utils/errors.js';
+import { formatCost } from '../ui/utils/formatters.js';
+
+const GROUPINGS: readonly CostReportGrouping[] = [
+  'model',
+  'project',
+  'day',
+  'session',
+];
+const FORMATS = ['table', 'csv', 'json'] as const;
+type StatsFormat = (typeof FORMATS)[number];
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+interface StatsArgs {
+  since: string;
+  by: CostReportGrouping;
+  format: StatsFormat;
+}
+
+/**
+ * Parses a relative duration such as `7d`, `12h` or `2w`, or an absolute date
+ * such as `2025-06-01`, into the start of the reporting window.
+ */
+export function parseSince(value: string, now = new Date()): Date {
+  const relative = value.trim().match(/^(\d+)([hdw])$/);
+  if (relative) {
+    return new Date(
+      now.getTime() - Number(relative[1]) * DURATION_UNITS_MS[relative[2]],
+    );
+  }
+  // Date-only ISO strings parse as UTC; read them as local midnight instead.
+  const dateOnly = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (dateOnly) {
+    return new Date(
+      Number(dateOnly[1]),
+      Number(dateOnly[2]) - 1,
+      Number(dateOnly[3]),
+    );
+  }
+  const absolute = new Date(value);
+  if (isNaN(absolute.getTime())) {
+    throw new Error(
+      `Invalid --since value "${value}". Use a duration like 7d, 12h or 2w, or a date like 2025-06-01.`,
+    );
+  }
+  return absolute;
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function formatCsv(grouping: CostReportGrouping, rows: CostReportRow[]) {
+  const lines = [
+    [
+      grouping,
+      'requests',
+      'prompt_tokens',
+      'candidate_tokens',
+      'cached_tokens',
+      'total_tokens',
+      'cost_usd',
+    ].join(','),
+    ...rows.map((row) =>
+      [
+        escapeCsv(row.key),
+        row.requests,
+        row.promptTokens,
+        row.candidateTokens,
+        row.cachedTokens,
+        row.totalTokens,
+        row.costUsd.toFixed(6),
+      ].join(','),
+    ),
+  ];
+  return lines.join('\n') + '\n';
+}
+
+function formatTable(
+  grouping: CostReportGrouping,
+  rows: CostReportRow[],
+  total: CostReportRow,
+): string {
+  const header = [
+    grouping[0].toUpperCase() + grouping.slice(1),
+    'Requests',
+    'Input Tokens',
+    'Output Tokens',
+    'Cached Tokens',
+    'Total Tokens',
+    'Est. Cost',
+  ];
+  const toCells = (row: CostReportRow) => [
+    row.key,
+    row.requests.toLocaleString('en-US'),
+    row.promptTokens.toLocaleString('en-US'),
+    row.candidateTokens.toLocaleString('en-US'),
+    row.cachedTokens.toLocaleString('en-US'),
+    row.totalTokens.toLocaleString('en-US'),
+    formatCost(row.costUsd),
+  ];
+  const table = [header, ...rows.map(toCells), toCells(total)];
+  const widths = header.map((_, column) =>
+    Math.max(...table.map((cells) => cells[column].length)),
+  );
+  const formatLine = (cells: string[]) =>
+    cells
+      .map((cell, column) =>
+        column === 0
+          ? cell.padEnd(widths[column])
+          : cell.padStart(widths[column]),
+      )
+      .join('  ')
+      .trimEnd();
+  const divider = widths.map((width) => '-'.repeat(width)).join('  ');
+  return (
+    [
+      formatLine(header),
+      divider,
+      ...rows.map((row) => formatLine(toCells(row))),
+      divider,
+      formatLine(toCells(total)),
+    ].join('\n') + '\n'
+  );
+}
+
+export async function handleStats(args: StatsArgs) {
+  try {
+    const since = parseSince(args.since);
+    const entries = await loadCostLedger({ since });
+    const rows = aggregateCostLedger(entries, args.by);
+    const total = totalCostReport(rows);
+
+    if (args.format === 'json') {
+      process.stdout.write(
+        JSON.stringify(
+          { since: since.toISOString(), by: args.by, rows, total },
+          null,
+          2,
+        ) + '\n',
+      );
+      return;
+    }
+    if (args.format === 'csv') {
+      process.stdout.write(formatCsv(args.by, rows));
+      return;
+    }
+    if (rows.length === 0) {
+      debugLogger.log(`No usage recorded since ${since.toLocaleString()}.`);
+      return;
+    }
+    process.stdout.write(formatTable(args.by, rows, total));
+  } catch (error) {
+    debugLogger.error(getErrorMessage(error));
+    process.exit(1);
+  }
+}
+
+export const statsCommand: CommandModule = {
+  command: 'stats',
+  describe:
+    'Report token usage and estimated cost across sessions and projects.',
+  builder: (yargs) =>
+    yargs
+      .option('since', {
+        describe:
+          'Start of the report: a duration such as 7d, 12h or 2w, or a date such as 2025-06-01.',
+        type: 'string',
+        default: '30d',
+      })
+      .option('by', {
+        describe: 'How to group the report.',
+        choices: GROUPINGS,
+        default: 'model',
+      })
+      .option('format', {
+        describe: 'Output format.',
+        choices: FORMATS,
+        default: 'table',
+      })
+      .version(false),
+  handler: async (args) => {
+    await handleStats({
+      since: args['since'] as string,
+      by: args['by'] as CostReportGrouping,
+      format: args['format'] as StatsFormat,
+    });
+  },
+};
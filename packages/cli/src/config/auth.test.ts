@@ -7,6 +7,8 @@
 import { AuthType } from '@google/gemini-cli-core';
 import { vi } from 'vitest';
 import { validateAuthMethod } from './auth.js';
+import { loadSettings } from './settings.js';
+import type { LoadedSettings } from './settings.js';
 
 vi.mock('./settings.js', () => ({
   loadEnvironment: vi.fn(),
@@ -72,6 +74,21 @@ describe('validateAuthMethod', () => {
     });
   });
 
+  describe('OPENAI_COMPATIBLE', () => {
+    it('should return null when no base URL is configured', () => {
+      expect(validateAuthMethod(AuthType.OPENAI_COMPATIBLE)).toBeNull();
+    });
+
+    it('should return an error message for an invalid base URL', () => {
+      vi.mocked(loadSettings).mockReturnValueOnce({
+        merged: { openaiCompatible: { baseUrl: 'not a url' } },
+      } as unknown as LoadedSettings);
+      expect(validateAuthMethod(AuthType.OPENAI_COMPATIBLE)).toBe(
+        'Invalid openaiCompatible.baseUrl "not a url" in settings.json. Use a URL such as http://localhost:11434/v1.',
+      );
+    });
+  });
+
   it('should return an error message for an invalid auth method', () => {
     expect(validateAuthMethod('invalid-method')).toBe(
       'Invalid auth method selected.',
@@ -8,7 +8,8 @@ import { AuthType } from '@google/gemini-cli-core';
 import { loadEnvironment, loadSettings } from './settings.js';
 
 export function validateAuthMethod(authMethod: string): string | null {
-  loadEnvironment(loadSettings().merged);
+  const settings = loadSettings().merged;
+  loadEnvironment(settings);
   if (
     authMethod === AuthType.LOGIN_WITH_GOOGLE ||
     authMethod === AuthType.CLOUD_SHELL
@@ -36,5 +37,13 @@ export function validateAuthMethod(authMethod: string): string | null {
     return null;
   }
 
+  if (authMethod === AuthType.OPENAI_COMPATIBLE) {
+    const baseUrl = settings.openaiCompatible?.baseUrl;
+    if (baseUrl && !URL.canParse(baseUrl)) {
+      return `Invalid openaiCompatible.baseUrl "${baseUrl}" in settings.json. Use a URL such as http://localhost:11434/v1.`;
+    }
+    return null;
+  }
+
   return 'Invalid auth method selected.';
 }
@@ -269,6 +269,12 @@ describe('parseArguments', () => {
     expect(argv.model).toBe('gemini-2.5-pro');
   });
 
+  it('should parse --prompt-profile', async () => {
+    process.argv = ['node', 'script.js', '--prompt-profile', 'original'];
+    const argv = await parseArguments({} as Settings);
+    expect(argv.promptProfile).toBe('original');
+  });
+
   it('maps unquoted positional @path + arg to prompt (one-shot)', async () => {
     // Simulate: gemini @path ./file.md
     process.argv = ['node', 'script.js', '@path', './file.md'];
@@ -16,6 +16,9 @@ import type {
   OutputFormat,
 } from '@google/gemini-cli-core';
 import { extensionsCommand } from '../commands/extensions.js';
+import { redactCommand } from '../commands/redact.js';
+import { statsCommand } from '../commands/stats.js';
+import { evalCommand } from '../commands/eval.js';
 import {
   Config,
   loadServerHierarchicalMemory,
@@ -58,6 +61,7 @@ import type { EventEmitter } from 'node:stream';
 export interface CliArgs {
   query: string | undefined;
   model: string | undefined;
+  promptProfile: string | undefined;
   sandbox: boolean | string | undefined;
   debug: boolean | undefined;
   prompt: string | undefined;
@@ -77,6 +81,7 @@ export interface CliArgs {
   outputFormat: string | undefined;
   fakeResponses: string | undefined;
   recordResponses: string | undefined;
+  mcpServe: boolean | undefined;
 }
 
 export async function parseArguments(settings: Settings): Promise<CliArgs> {
@@ -106,6 +111,12 @@ export async function parseArguments(settings: Settings): Promise<CliArgs> {
           nargs: 1,
           description: `Model`,
         })
+        .option('prompt-profile', {
+          type: 'string',
+          nargs: 1,
+          description:
+            'Prompt profile to use, e.g. "default", "original" or a custom profile.',
+        })
         .option('prompt', {
           alias: 'p',
           type: 'string',
@@ -243,7 +254,10 @@ export async function parseArguments(settings: Settings): Promise<CliArgs> {
         }),
     )
     // Register MCP subcommands
-    .command(mcpCommand);
+    .command(mcpCommand)
+    .command(redactCommand)
+    .command(statsCommand)
+    .command(evalCommand);
 
   if (settings?.experimental?.extensionManagement ?? true) {
     yargsInstance.command(extensionsCommand);
@@ -266,7 +280,11 @@ export async function parseArguments(settings: Settings): Promise<CliArgs> {
   // and not return to main CLI logic
   if (
     result._.length > 0 &&
-    (result._[0] === 'mcp' || result._[0] === 'extensions')
+    (result._[0] === 'mcp' ||
+      result._[0] === 'extensions' ||
+      result._[0] === 'redact' ||
+      result._[0] === 'stats' ||
+      result._[0] === 'eval')
   ) {
     // MCP commands handle their own execution and process exit
     process.exit(0);
@@ -527,10 +545,12 @@ export async function loadCliConfig(
   const allowedTools = argv.allowedTools || settings.tools?.allowed || [];
   const allowedToolsSet = new Set(allowedTools);
 
-  // Interactive mode: explicit -i flag or (TTY + no args + no -p flag)
+  // Interactive mode: explicit -i flag, serving MCP clients that confirm tool
+  // calls, or (TTY + no args + no -p flag)
   const hasQuery = !!argv.query;
   const interactive =
     !!argv.promptInteractive ||
+    !!argv.mcpServe ||
     (process.stdin.isTTY && !hasQuery && !argv.prompt);
   // In non-interactive mode, exclude tools that require a prompt.
   const extraExcludes: string[] = [];
@@ -665,11 +685,16 @@ export async function loadCliConfig(
     enableMessageBusIntegration,
     codebaseInvestigatorSettings:
       settings.experimental?.codebaseInvestigatorSettings,
+    parallelSubagentSettings: settings.experimental?.parallelSubagentSettings,
     fakeResponses: argv.fakeResponses,
     recordResponses: argv.recordResponses,
     retryFetchErrors: settings.general?.retryFetchErrors ?? false,
     ptyInfo: ptyInfo?.name,
     modelConfigServiceConfig: settings.modelConfigs,
+    modelPricing: settings.modelPricing,
+    budget: settings.budget,
+    openaiCompatible: settings.openaiCompatible,
+    promptProfile: argv.promptProfile || settings.model?.promptProfile,
     // TODO: loading of hooks based on workspace trust
     enableHooks: settings.tools?.enableHooks ?? false,
     hooks: settings.hooks || {},
@@ -226,6 +226,44 @@ describe('Settings Loading and Merging', () => {
       });
     });
 
+    it('should resolve relative hook modules against the directory of their settings file', () => {
+      (mockFsExistsSync as Mock).mockImplementation(
+        (p: fs.PathLike) =>
+          p === USER_SETTINGS_PATH || p === MOCK_WORKSPACE_SETTINGS_PATH,
+      );
+      const hooks = (module: string) => ({
+        BeforeTool: [
+          {
+            hooks: [
+              { type: 'module', module },
+              { type: 'command', command: './check.sh' },
+            ],
+          },
+        ],
+      });
+      (fs.readFileSync as Mock).mockImplementation(
+        (p: fs.PathOrFileDescriptor) => {
+          if (p === USER_SETTINGS_PATH)
+            return JSON.stringify({ hooks: hooks('./hooks/audit.mjs') });
+          if (p === MOCK_WORKSPACE_SETTINGS_PATH)
+            return JSON.stringify({ hooks: hooks('./tools/lint.mjs') });
+          return '{}';
+        },
+      );
+
+      const settings = loadSettings(MOCK_WORKSPACE_DIR);
+
+      expect(settings.user.settings.hooks).toEqual(
+        hooks(path.join(path.dirname(USER_SETTINGS_PATH), 'hooks/audit.mjs')),
+      );
+      expect(settings.user.originalSettings.hooks).toEqual(
+        hooks('./hooks/audit.mjs'),
+      );
+      expect(settings.workspace.settings.hooks).toEqual(
+        hooks('./tools/lint.mjs'),
+      );
+    });
+
     it('should load workspace settings if only workspace file exists', () => {
       (mockFsExistsSync as Mock).mockImplementation(
         (p: fs.PathLike) => p === MOCK_WORKSPACE_SETTINGS_PATH,
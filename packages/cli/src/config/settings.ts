@@ -14,6 +14,7 @@ import {
   FatalConfigError,
   GEMINI_DIR,
   getErrorMessage,
+  HookType,
   Storage,
   coreEvents,
 } from '@google/gemini-cli-core';
@@ -423,6 +424,38 @@ function mergeSettings(
   ) as Settings;
 }
 
+/**
+ * Resolves relative `module` paths of hooks against the directory of the
+ * settings file they come from. Hooks from workspace settings are left alone:
+ * the hook registry resolves them against the project root.
+ */
+function resolveHookModulePaths(settings: Settings, baseDir: string): Settings {
+  if (!settings.hooks || typeof settings.hooks !== 'object') {
+    return settings;
+  }
+  const hooks = Object.fromEntries(
+    Object.entries(settings.hooks).map(([eventName, definitions]) => [
+      eventName,
+      Array.isArray(definitions)
+        ? definitions.map((definition) =>
+            definition && Array.isArray(definition.hooks)
+              ? {
+                  ...definition,
+                  hooks: definition.hooks.map((hook) =>
+                    hook?.type === HookType.Module &&
+                    typeof hook.module === 'string'
+                      ? { ...hook, module: path.resolve(baseDir, hook.module) }
+                      : hook,
+                  ),
+                }
+              : definition,
+          )
+        : definitions,
+    ]),
+  );
+  return { ...settings, hooks };
+}
+
 export class LoadedSettings {
   constructor(
     system: SettingsFile,
@@ -699,9 +732,18 @@ export function loadSettings(
   const workspaceOriginalSettings = structuredClone(workspaceResult.settings);
 
   // Environment variables for runtime use
-  systemSettings = resolveEnvVarsInObject(systemResult.settings);
-  systemDefaultSettings = resolveEnvVarsInObject(systemDefaultsResult.settings);
-  userSettings = resolveEnvVarsInObject(userResult.settings);
+  systemSettings = resolveHookModulePaths(
+    resolveEnvVarsInObject(systemResult.settings),
+    path.dirname(systemSettingsPath),
+  );
+  systemDefaultSettings = resolveHookModulePaths(
+    resolveEnvVarsInObject(systemDefaultsResult.settings),
+    path.dirname(systemDefaultsPath),
+  );
+  userSettings = resolveHookModulePaths(
+    resolveEnvVarsInObject(userResult.settings),
+    path.dirname(USER_SETTINGS_PATH),
+  );
   workspaceSettings = resolveEnvVarsInObject(workspaceResult.settings);
 
   // Support legacy theme names
@@ -16,6 +16,8 @@ import type {
   AuthType,
   HookDefinition,
   HookEventName,
+  ModelPricingConfig,
+  BudgetLimit,
 } from '@google/gemini-cli-core';
 import {
   DEFAULT_TRUNCATE_TOOL_OUTPUT_LINES,
@@ -628,6 +630,16 @@ const SETTINGS_SCHEMA = {
         description: 'The Gemini model to use for conversations.',
         showInDialog: false,
       },
+      promptProfile: {
+        type: 'string',
+        label: 'Prompt Profile',
+        category: 'Model',
+        requiresRestart: false,
+        default: undefined as string | undefined,
+        description:
+          'The prompt profile to use, e.g. "default", "original" or a profile from ~/.gemini/prompts or an extension.',
+        showInDialog: false,
+      },
       maxSessionTurns: {
         type: 'number',
         label: 'Max Session Turns',
@@ -713,6 +725,165 @@ const SETTINGS_SCHEMA = {
     },
   },
 
+  modelPricing: {
+    type: 'object',
+    label: 'Model Pricing',
+    category: 'Model',
+    requiresRestart: true,
+    default: {} as ModelPricingConfig,
+    description:
+      'Per-model prices in USD per million tokens, used for cost estimates. Entries replace the built-in price for the same model name, and also apply to models whose name starts with it.',
+    showInDialog: false,
+    mergeStrategy: MergeStrategy.SHALLOW_MERGE,
+    additionalProperties: {
+      type: 'object',
+      ref: 'ModelPricing',
+    },
+  },
+
+  budget: {
+    type: 'object',
+    label: 'Budget',
+    category: 'Model',
+    requiresRestart: true,
+    default: {},
+    description:
+      'Spending limits based on estimated cost and token usage. Daily and project spend is shared by every session in the project.',
+    showInDialog: false,
+    properties: {
+      session: {
+        type: 'object',
+        label: 'Session Budget',
+        category: 'Model',
+        requiresRestart: true,
+        default: undefined as BudgetLimit | undefined,
+        description: 'Limit for the current session.',
+        showInDialog: false,
+        ref: 'BudgetLimit',
+      },
+      daily: {
+        type: 'object',
+        label: 'Daily Budget',
+        category: 'Model',
+        requiresRestart: true,
+        default: undefined as BudgetLimit | undefined,
+        description:
+          'Limit for this project since local midnight, across sessions.',
+        showInDialog: false,
+        ref: 'BudgetLimit',
+      },
+      project: {
+        type: 'object',
+        label: 'Project Budget',
+        category: 'Model',
+        requiresRestart: true,
+        default: undefined as BudgetLimit | undefined,
+        description: 'Limit for all recorded spend in this project.',
+        showInDialog: false,
+        ref: 'BudgetLimit',
+      },
+      warnAt: {
+        type: 'array',
+        label: 'Budget Warning Thresholds',
+        category: 'Model',
+        requiresRestart: true,
+        default: [0.8] as number[],
+        description:
+          'Fractions of a limit at which to show a warning (e.g. [0.5, 0.9]).',
+        showInDialog: false,
+        items: { type: 'number' },
+      },
+      onExceeded: {
+        type: 'enum',
+        label: 'When Budget Exceeded',
+        category: 'Model',
+        requiresRestart: true,
+        default: 'stop',
+        description: oneLine`
+          What to do once a limit is reached: "stop" ends the turn (exit code 55 in non-interactive mode),
+          "downgrade" switches to the flash model.
+        `,
+        showInDialog: false,
+        options: [
+          { value: 'stop', label: 'Stop' },
+          { value: 'downgrade', label: 'Downgrade' },
+        ],
+      },
+    },
+  },
+
+  openaiCompatible: {
+    type: 'object',
+    label: 'OpenAI-Compatible Server',
+    category: 'Model',
+    requiresRestart: true,
+    default: {},
+    description:
+      'Local or self-hosted model server used by the "openai-compatible" auth type.',
+    showInDialog: false,
+    properties: {
+      protocol: {
+        type: 'enum',
+        label: 'Protocol',
+        category: 'Model',
+        requiresRestart: true,
+        default: 'openai',
+        description: oneLine`
+          Wire protocol: "openai" for chat completions (vLLM, LM Studio, llama.cpp, Ollama's /v1),
+          "ollama" for Ollama's native API.
+        `,
+        showInDialog: false,
+        options: [
+          { value: 'openai', label: 'OpenAI' },
+          { value: 'ollama', label: 'Ollama' },
+        ],
+      },
+      baseUrl: {
+        type: 'string',
+        label: 'Base URL',
+        category: 'Model',
+        requiresRestart: true,
+        default: undefined as string | undefined,
+        description: oneLine`
+          Server URL. Defaults to http://localhost:11434/v1 for "openai" and
+          http://localhost:11434 for "ollama".
+        `,
+        showInDialog: false,
+      },
+      apiKey: {
+        type: 'string',
+        label: 'API Key',
+        category: 'Model',
+        requiresRestart: true,
+        default: undefined as string | undefined,
+        description:
+          'Bearer token for the server, e.g. "$MY_SERVER_KEY". Defaults to the OPENAI_API_KEY environment variable.',
+        showInDialog: false,
+      },
+      models: {
+        type: 'object',
+        label: 'Model Map',
+        category: 'Model',
+        requiresRestart: true,
+        default: {} as Record<string, string>,
+        description:
+          'Maps the Gemini model names the CLI requests (e.g. "gemini-2.5-pro", "gemini-2.5-flash") to model names on the server.',
+        showInDialog: false,
+        additionalProperties: { type: 'string' },
+      },
+      defaultModel: {
+        type: 'string',
+        label: 'Default Model',
+        category: 'Model',
+        requiresRestart: true,
+        default: undefined as string | undefined,
+        description:
+          'Server model for requests whose model is not in the model map.',
+        showInDialog: false,
+      },
+    },
+  },
+
   context: {
     type: 'object',
     label: 'Context',
@@ -1313,6 +1484,57 @@ const SETTINGS_SCHEMA = {
           },
         },
       },
+      parallelSubagentSettings: {
+        type: 'object',
+        label: 'Parallel Subagent Settings',
+        category: 'Experimental',
+        requiresRestart: true,
+        default: {},
+        description: 'Configuration for running several subagents in parallel.',
+        showInDialog: false,
+        properties: {
+          enabled: {
+            type: 'boolean',
+            label: 'Enable Parallel Subagents',
+            category: 'Experimental',
+            requiresRestart: true,
+            default: true,
+            description:
+              'Let the model run several subagents concurrently with the run_subagents_in_parallel tool.',
+            showInDialog: true,
+          },
+          maxConcurrency: {
+            type: 'number',
+            label: 'Max Concurrent Subagents',
+            category: 'Experimental',
+            requiresRestart: true,
+            default: 4,
+            description:
+              'Maximum number of subagents that run at the same time.',
+            showInDialog: false,
+          },
+          maxTotalTurns: {
+            type: 'number',
+            label: 'Max Total Turns',
+            category: 'Experimental',
+            requiresRestart: true,
+            default: undefined as number | undefined,
+            description:
+              'Maximum number of turns all subagents of one parallel run may take together.',
+            showInDialog: false,
+          },
+          maxTotalTokens: {
+            type: 'number',
+            label: 'Max Total Tokens',
+            category: 'Experimental',
+            requiresRestart: true,
+            default: undefined as number | undefined,
+            description:
+              'Maximum number of tokens all subagents of one parallel run may use together.',
+            showInDialog: false,
+          },
+        },
+      },
     },
   },
 
@@ -1469,7 +1691,70 @@ export const SETTINGS_SCHEMA_DEFINITIONS: Record<
         description:
           'Service account email to impersonate (name@project.iam.gserviceaccount.com).',
       },
+      samplingTokenLimit: {
+        type: 'number',
+        description:
+          'Tokens the server may use through sampling requests per session (default 50000).',
+      },
+    },
+  },
+  BudgetLimit: {
+    type: 'object',
+    description:
+      'A spending limit. The limit is reached when either amount is used up.',
+    additionalProperties: false,
+    properties: {
+      usd: {
+        type: 'number',
+        description: 'Estimated spend in USD.',
+      },
+      tokens: {
+        type: 'number',
+        description: 'Total tokens reported by the API.',
+      },
+    },
+  },
+  ModelPricing: {
+    type: 'object',
+    description:
+      'Prices for one model in USD per million tokens. Cached prompt tokens default to the input price and thinking tokens to the output price.',
+    additionalProperties: false,
+    properties: {
+      input: {
+        type: 'number',
+        description: 'Price of uncached prompt tokens.',
+      },
+      output: {
+        type: 'number',
+        description: 'Price of response tokens.',
+      },
+      cached: {
+        type: 'number',
+        description: 'Price of prompt tokens served from the context cache.',
+      },
+      thoughts: {
+        type: 'number',
+        description: 'Price of thinking tokens.',
+      },
+      tiers: {
+        type: 'array',
+        description:
+          'Prices that replace the ones above for requests whose prompt is larger than `promptTokensAbove` tokens (e.g. long-context pricing).',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            promptTokensAbove: { type: 'number' },
+            input: { type: 'number' },
+            output: { type: 'number' },
+            cached: { type: 'number' },
+            thoughts: { type: 'number' },
+          },
+          required: ['promptTokensAbove', 'input', 'output'],
+        },
+      },
     },
+    required: ['input', 'output'],
   },
   TelemetrySettings: {
     type: 'object',
@@ -12,6 +12,7 @@ import {
   type Config,
   StartSessionEvent,
   logCliConfiguration,
+  syncIdeLanguageTools,
 } from '@google/gemini-cli-core';
 import { type LoadedSettings } from '../config/settings.js';
 import { performInitialAuth } from './auth.js';
@@ -52,6 +53,7 @@ export async function initializeApp(
   if (config.getIdeMode()) {
     const ideClient = await IdeClient.getInstance();
     await ideClient.connect();
+    await syncIdeLanguageTools(config, ideClient);
     logIdeConnection(config, new IdeConnectionEvent(IdeConnectionType.START));
   }
 
@@ -375,6 +375,7 @@ describe('gemini.tsx main function kitty protocol', () => {
     } as never);
     vi.mocked(parseArguments).mockResolvedValue({
       model: undefined,
+      promptProfile: undefined,
       sandbox: undefined,
       debug: undefined,
       prompt: undefined,
@@ -394,6 +395,7 @@ describe('gemini.tsx main function kitty protocol', () => {
       outputFormat: undefined,
       fakeResponses: undefined,
       recordResponses: undefined,
+      mcpServe: undefined,
     });
 
     await act(async () => {
@@ -549,6 +549,29 @@ describe('runNonInteractive', () => {
     ).rejects.toThrow('process.exit(53) called');
   });
 
+  it('should exit with 55 when a budget limit is exceeded', async () => {
+    mockGeminiClient.sendMessageStream.mockReturnValue(
+      createStreamFromEvents([
+        {
+          type: GeminiEventType.BudgetExceeded,
+          value: { scope: 'session', metric: 'usd', limit: 1, spent: 1.5 },
+        },
+      ]),
+    );
+
+    await expect(
+      runNonInteractive({
+        config: mockConfig,
+        settings: mockSettings,
+        input: 'Spend money',
+        prompt_id: 'prompt-id-budget',
+      }),
+    ).rejects.toThrow('process.exit(55) called');
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      'Session budget of $1.00 exceeded ($1.50 spent). Increase the limit in the budget section of settings.json.',
+    );
+  });
+
   it('should preprocess @include commands before sending to the model', async () => {
     // 1. Mock the imported atCommandProcessor
     const { handleAtCommand } = await import(
@@ -40,8 +40,10 @@ import {
   handleToolError,
   handleCancellationError,
   handleMaxTurnsExceededError,
+  handleBudgetExceededError,
 } from './utils/errors.js';
 import { TextOutput } from './ui/utils/textOutput.js';
+import { calculateTotalCost } from './ui/utils/computeStats.js';
 
 interface RunNonInteractiveParams {
   config: Config;
@@ -327,6 +329,8 @@ export async function runNonInteractive({
                 message: 'Maximum session turns exceeded',
               });
             }
+          } else if (event.type === GeminiEventType.BudgetExceeded) {
+            handleBudgetExceededError(config, event.value);
           } else if (event.type === GeminiEventType.Error) {
             throw event.value.error;
           }
@@ -415,16 +419,7 @@ export async function runNonInteractive({
               (acc, modelMetrics) => acc + modelMetrics.tokens.total,
               0,
             );
-            const costEstimation = Object.values(stats.models).reduce(
-              (acc, modelMetrics) => {
-                const inputCost =
-                  (modelMetrics.tokens.prompt / 1_000_000) * 1.25;
-                const outputCost =
-                  (modelMetrics.tokens.candidates / 1_000_000) * 10;
-                return acc + inputCost + outputCost;
-              },
-              0,
-            );
+            const costEstimation = calculateTotalCost(stats);
             textOutput.write(
               formatter.format(
                 responseText,
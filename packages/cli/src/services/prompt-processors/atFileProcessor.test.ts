@@ -9,7 +9,7 @@ import { createMockCommandContext } from '../../test-utils/mockCommandContext.js
 import { type CommandContext } from '../../ui/commands/types.js';
 import { AtFileProcessor } from './atFileProcessor.js';
 import { MessageType } from '../../ui/types.js';
-import type { Config } from '@google/gemini-cli-core';
+import { ResourceRegistry, type Config } from '@google/gemini-cli-core';
 import type { PartUnion } from '@google/genai';
 
 // Mock the core dependency
@@ -25,12 +25,16 @@ vi.mock('@google/gemini-cli-core', async (importOriginal) => {
 describe('AtFileProcessor', () => {
   let context: CommandContext;
   let mockConfig: Config;
+  let resourceRegistry: ResourceRegistry;
 
   beforeEach(() => {
     vi.clearAllMocks();
 
+    resourceRegistry = new ResourceRegistry();
     mockConfig = {
-      // The processor only passes the config through, so we don't need a full mock.
+      // Besides resolving resources, the processor only passes the config
+      // through, so we don't need a full mock.
+      getResourceRegistry: () => resourceRegistry,
     } as unknown as Config;
 
     context = createMockCommandContext({
@@ -170,6 +174,31 @@ describe('AtFileProcessor', () => {
         { text: 'content of good-file.txt' },
       ]);
     });
+
+    it('should inject the contents of @{server:uri} MCP resources', async () => {
+      const read = vi.fn().mockResolvedValue({
+        contents: [{ uri: 'doc://readme', text: '# Readme' }],
+      });
+      resourceRegistry.setServerResources('docs', [], [], read);
+      const processor = new AtFileProcessor();
+      const prompt: PartUnion[] = [
+        { text: 'Summarize @{docs:doc://readme} and @{src:main.ts}' },
+      ];
+
+      const result = await processor.process(prompt, context);
+
+      expect(read).toHaveBeenCalledWith('doc://readme');
+      expect(mockReadPathFromWorkspace).toHaveBeenCalledExactlyOnceWith(
+        'src:main.ts',
+        mockConfig,
+      );
+      expect(result).toEqual([
+        { text: 'Summarize ' },
+        { text: '# Readme' },
+        { text: ' and ' },
+        { text: 'content of src:main.ts' },
+      ]);
+    });
   });
 
   describe('UI Feedback', () => {
@@ -8,6 +8,7 @@ import {
   debugLogger,
   flatMapTextParts,
   readPathFromWorkspace,
+  resourceContentsToParts,
 } from '@google/gemini-cli-core';
 import type { CommandContext } from '../../ui/commands/types.js';
 import { MessageType } from '../../ui/types.js';
@@ -55,6 +56,21 @@ export class AtFileProcessor implements IPromptProcessor {
 
         const pathStr = injection.content;
         try {
+          const resourceReference = config
+            .getResourceRegistry()
+            .parseReference(pathStr);
+          if (resourceReference) {
+            const result = await config
+              .getResourceRegistry()
+              .readResource(
+                resourceReference.serverName,
+                resourceReference.uri,
+              );
+            output.push(...resourceContentsToParts(result));
+            lastIndex = injection.endIndex;
+            continue;
+          }
+
           const fileContentParts = await readPathFromWorkspace(pathStr, config);
           if (fileContentParts.length === 0) {
             const uiMessage = `File '@{${pathStr}}' was ignored by .gitignore or .geminiignore and was not included in the prompt.`;
@@ -49,6 +49,7 @@ import {
   coreEvents,
   CoreEvent,
   type ModelChangedPayload,
+  type SecretsRedactedPayload,
 } from '@google/gemini-cli-core';
 import { validateAuthMethod } from '../config/auth.js';
 import { loadHierarchicalGeminiMemory } from '../config/config.js';
@@ -58,6 +59,7 @@ import { useMemoryMonitor } from './hooks/useMemoryMonitor.js';
 import { useThemeCommand } from './hooks/useThemeCommand.js';
 import { useAuthCommand } from './auth/useAuth.js';
 import { useQuotaAndFallback } from './hooks/useQuotaAndFallback.js';
+import { useMcpClientRequests } from './hooks/useMcpClientRequests.js';
 import { useEditorSettings } from './hooks/useEditorSettings.js';
 import { useSettingsCommand } from './hooks/useSettingsCommand.js';
 import { useModelCommand } from './hooks/useModelCommand.js';
@@ -393,6 +395,13 @@ export const AppContainer = (props: AppContainerProps) => {
     setModelSwitchedFromQuotaError,
   });
 
+  const {
+    mcpSamplingRequest,
+    mcpElicitationRequest,
+    handleMcpSamplingChoice,
+    handleMcpElicitationResult,
+  } = useMcpClientRequests(config);
+
   // Derive auth state variables for backward compatibility with UIStateContext
   const isAuthDialogOpen = authState === AuthState.Updating;
   const isAuthenticating = authState === AuthState.Unauthenticated;
@@ -760,7 +769,9 @@ Logging in with Google... Please restart Gemini CLI to continue.
     !!slashCommands &&
     (streamingState === StreamingState.Idle ||
       streamingState === StreamingState.Responding) &&
-    !proQuotaRequest;
+    !proQuotaRequest &&
+    !mcpSamplingRequest &&
+    !mcpElicitationRequest;
 
   const [controlsHeight, setControlsHeight] = useState(0);
 
@@ -1205,6 +1216,26 @@ Logging in with Google... Please restart Gemini CLI to continue.
     };
   }, [historyManager]);
 
+  useEffect(() => {
+    const handleSecretsRedacted = (payload: SecretsRedactedPayload) => {
+      const breakdown = Object.entries(payload.rules)
+        .map(([rule, count]) => `${rule} ×${count}`)
+        .join(', ');
+      historyManager.addItem(
+        {
+          type: MessageType.INFO,
+          text: `${payload.count} ${payload.count === 1 ? 'secret' : 'secrets'} redacted in this turn (${breakdown}).`,
+        },
+        Date.now(),
+      );
+    };
+
+    coreEvents.on(CoreEvent.SecretsRedacted, handleSecretsRedacted);
+    return () => {
+      coreEvents.off(CoreEvent.SecretsRedacted, handleSecretsRedacted);
+    };
+  }, [historyManager]);
+
   const filteredConsoleMessages = useMemo(() => {
     if (config.getDebugMode()) {
       return consoleMessages;
@@ -1240,6 +1271,8 @@ Logging in with Google... Please restart Gemini CLI to continue.
     showPrivacyNotice ||
     showIdeRestartPrompt ||
     !!proQuotaRequest ||
+    !!mcpSamplingRequest ||
+    !!mcpElicitationRequest ||
     isAuthDialogOpen ||
     authState === AuthState.AwaitingApiKeyInput;
 
@@ -1309,6 +1342,8 @@ Logging in with Google... Please restart Gemini CLI to continue.
       currentModel,
       userTier,
       proQuotaRequest,
+      mcpSamplingRequest,
+      mcpElicitationRequest,
       contextFileNames,
       errorCount,
       availableTerminalHeight,
@@ -1390,6 +1425,8 @@ Logging in with Google... Please restart Gemini CLI to continue.
       showAutoAcceptIndicator,
       userTier,
       proQuotaRequest,
+      mcpSamplingRequest,
+      mcpElicitationRequest,
       contextFileNames,
       errorCount,
       availableTerminalHeight,
@@ -1451,6 +1488,8 @@ Logging in with Google... Please restart Gemini CLI to continue.
       handleFinalSubmit,
       handleClearScreen,
       handleProQuotaChoice,
+      handleMcpSamplingChoice,
+      handleMcpElicitationResult,
       setQueueErrorMessage,
       popAllMessages,
       handleApiKeySubmit,
@@ -1479,6 +1518,8 @@ Logging in with Google... Please restart Gemini CLI to continue.
       handleFinalSubmit,
       handleClearScreen,
       handleProQuotaChoice,
+      handleMcpSamplingChoice,
+      handleMcpElicitationResult,
       setQueueErrorMessage,
       popAllMessages,
       handleApiKeySubmit,
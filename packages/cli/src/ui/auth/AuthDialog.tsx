@@ -65,6 +65,11 @@ export function AuthDialog({
       value: AuthType.USE_VERTEX_AI,
       key: AuthType.USE_VERTEX_AI,
     },
+    {
+      label: 'Local model (OpenAI-compatible / Ollama)',
+      value: AuthType.OPENAI_COMPATIBLE,
+      key: AuthType.OPENAI_COMPATIBLE,
+    },
   ];
 
   if (settings.merged.security?.auth?.enforcedType) {
@@ -40,6 +40,9 @@ describe('aboutCommand', () => {
         config: {
           getModel: vi.fn(),
           getIdeMode: vi.fn().mockReturnValue(true),
+          promptProfileService: {
+            getActiveProfileName: vi.fn().mockReturnValue('original'),
+          },
         },
         settings: {
           merged: {
@@ -95,6 +98,7 @@ describe('aboutCommand', () => {
         osVersion: 'test-os',
         sandboxEnv: 'no sandbox',
         modelVersion: 'test-model',
+        promptProfile: 'original',
         selectedAuthType: 'test-auth',
         gcpProject: 'test-gcp-project',
         ideClient: 'test-ide',
@@ -155,6 +159,7 @@ describe('aboutCommand', () => {
         osVersion: 'test-os',
         sandboxEnv: 'no sandbox',
         modelVersion: 'test-model',
+        promptProfile: 'original',
         selectedAuthType: 'test-auth',
         gcpProject: 'test-gcp-project',
         ideClient: '',
@@ -26,6 +26,9 @@ export const aboutCommand: SlashCommand = {
       })`;
     }
     const modelVersion = context.services.config?.getModel() || 'Unknown';
+    const promptProfile =
+      context.services.config?.promptProfileService.getActiveProfileName() ||
+      'Unknown';
     const cliVersion = await getCliVersion();
     const selectedAuthType =
       context.services.settings.merged.security?.auth?.selectedType || '';
@@ -38,6 +41,7 @@ export const aboutCommand: SlashCommand = {
       osVersion,
       sandboxEnv,
       modelVersion,
+      promptProfile,
       selectedAuthType,
       gcpProject,
       ideClient,
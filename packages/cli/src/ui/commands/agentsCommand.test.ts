@@ -0,0 +1,239 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { agentsCommand } from './agentsCommand.js';
+import { CommandKind, type CommandContext } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import type {
+  AgentDefinition,
+  AgentSourceInfo,
+  Config,
+} from '@google/gemini-cli-core';
+
+const BASE_DEFINITION: Omit<AgentDefinition, 'name' | 'inputConfig'> = {
+  description: 'Agent',
+  promptConfig: {},
+  modelConfig: { model: 'gemini-2.5-pro', temp: 0.1, top_p: 0.95 },
+  runConfig: { max_time_minutes: 5 },
+};
+
+const INVESTIGATOR: AgentDefinition = {
+  ...BASE_DEFINITION,
+  name: 'codebase_investigator',
+  displayName: 'Codebase Investigator Agent',
+  description: 'Investigates the codebase.\nReturns a report.',
+  inputConfig: {
+    inputs: {
+      objective: {
+        description: 'What to investigate.',
+        type: 'string',
+        required: true,
+      },
+    },
+  },
+  runConfig: { max_time_minutes: 5, max_turns: 15 },
+  toolConfig: { tools: ['read_file', 'glob'] },
+};
+
+const TEST_WRITER: AgentDefinition = {
+  ...BASE_DEFINITION,
+  name: 'test_writer',
+  description: 'Writes tests.',
+  inputConfig: {
+    inputs: {
+      module: { description: 'Module.', type: 'string', required: true },
+      framework: { description: 'Framework.', type: 'string', required: true },
+    },
+  },
+};
+
+const SOURCES: Record<string, AgentSourceInfo> = {
+  codebase_investigator: { origin: 'built-in' },
+  test_writer: {
+    origin: 'extension',
+    extensionName: 'testing-kit',
+    filePath: '/ext/testing-kit/agents/test-writer.toml',
+  },
+};
+
+describe('agentsCommand', () => {
+  let mockContext: CommandContext;
+  let definitions: AgentDefinition[];
+  let getTool: ReturnType<typeof vi.fn>;
+
+  const [listCommand, describeCommand, runCommand] = agentsCommand.subCommands!;
+
+  beforeEach(() => {
+    definitions = [INVESTIGATOR, TEST_WRITER];
+    getTool = vi.fn().mockReturnValue({});
+    mockContext = createMockCommandContext({
+      services: {
+        config: {
+          getAgentRegistry: () => ({
+            getAllDefinitions: () => definitions,
+            getDefinition: (name: string) =>
+              definitions.find((definition) => definition.name === name),
+            getSource: (name: string) => SOURCES[name],
+          }),
+          getToolRegistry: () => ({ getTool }),
+        } as unknown as Config,
+      },
+    });
+  });
+
+  it('should have correct command definition', () => {
+    expect(agentsCommand.name).toBe('agents');
+    expect(agentsCommand.kind).toBe(CommandKind.BUILT_IN);
+    expect(agentsCommand.subCommands?.map((c) => c.name)).toEqual([
+      'list',
+      'describe',
+      'run',
+    ]);
+  });
+
+  it('should report when config is not loaded', async () => {
+    const context = createMockCommandContext({ services: { config: null } });
+    expect(await listCommand.action!(context, '')).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: 'Config not loaded.',
+    });
+  });
+
+  describe('/agents list', () => {
+    it('should list agents with their sources', async () => {
+      const result = await listCommand.action!(mockContext, '');
+      expect(result).toEqual({
+        type: 'message',
+        messageType: 'info',
+        content:
+          '**Subagents**\n\n' +
+          '- **codebase_investigator** [built-in] Investigates the codebase.\n' +
+          '- **test_writer** [extension: testing-kit] Writes tests.\n',
+      });
+    });
+
+    it('should explain how to add agents when there are none', async () => {
+      definitions = [];
+      const result = await listCommand.action!(mockContext, '');
+      expect(result).toMatchObject({
+        messageType: 'info',
+        content: expect.stringContaining('.gemini/agents/'),
+      });
+    });
+  });
+
+  describe('/agents describe', () => {
+    it('should describe an agent', async () => {
+      const result = await describeCommand.action!(
+        mockContext,
+        'codebase_investigator',
+      );
+      expect(result).toEqual({
+        type: 'message',
+        messageType: 'info',
+        content: [
+          '**Codebase Investigator Agent**',
+          '',
+          'Investigates the codebase.\nReturns a report.',
+          '',
+          '- Name: codebase_investigator',
+          '- Source: built-in',
+          '- Model: gemini-2.5-pro',
+          '- Limits: 5 minutes, 15 turns',
+          '- Tools: read_file, glob',
+          '',
+          '**Inputs**',
+          '',
+          '- `objective` (string, required): What to investigate.',
+        ].join('\n'),
+      });
+    });
+
+    it('should include the definition file', async () => {
+      const result = await describeCommand.action!(mockContext, 'test_writer');
+      expect(result).toMatchObject({
+        content: expect.stringContaining(
+          '- Source: extension: testing-kit (/ext/testing-kit/agents/test-writer.toml)',
+        ),
+      });
+    });
+
+    it('should reject unknown agents', async () => {
+      expect(await describeCommand.action!(mockContext, 'nope')).toEqual({
+        type: 'message',
+        messageType: 'error',
+        content: 'Unknown subagent "nope".',
+      });
+    });
+  });
+
+  describe('/agents run', () => {
+    it('should pass free text as the only required input', async () => {
+      const result = await runCommand.action!(
+        mockContext,
+        'codebase_investigator  how does auth work?',
+      );
+      expect(result).toEqual({
+        type: 'tool',
+        toolName: 'codebase_investigator',
+        toolArgs: { objective: 'how does auth work?' },
+      });
+    });
+
+    it('should pass a JSON object as the inputs', async () => {
+      const result = await runCommand.action!(
+        mockContext,
+        'test_writer {"module": "src/a.ts", "framework": "vitest"}',
+      );
+      expect(result).toEqual({
+        type: 'tool',
+        toolName: 'test_writer',
+        toolArgs: { module: 'src/a.ts', framework: 'vitest' },
+      });
+    });
+
+    it('should require JSON for agents with several inputs', async () => {
+      const result = await runCommand.action!(mockContext, 'test_writer a.ts');
+      expect(result).toEqual({
+        type: 'message',
+        messageType: 'error',
+        content:
+          'Subagent "test_writer" takes the inputs module, framework; pass them as a JSON object.',
+      });
+    });
+
+    it('should reject invalid JSON and missing input', async () => {
+      expect(
+        await runCommand.action!(mockContext, 'test_writer {"module":'),
+      ).toMatchObject({ content: expect.stringContaining('Invalid JSON') });
+      expect(
+        await runCommand.action!(mockContext, 'codebase_investigator'),
+      ).toMatchObject({
+        content: expect.stringContaining('Missing input "objective".'),
+      });
+    });
+
+    it('should refuse agents that are not registered as tools', async () => {
+      getTool.mockReturnValue(undefined);
+      const result = await runCommand.action!(
+        mockContext,
+        'codebase_investigator why?',
+      );
+      expect(result).toMatchObject({
+        messageType: 'error',
+        content: expect.stringContaining('is disabled'),
+      });
+    });
+  });
+
+  it('should complete agent names', async () => {
+    expect(await runCommand.completion!(mockContext, 'test')).toEqual([
+      'test_writer',
+    ]);
+  });
+});
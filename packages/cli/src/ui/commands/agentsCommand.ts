@@ -0,0 +1,232 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AgentDefinition, AgentSourceInfo } from '@google/gemini-cli-core';
+import {
+  CommandKind,
+  type CommandContext,
+  type MessageActionReturn,
+  type SlashCommand,
+  type ToolActionReturn,
+} from './types.js';
+
+const CONFIG_UNAVAILABLE: MessageActionReturn = {
+  type: 'message',
+  messageType: 'error',
+  content: 'Config not loaded.',
+};
+
+const RUN_USAGE = 'Usage: /agents run <name> <input or JSON object of inputs>';
+
+function errorMessage(content: string): MessageActionReturn {
+  return { type: 'message', messageType: 'error', content };
+}
+
+function describeSource(source: AgentSourceInfo | undefined): string {
+  if (!source) {
+    return 'unknown';
+  }
+  if (source.origin === 'extension') {
+    return `extension: ${source.extensionName}`;
+  }
+  return source.origin;
+}
+
+function firstLine(text: string): string {
+  return text.trim().split('\n')[0];
+}
+
+function completeAgentName(context: CommandContext, partialArg: string) {
+  return (context.services.config?.getAgentRegistry().getAllDefinitions() ?? [])
+    .map((definition) => definition.name)
+    .filter((name) => name.startsWith(partialArg));
+}
+
+const listCommand: SlashCommand = {
+  name: 'list',
+  description: 'List available subagents',
+  kind: CommandKind.BUILT_IN,
+  action: async (context): Promise<MessageActionReturn> => {
+    const { config } = context.services;
+    if (!config) {
+      return CONFIG_UNAVAILABLE;
+    }
+
+    const registry = config.getAgentRegistry();
+    const definitions = registry.getAllDefinitions();
+    if (definitions.length === 0) {
+      return {
+        type: 'message',
+        messageType: 'info',
+        content:
+          'No subagents are available. Add definitions to .gemini/agents/ to create one.',
+      };
+    }
+
+    let content = '**Subagents**\n\n';
+    for (const definition of definitions) {
+      const source = describeSource(registry.getSource(definition.name));
+      content += `- **${definition.name}** [${source}] ${firstLine(definition.description)}\n`;
+    }
+    return { type: 'message', messageType: 'info', content };
+  },
+};
+
+function formatDefinition(
+  definition: AgentDefinition,
+  source: AgentSourceInfo | undefined,
+): string {
+  const lines = [`**${definition.displayName ?? definition.name}**`, ''];
+  lines.push(definition.description.trim(), '');
+  lines.push(`- Name: ${definition.name}`);
+  lines.push(
+    `- Source: ${describeSource(source)}${source?.filePath ? ` (${source.filePath})` : ''}`,
+  );
+  lines.push(`- Model: ${definition.modelConfig.model}`);
+  lines.push(
+    `- Limits: ${definition.runConfig.max_time_minutes} minutes` +
+      (definition.runConfig.max_turns !== undefined
+        ? `, ${definition.runConfig.max_turns} turns`
+        : ''),
+  );
+  const tools = (definition.toolConfig?.tools ?? []).map((tool) =>
+    typeof tool === 'string' ? tool : tool.name,
+  );
+  lines.push(`- Tools: ${tools.length > 0 ? tools.join(', ') : 'none'}`);
+
+  const inputs = Object.entries(definition.inputConfig.inputs);
+  lines.push('', '**Inputs**', '');
+  if (inputs.length === 0) {
+    lines.push('None');
+  }
+  for (const [name, input] of inputs) {
+    const required = input.required ? ', required' : '';
+    lines.push(
+      `- \`${name}\` (${input.type}${required}): ${input.description}`,
+    );
+  }
+
+  if (definition.outputConfig) {
+    lines.push('', '**Output**', '');
+    lines.push(
+      `- \`${definition.outputConfig.outputName}\`: ${definition.outputConfig.description}`,
+    );
+  }
+  return lines.join('\n');
+}
+
+const describeCommand: SlashCommand = {
+  name: 'describe',
+  description:
+    'Show the definition of a subagent. Usage: /agents describe <name>',
+  kind: CommandKind.BUILT_IN,
+  action: async (context, args): Promise<MessageActionReturn> => {
+    const { config } = context.services;
+    if (!config) {
+      return CONFIG_UNAVAILABLE;
+    }
+
+    const name = args.trim();
+    if (!name) {
+      return errorMessage('Missing agent name. Usage: /agents describe <name>');
+    }
+    const registry = config.getAgentRegistry();
+    const definition = registry.getDefinition(name);
+    if (!definition) {
+      return errorMessage(`Unknown subagent "${name}".`);
+    }
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: formatDefinition(definition, registry.getSource(name)),
+    };
+  },
+  completion: completeAgentName,
+};
+
+/**
+ * Maps the text after the agent name onto the agent's inputs: a JSON object
+ * is used as is, anything else is passed as the agent's only required input.
+ */
+function parseRunInputs(
+  definition: AgentDefinition,
+  input: string,
+): Record<string, unknown> | string {
+  if (input.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(input);
+      if (typeof parsed === 'object' && parsed !== null) {
+        return parsed;
+      }
+    } catch {
+      return `Invalid JSON inputs. ${RUN_USAGE}`;
+    }
+  }
+
+  const inputs = Object.entries(definition.inputConfig.inputs);
+  if (inputs.length === 0) {
+    return {};
+  }
+  const required = inputs.filter(([, config]) => config.required);
+  const candidates = required.length > 0 ? required : inputs;
+  if (candidates.length !== 1 || candidates[0][1].type !== 'string') {
+    return `Subagent "${definition.name}" takes the inputs ${inputs
+      .map(([name]) => name)
+      .join(', ')}; pass them as a JSON object.`;
+  }
+  const [target] = candidates[0];
+  if (!input) {
+    return `Missing input "${target}". ${RUN_USAGE}`;
+  }
+  return { [target]: input };
+}
+
+const runCommand: SlashCommand = {
+  name: 'run',
+  description: `Run a subagent directly. ${RUN_USAGE}`,
+  kind: CommandKind.BUILT_IN,
+  action: async (
+    context,
+    args,
+  ): Promise<MessageActionReturn | ToolActionReturn> => {
+    const { config } = context.services;
+    if (!config) {
+      return CONFIG_UNAVAILABLE;
+    }
+
+    const trimmed = args.trim();
+    const separator = trimmed.search(/\s/);
+    const name = separator === -1 ? trimmed : trimmed.slice(0, separator);
+    const input = separator === -1 ? '' : trimmed.slice(separator).trim();
+    if (!name) {
+      return errorMessage(`Missing agent name. ${RUN_USAGE}`);
+    }
+
+    const definition = config.getAgentRegistry().getDefinition(name);
+    if (!definition) {
+      return errorMessage(`Unknown subagent "${name}".`);
+    }
+    if (!config.getToolRegistry().getTool(name)) {
+      return errorMessage(
+        `Subagent "${name}" is disabled by the allowed or excluded tools settings.`,
+      );
+    }
+
+    const toolArgs = parseRunInputs(definition, input);
+    if (typeof toolArgs === 'string') {
+      return errorMessage(toolArgs);
+    }
+    return { type: 'tool', toolName: name, toolArgs };
+  },
+  completion: completeAgentName,
+};
+
+export const agentsCommand: SlashCommand = {
+  name: 'agents',
+  description: 'List, inspect and run subagents',
+  kind: CommandKind.BUILT_IN,
+  subCommands: [listCommand, describeCommand, runCommand],
+};
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { anonymizeCommand } from './anonymizeCommand.js';
+import { MessageType } from '../types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import type { Config, RedactionRule } from '@google/gemini-cli-core';
+
+describe('anonymizeCommand', () => {
+  let mockContext: ReturnType<typeof createMockCommandContext>;
+  let anonymizationEnabled: boolean;
+  let rules: RedactionRule[];
+
+  beforeEach(() => {
+    anonymizationEnabled = true;
+    rules = [];
+    mockContext = createMockCommandContext({
+      services: {
+        config: {
+          isAnonymizationEnabled: () => anonymizationEnabled,
+          setAnonymizationEnabled: vi.fn((enabled: boolean) => {
+            anonymizationEnabled = enabled;
+          }),
+          getRedactionRules: () => rules,
+        } as unknown as Config,
+      },
+    });
+  });
+
+  it('should turn anonymization off and on', async () => {
+    await anonymizeCommand.action!(mockContext, 'off');
+    expect(anonymizationEnabled).toBe(false);
+
+    await anonymizeCommand.action!(mockContext, 'on');
+    expect(anonymizationEnabled).toBe(true);
+  });
+
+  it('should show usage and the current state without arguments', async () => {
+    await anonymizeCommand.action!(mockContext, '');
+
+    expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+      {
+        type: MessageType.INFO,
+        text: 'Usage: /anonymize [on|off|rules]\nAnonymization is currently ON.',
+      },
+      expect.any(Number),
+    );
+  });
+
+  describe('rules subcommand', () => {
+    const rulesCommand = anonymizeCommand.subCommands!.find(
+      (command) => command.name === 'rules',
+    )!;
+
+    it('should list active and disabled rules with their origin', async () => {
+      const pattern = () => /x/g;
+      rules = [
+        { name: 'Private Key', pattern, origin: 'default' },
+        { name: 'Email Address', pattern, origin: 'user', enabled: false },
+        { name: 'Customer ID', pattern, origin: 'project' },
+        {
+          name: 'Vault Token',
+          pattern,
+          origin: 'extension',
+          extensionName: 'vault-tools',
+        },
+      ];
+
+      await rulesCommand.action!(mockContext, '');
+
+      expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+        {
+          type: MessageType.INFO,
+          text:
+            'Active redaction rules (3):\n' +
+            '  - Private Key (default)\n' +
+            '  - Customer ID (project)\n' +
+            '  - Vault Token (extension "vault-tools")\n\n' +
+            'Disabled rules (1):\n' +
+            '  - Email Address (user)',
+        },
+        expect.any(Number),
+      );
+    });
+
+    it('should show an error if config is missing', async () => {
+      mockContext.services.config = null;
+
+      await rulesCommand.action!(mockContext, '');
+
+      expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+        {
+          type: MessageType.ERROR,
+          text: 'Unable to access configuration.',
+        },
+        expect.any(Number),
+      );
+    });
+  });
+});
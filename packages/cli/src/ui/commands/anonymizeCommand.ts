@@ -4,15 +4,66 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import type { RedactionRule } from '@google/gemini-cli-core';
 import type { SlashCommand } from './types.js';
 import { CommandKind } from './types.js';
 import { MessageType } from '../types.js';
 
+function formatRuleOrigin(rule: RedactionRule): string {
+  if (rule.origin === 'extension' && rule.extensionName) {
+    return `extension "${rule.extensionName}"`;
+  }
+  return rule.origin ?? 'default';
+}
+
+const rulesSubCommand: SlashCommand = {
+  name: 'rules',
+  description: 'List the redaction rules in effect and where they come from',
+  kind: CommandKind.BUILT_IN,
+  action: (context) => {
+    const { config } = context.services;
+    if (!config) {
+      context.ui.addItem(
+        {
+          type: MessageType.ERROR,
+          text: 'Unable to access configuration.',
+        },
+        Date.now(),
+      );
+      return;
+    }
+
+    const rules = config.getRedactionRules();
+    const active = rules.filter((rule) => rule.enabled !== false);
+    const disabled = rules.filter((rule) => rule.enabled === false);
+
+    let text = `Active redaction rules (${active.length}):\n`;
+    text += active
+      .map((rule) => `  - ${rule.name} (${formatRuleOrigin(rule)})`)
+      .join('\n');
+    if (disabled.length > 0) {
+      text += `\n\nDisabled rules (${disabled.length}):\n`;
+      text += disabled
+        .map((rule) => `  - ${rule.name} (${formatRuleOrigin(rule)})`)
+        .join('\n');
+    }
+
+    context.ui.addItem(
+      {
+        type: MessageType.INFO,
+        text,
+      },
+      Date.now(),
+    );
+  },
+};
+
 export const anonymizeCommand: SlashCommand = {
   name: 'anonymize',
   description:
     'Enable or disable session-level secret anonymization. Default: on',
   kind: CommandKind.BUILT_IN,
+  subCommands: [rulesSubCommand],
   action: (context, args) => {
     const { config } = context.services;
     const { addItem } = context.ui;
@@ -54,7 +105,7 @@ export const anonymizeCommand: SlashCommand = {
       addItem(
         {
           type: MessageType.INFO,
-          text: `Usage: /anonymize [on|off]\nAnonymization is currently ${currentState}.`,
+          text: `Usage: /anonymize [on|off|rules]\nAnonymization is currently ${currentState}.`,
         },
         Date.now(),
       );
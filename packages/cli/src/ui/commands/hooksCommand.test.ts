@@ -0,0 +1,154 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { hooksCommand } from './hooksCommand.js';
+import { MessageType } from '../types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import {
+  HookEventName,
+  HookType,
+  type CommandHookConfig,
+  type Config,
+  type HookExecutionPlan,
+  type HookPlanExecutionResult,
+} from '@google/gemini-cli-core';
+
+const LINT: CommandHookConfig = {
+  type: HookType.Command,
+  command: './lint.sh',
+};
+const SECRETS: CommandHookConfig = {
+  type: HookType.Command,
+  command: './secrets.sh',
+  name: 'secrets',
+};
+const AUDIT: CommandHookConfig = {
+  type: HookType.Command,
+  command: './audit.sh',
+  after: ['./lint.sh', 'secrets'],
+};
+
+describe('hooksCommand', () => {
+  let mockContext: ReturnType<typeof createMockCommandContext>;
+  let hookSystem: {
+    createPlan: ReturnType<typeof vi.fn>;
+    getLastExecution: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    hookSystem = { createPlan: vi.fn(), getLastExecution: vi.fn() };
+    mockContext = createMockCommandContext({
+      services: {
+        config: {
+          getHookSystem: () => hookSystem,
+        } as unknown as Config,
+      },
+    });
+  });
+
+  it('should explain how to enable hooks when they are disabled', async () => {
+    mockContext.services.config = {
+      getHookSystem: () => undefined,
+    } as unknown as Config;
+
+    await hooksCommand.action!(mockContext, '');
+
+    expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+      {
+        type: MessageType.INFO,
+        text: 'Hooks are disabled. Set `tools.enableHooks` to `true` in your settings to enable them.',
+      },
+      expect.any(Number),
+    );
+  });
+
+  it('should report when no hooks are configured', async () => {
+    hookSystem.createPlan.mockReturnValue(null);
+
+    await hooksCommand.action!(mockContext, '');
+
+    expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+      { type: MessageType.INFO, text: 'No hooks configured.' },
+      expect.any(Number),
+    );
+  });
+
+  it('should show the plan and last results of each event', async () => {
+    hookSystem.createPlan.mockImplementation(
+      (eventName: HookEventName): HookExecutionPlan | null => {
+        if (eventName === HookEventName.BeforeTool) {
+          return {
+            eventName,
+            hookConfigs: [LINT, SECRETS, AUDIT],
+            stages: [[LINT, SECRETS], [AUDIT]],
+            sequential: false,
+          };
+        }
+        if (eventName === HookEventName.SessionStart) {
+          return {
+            eventName,
+            hookConfigs: [LINT],
+            stages: [[LINT]],
+            sequential: true,
+          };
+        }
+        return null;
+      },
+    );
+    hookSystem.getLastExecution.mockImplementation(
+      (eventName: HookEventName): HookPlanExecutionResult | undefined =>
+        eventName === HookEventName.BeforeTool
+          ? {
+              eventName,
+              results: [
+                {
+                  hookConfig: LINT,
+                  eventName,
+                  success: false,
+                  duration: 4,
+                  error: new Error('Command hook exited with code 1.'),
+                },
+                {
+                  hookConfig: SECRETS,
+                  eventName,
+                  success: true,
+                  duration: 12,
+                  output: { decision: 'deny', reason: 'Found a key.' },
+                },
+              ],
+              skipped: [AUDIT],
+              stoppedBy: { hookConfig: SECRETS, reason: 'Found a key.' },
+            }
+          : undefined,
+    );
+
+    await hooksCommand.action!(mockContext, '');
+
+    expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+      {
+        type: MessageType.INFO,
+        text: [
+          '**Hooks**',
+          '',
+          '**BeforeTool**',
+          '  1. `./lint.sh`, `secrets` (parallel)',
+          '  2. `./audit.sh`',
+          'Last run: 2 ran, 1 skipped; stopped by `secrets`: Found a key.',
+          '  ✗ `./lint.sh` (4ms): Command hook exited with code 1.',
+          '  ✓ `secrets` (12ms) → deny',
+          '  - `./audit.sh` skipped',
+          '',
+          '**SessionStart**',
+          '  1. `./lint.sh`',
+          'Not run yet.',
+          '',
+        ].join('\n'),
+      },
+      expect.any(Number),
+    );
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  getHookName,
+  HookEventName,
+  type HookExecutionPlan,
+  type HookPlanExecutionResult,
+} from '@google/gemini-cli-core';
+import { CommandKind, type SlashCommand } from './types.js';
+import { MessageType } from '../types.js';
+
+function formatPlan(plan: HookExecutionPlan): string {
+  let content = '';
+  plan.stages.forEach((stage, index) => {
+    const names = stage.map((hookConfig) => `\`${getHookName(hookConfig)}\``);
+    content += `  ${index + 1}. ${names.join(', ')}`;
+    if (stage.length > 1) {
+      content += ' (parallel)';
+    }
+    content += '\n';
+  });
+  return content;
+}
+
+function formatExecution(execution: HookPlanExecutionResult): string {
+  let content = `Last run: ${execution.results.length} ran`;
+  if (execution.skipped.length > 0) {
+    content += `, ${execution.skipped.length} skipped`;
+  }
+  if (execution.stoppedBy) {
+    content += `; stopped by \`${getHookName(execution.stoppedBy.hookConfig)}\`: ${execution.stoppedBy.reason}`;
+  }
+  content += '\n';
+
+  for (const result of execution.results) {
+    const name = `\`${getHookName(result.hookConfig)}\``;
+    if (result.success) {
+      const decision = result.output?.decision
+        ? ` → ${result.output.decision}`
+        : '';
+      content += `  ✓ ${name} (${result.duration}ms)${decision}\n`;
+    } else {
+      content += `  ✗ ${name} (${result.duration}ms): ${result.error?.message ?? 'failed'}\n`;
+    }
+  }
+  for (const hookConfig of execution.skipped) {
+    content += `  - \`${getHookName(hookConfig)}\` skipped\n`;
+  }
+  return content;
+}
+
+export const hooksCommand: SlashCommand = {
+  name: 'hooks',
+  description: 'Show the execution plan and last results of configured hooks',
+  kind: CommandKind.BUILT_IN,
+  action: async (context) => {
+    const { config } = context.services;
+    if (!config) {
+      context.ui.addItem(
+        {
+          type: MessageType.ERROR,
+          text: 'Error: Config not available.',
+        },
+        Date.now(),
+      );
+      return;
+    }
+
+    const hookSystem = config.getHookSystem();
+    if (!hookSystem) {
+      context.ui.addItem(
+        {
+          type: MessageType.INFO,
+          text: 'Hooks are disabled. Set `tools.enableHooks` to `true` in your settings to enable them.',
+        },
+        Date.now(),
+      );
+      return;
+    }
+
+    let content = '';
+    for (const eventName of Object.values(HookEventName)) {
+      const plan = hookSystem.createPlan(eventName);
+      if (!plan) {
+        continue;
+      }
+      content += `\n**${eventName}**\n${formatPlan(plan)}`;
+      const execution = hookSystem.getLastExecution(eventName);
+      content += execution ? formatExecution(execution) : 'Not run yet.\n';
+    }
+
+    context.ui.addItem(
+      {
+        type: MessageType.INFO,
+        text: content ? `**Hooks**\n${content}` : 'No hooks configured.',
+      },
+      Date.now(),
+    );
+  },
+};
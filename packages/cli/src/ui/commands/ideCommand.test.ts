@@ -17,6 +17,7 @@ vi.mock('@google/gemini-cli-core', async (importOriginal) => {
     ...original,
     getOauthClient: vi.fn(original.getOauthClient),
     getIdeInstaller: vi.fn(original.getIdeInstaller),
+    syncIdeLanguageTools: vi.fn(),
     IdeClient: {
       getInstance: vi.fn(),
     },
@@ -11,6 +11,7 @@ import {
   logIdeConnection,
   IdeConnectionEvent,
   IdeConnectionType,
+  syncIdeLanguageTools,
 } from '@google/gemini-cli-core';
 import {
   getIdeInstaller,
@@ -130,6 +131,7 @@ async function setIdeModeAndSyncConnection(
   } else {
     await ideClient.disconnect();
   }
+  await syncIdeLanguageTools(config, ideClient);
 }
 
 export const ideCommand = async (): Promise<SlashCommand> => {
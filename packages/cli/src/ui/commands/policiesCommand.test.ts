@@ -104,5 +104,37 @@ describe('policiesCommand', () => {
       expect(content).toContain('2. **ALLOW** all tools (args match: `safe`)');
       expect(content).toContain('3. **ASK_USER** all tools');
     });
+
+    it('should describe argument and command conditions', async () => {
+      const mockRules = [
+        {
+          decision: PolicyDecision.DENY,
+          toolName: 'run_shell_command',
+          commandMatcher: { program: ['git'], subcommand: ['push', 'reset'] },
+        },
+        {
+          decision: PolicyDecision.ALLOW,
+          toolName: 'write_file',
+          argsConditions: [{ path: 'file_path', glob: 'src/**' }],
+        },
+      ];
+      mockContext.services.config = {
+        getPolicyEngine: vi.fn().mockReturnValue({
+          getRules: vi.fn().mockReturnValue(mockRules),
+        }),
+      } as unknown as Config;
+
+      await policiesCommand.subCommands![0].action!(mockContext, '');
+
+      const content = (
+        vi.mocked(mockContext.ui.addItem).mock.calls[0][0] as { text: string }
+      ).text;
+      expect(content).toContain(
+        '1. **DENY** tool: `run_shell_command` (command: `git push|reset`)',
+      );
+      expect(content).toContain(
+        '2. **ALLOW** tool: `write_file` (args: `file_path`)',
+      );
+    });
   });
 });
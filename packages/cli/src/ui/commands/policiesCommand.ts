@@ -49,6 +49,19 @@ const listPoliciesCommand: SlashCommand = {
       if (rule.argsPattern) {
         content += ` (args match: \`${rule.argsPattern.source}\`)`;
       }
+      if (rule.argsConditions) {
+        content += ` (args: ${rule.argsConditions
+          .map((condition) => `\`${condition.path}\``)
+          .join(', ')})`;
+      }
+      if (rule.commandMatcher) {
+        const { program, subcommand, prefix } = rule.commandMatcher;
+        const words = prefix ?? [
+          program?.join('|') ?? '*',
+          ...(subcommand ? [subcommand.join('|')] : []),
+        ];
+        content += ` (command: \`${words.join(' ')}\`)`;
+      }
       if (rule.priority !== undefined) {
         content += ` [Priority: ${rule.priority}]`;
       }
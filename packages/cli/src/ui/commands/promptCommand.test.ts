@@ -0,0 +1,130 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { promptCommand } from './promptCommand.js';
+import { CommandKind } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import type { Config, PromptProfile } from '@google/gemini-cli-core';
+
+const PROFILES: PromptProfile[] = [
+  {
+    name: 'default',
+    source: 'built-in',
+    dir: '/bundle/hacked_prompts_source',
+    kinds: ['core', 'compression', 'edit-fixer', 'summarizer'],
+  },
+  {
+    name: 'original',
+    source: 'built-in',
+    dir: '/bundle/original_prompts',
+    kinds: ['core', 'compression'],
+  },
+  {
+    name: 'reviewer',
+    source: 'extension',
+    dir: '/ext/prompts/reviewer',
+    extensionName: 'review-kit',
+    kinds: [],
+  },
+];
+
+describe('promptCommand', () => {
+  let mockContext: ReturnType<typeof createMockCommandContext>;
+  let setActiveProfile: ReturnType<typeof vi.fn>;
+  let reload: ReturnType<typeof vi.fn>;
+  let updateSystemInstruction: ReturnType<typeof vi.fn>;
+
+  const listCommand = promptCommand.subCommands![0];
+  const useCommand = promptCommand.subCommands![1];
+
+  beforeEach(() => {
+    setActiveProfile = vi.fn();
+    reload = vi.fn();
+    updateSystemInstruction = vi.fn();
+    mockContext = createMockCommandContext({
+      services: {
+        config: {
+          promptProfileService: {
+            listProfiles: vi.fn().mockReturnValue(PROFILES),
+            getActiveProfileName: vi.fn().mockReturnValue('default'),
+            setActiveProfile,
+            reload,
+          },
+          getGeminiClient: vi.fn().mockReturnValue({ updateSystemInstruction }),
+        } as unknown as Config,
+      },
+    });
+  });
+
+  it('should have correct command definition', () => {
+    expect(promptCommand.name).toBe('prompt');
+    expect(promptCommand.kind).toBe(CommandKind.BUILT_IN);
+    expect(promptCommand.subCommands!.map((c) => c.name)).toEqual([
+      'list',
+      'use',
+    ]);
+  });
+
+  it('should list profiles and mark the active one', async () => {
+    const result = await listCommand.action!(mockContext, '');
+
+    expect(reload).toHaveBeenCalled();
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content:
+        '**Prompt Profiles**\n\n' +
+        '- **default** (active) [built-in] prompts: core, compression, edit-fixer, summarizer\n' +
+        '- **original** [built-in] prompts: core, compression\n' +
+        '- **reviewer** [extension: review-kit] prompts: none\n',
+    });
+  });
+
+  it('should switch profiles and refresh the system instruction', async () => {
+    const result = await useCommand.action!(mockContext, ' original ');
+
+    expect(reload).toHaveBeenCalled();
+    expect(setActiveProfile).toHaveBeenCalledWith('original');
+    expect(updateSystemInstruction).toHaveBeenCalled();
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: 'Switched to prompt profile "original".',
+    });
+  });
+
+  it('should report unknown profiles', async () => {
+    setActiveProfile.mockImplementation(() => {
+      throw new Error('Unknown prompt profile "missing".');
+    });
+
+    const result = await useCommand.action!(mockContext, 'missing');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: 'Unknown prompt profile "missing".',
+    });
+    expect(updateSystemInstruction).not.toHaveBeenCalled();
+  });
+
+  it('should require a profile name', async () => {
+    const result = await useCommand.action!(mockContext, '');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: 'Missing profile name. Usage: /prompt use <name>',
+    });
+  });
+
+  it('should complete profile names', async () => {
+    expect(await useCommand.completion!(mockContext, 'or')).toEqual([
+      'original',
+    ]);
+  });
+});
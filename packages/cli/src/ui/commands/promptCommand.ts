@@ -0,0 +1,105 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { PromptProfile } from '@google/gemini-cli-core';
+import { getErrorMessage } from '@google/gemini-cli-core';
+import {
+  CommandKind,
+  type MessageActionReturn,
+  type SlashCommand,
+} from './types.js';
+
+const CONFIG_UNAVAILABLE: MessageActionReturn = {
+  type: 'message',
+  messageType: 'error',
+  content: 'Config not loaded.',
+};
+
+function describeSource(profile: PromptProfile): string {
+  if (profile.source === 'extension') {
+    return `extension: ${profile.extensionName}`;
+  }
+  return profile.source;
+}
+
+const listCommand: SlashCommand = {
+  name: 'list',
+  description: 'List available prompt profiles',
+  kind: CommandKind.BUILT_IN,
+  action: async (context): Promise<MessageActionReturn> => {
+    const { config } = context.services;
+    if (!config) {
+      return CONFIG_UNAVAILABLE;
+    }
+
+    // Picks up profile directories added since the last scan.
+    config.promptProfileService.reload();
+    const active = config.promptProfileService.getActiveProfileName();
+    let content = '**Prompt Profiles**\n\n';
+    for (const profile of config.promptProfileService.listProfiles()) {
+      const marker = profile.name === active ? ' (active)' : '';
+      const kinds =
+        profile.kinds.length > 0 ? profile.kinds.join(', ') : 'none';
+      content += `- **${profile.name}**${marker} [${describeSource(profile)}] prompts: ${kinds}\n`;
+    }
+
+    return {
+      type: 'message',
+      messageType: 'info',
+      content,
+    };
+  },
+};
+
+const useCommand: SlashCommand = {
+  name: 'use',
+  description: 'Switch the prompt profile. Usage: /prompt use <name>',
+  kind: CommandKind.BUILT_IN,
+  action: async (context, args): Promise<MessageActionReturn> => {
+    const { config } = context.services;
+    if (!config) {
+      return CONFIG_UNAVAILABLE;
+    }
+
+    const name = args.trim();
+    if (!name) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Missing profile name. Usage: /prompt use <name>',
+      };
+    }
+
+    try {
+      config.promptProfileService.reload();
+      config.promptProfileService.setActiveProfile(name);
+    } catch (error) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: getErrorMessage(error),
+      };
+    }
+    config.getGeminiClient()?.updateSystemInstruction();
+
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `Switched to prompt profile "${name}".`,
+    };
+  },
+  completion: async (context, partialArg) =>
+    (context.services.config?.promptProfileService.listProfiles() ?? [])
+      .map((profile) => profile.name)
+      .filter((name) => name.startsWith(partialArg)),
+};
+
+export const promptCommand: SlashCommand = {
+  name: 'prompt',
+  description: 'Manage prompt profiles',
+  kind: CommandKind.BUILT_IN,
+  subCommands: [listCommand, useCommand],
+};
@@ -10,6 +10,17 @@ import { type CommandContext } from './types.js';
 import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
 import { MessageType } from '../types.js';
 import { formatDuration } from '../utils/formatters.js';
+import type { Config, CostLedgerEntry } from '@google/gemini-cli-core';
+import { loadCostLedger } from '@google/gemini-cli-core';
+
+vi.mock('@google/gemini-cli-core', async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import('@google/gemini-cli-core')>();
+  return {
+    ...actual,
+    loadCostLedger: vi.fn(),
+  };
+});
 
 describe('statsCommand', () => {
   let mockContext: CommandContext;
@@ -75,4 +86,96 @@ describe('statsCommand', () => {
       expect.any(Number),
     );
   });
+
+  describe('cost', () => {
+    const costSubCommand = statsCommand.subCommands?.find(
+      (sc) => sc.name === 'cost',
+    );
+
+    const ledgerEntry = (
+      overrides: Partial<CostLedgerEntry>,
+    ): CostLedgerEntry => ({
+      timestamp: '2025-07-14T09:00:00.000Z',
+      sessionId: 'session-a',
+      promptId: 'prompt-1',
+      projectRoot: '/work/app',
+      model: 'gemini-2.5-pro',
+      promptTokens: 1000,
+      candidateTokens: 100,
+      cachedTokens: 0,
+      thoughtsTokens: 0,
+      totalTokens: 1100,
+      costUsd: 0.25,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      mockContext = createMockCommandContext({
+        services: {
+          config: {
+            storage: { getProjectTempDir: () => '/tmp/project' },
+          } as unknown as Config,
+        },
+      });
+      vi.mocked(loadCostLedger)
+        .mockReset()
+        .mockResolvedValue([
+          ledgerEntry({}),
+          ledgerEntry({ model: 'gemini-2.5-flash', costUsd: 0.05 }),
+        ]);
+    });
+
+    it('should report this project for the last 7 days by day', async () => {
+      if (!costSubCommand?.action) throw new Error('Subcommand has no action');
+
+      await costSubCommand.action(mockContext, '');
+
+      expect(vi.mocked(loadCostLedger)).toHaveBeenCalledWith({
+        projectTempDir: '/tmp/project',
+        since: new Date(2025, 6, 8),
+      });
+      expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: MessageType.COST_STATS,
+          since: '2025-07-08',
+          grouping: 'day',
+          rows: [expect.objectContaining({ requests: 2 })],
+          total: expect.objectContaining({ key: 'Total', costUsd: 0.3 }),
+        }),
+        expect.any(Number),
+      );
+    });
+
+    it('should group by model when asked', async () => {
+      if (!costSubCommand?.action) throw new Error('Subcommand has no action');
+
+      await costSubCommand.action(mockContext, 'model');
+
+      expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          grouping: 'model',
+          rows: [
+            expect.objectContaining({ key: 'gemini-2.5-pro' }),
+            expect.objectContaining({ key: 'gemini-2.5-flash' }),
+          ],
+        }),
+        expect.any(Number),
+      );
+    });
+
+    it('should reject an unknown grouping', async () => {
+      if (!costSubCommand?.action) throw new Error('Subcommand has no action');
+
+      await costSubCommand.action(mockContext, 'project');
+
+      expect(loadCostLedger).not.toHaveBeenCalled();
+      expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+        {
+          type: MessageType.ERROR,
+          text: 'Unknown grouping "project". Usage: /stats cost [day|model|session]',
+        },
+        expect.any(Number),
+      );
+    });
+  });
 });
@@ -4,7 +4,14 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import type { HistoryItemStats } from '../types.js';
+import type { CostReportGrouping } from '@google/gemini-cli-core';
+import {
+  aggregateCostLedger,
+  formatLocalDate,
+  loadCostLedger,
+  totalCostReport,
+} from '@google/gemini-cli-core';
+import type { HistoryItemCostStats, HistoryItemStats } from '../types.js';
 import { MessageType } from '../types.js';
 import { formatDuration } from '../utils/formatters.js';
 import {
@@ -13,10 +20,13 @@ import {
   CommandKind,
 } from './types.js';
 
+const COST_REPORT_DAYS = 7;
+const COST_GROUPINGS: CostReportGrouping[] = ['day', 'model', 'session'];
+
 export const statsCommand: SlashCommand = {
   name: 'stats',
   altNames: ['usage'],
-  description: 'Check session stats. Usage: /stats [model|tools]',
+  description: 'Check session stats. Usage: /stats [model|tools|cost]',
   kind: CommandKind.BUILT_IN,
   action: (context: CommandContext) => {
     const now = new Date();
@@ -67,5 +77,55 @@ export const statsCommand: SlashCommand = {
         );
       },
     },
+    {
+      name: 'cost',
+      description:
+        'Show estimated cost in this project over the last 7 days. Usage: /stats cost [day|model|session]',
+      kind: CommandKind.BUILT_IN,
+      action: async (context: CommandContext, args: string) => {
+        const grouping = (args.trim() || 'day') as CostReportGrouping;
+        if (!COST_GROUPINGS.includes(grouping)) {
+          context.ui.addItem(
+            {
+              type: MessageType.ERROR,
+              text: `Unknown grouping "${grouping}". Usage: /stats cost [${COST_GROUPINGS.join('|')}]`,
+            },
+            Date.now(),
+          );
+          return;
+        }
+        const config = context.services.config;
+        if (!config) {
+          context.ui.addItem(
+            {
+              type: MessageType.ERROR,
+              text: 'Config not loaded, cannot read the cost ledger.',
+            },
+            Date.now(),
+          );
+          return;
+        }
+
+        const now = new Date();
+        const since = new Date(
+          now.getFullYear(),
+          now.getMonth(),
+          now.getDate() - (COST_REPORT_DAYS - 1),
+        );
+        const entries = await loadCostLedger({
+          projectTempDir: config.storage.getProjectTempDir(),
+          since,
+        });
+        const rows = aggregateCostLedger(entries, grouping);
+        const costItem: HistoryItemCostStats = {
+          type: MessageType.COST_STATS,
+          since: formatLocalDate(since),
+          grouping,
+          rows,
+          total: totalCostReport(rows),
+        };
+        context.ui.addItem(costItem, Date.now());
+      },
+    },
   ],
 };
@@ -14,6 +14,7 @@ interface AboutBoxProps {
   osVersion: string;
   sandboxEnv: string;
   modelVersion: string;
+  promptProfile: string;
   selectedAuthType: string;
   gcpProject: string;
   ideClient: string;
@@ -24,6 +25,7 @@ export const AboutBox: React.FC<AboutBoxProps> = ({
   osVersion,
   sandboxEnv,
   modelVersion,
+  promptProfile,
   selectedAuthType,
   gcpProject,
   ideClient,
@@ -73,6 +75,16 @@ export const AboutBox: React.FC<AboutBoxProps> = ({
         <Text color={theme.text.primary}>{modelVersion}</Text>
       </Box>
     </Box>
+    <Box flexDirection="row">
+      <Box width="35%">
+        <Text bold color={theme.text.link}>
+          Prompt Profile
+        </Text>
+      </Box>
+      <Box>
+        <Text color={theme.text.primary}>{promptProfile}</Text>
+      </Box>
+    </Box>
     <Box flexDirection="row">
       <Box width="35%">
         <Text bold color={theme.text.link}>
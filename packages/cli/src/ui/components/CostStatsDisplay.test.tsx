@@ -0,0 +1,69 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { render } from '../../test-utils/render.js';
+import { describe, it, expect } from 'vitest';
+import { CostStatsDisplay } from './CostStatsDisplay.js';
+import type { CostReportRow } from '@google/gemini-cli-core';
+
+function row(key: string, costUsd: number, requests = 1): CostReportRow {
+  return {
+    key,
+    requests,
+    promptTokens: 1000 * requests,
+    candidateTokens: 100 * requests,
+    cachedTokens: 0,
+    totalTokens: 1100 * requests,
+    costUsd,
+  };
+}
+
+describe('<CostStatsDisplay />', () => {
+  it('should render a message when nothing was recorded', () => {
+    const { lastFrame } = render(
+      <CostStatsDisplay
+        since="2025-07-08"
+        grouping="day"
+        rows={[]}
+        total={row('Total', 0, 0)}
+      />,
+    );
+
+    expect(lastFrame()).toContain(
+      'No usage has been recorded in this project since 2025-07-08.',
+    );
+  });
+
+  it('should render a row per group and the total', () => {
+    const { lastFrame } = render(
+      <CostStatsDisplay
+        since="2025-07-08"
+        grouping="day"
+        rows={[row('2025-07-08', 0.5, 3), row('2025-07-10', 1.25, 10)]}
+        total={row('Total', 1.75, 13)}
+      />,
+    );
+
+    const output = lastFrame();
+    expect(output).toContain('Project Cost Since 2025-07-08');
+    expect(output).toContain('$1.75');
+    expect(output).toMatchSnapshot();
+  });
+
+  it('should widen the first column for long keys', () => {
+    const key = 'f81d4fae-7dec-11d0-a765-00a0c91e6bf6';
+    const { lastFrame } = render(
+      <CostStatsDisplay
+        since="2025-07-08"
+        grouping="session"
+        rows={[row(key, 0.01)]}
+        total={row('Total', 0.01)}
+      />,
+    );
+
+    expect(lastFrame()).toContain(key);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type React from 'react';
+import { Box, Text } from 'ink';
+import { theme } from '../semantic-colors.js';
+import { formatCost } from '../utils/formatters.js';
+import type {
+  CostReportGrouping,
+  CostReportRow,
+} from '@google/gemini-cli-core';
+
+const MIN_KEY_COL_WIDTH = 14;
+const REQUESTS_COL_WIDTH = 10;
+const TOKENS_COL_WIDTH = 16;
+const COST_COL_WIDTH = 12;
+
+const GROUPING_LABELS: Record<CostReportGrouping, string> = {
+  model: 'Model',
+  project: 'Project',
+  day: 'Day',
+  session: 'Session',
+};
+
+interface CostStatsDisplayProps {
+  since: string;
+  grouping: CostReportGrouping;
+  rows: CostReportRow[];
+  total: CostReportRow;
+}
+
+const CostRow: React.FC<{
+  row: CostReportRow;
+  keyWidth: number;
+  bold?: boolean;
+}> = ({ row, keyWidth, bold }) => (
+  <Box>
+    <Box width={keyWidth}>
+      <Text bold={bold} color={bold ? theme.text.primary : theme.text.link}>
+        {row.key}
+      </Text>
+    </Box>
+    <Box width={REQUESTS_COL_WIDTH} justifyContent="flex-end">
+      <Text bold={bold} color={theme.text.primary}>
+        {row.requests.toLocaleString()}
+      </Text>
+    </Box>
+    <Box width={TOKENS_COL_WIDTH} justifyContent="flex-end">
+      <Text bold={bold} color={theme.text.primary}>
+        {row.totalTokens.toLocaleString()}
+      </Text>
+    </Box>
+    <Box width={COST_COL_WIDTH} justifyContent="flex-end">
+      <Text bold={bold} color={theme.text.primary}>
+        {formatCost(row.costUsd)}
+      </Text>
+    </Box>
+  </Box>
+);
+
+export const CostStatsDisplay: React.FC<CostStatsDisplayProps> = ({
+  since,
+  grouping,
+  rows,
+  total,
+}) => {
+  if (rows.length === 0) {
+    return (
+      <Box
+        borderStyle="round"
+        borderColor={theme.border.default}
+        paddingY={1}
+        paddingX={2}
+      >
+        <Text color={theme.text.primary}>
+          No usage has been recorded in this project since {since}.
+        </Text>
+      </Box>
+    );
+  }
+
+  const keyWidth = Math.max(
+    MIN_KEY_COL_WIDTH,
+    ...rows.map((row) => row.key.length + 2),
+  );
+
+  return (
+    <Box
+      borderStyle="round"
+      borderColor={theme.border.default}
+      flexDirection="column"
+      paddingY={1}
+      paddingX={2}
+    >
+      <Text bold color={theme.text.accent}>
+        Project Cost Since {since}
+      </Text>
+      <Box height={1} />
+
+      {/* Header */}
+      <Box>
+        <Box width={keyWidth}>
+          <Text bold color={theme.text.primary}>
+            {GROUPING_LABELS[grouping]}
+          </Text>
+        </Box>
+        <Box width={REQUESTS_COL_WIDTH} justifyContent="flex-end">
+          <Text bold color={theme.text.primary}>
+            Requests
+          </Text>
+        </Box>
+        <Box width={TOKENS_COL_WIDTH} justifyContent="flex-end">
+          <Text bold color={theme.text.primary}>
+            Total Tokens
+          </Text>
+        </Box>
+        <Box width={COST_COL_WIDTH} justifyContent="flex-end">
+          <Text bold color={theme.text.primary}>
+            Est. Cost
+          </Text>
+        </Box>
+      </Box>
+
+      {/* Divider */}
+      <Box
+        borderStyle="single"
+        borderBottom={true}
+        borderTop={false}
+        borderLeft={false}
+        borderRight={false}
+        borderColor={theme.border.default}
+        width={
+          keyWidth + REQUESTS_COL_WIDTH + TOKENS_COL_WIDTH + COST_COL_WIDTH
+        }
+      />
+
+      {rows.map((row) => (
+        <CostRow key={row.key} row={row} keyWidth={keyWidth} />
+      ))}
+
+      {/* Divider */}
+      <Box
+        borderStyle="single"
+        borderBottom={true}
+        borderTop={false}
+        borderLeft={false}
+        borderRight={false}
+        borderColor={theme.border.default}
+        width={
+          keyWidth + REQUESTS_COL_WIDTH + TOKENS_COL_WIDTH + COST_COL_WIDTH
+        }
+      />
+      <CostRow row={total} keyWidth={keyWidth} bold />
+
+      <Box height={1} />
+      <Text color={theme.text.secondary}>
+        Run `gemini stats` for other date ranges, every project, and CSV or JSON
+        export.
+      </Text>
+    </Box>
+  );
+};
@@ -18,6 +18,8 @@ import { ApiAuthDialog } from '../auth/ApiAuthDialog.js';
 import { EditorSettingsDialog } from './EditorSettingsDialog.js';
 import { PrivacyNotice } from '../privacy/PrivacyNotice.js';
 import { ProQuotaDialog } from './ProQuotaDialog.js';
+import { McpSamplingDialog } from './McpSamplingDialog.js';
+import { McpElicitationDialog } from './McpElicitationDialog.js';
 import { PermissionsModifyTrustDialog } from './PermissionsModifyTrustDialog.js';
 import { ModelDialog } from './ModelDialog.js';
 import { theme } from '../semantic-colors.js';
@@ -58,6 +60,23 @@ export const DialogManager = ({
       />
     );
   }
+  if (uiState.mcpSamplingRequest) {
+    return (
+      <McpSamplingDialog
+        request={uiState.mcpSamplingRequest}
+        onChoice={uiActions.handleMcpSamplingChoice}
+      />
+    );
+  }
+  if (uiState.mcpElicitationRequest) {
+    return (
+      <McpElicitationDialog
+        key={uiState.mcpElicitationRequest.id}
+        request={uiState.mcpElicitationRequest}
+        onResult={uiActions.handleMcpElicitationResult}
+      />
+    );
+  }
   if (uiState.shouldShowIdePrompt) {
     return (
       <IdeIntegrationNudge
@@ -89,6 +89,7 @@ describe('<HistoryItemDisplay />', () => {
       osVersion: 'test-os',
       sandboxEnv: 'test-env',
       modelVersion: 'test-model',
+      promptProfile: 'default',
       selectedAuthType: 'test-auth',
       gcpProject: 'test-project',
       ideClient: 'test-ide',
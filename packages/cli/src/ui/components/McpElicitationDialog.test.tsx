@@ -0,0 +1,113 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { act } from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import type { McpElicitationRequest } from '@google/gemini-cli-core';
+import { renderWithProviders } from '../../test-utils/render.js';
+import { waitFor } from '../../test-utils/async.js';
+import { McpElicitationDialog } from './McpElicitationDialog.js';
+
+const request: McpElicitationRequest = {
+  serverName: 'deployer',
+  message: 'Where should we deploy?',
+  requestedSchema: {
+    type: 'object',
+    properties: {
+      replicas: {
+        type: 'integer',
+        title: 'Replicas',
+        minimum: 1,
+        maximum: 5,
+      },
+      region: {
+        type: 'string',
+        enum: ['us', 'eu'],
+        enumNames: ['United States', 'Europe'],
+      },
+    },
+    required: ['replicas', 'region'],
+  },
+};
+
+describe('McpElicitationDialog', () => {
+  it('should show the message and the first field', () => {
+    const { lastFrame } = renderWithProviders(
+      <McpElicitationDialog request={request} onResult={vi.fn()} />,
+    );
+
+    const output = lastFrame();
+    expect(output).toContain("MCP server 'deployer' is asking for input");
+    expect(output).toContain('Where should we deploy?');
+    expect(output).toContain('Replicas *');
+    expect(output).toContain('(1 of 2)');
+  });
+
+  it('should validate fields and submit the entered content', async () => {
+    const onResult = vi.fn();
+    const { stdin, lastFrame } = renderWithProviders(
+      <McpElicitationDialog request={request} onResult={onResult} />,
+    );
+
+    act(() => {
+      stdin.write('9');
+    });
+    act(() => {
+      stdin.write('\r');
+    });
+    await waitFor(() => {
+      expect(lastFrame()).toContain('Enter a number of at most 5.');
+    });
+
+    act(() => {
+      stdin.write('\x7f');
+    });
+    act(() => {
+      stdin.write('3');
+    });
+    act(() => {
+      stdin.write('\r');
+    });
+    await waitFor(() => {
+      expect(lastFrame()).toContain('Europe');
+    });
+
+    act(() => {
+      stdin.write('\u001b[B'); // Down arrow to Europe
+    });
+    act(() => {
+      stdin.write('\r');
+    });
+    await waitFor(() => {
+      expect(lastFrame()).toContain('Submit');
+    });
+
+    act(() => {
+      stdin.write('\r');
+    });
+    await waitFor(() => {
+      expect(onResult).toHaveBeenCalledWith({
+        action: 'accept',
+        content: { replicas: 3, region: 'eu' },
+      });
+    });
+  });
+
+  it('should cancel when escape is pressed', async () => {
+    const onResult = vi.fn();
+    const { stdin } = renderWithProviders(
+      <McpElicitationDialog request={request} onResult={onResult} />,
+    );
+
+    act(() => {
+      stdin.write('\u001b[27u'); // Press kitty escape key
+    });
+
+    await waitFor(() => {
+      expect(onResult).toHaveBeenCalledWith({ action: 'cancel' });
+    });
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type React from 'react';
+import { useState } from 'react';
+import { Box, Text } from 'ink';
+import type {
+  McpElicitationRequest,
+  McpElicitationResult,
+  McpElicitationSchema,
+} from '@google/gemini-cli-core';
+import type { RadioSelectItem } from './shared/RadioButtonSelect.js';
+import { RadioButtonSelect } from './shared/RadioButtonSelect.js';
+import { TextInput } from './shared/TextInput.js';
+import { useTextBuffer } from './shared/text-buffer.js';
+import { useKeypress } from '../hooks/useKeypress.js';
+import { useUIState } from '../contexts/UIStateContext.js';
+import { theme } from '../semantic-colors.js';
+
+type FieldSchema = McpElicitationSchema['properties'][string];
+type FieldValue = string | number | boolean;
+
+interface Field {
+  name: string;
+  schema: FieldSchema;
+  required: boolean;
+}
+
+interface McpElicitationDialogProps {
+  request: McpElicitationRequest;
+  onResult: (result: McpElicitationResult) => void;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function defaultText(schema: FieldSchema): string {
+  return 'default' in schema && schema.default !== undefined
+    ? String(schema.default)
+    : '';
+}
+
+/**
+ * Parses the text entered for a string or number field. Returns the value to
+ * send, `undefined` for an empty optional field, or an error message.
+ */
+function parseTextField(
+  field: Field,
+  text: string,
+): { value?: FieldValue; error?: string } {
+  const { schema } = field;
+  const trimmed = text.trim();
+  if (trimmed === '') {
+    return field.required ? { error: 'A value is required.' } : {};
+  }
+
+  if (schema.type === 'number' || schema.type === 'integer') {
+    const value = Number(trimmed);
+    if (Number.isNaN(value)) {
+      return { error: 'Enter a number.' };
+    }
+    if (schema.type === 'integer' && !Number.isInteger(value)) {
+      return { error: 'Enter a whole number.' };
+    }
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      return { error: `Enter a number of at least ${schema.minimum}.` };
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      return { error: `Enter a number of at most ${schema.maximum}.` };
+    }
+    return { value };
+  }
+
+  if (schema.type === 'string' && !('enum' in schema)) {
+    if (schema.minLength !== undefined && text.length < schema.minLength) {
+      return { error: `Enter at least ${schema.minLength} characters.` };
+    }
+    if (schema.maxLength !== undefined && text.length > schema.maxLength) {
+      return { error: `Enter at most ${schema.maxLength} characters.` };
+    }
+    if (schema.format === 'email' && !EMAIL_PATTERN.test(trimmed)) {
+      return { error: 'Enter an email address.' };
+    }
+  }
+  return { value: text };
+}
+
+/**
+ * Returns the choices for a boolean or enum field, or `undefined` for fields
+ * entered as text. Optional fields get a choice to leave them empty.
+ */
+function getChoices(
+  field: Field,
+): Array<RadioSelectItem<FieldValue | undefined>> | undefined {
+  const { schema } = field;
+  let choices: Array<RadioSelectItem<FieldValue | undefined>>;
+  if (schema.type === 'boolean') {
+    choices = [
+      { label: 'Yes', value: true, key: 'true' },
+      { label: 'No', value: false, key: 'false' },
+    ];
+  } else if ('enum' in schema && Array.isArray(schema.enum)) {
+    const names = Array.isArray(schema.enumNames) ? schema.enumNames : [];
+    choices = schema.enum.map((value, index) => ({
+      label: String(names[index] ?? value),
+      value: String(value),
+      key: String(value),
+    }));
+  } else {
+    return undefined;
+  }
+
+  if (!field.required) {
+    choices.push({ label: 'Leave empty', value: undefined, key: '__empty' });
+  }
+  return choices;
+}
+
+/**
+ * Asks the user for the input an MCP server requested, one field at a time,
+ * and then whether to send it.
+ */
+export function McpElicitationDialog({
+  request,
+  onResult,
+}: McpElicitationDialogProps): React.JSX.Element {
+  const { mainAreaWidth } = useUIState();
+  const { requestedSchema } = request;
+  const required = requestedSchema.required ?? [];
+  const fields: Field[] = Object.entries(requestedSchema.properties).map(
+    ([name, schema]) => ({ name, schema, required: required.includes(name) }),
+  );
+
+  const [fieldIndex, setFieldIndex] = useState(0);
+  const [content, setContent] = useState<Record<string, FieldValue>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const field: Field | undefined = fields[fieldIndex];
+  const choices = field ? getChoices(field) : undefined;
+
+  const buffer = useTextBuffer({
+    initialText: field ? defaultText(field.schema) : '',
+    initialCursorOffset: field ? defaultText(field.schema).length : 0,
+    viewport: {
+      width: Math.max(mainAreaWidth - 8, 10),
+      height: 1,
+    },
+    isValidPath: () => false,
+    inputFilter: (text) => text.replace(/[\r\n]/g, ''),
+    singleLine: true,
+  });
+
+  useKeypress(
+    (key) => {
+      if (key.name === 'escape') {
+        onResult({ action: 'cancel' });
+      }
+    },
+    { isActive: true },
+  );
+
+  const advance = (value: FieldValue | undefined) => {
+    if (!field) return;
+    const next = { ...content };
+    if (value === undefined) {
+      delete next[field.name];
+    } else {
+      next[field.name] = value;
+    }
+    setContent(next);
+    setError(null);
+
+    const nextField = fields[fieldIndex + 1];
+    if (nextField) {
+      buffer.setText(defaultText(nextField.schema));
+    }
+    setFieldIndex(fieldIndex + 1);
+  };
+
+  const handleTextSubmit = (text: string) => {
+    if (!field) return;
+    const parsed = parseTextField(field, text);
+    if (parsed.error) {
+      setError(parsed.error);
+      return;
+    }
+    advance(parsed.value);
+  };
+
+  const reviewItems: Array<RadioSelectItem<'accept' | 'decline'>> = [
+    { label: 'Submit', value: 'accept', key: 'accept' },
+    { label: 'Decline', value: 'decline', key: 'decline' },
+  ];
+
+  const handleReview = (action: 'accept' | 'decline') => {
+    onResult(action === 'accept' ? { action, content } : { action });
+  };
+
+  const fieldLabel = field ? (field.schema.title ?? field.name) : '';
+  const defaultIndex =
+    field && choices && 'default' in field.schema
+      ? Math.max(
+          choices.findIndex((choice) => choice.value === field.schema.default),
+          0,
+        )
+      : 0;
+
+  return (
+    <Box
+      borderStyle="round"
+      borderColor={theme.border.focused}
+      flexDirection="column"
+      paddingX={1}
+      width="100%"
+    >
+      <Text bold color={theme.text.primary}>
+        MCP server &apos;{request.serverName}&apos; is asking for input
+      </Text>
+      <Box marginTop={1}>
+        <Text color={theme.text.primary}>{request.message}</Text>
+      </Box>
+      {field ? (
+        <Box marginTop={1} flexDirection="column">
+          <Text bold color={theme.text.accent}>
+            {fieldLabel}
+            {field.required ? ' *' : ''}{' '}
+            <Text color={theme.text.secondary}>
+              ({fieldIndex + 1} of {fields.length})
+            </Text>
+          </Text>
+          {field.schema.description && (
+            <Text color={theme.text.secondary}>{field.schema.description}</Text>
+          )}
+          <Box marginTop={1}>
+            {choices ? (
+              <RadioButtonSelect
+                key={field.name}
+                items={choices}
+                initialIndex={defaultIndex}
+                onSelect={advance}
+              />
+            ) : (
+              <Box
+                borderStyle="round"
+                borderColor={theme.border.default}
+                paddingX={1}
+                flexGrow={1}
+              >
+                <TextInput buffer={buffer} onSubmit={handleTextSubmit} />
+              </Box>
+            )}
+          </Box>
+          {error && <Text color={theme.status.error}>{error}</Text>}
+        </Box>
+      ) : (
+        <Box marginTop={1} flexDirection="column">
+          {Object.entries(content).map(([name, value]) => (
+            <Text key={name} color={theme.text.secondary}>
+              {name}: {String(value)}
+            </Text>
+          ))}
+          <Box marginTop={1}>
+            <RadioButtonSelect items={reviewItems} onSelect={handleReview} />
+          </Box>
+        </Box>
+      )}
+      <Box marginTop={1}>
+        <Text color={theme.text.secondary}>(Press Esc to cancel)</Text>
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { act } from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import type { McpSamplingRequest } from '@google/gemini-cli-core';
+import { renderWithProviders } from '../../test-utils/render.js';
+import { waitFor } from '../../test-utils/async.js';
+import { McpSamplingDialog } from './McpSamplingDialog.js';
+
+const request: McpSamplingRequest = {
+  serverName: 'summarizer',
+  params: {
+    systemPrompt: 'You summarize text.',
+    messages: [
+      { role: 'user', content: { type: 'text', text: 'Summarize this file.' } },
+    ],
+    maxTokens: 500,
+  },
+  tokensUsed: 1200,
+  tokenLimit: 50000,
+};
+
+describe('McpSamplingDialog', () => {
+  it('should show the server, request and token usage', () => {
+    const { lastFrame } = renderWithProviders(
+      <McpSamplingDialog request={request} onChoice={vi.fn()} />,
+    );
+
+    const output = lastFrame();
+    expect(output).toContain("MCP server 'summarizer' wants to use the model");
+    expect(output).toContain('System prompt: You summarize text.');
+    expect(output).toContain('Summarize this file.');
+    expect(output).toContain('Up to 500 tokens');
+    expect(output).toContain('used 1200 of 50000');
+  });
+
+  it('should approve the request when Allow is selected', async () => {
+    const onChoice = vi.fn();
+    const { stdin } = renderWithProviders(
+      <McpSamplingDialog request={request} onChoice={onChoice} />,
+    );
+
+    act(() => {
+      stdin.write('\r');
+    });
+
+    await waitFor(() => {
+      expect(onChoice).toHaveBeenCalledWith(true);
+    });
+  });
+
+  it('should deny the request when escape is pressed', async () => {
+    const onChoice = vi.fn();
+    const { stdin } = renderWithProviders(
+      <McpSamplingDialog request={request} onChoice={onChoice} />,
+    );
+
+    act(() => {
+      stdin.write('\u001b[27u'); // Press kitty escape key
+    });
+
+    await waitFor(() => {
+      expect(onChoice).toHaveBeenCalledWith(false);
+    });
+  });
+});
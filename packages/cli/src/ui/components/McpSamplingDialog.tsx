@@ -0,0 +1,83 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type React from 'react';
+import { Box, Text } from 'ink';
+import type { McpSamplingRequest } from '@google/gemini-cli-core';
+import type { RadioSelectItem } from './shared/RadioButtonSelect.js';
+import { RadioButtonSelect } from './shared/RadioButtonSelect.js';
+import { useKeypress } from '../hooks/useKeypress.js';
+import { theme } from '../semantic-colors.js';
+
+interface McpSamplingDialogProps {
+  request: McpSamplingRequest;
+  onChoice: (approved: boolean) => void;
+}
+
+const MAX_PREVIEW_LENGTH = 300;
+
+function preview(text: string): string {
+  return text.length > MAX_PREVIEW_LENGTH
+    ? `${text.slice(0, MAX_PREVIEW_LENGTH)}...`
+    : text;
+}
+
+export function McpSamplingDialog({
+  request,
+  onChoice,
+}: McpSamplingDialogProps): React.JSX.Element {
+  useKeypress(
+    (key) => {
+      if (key.name === 'escape') {
+        onChoice(false);
+      }
+    },
+    { isActive: true },
+  );
+
+  const { serverName, params, tokensUsed, tokenLimit } = request;
+  const lastMessage = params.messages[params.messages.length - 1];
+  const lastMessageText =
+    lastMessage?.content.type === 'text'
+      ? preview(lastMessage.content.text)
+      : `[${lastMessage?.content.type ?? 'empty'} content]`;
+
+  const items: Array<RadioSelectItem<boolean>> = [
+    { label: 'Allow', value: true, key: 'allow' },
+    { label: 'Deny (esc)', value: false, key: 'deny' },
+  ];
+
+  return (
+    <Box
+      borderStyle="round"
+      borderColor={theme.status.warning}
+      flexDirection="column"
+      paddingX={1}
+      width="100%"
+    >
+      <Text bold color={theme.text.primary}>
+        MCP server &apos;{serverName}&apos; wants to use the model
+      </Text>
+      <Box marginTop={1} flexDirection="column">
+        {params.systemPrompt && (
+          <Text color={theme.text.secondary}>
+            System prompt: {preview(params.systemPrompt)}
+          </Text>
+        )}
+        <Text color={theme.text.primary}>{lastMessageText}</Text>
+      </Box>
+      <Box marginTop={1}>
+        <Text color={theme.text.secondary}>
+          Up to {params.maxTokens} tokens. This server has used {tokensUsed} of{' '}
+          {tokenLimit} sampling tokens this session.
+        </Text>
+      </Box>
+      <Box marginTop={1}>
+        <RadioButtonSelect items={items} onSelect={onChoice} />
+      </Box>
+    </Box>
+  );
+}
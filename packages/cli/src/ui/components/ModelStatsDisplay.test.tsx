@@ -94,6 +94,7 @@ describe('<ModelStatsDisplay />', () => {
             thoughts: 0,
             tool: 0,
           },
+          cost: 0,
         },
       },
       tools: {
@@ -135,6 +136,7 @@ describe('<ModelStatsDisplay />', () => {
             thoughts: 2,
             tool: 0,
           },
+          cost: 0,
         },
         'gemini-2.5-flash': {
           api: { totalRequests: 1, totalErrors: 0, totalLatencyMs: 50 },
@@ -146,6 +148,7 @@ describe('<ModelStatsDisplay />', () => {
             thoughts: 0,
             tool: 3,
           },
+          cost: 0,
         },
       },
       tools: {
@@ -187,6 +190,7 @@ describe('<ModelStatsDisplay />', () => {
             thoughts: 10,
             tool: 5,
           },
+          cost: 0,
         },
         'gemini-2.5-flash': {
           api: { totalRequests: 20, totalErrors: 2, totalLatencyMs: 500 },
@@ -198,6 +202,7 @@ describe('<ModelStatsDisplay />', () => {
             thoughts: 20,
             tool: 10,
           },
+          cost: 0,
         },
       },
       tools: {
@@ -242,6 +247,7 @@ describe('<ModelStatsDisplay />', () => {
             thoughts: 111111111,
             tool: 222222222,
           },
+          cost: 0,
         },
       },
       tools: {
@@ -279,6 +285,7 @@ describe('<ModelStatsDisplay />', () => {
             thoughts: 2,
             tool: 1,
           },
+          cost: 0.0123,
         },
       },
       tools: {
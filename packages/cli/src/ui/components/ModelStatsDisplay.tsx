@@ -7,7 +7,7 @@
 import type React from 'react';
 import { Box, Text } from 'ink';
 import { theme } from '../semantic-colors.js';
-import { formatDuration } from '../utils/formatters.js';
+import { formatCost, formatDuration } from '../utils/formatters.js';
 import {
   calculateAverageLatency,
   calculateCacheHitRate,
@@ -203,6 +203,14 @@ export const ModelStatsDisplay: React.FC = () => {
         isSubtle
         values={getModelValues((m) => m.tokens.candidates.toLocaleString())}
       />
+
+      <Box height={1} />
+
+      {/* Cost Section */}
+      <StatRow
+        title="Est. Cost"
+        values={getModelValues((m) => formatCost(m.cost))}
+      />
     </Box>
   );
 };
@@ -52,6 +52,7 @@ describe('<SessionSummaryDisplay />', () => {
             thoughts: 300,
             tool: 200,
           },
+          cost: 0,
         },
       },
       tools: {
@@ -8,7 +8,7 @@ import type React from 'react';
 import { Box, Text } from 'ink';
 import Gradient from 'ink-gradient';
 import { theme } from '../semantic-colors.js';
-import { formatDuration } from '../utils/formatters.js';
+import { formatCost, formatDuration } from '../utils/formatters.js';
 import type { ModelMetrics } from '../contexts/SessionContext.js';
 import { useSessionStats } from '../contexts/SessionContext.js';
 import {
@@ -78,6 +78,7 @@ const ModelUsageTable: React.FC<{
   const requestsWidth = 8;
   const inputTokensWidth = 15;
   const outputTokensWidth = 15;
+  const costWidth = 12;
 
   return (
     <Box flexDirection="column" marginTop={1}>
@@ -103,6 +104,11 @@ const ModelUsageTable: React.FC<{
             Output Tokens
           </Text>
         </Box>
+        <Box width={costWidth} justifyContent="flex-end">
+          <Text bold color={theme.text.primary}>
+            Est. Cost
+          </Text>
+        </Box>
       </Box>
       {/* Divider */}
       <Box
@@ -112,7 +118,13 @@ const ModelUsageTable: React.FC<{
         borderLeft={false}
         borderRight={false}
         borderColor={theme.border.default}
-        width={nameWidth + requestsWidth + inputTokensWidth + outputTokensWidth}
+        width={
+          nameWidth +
+          requestsWidth +
+          inputTokensWidth +
+          outputTokensWidth +
+          costWidth
+        }
       ></Box>
 
       {/* Rows */}
@@ -136,6 +148,11 @@ const ModelUsageTable: React.FC<{
               {modelMetrics.tokens.candidates.toLocaleString()}
             </Text>
           </Box>
+          <Box width={costWidth} justifyContent="flex-end">
+            <Text color={theme.text.primary}>
+              {formatCost(modelMetrics.cost)}
+            </Text>
+          </Box>
         </Box>
       ))}
       {cacheEfficiency > 0 && (
@@ -66,6 +66,28 @@ describe('ToolConfirmationMessage', () => {
     );
   });
 
+  it('should note when a secret placeholder will be re-inserted', () => {
+    const confirmationDetails: ToolCallConfirmationDetails = {
+      type: 'exec',
+      title: 'Confirm Shell Command',
+      command: 'mysql --uri mysql://root:hunter2@db/app',
+      rootCommand: 'mysql',
+      restoredSecrets: ['<<SECRET_MYSQL_1>>'],
+      onConfirm: vi.fn(),
+    };
+
+    const { lastFrame } = renderWithProviders(
+      <ToolConfirmationMessage
+        confirmationDetails={confirmationDetails}
+        config={mockConfig}
+        availableTerminalHeight={30}
+        terminalWidth={80}
+      />,
+    );
+
+    expect(lastFrame()).toContain('the real value of <<SECRET_MYSQL_1>>');
+  });
+
   describe('with folder trust', () => {
     const editConfirmationDetails: ToolCallConfirmationDetails = {
       type: 'edit',
@@ -77,6 +77,10 @@ export const ToolConfirmationMessage: React.FC<
   };
 
   const isTrustedFolder = config.isTrustedFolder();
+  const restoredSecrets =
+    confirmationDetails.type !== 'mcp'
+      ? (confirmationDetails.restoredSecrets ?? [])
+      : [];
 
   useKeypress(
     (key) => {
@@ -117,10 +121,12 @@ export const ToolConfirmationMessage: React.FC<
     const HEIGHT_QUESTION = 1; // The question text is one line.
     const MARGIN_QUESTION_BOTTOM = 1; // Margin on the question container.
     const HEIGHT_OPTIONS = options.length; // Each option in the radio select takes one line.
+    const HEIGHT_SECRETS_NOTE = restoredSecrets.length > 0 ? 2 : 0; // Note line plus its margin.
 
     const surroundingElementsHeight =
       PADDING_OUTER_Y +
       MARGIN_BODY_BOTTOM +
+      HEIGHT_SECRETS_NOTE +
       HEIGHT_QUESTION +
       MARGIN_QUESTION_BOTTOM +
       HEIGHT_OPTIONS;
@@ -307,6 +313,15 @@ export const ToolConfirmationMessage: React.FC<
         {bodyContent}
       </Box>
 
+      {restoredSecrets.length > 0 && (
+        <Box marginBottom={1} flexShrink={0}>
+          <Text color={theme.status.warning}>
+            Note: the real value of {restoredSecrets.join(', ')} will be
+            re-inserted in place of the placeholder.
+          </Text>
+        </Box>
+      )}
+
       {/* Confirmation Question */}
       <Box marginBottom={1} flexShrink={0}>
         <Text color={theme.text.primary} wrap="truncate">
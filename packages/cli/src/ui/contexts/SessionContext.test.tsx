@@ -99,6 +99,7 @@ describe('SessionStatsContext', () => {
             thoughts: 20,
             tool: 10,
           },
+          cost: 0,
         },
       },
       tools: {
@@ -178,6 +179,7 @@ describe('SessionStatsContext', () => {
             thoughts: 0,
             tool: 0,
           },
+          cost: 0,
         },
       },
       tools: {
@@ -17,6 +17,7 @@ import {
 import type { SessionMetrics, ModelMetrics } from '@google/gemini-cli-core';
 import { uiTelemetryService, sessionId } from '@google/gemini-cli-core';
 import * as fs from 'node:fs';
+import { calculateTotalCost } from '../utils/computeStats.js';
 
 export enum ToolCallDecision {
   ACCEPT = 'accept',
@@ -82,14 +83,6 @@ export const SessionStatsProvider: React.FC<{ children: React.ReactNode }> = ({
     costEstimation: 0,
   });
 
-  const MODEL_PRICING_PER_MILLION_TOKENS = useMemo(
-    () => ({
-      'gemini-2.5-pro': 1.25, // $1.25 per million input tokens
-      'gemini-2.5-flash': 0.3, // $0.30 per million input tokens
-    }),
-    [],
-  );
-
   useEffect(() => {
     const handleUpdate = ({
       metrics,
@@ -103,22 +96,7 @@ export const SessionStatsProvider: React.FC<{ children: React.ReactNode }> = ({
           (acc, modelMetrics) => acc + (modelMetrics.tokens?.total || 0),
           0,
         );
-        const costEstimation = Object.entries(metrics.models || {}).reduce(
-          (acc, [modelName, modelMetrics]) => {
-            const costPerMillionTokens =
-              MODEL_PRICING_PER_MILLION_TOKENS[
-                modelName as keyof typeof MODEL_PRICING_PER_MILLION_TOKENS
-              ] || 0;
-            const inputCost =
-              ((modelMetrics.tokens?.prompt || 0) / 1_000_000) *
-              costPerMillionTokens;
-            const outputCost =
-              ((modelMetrics.tokens?.candidates || 0) / 1_000_000) *
-              costPerMillionTokens; // Assuming output cost is same as input for now
-            return acc + inputCost + outputCost;
-          },
-          0.0,
-        );
+        const costEstimation = calculateTotalCost(metrics);
         fs.appendFileSync(
           '/tmp/gemini_session_debug.log',
           `\n--- handleUpdate ---\nMetrics: ${JSON.stringify(metrics)}\nTotal Tokens: ${totalTokens}\nCost Estimation: ${costEstimation}`,
@@ -140,7 +118,7 @@ export const SessionStatsProvider: React.FC<{ children: React.ReactNode }> = ({
     return () => {
       uiTelemetryService.off('update', handleUpdate);
     };
-  }, [MODEL_PRICING_PER_MILLION_TOKENS]);
+  }, []);
 
   const startNewPrompt = useCallback(() => {
     setStats((prevState) => ({
@@ -8,7 +8,11 @@ import { createContext, useContext } from 'react';
 import { type Key } from '../hooks/useKeypress.js';
 import { type IdeIntegrationNudgeResult } from '../IdeIntegrationNudge.js';
 import { type FolderTrustChoice } from '../components/FolderTrustDialog.js';
-import { type AuthType, type EditorType } from '@google/gemini-cli-core';
+import {
+  type AuthType,
+  type EditorType,
+  type McpElicitationResult,
+} from '@google/gemini-cli-core';
 import { type LoadableSettingScope } from '../../config/settings.js';
 import type { AuthState } from '../types.js';
 
@@ -41,6 +45,8 @@ export interface UIActions {
   handleFinalSubmit: (value: string) => void;
   handleClearScreen: () => void;
   handleProQuotaChoice: (choice: 'retry_later' | 'retry') => void;
+  handleMcpSamplingChoice: (approved: boolean) => void;
+  handleMcpElicitationResult: (result: McpElicitationResult) => void;
   setQueueErrorMessage: (message: string | null) => void;
   popAllMessages: (onPop: (messages: string | undefined) => void) => void;
   handleApiKeySubmit: (apiKey: string) => Promise<void>;
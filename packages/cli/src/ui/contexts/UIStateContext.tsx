@@ -23,6 +23,9 @@ import type {
   UserTierId,
   IdeInfo,
   FallbackIntent,
+  McpSamplingRequest,
+  McpElicitationRequest,
+  McpElicitationResult,
 } from '@google/gemini-cli-core';
 import type { DOMElement } from 'ink';
 import type { SessionStatsState } from '../contexts/SessionContext.js';
@@ -35,6 +38,16 @@ export interface ProQuotaDialogRequest {
   resolve: (intent: FallbackIntent) => void;
 }
 
+export interface McpSamplingDialogRequest extends McpSamplingRequest {
+  resolve: (approved: boolean) => void;
+}
+
+export interface McpElicitationDialogRequest extends McpElicitationRequest {
+  /** Distinguishes queued requests so each gets a fresh form. */
+  id: number;
+  resolve: (result: McpElicitationResult) => void;
+}
+
 import { type UseHistoryManagerReturn } from '../hooks/useHistoryManager.js';
 import { type RestartReason } from '../hooks/useIdeTrustListener.js';
 
@@ -96,6 +109,8 @@ export interface UIState {
   // Quota-related state
   userTier: UserTierId | undefined;
   proQuotaRequest: ProQuotaDialogRequest | null;
+  mcpSamplingRequest: McpSamplingDialogRequest | null;
+  mcpElicitationRequest: McpElicitationDialogRequest | null;
   currentModel: string;
   contextFileNames: string[];
   errorCount: number;
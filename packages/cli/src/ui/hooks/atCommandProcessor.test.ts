@@ -12,6 +12,8 @@ import {
   FileDiscoveryService,
   GlobTool,
   ReadManyFilesTool,
+  ReadMcpResourceTool,
+  ResourceRegistry,
   StandardFileSystemService,
   ToolRegistry,
   COMMON_IGNORE_PATTERNS,
@@ -1240,4 +1242,144 @@ describe('handleAtCommand', () => {
     );
     expect(userTurnCalls).toHaveLength(0);
   });
+
+  describe('MCP resource references', () => {
+    let read: Mock;
+
+    beforeEach(() => {
+      read = vi.fn(async (uri: string) => ({
+        contents: [{ uri, text: `content of ${uri}` }],
+      }));
+      const resourceRegistry = new ResourceRegistry();
+      resourceRegistry.setServerResources('docs', [], [], read);
+      mockConfig.getResourceRegistry = () => resourceRegistry;
+      mockConfig
+        .getToolRegistry()
+        .registerTool(new ReadMcpResourceTool(mockConfig));
+    });
+
+    it('should append the contents of @server:uri references', async () => {
+      const query = 'Summarize @docs:doc://readme please';
+
+      const result = await handleAtCommand({
+        query,
+        config: mockConfig,
+        addItem: mockAddItem,
+        onDebugMessage: mockOnDebugMessage,
+        messageId: 600,
+        signal: abortController.signal,
+      });
+
+      expect(read).toHaveBeenCalledWith('doc://readme');
+      expect(result).toEqual({
+        processedQuery: [
+          { text: 'Summarize @docs:doc://readme please' },
+          { text: '\n--- Content from referenced resources ---' },
+          { text: '\nContent from @docs:doc://readme:\n' },
+          { text: 'content of doc://readme' },
+          { text: '\n--- End of content ---' },
+        ],
+        shouldProceed: true,
+      });
+      expect(mockAddItem).toHaveBeenCalledWith(
+        {
+          type: 'tool_group',
+          tools: [
+            expect.objectContaining({
+              description: 'docs:doc://readme',
+              status: ToolCallStatus.Success,
+            }),
+          ],
+        },
+        600,
+      );
+    });
+
+    it('should read files and resources together', async () => {
+      const filePath = await createTestFile(
+        path.join(testRootDir, 'notes.txt'),
+        'file notes',
+      );
+      const relativePath = getRelativePath(filePath);
+      const query = `Compare @${relativePath} with @docs:doc://readme`;
+
+      const result = await handleAtCommand({
+        query,
+        config: mockConfig,
+        addItem: mockAddItem,
+        onDebugMessage: mockOnDebugMessage,
+        messageId: 601,
+        signal: abortController.signal,
+      });
+
+      expect(result.processedQuery).toEqual([
+        { text: query },
+        { text: '\n--- Content from referenced files ---' },
+        { text: `\nContent from @${relativePath}:\n` },
+        { text: 'file notes' },
+        { text: '\n--- End of content ---' },
+        { text: '\n--- Content from referenced resources ---' },
+        { text: '\nContent from @docs:doc://readme:\n' },
+        { text: 'content of doc://readme' },
+        { text: '\n--- End of content ---' },
+      ]);
+      expect(mockAddItem).toHaveBeenCalledWith(
+        {
+          type: 'tool_group',
+          tools: [
+            expect.objectContaining({ description: 'docs:doc://readme' }),
+            expect.objectContaining({ status: ToolCallStatus.Success }),
+          ],
+        },
+        601,
+      );
+    });
+
+    it('should not proceed when a resource cannot be read', async () => {
+      read.mockRejectedValue(new Error('Resource not found'));
+
+      const result = await handleAtCommand({
+        query: 'Summarize @docs:doc://missing',
+        config: mockConfig,
+        addItem: mockAddItem,
+        onDebugMessage: mockOnDebugMessage,
+        messageId: 602,
+        signal: abortController.signal,
+      });
+
+      expect(result).toEqual({ processedQuery: null, shouldProceed: false });
+      expect(mockAddItem).toHaveBeenCalledWith(
+        {
+          type: 'tool_group',
+          tools: [
+            expect.objectContaining({
+              status: ToolCallStatus.Error,
+              resultDisplay:
+                'Error reading resource docs:doc://missing: Resource not found',
+            }),
+          ],
+        },
+        602,
+      );
+    });
+
+    it('should treat references to unknown servers as paths', async () => {
+      const query = 'Open @notes:todo';
+
+      const result = await handleAtCommand({
+        query,
+        config: mockConfig,
+        addItem: mockAddItem,
+        onDebugMessage: mockOnDebugMessage,
+        messageId: 603,
+        signal: abortController.signal,
+      });
+
+      expect(read).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        processedQuery: [{ text: query }],
+        shouldProceed: true,
+      });
+    });
+  });
 });
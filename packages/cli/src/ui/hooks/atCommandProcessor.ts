@@ -12,6 +12,7 @@ import {
   debugLogger,
   getErrorMessage,
   isNodeError,
+  READ_MCP_RESOURCE_TOOL_NAME,
   unescapePath,
 } from '@google/gemini-cli-core';
 import type { HistoryItem, IndividualToolCallDisplay } from '../types.js';
@@ -37,6 +38,88 @@ interface AtCommandPart {
   content: string;
 }
 
+interface ResourceReference {
+  atPath: string;
+  serverName: string;
+  uri: string;
+}
+
+interface ReadResourcesResult {
+  parts: PartUnion[];
+  displays: IndividualToolCallDisplay[];
+  success: boolean;
+}
+
+/**
+ * Reads the referenced MCP resources with the 'read_mcp_resource' tool. Each
+ * resource gets its own tool call display; reading stops at the first failure.
+ */
+async function readResources(
+  references: ResourceReference[],
+  config: Config,
+  userMessageTimestamp: number,
+  signal: AbortSignal,
+): Promise<ReadResourcesResult> {
+  const readMcpResourceTool = config
+    .getToolRegistry()
+    .getTool(READ_MCP_RESOURCE_TOOL_NAME)!;
+  const parts: PartUnion[] = [
+    { text: '\n--- Content from referenced resources ---' },
+  ];
+  const displays: IndividualToolCallDisplay[] = [];
+
+  for (const [index, reference] of references.entries()) {
+    const callId = `client-resource-${userMessageTimestamp}-${index}`;
+    let invocation: AnyToolInvocation | undefined = undefined;
+    try {
+      invocation = readMcpResourceTool.build({
+        server_name: reference.serverName,
+        uri: reference.uri,
+      });
+      const result = await invocation.execute(signal);
+      if (result.error) {
+        displays.push({
+          callId,
+          name: readMcpResourceTool.displayName,
+          description: invocation.getDescription(),
+          status: ToolCallStatus.Error,
+          resultDisplay: result.error.message,
+          confirmationDetails: undefined,
+        });
+        return { parts, displays, success: false };
+      }
+      displays.push({
+        callId,
+        name: readMcpResourceTool.displayName,
+        description: invocation.getDescription(),
+        status: ToolCallStatus.Success,
+        resultDisplay: result.returnDisplay,
+        confirmationDetails: undefined,
+      });
+      parts.push({ text: `\nContent from ${reference.atPath}:\n` });
+      if (Array.isArray(result.llmContent)) {
+        parts.push(...result.llmContent);
+      } else {
+        parts.push(result.llmContent);
+      }
+    } catch (error: unknown) {
+      displays.push({
+        callId,
+        name: readMcpResourceTool.displayName,
+        description:
+          invocation?.getDescription() ??
+          `${reference.serverName}:${reference.uri}`,
+        status: ToolCallStatus.Error,
+        resultDisplay: `Error reading resource ${reference.atPath}: ${getErrorMessage(error)}`,
+        confirmationDetails: undefined,
+      });
+      return { parts, displays, success: false };
+    }
+  }
+  parts.push({ text: '\n--- End of content ---' });
+  return { parts, displays, success: true };
+}
+
 /**
  * Parses a query string to find all '@<path>' commands and text segments.
  * Handles \ escaped spaces within paths.
@@ -116,6 +199,8 @@ function parseAllAtCommands(query: string): AtCommandPart[] {
  * If found, it attempts to read the specified files/directories using the
  * 'read_many_files' tool. The user query is modified to include resolved paths,
  * and the content of the files is appended in a structured block.
+ * '@<server>:<uri>' commands that name an MCP server with resources are read
+ * with the 'read_mcp_resource' tool instead and appended in their own block.
  *
  * @returns An object indicating whether the main hook should proceed with an
  *          LLM call and the processed query parts (including file content).
@@ -143,6 +228,7 @@ export async function handleAtCommand({
   const respectFileIgnore = config.getFileFilteringOptions();
 
   const pathSpecsToRead: string[] = [];
+  const resourceReferences: ResourceReference[] = [];
   const atPathToResolvedSpecMap = new Map<string, string>();
   const contentLabelsForDisplay: string[] = [];
   const absoluteToRelativePathMap = new Map<string, string>();
@@ -155,6 +241,7 @@ export async function handleAtCommand({
   const toolRegistry = config.getToolRegistry();
   const readManyFilesTool = toolRegistry.getTool('read_many_files');
   const globTool = toolRegistry.getTool('glob');
+  const canReadResources = !!toolRegistry.getTool(READ_MCP_RESOURCE_TOOL_NAME);
 
   if (!readManyFilesTool) {
     addItem(
@@ -190,6 +277,18 @@ export async function handleAtCommand({
       return { processedQuery: null, shouldProceed: false };
     }
 
+    const resourceReference = canReadResources
+      ? config.getResourceRegistry().parseReference(pathName)
+      : undefined;
+    if (resourceReference) {
+      resourceReferences.push({ atPath: originalAtPath, ...resourceReference });
+      atPathToResolvedSpecMap.set(originalAtPath, pathName);
+      onDebugMessage(
+        `Path ${pathName} resolved to resource ${resourceReference.uri} of MCP server ${resourceReference.serverName}`,
+      );
+      continue;
+    }
+
     // Check if path should be ignored based on filtering options
 
     const workspaceContext = config.getWorkspaceContext();
@@ -396,7 +495,7 @@ export async function handleAtCommand({
   }
 
   // Fallback for lone "@" or completely invalid @-commands resulting in empty initialQueryText
-  if (pathSpecsToRead.length === 0) {
+  if (pathSpecsToRead.length === 0 && resourceReferences.length === 0) {
     onDebugMessage('No valid file paths found in @ commands to read.');
     if (initialQueryText === '@' && query.trim() === '@') {
       // If the only thing was a lone @, pass original query (which might have spaces)
@@ -414,6 +513,35 @@ export async function handleAtCommand({
 
   const processedQueryParts: PartUnion[] = [{ text: initialQueryText }];
 
+  let resources: ReadResourcesResult = {
+    parts: [],
+    displays: [],
+    success: true,
+  };
+  if (resourceReferences.length > 0) {
+    resources = await readResources(
+      resourceReferences,
+      config,
+      userMessageTimestamp,
+      signal,
+    );
+    if (!resources.success || pathSpecsToRead.length === 0) {
+      addItem(
+        { type: 'tool_group', tools: resources.displays } as Omit<
+          HistoryItem,
+          'id'
+        >,
+        userMessageTimestamp,
+      );
+      return resources.success
+        ? {
+            processedQuery: [...processedQueryParts, ...resources.parts],
+            shouldProceed: true,
+          }
+        : { processedQuery: null, shouldProceed: false };
+    }
+  }
+
   const toolArgs = {
     include: pathSpecsToRead,
     file_filtering_options: {
@@ -485,11 +613,13 @@ export async function handleAtCommand({
       );
     }
 
+    processedQueryParts.push(...resources.parts);
+
     addItem(
-      { type: 'tool_group', tools: [toolCallDisplay] } as Omit<
-        HistoryItem,
-        'id'
-      >,
+      {
+        type: 'tool_group',
+        tools: [...resources.displays, toolCallDisplay],
+      } as Omit<HistoryItem, 'id'>,
       userMessageTimestamp,
     );
     return { processedQuery: processedQueryParts, shouldProceed: true };
@@ -505,10 +635,10 @@ export async function handleAtCommand({
       confirmationDetails: undefined,
     };
     addItem(
-      { type: 'tool_group', tools: [toolCallDisplay] } as Omit<
-        HistoryItem,
-        'id'
-      >,
+      {
+        type: 'tool_group',
+        tools: [...resources.displays, toolCallDisplay],
+      } as Omit<HistoryItem, 'id'>,
       userMessageTimestamp,
     );
     return { processedQuery: null, shouldProceed: false };
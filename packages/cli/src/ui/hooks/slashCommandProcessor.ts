@@ -143,6 +143,7 @@ export const useSlashCommandProcessor = (
           osVersion: message.osVersion,
           sandboxEnv: message.sandboxEnv,
           modelVersion: message.modelVersion,
+          promptProfile: message.promptProfile,
           selectedAuthType: message.selectedAuthType,
           gcpProject: message.gcpProject,
           ideClient: message.ideClient,
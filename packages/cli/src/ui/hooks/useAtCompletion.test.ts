@@ -10,7 +10,7 @@ import { renderHook } from '../../test-utils/render.js';
 import { waitFor } from '../../test-utils/async.js';
 import { useAtCompletion } from './useAtCompletion.js';
 import type { Config, FileSearch } from '@google/gemini-cli-core';
-import { FileSearchFactory } from '@google/gemini-cli-core';
+import { FileSearchFactory, ResourceRegistry } from '@google/gemini-cli-core';
 import type { FileSystemStructure } from '@google/gemini-cli-test-utils';
 import { createTmpDir, cleanupTmpDir } from '@google/gemini-cli-test-utils';
 import type { Suggestion } from '../components/SuggestionsDisplay.js';
@@ -40,8 +40,10 @@ function useTestHarnessForAtCompletion(
 describe('useAtCompletion', () => {
   let testRootDir: string;
   let mockConfig: Config;
+  let resourceRegistry: ResourceRegistry;
 
   beforeEach(() => {
+    resourceRegistry = new ResourceRegistry();
     mockConfig = {
       getFileFilteringOptions: vi.fn(() => ({
         respectGitIgnore: true,
@@ -49,6 +51,7 @@ describe('useAtCompletion', () => {
       })),
       getEnableRecursiveFileSearch: () => true,
       getFileFilteringDisableFuzzySearch: () => false,
+      getResourceRegistry: () => resourceRegistry,
     } as unknown as Config;
     vi.clearAllMocks();
   });
@@ -444,6 +447,36 @@ describe('useAtCompletion', () => {
       ]);
     });
 
+    it('should suggest matching MCP resources before files', async () => {
+      resourceRegistry.setServerResources(
+        'docs',
+        [
+          { uri: 'doc://readme', name: 'Readme', serverName: 'docs' },
+          { uri: 'doc://changelog', name: 'Changelog', serverName: 'docs' },
+        ],
+        [],
+        vi.fn(),
+      );
+      testRootDir = await createTmpDir({ 'readme.txt': '' });
+
+      const { result } = renderHook(() =>
+        useTestHarnessForAtCompletion(true, 'read', mockConfig, testRootDir),
+      );
+
+      await waitFor(() => {
+        expect(result.current.suggestions.length).toBeGreaterThan(0);
+      });
+
+      expect(result.current.suggestions).toEqual([
+        {
+          label: 'docs:doc://readme',
+          value: 'docs:doc://readme',
+          description: 'Readme',
+        },
+        { label: 'readme.txt', value: 'readme.txt' },
+      ]);
+    });
+
     it('should work correctly when config is undefined', async () => {
       const structure: FileSystemStructure = {
         node_modules: {},
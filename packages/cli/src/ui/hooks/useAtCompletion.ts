@@ -88,6 +88,37 @@ function atCompletionReducer(
   }
 }
 
+/**
+ * Suggests `server:uri` references to the MCP resources whose reference or
+ * name contains the (lowercased) pattern.
+ */
+function getResourceSuggestions(
+  config: Config | undefined,
+  pattern: string,
+): Suggestion[] {
+  if (!config || !pattern) {
+    return [];
+  }
+  const suggestions: Suggestion[] = [];
+  for (const resource of config.getResourceRegistry().getAllResources()) {
+    const reference = `${resource.serverName}:${resource.uri}`;
+    if (
+      reference.toLowerCase().includes(pattern) ||
+      resource.name.toLowerCase().includes(pattern)
+    ) {
+      suggestions.push({
+        label: reference,
+        value: escapePath(reference),
+        description: resource.title ?? resource.name,
+      });
+    }
+    if (suggestions.length === MAX_SUGGESTIONS_TO_SHOW) {
+      break;
+    }
+  }
+  return suggestions;
+}
+
 export interface UseAtCompletionProps {
   enabled: boolean;
   pattern: string;
@@ -210,10 +241,13 @@ export function useAtCompletion(props: UseAtCompletionProps): void {
           return;
         }
 
-        const suggestions = results.map((p) => ({
-          label: p,
-          value: escapePath(p),
-        }));
+        const suggestions = [
+          ...getResourceSuggestions(config, state.pattern),
+          ...results.map((p) => ({
+            label: p,
+            value: escapePath(p),
+          })),
+        ];
         dispatch({ type: 'SEARCH_SUCCESS', payload: suggestions });
       } catch (error) {
         if (!(error instanceof Error && error.name === 'AbortError')) {
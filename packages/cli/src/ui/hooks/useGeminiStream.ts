@@ -6,6 +6,7 @@
 
 import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import type {
+  BudgetExceededInfo,
   Config,
   EditorType,
   GeminiClient,
@@ -37,6 +38,7 @@ import {
   tokenLimit,
   debugLogger,
   runInDevTraceSpan,
+  formatBudgetExceeded,
 } from '@google/gemini-cli-core';
 import { type Part, type PartListUnion, FinishReason } from '@google/genai';
 import type {
@@ -687,6 +689,21 @@ export const useGeminiStream = (
     [addItem, config],
   );
 
+  const handleBudgetExceededEvent = useCallback(
+    (info: BudgetExceededInfo) =>
+      addItem(
+        {
+          type: MessageType.ERROR,
+          text:
+            `${formatBudgetExceeded(info)} ` +
+            `Raise the limit in the \`budget\` section of your settings.json file, ` +
+            `or set \`budget.onExceeded\` to "downgrade" to continue with a cheaper model.`,
+        },
+        Date.now(),
+      ),
+    [addItem],
+  );
+
   const handleContextWindowWillOverflowEvent = useCallback(
     (estimatedRequestTokenCount: number, remainingTokenCount: number) => {
       onCancelSubmit();
@@ -753,6 +770,9 @@ export const useGeminiStream = (
           case ServerGeminiEventType.MaxSessionTurns:
             handleMaxSessionTurnsEvent();
             break;
+          case ServerGeminiEventType.BudgetExceeded:
+            handleBudgetExceededEvent(event.value);
+            break;
           case ServerGeminiEventType.ContextWindowWillOverflow:
             handleContextWindowWillOverflowEvent(
               event.value.estimatedRequestTokenCount,
@@ -797,6 +817,7 @@ export const useGeminiStream = (
       handleChatCompressionEvent,
       handleFinishedEvent,
       handleMaxSessionTurnsEvent,
+      handleBudgetExceededEvent,
       handleContextWindowWillOverflowEvent,
       handleCitationEvent,
     ],
@@ -0,0 +1,93 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { act } from 'react';
+import { renderHook } from '../../test-utils/render.js';
+import {
+  type Config,
+  type McpSamplingRequest,
+  makeFakeConfig,
+} from '@google/gemini-cli-core';
+import { useMcpClientRequests } from './useMcpClientRequests.js';
+
+const samplingRequest = (serverName: string): McpSamplingRequest => ({
+  serverName,
+  params: {
+    messages: [{ role: 'user', content: { type: 'text', text: 'hi' } }],
+    maxTokens: 100,
+  },
+  tokensUsed: 0,
+  tokenLimit: 1000,
+});
+
+describe('useMcpClientRequests', () => {
+  let config: Config;
+
+  beforeEach(() => {
+    config = makeFakeConfig();
+  });
+
+  it('should register sampling and elicitation handlers', () => {
+    renderHook(() => useMcpClientRequests(config));
+
+    expect(config.getMcpSamplingApprovalHandler()).toBeDefined();
+    expect(config.getMcpElicitationHandler()).toBeDefined();
+  });
+
+  it('should queue sampling requests and resolve them in order', async () => {
+    const { result } = renderHook(() => useMcpClientRequests(config));
+    const handler = config.getMcpSamplingApprovalHandler()!;
+
+    let first!: Promise<boolean>;
+    let second!: Promise<boolean>;
+    act(() => {
+      first = handler(samplingRequest('one'));
+      second = handler(samplingRequest('two'));
+    });
+
+    expect(result.current.mcpSamplingRequest?.serverName).toBe('one');
+    act(() => result.current.handleMcpSamplingChoice(true));
+    await expect(first).resolves.toBe(true);
+
+    expect(result.current.mcpSamplingRequest?.serverName).toBe('two');
+    act(() => result.current.handleMcpSamplingChoice(false));
+    await expect(second).resolves.toBe(false);
+
+    expect(result.current.mcpSamplingRequest).toBeNull();
+  });
+
+  it('should resolve elicitation requests with the submitted result', async () => {
+    const { result } = renderHook(() => useMcpClientRequests(config));
+    const handler = config.getMcpElicitationHandler()!;
+
+    let pending!: ReturnType<typeof handler>;
+    act(() => {
+      pending = handler({
+        serverName: 'server',
+        message: 'Who are you?',
+        requestedSchema: {
+          type: 'object',
+          properties: { name: { type: 'string' } },
+        },
+      });
+    });
+
+    expect(result.current.mcpElicitationRequest?.message).toBe('Who are you?');
+    act(() =>
+      result.current.handleMcpElicitationResult({
+        action: 'accept',
+        content: { name: 'Ada' },
+      }),
+    );
+
+    await expect(pending).resolves.toEqual({
+      action: 'accept',
+      content: { name: 'Ada' },
+    });
+    expect(result.current.mcpElicitationRequest).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  Config,
+  McpElicitationHandler,
+  McpElicitationResult,
+  McpSamplingApprovalHandler,
+} from '@google/gemini-cli-core';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type {
+  McpElicitationDialogRequest,
+  McpSamplingDialogRequest,
+} from '../contexts/UIStateContext.js';
+
+/**
+ * Shows sampling approvals and elicitation forms requested by MCP servers.
+ *
+ * Requests are queued so that servers asking at the same time are answered
+ * one after another.
+ */
+export function useMcpClientRequests(config: Config) {
+  const [samplingQueue, setSamplingQueue] = useState<
+    McpSamplingDialogRequest[]
+  >([]);
+  const [elicitationQueue, setElicitationQueue] = useState<
+    McpElicitationDialogRequest[]
+  >([]);
+  const nextElicitationId = useRef(0);
+
+  useEffect(() => {
+    const samplingHandler: McpSamplingApprovalHandler = (request) =>
+      new Promise<boolean>((resolve) => {
+        setSamplingQueue((queue) => [...queue, { ...request, resolve }]);
+      });
+    const elicitationHandler: McpElicitationHandler = (request) =>
+      new Promise<McpElicitationResult>((resolve) => {
+        const id = nextElicitationId.current++;
+        setElicitationQueue((queue) => [...queue, { ...request, id, resolve }]);
+      });
+
+    config.setMcpSamplingApprovalHandler(samplingHandler);
+    config.setMcpElicitationHandler(elicitationHandler);
+  }, [config]);
+
+  const mcpSamplingRequest = samplingQueue[0] ?? null;
+  const mcpElicitationRequest = elicitationQueue[0] ?? null;
+
+  const handleMcpSamplingChoice = useCallback(
+    (approved: boolean) => {
+      if (!mcpSamplingRequest) return;
+      mcpSamplingRequest.resolve(approved);
+      setSamplingQueue((queue) => queue.slice(1));
+    },
+    [mcpSamplingRequest],
+  );
+
+  const handleMcpElicitationResult = useCallback(
+    (result: McpElicitationResult) => {
+      if (!mcpElicitationRequest) return;
+      mcpElicitationRequest.resolve(result);
+      setElicitationQueue((queue) => queue.slice(1));
+    },
+    [mcpElicitationRequest],
+  );
+
+  return {
+    mcpSamplingRequest,
+    mcpElicitationRequest,
+    handleMcpSamplingChoice,
+    handleMcpElicitationResult,
+  };
+}
@@ -6,6 +6,8 @@
 
 import type {
   CompressionStatus,
+  CostReportGrouping,
+  CostReportRow,
   GeminiCLIExtension,
   MCPServerConfig,
   ThoughtSummary,
@@ -121,6 +123,7 @@ export type HistoryItemAbout = HistoryItemBase & {
   osVersion: string;
   sandboxEnv: string;
   modelVersion: string;
+  promptProfile: string;
   selectedAuthType: string;
   gcpProject: string;
   ideClient: string;
@@ -144,6 +147,14 @@ export type HistoryItemToolStats = HistoryItemBase & {
   type: 'tool_stats';
 };
 
+export type HistoryItemCostStats = HistoryItemBase & {
+  type: 'cost_stats';
+  since: string;
+  grouping: CostReportGrouping;
+  rows: CostReportRow[];
+  total: CostReportRow;
+};
+
 export type HistoryItemQuit = HistoryItemBase & {
   type: 'quit';
   duration: string;
@@ -243,6 +254,7 @@ export type HistoryItemWithoutId =
   | HistoryItemStats
   | HistoryItemModelStats
   | HistoryItemToolStats
+  | HistoryItemCostStats
   | HistoryItemQuit
   | HistoryItemCompression
   | HistoryItemExtensionsList
@@ -263,6 +275,7 @@ export enum MessageType {
   STATS = 'stats',
   MODEL_STATS = 'model_stats',
   TOOL_STATS = 'tool_stats',
+  COST_STATS = 'cost_stats',
   QUIT = 'quit',
   GEMINI = 'gemini',
   COMPRESSION = 'compression',
@@ -286,6 +299,7 @@ export type Message =
       osVersion: string;
       sandboxEnv: string;
       modelVersion: string;
+      promptProfile: string;
       selectedAuthType: string;
       gcpProject: string;
       ideClient: string;
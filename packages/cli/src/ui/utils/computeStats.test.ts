@@ -9,6 +9,7 @@ import {
   calculateAverageLatency,
   calculateCacheHitRate,
   calculateErrorRate,
+  calculateTotalCost,
   computeSessionStats,
 } from './computeStats.js';
 import type {
@@ -28,6 +29,7 @@ describe('calculateErrorRate', () => {
         thoughts: 0,
         tool: 0,
       },
+      cost: 0,
     };
     expect(calculateErrorRate(metrics)).toBe(0);
   });
@@ -43,6 +45,7 @@ describe('calculateErrorRate', () => {
         thoughts: 0,
         tool: 0,
       },
+      cost: 0,
     };
     expect(calculateErrorRate(metrics)).toBe(20);
   });
@@ -60,6 +63,7 @@ describe('calculateAverageLatency', () => {
         thoughts: 0,
         tool: 0,
       },
+      cost: 0,
     };
     expect(calculateAverageLatency(metrics)).toBe(0);
   });
@@ -75,6 +79,7 @@ describe('calculateAverageLatency', () => {
         thoughts: 0,
         tool: 0,
       },
+      cost: 0,
     };
     expect(calculateAverageLatency(metrics)).toBe(150);
   });
@@ -92,6 +97,7 @@ describe('calculateCacheHitRate', () => {
         thoughts: 0,
         tool: 0,
       },
+      cost: 0,
     };
     expect(calculateCacheHitRate(metrics)).toBe(0);
   });
@@ -107,11 +113,49 @@ describe('calculateCacheHitRate', () => {
         thoughts: 0,
         tool: 0,
       },
+      cost: 0,
     };
     expect(calculateCacheHitRate(metrics)).toBe(25);
   });
 });
 
+describe('calculateTotalCost', () => {
+  it('should sum the estimated cost of every model', () => {
+    const model = (cost: number): ModelMetrics => ({
+      api: { totalRequests: 1, totalErrors: 0, totalLatencyMs: 0 },
+      tokens: {
+        prompt: 0,
+        candidates: 0,
+        total: 0,
+        cached: 0,
+        thoughts: 0,
+        tool: 0,
+      },
+      cost,
+    });
+    const metrics: SessionMetrics = {
+      models: {
+        'gemini-2.5-pro': model(0.5),
+        'gemini-2.5-flash': model(0.25),
+      },
+      tools: {
+        totalCalls: 0,
+        totalSuccess: 0,
+        totalFail: 0,
+        totalDurationMs: 0,
+        totalDecisions: { accept: 0, reject: 0, modify: 0, auto_accept: 0 },
+        byName: {},
+      },
+      files: {
+        totalLinesAdded: 0,
+        totalLinesRemoved: 0,
+      },
+    };
+
+    expect(calculateTotalCost(metrics)).toBe(0.75);
+  });
+});
+
 describe('computeSessionStats', () => {
   it('should return all zeros for initial empty metrics', () => {
     const metrics: SessionMetrics = {
@@ -162,6 +206,7 @@ describe('computeSessionStats', () => {
             thoughts: 0,
             tool: 0,
           },
+          cost: 0,
         },
       },
       tools: {
@@ -200,6 +245,7 @@ describe('computeSessionStats', () => {
             thoughts: 0,
             tool: 0,
           },
+          cost: 0,
         },
       },
       tools: {
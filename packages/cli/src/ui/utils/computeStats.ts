@@ -31,6 +31,13 @@ export function calculateCacheHitRate(metrics: ModelMetrics): number {
   return (metrics.tokens.cached / metrics.tokens.prompt) * 100;
 }
 
+export function calculateTotalCost(metrics: SessionMetrics): number {
+  return Object.values(metrics.models).reduce(
+    (acc, model) => acc + model.cost,
+    0,
+  );
+}
+
 export const computeSessionStats = (
   metrics: SessionMetrics,
 ): ComputedSessionStats => {
@@ -5,7 +5,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { formatDuration, formatMemoryUsage } from './formatters.js';
+import { formatCost, formatDuration, formatMemoryUsage } from './formatters.js';
 
 describe('formatters', () => {
   describe('formatMemoryUsage', () => {
@@ -69,4 +69,18 @@ describe('formatters', () => {
       expect(formatDuration(-100)).toBe('0s');
     });
   });
+
+  describe('formatCost', () => {
+    it('should format zero', () => {
+      expect(formatCost(0)).toBe('$0.00');
+    });
+
+    it('should keep four decimals below one dollar', () => {
+      expect(formatCost(0.00421)).toBe('$0.0042');
+    });
+
+    it('should use two decimals from one dollar', () => {
+      expect(formatCost(12.345)).toBe('$12.35');
+    });
+  });
 });
@@ -61,3 +61,16 @@ export const formatDuration = (milliseconds: number): string => {
 
   return parts.join(' ');
 };
+
+/**
+ * Formats an estimated cost in USD. Small amounts keep enough decimals to
+ * stay visible, e.g. `$0.0042` rather than `$0.00`.
+ * @param usd The cost in USD.
+ * @returns A formatted string representing the cost.
+ */
+export const formatCost = (usd: number): string => {
+  if (usd === 0) {
+    return '$0.00';
+  }
+  return `$${usd.toFixed(usd < 1 ? 4 : 2)}`;
+};
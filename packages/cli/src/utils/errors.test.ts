@@ -13,6 +13,7 @@ import {
   handleToolError,
   handleCancellationError,
   handleMaxTurnsExceededError,
+  handleBudgetExceededError,
 } from './errors.js';
 
 // Mock the core modules
@@ -473,4 +474,47 @@ describe('errors', () => {
       });
     });
   });
+
+  describe('handleBudgetExceededError', () => {
+    const info = {
+      scope: 'daily' as const,
+      metric: 'usd' as const,
+      limit: 5,
+      spent: 5.25,
+    };
+    const message =
+      'Daily budget of $5.00 exceeded ($5.25 spent). Increase the limit in the budget section of settings.json.';
+
+    it('should log the budget message and exit with 55 in text mode', () => {
+      expect(() => {
+        handleBudgetExceededError(mockConfig, info);
+      }).toThrow('process.exit called with code: 55');
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(message);
+    });
+
+    it('should format the budget error as JSON and exit with 55 in JSON mode', () => {
+      (mockConfig.getOutputFormat as ReturnType<typeof vi.fn>).mockReturnValue(
+        OutputFormat.JSON,
+      );
+
+      expect(() => {
+        handleBudgetExceededError(mockConfig, info);
+      }).toThrow('process.exit called with code: 55');
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        JSON.stringify(
+          {
+            error: {
+              type: 'FatalBudgetExceededError',
+              message,
+              code: 55,
+            },
+          },
+          null,
+          2,
+        ),
+      );
+    });
+  });
 });
@@ -4,7 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import type { Config } from '@google/gemini-cli-core';
+import type { BudgetExceededInfo, Config } from '@google/gemini-cli-core';
 import {
   OutputFormat,
   JsonFormatter,
@@ -13,9 +13,11 @@ import {
   uiTelemetryService,
   parseAndFormatApiError,
   FatalTurnLimitedError,
+  FatalBudgetExceededError,
   FatalCancellationError,
   FatalToolExecutionError,
   isFatalToolError,
+  formatBudgetExceeded,
 } from '@google/gemini-cli-core';
 
 export function getErrorMessage(error: unknown): string {
@@ -232,3 +234,43 @@ export function handleMaxTurnsExceededError(config: Config): never {
     process.exit(maxTurnsError.exitCode);
   }
 }
+
+/**
+ * Handles an exceeded budget limit consistently.
+ */
+export function handleBudgetExceededError(
+  config: Config,
+  info: BudgetExceededInfo,
+): never {
+  const budgetError = new FatalBudgetExceededError(
+    `${formatBudgetExceeded(info)} Increase the limit in the budget section of settings.json.`,
+  );
+
+  if (config.getOutputFormat() === OutputFormat.STREAM_JSON) {
+    const streamFormatter = new StreamJsonFormatter();
+    const metrics = uiTelemetryService.getMetrics();
+    streamFormatter.emitEvent({
+      type: JsonStreamEventType.RESULT,
+      timestamp: new Date().toISOString(),
+      status: 'error',
+      error: {
+        type: 'FatalBudgetExceededError',
+        message: budgetError.message,
+      },
+      stats: streamFormatter.convertToStreamStats(metrics, 0),
+    });
+    process.exit(budgetError.exitCode);
+  } else if (config.getOutputFormat() === OutputFormat.JSON) {
+    const formatter = new JsonFormatter();
+    const formattedError = formatter.formatError(
+      budgetError,
+      budgetError.exitCode,
+    );
+
+    console.error(formattedError);
+    process.exit(budgetError.exitCode);
+  } else {
+    console.error(budgetError.message);
+    process.exit(budgetError.exitCode);
+  }
+}
@@ -0,0 +1,300 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DEFAULT_GEMINI_MODEL } from '../config/models.js';
+import {
+  formatAgentFileError,
+  getAgentDefinitionSources,
+  loadAgentDefinitions,
+  parseAgentDefinition,
+} from './agent-loader.js';
+
+const TEST_WRITER_TOML = `
+name = "test_writer"
+displayName = "Test Writer"
+description = "Writes unit tests."
+tools = ["read_file", "write_file"]
+systemPrompt = "You write tests."
+query = "Write tests for \${module}."
+
+[inputs.module]
+type = "string"
+description = "The module to test."
+required = true
+
+[inputs.framework]
+type = "string"
+description = "The test framework."
+
+[model]
+model = "gemini-2.5-flash"
+temperature = 0.3
+
+[run]
+maxTimeMinutes = 10
+maxTurns = 20
+`;
+
+describe('parseAgentDefinition', () => {
+  it('should parse a TOML definition', () => {
+    const definition = parseAgentDefinition(TEST_WRITER_TOML, 'toml');
+
+    expect(definition).toEqual({
+      name: 'test_writer',
+      displayName: 'Test Writer',
+      description: 'Writes unit tests.',
+      promptConfig: {
+        systemPrompt: 'You write tests.',
+        query: 'Write tests for ${module}.',
+      },
+      modelConfig: {
+        model: 'gemini-2.5-flash',
+        temp: 0.3,
+        top_p: 0.95,
+        thinkingBudget: undefined,
+      },
+      runConfig: { max_time_minutes: 10, max_turns: 20 },
+      toolConfig: { tools: ['read_file', 'write_file'] },
+      inputConfig: {
+        inputs: {
+          module: {
+            type: 'string',
+            description: 'The module to test.',
+            required: true,
+          },
+          framework: {
+            type: 'string',
+            description: 'The test framework.',
+            required: false,
+          },
+        },
+      },
+    });
+  });
+
+  it('should apply defaults to a minimal definition', () => {
+    const definition = parseAgentDefinition(
+      'name = "helper"\ndescription = "Helps."',
+      'toml',
+    );
+
+    expect(definition.modelConfig).toEqual({
+      model: DEFAULT_GEMINI_MODEL,
+      temp: 0.1,
+      top_p: 0.95,
+      thinkingBudget: undefined,
+    });
+    expect(definition.runConfig).toEqual({
+      max_time_minutes: 5,
+      max_turns: undefined,
+    });
+    expect(definition.toolConfig).toBeUndefined();
+    expect(definition.inputConfig).toEqual({ inputs: {} });
+  });
+
+  it('should use the Markdown body as the system prompt', () => {
+    const definition = parseAgentDefinition(
+      '+++\nname = "reviewer"\ndescription = "Reviews code."\n+++\n\n# Role\n\nYou review code.\n',
+      'markdown',
+    );
+
+    expect(definition.name).toBe('reviewer');
+    expect(definition.promptConfig.systemPrompt).toBe(
+      '# Role\n\nYou review code.',
+    );
+  });
+
+  it('should reject Markdown without front matter', () => {
+    expect(() => parseAgentDefinition('# Reviewer', 'markdown')).toThrow(
+      'Markdown agent definitions must start with TOML front matter',
+    );
+  });
+
+  it('should reject a Markdown system prompt in both places', () => {
+    expect(() =>
+      parseAgentDefinition(
+        '+++\nname = "a"\ndescription = "b"\nsystemPrompt = "c"\n+++\nd',
+        'markdown',
+      ),
+    ).toThrow('systemPrompt must not be set in the front matter');
+  });
+
+  it('should report invalid fields', () => {
+    expect(() =>
+      parseAgentDefinition(
+        'name = "has space"\ndescription = "d"\nunknown = 1\n[inputs.x]\ntype = "date"\ndescription = "x"',
+        'toml',
+      ),
+    ).toThrowErrorMatchingInlineSnapshot(`
+      [Error: Schema validation failed:
+        - Field "name": name must start with a letter or underscore and contain only letters, digits, "_" and "-"
+        - Field "inputs.x.type": Invalid enum value. Expected 'string' | 'number' | 'boolean' | 'integer' | 'string[]' | 'number[]', received 'date'
+        - Field "": Unrecognized key(s) in object: 'unknown']
+    `);
+  });
+
+  it('should reject prompts that reference unknown or optional inputs', () => {
+    expect(() =>
+      parseAgentDefinition(
+        'name = "a"\ndescription = "b"\nquery = "Do ${task}"',
+        'toml',
+      ),
+    ).toThrow("query references unknown input 'task'.");
+    expect(() =>
+      parseAgentDefinition(
+        'name = "a"\ndescription = "b"\nsystemPrompt = "Use ${style}"\n[inputs.style]\ntype = "string"\ndescription = "s"',
+        'toml',
+      ),
+    ).toThrow("systemPrompt references optional input 'style'");
+  });
+
+  it('should validate structured output against its schema', () => {
+    const definition = parseAgentDefinition(
+      `name = "a"
+description = "b"
+[output]
+name = "report"
+description = "The report."
+[output.schema]
+type = "object"
+required = ["files"]
+[output.schema.properties.files]
+type = "array"
+items = { type = "string" }`,
+      'toml',
+    );
+
+    const { outputConfig, processOutput } = definition;
+    expect(outputConfig?.outputName).toBe('report');
+    expect(outputConfig?.schema.safeParse({ files: ['a.ts'] }).success).toBe(
+      true,
+    );
+    expect(outputConfig?.schema.safeParse({ files: 'a.ts' }).success).toBe(
+      false,
+    );
+    expect(processOutput?.({ files: ['a.ts'] })).toBe(
+      '{\n  "files": [\n    "a.ts"\n  ]\n}',
+    );
+  });
+
+  it('should default the output schema to a string', () => {
+    const definition = parseAgentDefinition(
+      'name = "a"\ndescription = "b"\n[output]\nname = "answer"\ndescription = "c"',
+      'toml',
+    );
+
+    expect(definition.outputConfig?.schema.safeParse('text').success).toBe(
+      true,
+    );
+    expect(definition.processOutput).toBeUndefined();
+  });
+});
+
+describe('loadAgentDefinitions', () => {
+  let tempDir: string;
+
+  const writeAgent = (dir: string, fileName: string, content: string) => {
+    fs.mkdirSync(path.join(tempDir, dir), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, dir, fileName), content);
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-loader-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should load TOML and Markdown files in source order', async () => {
+    writeAgent('user', 'test-writer.toml', TEST_WRITER_TOML);
+    writeAgent(
+      'project',
+      'reviewer.md',
+      '+++\nname = "reviewer"\ndescription = "Reviews."\n+++\nReview.',
+    );
+    writeAgent('project', 'notes.txt', 'ignored');
+
+    const { agents, errors } = await loadAgentDefinitions([
+      { dir: path.join(tempDir, 'user'), origin: 'user' },
+      { dir: path.join(tempDir, 'project'), origin: 'project' },
+      { dir: path.join(tempDir, 'missing'), origin: 'project' },
+    ]);
+
+    expect(errors).toEqual([]);
+    expect(
+      agents.map(({ definition, filePath, origin }) => ({
+        name: definition.name,
+        filePath,
+        origin,
+      })),
+    ).toEqual([
+      {
+        name: 'test_writer',
+        filePath: path.join(tempDir, 'user', 'test-writer.toml'),
+        origin: 'user',
+      },
+      {
+        name: 'reviewer',
+        filePath: path.join(tempDir, 'project', 'reviewer.md'),
+        origin: 'project',
+      },
+    ]);
+  });
+
+  it('should skip invalid files and report them', async () => {
+    writeAgent('user', 'a.toml', 'name = "valid"\ndescription = "Valid."');
+    writeAgent('user', 'b.toml', 'name = ');
+    writeAgent('user', 'c.toml', 'name = "valid"\ndescription = "Again."');
+
+    const { agents, errors } = await loadAgentDefinitions([
+      { dir: path.join(tempDir, 'user'), origin: 'user' },
+    ]);
+
+    expect(agents.map((agent) => agent.definition.description)).toEqual([
+      'Valid.',
+    ]);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toMatchObject({
+      filePath: path.join(tempDir, 'user', 'b.toml'),
+      origin: 'user',
+      message: expect.stringContaining('TOML parsing failed'),
+    });
+    expect(errors[1].message).toBe(
+      `Agent 'valid' is already defined in ${path.join(tempDir, 'user', 'a.toml')}.`,
+    );
+    expect(formatAgentFileError(errors[1])).toMatch(
+      /^\[USER\] Agent definition error in .*c\.toml:\n {2}Agent 'valid'/,
+    );
+  });
+});
+
+describe('getAgentDefinitionSources', () => {
+  it('should order active extensions, then user, then project', () => {
+    const sources = getAgentDefinitionSources({
+      userAgentsDir: '/home/user/.gemini/agents',
+      projectAgentsDir: '/project/.gemini/agents',
+      extensions: [
+        { name: 'active', path: '/ext/active', isActive: true },
+        { name: 'inactive', path: '/ext/inactive', isActive: false },
+      ],
+    });
+
+    expect(sources).toEqual([
+      {
+        dir: path.join('/ext/active', 'agents'),
+        origin: 'extension',
+        extensionName: 'active',
+      },
+      { dir: '/home/user/.gemini/agents', origin: 'user' },
+      { dir: '/project/.gemini/agents', origin: 'project' },
+    ]);
+  });
+});
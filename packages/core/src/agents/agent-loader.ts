@@ -0,0 +1,366 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import toml from '@iarna/toml';
+import { z, type ZodError } from 'zod';
+import { DEFAULT_GEMINI_MODEL } from '../config/models.js';
+import type { AgentDefinition, InputConfig } from './types.js';
+import {
+  convertJsonSchemaToZod,
+  type OutputJsonSchema,
+} from './schema-utils.js';
+
+export const AGENTS_DIR_NAME = 'agents';
+
+const AGENT_NAME_REGEX = /^[a-zA-Z_][a-zA-Z0-9_-]*$/;
+const PLACEHOLDER_REGEX = /\$\{(\w+)\}/g;
+const FRONT_MATTER_REGEX = /^\+\+\+\r?\n([\s\S]*?)\r?\n\+\+\+\r?\n?([\s\S]*)$/;
+
+const OutputJsonSchemaSchema: z.ZodType<OutputJsonSchema> = z.lazy(() =>
+  z
+    .object({
+      type: z.enum([
+        'string',
+        'number',
+        'integer',
+        'boolean',
+        'array',
+        'object',
+      ]),
+      description: z.string().optional(),
+      enum: z.array(z.string()).optional(),
+      items: OutputJsonSchemaSchema.optional(),
+      properties: z.record(OutputJsonSchemaSchema).optional(),
+      required: z.array(z.string()).optional(),
+    })
+    .strict(),
+);
+
+/**
+ * Schema for an agent definition file. Markdown files carry the same fields
+ * as TOML front matter, with the body as `systemPrompt`.
+ */
+const AgentFileSchema = z
+  .object({
+    name: z.string().regex(AGENT_NAME_REGEX, {
+      message:
+        'name must start with a letter or underscore and contain only letters, digits, "_" and "-"',
+    }),
+    displayName: z.string().optional(),
+    description: z.string().min(1, { message: 'description is required' }),
+    systemPrompt: z.string().optional(),
+    query: z.string().optional(),
+    tools: z.array(z.string()).optional(),
+    inputs: z
+      .record(
+        z
+          .object({
+            type: z.enum([
+              'string',
+              'number',
+              'boolean',
+              'integer',
+              'string[]',
+              'number[]',
+            ]),
+            description: z.string(),
+            required: z.boolean().default(false),
+          })
+          .strict(),
+      )
+      .default({}),
+    output: z
+      .object({
+        name: z.string().regex(AGENT_NAME_REGEX),
+        description: z.string(),
+        schema: OutputJsonSchemaSchema.default({ type: 'string' }),
+      })
+      .strict()
+      .optional(),
+    model: z
+      .object({
+        model: z.string().default(DEFAULT_GEMINI_MODEL),
+        temperature: z.number().min(0).max(2).default(0.1),
+        topP: z.number().min(0).max(1).default(0.95),
+        thinkingBudget: z.number().int().optional(),
+      })
+      .strict()
+      .default({}),
+    run: z
+      .object({
+        maxTimeMinutes: z.number().positive().default(5),
+        maxTurns: z.number().int().positive().optional(),
+      })
+      .strict()
+      .default({}),
+  })
+  .strict();
+
+type AgentFile = z.infer<typeof AgentFileSchema>;
+
+/**
+ * Where an agent definition comes from. Later origins override earlier ones
+ * with the same name: built-in, then extension, user and project.
+ */
+export type AgentDefinitionOrigin =
+  | 'built-in'
+  | 'extension'
+  | 'user'
+  | 'project';
+
+/**
+ * A directory of agent definition files and the tier it belongs to.
+ */
+export interface AgentDefinitionSource {
+  dir: string;
+  origin: Exclude<AgentDefinitionOrigin, 'built-in'>;
+  /** Set when `origin` is `extension`. */
+  extensionName?: string;
+}
+
+export interface LoadedAgentDefinition {
+  definition: AgentDefinition<z.ZodTypeAny>;
+  filePath: string;
+  origin: AgentDefinitionSource['origin'];
+  extensionName?: string;
+}
+
+/**
+ * Detailed error information for agent definition file loading failures.
+ */
+export interface AgentFileError {
+  filePath: string;
+  origin: AgentDefinitionSource['origin'];
+  message: string;
+  details?: string;
+}
+
+export interface AgentLoadResult {
+  agents: LoadedAgentDefinition[];
+  errors: AgentFileError[];
+}
+
+/**
+ * Formats a Zod validation error into a readable error message.
+ */
+function formatSchemaError(error: ZodError): string {
+  return error.issues
+    .map((issue) => `  - Field "${issue.path.join('.')}": ${issue.message}`)
+    .join('\n');
+}
+
+/**
+ * Formats an agent definition file error for console logging.
+ */
+export function formatAgentFileError(error: AgentFileError): string {
+  const tierLabel = error.origin.toUpperCase();
+  let message = `[${tierLabel}] Agent definition error in ${error.filePath}:\n`;
+  message += `  ${error.message}`;
+  if (error.details) {
+    message += `\n${error.details}`;
+  }
+  return message;
+}
+
+/**
+ * Checks that every `${input}` placeholder in a prompt names a required
+ * input, since prompts are templated with only the inputs the caller passed.
+ */
+function checkPlaceholders(
+  prompt: string | undefined,
+  field: string,
+  inputs: InputConfig['inputs'],
+): void {
+  for (const [, name] of prompt?.matchAll(PLACEHOLDER_REGEX) ?? []) {
+    if (!inputs[name]) {
+      throw new Error(`${field} references unknown input '${name}'.`);
+    }
+    if (!inputs[name].required) {
+      throw new Error(
+        `${field} references optional input '${name}'; only required inputs can be used in prompts.`,
+      );
+    }
+  }
+}
+
+function toAgentDefinition(file: AgentFile): AgentDefinition<z.ZodTypeAny> {
+  checkPlaceholders(file.systemPrompt, 'systemPrompt', file.inputs);
+  checkPlaceholders(file.query, 'query', file.inputs);
+
+  const definition: AgentDefinition<z.ZodTypeAny> = {
+    name: file.name,
+    displayName: file.displayName,
+    description: file.description,
+    promptConfig: { systemPrompt: file.systemPrompt, query: file.query },
+    modelConfig: {
+      model: file.model.model,
+      temp: file.model.temperature,
+      top_p: file.model.topP,
+      thinkingBudget: file.model.thinkingBudget,
+    },
+    runConfig: {
+      max_time_minutes: file.run.maxTimeMinutes,
+      max_turns: file.run.maxTurns,
+    },
+    toolConfig: file.tools ? { tools: file.tools } : undefined,
+    inputConfig: { inputs: file.inputs },
+  };
+  if (file.output) {
+    definition.outputConfig = {
+      outputName: file.output.name,
+      description: file.output.description,
+      schema: convertJsonSchemaToZod(file.output.schema, 'output.schema'),
+    };
+    if (file.output.schema.type !== 'string') {
+      definition.processOutput = (output) => JSON.stringify(output, null, 2);
+    }
+  }
+  return definition;
+}
+
+/**
+ * Parses the contents of an agent definition file.
+ *
+ * @param content The file contents.
+ * @param format `toml` for a TOML file, `markdown` for a Markdown file with
+ * TOML front matter between `+++` lines.
+ * @returns The agent definition.
+ * @throws An `Error` with the details of the problem. Schema errors carry
+ * one line per invalid field.
+ */
+export function parseAgentDefinition(
+  content: string,
+  format: 'toml' | 'markdown',
+): AgentDefinition<z.ZodTypeAny> {
+  let frontMatter = content;
+  let body: string | undefined;
+  if (format === 'markdown') {
+    const match = FRONT_MATTER_REGEX.exec(content);
+    if (!match) {
+      throw new Error(
+        'Markdown agent definitions must start with TOML front matter between "+++" lines.',
+      );
+    }
+    [, frontMatter, body] = match;
+  }
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = toml.parse(frontMatter);
+  } catch (e) {
+    throw new Error(`TOML parsing failed: ${(e as Error).message}`);
+  }
+  if (body?.trim()) {
+    if (parsed['systemPrompt'] !== undefined) {
+      throw new Error(
+        'systemPrompt must not be set in the front matter of a Markdown agent definition; the body is the system prompt.',
+      );
+    }
+    parsed['systemPrompt'] = body.trim();
+  }
+
+  const validationResult = AgentFileSchema.safeParse(parsed);
+  if (!validationResult.success) {
+    throw new Error(
+      `Schema validation failed:\n${formatSchemaError(validationResult.error)}`,
+    );
+  }
+  return toAgentDefinition(validationResult.data);
+}
+
+/**
+ * Loads the agent definitions (`*.toml` and `*.md`) in each source directory.
+ *
+ * Missing directories are skipped silently; every other problem is reported
+ * in `errors` and only the offending file is skipped. Agents are returned in
+ * source order, so registering them in turn lets later sources override
+ * earlier ones.
+ *
+ * @param sources Agent directories in order of increasing priority
+ */
+export async function loadAgentDefinitions(
+  sources: AgentDefinitionSource[],
+): Promise<AgentLoadResult> {
+  const agents: LoadedAgentDefinition[] = [];
+  const errors: AgentFileError[] = [];
+
+  for (const { dir, origin, extensionName } of sources) {
+    let fileNames: string[];
+    try {
+      fileNames = (await fs.readdir(dir)).sort();
+    } catch (e) {
+      const error = e as NodeJS.ErrnoException;
+      if (error.code !== 'ENOENT') {
+        errors.push({
+          filePath: dir,
+          origin,
+          message: 'Failed to read agents directory',
+          details: error.message,
+        });
+      }
+      continue;
+    }
+
+    const namesInDir = new Map<string, string>();
+    for (const fileName of fileNames) {
+      const extension = path.extname(fileName);
+      if (extension !== '.toml' && extension !== '.md') {
+        continue;
+      }
+      const filePath = path.join(dir, fileName);
+      try {
+        const content = await fs.readFile(filePath, 'utf-8');
+        const definition = parseAgentDefinition(
+          content,
+          extension === '.md' ? 'markdown' : 'toml',
+        );
+        const duplicate = namesInDir.get(definition.name);
+        if (duplicate) {
+          throw new Error(
+            `Agent '${definition.name}' is already defined in ${duplicate}.`,
+          );
+        }
+        namesInDir.set(definition.name, filePath);
+        agents.push({ definition, filePath, origin, extensionName });
+      } catch (e) {
+        const [message, ...details] = (e as Error).message.split('\n');
+        errors.push({
+          filePath,
+          origin,
+          message,
+          details: details.length > 0 ? details.join('\n') : undefined,
+        });
+      }
+    }
+  }
+
+  return { agents, errors };
+}
+
+/**
+ * Gets the agent directories to load, in order of increasing priority
+ * (Extensions -> User -> Project).
+ */
+export function getAgentDefinitionSources(options: {
+  userAgentsDir: string;
+  projectAgentsDir?: string;
+  extensions: Array<{ name: string; path: string; isActive: boolean }>;
+}): AgentDefinitionSource[] {
+  const sources: AgentDefinitionSource[] = options.extensions
+    .filter((extension) => extension.isActive)
+    .map((extension) => ({
+      dir: path.join(extension.path, AGENTS_DIR_NAME),
+      origin: 'extension',
+      extensionName: extension.name,
+    }));
+  sources.push({ dir: options.userAgentsDir, origin: 'user' });
+  if (options.projectAgentsDir) {
+    sources.push({ dir: options.projectAgentsDir, origin: 'project' });
+  }
+  return sources;
+}
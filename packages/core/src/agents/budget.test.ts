@@ -0,0 +1,39 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AgentRunBudget } from './budget.js';
+
+describe('AgentRunBudget', () => {
+  it('should never run out without limits', () => {
+    const budget = new AgentRunBudget();
+    for (let i = 0; i < 100; i++) {
+      expect(budget.tryStartTurn()).toBe(true);
+    }
+    budget.recordTokens(1_000_000);
+    expect(budget.isExhausted()).toBe(false);
+    expect(budget.getUsage()).toEqual({ turns: 100, tokens: 1_000_000 });
+  });
+
+  it('should stop granting turns once the turn limit is reached', () => {
+    const budget = new AgentRunBudget(2);
+    expect(budget.tryStartTurn()).toBe(true);
+    expect(budget.tryStartTurn()).toBe(true);
+    expect(budget.tryStartTurn()).toBe(false);
+    expect(budget.getUsage().turns).toBe(2);
+  });
+
+  it('should stop granting turns once the token limit is reached', () => {
+    const budget = new AgentRunBudget(undefined, 1000);
+    expect(budget.tryStartTurn()).toBe(true);
+    budget.recordTokens(600);
+    expect(budget.tryStartTurn()).toBe(true);
+    budget.recordTokens(600);
+    expect(budget.isExhausted()).toBe(true);
+    expect(budget.tryStartTurn()).toBe(false);
+    expect(budget.getUsage()).toEqual({ turns: 2, tokens: 1200 });
+  });
+});
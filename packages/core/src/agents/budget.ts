@@ -0,0 +1,53 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * A turn and token allowance shared by agents that run side by side. Each
+ * executor charges its turns and tokens here and stops once the budget is
+ * spent, so fanning out to more agents does not multiply the cost.
+ */
+export class AgentRunBudget {
+  private turnsUsed = 0;
+  private tokensUsed = 0;
+
+  /**
+   * @param maxTurns Turns all agents may take together. Unlimited if unset.
+   * @param maxTokens Tokens all agents may use together. Unlimited if unset.
+   */
+  constructor(
+    readonly maxTurns?: number,
+    readonly maxTokens?: number,
+  ) {}
+
+  /**
+   * Claims a turn for an agent.
+   *
+   * @returns `false`, without claiming, if the budget is already spent.
+   */
+  tryStartTurn(): boolean {
+    if (this.isExhausted()) {
+      return false;
+    }
+    this.turnsUsed++;
+    return true;
+  }
+
+  /** Charges the tokens used by a model call. */
+  recordTokens(count: number): void {
+    this.tokensUsed += count;
+  }
+
+  isExhausted(): boolean {
+    return (
+      (this.maxTurns !== undefined && this.turnsUsed >= this.maxTurns) ||
+      (this.maxTokens !== undefined && this.tokensUsed >= this.maxTokens)
+    );
+  }
+
+  getUsage(): { turns: number; tokens: number } {
+    return { turns: this.turnsUsed, tokens: this.tokensUsed };
+  }
+}
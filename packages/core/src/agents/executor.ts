@@ -49,6 +49,7 @@ import type {
 } from './types.js';
 import { AgentTerminateMode } from './types.js';
 import { templateString } from './utils.js';
+import type { AgentRunBudget } from './budget.js';
 import { parseThought } from '../utils/thoughtUtils.js';
 import { type z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
@@ -85,8 +86,11 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
   private readonly toolRegistry: ToolRegistry;
   private readonly runtimeContext: Config;
   private readonly onActivity?: ActivityCallback;
+  private readonly budget?: AgentRunBudget;
   private readonly compressionService: ChatCompressionService;
   private hasFailedCompressionAttempt = false;
+  // The validated value the agent submitted through `complete_task`.
+  private submittedValue: unknown;
 
   /**
    * Creates and validates a new `AgentExecutor` instance.
@@ -97,12 +101,14 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
    * @param definition The definition object for the agent.
    * @param runtimeContext The global runtime configuration.
    * @param onActivity An optional callback to receive activity events.
+   * @param budget An optional turn and token budget shared with other agents.
    * @returns A promise that resolves to a new `AgentExecutor` instance.
    */
   static async create<TOutput extends z.ZodTypeAny>(
     definition: AgentDefinition<TOutput>,
     runtimeContext: Config,
     onActivity?: ActivityCallback,
+    budget?: AgentRunBudget,
   ): Promise<AgentExecutor<TOutput>> {
     // Create an isolated tool registry for this agent instance.
     const agentToolRegistry = new ToolRegistry(runtimeContext);
@@ -143,6 +149,7 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
       agentToolRegistry,
       parentPromptId,
       onActivity,
+      budget,
     );
   }
 
@@ -158,11 +165,13 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
     toolRegistry: ToolRegistry,
     parentPromptId: string | undefined,
     onActivity?: ActivityCallback,
+    budget?: AgentRunBudget,
   ) {
     this.definition = definition;
     this.runtimeContext = runtimeContext;
     this.toolRegistry = toolRegistry;
     this.onActivity = onActivity;
+    this.budget = budget;
     this.compressionService = new ChatCompressionService();
 
     const randomIdPart = Math.random().toString(36).slice(2, 8);
@@ -245,7 +254,8 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
     reason:
       | AgentTerminateMode.TIMEOUT
       | AgentTerminateMode.MAX_TURNS
-      | AgentTerminateMode.ERROR_NO_COMPLETE_TASK_CALL,
+      | AgentTerminateMode.ERROR_NO_COMPLETE_TASK_CALL
+      | AgentTerminateMode.BUDGET_EXHAUSTED,
   ): string {
     let explanation = '';
     switch (reason) {
@@ -258,6 +268,10 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
       case AgentTerminateMode.ERROR_NO_COMPLETE_TASK_CALL:
         explanation = 'You have stopped calling tools without finishing.';
         break;
+      case AgentTerminateMode.BUDGET_EXHAUSTED:
+        explanation =
+          'The turn and token budget shared with the other agents has been used up.';
+        break;
       default:
         throw new Error(`Unknown terminate reason: ${reason}`);
     }
@@ -277,7 +291,8 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
     reason:
       | AgentTerminateMode.TIMEOUT
       | AgentTerminateMode.MAX_TURNS
-      | AgentTerminateMode.ERROR_NO_COMPLETE_TASK_CALL,
+      | AgentTerminateMode.ERROR_NO_COMPLETE_TASK_CALL
+      | AgentTerminateMode.BUDGET_EXHAUSTED,
     externalSignal: AbortSignal, // The original signal passed to run()
   ): Promise<string | null> {
     this.emitActivity('THOUGHT_CHUNK', {
@@ -467,6 +482,13 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
               error: finalResult,
               context: 'max_turns',
             });
+          } else if (terminateReason === AgentTerminateMode.BUDGET_EXHAUSTED) {
+            finalResult =
+              'Agent stopped because the shared turn and token budget was used up.';
+            this.emitActivity('ERROR', {
+              error: finalResult,
+              context: 'budget_exhausted',
+            });
           } else if (
             terminateReason === AgentTerminateMode.ERROR_NO_COMPLETE_TASK_CALL
           ) {
@@ -487,6 +509,7 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
         return {
           result: finalResult || 'Task completed.',
           terminate_reason: terminateReason,
+          output: this.submittedValue,
         };
       }
 
@@ -522,6 +545,7 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
             return {
               result: finalResult,
               terminate_reason: terminateReason,
+              output: this.submittedValue,
             };
           }
         }
@@ -611,12 +635,16 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
 
     const functionCalls: FunctionCall[] = [];
     let textResponse = '';
+    // Usage metadata is cumulative, so the last chunk's count is the total.
+    let totalTokenCount = 0;
 
     for await (const resp of responseStream) {
       if (signal.aborted) break;
 
       if (resp.type === StreamEventType.CHUNK) {
         const chunk = resp.value;
+        totalTokenCount =
+          chunk.usageMetadata?.totalTokenCount ?? totalTokenCount;
         const parts = chunk.candidates?.[0]?.content?.parts;
 
         // Extract and emit any subject "thought" content from the model.
@@ -645,6 +673,7 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
       }
     }
 
+    this.budget?.recordTokens(totalTokenCount);
     return { functionCalls, textResponse };
   }
 
@@ -782,6 +811,7 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
             }
 
             const validatedOutput = validationResult.data;
+            this.submittedValue = validatedOutput;
             if (this.definition.processOutput) {
               submittedOutput = this.definition.processOutput(validatedOutput);
             } else {
@@ -1078,6 +1108,11 @@ Important Rules:
       return AgentTerminateMode.MAX_TURNS;
     }
 
+    // Claims the next turn from the shared budget, if there is one.
+    if (this.budget && !this.budget.tryStartTurn()) {
+      return AgentTerminateMode.BUDGET_EXHAUSTED;
+    }
+
     return null;
   }
 
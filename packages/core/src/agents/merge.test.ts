@@ -0,0 +1,114 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { mergeAgentOutputs, mergeStructuredOutputs } from './merge.js';
+import type { AgentDefinition } from './types.js';
+
+const ReportSchema = z.object({
+  summary: z.string(),
+  files: z.array(z.string()),
+  count: z.number(),
+});
+
+const REPORTER: AgentDefinition<typeof ReportSchema> = {
+  name: 'reporter',
+  description: 'Reports.',
+  inputConfig: { inputs: {} },
+  modelConfig: { model: 'test', temp: 0, top_p: 1 },
+  runConfig: { max_time_minutes: 1 },
+  promptConfig: { systemPrompt: 'test' },
+  outputConfig: {
+    outputName: 'report',
+    description: 'The report.',
+    schema: ReportSchema,
+  },
+};
+
+describe('mergeStructuredOutputs', () => {
+  it('should merge objects key by key', () => {
+    expect(
+      mergeStructuredOutputs([
+        { summary: 'Core uses zod.', files: ['a.ts', 'b.ts'], count: 2 },
+        { summary: 'CLI uses ink.', files: ['b.ts', 'c.ts'], count: 3 },
+        { summary: 'Core uses zod.', extra: true },
+      ]),
+    ).toEqual({
+      summary: 'Core uses zod.\n\nCLI uses ink.',
+      files: ['a.ts', 'b.ts', 'c.ts'],
+      count: 2,
+      extra: true,
+    });
+  });
+
+  it('should dedupe array items structurally', () => {
+    expect(
+      mergeStructuredOutputs([
+        [{ path: 'a.ts', symbols: ['x'] }],
+        [
+          { path: 'a.ts', symbols: ['x'] },
+          { path: 'b.ts', symbols: [] },
+        ],
+      ]),
+    ).toEqual([
+      { path: 'a.ts', symbols: ['x'] },
+      { path: 'b.ts', symbols: [] },
+    ]);
+  });
+
+  it('should return undefined for no outputs', () => {
+    expect(mergeStructuredOutputs([])).toBeUndefined();
+  });
+});
+
+describe('mergeAgentOutputs', () => {
+  it('should merge structurally and validate the result', () => {
+    expect(
+      mergeAgentOutputs(REPORTER, [
+        { summary: 'a', files: ['a.ts'], count: 1 },
+        { summary: 'b', files: ['b.ts'], count: 1 },
+      ]),
+    ).toEqual({ summary: 'a\n\nb', files: ['a.ts', 'b.ts'], count: 1 });
+  });
+
+  it("should prefer the definition's own merge", () => {
+    const definition = {
+      ...REPORTER,
+      mergeOutputs: (outputs: Array<z.infer<typeof ReportSchema>>) => ({
+        summary: outputs.map((output) => output.summary).join(' | '),
+        files: outputs.flatMap((output) => output.files),
+        count: outputs.reduce((total, output) => total + output.count, 0),
+      }),
+    };
+
+    expect(
+      mergeAgentOutputs(definition, [
+        { summary: 'a', files: ['a.ts'], count: 1 },
+        { summary: 'b', files: ['a.ts'], count: 2 },
+      ]),
+    ).toEqual({ summary: 'a | b', files: ['a.ts', 'a.ts'], count: 3 });
+  });
+
+  it('should reject merged values that do not match the schema', () => {
+    const definition = {
+      ...REPORTER,
+      mergeOutputs: () => ({ summary: 'a' }) as z.infer<typeof ReportSchema>,
+    };
+
+    expect(() =>
+      mergeAgentOutputs(definition, [{ summary: 'a', files: [], count: 0 }]),
+    ).toThrow(
+      "Merged output does not match the output schema of 'reporter': files: Required; count: Required",
+    );
+  });
+
+  it('should reject agents without structured output', () => {
+    expect(() =>
+      mergeAgentOutputs({ ...REPORTER, outputConfig: undefined }, []),
+    ).toThrow("Agent 'reporter' has no structured output.");
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { isDeepStrictEqual } from 'node:util';
+import type { z } from 'zod';
+import type { AgentDefinition } from './types.js';
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function mergeValues(merged: unknown, next: unknown): unknown {
+  if (merged === undefined) {
+    return next;
+  }
+  if (next === undefined || isDeepStrictEqual(merged, next)) {
+    return merged;
+  }
+  if (Array.isArray(merged) && Array.isArray(next)) {
+    const seen = new Set(merged.map((item) => JSON.stringify(item)));
+    const items = [...merged];
+    for (const item of next) {
+      const key = JSON.stringify(item);
+      if (!seen.has(key)) {
+        seen.add(key);
+        items.push(item);
+      }
+    }
+    return items;
+  }
+  if (isPlainObject(merged) && isPlainObject(next)) {
+    const result: Record<string, unknown> = { ...merged };
+    for (const [key, value] of Object.entries(next)) {
+      result[key] = mergeValues(result[key], value);
+    }
+    return result;
+  }
+  if (typeof merged === 'string' && typeof next === 'string') {
+    return merged.split('\n\n').includes(next)
+      ? merged
+      : `${merged}\n\n${next}`;
+  }
+  // Differing numbers, booleans or mismatched types have no natural union.
+  return merged;
+}
+
+/**
+ * Combines several outputs of the same shape into one.
+ *
+ * Objects are merged key by key, arrays are concatenated without duplicate
+ * items and differing strings are joined with a blank line unless already
+ * included. For any other conflict the value from the earliest output is
+ * kept.
+ *
+ * @param outputs The outputs, in order of precedence.
+ */
+export function mergeStructuredOutputs(outputs: unknown[]): unknown {
+  return outputs.reduce<unknown>(mergeValues, undefined);
+}
+
+/**
+ * Merges the outputs of several runs of one agent into a single output that
+ * satisfies the agent's output schema.
+ *
+ * Uses the definition's `mergeOutputs` when it has one, and
+ * {@link mergeStructuredOutputs} otherwise.
+ *
+ * @throws An `Error` if the agent has no output schema or the merged value
+ * does not match it.
+ */
+export function mergeAgentOutputs<TOutput extends z.ZodTypeAny>(
+  definition: AgentDefinition<TOutput>,
+  outputs: Array<z.infer<TOutput>>,
+): z.infer<TOutput> {
+  const { outputConfig } = definition;
+  if (!outputConfig) {
+    throw new Error(`Agent '${definition.name}' has no structured output.`);
+  }
+
+  const merged = definition.mergeOutputs
+    ? definition.mergeOutputs(outputs)
+    : mergeStructuredOutputs(outputs);
+  const validationResult = outputConfig.schema.safeParse(merged);
+  if (!validationResult.success) {
+    throw new Error(
+      `Merged output does not match the output schema of '${definition.name}': ${validationResult.error.issues
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ')}`,
+    );
+  }
+  return validationResult.data;
+}
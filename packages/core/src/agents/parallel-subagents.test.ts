@@ -0,0 +1,320 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { z } from 'zod';
+import { ParallelSubagentsTool } from './parallel-subagents.js';
+import { AgentExecutor } from './executor.js';
+import { AgentRunBudget } from './budget.js';
+import {
+  AgentTerminateMode,
+  type AgentDefinition,
+  type AgentInputs,
+  type OutputObject,
+} from './types.js';
+import { makeFakeConfig } from '../test-utils/config.js';
+import { ToolErrorType } from '../tools/tool-error.js';
+import type { Config } from '../config/config.js';
+
+vi.mock('./executor.js');
+
+const MockAgentExecutor = vi.mocked(AgentExecutor);
+
+const FindingsSchema = z.object({ findings: z.array(z.string()) });
+
+const INVESTIGATOR: AgentDefinition<typeof FindingsSchema> = {
+  name: 'investigator',
+  description: 'Investigates.',
+  inputConfig: {
+    inputs: {
+      objective: { type: 'string', required: true, description: 'Goal.' },
+    },
+  },
+  modelConfig: { model: 'test', temp: 0, top_p: 1 },
+  runConfig: { max_time_minutes: 1 },
+  promptConfig: { systemPrompt: 'test' },
+  outputConfig: {
+    outputName: 'report',
+    description: 'The report.',
+    schema: FindingsSchema,
+  },
+  processOutput: (output) => output.findings.join(', '),
+};
+
+const HELPER: AgentDefinition = {
+  name: 'helper',
+  description: 'Helps.',
+  inputConfig: INVESTIGATOR.inputConfig,
+  modelConfig: INVESTIGATOR.modelConfig,
+  runConfig: INVESTIGATOR.runConfig,
+  promptConfig: INVESTIGATOR.promptConfig,
+};
+
+type RunHandler = (
+  definition: AgentDefinition,
+  inputs: AgentInputs,
+  onActivity: Parameters<typeof AgentExecutor.create>[2],
+  budget: AgentRunBudget | undefined,
+) => Promise<OutputObject>;
+
+describe('ParallelSubagentsTool', () => {
+  let config: Config;
+  let tool: ParallelSubagentsTool;
+  let runHandler: RunHandler;
+  const signal = new AbortController().signal;
+
+  const goal = (findings: string[]): OutputObject => ({
+    result: findings.join(', '),
+    terminate_reason: AgentTerminateMode.GOAL,
+    output: { findings },
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    config = makeFakeConfig({
+      parallelSubagentSettings: { maxConcurrency: 2, maxTotalTurns: 30 },
+    });
+    tool = new ParallelSubagentsTool(
+      [INVESTIGATOR as unknown as AgentDefinition, HELPER],
+      config,
+    );
+    runHandler = async (_definition, inputs) =>
+      goal([String(inputs['objective'])]);
+    MockAgentExecutor.create.mockImplementation(
+      async (definition, _config, onActivity, budget) =>
+        ({
+          run: (inputs: AgentInputs) =>
+            runHandler(
+              definition as unknown as AgentDefinition,
+              inputs,
+              onActivity,
+              budget,
+            ),
+        }) as unknown as AgentExecutor<z.ZodTypeAny>,
+    );
+  });
+
+  it('should only accept the given agents', () => {
+    expect(tool.schema.parametersJsonSchema).toMatchObject({
+      properties: {
+        tasks: {
+          items: {
+            properties: { agent: { enum: ['investigator', 'helper'] } },
+          },
+        },
+      },
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject unknown agents', () => {
+      expect(() =>
+        tool.build({ tasks: [{ agent: 'nope', inputs: {} }] }),
+      ).toThrow();
+      expect(
+        tool.validateToolParams({ tasks: [{ agent: 'nope', inputs: {} }] }),
+      ).toBe('params/tasks/0/agent must be equal to one of the allowed values');
+    });
+
+    it('should validate the inputs of each task', () => {
+      expect(
+        tool.validateToolParams({
+          tasks: [
+            { agent: 'investigator', inputs: { objective: 'a' } },
+            { agent: 'investigator', inputs: {} },
+          ],
+        }),
+      ).toMatch(/^Invalid inputs for 'investigator#2': /);
+    });
+
+    it('should reject duplicate labels', () => {
+      expect(
+        tool.validateToolParams({
+          tasks: [
+            { agent: 'investigator', inputs: { objective: 'a' }, label: 'x' },
+            { agent: 'helper', inputs: { objective: 'b' }, label: 'x' },
+          ],
+        }),
+      ).toBe("Duplicate task label 'x'.");
+    });
+  });
+
+  it('should describe the runs', () => {
+    const invocation = tool.build({
+      tasks: [
+        { agent: 'investigator', inputs: { objective: 'a' }, label: 'core' },
+        { agent: 'investigator', inputs: { objective: 'b' } },
+      ],
+    });
+    expect(invocation.getDescription()).toBe(
+      'Running 2 subagents in parallel: core, investigator#2',
+    );
+  });
+
+  it('should run every task with a shared budget and merge the outputs', async () => {
+    const budgets = new Set<AgentRunBudget | undefined>();
+    runHandler = async (_definition, inputs, _onActivity, budget) => {
+      budgets.add(budget);
+      budget?.tryStartTurn();
+      budget?.recordTokens(100);
+      return goal([String(inputs['objective']), 'shared']);
+    };
+
+    const result = await tool
+      .build({
+        tasks: [
+          { agent: 'investigator', inputs: { objective: 'core' }, label: 'a' },
+          { agent: 'investigator', inputs: { objective: 'cli' }, label: 'b' },
+        ],
+      })
+      .execute(signal);
+
+    expect(MockAgentExecutor.create).toHaveBeenCalledTimes(2);
+    expect(budgets.size).toBe(1);
+    const [budget] = budgets;
+    expect(budget).toBeInstanceOf(AgentRunBudget);
+    expect(budget?.maxTurns).toBe(30);
+
+    expect(result.error).toBeUndefined();
+    expect(result.llmContent).toEqual([
+      {
+        text: [
+          'Ran 2 subagents in parallel: 2 succeeded, 0 did not. Shared budget used: 2 turns, 200 tokens.',
+          '## a (investigator)\nTermination Reason: GOAL\nResult:\ncore, shared',
+          '## b (investigator)\nTermination Reason: GOAL\nResult:\ncli, shared',
+          '## Merged report\ncore, shared, cli',
+        ].join('\n\n'),
+      },
+    ]);
+    expect(result.returnDisplay).toContain(
+      '**Merged report**\n\ncore, shared, cli',
+    );
+  });
+
+  it('should not run more tasks at once than the concurrency limit', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    runHandler = async (_definition, inputs) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      return goal([String(inputs['objective'])]);
+    };
+
+    await tool
+      .build({
+        tasks: ['a', 'b', 'c', 'd', 'e'].map((objective) => ({
+          agent: 'investigator',
+          inputs: { objective },
+        })),
+      })
+      .execute(signal);
+
+    expect(MockAgentExecutor.create).toHaveBeenCalledTimes(5);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('should stream the progress of each subagent', async () => {
+    runHandler = async (_definition, inputs, onActivity) => {
+      onActivity?.({
+        isSubagentActivityEvent: true,
+        agentName: 'investigator',
+        type: 'TOOL_CALL_START',
+        data: { name: 'read_file', args: {} },
+      });
+      onActivity?.({
+        isSubagentActivityEvent: true,
+        agentName: 'investigator',
+        type: 'THOUGHT_CHUNK',
+        data: { text: 'Reading the config\nmore' },
+      });
+      return goal([String(inputs['objective'])]);
+    };
+    const updateOutput = vi.fn();
+
+    await tool
+      .build({
+        tasks: [
+          { agent: 'investigator', inputs: { objective: 'a' }, label: 'core' },
+        ],
+      })
+      .execute(signal, updateOutput);
+
+    const updates = updateOutput.mock.calls.map(([output]) => output);
+    expect(updates[0]).toBe(
+      'Subagents: 0/1 done · 0 turns · 0 tokens\n\n- ⏸ **core** (investigator)\n',
+    );
+    expect(updates).toContain(
+      'Subagents: 0/1 done · 0 turns · 0 tokens\n\n- ⏳ **core** (investigator) · 1 tool calls · 🤖💭 Reading the config\n',
+    );
+    expect(updates.at(-1)).toBe(
+      'Subagents: 1/1 done · 0 turns · 0 tokens\n\n- ✅ **core** (investigator) · 1 tool calls\n',
+    );
+  });
+
+  it('should merge only the outputs of the subagents that finished', async () => {
+    runHandler = async (_definition, inputs) =>
+      inputs['objective'] === 'b'
+        ? {
+            result: 'Out of budget.',
+            terminate_reason: AgentTerminateMode.BUDGET_EXHAUSTED,
+          }
+        : goal([String(inputs['objective'])]);
+
+    const result = await tool
+      .build({
+        tasks: ['a', 'b', 'c'].map((objective) => ({
+          agent: 'investigator',
+          inputs: { objective },
+        })),
+      })
+      .execute(signal);
+
+    const [{ text }] = result.llmContent as Array<{ text: string }>;
+    expect(text).toContain('1 did not');
+    expect(text).toContain('Termination Reason: BUDGET_EXHAUSTED');
+    expect(text).toContain(
+      'Merged 2 of 3 outputs; the other subagents did not finish.',
+    );
+    expect(text).toContain('## Merged report\na, c');
+  });
+
+  it('should not merge the outputs of different agents', async () => {
+    const result = await tool
+      .build({
+        tasks: [
+          { agent: 'investigator', inputs: { objective: 'a' } },
+          { agent: 'helper', inputs: { objective: 'b' } },
+        ],
+      })
+      .execute(signal);
+
+    const [{ text }] = result.llmContent as Array<{ text: string }>;
+    expect(text).toContain(
+      'Outputs were not merged: the tasks ran different agents.',
+    );
+    expect(text).not.toContain('## Merged report');
+  });
+
+  it('should report an error when every subagent fails', async () => {
+    runHandler = async () => {
+      throw new Error('Model unavailable');
+    };
+
+    const result = await tool
+      .build({
+        tasks: [{ agent: 'helper', inputs: { objective: 'a' } }],
+      })
+      .execute(signal);
+
+    expect(result.error).toEqual({
+      message: 'All 1 subagents failed.',
+      type: ToolErrorType.EXECUTION_FAILED,
+    });
+    expect(result.llmContent).toContain('Error: Model unavailable');
+  });
+});
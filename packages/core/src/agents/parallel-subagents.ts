@@ -0,0 +1,411 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Config } from '../config/config.js';
+import {
+  BaseDeclarativeTool,
+  BaseToolInvocation,
+  Kind,
+  type ToolInvocation,
+  type ToolResult,
+} from '../tools/tools.js';
+import { ToolErrorType } from '../tools/tool-error.js';
+import { PARALLEL_SUBAGENTS_TOOL_NAME } from '../tools/tool-names.js';
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import type { AnsiOutput } from '../utils/terminalSerializer.js';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import { AgentExecutor } from './executor.js';
+import { AgentRunBudget } from './budget.js';
+import { mergeAgentOutputs } from './merge.js';
+import { convertInputConfigToJsonSchema } from './schema-utils.js';
+import {
+  AgentTerminateMode,
+  type AgentDefinition,
+  type AgentInputs,
+  type OutputObject,
+  type SubagentActivityEvent,
+} from './types.js';
+
+const MAX_PARALLEL_TASKS = 16;
+const ACTIVITY_PREVIEW_MAX_LENGTH = 80;
+
+export interface ParallelSubagentTask {
+  agent: string;
+  inputs: AgentInputs;
+  label?: string;
+}
+
+export interface ParallelSubagentsParams {
+  tasks: ParallelSubagentTask[];
+}
+
+type TaskStatus = 'queued' | 'running' | 'done' | 'failed';
+
+interface TaskProgress {
+  label: string;
+  agent: string;
+  status: TaskStatus;
+  toolCalls: number;
+  lastActivity?: string;
+  output?: OutputObject;
+  error?: string;
+}
+
+const STATUS_ICONS: Record<TaskStatus, string> = {
+  queued: '⏸',
+  running: '⏳',
+  done: '✅',
+  failed: '❌',
+};
+
+/** Returns each task's label, defaulting to `<agent>#<position>`. */
+function getTaskLabels(tasks: ParallelSubagentTask[]): string[] {
+  return tasks.map((task, index) => task.label ?? `${task.agent}#${index + 1}`);
+}
+
+function preview(text: string): string {
+  const line = text.trim().split('\n')[0];
+  return line.length > ACTIVITY_PREVIEW_MAX_LENGTH
+    ? `${line.slice(0, ACTIVITY_PREVIEW_MAX_LENGTH)}...`
+    : line;
+}
+
+function formatOutput(definition: AgentDefinition, output: unknown): string {
+  if (definition.processOutput) {
+    return definition.processOutput(output);
+  }
+  return typeof output === 'string' ? output : JSON.stringify(output, null, 2);
+}
+
+/**
+ * Runs several subagents concurrently and combines their results.
+ *
+ * All runs draw on one {@link AgentRunBudget}, their activity is rendered as a
+ * live status block, and when they all run the same agent with a structured
+ * output, the validated outputs are merged into a single report.
+ */
+class ParallelSubagentsInvocation extends BaseToolInvocation<
+  ParallelSubagentsParams,
+  ToolResult
+> {
+  private readonly progress: TaskProgress[];
+
+  constructor(
+    params: ParallelSubagentsParams,
+    private readonly definitions: Map<string, AgentDefinition>,
+    private readonly config: Config,
+    messageBus?: MessageBus,
+  ) {
+    super(params, messageBus);
+    const labels = getTaskLabels(params.tasks);
+    this.progress = params.tasks.map((task, index) => ({
+      label: labels[index],
+      agent: task.agent,
+      status: 'queued',
+      toolCalls: 0,
+    }));
+  }
+
+  getDescription(): string {
+    return `Running ${this.params.tasks.length} subagents in parallel: ${this.progress
+      .map((task) => task.label)
+      .join(', ')}`;
+  }
+
+  async execute(
+    signal: AbortSignal,
+    updateOutput?: (output: string | AnsiOutput) => void,
+  ): Promise<ToolResult> {
+    const settings = this.config.getParallelSubagentSettings();
+    const budget = new AgentRunBudget(
+      settings.maxTotalTurns,
+      settings.maxTotalTokens,
+    );
+    const render = () => updateOutput?.(this.renderProgress(budget));
+    render();
+
+    let nextTask = 0;
+    const worker = async () => {
+      while (nextTask < this.params.tasks.length && !signal.aborted) {
+        await this.runTask(nextTask++, budget, signal, render);
+      }
+    };
+    const concurrency = Math.max(1, settings.maxConcurrency ?? 1);
+    await Promise.all(
+      Array.from(
+        { length: Math.min(concurrency, this.params.tasks.length) },
+        worker,
+      ),
+    );
+
+    return this.buildResult(budget);
+  }
+
+  private async runTask(
+    index: number,
+    budget: AgentRunBudget,
+    signal: AbortSignal,
+    render: () => void,
+  ): Promise<void> {
+    const task = this.params.tasks[index];
+    const progress = this.progress[index];
+    const definition = this.definitions.get(task.agent)!;
+
+    const onActivity = (activity: SubagentActivityEvent): void => {
+      if (activity.type === 'TOOL_CALL_START') {
+        progress.toolCalls++;
+        progress.lastActivity = `🛠️ ${String(activity.data['name'])}`;
+      } else if (
+        activity.type === 'THOUGHT_CHUNK' &&
+        typeof activity.data['text'] === 'string'
+      ) {
+        progress.lastActivity = `🤖💭 ${preview(activity.data['text'])}`;
+      } else if (activity.type === 'ERROR') {
+        progress.lastActivity = `⚠️ ${preview(String(activity.data['error']))}`;
+      } else {
+        return;
+      }
+      render();
+    };
+
+    progress.status = 'running';
+    render();
+    try {
+      const executor = await AgentExecutor.create(
+        definition,
+        this.config,
+        onActivity,
+        budget,
+      );
+      progress.output = await executor.run(task.inputs, signal);
+      progress.status =
+        progress.output.terminate_reason === AgentTerminateMode.GOAL
+          ? 'done'
+          : 'failed';
+    } catch (error) {
+      progress.status = 'failed';
+      progress.error = error instanceof Error ? error.message : String(error);
+    }
+    render();
+  }
+
+  private renderProgress(budget: AgentRunBudget): string {
+    const { turns, tokens } = budget.getUsage();
+    const done = this.progress.filter((task) => task.status === 'done').length;
+    const lines = [
+      `Subagents: ${done}/${this.progress.length} done · ${turns} turns · ${tokens} tokens`,
+      '',
+    ];
+    for (const task of this.progress) {
+      let line = `${STATUS_ICONS[task.status]} **${task.label}** (${task.agent})`;
+      if (task.status !== 'queued') {
+        line += ` · ${task.toolCalls} tool calls`;
+      }
+      if (task.output && task.status === 'failed') {
+        line += ` · ${task.output.terminate_reason}`;
+      } else if (task.error) {
+        line += ` · ${preview(task.error)}`;
+      } else if (task.status === 'running' && task.lastActivity) {
+        line += ` · ${task.lastActivity}`;
+      }
+      lines.push(`- ${line}`);
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Merges the structured outputs of the successful runs when every task ran
+   * the same agent and that agent defines an output schema.
+   */
+  private mergeResults(): { report?: string; note?: string } {
+    const agents = new Set(this.params.tasks.map((task) => task.agent));
+    if (agents.size !== 1) {
+      return {
+        note: 'Outputs were not merged: the tasks ran different agents.',
+      };
+    }
+    const definition = this.definitions.get([...agents][0])!;
+    if (!definition.outputConfig) {
+      return {
+        note: `Outputs were not merged: '${definition.name}' has no structured output.`,
+      };
+    }
+
+    const outputs = this.progress
+      .filter((task) => task.output?.output !== undefined)
+      .map((task) => task.output!.output);
+    if (outputs.length === 0) {
+      return { note: 'Outputs were not merged: no subagent submitted one.' };
+    }
+    try {
+      return {
+        report: formatOutput(
+          definition,
+          mergeAgentOutputs(definition, outputs),
+        ),
+        note:
+          outputs.length < this.progress.length
+            ? `Merged ${outputs.length} of ${this.progress.length} outputs; the other subagents did not finish.`
+            : undefined,
+      };
+    } catch (error) {
+      return {
+        note: `Outputs were not merged: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  private buildResult(budget: AgentRunBudget): ToolResult {
+    const { turns, tokens } = budget.getUsage();
+    const succeeded = this.progress.filter(
+      (task) => task.status === 'done',
+    ).length;
+    const summary =
+      `Ran ${this.progress.length} subagents in parallel: ${succeeded} succeeded, ` +
+      `${this.progress.length - succeeded} did not. Shared budget used: ${turns} turns, ${tokens} tokens.`;
+
+    const sections = this.progress.map((task) => {
+      const result = task.output
+        ? `Termination Reason: ${task.output.terminate_reason}\nResult:\n${task.output.result}`
+        : task.error
+          ? `Error: ${task.error}`
+          : 'Not started.';
+      return `## ${task.label} (${task.agent})\n${result}`;
+    });
+    const { report, note } = this.mergeResults();
+    if (note) {
+      sections.push(note);
+    }
+    if (report !== undefined) {
+      sections.push(`## Merged report\n${report}`);
+    }
+
+    const llmContent = [summary, ...sections].join('\n\n');
+    const returnDisplay = [
+      this.renderProgress(budget),
+      ...(note ? [note] : []),
+      ...(report !== undefined ? [`**Merged report**\n\n${report}`] : []),
+    ].join('\n');
+
+    if (this.progress.every((task) => task.error !== undefined)) {
+      return {
+        llmContent,
+        returnDisplay,
+        error: {
+          message: `All ${this.progress.length} subagents failed.`,
+          type: ToolErrorType.EXECUTION_FAILED,
+        },
+      };
+    }
+    return { llmContent: [{ text: llmContent }], returnDisplay };
+  }
+}
+
+/**
+ * A tool that lets the main agent fan out to several subagents at once, e.g.
+ * one codebase investigator per package of a monorepo.
+ */
+export class ParallelSubagentsTool extends BaseDeclarativeTool<
+  ParallelSubagentsParams,
+  ToolResult
+> {
+  static readonly Name = PARALLEL_SUBAGENTS_TOOL_NAME;
+
+  private readonly definitions: Map<string, AgentDefinition>;
+
+  /**
+   * @param definitions The subagents that may be run.
+   * @param config The runtime configuration, passed down to the subagents.
+   * @param messageBus Optional message bus for policy enforcement.
+   */
+  constructor(
+    definitions: AgentDefinition[],
+    private readonly config: Config,
+    messageBus?: MessageBus,
+  ) {
+    super(
+      ParallelSubagentsTool.Name,
+      'Parallel Subagents',
+      `Runs several subagents concurrently and returns all of their results. Use it instead of calling subagents one after another when a task splits into independent parts, for example investigating each package of a monorepo separately. The subagents share one turn and token budget. When every task runs the same agent, their structured outputs are also merged into one report.`,
+      Kind.Think,
+      {
+        type: 'object',
+        properties: {
+          tasks: {
+            type: 'array',
+            description: `The subagent runs, at most ${MAX_PARALLEL_TASKS}.`,
+            minItems: 1,
+            maxItems: MAX_PARALLEL_TASKS,
+            items: {
+              type: 'object',
+              properties: {
+                agent: {
+                  type: 'string',
+                  description: 'The name of the subagent to run.',
+                  enum: definitions.map((definition) => definition.name),
+                },
+                inputs: {
+                  type: 'object',
+                  description:
+                    'The inputs for the subagent, as it would take them when called on its own.',
+                },
+                label: {
+                  type: 'string',
+                  description:
+                    'A short unique label for this run, e.g. the package it covers.',
+                },
+              },
+              required: ['agent', 'inputs'],
+            },
+          },
+        },
+        required: ['tasks'],
+      },
+      /* isOutputMarkdown */ true,
+      /* canUpdateOutput */ true,
+      messageBus,
+    );
+    this.definitions = new Map(
+      definitions.map((definition) => [definition.name, definition]),
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: ParallelSubagentsParams,
+  ): string | null {
+    const labels = getTaskLabels(params.tasks);
+    const seen = new Set<string>();
+    for (const [index, task] of params.tasks.entries()) {
+      const definition = this.definitions.get(task.agent);
+      if (!definition) {
+        return `Unknown subagent '${task.agent}'.`;
+      }
+      const error = SchemaValidator.validate(
+        convertInputConfigToJsonSchema(definition.inputConfig),
+        task.inputs,
+      );
+      if (error) {
+        return `Invalid inputs for '${labels[index]}': ${error}`;
+      }
+      if (seen.has(labels[index])) {
+        return `Duplicate task label '${labels[index]}'.`;
+      }
+      seen.add(labels[index]);
+    }
+    return null;
+  }
+
+  protected createInvocation(
+    params: ParallelSubagentsParams,
+  ): ToolInvocation<ParallelSubagentsParams, ToolResult> {
+    return new ParallelSubagentsInvocation(
+      params,
+      this.definitions,
+      this.config,
+      this.messageBus,
+    );
+  }
+}
@@ -4,9 +4,14 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { AgentRegistry } from './registry.js';
 import { makeFakeConfig } from '../test-utils/config.js';
+import { Storage } from '../config/storage.js';
+import { coreEvents } from '../utils/events.js';
 import type { AgentDefinition } from './types.js';
 import type { Config } from '../config/config.js';
 
@@ -73,6 +78,89 @@ describe('AgentRegistry', () => {
     });
   });
 
+  describe('agent definition files', () => {
+    let tempDir: string;
+    let userAgentsDir: string;
+    let projectDir: string;
+
+    const writeAgent = (dir: string, name: string, description: string) => {
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(
+        path.join(dir, `${name}.toml`),
+        `name = "${name}"\ndescription = "${description}"`,
+      );
+    };
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-registry-'));
+      userAgentsDir = path.join(tempDir, 'home', '.gemini', 'agents');
+      projectDir = path.join(tempDir, 'project');
+      fs.mkdirSync(projectDir);
+      vi.spyOn(Storage, 'getUserAgentsDir').mockReturnValue(userAgentsDir);
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should load user and project agents, letting the project win', async () => {
+      writeAgent(userAgentsDir, 'reviewer', 'User reviewer');
+      writeAgent(userAgentsDir, 'planner', 'User planner');
+      writeAgent(
+        path.join(projectDir, '.gemini', 'agents'),
+        'reviewer',
+        'Project reviewer',
+      );
+      const fileRegistry = new AgentRegistry(
+        makeFakeConfig({ targetDir: projectDir, cwd: projectDir }),
+      );
+
+      await fileRegistry.initialize();
+
+      expect(fileRegistry.getDefinition('reviewer')?.description).toBe(
+        'Project reviewer',
+      );
+      expect(fileRegistry.getSource('reviewer')).toEqual({
+        origin: 'project',
+        filePath: path.join(projectDir, '.gemini', 'agents', 'reviewer.toml'),
+        extensionName: undefined,
+      });
+      expect(fileRegistry.getSource('planner')?.origin).toBe('user');
+    });
+
+    it('should skip project agents in untrusted folders', async () => {
+      writeAgent(
+        path.join(projectDir, '.gemini', 'agents'),
+        'reviewer',
+        'Project reviewer',
+      );
+      const fileRegistry = new AgentRegistry(
+        makeFakeConfig({
+          targetDir: projectDir,
+          cwd: projectDir,
+          trustedFolder: false,
+        }),
+      );
+
+      await fileRegistry.initialize();
+
+      expect(fileRegistry.getDefinition('reviewer')).toBeUndefined();
+    });
+
+    it('should report invalid agent files', async () => {
+      fs.mkdirSync(userAgentsDir, { recursive: true });
+      fs.writeFileSync(path.join(userAgentsDir, 'broken.toml'), 'name = ');
+      const emitFeedback = vi.spyOn(coreEvents, 'emitFeedback');
+
+      await registry.initialize();
+
+      expect(emitFeedback).toHaveBeenCalledWith(
+        'error',
+        expect.stringContaining('[USER] Agent definition error in'),
+      );
+    });
+  });
+
   describe('registration logic', () => {
     it('should register a valid agent definition', () => {
       registry.testRegisterAgent(MOCK_AGENT_V1);
@@ -190,6 +278,11 @@ describe('AgentRegistry', () => {
       expect(registry.getDefinition('AnotherAgent')).toEqual(ANOTHER_AGENT);
     });
 
+    it('getSource should default to built-in', () => {
+      expect(registry.getSource('MockAgent')).toEqual({ origin: 'built-in' });
+      expect(registry.getSource('NonExistentAgent')).toBeUndefined();
+    });
+
     it('getDefinition should return undefined for unknown agents', () => {
       expect(registry.getDefinition('NonExistentAgent')).toBeUndefined();
     });
@@ -7,8 +7,27 @@
 import type { Config } from '../config/config.js';
 import type { AgentDefinition } from './types.js';
 import { CodebaseInvestigatorAgent } from './codebase-investigator.js';
+import {
+  formatAgentFileError,
+  getAgentDefinitionSources,
+  loadAgentDefinitions,
+  type AgentDefinitionOrigin,
+} from './agent-loader.js';
+import { Storage } from '../config/storage.js';
 import { type z } from 'zod';
 import { debugLogger } from '../utils/debugLogger.js';
+import { coreEvents } from '../utils/events.js';
+
+/**
+ * Where a registered agent was defined.
+ */
+export interface AgentSourceInfo {
+  origin: AgentDefinitionOrigin;
+  /** The definition file; unset for built-in agents. */
+  filePath?: string;
+  /** Set when `origin` is `extension`. */
+  extensionName?: string;
+}
 
 /**
  * Manages the discovery, loading, validation, and registration of
@@ -17,6 +36,7 @@ import { debugLogger } from '../utils/debugLogger.js';
 export class AgentRegistry {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private readonly agents = new Map<string, AgentDefinition<any>>();
+  private readonly sources = new Map<string, AgentSourceInfo>();
 
   constructor(private readonly config: Config) {}
 
@@ -25,6 +45,7 @@ export class AgentRegistry {
    */
   async initialize(): Promise<void> {
     this.loadBuiltInAgents();
+    await this.loadAgentFiles();
 
     if (this.config.getDebugMode()) {
       debugLogger.log(
@@ -63,6 +84,28 @@ export class AgentRegistry {
     }
   }
 
+  /**
+   * Loads the agents defined in `agents/` directories of extensions, the user
+   * and the project, in that order of precedence. Project agents are only
+   * loaded in trusted folders.
+   */
+  private async loadAgentFiles(): Promise<void> {
+    const sources = getAgentDefinitionSources({
+      userAgentsDir: Storage.getUserAgentsDir(),
+      projectAgentsDir: this.config.isTrustedFolder()
+        ? this.config.storage.getProjectAgentsDir()
+        : undefined,
+      extensions: this.config.getExtensions(),
+    });
+    const { agents, errors } = await loadAgentDefinitions(sources);
+    for (const error of errors) {
+      coreEvents.emitFeedback('error', formatAgentFileError(error));
+    }
+    for (const { definition, filePath, origin, extensionName } of agents) {
+      this.registerAgent(definition, { origin, filePath, extensionName });
+    }
+  }
+
   /**
    * Registers an agent definition. If an agent with the same name exists,
    * it will be overwritten, respecting the precedence established by the
@@ -70,6 +113,7 @@ export class AgentRegistry {
    */
   protected registerAgent<TOutput extends z.ZodTypeAny>(
     definition: AgentDefinition<TOutput>,
+    source: AgentSourceInfo = { origin: 'built-in' },
   ): void {
     // Basic validation
     if (!definition.name || !definition.description) {
@@ -84,6 +128,7 @@ export class AgentRegistry {
     }
 
     this.agents.set(definition.name, definition);
+    this.sources.set(definition.name, source);
   }
 
   /**
@@ -93,6 +138,13 @@ export class AgentRegistry {
     return this.agents.get(name);
   }
 
+  /**
+   * Retrieves where an agent was defined.
+   */
+  getSource(name: string): AgentSourceInfo | undefined {
+    return this.sources.get(name);
+  }
+
   /**
    * Returns all active agent definitions.
    */
@@ -5,7 +5,11 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { convertInputConfigToJsonSchema } from './schema-utils.js';
+import {
+  convertInputConfigToJsonSchema,
+  convertJsonSchemaToZod,
+  type OutputJsonSchema,
+} from './schema-utils.js';
 import type { InputConfig } from './types.js';
 
 const PRIMITIVE_TYPES_CONFIG: InputConfig = {
@@ -163,3 +167,67 @@ describe('convertInputConfigToJsonSchema', () => {
     });
   });
 });
+
+describe('convertJsonSchemaToZod', () => {
+  const REPORT_SCHEMA: OutputJsonSchema = {
+    type: 'object',
+    description: 'A review report',
+    properties: {
+      verdict: { type: 'string', enum: ['approve', 'reject'] },
+      score: { type: 'integer' },
+      comments: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { line: { type: 'number' }, text: { type: 'string' } },
+          required: ['text'],
+        },
+      },
+      blocking: { type: 'boolean' },
+    },
+    required: ['verdict', 'comments'],
+  };
+
+  it('should accept values matching the schema', () => {
+    const schema = convertJsonSchemaToZod(REPORT_SCHEMA);
+
+    expect(schema.description).toBe('A review report');
+    expect(
+      schema.safeParse({
+        verdict: 'approve',
+        score: 3,
+        comments: [{ text: 'Nice' }, { line: 4, text: 'Typo' }],
+      }).success,
+    ).toBe(true);
+  });
+
+  it('should reject values that do not match the schema', () => {
+    const schema = convertJsonSchemaToZod(REPORT_SCHEMA);
+
+    expect(schema.safeParse({ verdict: 'maybe', comments: [] }).success).toBe(
+      false,
+    );
+    expect(schema.safeParse({ verdict: 'approve' }).success).toBe(false);
+    expect(
+      schema.safeParse({ verdict: 'approve', comments: [], score: 1.5 })
+        .success,
+    ).toBe(false);
+    expect(
+      schema.safeParse({ verdict: 'approve', comments: [{ line: 1 }] }).success,
+    ).toBe(false);
+  });
+
+  it('should report the location of invalid schemas', () => {
+    expect(() =>
+      convertJsonSchemaToZod(
+        { type: 'object', properties: { files: { type: 'array' } } },
+        'output.schema',
+      ),
+    ).toThrow('output.schema.properties.files: arrays must declare "items".');
+    expect(() =>
+      convertJsonSchemaToZod({ type: 'object', required: ['missing'] }),
+    ).toThrow(
+      'schema: required property \'missing\' is not defined in "properties".',
+    );
+  });
+});
@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { z } from 'zod';
 import type { InputConfig } from './types.js';
 
 /**
@@ -88,3 +89,89 @@ export function convertInputConfigToJsonSchema(
     required: required.length > 0 ? required : undefined,
   };
 }
+
+/**
+ * The subset of JSON Schema accepted for the output of agents defined in
+ * files. Each node maps onto a Zod schema so the executor can both describe
+ * the output to the model and validate what the model submits.
+ */
+export interface OutputJsonSchema {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  description?: string;
+  enum?: string[];
+  items?: OutputJsonSchema;
+  properties?: Record<string, OutputJsonSchema>;
+  required?: string[];
+}
+
+/**
+ * Converts an {@link OutputJsonSchema} into the equivalent Zod schema.
+ *
+ * @param schema The JSON Schema to convert.
+ * @param location The path of `schema` in its document, used in errors.
+ * @returns A Zod schema accepting the same values.
+ * @throws An `Error` naming the offending location if the schema uses an
+ * unsupported construct.
+ */
+export function convertJsonSchemaToZod(
+  schema: OutputJsonSchema,
+  location = 'schema',
+): z.ZodTypeAny {
+  let result: z.ZodTypeAny;
+  switch (schema.type) {
+    case 'string':
+      result =
+        schema.enum && schema.enum.length > 0
+          ? z.enum(schema.enum as [string, ...string[]])
+          : z.string();
+      break;
+    case 'number':
+      result = z.number();
+      break;
+    case 'integer':
+      result = z.number().int();
+      break;
+    case 'boolean':
+      result = z.boolean();
+      break;
+    case 'array':
+      if (!schema.items) {
+        throw new Error(`${location}: arrays must declare "items".`);
+      }
+      result = z.array(
+        convertJsonSchemaToZod(schema.items, `${location}.items`),
+      );
+      break;
+    case 'object': {
+      const properties = schema.properties ?? {};
+      const required = new Set(schema.required ?? []);
+      for (const name of required) {
+        if (!(name in properties)) {
+          throw new Error(
+            `${location}: required property '${name}' is not defined in "properties".`,
+          );
+        }
+      }
+      const shape: Record<string, z.ZodTypeAny> = {};
+      for (const [name, property] of Object.entries(properties)) {
+        const propertySchema = convertJsonSchemaToZod(
+          property,
+          `${location}.properties.${name}`,
+        );
+        shape[name] = required.has(name)
+          ? propertySchema
+          : propertySchema.optional();
+      }
+      result = z.object(shape);
+      break;
+    }
+    default: {
+      const exhaustiveCheck: never = schema.type;
+      throw new Error(
+        `${location}: unsupported type '${exhaustiveCheck}'. ` +
+          'Supported types: string, number, integer, boolean, array, object',
+      );
+    }
+  }
+  return schema.description ? result.describe(schema.description) : result;
+}
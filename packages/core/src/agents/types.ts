@@ -22,6 +22,7 @@ export enum AgentTerminateMode {
   MAX_TURNS = 'MAX_TURNS',
   ABORTED = 'ABORTED',
   ERROR_NO_COMPLETE_TASK_CALL = 'ERROR_NO_COMPLETE_TASK_CALL',
+  BUDGET_EXHAUSTED = 'BUDGET_EXHAUSTED',
 }
 
 /**
@@ -30,6 +31,11 @@ export enum AgentTerminateMode {
 export interface OutputObject {
   result: string;
   terminate_reason: AgentTerminateMode;
+  /**
+   * The validated value submitted through `complete_task`, set when the agent
+   * reached its goal and defines an `outputConfig`.
+   */
+  output?: unknown;
 }
 
 /**
@@ -71,6 +77,14 @@ export interface AgentDefinition<TOutput extends z.ZodTypeAny = z.ZodUnknown> {
    * @returns A string representation of the final output.
    */
   processOutput?: (output: z.infer<TOutput>) => string;
+  /**
+   * An optional function to combine the outputs of several parallel runs of
+   * this agent into one. When omitted, outputs are merged structurally.
+   *
+   * @param outputs The validated outputs, in the order the runs were requested.
+   * @returns The combined output, validated again against the output schema.
+   */
+  mergeOutputs?: (outputs: Array<z.infer<TOutput>>) => z.infer<TOutput>;
 }
 
 /**
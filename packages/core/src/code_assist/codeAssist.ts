@@ -12,6 +12,7 @@ import type { HttpOptions } from './server.js';
 import { CodeAssistServer } from './server.js';
 import type { Config } from '../config/config.js';
 import { LoggingContentGenerator } from '../core/loggingContentGenerator.js';
+import { RedactingContentGenerator } from '../core/redactingContentGenerator.js';
 
 export async function createCodeAssistContentGenerator(
   httpOptions: HttpOptions,
@@ -42,7 +43,10 @@ export function getCodeAssistServer(
 ): CodeAssistServer | undefined {
   let server = config.getContentGenerator();
 
-  // Unwrap LoggingContentGenerator if present
+  // Unwrap RedactingContentGenerator and LoggingContentGenerator if present
+  if (server instanceof RedactingContentGenerator) {
+    server = server.getWrapped();
+  }
   if (server instanceof LoggingContentGenerator) {
     server = server.getWrapped();
   }
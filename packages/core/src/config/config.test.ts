@@ -140,6 +140,14 @@ vi.mock('../agents/subagent-tool-wrapper.js', () => ({
   SubagentToolWrapper: vi.fn(),
 }));
 
+vi.mock('../agents/parallel-subagents.js', () => {
+  const ParallelSubagentsToolMock = vi.fn();
+  Object.assign(ParallelSubagentsToolMock, {
+    Name: 'run_subagents_in_parallel',
+  });
+  return { ParallelSubagentsTool: ParallelSubagentsToolMock };
+});
+
 const mockCoreEvents = vi.hoisted(() => ({
   emitFeedback: vi.fn(),
   emitModelChanged: vi.fn(),
@@ -762,7 +770,7 @@ describe('Server Config (config.ts)', () => {
       expect(wasReadFileToolRegistered).toBe(false);
     });
 
-    it('should register subagents as tools when codebaseInvestigatorSettings.enabled is true', async () => {
+    it('should register every registered subagent as a tool', async () => {
       const params: ConfigParameters = {
         ...baseParams,
         codebaseInvestigatorSettings: { enabled: true },
@@ -780,9 +788,9 @@ describe('Server Config (config.ts)', () => {
           AgentRegistry: Mock;
         }
       ).AgentRegistry;
-      AgentRegistryMock.prototype.getDefinition.mockReturnValue(
+      AgentRegistryMock.prototype.getAllDefinitions.mockReturnValueOnce([
         mockAgentDefinition,
-      );
+      ]);
 
       const SubagentToolWrapperMock = (
         (await vi.importMock('../agents/subagent-tool-wrapper.js')) as {
@@ -812,6 +820,60 @@ describe('Server Config (config.ts)', () => {
       expect(registeredWrappers).toHaveLength(1);
     });
 
+    it('should register the parallel subagents tool with the enabled subagents', async () => {
+      const config = new Config({
+        ...baseParams,
+        excludeTools: ['test_writer'],
+      });
+      const investigator = { name: 'codebase_investigator' };
+      const AgentRegistryMock = (
+        (await vi.importMock('../agents/registry.js')) as {
+          AgentRegistry: Mock;
+        }
+      ).AgentRegistry;
+      AgentRegistryMock.prototype.getAllDefinitions.mockReturnValueOnce([
+        investigator,
+        { name: 'test_writer' },
+      ]);
+      const ParallelSubagentsToolMock = (
+        (await vi.importMock('../agents/parallel-subagents.js')) as {
+          ParallelSubagentsTool: Mock;
+        }
+      ).ParallelSubagentsTool;
+
+      await config.initialize();
+
+      expect(ParallelSubagentsToolMock).toHaveBeenCalledExactlyOnceWith(
+        [investigator],
+        config,
+        undefined,
+      );
+    });
+
+    it('should not register the parallel subagents tool when disabled', async () => {
+      const config = new Config({
+        ...baseParams,
+        parallelSubagentSettings: { enabled: false },
+      });
+      const AgentRegistryMock = (
+        (await vi.importMock('../agents/registry.js')) as {
+          AgentRegistry: Mock;
+        }
+      ).AgentRegistry;
+      AgentRegistryMock.prototype.getAllDefinitions.mockReturnValueOnce([
+        { name: 'codebase_investigator' },
+      ]);
+      const ParallelSubagentsToolMock = (
+        (await vi.importMock('../agents/parallel-subagents.js')) as {
+          ParallelSubagentsTool: Mock;
+        }
+      ).ParallelSubagentsTool;
+
+      await config.initialize();
+
+      expect(ParallelSubagentsToolMock).not.toHaveBeenCalled();
+    });
+
     it('should not register subagents as tools when codebaseInvestigatorSettings.enabled is false', async () => {
       const params: ConfigParameters = {
         ...baseParams,
@@ -16,6 +16,7 @@ import {
   createContentGeneratorConfig,
 } from '../core/contentGenerator.js';
 import { PromptRegistry } from '../prompts/prompt-registry.js';
+import { ResourceRegistry } from '../resources/resource-registry.js';
 import { ToolRegistry } from '../tools/tool-registry.js';
 import { LSTool } from '../tools/ls.js';
 import { ReadFileTool } from '../tools/read-file.js';
@@ -28,11 +29,13 @@ import { ShellTool } from '../tools/shell.js';
 import { WriteFileTool } from '../tools/write-file.js';
 import { WebFetchTool } from '../tools/web-fetch.js';
 import { ReadManyFilesTool } from '../tools/read-many-files.js';
+import { ReadMcpResourceTool } from '../tools/read-mcp-resource.js';
 import { MemoryTool, setGeminiMdFilename } from '../tools/memoryTool.js';
 import { WebSearchTool } from '../tools/web-search.js';
 import { GeminiClient } from '../core/client.js';
 import { BaseLlmClient } from '../core/baseLlmClient.js';
 import type { HookDefinition, HookEventName } from '../hooks/types.js';
+import { HookSystem } from '../hooks/hookSystem.js';
 import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
 import { GitService } from '../services/gitService.js';
 import type { TelemetryTarget } from '../telemetry/index.js';
@@ -60,11 +63,24 @@ import { StandardFileSystemService } from '../services/fileSystemService.js';
 import { logRipgrepFallback } from '../telemetry/loggers.js';
 import { RipgrepFallbackEvent } from '../telemetry/types.js';
 import type { FallbackModelHandler } from '../fallback/types.js';
+import {
+  McpSamplingService,
+  type McpSamplingApprovalHandler,
+} from '../mcp/sampling.js';
+import type { McpElicitationHandler } from '../mcp/elicitation.js';
 import { ModelRouterService } from '../routing/modelRouterService.js';
 import { OutputFormat } from '../output/types.js';
 import type { ModelConfigServiceConfig } from '../services/modelConfigService.js';
 import { ModelConfigService } from '../services/modelConfigService.js';
 import { DEFAULT_MODEL_CONFIGS } from './defaultModelConfigs.js';
+import type { ModelPricingConfig } from '../services/modelPricingService.js';
+import { ModelPricingService } from '../services/modelPricingService.js';
+import type { BudgetSettings } from '../services/budgetService.js';
+import type { OpenAICompatibleSettings } from '../core/openaiCompatibleContentGenerator.js';
+import { BudgetService } from '../services/budgetService.js';
+import { CostLedgerService } from '../services/costLedgerService.js';
+import { PromptProfileService } from '../services/promptProfileService.js';
+import { DEFAULT_MODEL_PRICING } from './defaultModelPricing.js';
 
 // Re-export OAuth config type
 export type { MCPOAuthConfig, AnyToolInvocation };
@@ -83,8 +99,17 @@ import type { Experiments } from '../code_assist/experiments/experiments.js';
 import { AgentRegistry } from '../agents/registry.js';
 import { setGlobalProxy } from '../utils/fetch.js';
 import { SubagentToolWrapper } from '../agents/subagent-tool-wrapper.js';
+import { ParallelSubagentsTool } from '../agents/parallel-subagents.js';
 import { getExperiments } from '../code_assist/experiments/experiments.js';
 import { debugLogger } from '../utils/debugLogger.js';
+import { SecretVault } from '../pii/secretVault.js';
+import type { RedactionRule } from '../pii/gitleaksFilters.js';
+import { customRules } from '../pii/gitleaksFilters.js';
+import {
+  formatRedactionFileError,
+  getRedactionRuleSources,
+  loadRedactionRulesFromToml,
+} from '../pii/toml-loader.js';
 
 import { ApprovalMode } from '../policy/types.js';
 
@@ -123,6 +148,15 @@ export interface CodebaseInvestigatorSettings {
   model?: string;
 }
 
+export interface ParallelSubagentSettings {
+  enabled?: boolean;
+  maxConcurrency?: number;
+  /** Turns all subagents of one fan-out may take together. */
+  maxTotalTurns?: number;
+  /** Tokens all subagents of one fan-out may use together. */
+  maxTotalTokens?: number;
+}
+
 /**
  * All information required in CLI to handle an extension. Defined in Core so
  * that the collection of loaded, active, and inactive extensions can be passed
@@ -202,6 +236,9 @@ export class MCPServerConfig {
     readonly targetAudience?: string,
     /* targetServiceAccount format: <service-account-name>@<project-num>.iam.gserviceaccount.com */
     readonly targetServiceAccount?: string,
+    // Sampling
+    /* Tokens the server may use through sampling requests per session */
+    readonly samplingTokenLimit?: number,
   ) {}
 }
 
@@ -288,6 +325,7 @@ export interface ConfigParameters {
   enableMessageBusIntegration?: boolean;
   disableModelRouterForAuth?: AuthType[];
   codebaseInvestigatorSettings?: CodebaseInvestigatorSettings;
+  parallelSubagentSettings?: ParallelSubagentSettings;
   continueOnFailedApiCall?: boolean;
   retryFetchErrors?: boolean;
   enableShellOutputEfficiency?: boolean;
@@ -296,6 +334,10 @@ export interface ConfigParameters {
   ptyInfo?: string;
   disableYoloMode?: boolean;
   modelConfigServiceConfig?: ModelConfigServiceConfig;
+  modelPricing?: ModelPricingConfig;
+  budget?: BudgetSettings;
+  openaiCompatible?: OpenAICompatibleSettings;
+  promptProfile?: string;
   enableHooks?: boolean;
   experiments?: Experiments;
   hooks?: {
@@ -309,12 +351,18 @@ export class Config {
   private allowedMcpServers: string[];
   private blockedMcpServers: string[];
   private promptRegistry!: PromptRegistry;
+  private resourceRegistry!: ResourceRegistry;
   private agentRegistry!: AgentRegistry;
+  private hookSystem?: HookSystem;
   private readonly sessionId: string;
   private fileSystemService: FileSystemService;
   private contentGeneratorConfig!: ContentGeneratorConfig;
   private contentGenerator!: ContentGenerator;
   readonly modelConfigService: ModelConfigService;
+  readonly modelPricingService: ModelPricingService;
+  readonly budgetService: BudgetService;
+  readonly costLedgerService: CostLedgerService;
+  readonly promptProfileService: PromptProfileService;
   private readonly embeddingModel: string;
   private readonly sandbox: SandboxConfig | undefined;
   private readonly targetDir: string;
@@ -364,6 +412,9 @@ export class Config {
   private readonly _enabledExtensions: string[];
   private readonly enableExtensionReloading: boolean;
   fallbackModelHandler?: FallbackModelHandler;
+  private mcpSamplingService?: McpSamplingService;
+  private mcpSamplingApprovalHandler?: McpSamplingApprovalHandler;
+  private mcpElicitationHandler?: McpElicitationHandler;
   private quotaErrorOccurred: boolean = false;
   private readonly summarizeToolOutput:
     | Record<string, SummarizeToolOutputSettings>
@@ -389,6 +440,8 @@ export class Config {
   private readonly eventEmitter?: EventEmitter;
   private readonly useSmartEdit: boolean;
   private anonymizationEnabled: boolean;
+  private readonly secretVault = new SecretVault();
+  private redactionRules: RedactionRule[] = customRules;
   private readonly useWriteTodos: boolean;
   private readonly messageBus: MessageBus;
   private readonly policyEngine: PolicyEngine;
@@ -398,11 +451,13 @@ export class Config {
   private readonly disableModelRouterForAuth?: AuthType[];
   private readonly enableMessageBusIntegration: boolean;
   private readonly codebaseInvestigatorSettings: CodebaseInvestigatorSettings;
+  private readonly parallelSubagentSettings: ParallelSubagentSettings;
   private readonly continueOnFailedApiCall: boolean;
   private readonly retryFetchErrors: boolean;
   private readonly enableShellOutputEfficiency: boolean;
   readonly fakeResponses?: string;
   readonly recordResponses?: string;
+  private readonly openaiCompatible: OpenAICompatibleSettings;
   private readonly disableYoloMode: boolean;
   private readonly enableHooks: boolean;
   private readonly hooks:
@@ -525,6 +580,12 @@ export class Config {
         DEFAULT_THINKING_MODE,
       model: params.codebaseInvestigatorSettings?.model ?? DEFAULT_GEMINI_MODEL,
     };
+    this.parallelSubagentSettings = {
+      enabled: params.parallelSubagentSettings?.enabled ?? true,
+      maxConcurrency: params.parallelSubagentSettings?.maxConcurrency ?? 4,
+      maxTotalTurns: params.parallelSubagentSettings?.maxTotalTurns,
+      maxTotalTokens: params.parallelSubagentSettings?.maxTotalTokens,
+    };
     this.continueOnFailedApiCall = params.continueOnFailedApiCall ?? true;
     this.enableShellOutputEfficiency =
       params.enableShellOutputEfficiency ?? true;
@@ -533,10 +594,14 @@ export class Config {
     this.storage = new Storage(this.targetDir);
     this.fakeResponses = params.fakeResponses;
     this.recordResponses = params.recordResponses;
+    this.openaiCompatible = params.openaiCompatible ?? {};
     this.enablePromptCompletion = params.enablePromptCompletion ?? false;
     this.fileExclusions = new FileExclusions(this);
     this.eventEmitter = params.eventEmitter;
-    this.policyEngine = new PolicyEngine(params.policyEngineConfig);
+    this.policyEngine = new PolicyEngine({
+      ...params.policyEngineConfig,
+      getWorkspaceRoots: () => this.workspaceContext.getDirectories(),
+    });
     this.messageBus = new MessageBus(this.policyEngine, this.debugMode);
     this.outputSettings = {
       format: params.output?.format ?? OutputFormat.TEXT,
@@ -587,6 +652,25 @@ export class Config {
     this.modelConfigService = new ModelConfigService(
       modelConfigServiceConfig ?? DEFAULT_MODEL_CONFIGS,
     );
+
+    // User pricing entries replace the built-in entry for the same model.
+    this.modelPricingService = new ModelPricingService({
+      ...DEFAULT_MODEL_PRICING,
+      ...params.modelPricing,
+    });
+    this.budgetService = new BudgetService(
+      this.storage,
+      this.sessionId,
+      params.budget,
+    );
+    this.costLedgerService = new CostLedgerService(
+      this.storage,
+      this.sessionId,
+    );
+    this.promptProfileService = new PromptProfileService(
+      () => this.getExtensions(),
+      params.promptProfile,
+    );
   }
 
   /**
@@ -604,6 +688,7 @@ export class Config {
       await this.getGitService();
     }
     this.promptRegistry = new PromptRegistry();
+    this.resourceRegistry = new ResourceRegistry();
 
     this.agentRegistry = new AgentRegistry(this);
     await this.agentRegistry.initialize();
@@ -618,6 +703,12 @@ export class Config {
       await this.mcpClientManager.startConfiguredMcpServers(),
       await this.getExtensionLoader().start(this),
     ]);
+    await this.reloadRedactionRules();
+
+    if (this.enableHooks) {
+      this.hookSystem = new HookSystem(this);
+      await this.hookSystem.initialize();
+    }
 
     await this.geminiClient.initialize();
   }
@@ -739,6 +830,29 @@ export class Config {
     this.fallbackModelHandler = handler;
   }
 
+  getMcpSamplingService(): McpSamplingService {
+    if (!this.mcpSamplingService) {
+      this.mcpSamplingService = new McpSamplingService(this);
+    }
+    return this.mcpSamplingService;
+  }
+
+  getMcpSamplingApprovalHandler(): McpSamplingApprovalHandler | undefined {
+    return this.mcpSamplingApprovalHandler;
+  }
+
+  setMcpSamplingApprovalHandler(handler: McpSamplingApprovalHandler): void {
+    this.mcpSamplingApprovalHandler = handler;
+  }
+
+  getMcpElicitationHandler(): McpElicitationHandler | undefined {
+    return this.mcpElicitationHandler;
+  }
+
+  setMcpElicitationHandler(handler: McpElicitationHandler): void {
+    this.mcpElicitationHandler = handler;
+  }
+
   getMaxSessionTurns(): number {
     return this.maxSessionTurns;
   }
@@ -794,6 +908,10 @@ export class Config {
     return this.promptRegistry;
   }
 
+  getResourceRegistry(): ResourceRegistry {
+    return this.resourceRegistry;
+  }
+
   getDebugMode(): boolean {
     return this.debugMode;
   }
@@ -995,6 +1113,10 @@ export class Config {
     return this.proxy;
   }
 
+  getOpenAICompatibleSettings(): OpenAICompatibleSettings {
+    return this.openaiCompatible;
+  }
+
   getWorkingDir(): string {
     return this.cwd;
   }
@@ -1219,6 +1341,35 @@ export class Config {
     this.anonymizationEnabled = enabled;
   }
 
+  getSecretVault(): SecretVault {
+    return this.secretVault;
+  }
+
+  /**
+   * All redaction rules, including disabled ones, after merging the built-in
+   * rules with `redaction.toml` files from extensions, the user and the
+   * project.
+   */
+  getRedactionRules(): RedactionRule[] {
+    return this.redactionRules;
+  }
+
+  async reloadRedactionRules(): Promise<void> {
+    const sources = getRedactionRuleSources({
+      userRulesPath: Storage.getUserRedactionRulesPath(),
+      // Project rules can disable redaction, so only trusted folders get them.
+      projectRulesPath: this.isTrustedFolder()
+        ? this.storage.getProjectRedactionRulesPath()
+        : undefined,
+      extensions: this.getExtensions(),
+    });
+    const { rules, errors } = await loadRedactionRulesFromToml(sources);
+    for (const error of errors) {
+      coreEvents.emitFeedback('error', formatRedactionFileError(error));
+    }
+    this.redactionRules = rules;
+  }
+
   getUseWriteTodos(): boolean {
     return this.useWriteTodos;
   }
@@ -1261,10 +1412,21 @@ export class Config {
     return this.enableHooks;
   }
 
+  /**
+   * Get the hook system, or undefined when hooks are disabled
+   */
+  getHookSystem(): HookSystem | undefined {
+    return this.hookSystem;
+  }
+
   getCodebaseInvestigatorSettings(): CodebaseInvestigatorSettings {
     return this.codebaseInvestigatorSettings;
   }
 
+  getParallelSubagentSettings(): ParallelSubagentSettings {
+    return this.parallelSubagentSettings;
+  }
+
   async createToolRegistry(): Promise<ToolRegistry> {
     const registry = new ToolRegistry(this);
 
@@ -1349,35 +1511,46 @@ export class Config {
     registerCoreTool(ShellTool, this);
     registerCoreTool(MemoryTool);
     registerCoreTool(WebSearchTool, this);
+    if (this.getMcpServers() || this.getMcpServerCommand()) {
+      registerCoreTool(ReadMcpResourceTool, this);
+    }
     if (this.getUseWriteTodos()) {
       registerCoreTool(WriteTodosTool, this);
     }
 
     // Register Subagents as Tools
-    if (this.getCodebaseInvestigatorSettings().enabled) {
-      const definition = this.agentRegistry.getDefinition(
-        'codebase_investigator',
+    // We must respect the main allowed/exclude lists for agents too.
+    const excludeTools = this.getExcludeTools() || [];
+    const allowedTools = this.getAllowedTools();
+    const messageBusEnabled = this.getEnableMessageBusIntegration();
+    const isAgentToolEnabled = (name: string) =>
+      !excludeTools.includes(name) &&
+      (!allowedTools || allowedTools.includes(name));
+    const enabledAgents = this.agentRegistry
+      .getAllDefinitions()
+      .filter((definition) => isAgentToolEnabled(definition.name));
+    for (const definition of enabledAgents) {
+      const wrapper = new SubagentToolWrapper(
+        definition,
+        this,
+        messageBusEnabled ? this.getMessageBus() : undefined,
+      );
+      registry.registerTool(wrapper);
+    }
+
+    // The fan-out tool can run any of the enabled subagents.
+    if (
+      this.parallelSubagentSettings.enabled &&
+      enabledAgents.length > 0 &&
+      isAgentToolEnabled(ParallelSubagentsTool.Name)
+    ) {
+      registry.registerTool(
+        new ParallelSubagentsTool(
+          enabledAgents,
+          this,
+          messageBusEnabled ? this.getMessageBus() : undefined,
+        ),
       );
-      if (definition) {
-        // We must respect the main allowed/exclude lists for agents too.
-        const excludeTools = this.getExcludeTools() || [];
-
-        const allowedTools = this.getAllowedTools();
-
-        const isExcluded = excludeTools.includes(definition.name);
-        const isAllowed =
-          !allowedTools || allowedTools.includes(definition.name);
-
-        if (isAllowed && !isExcluded) {
-          const messageBusEnabled = this.getEnableMessageBusIntegration();
-          const wrapper = new SubagentToolWrapper(
-            definition,
-            this,
-            messageBusEnabled ? this.getMessageBus() : undefined,
-          );
-          registry.registerTool(wrapper);
-        }
-      }
     }
 
     await registry.discoverAllTools();
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ModelPricingConfig } from '../services/modelPricingService.js';
+
+// Paid tier list prices in USD per million tokens. Thinking tokens are billed
+// as output, and long-context rates apply to the whole request once its prompt
+// exceeds 200k tokens. Users can override or extend these via the
+// `modelPricing` setting.
+export const DEFAULT_MODEL_PRICING: ModelPricingConfig = {
+  'gemini-2.5-pro': {
+    input: 1.25,
+    output: 10,
+    cached: 0.125,
+    tiers: [
+      {
+        promptTokensAbove: 200_000,
+        input: 2.5,
+        output: 15,
+        cached: 0.25,
+      },
+    ],
+  },
+  'gemini-2.5-flash': {
+    input: 0.3,
+    output: 2.5,
+    cached: 0.03,
+  },
+  'gemini-2.5-flash-lite': {
+    input: 0.1,
+    output: 0.4,
+    cached: 0.01,
+  },
+  'gemini-2.0-flash': {
+    input: 0.1,
+    output: 0.4,
+    cached: 0.025,
+  },
+  'gemini-2.0-flash-lite': {
+    input: 0.075,
+    output: 0.3,
+  },
+  'gemini-embedding-001': {
+    input: 0.15,
+    output: 0,
+  },
+};
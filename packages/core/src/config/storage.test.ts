@@ -40,6 +40,11 @@ describe('Storage – additional helpers', () => {
     expect(Storage.getUserCommandsDir()).toBe(expected);
   });
 
+  it('getUserPromptsDir returns ~/.gemini/prompts', () => {
+    const expected = path.join(os.homedir(), GEMINI_DIR, 'prompts');
+    expect(Storage.getUserPromptsDir()).toBe(expected);
+  });
+
   it('getProjectCommandsDir returns project/.gemini/commands', () => {
     const expected = path.join(projectRoot, GEMINI_DIR, 'commands');
     expect(storage.getProjectCommandsDir()).toBe(expected);
@@ -50,14 +50,26 @@ export class Storage {
     return path.join(Storage.getGlobalGeminiDir(), 'commands');
   }
 
+  static getUserAgentsDir(): string {
+    return path.join(Storage.getGlobalGeminiDir(), 'agents');
+  }
+
   static getGlobalMemoryFilePath(): string {
     return path.join(Storage.getGlobalGeminiDir(), 'memory.md');
   }
 
+  static getUserPromptsDir(): string {
+    return path.join(Storage.getGlobalGeminiDir(), 'prompts');
+  }
+
   static getUserPoliciesDir(): string {
     return path.join(Storage.getGlobalGeminiDir(), 'policies');
   }
 
+  static getUserRedactionRulesPath(): string {
+    return path.join(Storage.getGlobalGeminiDir(), 'redaction.toml');
+  }
+
   static getSystemSettingsPath(): string {
     if (process.env['GEMINI_CLI_SYSTEM_SETTINGS_PATH']) {
       return process.env['GEMINI_CLI_SYSTEM_SETTINGS_PATH'];
@@ -115,6 +127,10 @@ export class Storage {
     return path.join(historyDir, hash);
   }
 
+  getProjectRedactionRulesPath(): string {
+    return path.join(this.getGeminiDir(), 'redaction.toml');
+  }
+
   getWorkspaceSettingsPath(): string {
     return path.join(this.getGeminiDir(), 'settings.json');
   }
@@ -123,6 +139,10 @@ export class Storage {
     return path.join(this.getGeminiDir(), 'commands');
   }
 
+  getProjectAgentsDir(): string {
+    return path.join(this.getGeminiDir(), 'agents');
+  }
+
   getProjectTempCheckpointsDir(): string {
     return path.join(this.getProjectTempDir(), 'checkpoints');
   }
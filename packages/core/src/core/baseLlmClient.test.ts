@@ -387,6 +387,58 @@ describe('BaseLlmClient', () => {
     });
   });
 
+  describe('generateContent', () => {
+    it('should pass the config through without utility defaults', async () => {
+      const mockResponse = createMockResponse('Hello');
+      mockGenerateContent.mockResolvedValue(mockResponse);
+
+      const result = await client.generateContent({
+        contents: defaultOptions.contents,
+        model: 'test-model',
+        systemInstruction: 'Be brief.',
+        config: { maxOutputTokens: 100 },
+        abortSignal: abortController.signal,
+        promptId: 'test-prompt-id',
+      });
+
+      expect(result).toBe(mockResponse);
+      expect(mockGenerateContent).toHaveBeenCalledWith(
+        {
+          model: 'test-model',
+          contents: defaultOptions.contents,
+          config: {
+            abortSignal: abortController.signal,
+            maxOutputTokens: 100,
+            systemInstruction: 'Be brief.',
+          },
+        },
+        'test-prompt-id',
+      );
+      expect(retryWithBackoff).toHaveBeenCalledWith(expect.any(Function), {
+        maxAttempts: 5,
+      });
+    });
+
+    it('should report and wrap API errors', async () => {
+      mockGenerateContent.mockRejectedValue(new Error('Service Unavailable'));
+
+      await expect(
+        client.generateContent({
+          contents: defaultOptions.contents,
+          model: 'test-model',
+          abortSignal: abortController.signal,
+          promptId: 'test-prompt-id',
+        }),
+      ).rejects.toThrow('Failed to generate content: Service Unavailable');
+      expect(reportError).toHaveBeenCalledWith(
+        expect.any(Error),
+        'Error generating content via API.',
+        defaultOptions.contents,
+        'generateContent-api',
+      );
+    });
+  });
+
   describe('generateEmbedding', () => {
     const texts = ['hello world', 'goodbye world'];
     const testEmbeddingModel = 'test-embedding-model';
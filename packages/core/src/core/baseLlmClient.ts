@@ -60,6 +60,38 @@ export interface GenerateJsonOptions {
   maxAttempts?: number;
 }
 
+/**
+ * Options for the generateContent utility function.
+ */
+export interface GenerateContentOptions {
+  /** The input prompt or history. */
+  contents: Content[];
+  /** The specific model to use for this task. */
+  model: string;
+  /**
+   * Task-specific system instructions.
+   * If omitted, no system instruction is sent.
+   */
+  systemInstruction?: string | Part | Part[] | Content;
+  /**
+   * Overrides for generation configuration (e.g., temperature).
+   */
+  config?: Omit<
+    GenerateContentConfig,
+    'systemInstruction' | 'tools' | 'abortSignal'
+  >;
+  /** Signal for cancellation. */
+  abortSignal: AbortSignal;
+  /**
+   * A unique ID for the prompt, used for logging/telemetry correlation.
+   */
+  promptId: string;
+  /**
+   * The maximum number of attempts for the request.
+   */
+  maxAttempts?: number;
+}
+
 /**
  * A client dedicated to stateless, utility-focused LLM calls.
  */
@@ -161,6 +193,57 @@ export class BaseLlmClient {
     }
   }
 
+  /**
+   * Generates a plain response without tools. Unlike `generateJson`, the
+   * model's default sampling settings apply unless overridden in `config`.
+   */
+  async generateContent(
+    options: GenerateContentOptions,
+  ): Promise<GenerateContentResponse> {
+    const {
+      contents,
+      model,
+      abortSignal,
+      systemInstruction,
+      promptId,
+      maxAttempts,
+    } = options;
+
+    const requestConfig: GenerateContentConfig = {
+      abortSignal,
+      ...options.config,
+      ...(systemInstruction && { systemInstruction }),
+    };
+
+    try {
+      const apiCall = () =>
+        this.contentGenerator.generateContent(
+          {
+            model,
+            config: requestConfig,
+            contents,
+          },
+          promptId,
+        );
+
+      return await retryWithBackoff(apiCall, {
+        maxAttempts: maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      });
+    } catch (error) {
+      if (abortSignal.aborted) {
+        throw error;
+      }
+
+      await reportError(
+        error,
+        'Error generating content via API.',
+        contents,
+        'generateContent-api',
+      );
+      throw new Error(`Failed to generate content: ${getErrorMessage(error)}`);
+    }
+  }
+
   async generateEmbedding(texts: string[]): Promise<number[][]> {
     if (!texts || texts.length === 0) {
       return [];
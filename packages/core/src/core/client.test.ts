@@ -42,6 +42,7 @@ import { ideContextStore } from '../ide/ideContext.js';
 import type { ModelRouterService } from '../routing/modelRouterService.js';
 import { uiTelemetryService } from '../telemetry/uiTelemetry.js';
 import { ChatCompressionService } from '../services/chatCompressionService.js';
+import type { BudgetExceededInfo } from '../services/budgetService.js';
 
 vi.mock('../services/chatCompressionService.js');
 
@@ -253,6 +254,10 @@ describe('Gemini Client (client.ts)', () => {
       storage: {
         getProjectTempDir: vi.fn().mockReturnValue('/test/temp'),
       },
+      budgetService: {
+        getExceeded: vi.fn().mockReturnValue(undefined),
+        getOnExceeded: vi.fn().mockReturnValue('stop'),
+      },
       getContentGenerator: vi.fn().mockReturnValue(mockContentGenerator),
       getBaseLlmClient: vi.fn().mockReturnValue({
         generateJson: vi.fn().mockResolvedValue({
@@ -1051,6 +1056,81 @@ ${JSON.stringify(
       expect(mockTurnRunFn).toHaveBeenCalledTimes(MAX_SESSION_TURNS);
     });
 
+    it('should yield BudgetExceeded and stop when a budget limit is reached', async () => {
+      const exceeded: BudgetExceededInfo = {
+        scope: 'session',
+        metric: 'usd',
+        limit: 1,
+        spent: 1.2,
+      };
+      vi.mocked(client['config'].budgetService.getExceeded).mockReturnValue(
+        exceeded,
+      );
+
+      const stream = client.sendMessageStream(
+        [{ text: 'Hi' }],
+        new AbortController().signal,
+        'prompt-id-budget',
+      );
+
+      const events = [];
+      for await (const event of stream) {
+        events.push(event);
+      }
+
+      expect(events).toEqual([
+        { type: GeminiEventType.BudgetExceeded, value: exceeded },
+      ]);
+      expect(mockTurnRunFn).not.toHaveBeenCalled();
+    });
+
+    it('should re-route mid-sequence when a budget limit is reached in downgrade mode', async () => {
+      const mockRouter = {
+        route: vi.fn().mockResolvedValue({ model: 'routed-model' }),
+      };
+      vi.mocked(client['config'].getModelRouterService).mockReturnValue(
+        mockRouter as unknown as ModelRouterService,
+      );
+      vi.mocked(client['config'].budgetService.getOnExceeded).mockReturnValue(
+        'downgrade',
+      );
+      mockTurnRunFn.mockReturnValue(
+        (async function* () {
+          yield { type: 'content', value: 'Hello' };
+        })(),
+      );
+      const mockChat: Partial<GeminiChat> = {
+        addHistory: vi.fn(),
+        getHistory: vi.fn().mockReturnValue([]),
+        getLastPromptTokenCount: vi.fn(),
+      };
+      client['chat'] = mockChat as GeminiChat;
+      client['currentSequenceModel'] = 'sticky-model';
+      client['lastPromptId'] = 'prompt-id-budget';
+      vi.mocked(client['config'].budgetService.getExceeded).mockReturnValue({
+        scope: 'daily',
+        metric: 'tokens',
+        limit: 1000,
+        spent: 1500,
+      });
+
+      const stream = client.sendMessageStream(
+        [{ text: 'Hi' }],
+        new AbortController().signal,
+        'prompt-id-budget',
+      );
+      for await (const _event of stream) {
+        // consume stream
+      }
+
+      expect(mockRouter.route).toHaveBeenCalled();
+      expect(mockTurnRunFn).toHaveBeenCalledWith(
+        'routed-model',
+        expect.anything(),
+        expect.anything(),
+      );
+    });
+
     it('should respect MAX_TURNS limit even when turns parameter is set to a large value', async () => {
       // This test verifies that the infinite loop protection works even when
       // someone tries to bypass it by calling with a very large turns value
@@ -149,6 +149,35 @@ export class GeminiClient {
     const toolDeclarations = toolRegistry.getFunctionDeclarations();
     const tools: Tool[] = [{ functionDeclarations: toolDeclarations }];
     this.getChat().setTools(tools);
+    // Templated system prompts may list the enabled tools.
+    this.updateSystemInstruction();
+  }
+
+  /**
+   * Rebuilds the system instruction of the current chat, e.g. after the
+   * active prompt profile changes.
+   */
+  updateSystemInstruction(): void {
+    if (!this.isInitialized()) {
+      return;
+    }
+    this.getChat().setSystemInstruction(this.getSystemInstruction());
+  }
+
+  private getSystemInstruction(): string {
+    const toolNames = this.config
+      .getToolRegistry()
+      .getFunctionDeclarations()
+      .flatMap((declaration) => (declaration.name ? [declaration.name] : []));
+    return getCoreSystemPrompt(
+      this.config.getUserMemory(),
+      this.config.promptProfileService,
+      {
+        cwd: this.config.getWorkingDir(),
+        model: this.config.getModel(),
+        tools: toolNames,
+      },
+    );
   }
 
   async resetChat(): Promise<void> {
@@ -190,8 +219,7 @@ export class GeminiClient {
     const history = await getInitialChatHistory(this.config, extraHistory);
 
     try {
-      const userMemory = this.config.getUserMemory();
-      const systemInstruction = getCoreSystemPrompt(userMemory);
+      const systemInstruction = this.getSystemInstruction();
       const model = this.config.getModel();
       const config: GenerateContentConfig = { ...this.generateContentConfig };
 
@@ -423,6 +451,15 @@ export class GeminiClient {
       yield { type: GeminiEventType.MaxSessionTurns };
       return new Turn(this.getChat(), prompt_id);
     }
+    const budgetExceeded = this.config.budgetService.getExceeded();
+    if (budgetExceeded) {
+      if (this.config.budgetService.getOnExceeded() === 'stop') {
+        yield { type: GeminiEventType.BudgetExceeded, value: budgetExceeded };
+        return new Turn(this.getChat(), prompt_id);
+      }
+      // Let the router downgrade the model mid-sequence.
+      this.currentSequenceModel = null;
+    }
     // Ensure turns never exceeds MAX_TURNS to prevent infinite loops
     const boundedTurns = Math.min(turns, MAX_TURNS);
     if (!boundedTurns) {
@@ -605,8 +642,7 @@ export class GeminiClient {
     };
 
     try {
-      const userMemory = this.config.getUserMemory();
-      const systemInstruction = getCoreSystemPrompt(userMemory);
+      const systemInstruction = this.getSystemInstruction();
 
       const requestConfig: GenerateContentConfig = {
         abortSignal,
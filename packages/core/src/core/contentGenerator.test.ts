@@ -15,9 +15,11 @@ import { createCodeAssistContentGenerator } from '../code_assist/codeAssist.js';
 import { GoogleGenAI } from '@google/genai';
 import type { Config } from '../config/config.js';
 import { LoggingContentGenerator } from './loggingContentGenerator.js';
+import { RedactingContentGenerator } from './redactingContentGenerator.js';
 import { loadApiKey } from './apiKeyCredentialStorage.js';
 import { FakeContentGenerator } from './fakeContentGenerator.js';
 import { RecordingContentGenerator } from './recordingContentGenerator.js';
+import { OpenAICompatibleContentGenerator } from './openaiCompatibleContentGenerator.js';
 
 vi.mock('../code_assist/codeAssist.js');
 vi.mock('@google/genai');
@@ -80,7 +82,10 @@ describe('createContentGenerator', () => {
     );
     expect(createCodeAssistContentGenerator).toHaveBeenCalled();
     expect(generator).toEqual(
-      new LoggingContentGenerator(mockGenerator, mockConfig),
+      new RedactingContentGenerator(
+        new LoggingContentGenerator(mockGenerator, mockConfig),
+        mockConfig,
+      ),
     );
   });
 
@@ -111,8 +116,11 @@ describe('createContentGenerator', () => {
       },
     });
     expect(generator).toEqual(
-      new LoggingContentGenerator(
-        (mockGenerator as GoogleGenAI).models,
+      new RedactingContentGenerator(
+        new LoggingContentGenerator(
+          (mockGenerator as GoogleGenAI).models,
+          mockConfig,
+        ),
         mockConfig,
       ),
     );
@@ -143,8 +151,35 @@ describe('createContentGenerator', () => {
       },
     });
     expect(generator).toEqual(
-      new LoggingContentGenerator(
-        (mockGenerator as GoogleGenAI).models,
+      new RedactingContentGenerator(
+        new LoggingContentGenerator(
+          (mockGenerator as GoogleGenAI).models,
+          mockConfig,
+        ),
+        mockConfig,
+      ),
+    );
+  });
+
+  it('should create an OpenAI-compatible content generator', async () => {
+    const settings = {
+      protocol: 'ollama' as const,
+      baseUrl: 'http://gpu-box:11434',
+      models: { 'gemini-2.5-pro': 'qwen3-coder' },
+    };
+    const mockConfig = {
+      getOpenAICompatibleSettings: () => settings,
+    } as unknown as Config;
+    const generator = await createContentGenerator(
+      { authType: AuthType.OPENAI_COMPATIBLE },
+      mockConfig,
+    );
+    expect(generator).toEqual(
+      new RedactingContentGenerator(
+        new LoggingContentGenerator(
+          new OpenAICompatibleContentGenerator(settings),
+          mockConfig,
+        ),
         mockConfig,
       ),
     );
@@ -19,9 +19,11 @@ import { loadApiKey } from './apiKeyCredentialStorage.js';
 
 import type { UserTierId } from '../code_assist/types.js';
 import { LoggingContentGenerator } from './loggingContentGenerator.js';
+import { RedactingContentGenerator } from './redactingContentGenerator.js';
 import { InstallationManager } from '../utils/installationManager.js';
 import { FakeContentGenerator } from './fakeContentGenerator.js';
 import { RecordingContentGenerator } from './recordingContentGenerator.js';
+import { OpenAICompatibleContentGenerator } from './openaiCompatibleContentGenerator.js';
 
 /**
  * Interface abstracting the core functionalities for generating content and counting tokens.
@@ -49,6 +51,7 @@ export enum AuthType {
   USE_GEMINI = 'gemini-api-key',
   USE_VERTEX_AI = 'vertex-ai',
   CLOUD_SHELL = 'cloud-shell',
+  OPENAI_COMPATIBLE = 'openai-compatible',
 }
 
 export type ContentGeneratorConfig = {
@@ -76,10 +79,11 @@ export async function createContentGeneratorConfig(
     proxy: config?.getProxy(),
   };
 
-  // If we are using Google auth or we are in Cloud Shell, there is nothing else to validate for now
+  // If we are using Google auth, Cloud Shell or a local model server, there is nothing else to validate for now
   if (
     authType === AuthType.LOGIN_WITH_GOOGLE ||
-    authType === AuthType.CLOUD_SHELL
+    authType === AuthType.CLOUD_SHELL ||
+    authType === AuthType.OPENAI_COMPATIBLE
   ) {
     return contentGeneratorConfig;
   }
@@ -123,12 +127,15 @@ export async function createContentGenerator(
       config.authType === AuthType.CLOUD_SHELL
     ) {
       const httpOptions = { headers: baseHeaders };
-      return new LoggingContentGenerator(
-        await createCodeAssistContentGenerator(
-          httpOptions,
-          config.authType,
+      return new RedactingContentGenerator(
+        new LoggingContentGenerator(
+          await createCodeAssistContentGenerator(
+            httpOptions,
+            config.authType,
+            gcConfig,
+            sessionId,
+          ),
           gcConfig,
-          sessionId,
         ),
         gcConfig,
       );
@@ -154,7 +161,21 @@ export async function createContentGenerator(
         vertexai: config.vertexai,
         httpOptions,
       });
-      return new LoggingContentGenerator(googleGenAI.models, gcConfig);
+      return new RedactingContentGenerator(
+        new LoggingContentGenerator(googleGenAI.models, gcConfig),
+        gcConfig,
+      );
+    }
+    if (config.authType === AuthType.OPENAI_COMPATIBLE) {
+      return new RedactingContentGenerator(
+        new LoggingContentGenerator(
+          new OpenAICompatibleContentGenerator(
+            gcConfig.getOpenAICompatibleSettings(),
+          ),
+          gcConfig,
+        ),
+        gcConfig,
+      );
     }
     throw new Error(
       `Error creating contentGenerator: Unsupported authType: ${config.authType}`,
@@ -27,8 +27,15 @@ import {
   ToolOutputTruncatedEvent,
   runInDevTraceSpan,
 } from '../index.js';
-import { READ_FILE_TOOL_NAME, SHELL_TOOL_NAME } from '../tools/tool-names.js';
+import {
+  EDIT_TOOL_NAME,
+  READ_FILE_TOOL_NAME,
+  SHELL_TOOL_NAME,
+  WRITE_FILE_TOOL_NAME,
+} from '../tools/tool-names.js';
 import { ReadFileTool } from '../tools/read-file.js';
+import { Kind } from '../tools/tools.js';
+import { IdeClient } from '../ide/ide-client.js';
 import { ShellTool } from '../tools/shell.js';
 import type { Part, PartListUnion } from '@google/genai';
 import { getResponseTextFromParts } from '../utils/generateContentResponseUtilities.js';
@@ -41,6 +48,7 @@ import * as Diff from 'diff';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import {
+  getCommandRoots,
   isShellInvocationAllowlisted,
   SHELL_TOOL_NAMES,
 } from '../utils/shell-utils.js';
@@ -50,6 +58,18 @@ import { ShellToolInvocation } from '../tools/shell.js';
 import type { ToolConfirmationRequest } from '../confirmation-bus/types.js';
 import { MessageBusType } from '../confirmation-bus/types.js';
 import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import { NotificationType } from '../hooks/types.js';
+
+/**
+ * Tools whose arguments get secret placeholders (`<<SECRET_MYSQL_1>>`) swapped
+ * back for the real values before they run, so the model can write configs or
+ * run commands that reference secrets it was only shown in redacted form.
+ */
+const SECRET_RESTORING_TOOLS = new Set([
+  WRITE_FILE_TOOL_NAME,
+  EDIT_TOOL_NAME,
+  SHELL_TOOL_NAME,
+]);
 
 export type ValidatingToolCall = {
   status: 'validating';
@@ -360,6 +380,12 @@ export class CoreToolScheduler {
   }> = [];
   private toolCallQueue: ToolCall[] = [];
   private completedToolCallsForBatch: CompletedToolCall[] = [];
+  // Confirmations of queued edits that were reviewed in the IDE together with
+  // an earlier edit, keyed by call ID.
+  private prefetchedConfirmations = new Map<
+    string,
+    Promise<ToolCallConfirmationDetails | false>
+  >();
 
   constructor(options: CoreToolSchedulerOptions) {
     this.config = options.config;
@@ -624,7 +650,7 @@ export class CoreToolScheduler {
     args: object,
   ): AnyToolInvocation | Error {
     try {
-      const resolvedArgs = { ...args } as Record<string, unknown>; // Créer une copie des args
+      let resolvedArgs = { ...args } as Record<string, unknown>; // Créer une copie des args
 
       // Résoudre les chemins pour les outils qui en ont besoin
       switch (tool.name) {
@@ -698,6 +724,10 @@ export class CoreToolScheduler {
       // if (typeof resolvedArgs['include'] === 'string') {
       //   resolvedArgs['include'] = this.config.resolvePath(resolvedArgs['include'] as string);
       // }
+
+      if (SECRET_RESTORING_TOOLS.has(tool.name)) {
+        resolvedArgs = this.config.getSecretVault().restoreValue(resolvedArgs);
+      }
       return tool.build(resolvedArgs); // Utiliser les args résolus
     } catch (e) {
       if (e instanceof Error) {
@@ -707,6 +737,44 @@ export class CoreToolScheduler {
     }
   }
 
+  /**
+   * Lists the secret placeholders in a tool call's arguments that will be
+   * replaced by their real values when the tool runs.
+   */
+  private getRestoredSecrets(toolCall: ToolCall): string[] {
+    if (!SECRET_RESTORING_TOOLS.has(toolCall.request.name)) {
+      return [];
+    }
+    return this.config.getSecretVault().findPlaceholders(toolCall.request.args);
+  }
+
+  /**
+   * Builds the confirmation shown for a call that restores secrets but that
+   * its tool would run without asking, e.g. in YOLO or auto-edit mode. The
+   * arguments are shown with their placeholders.
+   */
+  private getSecretConfirmationDetails(
+    toolCall: ValidatingToolCall,
+  ): ToolCallConfirmationDetails {
+    const { args } = toolCall.request;
+    if (toolCall.request.name === SHELL_TOOL_NAME) {
+      const command = String(args['command'] ?? '');
+      return {
+        type: 'exec',
+        title: 'Confirm Shell Command',
+        command,
+        rootCommand: [...new Set(getCommandRoots(command))].join(', '),
+        onConfirm: async () => {},
+      };
+    }
+    return {
+      type: 'info',
+      title: `Confirm ${toolCall.tool.displayName}`,
+      prompt: String(args['file_path'] ?? toolCall.invocation.getDescription()),
+      onConfirm: async () => {},
+    };
+  }
+
   /**
    * Generates a suggestion string for a tool name that was not found in the registry.
    * It finds the closest matches based on Levenshtein distance.
@@ -914,10 +982,11 @@ export class CoreToolScheduler {
 
     // This logic is moved from the old `for` loop in `_schedule`.
     if (toolCall.status === 'validating') {
-      const { request: reqInfo, invocation } = toolCall;
+      const { request: reqInfo } = toolCall;
 
       try {
         if (signal.aborted) {
+          this.discardPrefetchedConfirmation(reqInfo.callId);
           this.setStatusInternal(
             reqInfo.callId,
             'cancelled',
@@ -929,8 +998,34 @@ export class CoreToolScheduler {
           return;
         }
 
+        const blockedReason = await this.config
+          .getHookSystem()
+          ?.fireBeforeToolEvent(reqInfo.name, reqInfo.args, signal);
+        if (blockedReason !== undefined) {
+          // The edit may have been prepared for review with an earlier one.
+          this.discardPrefetchedConfirmation(reqInfo.callId);
+          this.setStatusInternal(
+            reqInfo.callId,
+            'error',
+            signal,
+            createErrorResponse(
+              reqInfo,
+              new Error(`Tool call blocked by a hook: ${blockedReason}`),
+              ToolErrorType.BLOCKED_BY_HOOK,
+            ),
+          );
+          await this.checkAndNotifyCompletion(signal);
+          return;
+        }
+
+        // Calls that re-insert secrets are never auto-approved, so the user
+        // sees every command or file that receives a real secret value.
+        const restoredSecrets = this.getRestoredSecrets(toolCall);
         const confirmationDetails =
-          await invocation.shouldConfirmExecute(signal);
+          (await this.getConfirmationDetails(toolCall, signal)) ||
+          (restoredSecrets.length > 0
+            ? this.getSecretConfirmationDetails(toolCall)
+            : false);
 
         if (!confirmationDetails) {
           this.setToolCallOutcome(
@@ -939,7 +1034,7 @@ export class CoreToolScheduler {
           );
           this.setStatusInternal(reqInfo.callId, 'scheduled', signal);
         } else {
-          if (this.isAutoApproved(toolCall)) {
+          if (restoredSecrets.length === 0 && this.isAutoApproved(toolCall)) {
             this.setToolCallOutcome(
               reqInfo.callId,
               ToolConfirmationOutcome.ProceedAlways,
@@ -985,15 +1080,34 @@ export class CoreToolScheduler {
                   payload,
                 ),
             };
+            if (
+              restoredSecrets.length > 0 &&
+              wrappedConfirmationDetails.type !== 'mcp'
+            ) {
+              wrappedConfirmationDetails.restoredSecrets = restoredSecrets;
+            }
             this.setStatusInternal(
               reqInfo.callId,
               'awaiting_approval',
               signal,
               wrappedConfirmationDetails,
             );
+            void this.config
+              .getHookSystem()
+              ?.fireNotificationEvent(
+                NotificationType.ToolPermission,
+                `Permission needed to use ${toolCall.tool.displayName}`,
+                {
+                  tool_name: reqInfo.name,
+                  tool_input: reqInfo.args,
+                  confirmation_type: confirmationDetails.type,
+                  title: confirmationDetails.title,
+                },
+              );
           }
         }
       } catch (error) {
+        this.discardPrefetchedConfirmation(reqInfo.callId);
         if (signal.aborted) {
           this.setStatusInternal(
             reqInfo.callId,
@@ -1085,6 +1199,101 @@ export class CoreToolScheduler {
     await this.attemptExecutionOfScheduledCalls(signal);
   }
 
+  /**
+   * Returns the queued edits that can be reviewed in the IDE together with
+   * the given one: the edits that directly follow it in the queue, up to the
+   * first one that touches a file already in the batch.
+   */
+  private getEditReviewBatch(
+    toolCall: ValidatingToolCall,
+  ): ValidatingToolCall[] {
+    const batch: ValidatingToolCall[] = [];
+    const filePaths = new Set<string>();
+    for (const call of [toolCall, ...this.toolCallQueue]) {
+      if (
+        call.status !== 'validating' ||
+        call.tool.kind !== Kind.Edit ||
+        this.isAutoApproved(call)
+      ) {
+        break;
+      }
+      const locations = call.invocation.toolLocations();
+      if (
+        locations.length !== 1 ||
+        filePaths.has(path.resolve(locations[0].path))
+      ) {
+        break;
+      }
+      filePaths.add(path.resolve(locations[0].path));
+      batch.push(call);
+    }
+    return batch;
+  }
+
+  /**
+   * Asks the tool whether the call needs confirmation. When the IDE can review
+   * several files at once, the confirmations of the edits that follow are
+   * prepared too, so that the IDE shows all their diffs in a single review.
+   */
+  private async getConfirmationDetails(
+    toolCall: ValidatingToolCall,
+    signal: AbortSignal,
+  ): Promise<ToolCallConfirmationDetails | false> {
+    const callId = toolCall.request.callId;
+    const prefetched = this.prefetchedConfirmations.get(callId);
+    if (prefetched) {
+      this.prefetchedConfirmations.delete(callId);
+      return prefetched;
+    }
+
+    const batch = this.getEditReviewBatch(toolCall);
+    if (batch.length < 2 || !this.config.getIdeMode()) {
+      return toolCall.invocation.shouldConfirmExecute(signal);
+    }
+    const ideClient = await IdeClient.getInstance();
+    if (!ideClient.isChangesetReviewEnabled()) {
+      return toolCall.invocation.shouldConfirmExecute(signal);
+    }
+
+    let details: Promise<ToolCallConfirmationDetails | false> | undefined;
+    ideClient.beginChangeset();
+    try {
+      for (const call of batch) {
+        const callDetails = call.invocation.shouldConfirmExecute(signal);
+        // Failures are reported when each call is processed.
+        await callDetails.catch(() => {});
+        if (call === toolCall) {
+          details = callDetails;
+        } else {
+          this.prefetchedConfirmations.set(call.request.callId, callDetails);
+        }
+      }
+    } finally {
+      await ideClient.submitChangeset();
+    }
+    return details!;
+  }
+
+  /**
+   * Closes the IDE diff of a queued edit that was prepared for review but
+   * will not run.
+   */
+  private discardPrefetchedConfirmation(callId: string): void {
+    const prefetched = this.prefetchedConfirmations.get(callId);
+    if (!prefetched) {
+      return;
+    }
+    this.prefetchedConfirmations.delete(callId);
+    prefetched
+      .then(async (details) => {
+        if (details && details.type === 'edit' && details.ideConfirmation) {
+          const ideClient = await IdeClient.getInstance();
+          await ideClient.resolveDiffFromCli(details.filePath, 'rejected');
+        }
+      })
+      .catch(() => {});
+  }
+
   /**
    * Applies user-provided content changes to a tool call that is awaiting confirmation.
    * This method updates the tool's arguments and refreshes the confirmation prompt with a new diff
@@ -1393,6 +1602,7 @@ export class CoreToolScheduler {
   private _cancelAllQueuedCalls(): void {
     while (this.toolCallQueue.length > 0) {
       const queuedCall = this.toolCallQueue.shift()!;
+      this.discardPrefetchedConfirmation(queuedCall.request.callId);
       // Don't cancel tools that already errored during validation.
       if (queuedCall.status === 'error') {
         this.completedToolCallsForBatch.push(queuedCall);
@@ -24,6 +24,10 @@ import { DEFAULT_GEMINI_FLASH_MODEL } from '../config/models.js';
 import { AuthType } from './contentGenerator.js';
 import { type RetryOptions } from '../utils/retry.js';
 import { uiTelemetryService } from '../telemetry/uiTelemetry.js';
+import { HookSystem } from '../hooks/hookSystem.js';
+import { HookType } from '../hooks/types.js';
+import * as os from 'node:os';
+import * as path from 'node:path';
 
 // Mock fs module to prevent actual file system operations during tests
 const mockFileSystem = new Map<string, string>();
@@ -128,6 +132,7 @@ describe('GeminiChat', () => {
       }),
       getContentGenerator: vi.fn().mockReturnValue(mockContentGenerator),
       getRetryFetchErrors: vi.fn().mockReturnValue(false),
+      getHookSystem: vi.fn().mockReturnValue(undefined),
     } as unknown as Config;
 
     // Disable 429 simulation for tests
@@ -730,6 +735,159 @@ describe('GeminiChat', () => {
     });
   });
 
+  describe('hooks', () => {
+    let tempDir: string;
+
+    async function useModuleHooks(hooks: Record<string, string>) {
+      const hookSystem = new HookSystem({
+        isAnonymizationEnabled: () => false,
+        getSessionId: () => 'test-session-id',
+        getWorkingDir: () => tempDir,
+        getProjectRoot: () => tempDir,
+        getGeminiClient: () => undefined,
+        getExtensions: () => [],
+        getHooks: () =>
+          Object.fromEntries(
+            Object.entries(hooks).map(([eventName, exportName]) => [
+              eventName,
+              [
+                {
+                  hooks: [
+                    {
+                      type: HookType.Module,
+                      module: 'model-hooks.mjs',
+                      export: exportName,
+                    },
+                  ],
+                },
+              ],
+            ]),
+          ),
+      } as unknown as Config);
+      await hookSystem.initialize();
+      vi.mocked(mockConfig.getHookSystem).mockReturnValue(hookSystem);
+    }
+
+    async function* textStream(...texts: string[]) {
+      for (const [index, text] of texts.entries()) {
+        yield {
+          candidates: [
+            {
+              content: { role: 'model', parts: [{ text }] },
+              finishReason: index === texts.length - 1 ? 'STOP' : undefined,
+            },
+          ],
+        } as unknown as GenerateContentResponse;
+      }
+    }
+
+    async function sendMessage(): Promise<string[]> {
+      const stream = await chat.sendMessageStream(
+        'test-model',
+        { message: 'test message' },
+        'prompt-id-hooks',
+      );
+      const texts: string[] = [];
+      for await (const event of stream) {
+        if (event.type === StreamEventType.CHUNK) {
+          texts.push(
+            event.value.candidates?.[0]?.content?.parts?.[0]?.text ?? '',
+          );
+        }
+      }
+      return texts;
+    }
+
+    beforeEach(async () => {
+      const actualFs =
+        await vi.importActual<typeof import('node:fs')>('node:fs');
+      tempDir = actualFs.mkdtempSync(path.join(os.tmpdir(), 'chat-hooks-'));
+      actualFs.writeFileSync(
+        path.join(tempDir, 'model-hooks.mjs'),
+        [
+          'export const setTemperature = () => ({',
+          '  hookSpecificOutput: {',
+          '    hookEventName: "BeforeModel",',
+          '    llm_request: { config: { temperature: 0 } },',
+          '  },',
+          '});',
+          'export const block = () => ({ decision: "block", reason: "Model calls are paused." });',
+          'export const shout = (input) => ({',
+          '  hookSpecificOutput: {',
+          '    hookEventName: "AfterModel",',
+          '    llm_response: {',
+          '      candidates: input.llm_response.candidates.map((candidate) => ({',
+          '        ...candidate,',
+          '        content: { role: "model", parts: candidate.content.parts.map((part) => part.toUpperCase()) },',
+          '      })),',
+          '    },',
+          '  },',
+          '});',
+        ].join('\n'),
+      );
+      chat = new GeminiChat(
+        mockConfig,
+        {
+          systemInstruction: 'Be brief.',
+          tools: [{ functionDeclarations: [] }],
+        },
+        [],
+      );
+    });
+
+    afterEach(async () => {
+      const actualFs =
+        await vi.importActual<typeof import('node:fs')>('node:fs');
+      actualFs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should send the request changed by a BeforeModel hook to the content generator', async () => {
+      await useModuleHooks({ BeforeModel: 'setTemperature' });
+      vi.mocked(mockContentGenerator.generateContentStream).mockResolvedValue(
+        textStream('Hello'),
+      );
+
+      await sendMessage();
+
+      expect(mockContentGenerator.generateContentStream).toHaveBeenCalledWith(
+        {
+          model: 'test-model',
+          contents: [{ role: 'user', parts: [{ text: 'test message' }] }],
+          config: {
+            systemInstruction: 'Be brief.',
+            tools: [{ functionDeclarations: [] }],
+            temperature: 0,
+          },
+        },
+        'prompt-id-hooks',
+      );
+    });
+
+    it('should answer with the reason when a BeforeModel hook blocks the call', async () => {
+      await useModuleHooks({ BeforeModel: 'block' });
+
+      const texts = await sendMessage();
+
+      expect(mockContentGenerator.generateContentStream).not.toHaveBeenCalled();
+      expect(texts).toEqual(['Model calls are paused.']);
+    });
+
+    it('should pass each chunk of the response through AfterModel hooks', async () => {
+      await useModuleHooks({ AfterModel: 'shout' });
+      vi.mocked(mockContentGenerator.generateContentStream).mockResolvedValue(
+        textStream('Hello ', 'world'),
+      );
+
+      const texts = await sendMessage();
+
+      expect(texts).toEqual(['HELLO ', 'WORLD']);
+      expect(chat.getHistory().at(-1)).toEqual({
+        role: 'model',
+        parts: [{ text: 'HELLO WORLD' }],
+      });
+    });
+  });
+
   describe('addHistory', () => {
     it('should add a new content item to the history', () => {
       const newContent: Content = {
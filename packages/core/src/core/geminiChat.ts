@@ -11,6 +11,7 @@ import type {
   GenerateContentResponse,
   Content,
   GenerateContentConfig,
+  GenerateContentParameters,
   SendMessageParameters,
   Part,
   Tool,
@@ -38,6 +39,7 @@ import {
 import { handleFallback } from '../fallback/handler.js';
 import { isFunctionResponse } from '../utils/messageInspectors.js';
 import { partListUnionToString } from './geminiRequest.js';
+import type { HookSystem } from '../hooks/hookSystem.js';
 
 export enum StreamEventType {
   /** A regular content chunk from the API. */
@@ -352,10 +354,33 @@ export class GeminiChat {
     params: SendMessageParameters,
     prompt_id: string,
   ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const signal = params.config?.abortSignal;
+    const hookSystem = this.config.getHookSystem();
+    let request: GenerateContentParameters = {
+      model,
+      contents: requestContents,
+      config: { ...this.generationConfig, ...params.config },
+    };
+    if (hookSystem) {
+      const beforeModel = await hookSystem.fireBeforeModelEvent(
+        request,
+        signal,
+      );
+      if (beforeModel.response) {
+        return this.processStreamResponse(
+          model,
+          (async function* () {
+            yield beforeModel.response!;
+          })(),
+        );
+      }
+      request = beforeModel.request;
+    }
+
     const apiCall = () => {
       const modelToUse = getEffectiveModel(
         this.config.isInFallbackMode(),
-        model,
+        request.model,
       );
 
       if (
@@ -367,14 +392,9 @@ export class GeminiChat {
         );
       }
 
-      return this.config.getContentGenerator().generateContentStream(
-        {
-          model: modelToUse,
-          contents: requestContents,
-          config: { ...this.generationConfig, ...params.config },
-        },
-        prompt_id,
-      );
+      return this.config
+        .getContentGenerator()
+        .generateContentStream({ ...request, model: modelToUse }, prompt_id);
     };
 
     const onPersistent429Callback = async (
@@ -386,10 +406,38 @@ export class GeminiChat {
       onPersistent429: onPersistent429Callback,
       authType: this.config.getContentGeneratorConfig()?.authType,
       retryFetchErrors: this.config.getRetryFetchErrors(),
-      signal: params.config?.abortSignal,
+      signal,
     });
 
-    return this.processStreamResponse(model, streamResponse);
+    return this.processStreamResponse(
+      model,
+      hookSystem
+        ? this.applyAfterModelHooks(hookSystem, request, streamResponse, signal)
+        : streamResponse,
+    );
+  }
+
+  /**
+   * Passes each chunk of a response through the AfterModel hooks, ending the
+   * response early if a hook asks to stop.
+   */
+  private async *applyAfterModelHooks(
+    hookSystem: HookSystem,
+    request: GenerateContentParameters,
+    streamResponse: AsyncGenerator<GenerateContentResponse>,
+    signal?: AbortSignal,
+  ): AsyncGenerator<GenerateContentResponse> {
+    for await (const chunk of streamResponse) {
+      const afterModel = await hookSystem.fireAfterModelEvent(
+        request,
+        chunk,
+        signal,
+      );
+      yield afterModel.response;
+      if (afterModel.stop) {
+        return;
+      }
+    }
   }
 
   /**
@@ -108,26 +108,42 @@ export class LoggingContentGenerator implements ContentGenerator {
     generationConfig?: GenerateContentConfig,
     serverDetails?: ServerDetails,
   ): void {
-    logApiResponse(
-      this.config,
-      new ApiResponseEvent(
-        model,
-        durationMs,
-        {
-          prompt_id,
-          contents: requestContents,
-          generate_content_config: generationConfig,
-          server: serverDetails,
-        },
-        {
-          candidates: responseCandidates,
-          response_id: responseId,
-        },
-        this.config.getContentGeneratorConfig()?.authType,
-        usageMetadata,
-        responseText,
-      ),
+    const event = new ApiResponseEvent(
+      model,
+      durationMs,
+      {
+        prompt_id,
+        contents: requestContents,
+        generate_content_config: generationConfig,
+        server: serverDetails,
+      },
+      {
+        candidates: responseCandidates,
+        response_id: responseId,
+      },
+      this.config.getContentGeneratorConfig()?.authType,
+      usageMetadata,
+      responseText,
+    );
+    event.cost_usd = this.config.modelPricingService.estimateCost(
+      model,
+      event.usage,
+    );
+    this.config.budgetService.recordUsage(
+      event.cost_usd,
+      event.usage.total_token_count,
     );
+    this.config.costLedgerService.record({
+      promptId: prompt_id,
+      model,
+      promptTokens: event.usage.input_token_count,
+      candidateTokens: event.usage.output_token_count,
+      cachedTokens: event.usage.cached_content_token_count,
+      thoughtsTokens: event.usage.thoughts_token_count,
+      totalTokens: event.usage.total_token_count,
+      costUsd: event.cost_usd,
+    });
+    logApiResponse(this.config, event);
   }
 
   private _logApiError(
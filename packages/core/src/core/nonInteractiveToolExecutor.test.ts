@@ -63,6 +63,7 @@ describe('executeToolCall', () => {
       getUseModelRouter: () => false,
       getGeminiClient: () => null, // No client needed for these tests
       getEnableMessageBusIntegration: () => false,
+      getHookSystem: () => undefined,
       getMessageBus: () => null,
       getPolicyEngine: () => null,
     } as unknown as Config;
@@ -0,0 +1,528 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { GenerateContentParameters } from '@google/genai';
+import { ApiError, FinishReason, Type } from '@google/genai';
+import {
+  OpenAICompatibleContentGenerator,
+  toChatMessages,
+  toJsonSchema,
+} from './openaiCompatibleContentGenerator.js';
+
+const encoder = new TextEncoder();
+
+function streamResponse(chunks: string[]): Response {
+  return new Response(
+    new ReadableStream({
+      start(controller) {
+        for (const chunk of chunks) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+        controller.close();
+      },
+    }),
+  );
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status });
+}
+
+async function collect<T>(stream: AsyncGenerator<T>): Promise<T[]> {
+  const results: T[] = [];
+  for await (const item of stream) {
+    results.push(item);
+  }
+  return results;
+}
+
+const conversation: GenerateContentParameters = {
+  model: 'gemini-2.5-pro',
+  contents: [
+    { role: 'user', parts: [{ text: 'List the files.' }] },
+    {
+      role: 'model',
+      parts: [
+        { text: 'Checking.' },
+        { functionCall: { name: 'list_directory', args: { path: '.' } } },
+      ],
+    },
+    {
+      role: 'user',
+      parts: [
+        {
+          functionResponse: {
+            id: 'list_directory-123-abc',
+            name: 'list_directory',
+            response: { output: 'a.ts\nb.ts' },
+          },
+        },
+      ],
+    },
+  ],
+  config: { systemInstruction: 'You are a coding agent.' },
+};
+
+describe('toChatMessages', () => {
+  it('should pair function calls and responses for OpenAI', () => {
+    expect(toChatMessages(conversation, 'openai')).toEqual([
+      { role: 'system', content: 'You are a coding agent.' },
+      { role: 'user', content: 'List the files.' },
+      {
+        role: 'assistant',
+        content: 'Checking.',
+        tool_calls: [
+          {
+            id: 'call_0',
+            type: 'function',
+            function: { name: 'list_directory', arguments: '{"path":"."}' },
+          },
+        ],
+      },
+      { role: 'tool', content: 'a.ts\nb.ts', tool_call_id: 'call_0' },
+    ]);
+  });
+
+  it('should use object arguments and tool names for Ollama', () => {
+    const messages = toChatMessages(conversation, 'ollama');
+
+    expect(messages[2]).toEqual({
+      role: 'assistant',
+      content: 'Checking.',
+      tool_calls: [
+        { function: { name: 'list_directory', arguments: { path: '.' } } },
+      ],
+    });
+    expect(messages[3]).toEqual({
+      role: 'tool',
+      content: 'a.ts\nb.ts',
+      tool_name: 'list_directory',
+    });
+  });
+
+  it('should keep known call ids and send images as content parts', () => {
+    const messages = toChatMessages(
+      {
+        model: 'm',
+        contents: [
+          {
+            role: 'model',
+            parts: [
+              { functionCall: { id: 'call_a', name: 'read_file', args: {} } },
+            ],
+          },
+          {
+            role: 'user',
+            parts: [
+              {
+                functionResponse: {
+                  id: 'call_a',
+                  name: 'read_file',
+                  response: { output: 'binary', mimeType: 'image/png' },
+                },
+              },
+              { inlineData: { mimeType: 'image/png', data: 'iVBOR' } },
+            ],
+          },
+        ],
+      },
+      'openai',
+    );
+
+    expect(messages.slice(1)).toEqual([
+      {
+        role: 'tool',
+        content: '{"output":"binary","mimeType":"image/png"}',
+        tool_call_id: 'call_a',
+      },
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'image_url',
+            image_url: { url: 'data:image/png;base64,iVBOR' },
+          },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('toJsonSchema', () => {
+  it('should lower-case types and convert numeric strings', () => {
+    expect(
+      toJsonSchema({
+        type: Type.OBJECT,
+        properties: {
+          paths: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            minItems: '1',
+          },
+          limit: { type: Type.INTEGER, nullable: true },
+        },
+        required: ['paths'],
+        propertyOrdering: ['paths', 'limit'],
+      }),
+    ).toEqual({
+      type: 'object',
+      properties: {
+        paths: { type: 'array', items: { type: 'string' }, minItems: 1 },
+        limit: { type: ['integer', 'null'] },
+      },
+      required: ['paths'],
+    });
+  });
+});
+
+describe('OpenAICompatibleContentGenerator', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubEnv('OPENAI_API_KEY', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  function requestBody(call = 0) {
+    return JSON.parse(fetchMock.mock.calls[call][1].body as string);
+  }
+
+  it('should map models, tools and JSON output for chat completions', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        id: 'chatcmpl-1',
+        model: 'qwen3-coder',
+        choices: [
+          {
+            message: {
+              role: 'assistant',
+              content: null,
+              tool_calls: [
+                {
+                  id: 'call_x',
+                  type: 'function',
+                  function: { name: 'read_file', arguments: '{"path":"a"}' },
+                },
+              ],
+            },
+            finish_reason: 'tool_calls',
+          },
+        ],
+        usage: { prompt_tokens: 50, completion_tokens: 7, total_tokens: 57 },
+      }),
+    );
+    const generator = new OpenAICompatibleContentGenerator({
+      baseUrl: 'http://localhost:8000/v1/',
+      apiKey: 'secret',
+      models: { 'gemini-2.5-pro': 'qwen3-coder' },
+    });
+
+    const response = await generator.generateContent(
+      {
+        model: 'gemini-2.5-pro',
+        contents: 'Read a',
+        config: {
+          temperature: 0,
+          maxOutputTokens: 100,
+          responseMimeType: 'application/json',
+          responseJsonSchema: { type: 'object' },
+          tools: [
+            {
+              functionDeclarations: [
+                {
+                  name: 'read_file',
+                  description: 'Reads a file',
+                  parametersJsonSchema: { type: 'object' },
+                },
+              ],
+            },
+          ],
+        },
+      },
+      'prompt-1',
+    );
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'http://localhost:8000/v1/chat/completions',
+    );
+    expect(fetchMock.mock.calls[0][1].headers).toEqual({
+      'Content-Type': 'application/json',
+      Authorization: 'Bearer secret',
+    });
+    expect(requestBody()).toEqual({
+      model: 'qwen3-coder',
+      messages: [{ role: 'user', content: 'Read a' }],
+      tools: [
+        {
+          type: 'function',
+          function: {
+            name: 'read_file',
+            description: 'Reads a file',
+            parameters: { type: 'object' },
+          },
+        },
+      ],
+      stream: false,
+      temperature: 0,
+      max_tokens: 100,
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'response', schema: { type: 'object' } },
+      },
+    });
+    expect(response.candidates?.[0]).toEqual({
+      index: 0,
+      content: {
+        role: 'model',
+        parts: [
+          {
+            functionCall: {
+              id: 'call_x',
+              name: 'read_file',
+              args: { path: 'a' },
+            },
+          },
+        ],
+      },
+      finishReason: FinishReason.STOP,
+    });
+    expect(response.functionCalls?.[0].name).toBe('read_file');
+    expect(response.usageMetadata).toEqual({
+      promptTokenCount: 50,
+      candidatesTokenCount: 7,
+      totalTokenCount: 57,
+    });
+  });
+
+  it('should stream text and assemble fragmented tool calls', async () => {
+    const chunk = (body: unknown) => `data: ${JSON.stringify(body)}\n\n`;
+    const sse = [
+      chunk({ id: 'c1', choices: [{ delta: { content: 'Hel' } }] }),
+      chunk({ id: 'c1', choices: [{ delta: { content: 'lo' } }] }),
+      chunk({
+        id: 'c1',
+        choices: [
+          {
+            delta: {
+              tool_calls: [
+                {
+                  index: 0,
+                  id: 'call_1',
+                  function: { name: 'glob', arguments: '{"pat' },
+                },
+              ],
+            },
+          },
+        ],
+      }),
+      chunk({
+        id: 'c1',
+        choices: [
+          {
+            delta: {
+              tool_calls: [{ index: 0, function: { arguments: 'tern":"*"}' } }],
+            },
+            finish_reason: 'tool_calls',
+          },
+        ],
+      }),
+      chunk({
+        id: 'c1',
+        choices: [],
+        usage: { prompt_tokens: 10, completion_tokens: 4, total_tokens: 14 },
+      }),
+      'data: [DONE]\n\n',
+    ].join('');
+    // Split mid-line to exercise buffering.
+    fetchMock.mockResolvedValue(
+      streamResponse([sse.slice(0, 25), sse.slice(25, 200), sse.slice(200)]),
+    );
+    const generator = new OpenAICompatibleContentGenerator();
+
+    const responses = await collect(
+      await generator.generateContentStream(
+        { model: 'gemini-2.5-flash', contents: 'Hi' },
+        'prompt-1',
+      ),
+    );
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'http://localhost:11434/v1/chat/completions',
+    );
+    expect(requestBody()).toMatchObject({
+      model: 'gemini-2.5-flash',
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    expect(responses.map((r) => r.text)).toEqual(['Hel', 'lo', undefined]);
+    const last = responses[responses.length - 1];
+    expect(last.candidates?.[0].finishReason).toBe(FinishReason.STOP);
+    expect(last.functionCalls).toEqual([
+      { id: 'call_1', name: 'glob', args: { pattern: '*' } },
+    ]);
+    expect(last.usageMetadata?.totalTokenCount).toBe(14);
+  });
+
+  it('should stream Ollama chat responses', async () => {
+    fetchMock.mockResolvedValue(
+      streamResponse([
+        JSON.stringify({
+          model: 'llama3.1',
+          message: { role: 'assistant', content: 'Done', thinking: 'Hmm' },
+          done: false,
+        }) + '\n',
+        JSON.stringify({
+          model: 'llama3.1',
+          message: {
+            role: 'assistant',
+            content: '',
+            tool_calls: [
+              { function: { name: 'read_file', arguments: { path: 'x' } } },
+            ],
+          },
+          done: true,
+          done_reason: 'stop',
+          prompt_eval_count: 30,
+          eval_count: 5,
+        }) + '\n',
+      ]),
+    );
+    const generator = new OpenAICompatibleContentGenerator({
+      protocol: 'ollama',
+      defaultModel: 'llama3.1',
+    });
+
+    const responses = await collect(
+      await generator.generateContentStream(
+        {
+          model: 'gemini-2.5-pro',
+          contents: 'Hi',
+          config: { maxOutputTokens: 64 },
+        },
+        'prompt-1',
+      ),
+    );
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/api/chat');
+    expect(requestBody()).toEqual({
+      model: 'llama3.1',
+      messages: [{ role: 'user', content: 'Hi' }],
+      stream: true,
+      options: { num_predict: 64 },
+    });
+    expect(responses[0].candidates?.[0].content?.parts).toEqual([
+      { text: 'Hmm', thought: true },
+      { text: 'Done' },
+    ]);
+    expect(responses[1].functionCalls).toEqual([
+      { name: 'read_file', args: { path: 'x' } },
+    ]);
+    expect(responses[1].candidates?.[0].finishReason).toBe(FinishReason.STOP);
+    expect(responses[1].usageMetadata).toEqual({
+      promptTokenCount: 30,
+      candidatesTokenCount: 5,
+      totalTokenCount: 35,
+    });
+  });
+
+  it('should report error payloads sent in a stream', async () => {
+    fetchMock.mockResolvedValue(
+      streamResponse([
+        'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n',
+        'data: {"error":{"message":"The server is overloaded","type":"server_error"}}\n\n',
+      ]),
+    );
+    const generator = new OpenAICompatibleContentGenerator();
+    const stream = await generator.generateContentStream(
+      { model: 'm', contents: 'Hi' },
+      'prompt-1',
+    );
+
+    await expect(collect(stream)).rejects.toThrow('The server is overloaded');
+  });
+
+  it('should report lines of a stream that are not JSON', async () => {
+    fetchMock.mockResolvedValue(
+      streamResponse(['<html><body>502 Bad Gateway</body></html>\n']),
+    );
+    const generator = new OpenAICompatibleContentGenerator({
+      protocol: 'ollama',
+    });
+    const stream = await generator.generateContentStream(
+      { model: 'm', contents: 'Hi' },
+      'prompt-1',
+    );
+
+    await expect(collect(stream)).rejects.toThrow(
+      'Unexpected data in the response stream from http://localhost:11434: <html><body>502 Bad Gateway</body></html>',
+    );
+  });
+
+  it('should raise API errors with the HTTP status', async () => {
+    fetchMock.mockResolvedValue(
+      new Response('model "nope" not found', { status: 404 }),
+    );
+    const generator = new OpenAICompatibleContentGenerator();
+
+    const error = await generator
+      .generateContent({ model: 'nope', contents: 'Hi' }, 'prompt-1')
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect((error as ApiError).status).toBe(404);
+    expect((error as ApiError).message).toBe(
+      'Request to http://localhost:11434/v1/chat/completions failed with status 404: model "nope" not found',
+    );
+  });
+
+  it('should report unreachable servers', async () => {
+    fetchMock.mockRejectedValue(
+      new TypeError('fetch failed', {
+        cause: new Error('connect ECONNREFUSED'),
+      }),
+    );
+    const generator = new OpenAICompatibleContentGenerator();
+
+    await expect(
+      generator.generateContent({ model: 'm', contents: 'Hi' }, 'prompt-1'),
+    ).rejects.toThrow(
+      'Could not reach the model server at http://localhost:11434/v1/chat/completions: connect ECONNREFUSED',
+    );
+  });
+
+  it('should embed content and estimate token counts', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({ data: [{ embedding: [0.1, 0.2] }] }),
+    );
+    const generator = new OpenAICompatibleContentGenerator({
+      models: { 'gemini-embedding-001': 'nomic-embed-text' },
+    });
+
+    const embedding = await generator.embedContent({
+      model: 'gemini-embedding-001',
+      contents: ['hello'],
+    });
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'http://localhost:11434/v1/embeddings',
+    );
+    expect(requestBody()).toEqual({
+      model: 'nomic-embed-text',
+      input: ['hello'],
+    });
+    expect(embedding.embeddings).toEqual([{ values: [0.1, 0.2] }]);
+    expect(
+      await generator.countTokens({ model: 'm', contents: 'twelve chars' }),
+    ).toEqual({ totalTokens: 3 });
+  });
+});
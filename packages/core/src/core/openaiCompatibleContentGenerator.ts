@@ -0,0 +1,774 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  Content,
+  CountTokensParameters,
+  CountTokensResponse,
+  EmbedContentParameters,
+  GenerateContentParameters,
+  GenerateContentResponseUsageMetadata,
+  Part,
+  Schema,
+  ToolListUnion,
+} from '@google/genai';
+import {
+  ApiError,
+  EmbedContentResponse,
+  FinishReason,
+  GenerateContentResponse,
+} from '@google/genai';
+import { toContents } from '../code_assist/converter.js';
+import type { ContentGenerator } from './contentGenerator.js';
+
+export type OpenAICompatibleProtocol = 'openai' | 'ollama';
+
+/**
+ * Settings for a local or self-hosted model server.
+ */
+export interface OpenAICompatibleSettings {
+  /**
+   * `openai` speaks the chat-completions API (`<baseUrl>/chat/completions`),
+   * `ollama` speaks Ollama's native API (`<baseUrl>/api/chat`).
+   */
+  protocol?: OpenAICompatibleProtocol;
+  baseUrl?: string;
+  /** Sent as a bearer token. Defaults to the OPENAI_API_KEY env variable. */
+  apiKey?: string;
+  /** Maps the Gemini model names the CLI asks for to server model names. */
+  models?: Record<string, string>;
+  /** Server model for requests whose model is not in `models`. */
+  defaultModel?: string;
+}
+
+export const DEFAULT_OPENAI_COMPATIBLE_BASE_URLS: Record<
+  OpenAICompatibleProtocol,
+  string
+> = {
+  openai: 'http://localhost:11434/v1',
+  ollama: 'http://localhost:11434',
+};
+
+interface ChatToolCall {
+  index?: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    // OpenAI sends JSON text, Ollama sends the parsed object.
+    arguments?: string | Record<string, unknown>;
+  };
+}
+
+type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | ChatContentPart[] | null;
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+  tool_name?: string;
+  images?: string[];
+  // Reasoning output of thinking models.
+  reasoning_content?: string;
+  thinking?: string;
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+  completion_tokens_details?: { reasoning_tokens?: number };
+}
+
+interface OpenAIChatCompletion {
+  id?: string;
+  model?: string;
+  choices?: Array<{
+    message?: ChatMessage;
+    delta?: Partial<ChatMessage>;
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAIUsage;
+}
+
+interface OllamaChatResponse {
+  model?: string;
+  message?: ChatMessage;
+  done?: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+const FINISH_REASONS: Record<string, FinishReason> = {
+  stop: FinishReason.STOP,
+  tool_calls: FinishReason.STOP,
+  function_call: FinishReason.STOP,
+  length: FinishReason.MAX_TOKENS,
+  content_filter: FinishReason.SAFETY,
+};
+
+// Gemini schemas carry these as int64 strings, JSON schema wants numbers.
+const NUMERIC_SCHEMA_KEYS = new Set([
+  'minItems',
+  'maxItems',
+  'minLength',
+  'maxLength',
+  'minProperties',
+  'maxProperties',
+]);
+
+/**
+ * Converts a Gemini `Schema` (upper-case `Type` values) to JSON schema.
+ */
+export function toJsonSchema(schema: Schema): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    switch (key) {
+      case 'type':
+        if (value !== 'TYPE_UNSPECIFIED') {
+          result['type'] = String(value).toLowerCase();
+        }
+        break;
+      case 'properties':
+        result['properties'] = Object.fromEntries(
+          Object.entries(value as Record<string, Schema>).map(
+            ([name, property]) => [name, toJsonSchema(property)],
+          ),
+        );
+        break;
+      case 'items':
+        result['items'] = toJsonSchema(value as Schema);
+        break;
+      case 'anyOf':
+        result['anyOf'] = (value as Schema[]).map(toJsonSchema);
+        break;
+      case 'nullable':
+      case 'propertyOrdering':
+      case 'example':
+        break;
+      default:
+        result[key] = NUMERIC_SCHEMA_KEYS.has(key) ? Number(value) : value;
+    }
+  }
+  if (schema.nullable && typeof result['type'] === 'string') {
+    result['type'] = [result['type'], 'null'];
+  }
+  return result;
+}
+
+function toChatTools(tools: ToolListUnion | undefined) {
+  const declarations = (tools ?? []).flatMap((tool) =>
+    'functionDeclarations' in tool ? (tool.functionDeclarations ?? []) : [],
+  );
+  if (declarations.length === 0) {
+    return undefined;
+  }
+  return declarations.map((declaration) => ({
+    type: 'function' as const,
+    function: {
+      name: declaration.name,
+      description: declaration.description,
+      parameters:
+        declaration.parametersJsonSchema ??
+        (declaration.parameters
+          ? toJsonSchema(declaration.parameters)
+          : { type: 'object', properties: {} }),
+    },
+  }));
+}
+
+function getText(parts: Part[]): string {
+  return parts
+    .filter((part) => typeof part.text === 'string' && !part.thought)
+    .map((part) => part.text)
+    .join('');
+}
+
+function toToolResultText(response: Record<string, unknown> | undefined) {
+  const keys = Object.keys(response ?? {});
+  if (keys.length === 1 && typeof response?.['output'] === 'string') {
+    return response['output'];
+  }
+  return JSON.stringify(response ?? {});
+}
+
+/**
+ * Converts Gemini contents to chat messages. Gemini pairs function calls and
+ * responses by optional ids, chat APIs by required ids (OpenAI) or by order
+ * (Ollama), so calls without an id get a generated one, which the next
+ * response for that function picks up unless it names a known call.
+ */
+export function toChatMessages(
+  request: GenerateContentParameters,
+  protocol: OpenAICompatibleProtocol,
+): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  if (request.config?.systemInstruction) {
+    const system = toContents(request.config.systemInstruction)
+      .map((content) => getText(content.parts ?? []))
+      .join('\n');
+    if (system) {
+      messages.push({ role: 'system', content: system });
+    }
+  }
+
+  const pendingCallIds = new Map<string, string[]>();
+  const callIds = new Set<string>();
+  let generatedIds = 0;
+
+  for (const content of toContents(request.contents)) {
+    const parts = content.parts ?? [];
+    if (content.role === 'model') {
+      const toolCalls: ChatToolCall[] = [];
+      for (const { functionCall } of parts) {
+        if (!functionCall?.name) {
+          continue;
+        }
+        const id = functionCall.id ?? `call_${generatedIds++}`;
+        callIds.add(id);
+        pendingCallIds.set(functionCall.name, [
+          ...(pendingCallIds.get(functionCall.name) ?? []),
+          id,
+        ]);
+        toolCalls.push(
+          protocol === 'ollama'
+            ? {
+                function: {
+                  name: functionCall.name,
+                  arguments: functionCall.args ?? {},
+                },
+              }
+            : {
+                id,
+                type: 'function',
+                function: {
+                  name: functionCall.name,
+                  arguments: JSON.stringify(functionCall.args ?? {}),
+                },
+              },
+        );
+      }
+      const text = getText(parts);
+      messages.push({
+        role: 'assistant',
+        content: text || (protocol === 'ollama' ? '' : null),
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      });
+      continue;
+    }
+
+    for (const { functionResponse } of parts) {
+      if (!functionResponse) {
+        continue;
+      }
+      const name = functionResponse.name ?? '';
+      const pending = pendingCallIds.get(name) ?? [];
+      let id: string;
+      if (functionResponse.id && callIds.has(functionResponse.id)) {
+        id = functionResponse.id;
+        if (pending.includes(id)) {
+          pending.splice(pending.indexOf(id), 1);
+        }
+      } else {
+        id = pending.shift() ?? functionResponse.id ?? `call_${generatedIds++}`;
+      }
+      messages.push({
+        role: 'tool',
+        content: toToolResultText(functionResponse.response),
+        ...(protocol === 'ollama' ? { tool_name: name } : { tool_call_id: id }),
+      });
+    }
+
+    const text = getText(parts);
+    const images = parts.flatMap(({ inlineData }) =>
+      inlineData?.data && inlineData.mimeType?.startsWith('image/')
+        ? [inlineData]
+        : [],
+    );
+    if (images.length > 0 && protocol === 'ollama') {
+      messages.push({
+        role: 'user',
+        content: text,
+        images: images.map((image) => image.data!),
+      });
+    } else if (images.length > 0) {
+      messages.push({
+        role: 'user',
+        content: [
+          ...(text ? [{ type: 'text' as const, text }] : []),
+          ...images.map((image) => ({
+            type: 'image_url' as const,
+            image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+          })),
+        ],
+      });
+    } else if (text) {
+      messages.push({ role: 'user', content: text });
+    }
+  }
+  return messages;
+}
+
+function parseArguments(
+  args: string | Record<string, unknown> | undefined,
+): Record<string, unknown> {
+  if (typeof args !== 'string') {
+    return args ?? {};
+  }
+  try {
+    const parsed: unknown = JSON.parse(args || '{}');
+    return typeof parsed === 'object' && parsed !== null
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+function toModelParts(
+  message: Partial<ChatMessage> | undefined,
+  toolCalls: ChatToolCall[] = message?.tool_calls ?? [],
+): Part[] {
+  const parts: Part[] = [];
+  const reasoning = message?.reasoning_content || message?.thinking;
+  if (reasoning) {
+    parts.push({ text: reasoning, thought: true });
+  }
+  if (typeof message?.content === 'string' && message.content) {
+    parts.push({ text: message.content });
+  }
+  for (const call of toolCalls) {
+    if (call.function?.name) {
+      parts.push({
+        functionCall: {
+          // Ollama has no call ids; the turn generates one when missing.
+          ...(call.id ? { id: call.id } : {}),
+          name: call.function.name,
+          args: parseArguments(call.function.arguments),
+        },
+      });
+    }
+  }
+  return parts;
+}
+
+function toFinishReason(reason: string | null | undefined) {
+  if (!reason) {
+    return undefined;
+  }
+  return FINISH_REASONS[reason] ?? FinishReason.OTHER;
+}
+
+function fromOpenAIUsage(
+  usage: OpenAIUsage | undefined,
+): GenerateContentResponseUsageMetadata | undefined {
+  if (!usage) {
+    return undefined;
+  }
+  const reasoningTokens = usage.completion_tokens_details?.reasoning_tokens;
+  return {
+    promptTokenCount: usage.prompt_tokens,
+    candidatesTokenCount:
+      usage.completion_tokens !== undefined
+        ? usage.completion_tokens - (reasoningTokens ?? 0)
+        : undefined,
+    thoughtsTokenCount: reasoningTokens,
+    cachedContentTokenCount: usage.prompt_tokens_details?.cached_tokens,
+    totalTokenCount: usage.total_tokens,
+  };
+}
+
+function fromOllamaUsage(
+  response: OllamaChatResponse,
+): GenerateContentResponseUsageMetadata | undefined {
+  if (
+    response.prompt_eval_count === undefined &&
+    response.eval_count === undefined
+  ) {
+    return undefined;
+  }
+  const promptTokenCount = response.prompt_eval_count ?? 0;
+  const candidatesTokenCount = response.eval_count ?? 0;
+  return {
+    promptTokenCount,
+    candidatesTokenCount,
+    totalTokenCount: promptTokenCount + candidatesTokenCount,
+  };
+}
+
+function createResponse(
+  parts: Part[],
+  finishReason?: FinishReason,
+  usageMetadata?: GenerateContentResponseUsageMetadata,
+  modelVersion?: string,
+  responseId?: string,
+): GenerateContentResponse {
+  const out = new GenerateContentResponse();
+  out.candidates = [
+    {
+      index: 0,
+      content: { role: 'model', parts },
+      ...(finishReason ? { finishReason } : {}),
+    },
+  ];
+  out.usageMetadata = usageMetadata;
+  out.modelVersion = modelVersion;
+  out.responseId = responseId;
+  return out;
+}
+
+async function* readLines(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+      yield* lines;
+    }
+    buffer += decoder.decode();
+    if (buffer) {
+      yield buffer;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Parses one line of a streamed response. Servers and proxies can send an
+ * error payload or a non-JSON line (such as an HTML error page) mid-stream,
+ * and both are reported as errors.
+ */
+function parseStreamChunk<T>(text: string, baseUrl: string): T {
+  let chunk: unknown;
+  try {
+    chunk = JSON.parse(text);
+  } catch {
+    // Reported below.
+  }
+  if (chunk === null || typeof chunk !== 'object') {
+    throw new Error(
+      `Unexpected data in the response stream from ${baseUrl}: ${text.slice(0, 200)}`,
+    );
+  }
+  if ('error' in chunk && chunk.error) {
+    const { error } = chunk;
+    throw new Error(
+      typeof error === 'object' && 'message' in error
+        ? String(error.message)
+        : typeof error === 'string'
+          ? error
+          : JSON.stringify(error),
+    );
+  }
+  return chunk as T;
+}
+
+function estimateTokens(contents: Content[]): number {
+  let characters = 0;
+  for (const content of contents) {
+    for (const part of content.parts ?? []) {
+      characters +=
+        typeof part.text === 'string'
+          ? part.text.length
+          : JSON.stringify(part).length;
+    }
+  }
+  // Local servers have no token counting endpoint; ~4 characters per token.
+  return Math.ceil(characters / 4);
+}
+
+/**
+ * A ContentGenerator backed by a local or self-hosted model server that speaks
+ * the OpenAI chat-completions protocol (vLLM, LM Studio, llama.cpp, Ollama's
+ * `/v1` endpoint...) or Ollama's native API.
+ *
+ * Requests and responses are translated to and from the Gemini types, so the
+ * rest of the CLI (tools, streaming, token accounting) works unchanged.
+ */
+export class OpenAICompatibleContentGenerator implements ContentGenerator {
+  private readonly protocol: OpenAICompatibleProtocol;
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+
+  constructor(private readonly settings: OpenAICompatibleSettings = {}) {
+    this.protocol = settings.protocol ?? 'openai';
+    this.baseUrl = (
+      settings.baseUrl ?? DEFAULT_OPENAI_COMPATIBLE_BASE_URLS[this.protocol]
+    ).replace(/\/+$/, '');
+    this.apiKey = settings.apiKey || process.env['OPENAI_API_KEY'] || undefined;
+  }
+
+  /** Returns the server model to use for a Gemini model name. */
+  resolveModel(model: string): string {
+    return this.settings.models?.[model] ?? this.settings.defaultModel ?? model;
+  }
+
+  async generateContent(
+    request: GenerateContentParameters,
+    _userPromptId: string,
+  ): Promise<GenerateContentResponse> {
+    const response = await this.post(
+      this.chatPath(),
+      this.toChatRequest(request, false),
+      request.config?.abortSignal,
+    );
+    if (this.protocol === 'ollama') {
+      const data = (await response.json()) as OllamaChatResponse;
+      return createResponse(
+        toModelParts(data.message),
+        toFinishReason(data.done_reason ?? 'stop'),
+        fromOllamaUsage(data),
+        data.model,
+      );
+    }
+    const data = (await response.json()) as OpenAIChatCompletion;
+    const choice = data.choices?.[0];
+    return createResponse(
+      toModelParts(choice?.message),
+      toFinishReason(choice?.finish_reason ?? 'stop'),
+      fromOpenAIUsage(data.usage),
+      data.model,
+      data.id,
+    );
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+    _userPromptId: string,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const response = await this.post(
+      this.chatPath(),
+      this.toChatRequest(request, true),
+      request.config?.abortSignal,
+    );
+    if (!response.body) {
+      throw new Error(`Empty response from ${this.baseUrl}.`);
+    }
+    return this.protocol === 'ollama'
+      ? this.readOllamaStream(response.body)
+      : this.readOpenAIStream(response.body);
+  }
+
+  async countTokens(
+    request: CountTokensParameters,
+  ): Promise<CountTokensResponse> {
+    return { totalTokens: estimateTokens(toContents(request.contents)) };
+  }
+
+  async embedContent(
+    request: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    const model = this.resolveModel(request.model);
+    const input = toContents(request.contents).map((content) =>
+      getText(content.parts ?? []),
+    );
+    const out = new EmbedContentResponse();
+    if (this.protocol === 'ollama') {
+      const response = await this.post(
+        '/api/embed',
+        { model, input },
+        request.config?.abortSignal,
+      );
+      const data = (await response.json()) as { embeddings?: number[][] };
+      out.embeddings = (data.embeddings ?? []).map((values) => ({ values }));
+    } else {
+      const response = await this.post(
+        '/embeddings',
+        { model, input },
+        request.config?.abortSignal,
+      );
+      const data = (await response.json()) as {
+        data?: Array<{ embedding: number[] }>;
+      };
+      out.embeddings = (data.data ?? []).map(({ embedding }) => ({
+        values: embedding,
+      }));
+    }
+    return out;
+  }
+
+  private chatPath(): string {
+    return this.protocol === 'ollama' ? '/api/chat' : '/chat/completions';
+  }
+
+  private toChatRequest(
+    request: GenerateContentParameters,
+    stream: boolean,
+  ): Record<string, unknown> {
+    const config = request.config ?? {};
+    const jsonSchema =
+      config.responseJsonSchema ??
+      (config.responseSchema ? toJsonSchema(config.responseSchema) : undefined);
+    const wantsJson = config.responseMimeType === 'application/json';
+    const body: Record<string, unknown> = {
+      model: this.resolveModel(request.model),
+      messages: toChatMessages(request, this.protocol),
+      tools: toChatTools(config.tools),
+      stream,
+    };
+
+    if (this.protocol === 'ollama') {
+      body['format'] = wantsJson ? (jsonSchema ?? 'json') : undefined;
+      body['options'] = {
+        temperature: config.temperature,
+        top_p: config.topP,
+        top_k: config.topK,
+        num_predict: config.maxOutputTokens,
+        stop: config.stopSequences,
+        seed: config.seed,
+      };
+      return body;
+    }
+
+    body['temperature'] = config.temperature;
+    body['top_p'] = config.topP;
+    body['max_tokens'] = config.maxOutputTokens;
+    body['stop'] = config.stopSequences;
+    body['seed'] = config.seed;
+    if (wantsJson) {
+      body['response_format'] = jsonSchema
+        ? {
+            type: 'json_schema',
+            json_schema: { name: 'response', schema: jsonSchema },
+          }
+        : { type: 'json_object' };
+    }
+    if (stream) {
+      body['stream_options'] = { include_usage: true };
+    }
+    return body;
+  }
+
+  private async *readOpenAIStream(
+    body: ReadableStream<Uint8Array>,
+  ): AsyncGenerator<GenerateContentResponse> {
+    // Tool call arguments arrive in fragments, so calls, the finish reason
+    // and usage (sent after the finish reason) are reported in a last chunk.
+    const toolCalls: ChatToolCall[] = [];
+    let finishReason: FinishReason | undefined;
+    let usage: GenerateContentResponseUsageMetadata | undefined;
+    let model: string | undefined;
+    let id: string | undefined;
+
+    for await (const line of readLines(body)) {
+      if (!line.startsWith('data:')) {
+        continue;
+      }
+      const data = line.slice('data:'.length).trim();
+      if (data === '[DONE]') {
+        break;
+      }
+      const chunk = parseStreamChunk<OpenAIChatCompletion>(data, this.baseUrl);
+      model ??= chunk.model;
+      id ??= chunk.id;
+      usage = fromOpenAIUsage(chunk.usage) ?? usage;
+      const choice = chunk.choices?.[0];
+      if (!choice) {
+        continue;
+      }
+      for (const delta of choice.delta?.tool_calls ?? []) {
+        const index = delta.index ?? toolCalls.length;
+        const call = (toolCalls[index] ??= { function: { arguments: '' } });
+        call.id ??= delta.id;
+        call.function!.name ??= delta.function?.name;
+        if (typeof delta.function?.arguments === 'string') {
+          call.function!.arguments += delta.function.arguments;
+        }
+      }
+      const parts = toModelParts(
+        { ...choice.delta, tool_calls: undefined },
+        [],
+      );
+      if (parts.length > 0) {
+        yield createResponse(parts, undefined, undefined, model, id);
+      }
+      finishReason = toFinishReason(choice.finish_reason) ?? finishReason;
+    }
+
+    yield createResponse(
+      toModelParts(undefined, toolCalls.filter(Boolean)),
+      finishReason ?? FinishReason.STOP,
+      usage,
+      model,
+      id,
+    );
+  }
+
+  private async *readOllamaStream(
+    body: ReadableStream<Uint8Array>,
+  ): AsyncGenerator<GenerateContentResponse> {
+    for await (const line of readLines(body)) {
+      if (!line.trim()) {
+        continue;
+      }
+      const chunk = parseStreamChunk<OllamaChatResponse>(line, this.baseUrl);
+      yield createResponse(
+        toModelParts(chunk.message),
+        chunk.done ? toFinishReason(chunk.done_reason ?? 'stop') : undefined,
+        chunk.done ? fromOllamaUsage(chunk) : undefined,
+        chunk.model,
+      );
+    }
+  }
+
+  private async post(
+    path: string,
+    body: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    const url = `${this.baseUrl}${path}`;
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      const cause = (error as { cause?: unknown }).cause;
+      throw new Error(
+        `Could not reach the model server at ${url}: ${
+          cause instanceof Error ? cause.message : String(error)
+        }`,
+      );
+    }
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new ApiError({
+        status: response.status,
+        message: `Request to ${url} failed with status ${response.status}${
+          text ? `: ${text}` : ''
+        }`,
+      });
+    }
+    return response;
+  }
+}
@@ -13,6 +13,8 @@ import path from 'node:path';
 import type { Config } from '../config/config.js';
 import { CodebaseInvestigatorAgent } from '../agents/codebase-investigator.js';
 import { GEMINI_DIR } from '../utils/paths.js';
+import { debugLogger } from '../utils/debugLogger.js';
+import type { PromptProfileService } from '../services/promptProfileService.js';
 
 // Mock tool names if they are dynamically generated or complex
 vi.mock('../tools/ls', () => ({ LSTool: { Name: 'list_directory' } }));
@@ -173,6 +175,104 @@ describe('Core System Prompt (prompts.ts)', () => {
     });
   });
 
+  describe('with a templated prompt', () => {
+    const template = [
+      '{{#if sandbox}}',
+      '# Sandboxed',
+      '{{/if}}',
+      '{{#if git}}',
+      '# Git in {{cwd}}',
+      '{{/if}}',
+      'Model {{model}} on {{os}}. Tools: {{tools}}.',
+      '{{#if tools.run_shell_command}}Use the shell.{{/if}}',
+    ].join('\n');
+    const promptProfiles = {
+      getPrompt: vi.fn(),
+    } as unknown as PromptProfileService;
+
+    beforeEach(() => {
+      vi.mocked(promptProfiles.getPrompt).mockReturnValue(template);
+    });
+
+    it('should render the template instead of splicing in fixed sections', () => {
+      vi.stubEnv('SANDBOX', 'true');
+      vi.mocked(isGitRepository).mockReturnValue(true);
+
+      const prompt = getCoreSystemPrompt('Be brief.', promptProfiles, {
+        cwd: '/work/app',
+        model: 'gemini-2.5-pro',
+        tools: ['read_file', 'run_shell_command'],
+      });
+
+      expect(prompt).toBe(
+        [
+          '# Sandboxed',
+          '# Git in /work/app',
+          `Model gemini-2.5-pro on ${process.platform}. Tools: read_file, run_shell_command.`,
+          'Use the shell.',
+          '',
+          '---',
+          '',
+          'Be brief.',
+        ].join('\n'),
+      );
+      expect(isGitRepository).toHaveBeenCalledWith('/work/app');
+    });
+
+    it('should drop sections whose conditions are not met', () => {
+      vi.stubEnv('SANDBOX', undefined);
+      vi.mocked(isGitRepository).mockReturnValue(false);
+
+      const prompt = getCoreSystemPrompt('', promptProfiles, {
+        model: 'gemini-2.5-flash',
+        tools: ['read_file'],
+      });
+
+      expect(prompt).toBe(
+        `Model gemini-2.5-flash on ${process.platform}. Tools: read_file.`,
+      );
+    });
+  });
+
+  describe('with a prompt that quotes other template languages', () => {
+    const promptProfiles = {
+      getPrompt: vi.fn(),
+    } as unknown as PromptProfileService;
+
+    beforeEach(() => {
+      vi.stubEnv('SANDBOX', undefined);
+      vi.mocked(isGitRepository).mockReturnValue(false);
+    });
+
+    it('should keep tags for unknown variables as plain text', () => {
+      vi.mocked(promptProfiles.getPrompt).mockReturnValue(
+        'Templates look like <h1>{{ title }}</h1>.',
+      );
+
+      const prompt = getCoreSystemPrompt('', promptProfiles);
+
+      expect(prompt).toContain('# Outside of Sandbox');
+      expect(prompt).toContain('Templates look like <h1>{{ title }}</h1>.');
+    });
+
+    it('should use a prompt that is not a valid template as it is', () => {
+      const warn = vi.spyOn(debugLogger, 'warn').mockImplementation(() => {});
+      vi.mocked(promptProfiles.getPrompt).mockReturnValue(
+        'Use {{#if user}}Hi {{user}}{{/if}} in Handlebars.',
+      );
+
+      const prompt = getCoreSystemPrompt('', promptProfiles);
+
+      expect(prompt).toContain(
+        'Use {{#if user}}Hi {{user}}{{/if}} in Handlebars.',
+      );
+      expect(warn).toHaveBeenCalledWith(
+        'Using the system prompt without templating: Unknown prompt template variable "user" in {{#if}}.',
+      );
+      warn.mockRestore();
+    });
+  });
+
   describe('GEMINI_SYSTEM_MD environment variable', () => {
     it.each(['false', '0'])(
       'should use default prompt when GEMINI_SYSTEM_MD is "%s"',
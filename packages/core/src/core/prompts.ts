@@ -10,7 +10,16 @@ import os from 'node:os';
 
 import process from 'node:process';
 import { isGitRepository } from '../utils/gitUtils.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { debugLogger } from '../utils/debugLogger.js';
 import { GEMINI_DIR } from '../utils/paths.js';
+import type { PromptProfileService } from '../services/promptProfileService.js';
+import { readDefaultPrompt } from '../services/promptProfileService.js';
+import type { PromptTemplateVariables } from '../utils/promptTemplate.js';
+import {
+  hasPromptTemplateTags,
+  renderPromptTemplate,
+} from '../utils/promptTemplate.js';
 
 export function resolvePathFromEnv(envVar?: string): {
   isSwitch: boolean;
@@ -120,7 +129,38 @@ git status
 - Never push changes to a remote repository without being asked explicitly by the user.
 `;
 
-export function getCoreSystemPrompt(userMemory?: string): string {
+export interface PromptTemplateOptions {
+  // Directory the session works in. Defaults to the process cwd.
+  cwd?: string;
+  model?: string;
+  // Names of the tools enabled for the session.
+  tools?: string[];
+}
+
+/**
+ * Returns the variables available to templated prompt files: `cwd`, `os`,
+ * `model`, `tools`, `git`, `sandbox` and `seatbelt`.
+ */
+export function getPromptTemplateVariables(
+  options: PromptTemplateOptions = {},
+): PromptTemplateVariables {
+  const cwd = options.cwd ?? process.cwd();
+  return {
+    cwd,
+    os: process.platform,
+    model: options.model ?? '',
+    tools: options.tools ?? [],
+    git: isGitRepository(cwd),
+    sandbox: !!process.env['SANDBOX'],
+    seatbelt: process.env['SANDBOX'] === 'sandbox-exec',
+  };
+}
+
+export function getCoreSystemPrompt(
+  userMemory?: string,
+  promptProfiles?: PromptProfileService,
+  templateOptions?: PromptTemplateOptions,
+): string {
   // A flag to indicate whether the system prompt override is active.
   let systemMdEnabled = false;
   // The default path for the system prompt file. This can be overridden.
@@ -147,35 +187,8 @@ export function getCoreSystemPrompt(userMemory?: string): string {
 
   const basePrompt = systemMdEnabled
     ? fs.readFileSync(systemMdPath, 'utf8')
-    : fs
-        .readFileSync(
-          path.join(
-            globalThis.__dirname,
-            'hacked_prompts_source/CORE_SYSTEM_PROMPT.txt',
-          ),
-          'utf8',
-        )
-        .trim();
-
-  const sandboxStatus = (() => {
-    const isSandboxExec = process.env['SANDBOX'] === 'sandbox-exec';
-    const isGenericSandbox = !!process.env['SANDBOX'];
-
-    if (isSandboxExec) {
-      return SANDBOX_PROMPT_SEATBELT;
-    } else if (isGenericSandbox) {
-      return SANDBOX_PROMPT_GENERIC;
-    } else {
-      return SANDBOX_PROMPT_NONE;
-    }
-  })();
-
-  const gitRepositoryInfo = (() => {
-    if (isGitRepository(process.cwd())) {
-      return GIT_REPOSITORY_INFO_PROMPT;
-    }
-    return '';
-  })();
+    : (promptProfiles?.getPrompt('CORE_SYSTEM_PROMPT') ??
+      readDefaultPrompt('CORE_SYSTEM_PROMPT'));
 
   // if GEMINI_WRITE_SYSTEM_MD is set (and not 0|false), write base system prompt to file
   const writeSystemMdResolution = resolvePathFromEnv(
@@ -198,6 +211,40 @@ export function getCoreSystemPrompt(userMemory?: string): string {
       ? `\n\n---\n\n${userMemory.trim()}`
       : '';
 
+  // Templated prompts place the sandbox and git sections themselves. A prompt
+  // that is not a valid template is used as it is.
+  const templateVariables = getPromptTemplateVariables(templateOptions);
+  if (hasPromptTemplateTags(basePrompt, templateVariables)) {
+    try {
+      const rendered = renderPromptTemplate(basePrompt, templateVariables);
+      return `${rendered.trim()}${memorySuffix}`;
+    } catch (error) {
+      debugLogger.warn(
+        `Using the system prompt without templating: ${getErrorMessage(error)}`,
+      );
+    }
+  }
+
+  const sandboxStatus = (() => {
+    const isSandboxExec = process.env['SANDBOX'] === 'sandbox-exec';
+    const isGenericSandbox = !!process.env['SANDBOX'];
+
+    if (isSandboxExec) {
+      return SANDBOX_PROMPT_SEATBELT;
+    } else if (isGenericSandbox) {
+      return SANDBOX_PROMPT_GENERIC;
+    } else {
+      return SANDBOX_PROMPT_NONE;
+    }
+  })();
+
+  const gitRepositoryInfo = (() => {
+    if (isGitRepository(process.cwd())) {
+      return GIT_REPOSITORY_INFO_PROMPT;
+    }
+    return '';
+  })();
+
   return `${sandboxStatus}${gitRepositoryInfo}${basePrompt}${memorySuffix}`;
 }
 
@@ -206,14 +253,11 @@ export function getCoreSystemPrompt(userMemory?: string): string {
  * This prompt instructs the model to act as a specialized state manager,
  * think in a scratchpad, and produce a structured XML summary.
  */
-export function getCompressionPrompt(): string {
-  return fs
-    .readFileSync(
-      path.join(
-        globalThis.__dirname,
-        'hacked_prompts_source/COMPRESSION_PROMPT.txt',
-      ),
-      'utf8',
-    )
-    .trim();
+export function getCompressionPrompt(
+  promptProfiles?: PromptProfileService,
+): string {
+  return (
+    promptProfiles?.getPrompt('COMPRESSION_PROMPT') ??
+    readDefaultPrompt('COMPRESSION_PROMPT')
+  );
 }
@@ -0,0 +1,197 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  GenerateContentParameters,
+  GenerateContentResponse,
+} from '@google/genai';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Config } from '../config/config.js';
+import type { ContentGenerator } from './contentGenerator.js';
+import { RedactingContentGenerator } from './redactingContentGenerator.js';
+import { CoreEvent, coreEvents } from '../utils/events.js';
+import type { SecretsRedactedPayload } from '../utils/events.js';
+import { SecretVault } from '../pii/secretVault.js';
+import { customRules } from '../pii/gitleaksFilters.js';
+
+describe('RedactingContentGenerator', () => {
+  let wrapped: ContentGenerator;
+  let anonymizationEnabled: boolean;
+  let generator: RedactingContentGenerator;
+  let events: SecretsRedactedPayload[];
+  const onRedacted = (payload: SecretsRedactedPayload) => {
+    events.push(payload);
+  };
+
+  const request = (text: string): GenerateContentParameters => ({
+    model: 'gemini-pro',
+    contents: [{ role: 'user', parts: [{ text }] }],
+  });
+
+  beforeEach(() => {
+    anonymizationEnabled = true;
+    events = [];
+    wrapped = {
+      generateContent: vi.fn().mockResolvedValue({} as GenerateContentResponse),
+      generateContentStream: vi.fn(),
+      countTokens: vi.fn(),
+      embedContent: vi.fn(),
+    };
+    const vault = new SecretVault();
+    const config = {
+      isAnonymizationEnabled: () => anonymizationEnabled,
+      getSecretVault: () => vault,
+      getRedactionRules: () => customRules,
+    } as unknown as Config;
+    generator = new RedactingContentGenerator(wrapped, config);
+    coreEvents.on(CoreEvent.SecretsRedacted, onRedacted);
+  });
+
+  afterEach(() => {
+    coreEvents.off(CoreEvent.SecretsRedacted, onRedacted);
+  });
+
+  it('should redact user text before forwarding the request', async () => {
+    await generator.generateContent(
+      request('connect with mysql://root:hunter2@db:3306/app please'),
+      'prompt-1',
+    );
+
+    const forwarded = vi.mocked(wrapped.generateContent).mock.calls[0][0];
+    expect(forwarded.contents).toEqual([
+      {
+        role: 'user',
+        parts: [{ text: 'connect with <<SECRET_MYSQL_1>> please' }],
+      },
+    ]);
+    expect(events).toEqual([
+      { promptId: 'prompt-1', count: 1, rules: { 'MySQL Credentials': 1 } },
+    ]);
+  });
+
+  it('should redact tool results, tool arguments and the system instruction', async () => {
+    await generator.generateContent(
+      {
+        model: 'gemini-pro',
+        contents: [
+          {
+            role: 'model',
+            parts: [
+              {
+                functionCall: {
+                  name: 'read_file',
+                  args: { note: 'ping admin@example.com' },
+                },
+              },
+            ],
+          },
+          {
+            role: 'user',
+            parts: [
+              {
+                functionResponse: {
+                  name: 'read_file',
+                  response: { output: 'DB=redis://:secret@cache:6379' },
+                },
+              },
+            ],
+          },
+        ],
+        config: { systemInstruction: 'memory: owner is ops@example.com' },
+      },
+      'prompt-2',
+    );
+
+    const forwarded = vi.mocked(wrapped.generateContent).mock.calls[0][0];
+    expect(forwarded.contents).toEqual([
+      {
+        role: 'model',
+        parts: [
+          {
+            functionCall: {
+              name: 'read_file',
+              args: { note: 'ping <<SECRET_EMAIL_ADDRESS_1>>' },
+            },
+          },
+        ],
+      },
+      {
+        role: 'user',
+        parts: [
+          {
+            functionResponse: {
+              name: 'read_file',
+              response: { output: 'DB=<<SECRET_REDIS_1>>' },
+            },
+          },
+        ],
+      },
+    ]);
+    expect(forwarded.config?.systemInstruction).toBe(
+      'memory: owner is <<SECRET_EMAIL_ADDRESS_2>>',
+    );
+    expect(events[0]).toEqual({
+      promptId: 'prompt-2',
+      count: 3,
+      rules: { 'Email Address': 2, 'Redis Credentials': 1 },
+    });
+  });
+
+  it('should use the same placeholder for a secret across requests', async () => {
+    await generator.generateContent(request('me@example.com'), 'prompt-1');
+    await generator.generateContent(
+      request('you@example.com then me@example.com'),
+      'prompt-2',
+    );
+
+    const forwarded = vi.mocked(wrapped.generateContent).mock.calls[1][0];
+    expect(forwarded.contents).toEqual([
+      {
+        role: 'user',
+        parts: [
+          {
+            text: '<<SECRET_EMAIL_ADDRESS_2>> then <<SECRET_EMAIL_ADDRESS_1>>',
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should only report secrets that were not reported before', async () => {
+    await generator.generateContent(request('me@example.com'), 'prompt-1');
+    await generator.generateContent(
+      request('me@example.com and you@example.com'),
+      'prompt-2',
+    );
+
+    expect(events).toEqual([
+      { promptId: 'prompt-1', count: 1, rules: { 'Email Address': 1 } },
+      { promptId: 'prompt-2', count: 1, rules: { 'Email Address': 1 } },
+    ]);
+  });
+
+  it('should pass requests through untouched when anonymization is off', async () => {
+    anonymizationEnabled = false;
+    const req = request('me@example.com');
+
+    await generator.generateContent(req, 'prompt-1');
+
+    expect(wrapped.generateContent).toHaveBeenCalledWith(req, 'prompt-1');
+    expect(events).toEqual([]);
+  });
+
+  it('should redact streaming requests', async () => {
+    await generator.generateContentStream(
+      request('me@example.com'),
+      'prompt-1',
+    );
+
+    const forwarded = vi.mocked(wrapped.generateContentStream).mock.calls[0][0];
+    expect(forwarded.contents).toEqual([
+      { role: 'user', parts: [{ text: '<<SECRET_EMAIL_ADDRESS_1>>' }] },
+    ]);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  CountTokensParameters,
+  CountTokensResponse,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  GenerateContentParameters,
+  GenerateContentResponse,
+} from '@google/genai';
+import type { Config } from '../config/config.js';
+import type { ContentGenerator } from './contentGenerator.js';
+import { toContents } from '../code_assist/converter.js';
+import type { RedactionMatch } from '../pii/redactor.js';
+import { Redactor, countMatchesByRule } from '../pii/redactor.js';
+import { coreEvents } from '../utils/events.js';
+
+/**
+ * A decorator that wraps a ContentGenerator to scrub secrets from every
+ * request before it leaves the machine, while anonymization is enabled.
+ *
+ * Secrets are replaced by the session's reversible placeholders (see
+ * `SecretVault`). The full history is re-sent on every request, so only
+ * secrets that have not been reported before are announced through
+ * `CoreEvent.SecretsRedacted`.
+ */
+export class RedactingContentGenerator implements ContentGenerator {
+  private readonly reportedSecrets = new Set<string>();
+
+  constructor(
+    private readonly wrapped: ContentGenerator,
+    private readonly config: Config,
+  ) {}
+
+  getWrapped(): ContentGenerator {
+    return this.wrapped;
+  }
+
+  async generateContent(
+    req: GenerateContentParameters,
+    userPromptId: string,
+  ): Promise<GenerateContentResponse> {
+    return this.wrapped.generateContent(
+      this.redactRequest(req, userPromptId),
+      userPromptId,
+    );
+  }
+
+  async generateContentStream(
+    req: GenerateContentParameters,
+    userPromptId: string,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    return this.wrapped.generateContentStream(
+      this.redactRequest(req, userPromptId),
+      userPromptId,
+    );
+  }
+
+  async countTokens(req: CountTokensParameters): Promise<CountTokensResponse> {
+    if (!this.config.isAnonymizationEnabled()) {
+      return this.wrapped.countTokens(req);
+    }
+    return this.wrapped.countTokens({
+      ...req,
+      contents: this.getRedactor().redactContents(toContents(req.contents)),
+    });
+  }
+
+  async embedContent(
+    req: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    if (!this.config.isAnonymizationEnabled()) {
+      return this.wrapped.embedContent(req);
+    }
+    return this.wrapped.embedContent({
+      ...req,
+      contents: this.getRedactor().redactContents(toContents(req.contents)),
+    });
+  }
+
+  private getRedactor(): Redactor {
+    return new Redactor(
+      this.config.getRedactionRules(),
+      this.config.getSecretVault(),
+    );
+  }
+
+  private redactRequest(
+    req: GenerateContentParameters,
+    userPromptId: string,
+  ): GenerateContentParameters {
+    if (!this.config.isAnonymizationEnabled()) {
+      return req;
+    }
+
+    const matches: RedactionMatch[] = [];
+    const redacted = this.getRedactor().redactRequest(req, matches);
+    this.reportNewMatches(matches, userPromptId);
+    return redacted;
+  }
+
+  private reportNewMatches(
+    matches: RedactionMatch[],
+    userPromptId: string,
+  ): void {
+    const newMatches = matches.filter((match) => {
+      const key = `${match.rule}\u0000${match.value}`;
+      if (this.reportedSecrets.has(key)) {
+        return false;
+      }
+      this.reportedSecrets.add(key);
+      return true;
+    });
+    if (newMatches.length > 0) {
+      coreEvents.emitSecretsRedacted(
+        userPromptId,
+        countMatchesByRule(newMatches),
+      );
+    }
+  }
+}
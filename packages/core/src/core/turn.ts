@@ -30,6 +30,7 @@ import type { GeminiChat } from './geminiChat.js';
 import { InvalidStreamError } from './geminiChat.js';
 import { parseThought, type ThoughtSummary } from '../utils/thoughtUtils.js';
 import { createUserContent } from '@google/genai';
+import type { BudgetExceededInfo } from '../services/budgetService.js';
 
 // Define a structure for tools passed to the server
 export interface ServerTool {
@@ -62,6 +63,7 @@ export enum GeminiEventType {
   Retry = 'retry',
   ContextWindowWillOverflow = 'context_window_will_overflow',
   InvalidStream = 'invalid_stream',
+  BudgetExceeded = 'budget_exceeded',
 }
 
 export type ServerGeminiRetryEvent = {
@@ -182,6 +184,11 @@ export type ServerGeminiMaxSessionTurnsEvent = {
   type: GeminiEventType.MaxSessionTurns;
 };
 
+export type ServerGeminiBudgetExceededEvent = {
+  type: GeminiEventType.BudgetExceeded;
+  value: BudgetExceededInfo;
+};
+
 export type ServerGeminiFinishedEvent = {
   type: GeminiEventType.Finished;
   value: GeminiFinishedEventValue;
@@ -198,6 +205,7 @@ export type ServerGeminiCitationEvent = {
 
 // The original union type, now composed of the individual types
 export type ServerGeminiStreamEvent =
+  | ServerGeminiBudgetExceededEvent
   | ServerGeminiChatCompressedEvent
   | ServerGeminiCitationEvent
   | ServerGeminiContentEvent
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CommandHookRunner } from './commandHookRunner.js';
+import {
+  HookEventName,
+  HookType,
+  type CommandHookConfig,
+  type HookInput,
+} from './types.js';
+
+const INPUT: HookInput = {
+  session_id: 'session',
+  transcript_path: '/tmp/transcript.json',
+  cwd: process.cwd(),
+  hook_event_name: HookEventName.BeforeTool,
+  timestamp: '2025-01-01T00:00:00.000Z',
+};
+
+function hook(script: string, timeout?: number): CommandHookConfig {
+  return {
+    type: HookType.Command,
+    command: `node -e ${JSON.stringify(script)}`,
+    timeout,
+  };
+}
+
+describe.skipIf(process.platform === 'win32')('CommandHookRunner', () => {
+  const runner = new CommandHookRunner();
+
+  it('should pass the input on stdin and parse JSON output', async () => {
+    const result = await runner.execute(
+      hook(
+        `let s='';process.stdin.on('data',d=>s+=d).on('end',()=>console.log(JSON.stringify({reason:JSON.parse(s).session_id})))`,
+      ),
+      HookEventName.BeforeTool,
+      INPUT,
+    );
+
+    expect(result).toMatchObject({
+      success: true,
+      exitCode: 0,
+      output: { reason: 'session' },
+    });
+  });
+
+  it('should keep plain text output in stdout only', async () => {
+    const result = await runner.execute(
+      hook(`console.log('hello')`),
+      HookEventName.BeforeTool,
+      INPUT,
+    );
+
+    expect(result).toMatchObject({ success: true, stdout: 'hello' });
+    expect(result.output).toBeUndefined();
+  });
+
+  it('should map exit code 2 to a deny decision', async () => {
+    const result = await runner.execute(
+      hook(`console.error('Blocked.');process.exit(2)`),
+      HookEventName.BeforeTool,
+      INPUT,
+    );
+
+    expect(result).toMatchObject({
+      success: true,
+      exitCode: 2,
+      output: { decision: 'deny', reason: 'Blocked.' },
+    });
+  });
+
+  it('should fail on other exit codes', async () => {
+    const result = await runner.execute(
+      hook(`console.error('Broken.');process.exit(1)`),
+      HookEventName.BeforeTool,
+      INPUT,
+    );
+
+    expect(result).toMatchObject({ success: false, exitCode: 1 });
+    expect(result.error?.message).toBe(
+      'Command hook exited with code 1: Broken.',
+    );
+  });
+
+  it('should time out slow commands', async () => {
+    const result = await runner.execute(
+      hook(`setTimeout(()=>{},10000)`, 100),
+      HookEventName.BeforeTool,
+      INPUT,
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe('Command hook timed out after 100ms.');
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { spawn } from 'node:child_process';
+import type {
+  CommandHookConfig,
+  HookEventName,
+  HookExecutionResult,
+  HookInput,
+  HookOutput,
+} from './types.js';
+import { getShellConfiguration } from '../utils/shell-utils.js';
+
+export const DEFAULT_COMMAND_HOOK_TIMEOUT_MS = 60_000;
+
+/** Exit code with which a command hook blocks the action it was run for. */
+const BLOCKING_EXIT_CODE = 2;
+
+/**
+ * Runs `command` hooks in the user's shell, writing the hook input to stdin
+ * as JSON.
+ *
+ * The process result maps to the hook result as follows:
+ * - Exit code 0: success. Stdout holding a JSON object is the `HookOutput`.
+ * - Exit code 2: a `deny` decision, with stderr as the reason.
+ * - Any other exit code, a timeout or a spawn error: a failure.
+ */
+export class CommandHookRunner {
+  async execute(
+    hookConfig: CommandHookConfig,
+    eventName: HookEventName,
+    input: HookInput,
+    signal?: AbortSignal,
+  ): Promise<HookExecutionResult> {
+    const startTime = Date.now();
+    const timeout = hookConfig.timeout ?? DEFAULT_COMMAND_HOOK_TIMEOUT_MS;
+    const { executable, argsPrefix } = getShellConfiguration();
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let stdout = '';
+    let stderr = '';
+    try {
+      const exitCode = await new Promise<number | null>((resolve, reject) => {
+        const child = spawn(executable, [...argsPrefix, hookConfig.command], {
+          cwd: input.cwd,
+          signal: controller.signal,
+        });
+        child.stdout.on('data', (data: Buffer) => {
+          stdout += data.toString();
+        });
+        child.stderr.on('data', (data: Buffer) => {
+          stderr += data.toString();
+        });
+        child.on('error', reject);
+        child.on('close', resolve);
+        // Hooks that do not read their input close stdin early.
+        child.stdin.on('error', () => {});
+        child.stdin.end(JSON.stringify(input));
+      });
+
+      stdout = stdout.trim();
+      stderr = stderr.trim();
+      const result = {
+        hookConfig,
+        eventName,
+        stdout,
+        stderr,
+        exitCode: exitCode ?? undefined,
+      };
+      if (exitCode === 0) {
+        return {
+          ...result,
+          success: true,
+          output: parseJsonObject(stdout),
+          duration: Date.now() - startTime,
+        };
+      }
+      if (exitCode === BLOCKING_EXIT_CODE) {
+        return {
+          ...result,
+          success: true,
+          output: {
+            decision: 'deny',
+            reason: stderr || `Denied by ${hookConfig.command}`,
+          },
+          duration: Date.now() - startTime,
+        };
+      }
+      return {
+        ...result,
+        success: false,
+        duration: Date.now() - startTime,
+        error: new Error(
+          `Command hook exited with code ${exitCode}${stderr ? `: ${stderr}` : '.'}`,
+        ),
+      };
+    } catch (error) {
+      let message = error instanceof Error ? error.message : String(error);
+      if (signal?.aborted) {
+        message = 'Command hook was cancelled.';
+      } else if (controller.signal.aborted) {
+        message = `Command hook timed out after ${timeout}ms.`;
+      }
+      return {
+        hookConfig,
+        eventName,
+        success: false,
+        stdout,
+        stderr,
+        duration: Date.now() - startTime,
+        error: new Error(message),
+      };
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+function parseJsonObject(text: string): HookOutput | undefined {
+  try {
+    const parsed: unknown = JSON.parse(text);
+    return typeof parsed === 'object' &&
+      parsed !== null &&
+      !Array.isArray(parsed)
+      ? (parsed as HookOutput)
+      : undefined;
+  } catch {
+    // Plain text output is kept in `stdout` only.
+    return undefined;
+  }
+}
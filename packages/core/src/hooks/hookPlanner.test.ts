@@ -7,7 +7,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { HookPlanner } from './hookPlanner.js';
 import type { HookRegistry, HookRegistryEntry } from './hookRegistry.js';
-import { HookEventName, HookType } from './types.js';
+import { HookEventName, HookType, type CommandHookConfig } from './types.js';
 import { ConfigSource } from './hookRegistry.js';
 
 // Mock debugLogger using vi.hoisted
@@ -70,8 +70,8 @@ describe('HookPlanner', () => {
 
       expect(plan).not.toBeNull();
       expect(plan!.hookConfigs).toHaveLength(2);
-      expect(plan!.hookConfigs[0].command).toBe('./hook1.sh');
-      expect(plan!.hookConfigs[1].command).toBe('./test-hook.sh');
+      expect(plan!.hookConfigs[0]).toHaveProperty('command', './hook1.sh');
+      expect(plan!.hookConfigs[1]).toHaveProperty('command', './test-hook.sh');
     });
 
     it('should filter hooks by tool name matcher', () => {
@@ -129,7 +129,10 @@ describe('HookPlanner', () => {
       );
       expect(editPlan).not.toBeNull();
       expect(editPlan!.hookConfigs).toHaveLength(1);
-      expect(editPlan!.hookConfigs[0].command).toBe('./edit_hook.sh');
+      expect(editPlan!.hookConfigs[0]).toHaveProperty(
+        'command',
+        './edit_hook.sh',
+      );
 
       // Test with WriteTool - should match first hook
       const writePlan = hookPlanner.createExecutionPlan(
@@ -138,7 +141,10 @@ describe('HookPlanner', () => {
       );
       expect(writePlan).not.toBeNull();
       expect(writePlan!.hookConfigs).toHaveLength(1);
-      expect(writePlan!.hookConfigs[0].command).toBe('./edit_hook.sh');
+      expect(writePlan!.hookConfigs[0]).toHaveProperty(
+        'command',
+        './edit_hook.sh',
+      );
 
       // Test with ReadTool - should match second hook
       const readPlan = hookPlanner.createExecutionPlan(
@@ -147,7 +153,10 @@ describe('HookPlanner', () => {
       );
       expect(readPlan).not.toBeNull();
       expect(readPlan!.hookConfigs).toHaveLength(1);
-      expect(readPlan!.hookConfigs[0].command).toBe('./read_hook.sh');
+      expect(readPlan!.hookConfigs[0]).toHaveProperty(
+        'command',
+        './read_hook.sh',
+      );
 
       // Test with unmatched tool - should match no hooks
       const otherPlan = hookPlanner.createExecutionPlan(
@@ -282,6 +291,45 @@ describe('HookPlanner', () => {
       );
     });
 
+    it('should deduplicate http hooks by url', () => {
+      const mockEntries: HookRegistryEntry[] = [
+        {
+          config: { type: HookType.Http, url: 'https://policy.example.com' },
+          source: ConfigSource.Project,
+          eventName: HookEventName.BeforeTool,
+          enabled: true,
+        },
+        {
+          config: {
+            type: HookType.Http,
+            url: 'https://policy.example.com',
+            timeout: 1000,
+          },
+          source: ConfigSource.Extensions,
+          eventName: HookEventName.BeforeTool,
+          enabled: true,
+        },
+        {
+          config: {
+            type: HookType.Command,
+            command: 'https://policy.example.com',
+          },
+          source: ConfigSource.Project,
+          eventName: HookEventName.BeforeTool,
+          enabled: true,
+        },
+      ];
+
+      vi.mocked(mockHookRegistry.getHooksForEvent).mockReturnValue(mockEntries);
+
+      const plan = hookPlanner.createExecutionPlan(HookEventName.BeforeTool);
+
+      expect(plan!.hookConfigs).toEqual([
+        mockEntries[0].config,
+        mockEntries[2].config,
+      ]);
+    });
+
     it('should match trigger for session events', () => {
       const mockEntries: HookRegistryEntry[] = [
         {
@@ -309,7 +357,10 @@ describe('HookPlanner', () => {
       );
       expect(startupPlan).not.toBeNull();
       expect(startupPlan!.hookConfigs).toHaveLength(1);
-      expect(startupPlan!.hookConfigs[0].command).toBe('./startup_hook.sh');
+      expect(startupPlan!.hookConfigs[0]).toHaveProperty(
+        'command',
+        './startup_hook.sh',
+      );
 
       // Test resume trigger
       const resumePlan = hookPlanner.createExecutionPlan(
@@ -318,7 +369,110 @@ describe('HookPlanner', () => {
       );
       expect(resumePlan).not.toBeNull();
       expect(resumePlan!.hookConfigs).toHaveLength(1);
-      expect(resumePlan!.hookConfigs[0].command).toBe('./resume_hook.sh');
+      expect(resumePlan!.hookConfigs[0]).toHaveProperty(
+        'command',
+        './resume_hook.sh',
+      );
+    });
+  });
+
+  describe('execution order', () => {
+    function entry(
+      config: Partial<CommandHookConfig> & { command: string },
+      options: Partial<HookRegistryEntry> = {},
+    ): HookRegistryEntry {
+      return {
+        config: { type: HookType.Command, ...config },
+        source: ConfigSource.Project,
+        eventName: HookEventName.BeforeTool,
+        enabled: true,
+        ...options,
+      };
+    }
+
+    function stageCommands(entries: HookRegistryEntry[]) {
+      vi.mocked(mockHookRegistry.getHooksForEvent).mockReturnValue(entries);
+      const plan = hookPlanner.createExecutionPlan(HookEventName.BeforeTool)!;
+      return plan.stages.map((stage) =>
+        stage.map((config) => (config as CommandHookConfig).command),
+      );
+    }
+
+    it('should run independent hooks in a single parallel stage', () => {
+      const entries = [
+        entry({ command: './a.sh' }),
+        entry({ command: './b.sh' }),
+      ];
+      vi.mocked(mockHookRegistry.getHooksForEvent).mockReturnValue(entries);
+
+      const plan = hookPlanner.createExecutionPlan(HookEventName.BeforeTool);
+
+      expect(plan!.stages).toEqual([[entries[0].config, entries[1].config]]);
+      expect(plan!.sequential).toBe(false);
+    });
+
+    it('should run hooks after the hooks and groups they list', () => {
+      expect(
+        stageCommands([
+          entry({ command: './audit.sh', after: ['policy'] }),
+          entry({ command: './lint.sh', group: 'policy' }),
+          entry({ command: './secrets.sh', group: 'policy' }),
+          entry({ command: './notify.sh', after: ['./audit.sh'] }),
+          entry({ command: './format.sh', name: 'format' }),
+        ]),
+      ).toEqual([
+        ['./lint.sh', './secrets.sh', './format.sh'],
+        ['./audit.sh'],
+        ['./notify.sh'],
+      ]);
+    });
+
+    it('should chain the hooks of sequential definitions only', () => {
+      const first = entry({ command: './first.sh' }, { sequential: true });
+      const second = entry(
+        { command: './second.sh' },
+        { sequential: true, runsAfter: first.config },
+      );
+
+      expect(
+        stageCommands([first, second, entry({ command: './other.sh' })]),
+      ).toEqual([['./first.sh', './other.sh'], ['./second.sh']]);
+    });
+
+    it('should keep sequential order when the previous hook is deduplicated', () => {
+      const shared = entry({ command: './shared.sh' });
+      const first = entry({ command: './shared.sh' }, { sequential: true });
+      const second = entry(
+        { command: './second.sh' },
+        { sequential: true, runsAfter: first.config },
+      );
+
+      expect(stageCommands([shared, first, second])).toEqual([
+        ['./shared.sh'],
+        ['./second.sh'],
+      ]);
+    });
+
+    it('should ignore unknown references', () => {
+      expect(
+        stageCommands([entry({ command: './a.sh', after: ['missing'] })]),
+      ).toEqual([['./a.sh']]);
+      expect(mockDebugLogger.debug).toHaveBeenCalledWith(
+        'Hook ./a.sh for BeforeTool runs after unknown hook missing; ignoring',
+      );
+    });
+
+    it('should run hooks in a cycle one at a time', () => {
+      const stages = stageCommands([
+        entry({ command: './a.sh', after: ['./b.sh'] }),
+        entry({ command: './b.sh', after: ['./a.sh'] }),
+        entry({ command: './c.sh' }),
+      ]);
+
+      expect(stages).toEqual([['./c.sh'], ['./a.sh'], ['./b.sh']]);
+      expect(mockDebugLogger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('circular dependencies: ./a.sh, ./b.sh'),
+      );
     });
   });
 });
@@ -5,8 +5,9 @@
  */
 
 import type { HookRegistry, HookRegistryEntry } from './hookRegistry.js';
-import type { HookExecutionPlan } from './types.js';
-import type { HookEventName } from './types.js';
+import { getHookName } from './hookRegistry.js';
+import type { HookConfig, HookExecutionPlan } from './types.js';
+import { HookType, type HookEventName } from './types.js';
 import { debugLogger } from '../utils/debugLogger.js';
 
 /**
@@ -44,27 +45,117 @@ export class HookPlanner {
     // Deduplicate identical hooks
     const deduplicatedEntries = this.deduplicateHooks(matchingEntries);
 
-    // Extract hook configs
-    const hookConfigs = deduplicatedEntries.map((entry) => entry.config);
-
-    // Determine execution strategy - if ANY hook definition has sequential=true, run all sequentially
-    const sequential = deduplicatedEntries.some(
-      (entry) => entry.sequential === true,
-    );
+    // Order hooks by their dependencies
+    const stages = this.computeStages(eventName, deduplicatedEntries);
+    const hookConfigs = stages.flat();
+    const sequential = stages.every((stage) => stage.length === 1);
 
     const plan: HookExecutionPlan = {
       eventName,
       hookConfigs,
+      stages,
       sequential,
     };
 
     debugLogger.debug(
-      `Created execution plan for ${eventName}: ${hookConfigs.length} hook(s) to execute ${sequential ? 'sequentially' : 'in parallel'}`,
+      `Created execution plan for ${eventName}: ${hookConfigs.length} hook(s) to execute in ${stages.length} stage(s)`,
     );
 
     return plan;
   }
 
+  /**
+   * Group hooks into stages so that every hook runs after the hooks it
+   * depends on. A hook depends on the hooks whose name or group it lists in
+   * `after`, and on the hooks named like the hook before it in a `sequential`
+   * definition. Each hook
+   * goes in the earliest stage that follows all its dependencies, keeping the
+   * configured order within a stage.
+   */
+  private computeStages(
+    eventName: HookEventName,
+    entries: HookRegistryEntry[],
+  ): HookConfig[][] {
+    const dependencies = entries.map((entry, index) => {
+      const indexes = new Set<number>();
+      for (const reference of entry.config.after ?? []) {
+        let found = false;
+        entries.forEach((other, otherIndex) => {
+          if (
+            otherIndex !== index &&
+            (getHookName(other.config) === reference ||
+              other.config.group === reference)
+          ) {
+            indexes.add(otherIndex);
+            found = true;
+          }
+        });
+        if (!found) {
+          debugLogger.debug(
+            `Hook ${getHookName(entry.config)} for ${eventName} runs after unknown hook ${reference}; ignoring`,
+          );
+        }
+      }
+      if (entry.runsAfter) {
+        // Match by name: the hook may have been dropped as a duplicate of an
+        // identical hook from another definition.
+        const previousName = getHookName(entry.runsAfter);
+        entries.forEach((other, otherIndex) => {
+          if (
+            otherIndex !== index &&
+            getHookName(other.config) === previousName
+          ) {
+            indexes.add(otherIndex);
+          }
+        });
+      }
+      return indexes;
+    });
+
+    const depths = new Map<number, number>();
+    let remaining = entries.map((_, index) => index);
+    while (remaining.length > 0) {
+      const ready = remaining.filter((index) =>
+        [...dependencies[index]].every((dependency) => depths.has(dependency)),
+      );
+      if (ready.length === 0) {
+        break;
+      }
+      for (const index of ready) {
+        depths.set(
+          index,
+          Math.max(
+            0,
+            ...[...dependencies[index]].map(
+              (dependency) => depths.get(dependency)! + 1,
+            ),
+          ),
+        );
+      }
+      remaining = remaining.filter((index) => !depths.has(index));
+    }
+
+    const stages: HookConfig[][] = [];
+    entries.forEach((entry, index) => {
+      const depth = depths.get(index);
+      if (depth !== undefined) {
+        (stages[depth] ??= []).push(entry.config);
+      }
+    });
+
+    if (remaining.length > 0) {
+      debugLogger.warn(
+        `Hooks for ${eventName} have circular dependencies: ${remaining
+          .map((index) => getHookName(entries[index].config))
+          .join(', ')}. Running them one at a time in configured order.`,
+      );
+      for (const index of remaining) {
+        stages.push([entries[index].config]);
+      }
+    }
+    return stages;
+  }
+
   /**
    * Check if a hook entry matches the given context
    */
@@ -141,6 +232,12 @@ export class HookPlanner {
    * Generate a unique key for a hook entry
    */
   private getHookKey(entry: HookRegistryEntry): string {
+    if (entry.config.type === HookType.Http) {
+      return `http:${entry.config.url}`;
+    }
+    if (entry.config.type === HookType.Module) {
+      return `module:${entry.config.module}#${entry.config.export ?? ''}`;
+    }
     return `command:${entry.config.command}`;
   }
 }
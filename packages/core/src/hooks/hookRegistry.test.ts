@@ -6,6 +6,8 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
 import {
   HookRegistry,
   ConfigSource,
@@ -14,7 +16,7 @@ import {
 import type { Storage } from '../config/storage.js';
 import { HookEventName, HookType } from './types.js';
 import type { Config } from '../config/config.js';
-import type { HookDefinition } from './types.js';
+import type { HookDefinition, ModuleHookConfig } from './types.js';
 
 // Mock fs
 vi.mock('fs', () => ({
@@ -50,6 +52,7 @@ describe('HookRegistry', () => {
       storage: mockStorage,
       getExtensions: vi.fn().mockReturnValue([]),
       getHooks: vi.fn().mockReturnValue({}),
+      getProjectRoot: vi.fn().mockReturnValue('/project'),
     } as unknown as Config;
 
     hookRegistry = new HookRegistry(mockConfig);
@@ -100,7 +103,10 @@ describe('HookRegistry', () => {
       expect(hooks).toHaveLength(1);
       expect(hooks[0].eventName).toBe(HookEventName.BeforeTool);
       expect(hooks[0].config.type).toBe(HookType.Command);
-      expect(hooks[0].config.command).toBe('./hooks/check_style.sh');
+      expect(hooks[0].config).toHaveProperty(
+        'command',
+        './hooks/check_style.sh',
+      );
       expect(hooks[0].matcher).toBe('EditTool');
       expect(hooks[0].source).toBe(ConfigSource.Project);
     });
@@ -133,7 +139,10 @@ describe('HookRegistry', () => {
       expect(hooks).toHaveLength(1);
       expect(hooks[0].eventName).toBe(HookEventName.AfterTool);
       expect(hooks[0].config.type).toBe(HookType.Command);
-      expect(hooks[0].config.command).toBe('./hooks/after-tool.sh');
+      expect(hooks[0].config).toHaveProperty(
+        'command',
+        './hooks/after-tool.sh',
+      );
     });
 
     it('should handle invalid configuration gracefully', async () => {
@@ -193,6 +202,205 @@ describe('HookRegistry', () => {
       expect(hookRegistry.getAllHooks()).toHaveLength(0);
       expect(mockDebugLogger.warn).toHaveBeenCalled(); // At least some warnings should be logged
     });
+    it('should load http hooks and reject ones without an http(s) url', async () => {
+      const mockHooksConfig = {
+        BeforeTool: [
+          {
+            matcher: 'run_shell_command',
+            hooks: [
+              {
+                type: 'http',
+                url: 'https://policy.example.com/hooks',
+                envHeaders: { Authorization: 'POLICY_TOKEN' },
+                timeout: 5000,
+              },
+              { type: 'http', url: 'file:///etc/passwd' },
+              { type: 'http' },
+            ],
+          },
+        ],
+      };
+      vi.mocked(mockConfig.getHooks).mockReturnValue(
+        mockHooksConfig as unknown as {
+          [K in HookEventName]?: HookDefinition[];
+        },
+      );
+
+      await hookRegistry.initialize();
+
+      const hooks = hookRegistry.getAllHooks();
+      expect(hooks).toHaveLength(1);
+      expect(hooks[0]).toMatchObject({
+        config: {
+          type: HookType.Http,
+          url: 'https://policy.example.com/hooks',
+        },
+        matcher: 'run_shell_command',
+        source: ConfigSource.Project,
+      });
+      expect(mockDebugLogger.warn).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'needs an http(s) url, got: file:///etc/passwd',
+        ),
+      );
+    });
+
+    it('should chain the hooks of sequential definitions and validate after', async () => {
+      const mockHooksConfig = {
+        BeforeTool: [
+          {
+            sequential: true,
+            hooks: [
+              { type: 'command', command: './first.sh' },
+              { type: 'command', command: './second.sh', after: ['lint'] },
+              { type: 'command', command: './bad.sh', after: 'lint' },
+            ],
+          },
+        ],
+      };
+      vi.mocked(mockConfig.getHooks).mockReturnValue(
+        mockHooksConfig as unknown as {
+          [K in HookEventName]?: HookDefinition[];
+        },
+      );
+
+      await hookRegistry.initialize();
+
+      const hooks = hookRegistry.getAllHooks();
+      expect(hooks).toHaveLength(2);
+      expect(hooks[0].runsAfter).toBeUndefined();
+      expect(hooks[1].runsAfter).toBe(hooks[0].config);
+      expect(mockDebugLogger.warn).toHaveBeenCalledWith(
+        'Hook BeforeTool from project has an invalid after field; it must be a list of hook names or groups',
+      );
+    });
+  });
+
+  describe('module hooks', () => {
+    let tempDir: string;
+
+    const setHooks = (hooks: Record<string, unknown>) =>
+      vi
+        .mocked(mockConfig.getHooks)
+        .mockReturnValue(hooks as { [K in HookEventName]?: HookDefinition[] });
+
+    beforeEach(async () => {
+      const actualFs =
+        await vi.importActual<typeof import('node:fs')>('node:fs');
+      tempDir = actualFs.mkdtempSync(
+        path.join(os.tmpdir(), 'hook-registry-test-'),
+      );
+      actualFs.mkdirSync(path.join(tempDir, 'hooks'));
+      actualFs.writeFileSync(
+        path.join(tempDir, 'hooks', 'policy.mjs'),
+        [
+          'export function BeforeTool() { return { decision: "allow" }; }',
+          'export function audit() {}',
+          'export default function fallback() {}',
+          'export const notAFunction = 1;',
+        ].join('\n'),
+      );
+      vi.mocked(mockConfig.getProjectRoot).mockReturnValue(tempDir);
+    });
+
+    afterEach(async () => {
+      const actualFs =
+        await vi.importActual<typeof import('node:fs')>('node:fs');
+      actualFs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should resolve and load the exported functions', async () => {
+      setHooks({
+        BeforeTool: [
+          { hooks: [{ type: 'module', module: './hooks/policy.mjs' }] },
+        ],
+        AfterTool: [
+          {
+            hooks: [
+              { type: 'module', module: 'hooks/policy.mjs', export: 'audit' },
+            ],
+          },
+        ],
+        Notification: [
+          { hooks: [{ type: 'module', module: './hooks/policy.mjs' }] },
+        ],
+      });
+
+      await hookRegistry.initialize();
+
+      const modulePath = path.join(tempDir, 'hooks', 'policy.mjs');
+      const hooks = hookRegistry.getAllHooks();
+      expect(hooks.map((entry) => entry.config)).toEqual([
+        { type: HookType.Module, module: modulePath },
+        { type: HookType.Module, module: modulePath, export: 'audit' },
+        { type: HookType.Module, module: modulePath },
+      ]);
+      const [beforeTool, afterTool, notification] = hooks.map((entry) =>
+        hookRegistry.getHookFunction(entry.config as ModuleHookConfig),
+      );
+      expect(beforeTool?.name).toBe('BeforeTool');
+      expect(afterTool?.name).toBe('audit');
+      expect(notification?.name).toBe('fallback');
+    });
+
+    it('should resolve extension modules against the extension directory', async () => {
+      vi.mocked(mockConfig.getExtensions).mockReturnValue([
+        {
+          name: 'policy',
+          isActive: true,
+          path: tempDir,
+          hooks: {
+            BeforeTool: [
+              {
+                hooks: [{ type: HookType.Module, module: 'hooks/policy.mjs' }],
+              },
+            ],
+          },
+        },
+      ] as unknown as ReturnType<Config['getExtensions']>);
+
+      await hookRegistry.initialize();
+
+      expect(hookRegistry.getAllHooks()).toMatchObject([
+        {
+          source: ConfigSource.Extensions,
+          config: { module: path.join(tempDir, 'hooks', 'policy.mjs') },
+        },
+      ]);
+    });
+
+    it('should discard hooks whose module or function cannot be loaded', async () => {
+      setHooks({
+        BeforeTool: [
+          {
+            hooks: [
+              { type: 'module', module: './hooks/missing.mjs' },
+              {
+                type: 'module',
+                module: './hooks/policy.mjs',
+                export: 'notAFunction',
+              },
+              { type: 'module' },
+            ],
+          },
+        ],
+      });
+
+      await hookRegistry.initialize();
+
+      expect(hookRegistry.getAllHooks()).toHaveLength(0);
+      expect(mockDebugLogger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('failed to load'),
+      );
+      expect(mockDebugLogger.warn).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'does not export a function named notAFunction',
+        ),
+      );
+      expect(mockDebugLogger.warn).toHaveBeenCalledWith(
+        'Module hook BeforeTool from project missing module field',
+      );
+    });
   });
 
   describe('getHooksForEvent', () => {
@@ -482,7 +690,7 @@ describe('HookRegistry', () => {
       // Should only load the valid hook
       const hooks = hookRegistry.getAllHooks();
       expect(hooks).toHaveLength(1);
-      expect(hooks[0].config.command).toBe('./valid-hook.sh');
+      expect(hooks[0].config).toHaveProperty('command', './valid-hook.sh');
 
       // Verify the warnings for invalid configurations
       // 1st warning: non-object hookConfig ('invalid-string')
@@ -4,10 +4,18 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
 import type { Config } from '../config/config.js';
-import type { HookDefinition, HookConfig } from './types.js';
-import { HookEventName } from './types.js';
+import type {
+  HookDefinition,
+  HookConfig,
+  HookFunction,
+  ModuleHookConfig,
+} from './types.js';
+import { HookEventName, HookType } from './types.js';
 import { debugLogger } from '../utils/debugLogger.js';
+import { getErrorMessage } from '../utils/errors.js';
 
 /**
  * Error thrown when attempting to use HookRegistry before initialization
@@ -38,15 +46,34 @@ export interface HookRegistryEntry {
   eventName: HookEventName;
   matcher?: string;
   sequential?: boolean;
+  /** The hook this one follows in a `sequential` definition. */
+  runsAfter?: HookConfig;
   enabled: boolean;
 }
 
+/**
+ * Get the name of a hook, used for display and in `after` references
+ */
+export function getHookName(config: HookConfig): string {
+  if (config.name) {
+    return config.name;
+  }
+  if (config.type === HookType.Http) {
+    return config.url;
+  }
+  if (config.type === HookType.Module) {
+    return config.module;
+  }
+  return config.command || 'unknown-command';
+}
+
 /**
  * Hook registry that loads and validates hook definitions from multiple sources
  */
 export class HookRegistry {
   private readonly config: Config;
   private entries: HookRegistryEntry[] = [];
+  private hookFunctions = new WeakMap<ModuleHookConfig, HookFunction>();
   private initialized = false;
 
   constructor(config: Config) {
@@ -63,6 +90,7 @@ export class HookRegistry {
 
     this.entries = [];
     this.processHooksFromConfig();
+    await this.loadHookModules();
     this.initialized = true;
 
     debugLogger.log(
@@ -97,12 +125,19 @@ export class HookRegistry {
     return [...this.entries];
   }
 
+  /**
+   * Get the function loaded for a `module` hook
+   */
+  getHookFunction(config: ModuleHookConfig): HookFunction | undefined {
+    return this.hookFunctions.get(config);
+  }
+
   /**
    * Enable or disable a specific hook
    */
   setHookEnabled(hookName: string, enabled: boolean): void {
     const updated = this.entries.filter((entry) => {
-      const name = this.getHookName(entry);
+      const name = getHookName(entry.config);
       if (name === hookName) {
         entry.enabled = enabled;
         return true;
@@ -119,13 +154,6 @@ export class HookRegistry {
     }
   }
 
-  /**
-   * Get hook name for display purposes
-   */
-  private getHookName(entry: HookRegistryEntry): string {
-    return entry.config.command || 'unknown-command';
-  }
-
   /**
    * Process hooks from the config that was already loaded by the CLI
    */
@@ -133,7 +161,11 @@ export class HookRegistry {
     // Get hooks from the main config (this comes from the merged settings)
     const configHooks = this.config.getHooks();
     if (configHooks) {
-      this.processHooksConfiguration(configHooks, ConfigSource.Project);
+      this.processHooksConfiguration(
+        configHooks,
+        ConfigSource.Project,
+        this.config.getProjectRoot(),
+      );
     }
 
     // Get hooks from extensions
@@ -143,6 +175,7 @@ export class HookRegistry {
         this.processHooksConfiguration(
           extension.hooks,
           ConfigSource.Extensions,
+          extension.path,
         );
       }
     }
@@ -154,6 +187,7 @@ export class HookRegistry {
   private processHooksConfiguration(
     hooksConfig: { [K in HookEventName]?: HookDefinition[] },
     source: ConfigSource,
+    baseDir: string,
   ): void {
     for (const [eventName, definitions] of Object.entries(hooksConfig)) {
       if (!this.isValidEventName(eventName)) {
@@ -171,7 +205,7 @@ export class HookRegistry {
       }
 
       for (const definition of definitions) {
-        this.processHookDefinition(definition, typedEventName, source);
+        this.processHookDefinition(definition, typedEventName, source, baseDir);
       }
     }
   }
@@ -183,6 +217,7 @@ export class HookRegistry {
     definition: HookDefinition,
     eventName: HookEventName,
     source: ConfigSource,
+    baseDir: string,
   ): void {
     if (
       !definition ||
@@ -196,20 +231,30 @@ export class HookRegistry {
       return;
     }
 
+    let previous: HookConfig | undefined;
     for (const hookConfig of definition.hooks) {
       if (
         hookConfig &&
         typeof hookConfig === 'object' &&
         this.validateHookConfig(hookConfig, eventName, source)
       ) {
+        const config =
+          hookConfig.type === HookType.Module
+            ? {
+                ...hookConfig,
+                module: path.resolve(baseDir, hookConfig.module),
+              }
+            : hookConfig;
         this.entries.push({
-          config: hookConfig,
+          config,
           source,
           eventName,
           matcher: definition.matcher,
           sequential: definition.sequential,
+          runsAfter: definition.sequential ? previous : undefined,
           enabled: true,
         });
+        previous = config;
       } else {
         // Invalid hooks are logged and discarded here, they won't reach HookRunner
         debugLogger.warn(
@@ -228,7 +273,10 @@ export class HookRegistry {
     eventName: HookEventName,
     source: ConfigSource,
   ): boolean {
-    if (!config.type || !['command', 'plugin'].includes(config.type)) {
+    if (
+      !config.type ||
+      !['command', 'http', 'module', 'plugin'].includes(config.type)
+    ) {
       debugLogger.warn(
         `Invalid hook ${eventName} from ${source} type: ${config.type}`,
       );
@@ -242,9 +290,84 @@ export class HookRegistry {
       return false;
     }
 
+    if (config.type === 'module' && typeof config.module !== 'string') {
+      debugLogger.warn(
+        `Module hook ${eventName} from ${source} missing module field`,
+      );
+      return false;
+    }
+
+    if (
+      config.after !== undefined &&
+      (!Array.isArray(config.after) ||
+        !config.after.every((name) => typeof name === 'string'))
+    ) {
+      debugLogger.warn(
+        `Hook ${eventName} from ${source} has an invalid after field; it must be a list of hook names or groups`,
+      );
+      return false;
+    }
+
+    if (config.type === 'http' && !this.isValidHookUrl(config.url)) {
+      debugLogger.warn(
+        `HTTP hook ${eventName} from ${source} needs an http(s) url, got: ${config.url}`,
+      );
+      return false;
+    }
+
     return true;
   }
 
+  private isValidHookUrl(url: unknown): boolean {
+    if (typeof url !== 'string') {
+      return false;
+    }
+    try {
+      const { protocol } = new URL(url);
+      return protocol === 'http:' || protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Import the modules of `module` hooks and look up their functions. Hooks
+   * whose module or function cannot be loaded are discarded.
+   */
+  private async loadHookModules(): Promise<void> {
+    const loaded: HookRegistryEntry[] = [];
+    for (const entry of this.entries) {
+      if (entry.config.type !== HookType.Module) {
+        loaded.push(entry);
+        continue;
+      }
+
+      const { module, export: exportName } = entry.config;
+      try {
+        const exports = (await import(pathToFileURL(module).href)) as Record<
+          string,
+          unknown
+        >;
+        const hookFunction = exportName
+          ? exports[exportName]
+          : (exports[entry.eventName] ?? exports['default']);
+        if (typeof hookFunction !== 'function') {
+          debugLogger.warn(
+            `Discarding module hook ${entry.eventName} from ${entry.source}: ${module} does not export a function named ${exportName ?? `${entry.eventName} or default`}`,
+          );
+          continue;
+        }
+        this.hookFunctions.set(entry.config, hookFunction as HookFunction);
+        loaded.push(entry);
+      } catch (error) {
+        debugLogger.warn(
+          `Discarding module hook ${entry.eventName} from ${entry.source}: failed to load ${module}: ${getErrorMessage(error)}`,
+        );
+      }
+    }
+    this.entries = loaded;
+  }
+
   /**
    * Check if an event name is valid
    */
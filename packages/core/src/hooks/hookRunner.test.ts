@@ -0,0 +1,217 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { HookRunner } from './hookRunner.js';
+import type { HookRegistry } from './hookRegistry.js';
+import type { CommandHookRunner } from './commandHookRunner.js';
+import type { HttpHookRunner } from './httpHookRunner.js';
+import type { ModuleHookRunner } from './moduleHookRunner.js';
+import {
+  HookEventName,
+  HookType,
+  type CommandHookConfig,
+  type HookExecutionPlan,
+  type HookInput,
+  type HookOutput,
+  type ModuleHookConfig,
+} from './types.js';
+
+vi.mock('../utils/debugLogger.js', () => ({
+  debugLogger: { debug: vi.fn(), warn: vi.fn() },
+}));
+
+const INPUT: HookInput = {
+  session_id: 'session',
+  transcript_path: '/tmp/transcript.json',
+  cwd: '/project',
+  hook_event_name: HookEventName.BeforeTool,
+  timestamp: '2025-01-01T00:00:00.000Z',
+};
+
+function command(
+  name: string,
+  options: Partial<CommandHookConfig> = {},
+): CommandHookConfig {
+  return { type: HookType.Command, command: name, ...options };
+}
+
+function plan(...stages: CommandHookConfig[][]): HookExecutionPlan {
+  return {
+    eventName: HookEventName.BeforeTool,
+    hookConfigs: stages.flat(),
+    stages,
+    sequential: stages.every((stage) => stage.length === 1),
+  };
+}
+
+describe('HookRunner', () => {
+  let commandRunner: { execute: ReturnType<typeof vi.fn> };
+  let httpRunner: { execute: ReturnType<typeof vi.fn> };
+  let moduleRunner: { execute: ReturnType<typeof vi.fn> };
+  let registry: { getHookFunction: ReturnType<typeof vi.fn> };
+  let runner: HookRunner;
+  let outputs: Map<string, HookOutput | Error>;
+
+  beforeEach(() => {
+    outputs = new Map();
+    commandRunner = {
+      execute: vi.fn(async (hookConfig: CommandHookConfig, eventName) => {
+        const output = outputs.get(hookConfig.command);
+        return output instanceof Error
+          ? {
+              hookConfig,
+              eventName,
+              success: false,
+              duration: 1,
+              error: output,
+            }
+          : { hookConfig, eventName, success: true, duration: 1, output };
+      }),
+    };
+    httpRunner = { execute: vi.fn() };
+    moduleRunner = { execute: vi.fn() };
+    registry = { getHookFunction: vi.fn() };
+    runner = new HookRunner(
+      registry as unknown as HookRegistry,
+      commandRunner as unknown as CommandHookRunner,
+      httpRunner as unknown as HttpHookRunner,
+      moduleRunner as unknown as ModuleHookRunner,
+    );
+  });
+
+  it('should dispatch hooks to the runner for their type', async () => {
+    const hookFunction = vi.fn();
+    const moduleHook: ModuleHookConfig = {
+      type: HookType.Module,
+      module: '/project/hooks/policy.mjs',
+    };
+    registry.getHookFunction.mockReturnValue(hookFunction);
+
+    await runner.executeHook(moduleHook, HookEventName.BeforeTool, INPUT);
+    await runner.executeHook(
+      { type: HookType.Http, url: 'https://example.com' },
+      HookEventName.BeforeTool,
+      INPUT,
+    );
+
+    expect(moduleRunner.execute).toHaveBeenCalledExactlyOnceWith(
+      hookFunction,
+      moduleHook,
+      HookEventName.BeforeTool,
+      INPUT,
+      undefined,
+    );
+    expect(httpRunner.execute).toHaveBeenCalledOnce();
+    expect(commandRunner.execute).not.toHaveBeenCalled();
+  });
+
+  it('should fail module hooks that were not loaded', async () => {
+    const result = await runner.executeHook(
+      { type: HookType.Module, module: '/project/missing.mjs' },
+      HookEventName.BeforeTool,
+      INPUT,
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe(
+      'Module hook /project/missing.mjs has not been loaded.',
+    );
+  });
+
+  it('should run every stage when no hook stops the plan', async () => {
+    const a = command('a');
+    const b = command('b');
+    const c = command('c');
+    outputs.set('b', new Error('boom'));
+
+    const execution = await runner.executePlan(plan([a, b], [c]), INPUT);
+
+    expect(execution.results.map((result) => result.hookConfig)).toEqual([
+      a,
+      b,
+      c,
+    ]);
+    expect(execution.skipped).toEqual([]);
+    expect(execution.stoppedBy).toBeUndefined();
+  });
+
+  it('should skip later stages after a blocking decision', async () => {
+    const a = command('a');
+    const b = command('b');
+    const c = command('c');
+    outputs.set('b', { decision: 'deny', reason: 'Not allowed.' });
+
+    const execution = await runner.executePlan(plan([a, b], [c]), INPUT);
+
+    expect(execution.results).toHaveLength(2);
+    expect(execution.skipped).toEqual([c]);
+    expect(execution.stoppedBy).toEqual({
+      hookConfig: b,
+      reason: 'Not allowed.',
+    });
+  });
+
+  it('should treat a BeforeTool permissionDecision as a blocking decision', async () => {
+    const a = command('a');
+    outputs.set('a', {
+      hookSpecificOutput: {
+        hookEventName: 'BeforeTool',
+        permissionDecision: 'deny',
+        permissionDecisionReason: 'Not allowed.',
+      },
+    });
+
+    const execution = await runner.executePlan(
+      plan([a], [command('b')]),
+      INPUT,
+    );
+
+    expect(execution.stoppedBy).toEqual({
+      hookConfig: a,
+      reason: 'Not allowed.',
+    });
+  });
+
+  it('should skip later stages when a hook asks to stop', async () => {
+    const a = command('a');
+    outputs.set('a', { continue: false, stopReason: 'Done.' });
+
+    const execution = await runner.executePlan(
+      plan([a], [command('b')]),
+      INPUT,
+    );
+
+    expect(execution.stoppedBy).toEqual({ hookConfig: a, reason: 'Done.' });
+    expect(execution.skipped).toHaveLength(1);
+  });
+
+  it('should stop on failures of hooks with continueOnError false', async () => {
+    const a = command('a', { continueOnError: false });
+    outputs.set('a', new Error('boom'));
+
+    const execution = await runner.executePlan(
+      plan([a], [command('b')]),
+      INPUT,
+    );
+
+    expect(commandRunner.execute).toHaveBeenCalledOnce();
+    expect(execution.stoppedBy).toEqual({
+      hookConfig: a,
+      reason: 'failed: boom',
+    });
+  });
+
+  it('should keep the last execution of each event', async () => {
+    expect(runner.getLastExecution(HookEventName.BeforeTool)).toBeUndefined();
+
+    await runner.executePlan(plan([command('a')]), INPUT);
+    const last = await runner.executePlan(plan([command('b')]), INPUT);
+
+    expect(runner.getLastExecution(HookEventName.BeforeTool)).toBe(last);
+    expect(runner.getLastExecution(HookEventName.AfterTool)).toBeUndefined();
+  });
+});
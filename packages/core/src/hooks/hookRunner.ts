@@ -0,0 +1,155 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { HookRegistry } from './hookRegistry.js';
+import { getHookName } from './hookRegistry.js';
+import { CommandHookRunner } from './commandHookRunner.js';
+import { HttpHookRunner } from './httpHookRunner.js';
+import { ModuleHookRunner } from './moduleHookRunner.js';
+import {
+  createHookOutput,
+  HookType,
+  type HookConfig,
+  type HookEventName,
+  type HookExecutionPlan,
+  type HookExecutionResult,
+  type HookInput,
+  type HookPlanExecutionResult,
+} from './types.js';
+import { debugLogger } from '../utils/debugLogger.js';
+
+/**
+ * Runs hooks and execution plans, dispatching each hook to the runner for
+ * its type. Keeps the result of the last plan run for each event.
+ */
+export class HookRunner {
+  private readonly lastExecutions = new Map<
+    HookEventName,
+    HookPlanExecutionResult
+  >();
+
+  constructor(
+    private readonly hookRegistry: HookRegistry,
+    private readonly commandRunner = new CommandHookRunner(),
+    private readonly httpRunner = new HttpHookRunner(),
+    private readonly moduleRunner = new ModuleHookRunner(),
+  ) {}
+
+  /**
+   * Run a single hook
+   */
+  async executeHook(
+    hookConfig: HookConfig,
+    eventName: HookEventName,
+    input: HookInput,
+    signal?: AbortSignal,
+  ): Promise<HookExecutionResult> {
+    switch (hookConfig.type) {
+      case HookType.Http:
+        return this.httpRunner.execute(hookConfig, eventName, input, signal);
+      case HookType.Module: {
+        const hookFunction = this.hookRegistry.getHookFunction(hookConfig);
+        if (!hookFunction) {
+          return {
+            hookConfig,
+            eventName,
+            success: false,
+            duration: 0,
+            error: new Error(
+              `Module hook ${hookConfig.module} has not been loaded.`,
+            ),
+          };
+        }
+        return this.moduleRunner.execute(
+          hookFunction,
+          hookConfig,
+          eventName,
+          input,
+          signal,
+        );
+      }
+      default:
+        return this.commandRunner.execute(hookConfig, eventName, input, signal);
+    }
+  }
+
+  /**
+   * Run the stages of a plan one after another, with the hooks of a stage in
+   * parallel. Once a stage has finished, the remaining stages are skipped if
+   * one of its hooks returned a blocking decision or asked to stop, or failed
+   * with `continueOnError: false`.
+   */
+  async executePlan(
+    plan: HookExecutionPlan,
+    input: HookInput,
+    signal?: AbortSignal,
+  ): Promise<HookPlanExecutionResult> {
+    const execution: HookPlanExecutionResult = {
+      eventName: plan.eventName,
+      results: [],
+      skipped: [],
+    };
+
+    for (const [index, stage] of plan.stages.entries()) {
+      const results = await Promise.all(
+        stage.map((hookConfig) =>
+          this.executeHook(hookConfig, plan.eventName, input, signal),
+        ),
+      );
+      execution.results.push(...results);
+
+      execution.stoppedBy = this.findStop(results);
+      if (execution.stoppedBy || signal?.aborted) {
+        execution.skipped = plan.stages.slice(index + 1).flat();
+        break;
+      }
+    }
+
+    if (execution.stoppedBy) {
+      debugLogger.debug(
+        `Hook ${getHookName(execution.stoppedBy.hookConfig)} stopped ${plan.eventName}: ${execution.stoppedBy.reason}. Skipped ${execution.skipped.length} hook(s).`,
+      );
+    }
+    this.lastExecutions.set(plan.eventName, execution);
+    return execution;
+  }
+
+  /**
+   * Get the result of the last plan run for an event
+   */
+  getLastExecution(
+    eventName: HookEventName,
+  ): HookPlanExecutionResult | undefined {
+    return this.lastExecutions.get(eventName);
+  }
+
+  private findStop(
+    results: HookExecutionResult[],
+  ): HookPlanExecutionResult['stoppedBy'] {
+    for (const result of results) {
+      if (!result.success) {
+        if (result.hookConfig.continueOnError === false) {
+          return {
+            hookConfig: result.hookConfig,
+            reason: `failed: ${result.error?.message ?? 'unknown error'}`,
+          };
+        }
+        continue;
+      }
+      if (!result.output) {
+        continue;
+      }
+      const output = createHookOutput(result.eventName, result.output);
+      if (output.isBlockingDecision() || output.shouldStopExecution()) {
+        return {
+          hookConfig: result.hookConfig,
+          reason: output.getEffectiveReason(),
+        };
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { HookSystem } from './hookSystem.js';
+import { HookEventName, HookType } from './types.js';
+import type { HookConfig, HookDefinition } from './types.js';
+import type { Config } from '../config/config.js';
+import { SecretVault } from '../pii/secretVault.js';
+
+vi.mock('../utils/debugLogger.js', () => ({
+  debugLogger: { log: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}));
+
+describe('HookSystem', () => {
+  let tempDir: string;
+
+  async function createHookSystem(
+    hooks: Partial<Record<HookEventName, HookDefinition[]>>,
+    overrides: Partial<Config> = {},
+  ): Promise<HookSystem> {
+    const hookSystem = new HookSystem({
+      isAnonymizationEnabled: () => false,
+      getSessionId: () => 'test-session-id',
+      getWorkingDir: () => tempDir,
+      getProjectRoot: () => tempDir,
+      getGeminiClient: () => undefined,
+      getExtensions: () => [],
+      getHooks: () => hooks,
+      ...overrides,
+    } as unknown as Config);
+    await hookSystem.initialize();
+    return hookSystem;
+  }
+
+  function moduleHook(
+    exportName: string,
+    options: Partial<HookConfig> = {},
+  ): HookConfig {
+    return {
+      type: HookType.Module,
+      module: 'hooks.mjs',
+      export: exportName,
+      name: exportName,
+      ...options,
+    } as HookConfig;
+  }
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hook-system-test-'));
+    fs.writeFileSync(
+      path.join(tempDir, 'hooks.mjs'),
+      [
+        'export function fail() { throw new Error("Policy service is down."); }',
+        'export function deny() { return { decision: "deny", reason: "Not allowed." }; }',
+        'export function audit() {}',
+        'export function rewrite(input) {',
+        '  globalThis.hookRequest = input.llm_request;',
+        '  const [message] = input.llm_request.messages;',
+        '  return { hookSpecificOutput: { hookEventName: "BeforeModel", llm_request: { messages: [{ ...message, content: message.content + " Be brief." }] } } };',
+        '}',
+      ].join('\n'),
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should block a tool call and record the run for /hooks', async () => {
+    const hookSystem = await createHookSystem({
+      BeforeTool: [
+        {
+          matcher: 'run_shell_command',
+          hooks: [moduleHook('deny'), moduleHook('audit', { after: ['deny'] })],
+        },
+      ],
+    });
+
+    await expect(
+      hookSystem.fireBeforeToolEvent('run_shell_command', { command: 'ls' }),
+    ).resolves.toBe('Not allowed.');
+    await expect(
+      hookSystem.fireBeforeToolEvent('read_file', { file_path: 'a.txt' }),
+    ).resolves.toBeUndefined();
+
+    const execution = hookSystem.getLastExecution(HookEventName.BeforeTool);
+    expect(execution?.stoppedBy).toMatchObject({ reason: 'Not allowed.' });
+    expect(execution?.skipped).toEqual([
+      expect.objectContaining({ name: 'audit' }),
+    ]);
+  });
+
+  it('should skip the remaining hooks after a failure only with continueOnError false', async () => {
+    const hookSystem = await createHookSystem({
+      BeforeTool: [
+        {
+          sequential: true,
+          hooks: [
+            moduleHook('fail', { continueOnError: false }),
+            moduleHook('audit'),
+          ],
+        },
+      ],
+      AfterTool: [
+        { sequential: true, hooks: [moduleHook('fail'), moduleHook('audit')] },
+      ],
+    });
+
+    await expect(
+      hookSystem.fireBeforeToolEvent('read_file', {}),
+    ).resolves.toBeUndefined();
+    await hookSystem.fireEvent(HookEventName.AfterTool, {
+      session_id: 'test-session-id',
+      transcript_path: '',
+      cwd: tempDir,
+      hook_event_name: HookEventName.AfterTool,
+      timestamp: new Date().toISOString(),
+    });
+
+    expect(hookSystem.getLastExecution(HookEventName.BeforeTool)).toMatchObject(
+      {
+        stoppedBy: { reason: 'failed: Policy service is down.' },
+        skipped: [expect.objectContaining({ name: 'audit' })],
+      },
+    );
+    const afterTool = hookSystem.getLastExecution(HookEventName.AfterTool);
+    expect(afterTool?.stoppedBy).toBeUndefined();
+    expect(afterTool?.results.map((result) => result.success)).toEqual([
+      false,
+      true,
+    ]);
+  });
+
+  it('should only show model hooks redacted secrets and restore them in their changes', async () => {
+    const vault = new SecretVault();
+    const hookSystem = await createHookSystem(
+      { BeforeModel: [{ hooks: [moduleHook('rewrite')] }] },
+      {
+        isAnonymizationEnabled: () => true,
+        getSecretVault: () => vault,
+        getRedactionRules: () => [
+          { name: 'Test Token', pattern: () => /tok_[a-z0-9]+/g },
+        ],
+      },
+    );
+
+    const { request } = await hookSystem.fireBeforeModelEvent({
+      model: 'gemini-2.5-pro',
+      contents: [
+        { role: 'user', parts: [{ text: 'Deploy with tok_abc123.' }] },
+      ],
+      config: { systemInstruction: 'Never print tok_abc123.' },
+    });
+
+    const hookRequest = (globalThis as { hookRequest?: unknown }).hookRequest;
+    expect(JSON.stringify(hookRequest)).not.toContain('tok_abc123');
+    expect(hookRequest).toMatchObject({
+      messages: [
+        { role: 'user', content: 'Deploy with <<SECRET_TEST_TOKEN_1>>.' },
+      ],
+    });
+    expect(request.contents).toEqual([
+      { role: 'user', parts: [{ text: 'Deploy with tok_abc123. Be brief.' }] },
+    ]);
+    expect(request.config?.systemInstruction).toBe('Never print tok_abc123.');
+  });
+});
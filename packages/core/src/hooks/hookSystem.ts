@@ -0,0 +1,278 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  GenerateContentParameters,
+  GenerateContentResponse,
+} from '@google/genai';
+import type { Config } from '../config/config.js';
+import { HookRegistry } from './hookRegistry.js';
+import { HookPlanner, type HookEventContext } from './hookPlanner.js';
+import { HookRunner } from './hookRunner.js';
+import { defaultHookTranslator, type LLMRequest } from './hookTranslator.js';
+import {
+  AfterModelHookOutput,
+  BeforeModelHookOutput,
+  BeforeToolHookOutput,
+  HookEventName,
+  type AfterModelInput,
+  type BeforeModelInput,
+  type BeforeToolInput,
+  type HookExecutionPlan,
+  type HookInput,
+  type HookPlanExecutionResult,
+  type NotificationInput,
+  type NotificationType,
+} from './types.js';
+import { debugLogger } from '../utils/debugLogger.js';
+import { Redactor } from '../pii/redactor.js';
+
+/**
+ * Entry point to the hook system: owns the registry, planner and runner for a
+ * session.
+ */
+export class HookSystem {
+  private readonly config: Config;
+  private readonly hookRegistry: HookRegistry;
+  private readonly hookPlanner: HookPlanner;
+  private readonly hookRunner: HookRunner;
+
+  constructor(config: Config) {
+    this.config = config;
+    this.hookRegistry = new HookRegistry(config);
+    this.hookPlanner = new HookPlanner(this.hookRegistry);
+    this.hookRunner = new HookRunner(this.hookRegistry);
+  }
+
+  async initialize(): Promise<void> {
+    await this.hookRegistry.initialize();
+  }
+
+  getRegistry(): HookRegistry {
+    return this.hookRegistry;
+  }
+
+  /**
+   * Create the execution plan for an event, or null if no hooks match
+   */
+  createPlan(
+    eventName: HookEventName,
+    context?: HookEventContext,
+  ): HookExecutionPlan | null {
+    return this.hookPlanner.createExecutionPlan(eventName, context);
+  }
+
+  /**
+   * Run the hooks matching an event
+   */
+  async fireEvent(
+    eventName: HookEventName,
+    input: HookInput,
+    context?: HookEventContext,
+    signal?: AbortSignal,
+  ): Promise<HookPlanExecutionResult | undefined> {
+    const plan = this.createPlan(eventName, context);
+    return plan ? this.hookRunner.executePlan(plan, input, signal) : undefined;
+  }
+
+  /**
+   * Get the result of the last run of an event's hooks
+   */
+  getLastExecution(
+    eventName: HookEventName,
+  ): HookPlanExecutionResult | undefined {
+    return this.hookRunner.getLastExecution(eventName);
+  }
+
+  /**
+   * Run the BeforeTool hooks for a tool call. Returns the reason given by the
+   * first hook that blocked the call, or undefined if the call may run.
+   */
+  async fireBeforeToolEvent(
+    toolName: string,
+    toolInput: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<string | undefined> {
+    const input: BeforeToolInput = {
+      ...this.createBaseInput(HookEventName.BeforeTool),
+      tool_name: toolName,
+      tool_input: toolInput,
+    };
+    const execution = await this.fireEvent(
+      HookEventName.BeforeTool,
+      input,
+      { toolName },
+      signal,
+    );
+    for (const result of execution?.results ?? []) {
+      if (!result.success || !result.output) {
+        continue;
+      }
+      const output = new BeforeToolHookOutput(result.output);
+      if (output.isBlockingDecision()) {
+        return output.getEffectiveReason();
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Run the Notification hooks. Failures are logged and never reach the
+   * caller, as notifications do not affect the agent.
+   */
+  async fireNotificationEvent(
+    notificationType: NotificationType,
+    message: string,
+    details: Record<string, unknown>,
+  ): Promise<void> {
+    const input: NotificationInput = {
+      ...this.createBaseInput(HookEventName.Notification),
+      notification_type: notificationType,
+      message,
+      details,
+    };
+    try {
+      await this.fireEvent(HookEventName.Notification, input, {
+        trigger: notificationType,
+      });
+    } catch (error) {
+      debugLogger.warn(`Notification hooks failed: ${error}`);
+    }
+  }
+
+  /**
+   * Run the BeforeModel hooks for a request. Returns the request with the
+   * hooks' changes applied and, when a hook provided a response or blocked the
+   * call, the response to use instead of calling the model.
+   */
+  async fireBeforeModelEvent(
+    request: GenerateContentParameters,
+    signal?: AbortSignal,
+  ): Promise<{
+    request: GenerateContentParameters;
+    response?: GenerateContentResponse;
+  }> {
+    const plan = this.createPlan(HookEventName.BeforeModel);
+    if (!plan) {
+      return { request };
+    }
+    const input: BeforeModelInput = {
+      ...this.createBaseInput(HookEventName.BeforeModel),
+      llm_request: this.toHookLLMRequest(request),
+    };
+    const execution = await this.hookRunner.executePlan(plan, input, signal);
+
+    let modifiedRequest = request;
+    for (const result of execution.results) {
+      if (!result.success || !result.output) {
+        continue;
+      }
+      const output = new BeforeModelHookOutput(result.output);
+      const response = output.getSyntheticResponse();
+      if (response) {
+        return { request: modifiedRequest, response };
+      }
+      if (output.isBlockingDecision() || output.shouldStopExecution()) {
+        return {
+          request: modifiedRequest,
+          response: createStopResponse(output.getEffectiveReason()),
+        };
+      }
+      const applied = output.applyLLMRequestModifications(modifiedRequest);
+      modifiedRequest =
+        applied.contents === modifiedRequest.contents
+          ? applied
+          : {
+              ...applied,
+              contents: this.config
+                .getSecretVault()
+                .restoreValue(applied.contents),
+            };
+    }
+    return { request: modifiedRequest };
+  }
+
+  /**
+   * Run the AfterModel hooks for a chunk of a model response. Returns the
+   * chunk with the hooks' changes applied, and whether a hook asked to end
+   * the response.
+   */
+  async fireAfterModelEvent(
+    request: GenerateContentParameters,
+    response: GenerateContentResponse,
+    signal?: AbortSignal,
+  ): Promise<{ response: GenerateContentResponse; stop: boolean }> {
+    const plan = this.createPlan(HookEventName.AfterModel);
+    if (!plan) {
+      return { response, stop: false };
+    }
+    const input: AfterModelInput = {
+      ...this.createBaseInput(HookEventName.AfterModel),
+      llm_request: this.toHookLLMRequest(request),
+      llm_response: defaultHookTranslator.toHookLLMResponse(response),
+    };
+    const execution = await this.hookRunner.executePlan(plan, input, signal);
+
+    let modifiedResponse = response;
+    for (const result of execution.results) {
+      if (!result.success || !result.output) {
+        continue;
+      }
+      const output = new AfterModelHookOutput(result.output);
+      modifiedResponse = output.getModifiedResponse() ?? modifiedResponse;
+      if (output.shouldStopExecution()) {
+        return { response: modifiedResponse, stop: true };
+      }
+    }
+    return { response: modifiedResponse, stop: false };
+  }
+
+  /**
+   * Model hooks run above the redacting content generator, so secrets are
+   * replaced by the session's placeholders here as well. Messages a hook
+   * sends back have their placeholders restored in `fireBeforeModelEvent`.
+   */
+  private toHookLLMRequest(request: GenerateContentParameters): LLMRequest {
+    if (!this.config.isAnonymizationEnabled()) {
+      return defaultHookTranslator.toHookLLMRequest(request);
+    }
+    const redactor = new Redactor(
+      this.config.getRedactionRules(),
+      this.config.getSecretVault(),
+    );
+    return defaultHookTranslator.toHookLLMRequest(
+      redactor.redactRequest(request),
+    );
+  }
+
+  private createBaseInput(eventName: HookEventName): HookInput {
+    return {
+      session_id: this.config.getSessionId(),
+      transcript_path:
+        this.config
+          .getGeminiClient()
+          ?.getChatRecordingService()
+          ?.getConversationFilePath() ?? '',
+      cwd: this.config.getWorkingDir(),
+      hook_event_name: eventName,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * A model response that ends the turn with the given text.
+ */
+function createStopResponse(text: string): GenerateContentResponse {
+  return defaultHookTranslator.fromHookLLMResponse({
+    candidates: [
+      {
+        content: { role: 'model', parts: [text] },
+        finishReason: 'STOP',
+      },
+    ],
+  });
+}
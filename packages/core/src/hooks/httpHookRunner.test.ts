@@ -0,0 +1,220 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { HttpHookRunner } from './httpHookRunner.js';
+import {
+  HookEventName,
+  HookType,
+  type BeforeToolInput,
+  type HttpHookConfig,
+} from './types.js';
+import { delay } from '../utils/delay.js';
+
+vi.mock('../utils/delay.js', () => ({
+  delay: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../utils/debugLogger.js', () => ({
+  debugLogger: { debug: vi.fn(), warn: vi.fn() },
+}));
+
+const HOOK: HttpHookConfig = {
+  type: HookType.Http,
+  url: 'https://policy.example.com/hooks',
+};
+
+const INPUT: BeforeToolInput = {
+  session_id: 'session',
+  transcript_path: '/tmp/transcript.json',
+  cwd: '/project',
+  hook_event_name: HookEventName.BeforeTool,
+  timestamp: '2025-01-01T00:00:00.000Z',
+  tool_name: 'run_shell_command',
+  tool_input: { command: 'rm -rf /' },
+};
+
+describe('HttpHookRunner', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let runner: HttpHookRunner;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    runner = new HttpHookRunner({ POLICY_TOKEN: 'Bearer secret' });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should POST the hook input and return the JSON output', async () => {
+    fetchMock.mockResolvedValue(
+      new Response(JSON.stringify({ decision: 'allow', reason: 'Safe.' })),
+    );
+
+    const result = await runner.execute(
+      {
+        ...HOOK,
+        headers: { 'X-Team': 'security' },
+        envHeaders: { Authorization: 'POLICY_TOKEN', 'X-Missing': 'NOPE' },
+      },
+      HookEventName.BeforeTool,
+      INPUT,
+    );
+
+    expect(fetchMock).toHaveBeenCalledExactlyOnceWith(HOOK.url, {
+      method: 'POST',
+      headers: {
+        'X-Team': 'security',
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        Authorization: 'Bearer secret',
+      },
+      body: JSON.stringify(INPUT),
+      signal: expect.any(AbortSignal),
+    });
+    expect(result).toMatchObject({
+      eventName: HookEventName.BeforeTool,
+      success: true,
+      statusCode: 200,
+      output: { decision: 'allow', reason: 'Safe.' },
+    });
+  });
+
+  it('should succeed without output on an empty response', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+
+    const result = await runner.execute(HOOK, HookEventName.AfterTool, INPUT);
+
+    expect(result.success).toBe(true);
+    expect(result.output).toBeUndefined();
+  });
+
+  it('should map 403 responses to a deny decision', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ reason: 'Destructive command.' }), {
+          status: 403,
+        }),
+      )
+      .mockResolvedValueOnce(new Response('', { status: 403 }));
+
+    const withReason = await runner.execute(
+      HOOK,
+      HookEventName.BeforeTool,
+      INPUT,
+    );
+    const withoutReason = await runner.execute(
+      HOOK,
+      HookEventName.BeforeTool,
+      INPUT,
+    );
+
+    expect(withReason).toMatchObject({
+      success: true,
+      statusCode: 403,
+      output: { decision: 'deny', reason: 'Destructive command.' },
+    });
+    expect(withoutReason.output).toEqual({
+      decision: 'deny',
+      reason: `Denied by ${HOOK.url}`,
+    });
+  });
+
+  it('should retry server errors with backoff', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response('', { status: 503 }))
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(new Response('{"decision":"block"}'));
+
+    const result = await runner.execute(HOOK, HookEventName.BeforeTool, INPUT);
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(vi.mocked(delay).mock.calls.map(([ms]) => ms)).toEqual([500, 1000]);
+    expect(result).toMatchObject({
+      success: true,
+      output: { decision: 'block' },
+    });
+  });
+
+  it('should fail once the retries are used up', async () => {
+    fetchMock.mockImplementation(async () => new Response('', { status: 500 }));
+
+    const result = await runner.execute(
+      { ...HOOK, retries: 1 },
+      HookEventName.BeforeTool,
+      INPUT,
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ success: false, statusCode: 500 });
+    expect(result.error?.message).toBe('HTTP hook responded with status 500.');
+  });
+
+  it('should not retry client errors or invalid responses', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response('bad input', { status: 400 }))
+      .mockResolvedValueOnce(new Response('ok'));
+
+    const badRequest = await runner.execute(
+      HOOK,
+      HookEventName.BeforeTool,
+      INPUT,
+    );
+    const notJson = await runner.execute(HOOK, HookEventName.BeforeTool, INPUT);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(badRequest.error?.message).toBe(
+      'HTTP hook responded with status 400: bad input',
+    );
+    expect(notJson).toMatchObject({ success: false, statusCode: 200 });
+    expect(notJson.error?.message).toBe(
+      'HTTP hook response is not a JSON object.',
+    );
+  });
+
+  it('should time out slow requests', async () => {
+    fetchMock.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal!.addEventListener('abort', () =>
+            reject(new DOMException('Aborted', 'AbortError')),
+          );
+        }),
+    );
+
+    const result = await runner.execute(
+      { ...HOOK, timeout: 10, retries: 0 },
+      HookEventName.BeforeTool,
+      INPUT,
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe(
+      'HTTP hook request timed out after 10ms.',
+    );
+  });
+
+  it('should stop when the caller aborts', async () => {
+    const controller = new AbortController();
+    fetchMock.mockImplementation(() => {
+      controller.abort();
+      return Promise.reject(new DOMException('Aborted', 'AbortError'));
+    });
+
+    const result = await runner.execute(
+      HOOK,
+      HookEventName.BeforeTool,
+      INPUT,
+      controller.signal,
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(result.error?.message).toBe('HTTP hook request was cancelled.');
+  });
+});
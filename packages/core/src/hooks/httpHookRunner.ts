@@ -0,0 +1,230 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  HookEventName,
+  HookExecutionResult,
+  HookInput,
+  HookOutput,
+  HttpHookConfig,
+} from './types.js';
+import { delay } from '../utils/delay.js';
+import { debugLogger } from '../utils/debugLogger.js';
+import { getErrorMessage } from '../utils/errors.js';
+
+export const DEFAULT_HTTP_HOOK_TIMEOUT_MS = 30_000;
+export const DEFAULT_HTTP_HOOK_RETRIES = 2;
+const INITIAL_RETRY_DELAY_MS = 500;
+
+const RETRYABLE_STATUS_CODES = new Set([408, 429]);
+
+/**
+ * Error for a failed request, noting whether repeating it may succeed.
+ */
+class HttpHookError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+    readonly statusCode?: number,
+  ) {
+    super(message);
+    this.name = 'HttpHookError';
+  }
+}
+
+/**
+ * Runs `http` hooks by POSTing the hook input to the configured URL.
+ *
+ * The response maps to the hook result as follows:
+ * - 2xx with a JSON object body: the body is the `HookOutput`.
+ * - 2xx with an empty body: success without output.
+ * - 403: a `deny` decision, with the body's `reason` or text as the reason.
+ * - 408, 429, 5xx, network errors and timeouts: retried, then a failure.
+ * - Anything else: a failure.
+ */
+export class HttpHookRunner {
+  /**
+   * @param env The environment `envHeaders` are read from.
+   */
+  constructor(private readonly env: NodeJS.ProcessEnv = process.env) {}
+
+  async execute(
+    hookConfig: HttpHookConfig,
+    eventName: HookEventName,
+    input: HookInput,
+    signal?: AbortSignal,
+  ): Promise<HookExecutionResult> {
+    const startTime = Date.now();
+    const retries = hookConfig.retries ?? DEFAULT_HTTP_HOOK_RETRIES;
+    const body = JSON.stringify(input);
+    const headers = this.buildHeaders(hookConfig);
+
+    let retryDelay = INITIAL_RETRY_DELAY_MS;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const { statusCode, output } = await this.post(
+          hookConfig,
+          headers,
+          body,
+          signal,
+        );
+        return {
+          hookConfig,
+          eventName,
+          success: true,
+          output,
+          statusCode,
+          duration: Date.now() - startTime,
+        };
+      } catch (error) {
+        const canRetry =
+          error instanceof HttpHookError &&
+          error.retryable &&
+          attempt < retries &&
+          !signal?.aborted;
+        if (canRetry) {
+          debugLogger.debug(
+            `HTTP hook ${hookConfig.url} attempt ${attempt + 1} failed: ${error.message}. Retrying in ${retryDelay}ms.`,
+          );
+          try {
+            await delay(retryDelay, signal);
+          } catch {
+            // Aborted while waiting; the next attempt reports it.
+          }
+          retryDelay *= 2;
+          continue;
+        }
+        return {
+          hookConfig,
+          eventName,
+          success: false,
+          statusCode:
+            error instanceof HttpHookError ? error.statusCode : undefined,
+          duration: Date.now() - startTime,
+          error: error instanceof Error ? error : new Error(String(error)),
+        };
+      }
+    }
+  }
+
+  private buildHeaders(hookConfig: HttpHookConfig): Record<string, string> {
+    const headers: Record<string, string> = {
+      ...hookConfig.headers,
+      'Content-Type': 'application/json',
+      Accept: 'application/json',
+    };
+    for (const [header, variable] of Object.entries(
+      hookConfig.envHeaders ?? {},
+    )) {
+      const value = this.env[variable];
+      if (value === undefined) {
+        debugLogger.warn(
+          `HTTP hook ${hookConfig.url}: environment variable ${variable} for header ${header} is not set.`,
+        );
+        continue;
+      }
+      headers[header] = value;
+    }
+    return headers;
+  }
+
+  private async post(
+    hookConfig: HttpHookConfig,
+    headers: Record<string, string>,
+    body: string,
+    signal?: AbortSignal,
+  ): Promise<{ statusCode: number; output?: HookOutput }> {
+    const timeout = hookConfig.timeout ?? DEFAULT_HTTP_HOOK_TIMEOUT_MS;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let response: Response;
+    let text: string;
+    try {
+      response = await fetch(hookConfig.url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: controller.signal,
+      });
+      text = (await response.text()).trim();
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new HttpHookError('HTTP hook request was cancelled.', false);
+      }
+      if (controller.signal.aborted) {
+        throw new HttpHookError(
+          `HTTP hook request timed out after ${timeout}ms.`,
+          true,
+        );
+      }
+      throw new HttpHookError(
+        `HTTP hook request failed: ${getErrorMessage(error)}`,
+        true,
+      );
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    const { status } = response;
+    if (status === 403) {
+      const reason = parseJsonObject(text)?.['reason'];
+      return {
+        statusCode: status,
+        output: {
+          decision: 'deny',
+          reason:
+            typeof reason === 'string'
+              ? reason
+              : text || `Denied by ${hookConfig.url}`,
+        },
+      };
+    }
+    if (RETRYABLE_STATUS_CODES.has(status) || status >= 500) {
+      throw new HttpHookError(
+        `HTTP hook responded with status ${status}.`,
+        true,
+        status,
+      );
+    }
+    if (!response.ok) {
+      throw new HttpHookError(
+        `HTTP hook responded with status ${status}: ${text}`,
+        false,
+        status,
+      );
+    }
+
+    if (!text) {
+      return { statusCode: status };
+    }
+    const output = parseJsonObject(text);
+    if (!output) {
+      throw new HttpHookError(
+        'HTTP hook response is not a JSON object.',
+        false,
+        status,
+      );
+    }
+    return { statusCode: status, output: output as HookOutput };
+  }
+}
+
+function parseJsonObject(text: string): Record<string, unknown> | undefined {
+  try {
+    const parsed: unknown = JSON.parse(text);
+    return typeof parsed === 'object' &&
+      parsed !== null &&
+      !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ModuleHookRunner } from './moduleHookRunner.js';
+import {
+  HookEventName,
+  HookType,
+  type BeforeModelInput,
+  type HookFunction,
+  type ModuleHookConfig,
+} from './types.js';
+
+const HOOK: ModuleHookConfig = {
+  type: HookType.Module,
+  module: '/project/hooks/model.mjs',
+};
+
+const INPUT: BeforeModelInput = {
+  session_id: 'session',
+  transcript_path: '/tmp/transcript.json',
+  cwd: '/project',
+  hook_event_name: HookEventName.BeforeModel,
+  timestamp: '2025-01-01T00:00:00.000Z',
+  llm_request: {
+    model: 'gemini-2.5-pro',
+    messages: [{ role: 'user', content: 'Hello' }],
+  },
+};
+
+describe('ModuleHookRunner', () => {
+  const runner = new ModuleHookRunner();
+
+  it('should pass the input by reference and return the output as is', async () => {
+    const output = {
+      hookSpecificOutput: {
+        hookEventName: 'BeforeModel' as const,
+        llm_request: { config: { temperature: 0 } },
+      },
+    };
+    const hook = vi.fn<HookFunction<'BeforeModel'>>().mockResolvedValue(output);
+
+    const result = await runner.execute(
+      hook as HookFunction,
+      HOOK,
+      HookEventName.BeforeModel,
+      INPUT,
+    );
+
+    expect(hook).toHaveBeenCalledExactlyOnceWith(INPUT, {
+      signal: expect.any(AbortSignal),
+    });
+    expect(hook.mock.calls[0][0]).toBe(INPUT);
+    expect(result).toMatchObject({
+      hookConfig: HOOK,
+      eventName: HookEventName.BeforeModel,
+      success: true,
+    });
+    expect(result.output).toBe(output);
+  });
+
+  it('should accept synchronous hooks that return nothing', async () => {
+    const result = await runner.execute(
+      () => undefined,
+      HOOK,
+      HookEventName.BeforeModel,
+      INPUT,
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.output).toBeUndefined();
+  });
+
+  it('should report errors and invalid outputs', async () => {
+    const thrown = await runner.execute(
+      () => {
+        throw new Error('boom');
+      },
+      HOOK,
+      HookEventName.BeforeModel,
+      INPUT,
+    );
+    const invalid = await runner.execute(
+      (() => 'allow') as unknown as HookFunction,
+      HOOK,
+      HookEventName.BeforeModel,
+      INPUT,
+    );
+
+    expect(thrown).toMatchObject({ success: false, error: new Error('boom') });
+    expect(invalid.error?.message).toBe(
+      'Module hook must return an object or nothing.',
+    );
+  });
+
+  it('should time out and abort slow hooks', async () => {
+    let hookSignal: AbortSignal | undefined;
+    const result = await runner.execute(
+      (_input, { signal }) => {
+        hookSignal = signal;
+        return new Promise(() => {});
+      },
+      { ...HOOK, timeout: 10 },
+      HookEventName.BeforeModel,
+      INPUT,
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe('Module hook timed out after 10ms.');
+    expect(hookSignal?.aborted).toBe(true);
+  });
+
+  it('should stop when the caller aborts', async () => {
+    const controller = new AbortController();
+    const result = await runner.execute(
+      () => {
+        controller.abort();
+        return new Promise(() => {});
+      },
+      HOOK,
+      HookEventName.BeforeModel,
+      INPUT,
+      controller.signal,
+    );
+
+    expect(result.error?.message).toBe('Module hook was cancelled.');
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  HookEventName,
+  HookExecutionResult,
+  HookFunction,
+  HookInput,
+  HookOutput,
+  ModuleHookConfig,
+} from './types.js';
+import { getErrorMessage } from '../utils/errors.js';
+
+export const DEFAULT_MODULE_HOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * Runs `module` hooks by calling the function the {@link HookRegistry} loaded
+ * for them. The input and output are passed by reference, so a hook costs no
+ * more than a function call.
+ */
+export class ModuleHookRunner {
+  async execute(
+    hookFunction: HookFunction,
+    hookConfig: ModuleHookConfig,
+    eventName: HookEventName,
+    input: HookInput,
+    signal?: AbortSignal,
+  ): Promise<HookExecutionResult> {
+    const startTime = Date.now();
+    const timeout = hookConfig.timeout ?? DEFAULT_MODULE_HOOK_TIMEOUT_MS;
+    const controller = new AbortController();
+
+    // Settles when the hook has to stop: on timeout or cancellation.
+    let timeoutId: NodeJS.Timeout | undefined;
+    let onAbort: (() => void) | undefined;
+    const stopped = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`Module hook timed out after ${timeout}ms.`));
+      }, timeout);
+      onAbort = () => {
+        controller.abort();
+        reject(new Error('Module hook was cancelled.'));
+      };
+      if (signal?.aborted) {
+        onAbort();
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    try {
+      const output = await Promise.race([
+        // Hook functions are typed per event; the registry matched this one
+        // to `eventName`.
+        Promise.resolve(
+          (hookFunction as (...args: unknown[]) => unknown)(input, {
+            signal: controller.signal,
+          }),
+        ),
+        stopped,
+      ]);
+      if (
+        output !== undefined &&
+        (typeof output !== 'object' || output === null)
+      ) {
+        throw new Error('Module hook must return an object or nothing.');
+      }
+      return {
+        hookConfig,
+        eventName,
+        success: true,
+        output: output as HookOutput | undefined,
+        duration: Date.now() - startTime,
+      };
+    } catch (error) {
+      return {
+        hookConfig,
+        eventName,
+        success: false,
+        duration: Date.now() - startTime,
+        error:
+          error instanceof Error ? error : new Error(getErrorMessage(error)),
+      };
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort!);
+    }
+  }
+}
@@ -34,22 +34,81 @@ export enum HookEventName {
   BeforeToolSelection = 'BeforeToolSelection',
 }
 
+/**
+ * Options shared by all hook types that order a hook relative to the other
+ * hooks of the same event.
+ */
+export interface HookOrderingOptions {
+  /**
+   * Name that other hooks can list in `after`. Defaults to the command, url
+   * or module of the hook.
+   */
+  name?: string;
+  /** Group that other hooks can list in `after` to wait for all its hooks. */
+  group?: string;
+  /** Names or groups of the hooks that must finish before this one starts. */
+  after?: string[];
+  /** Whether the remaining hooks still run if this one fails. Defaults to true. */
+  continueOnError?: boolean;
+}
+
 /**
  * Hook configuration entry
  */
-export interface CommandHookConfig {
+export interface CommandHookConfig extends HookOrderingOptions {
   type: HookType.Command;
   command: string;
   timeout?: number;
 }
 
-export type HookConfig = CommandHookConfig;
+/**
+ * Hook that POSTs its `HookInput` as JSON to a URL and reads the `HookOutput`
+ * from the response body.
+ */
+export interface HttpHookConfig extends HookOrderingOptions {
+  type: HookType.Http;
+  url: string;
+  /** Static headers sent with every request. */
+  headers?: Record<string, string>;
+  /**
+   * Headers read from environment variables when the request is made, as a
+   * map of header name to variable name, e.g. `{"Authorization": "POLICY_TOKEN"}`.
+   */
+  envHeaders?: Record<string, string>;
+  /** Timeout for each attempt in milliseconds. */
+  timeout?: number;
+  /** Retries after a network error, a timeout, or a 408, 429 or 5xx response. */
+  retries?: number;
+}
+
+/**
+ * Hook implemented by a function exported from an ES module and run
+ * in-process. See {@link HookFunction}.
+ */
+export interface ModuleHookConfig extends HookOrderingOptions {
+  type: HookType.Module;
+  /**
+   * Path of the module. Relative paths resolve against the project root, or
+   * against the extension directory for extension hooks.
+   */
+  module: string;
+  /**
+   * The exported function to call. Defaults to the export named after the
+   * event, e.g. `BeforeModel`, then to the default export.
+   */
+  export?: string;
+  /** Timeout in milliseconds. */
+  timeout?: number;
+}
+
+export type HookConfig = CommandHookConfig | HttpHookConfig | ModuleHookConfig;
 
 /**
  * Hook definition with matcher
  */
 export interface HookDefinition {
   matcher?: string;
+  /** Run the hooks of this definition one after another, in order. */
   sequential?: boolean;
   hooks: HookConfig[];
 }
@@ -59,6 +118,8 @@ export interface HookDefinition {
  */
 export enum HookType {
   Command = 'command',
+  Http = 'http',
+  Module = 'module',
 }
 
 /**
@@ -105,6 +166,8 @@ export function createHookOutput(
   data: Partial<HookOutput>,
 ): DefaultHookOutput {
   switch (eventName) {
+    case 'BeforeTool':
+      return new BeforeToolHookOutput(data);
     case 'BeforeModel':
       return new BeforeModelHookOutput(data);
     case 'AfterModel':
@@ -273,7 +336,9 @@ export class BeforeModelHookOutput extends DefaultHookOutput {
   }
 
   /**
-   * Apply modifications to LLM request
+   * Apply modifications to LLM request. Only the fields the hook returned are
+   * changed: `messages` replaces the contents, and `config` and `toolConfig`
+   * are merged into the request's config.
    */
   override applyLLMRequestModifications(
     target: GenerateContentParameters,
@@ -283,15 +348,33 @@ export class BeforeModelHookOutput extends DefaultHookOutput {
         'llm_request'
       ] as Partial<LLMRequest>;
       if (hookRequest) {
-        // Convert hook format to SDK format
-        const sdkRequest = defaultHookTranslator.fromHookLLMRequest(
-          hookRequest as LLMRequest,
-          target,
-        );
-        return {
-          ...target,
-          ...sdkRequest,
-        };
+        const result: GenerateContentParameters = { ...target };
+        if (hookRequest.model) {
+          result.model = hookRequest.model;
+        }
+        if (hookRequest.messages) {
+          // Convert hook format to SDK format
+          result.contents = defaultHookTranslator.fromHookLLMRequest({
+            model: result.model,
+            messages: hookRequest.messages,
+          }).contents;
+        }
+        if (hookRequest.config || hookRequest.toolConfig) {
+          result.config = {
+            ...target.config,
+            ...Object.fromEntries(
+              Object.entries(hookRequest.config ?? {}).filter(
+                ([, value]) => value !== undefined,
+              ),
+            ),
+          };
+          if (hookRequest.toolConfig) {
+            result.config.toolConfig = defaultHookTranslator.fromHookToolConfig(
+              hookRequest.toolConfig,
+            );
+          }
+        }
+        return result;
       }
     }
     return target;
@@ -577,6 +660,59 @@ export interface BeforeToolSelectionOutput extends HookOutput {
   };
 }
 
+/**
+ * The input and output types of each event, for typing hook functions.
+ */
+export interface HookEventTypes {
+  BeforeTool: { input: BeforeToolInput; output: BeforeToolOutput };
+  AfterTool: { input: AfterToolInput; output: AfterToolOutput };
+  BeforeAgent: { input: BeforeAgentInput; output: BeforeAgentOutput };
+  Notification: { input: NotificationInput; output: NotificationOutput };
+  AfterAgent: { input: AfterAgentInput; output: HookOutput };
+  SessionStart: { input: SessionStartInput; output: SessionStartOutput };
+  SessionEnd: { input: SessionEndInput; output: HookOutput };
+  PreCompress: { input: PreCompressInput; output: PreCompressOutput };
+  BeforeModel: { input: BeforeModelInput; output: BeforeModelOutput };
+  AfterModel: { input: AfterModelInput; output: AfterModelOutput };
+  BeforeToolSelection: {
+    input: BeforeToolSelectionInput;
+    output: BeforeToolSelectionOutput;
+  };
+}
+
+/**
+ * Context passed to in-process hook functions.
+ */
+export interface HookFunctionContext {
+  /** Aborted when the hook times out or the operation is cancelled. */
+  signal: AbortSignal;
+}
+
+/**
+ * A hook function exported by a `module` hook.
+ *
+ * The input is passed by reference and the returned output is used as is,
+ * without JSON serialization. Returning nothing is the same as an empty
+ * output.
+ *
+ * @example
+ * export const BeforeModel: HookFunction<'BeforeModel'> = (input) => ({
+ *   hookSpecificOutput: {
+ *     hookEventName: 'BeforeModel',
+ *     llm_request: { config: { temperature: 0 } },
+ *   },
+ * });
+ */
+export type HookFunction<
+  E extends keyof HookEventTypes = keyof HookEventTypes,
+> = (
+  input: HookEventTypes[E]['input'],
+  context: HookFunctionContext,
+) =>
+  | HookEventTypes[E]['output']
+  | void
+  | Promise<HookEventTypes[E]['output'] | void>;
+
 /**
  * Hook execution result
  */
@@ -588,6 +724,8 @@ export interface HookExecutionResult {
   stdout?: string;
   stderr?: string;
   exitCode?: number;
+  /** The HTTP status of the last response, for `http` hooks. */
+  statusCode?: number;
   duration: number;
   error?: Error;
 }
@@ -597,6 +735,26 @@ export interface HookExecutionResult {
  */
 export interface HookExecutionPlan {
   eventName: HookEventName;
+  /** All hooks of the plan, in execution order. */
   hookConfigs: HookConfig[];
+  /**
+   * The hooks grouped by dependency depth. Stages run one after another and
+   * the hooks within a stage run in parallel.
+   */
+  stages: HookConfig[][];
+  /** True when no two hooks run in parallel. */
   sequential: boolean;
 }
+
+/**
+ * Outcome of running a hook execution plan
+ */
+export interface HookPlanExecutionResult {
+  eventName: HookEventName;
+  /** Results of the hooks that ran, in plan order. */
+  results: HookExecutionResult[];
+  /** Hooks that did not run because an earlier hook stopped the plan. */
+  skipped: HookConfig[];
+  /** The hook that stopped the plan, and why. */
+  stoppedBy?: { hookConfig: HookConfig; reason: string };
+}
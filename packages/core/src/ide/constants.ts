@@ -8,3 +8,12 @@ export const GEMINI_CLI_COMPANION_EXTENSION_NAME = 'Gemini CLI Companion';
 export const IDE_MAX_OPEN_FILES = 10;
 export const IDE_MAX_SELECTED_TEXT_LENGTH = 16384; // 16 KiB limit
 export const IDE_REQUEST_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
+export const IDE_MAX_LANGUAGE_RESULTS = 200;
+// Tools the companion serves from the IDE's language services.
+export const IDE_LANGUAGE_TOOL_NAMES = [
+  'getDiagnostics',
+  'findReferences',
+  'goToDefinition',
+  'workspaceSymbols',
+] as const;
+export type IdeLanguageToolName = (typeof IDE_LANGUAGE_TOOL_NAMES)[number];
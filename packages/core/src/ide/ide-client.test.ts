@@ -21,6 +21,7 @@ import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 import { detectIde, IDE_DEFINITIONS } from './detect-ide.js';
+import { IdeChangesetClosedNotificationSchema } from './types.js';
 import * as os from 'node:os';
 import * as path from 'node:path';
 
@@ -647,6 +648,180 @@ describe('IdeClient', () => {
     });
   });
 
+  describe('language tools', () => {
+    const connectWithTools = async (tools: Array<{ name: string }>) => {
+      vi.mocked(fs.promises.readFile).mockResolvedValue(
+        JSON.stringify({ port: '8080' }),
+      );
+      (
+        vi.mocked(fs.promises.readdir) as Mock<
+          (path: fs.PathLike) => Promise<string[]>
+        >
+      ).mockResolvedValue([]);
+      mockClient.request.mockResolvedValue({ tools });
+
+      const ideClient = await IdeClient.getInstance();
+      await ideClient.connect();
+      return ideClient;
+    };
+
+    it('should return the discovered language tools', async () => {
+      const ideClient = await connectWithTools([
+        { name: 'openDiff' },
+        { name: 'getDiagnostics' },
+        { name: 'goToDefinition' },
+      ]);
+
+      expect(ideClient.getLanguageTools().map((tool) => tool.name)).toEqual([
+        'getDiagnostics',
+        'goToDefinition',
+      ]);
+    });
+
+    it('should return no language tools once disconnected', async () => {
+      const ideClient = await connectWithTools([{ name: 'getDiagnostics' }]);
+      await ideClient.disconnect();
+
+      expect(ideClient.getLanguageTools()).toEqual([]);
+    });
+
+    it('should call tools of the IDE', async () => {
+      const ideClient = await connectWithTools([{ name: 'getDiagnostics' }]);
+      const result = { content: [{ type: 'text', text: '{}' }] };
+      mockClient.request.mockResolvedValue(result);
+
+      await expect(
+        ideClient.callTool('getDiagnostics', { filePath: '/a.ts' }),
+      ).resolves.toEqual(result);
+      expect(mockClient.request).toHaveBeenLastCalledWith(
+        {
+          method: 'tools/call',
+          params: { name: 'getDiagnostics', arguments: { filePath: '/a.ts' } },
+        },
+        expect.anything(),
+        expect.objectContaining({ timeout: expect.any(Number) }),
+      );
+    });
+
+    it('should fail to call tools when not connected', async () => {
+      const ideClient = await connectWithTools([{ name: 'getDiagnostics' }]);
+      await ideClient.disconnect();
+
+      await expect(ideClient.callTool('getDiagnostics', {})).rejects.toThrow(
+        'The IDE is not connected.',
+      );
+    });
+  });
+
+  describe('changesets', () => {
+    const connectWithTools = async (tools: Array<{ name: string }>) => {
+      vi.mocked(fs.promises.readFile).mockResolvedValue(
+        JSON.stringify({ port: '8080' }),
+      );
+      (
+        vi.mocked(fs.promises.readdir) as Mock<
+          (path: fs.PathLike) => Promise<string[]>
+        >
+      ).mockResolvedValue([]);
+      mockClient.request.mockResolvedValue({ tools });
+
+      const ideClient = await IdeClient.getInstance();
+      await ideClient.connect();
+      return ideClient;
+    };
+
+    const changesetTools = [
+      { name: 'openDiff' },
+      { name: 'closeDiff' },
+      { name: 'openChangeset' },
+    ];
+
+    it('should only enable changeset review if the IDE provides it', async () => {
+      const ideClient = await connectWithTools([
+        { name: 'openDiff' },
+        { name: 'closeDiff' },
+      ]);
+      expect(ideClient.isChangesetReviewEnabled()).toBe(false);
+
+      await connectWithTools(changesetTools);
+      expect(ideClient.isChangesetReviewEnabled()).toBe(true);
+    });
+
+    it('should show the diffs opened during a changeset in one review', async () => {
+      const ideClient = await connectWithTools(changesetTools);
+      mockClient.request.mockResolvedValue({ content: [] });
+
+      ideClient.beginChangeset();
+      const first = ideClient.openDiff('/test/workspace/a.ts', 'a');
+      const second = ideClient.openDiff('/test/workspace/b.ts', 'b');
+      await ideClient.submitChangeset();
+
+      expect(mockClient.request).toHaveBeenCalledTimes(2);
+      expect(mockClient.request).toHaveBeenLastCalledWith(
+        {
+          method: 'tools/call',
+          params: {
+            name: 'openChangeset',
+            arguments: {
+              changesetId: expect.any(String),
+              files: [
+                { filePath: '/test/workspace/a.ts', newContent: 'a' },
+                { filePath: '/test/workspace/b.ts', newContent: 'b' },
+              ],
+            },
+          },
+        },
+        expect.anything(),
+        expect.objectContaining({ timeout: expect.any(Number) }),
+      );
+
+      const [, onChangesetClosed] =
+        mockClient.setNotificationHandler.mock.calls.findLast(
+          ([schema]) => schema === IdeChangesetClosedNotificationSchema,
+        )!;
+      const notification = {
+        jsonrpc: '2.0',
+        method: 'ide/changesetClosed',
+        params: {
+          changesetId: 'changeset-1',
+          files: [
+            {
+              filePath: '/test/workspace/a.ts',
+              status: 'accepted',
+              content: 'a, edited',
+            },
+            { filePath: '/test/workspace/b.ts', status: 'rejected' },
+          ],
+        },
+      };
+      await onChangesetClosed(notification);
+
+      await expect(first).resolves.toEqual({
+        status: 'accepted',
+        content: 'a, edited',
+      });
+      await expect(second).resolves.toEqual({
+        status: 'rejected',
+        content: undefined,
+      });
+    });
+
+    it('should reject every file if the IDE cannot open the review', async () => {
+      const ideClient = await connectWithTools(changesetTools);
+      mockClient.request.mockResolvedValue({
+        content: [{ type: 'text', text: 'Review failed' }],
+        isError: true,
+      });
+
+      await expect(
+        ideClient.openChangeset([
+          { filePath: '/test/workspace/a.ts', newContent: 'a' },
+          { filePath: '/test/workspace/b.ts', newContent: 'b' },
+        ]),
+      ).rejects.toThrow('Review failed');
+    });
+  });
+
   describe('authentication', () => {
     it('should connect with an auth token if provided in the discovery file', async () => {
       const authToken = 'test-auth-token';
@@ -5,10 +5,12 @@
  */
 
 import * as fs from 'node:fs';
+import { randomUUID } from 'node:crypto';
 import { isSubpath } from '../utils/paths.js';
 import { detectIde, type IdeInfo } from '../ide/detect-ide.js';
 import { ideContextStore } from './ideContext.js';
 import {
+  IdeChangesetClosedNotificationSchema,
   IdeContextNotificationSchema,
   IdeDiffAcceptedNotificationSchema,
   IdeDiffClosedNotificationSchema,
@@ -18,12 +20,19 @@ import { getIdeProcessInfo } from './process-utils.js';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
-import { CallToolResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  CallToolResultSchema,
+  type CallToolResult,
+  type Tool as McpTool,
+} from '@modelcontextprotocol/sdk/types.js';
 import * as os from 'node:os';
 import * as path from 'node:path';
 import { EnvHttpProxyAgent } from 'undici';
 import { ListToolsResultSchema } from '@modelcontextprotocol/sdk/types.js';
-import { IDE_REQUEST_TIMEOUT_MS } from './constants.js';
+import {
+  IDE_LANGUAGE_TOOL_NAMES,
+  IDE_REQUEST_TIMEOUT_MS,
+} from './constants.js';
 import { debugLogger } from '../utils/debugLogger.js';
 
 const logger = {
@@ -43,6 +52,21 @@ export type DiffUpdateResult =
       content: undefined;
     };
 
+/**
+ * The outcome of reviewing each file of a changeset.
+ */
+export type ChangesetUpdateResult = Array<
+  DiffUpdateResult & { filePath: string }
+>;
+
+// A diff that is waiting to be shown as part of a changeset.
+type PendingDiff = {
+  filePath: string;
+  newContent: string;
+  resolve: (result: DiffUpdateResult) => void;
+  reject: (error: Error) => void;
+};
+
 export type IDEConnectionState = {
   status: IDEConnectionStatus;
   details?: string; // User-facing
@@ -95,13 +119,18 @@ export class IdeClient {
   private diffResponses = new Map<string, (result: DiffUpdateResult) => void>();
   private statusListeners = new Set<(state: IDEConnectionState) => void>();
   private trustChangeListeners = new Set<(isTrusted: boolean) => void>();
-  private availableTools: string[] = [];
+  private availableTools: McpTool[] = [];
   /**
    * A mutex to ensure that only one diff view is open in the IDE at a time.
    * This prevents race conditions and UI issues in IDEs like VSCode that
    * can't handle multiple diff views being opened simultaneously.
    */
   private diffMutex = Promise.resolve();
+  /**
+   * The diffs collected since `beginChangeset`, or `undefined` when diffs are
+   * shown one at a time.
+   */
+  private pendingChangeset: PendingDiff[] | undefined;
 
   private constructor() {}
 
@@ -231,6 +260,13 @@ export class IdeClient {
     filePath: string,
     newContent: string,
   ): Promise<DiffUpdateResult> {
+    const pendingChangeset = this.pendingChangeset;
+    if (pendingChangeset) {
+      return new Promise<DiffUpdateResult>((resolve, reject) => {
+        pendingChangeset.push({ filePath, newContent, resolve, reject });
+      });
+    }
+
     const release = await this.acquireMutex();
 
     const promise = new Promise<DiffUpdateResult>((resolve, reject) => {
@@ -282,6 +318,142 @@ export class IdeClient {
     return promise;
   }
 
+  /**
+   * Opens a review of the changes to several files at once in the IDE.
+   *
+   * Each file is resolved on its own, either when the review is done or when
+   * it is closed from the CLI with `resolveDiffFromCli`, so this resolves once
+   * every file has been resolved.
+   *
+   * @param files The files to review, each with its proposed new content.
+   * @returns The outcome of the review of each file.
+   */
+  async openChangeset(
+    files: Array<{ filePath: string; newContent: string }>,
+  ): Promise<ChangesetUpdateResult> {
+    const pending: PendingDiff[] = [];
+    const results = files.map(
+      ({ filePath, newContent }) =>
+        new Promise<DiffUpdateResult & { filePath: string }>(
+          (resolve, reject) => {
+            pending.push({
+              filePath,
+              newContent,
+              resolve: (result) => resolve({ ...result, filePath }),
+              reject,
+            });
+          },
+        ),
+    );
+    await this.requestChangeset(pending);
+    return Promise.all(results);
+  }
+
+  /**
+   * Starts collecting the diffs opened with `openDiff` instead of showing
+   * them one at a time, so that `submitChangeset` can show them in a single
+   * review. Does nothing if the IDE cannot review changesets.
+   */
+  beginChangeset(): void {
+    if (this.isChangesetReviewEnabled()) {
+      this.pendingChangeset ??= [];
+    }
+  }
+
+  /**
+   * Shows the diffs collected since `beginChangeset`. Several diffs are shown
+   * in a single review and a lone diff is shown on its own. The promises
+   * returned by `openDiff` resolve as each file is reviewed.
+   */
+  async submitChangeset(): Promise<void> {
+    const pending = this.pendingChangeset ?? [];
+    this.pendingChangeset = undefined;
+
+    if (pending.length === 1) {
+      const [diff] = pending;
+      this.openDiff(diff.filePath, diff.newContent).then(
+        diff.resolve,
+        diff.reject,
+      );
+    } else if (pending.length > 1) {
+      await this.requestChangeset(pending);
+    }
+  }
+
+  /**
+   * Asks the IDE to open a changeset review. The mutex is held until every
+   * diff of the changeset has been resolved.
+   */
+  private async requestChangeset(diffs: PendingDiff[]): Promise<void> {
+    const release = await this.acquireMutex();
+
+    const settled = diffs.map(
+      (diff) =>
+        new Promise<void>((resolve) => {
+          this.diffResponses.set(diff.filePath, (result) => {
+            diff.resolve(result);
+            resolve();
+          });
+        }),
+    );
+    Promise.all(settled).finally(release);
+
+    const fail = (error: Error) => {
+      for (const diff of diffs) {
+        const resolver = this.diffResponses.get(diff.filePath);
+        if (resolver) {
+          this.diffResponses.delete(diff.filePath);
+          diff.reject(error);
+          // Settles the diff, which has already been rejected, so that the
+          // mutex is released.
+          resolver({ status: 'rejected', content: undefined });
+        }
+      }
+    };
+
+    if (!this.client) {
+      fail(new Error('IDE client is not connected.'));
+      return;
+    }
+
+    this.client
+      .request(
+        {
+          method: 'tools/call',
+          params: {
+            name: 'openChangeset',
+            arguments: {
+              changesetId: randomUUID(),
+              files: diffs.map(({ filePath, newContent }) => ({
+                filePath,
+                newContent,
+              })),
+            },
+          },
+        },
+        CallToolResultSchema,
+        { timeout: IDE_REQUEST_TIMEOUT_MS },
+      )
+      .then((parsedResultData) => {
+        if (parsedResultData.isError) {
+          const textPart = parsedResultData.content.find(
+            (part) => part.type === 'text',
+          );
+          const errorMessage =
+            textPart?.text ?? `Tool 'openChangeset' reported an error.`;
+          logger.debug(
+            `Request for openChangeset failed with isError:`,
+            errorMessage,
+          );
+          fail(new Error(errorMessage));
+        }
+      })
+      .catch((err) => {
+        logger.debug(`Request for openChangeset failed:`, err);
+        fail(err instanceof Error ? err : new Error(String(err)));
+      });
+  }
+
   /**
    * Acquires a lock to ensure sequential execution of critical sections.
    *
@@ -422,13 +594,56 @@ export class IdeClient {
 
   isDiffingEnabled(): boolean {
     return (
-      !!this.client &&
-      this.state.status === IDEConnectionStatus.Connected &&
-      this.availableTools.includes('openDiff') &&
-      this.availableTools.includes('closeDiff')
+      this.isConnected() &&
+      this.hasTool('openDiff') &&
+      this.hasTool('closeDiff')
+    );
+  }
+
+  isChangesetReviewEnabled(): boolean {
+    return this.isDiffingEnabled() && this.hasTool('openChangeset');
+  }
+
+  /**
+   * Returns the language service tools, such as `getDiagnostics`, that the
+   * connected IDE provides. Empty when the IDE is not connected.
+   */
+  getLanguageTools(): McpTool[] {
+    if (!this.isConnected()) {
+      return [];
+    }
+    return this.availableTools.filter((tool) =>
+      (IDE_LANGUAGE_TOOL_NAMES as readonly string[]).includes(tool.name),
+    );
+  }
+
+  /**
+   * Calls a tool of the connected IDE.
+   * @throws If the IDE is not connected.
+   */
+  async callTool(
+    name: string,
+    args: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<CallToolResult> {
+    if (!this.client || !this.isConnected()) {
+      throw new Error('The IDE is not connected.');
+    }
+    return this.client.request(
+      { method: 'tools/call', params: { name, arguments: args } },
+      CallToolResultSchema,
+      { timeout: IDE_REQUEST_TIMEOUT_MS, signal },
     );
   }
 
+  private isConnected(): boolean {
+    return !!this.client && this.state.status === IDEConnectionStatus.Connected;
+  }
+
+  private hasTool(name: string): boolean {
+    return this.availableTools.some((tool) => tool.name === name);
+  }
+
   private async discoverTools(): Promise<void> {
     if (!this.client) {
       return;
@@ -440,12 +655,11 @@ export class IdeClient {
         ListToolsResultSchema,
       );
 
-      // Map the array of tool objects to an array of tool names (strings)
-      this.availableTools = response.tools.map((tool) => tool.name);
+      this.availableTools = response.tools;
 
       if (this.availableTools.length > 0) {
         logger.debug(
-          `Discovered ${this.availableTools.length} tools from IDE: ${this.availableTools.join(', ')}`,
+          `Discovered ${this.availableTools.length} tools from IDE: ${this.availableTools.map((tool) => tool.name).join(', ')}`,
         );
       } else {
         logger.debug(
@@ -750,6 +964,25 @@ export class IdeClient {
       },
     );
 
+    this.client.setNotificationHandler(
+      IdeChangesetClosedNotificationSchema,
+      (notification) => {
+        for (const { filePath, status, content } of notification.params.files) {
+          const resolver = this.diffResponses.get(filePath);
+          if (resolver) {
+            resolver(
+              status === 'accepted'
+                ? { status, content }
+                : { status, content: undefined },
+            );
+            this.diffResponses.delete(filePath);
+          } else {
+            logger.debug(`No resolver found for ${filePath}`);
+          }
+        }
+      },
+    );
+
     // For backwards compatability. Newer extension versions will only send
     // IdeDiffRejectedNotificationSchema.
     this.client.setNotificationHandler(
@@ -146,3 +146,101 @@ export const CloseDiffRequestSchema = z.object({
    */
   suppressNotification: z.boolean().optional(),
 });
+
+/**
+ * The request to review the changes to several files at once in the IDE.
+ */
+export const OpenChangesetRequestSchema = z.object({
+  /**
+   * The ID of the changeset, sent back when the review is done.
+   */
+  changesetId: z.string(),
+  /**
+   * The files to review, each with its proposed new content.
+   */
+  files: z.array(OpenDiffRequestSchema),
+});
+
+/**
+ * The outcome of reviewing one file of a changeset.
+ */
+export const ChangesetFileResultSchema = z.object({
+  /**
+   * The absolute path to the file that was reviewed.
+   */
+  filePath: z.string(),
+  status: z.enum(['accepted', 'rejected']),
+  /**
+   * The full content of the file after review, which includes any hunks
+   * the user reverted and any manual edits. Only set for accepted files.
+   */
+  content: z.string().optional(),
+});
+
+/**
+ * A notification that the review of a changeset is done. Files that were
+ * closed from the CLI with `closeDiff` are not included.
+ */
+export const IdeChangesetClosedNotificationSchema = z.object({
+  jsonrpc: z.literal('2.0'),
+  method: z.literal('ide/changesetClosed'),
+  params: z.object({
+    changesetId: z.string(),
+    files: z.array(ChangesetFileResultSchema),
+  }),
+});
+
+/**
+ * The request to get the diagnostics, such as compile errors, that the IDE's
+ * language services report.
+ */
+export const GetDiagnosticsRequestSchema = z.object({
+  /**
+   * The absolute path to the file to get diagnostics for. All files with
+   * diagnostics are reported when omitted.
+   */
+  filePath: z
+    .string()
+    .optional()
+    .describe(
+      'The absolute path to the file to get diagnostics for. Omit to get the diagnostics of all files in the workspace.',
+    ),
+});
+
+/**
+ * The request to look up a symbol at a position in a file, used by
+ * `findReferences` and `goToDefinition`.
+ */
+export const TextDocumentPositionRequestSchema = z.object({
+  /**
+   * The absolute path to the file that contains the symbol.
+   */
+  filePath: z
+    .string()
+    .describe('The absolute path to the file that contains the symbol.'),
+  /**
+   * The 1-based line number.
+   */
+  line: z.number().int().min(1).describe('The 1-based line of the symbol.'),
+  /**
+   * The 1-based character offset.
+   */
+  character: z
+    .number()
+    .int()
+    .min(1)
+    .describe('The 1-based character offset of the symbol in the line.'),
+});
+
+/**
+ * The request to search the symbols, such as classes and functions, of the
+ * workspace.
+ */
+export const WorkspaceSymbolsRequestSchema = z.object({
+  /**
+   * The text to match symbol names against.
+   */
+  query: z
+    .string()
+    .describe('The text to match symbol names against, e.g. a class name.'),
+});
@@ -7,6 +7,7 @@
 // Export config
 export * from './config/config.js';
 export * from './config/defaultModelConfigs.js';
+export * from './config/defaultModelPricing.js';
 export * from './output/types.js';
 export * from './output/json-formatter.js';
 export * from './output/stream-json-formatter.js';
@@ -24,6 +25,7 @@ export * from './commands/extensions.js';
 export * from './core/client.js';
 export * from './core/contentGenerator.js';
 export * from './core/loggingContentGenerator.js';
+export * from './core/openaiCompatibleContentGenerator.js';
 export * from './core/geminiChat.js';
 export * from './core/logger.js';
 export * from './core/prompts.js';
@@ -33,6 +35,13 @@ export * from './core/geminiRequest.js';
 export * from './core/coreToolScheduler.js';
 export * from './core/nonInteractiveToolExecutor.js';
 export * from './core/recordingContentGenerator.js';
+export * from './core/redactingContentGenerator.js';
+
+// Export PII redaction
+export * from './pii/gitleaksFilters.js';
+export * from './pii/redactor.js';
+export * from './pii/secretVault.js';
+export * from './pii/toml-loader.js';
 
 export * from './fallback/types.js';
 
@@ -79,6 +88,15 @@ export * from './services/fileDiscoveryService.js';
 export * from './services/gitService.js';
 export * from './services/chatRecordingService.js';
 export * from './services/fileSystemService.js';
+export * from './services/modelPricingService.js';
+export * from './services/budgetService.js';
+export * from './services/costLedgerService.js';
+export * from './services/promptProfileService.js';
+
+// Export agents
+export * from './agents/agent-loader.js';
+export * from './agents/registry.js';
+export type { AgentDefinition, AgentInputs } from './agents/types.js';
 
 // Export IDE specific logic
 export * from './ide/ide-client.js';
@@ -99,6 +117,7 @@ export * from './tools/tool-names.js';
 
 // Export prompt logic
 export * from './prompts/mcp-prompts.js';
+export * from './resources/resource-registry.js';
 
 // Export specific tool logic
 export * from './tools/read-file.js';
@@ -113,6 +132,8 @@ export * from './tools/memoryTool.js';
 export * from './tools/shell.js';
 export * from './tools/web-search.js';
 export * from './tools/read-many-files.js';
+export * from './tools/read-mcp-resource.js';
+export * from './tools/ide-language-tool.js';
 export * from './tools/mcp-client.js';
 export * from './tools/mcp-tool.js';
 export * from './tools/write-todos.js';
@@ -131,6 +152,10 @@ export type {
 } from './mcp/oauth-utils.js';
 export { OAuthUtils } from './mcp/oauth-utils.js';
 
+// MCP sampling and elicitation
+export * from './mcp/sampling.js';
+export * from './mcp/elicitation.js';
+
 // Export telemetry functions
 export * from './telemetry/index.js';
 export { sessionId } from './utils/session.js';
@@ -142,3 +167,5 @@ export * from './test-utils/index.js';
 
 // Export hook types
 export * from './hooks/types.js';
+export * from './hooks/hookSystem.js';
+export { getHookName } from './hooks/hookRegistry.js';
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { handleElicitationRequest } from './elicitation.js';
+import type { Config } from '../config/config.js';
+
+const PARAMS = {
+  message: 'Which environment should be deployed?',
+  requestedSchema: {
+    type: 'object' as const,
+    properties: {
+      environment: { type: 'string' as const, enum: ['staging', 'prod'] },
+    },
+    required: ['environment'],
+  },
+};
+
+describe('handleElicitationRequest', () => {
+  it('should ask the registered handler', async () => {
+    const handler = vi.fn().mockResolvedValue({
+      action: 'accept',
+      content: { environment: 'staging' },
+    });
+    const config = {
+      getMcpElicitationHandler: () => handler,
+    } as unknown as Config;
+
+    const result = await handleElicitationRequest(config, 'deploy', PARAMS);
+
+    expect(handler).toHaveBeenCalledWith({ serverName: 'deploy', ...PARAMS });
+    expect(result).toEqual({
+      action: 'accept',
+      content: { environment: 'staging' },
+    });
+  });
+
+  it('should decline without a handler', async () => {
+    const config = {
+      getMcpElicitationHandler: () => undefined,
+    } as unknown as Config;
+
+    await expect(
+      handleElicitationRequest(config, 'deploy', PARAMS),
+    ).resolves.toEqual({ action: 'decline' });
+  });
+});
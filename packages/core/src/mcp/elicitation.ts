@@ -0,0 +1,59 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  ElicitRequest,
+  ElicitResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Config } from '../config/config.js';
+import { debugLogger } from '../utils/debugLogger.js';
+
+export type McpElicitationSchema = ElicitRequest['params']['requestedSchema'];
+
+export type McpElicitationResult = ElicitResult;
+
+/**
+ * An `elicitation/create` request from an MCP server asking the user for
+ * structured input.
+ */
+export interface McpElicitationRequest {
+  serverName: string;
+  message: string;
+  /** A flat object schema whose properties are strings, numbers, booleans or enums. */
+  requestedSchema: McpElicitationSchema;
+}
+
+/**
+ * Asks the user for the requested input. Resolves to an `accept` result with
+ * the entered content, or to a `decline` or `cancel` result.
+ */
+export type McpElicitationHandler = (
+  request: McpElicitationRequest,
+) => Promise<McpElicitationResult>;
+
+/**
+ * Answers an `elicitation/create` request through the handler registered on
+ * the config. Without one, as in non-interactive sessions, the request is
+ * declined.
+ */
+export async function handleElicitationRequest(
+  config: Config,
+  serverName: string,
+  params: ElicitRequest['params'],
+): Promise<McpElicitationResult> {
+  const handler = config.getMcpElicitationHandler();
+  if (!handler) {
+    debugLogger.debug(
+      `Declining input request from MCP server '${serverName}' because there is no interactive UI.`,
+    );
+    return { action: 'decline' };
+  }
+  return handler({
+    serverName,
+    message: params.message,
+    requestedSchema: params.requestedSchema,
+  });
+}
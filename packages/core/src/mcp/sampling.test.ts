@@ -0,0 +1,156 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { FinishReason } from '@google/genai';
+import {
+  DEFAULT_MCP_SAMPLING_TOKEN_LIMIT,
+  McpSamplingService,
+  type McpSamplingParams,
+} from './sampling.js';
+import type { Config, MCPServerConfig } from '../config/config.js';
+import {
+  DEFAULT_GEMINI_FLASH_MODEL,
+  DEFAULT_GEMINI_MODEL,
+} from '../config/models.js';
+
+const PARAMS: McpSamplingParams = {
+  messages: [
+    { role: 'user', content: { type: 'text', text: 'Summarize the issue.' } },
+    { role: 'assistant', content: { type: 'text', text: 'Which issue?' } },
+    {
+      role: 'user',
+      content: { type: 'image', data: 'aGVsbG8=', mimeType: 'image/png' },
+    },
+  ],
+  systemPrompt: 'Be brief.',
+  maxTokens: 200,
+  temperature: 0.5,
+};
+
+describe('McpSamplingService', () => {
+  const signal = new AbortController().signal;
+  let generateContent: ReturnType<typeof vi.fn>;
+  let approvalHandler: ReturnType<typeof vi.fn> | undefined;
+  let service: McpSamplingService;
+
+  beforeEach(() => {
+    generateContent = vi.fn().mockResolvedValue({
+      candidates: [
+        {
+          content: { role: 'model', parts: [{ text: 'A short summary.' }] },
+          finishReason: FinishReason.STOP,
+        },
+      ],
+      usageMetadata: { totalTokenCount: 120 },
+    });
+    approvalHandler = vi.fn().mockResolvedValue(true);
+    service = new McpSamplingService({
+      getMcpSamplingApprovalHandler: () => approvalHandler,
+      getBaseLlmClient: () => ({ generateContent }),
+      isInFallbackMode: () => false,
+    } as unknown as Config);
+  });
+
+  it('should run approved requests on the host model', async () => {
+    const result = await service.createMessage('docs', {}, PARAMS, signal);
+
+    expect(approvalHandler).toHaveBeenCalledWith({
+      serverName: 'docs',
+      params: PARAMS,
+      tokensUsed: 0,
+      tokenLimit: DEFAULT_MCP_SAMPLING_TOKEN_LIMIT,
+    });
+    expect(generateContent).toHaveBeenCalledWith({
+      contents: [
+        { role: 'user', parts: [{ text: 'Summarize the issue.' }] },
+        { role: 'model', parts: [{ text: 'Which issue?' }] },
+        {
+          role: 'user',
+          parts: [{ inlineData: { mimeType: 'image/png', data: 'aGVsbG8=' } }],
+        },
+      ],
+      model: DEFAULT_GEMINI_FLASH_MODEL,
+      systemInstruction: 'Be brief.',
+      config: {
+        maxOutputTokens: 200,
+        temperature: 0.5,
+        stopSequences: undefined,
+      },
+      abortSignal: signal,
+      promptId: 'mcp-sampling-docs',
+    });
+    expect(result).toEqual({
+      role: 'assistant',
+      content: { type: 'text', text: 'A short summary.' },
+      model: DEFAULT_GEMINI_FLASH_MODEL,
+      stopReason: 'endTurn',
+    });
+    expect(service.getTokensUsed('docs')).toBe(120);
+  });
+
+  it('should use Pro when the server prefers intelligence', async () => {
+    await service.createMessage(
+      'docs',
+      {},
+      { ...PARAMS, modelPreferences: { intelligencePriority: 0.9 } },
+      signal,
+    );
+
+    expect(generateContent).toHaveBeenCalledWith(
+      expect.objectContaining({ model: DEFAULT_GEMINI_MODEL }),
+    );
+  });
+
+  it('should reject requests the user does not approve', async () => {
+    approvalHandler!.mockResolvedValue(false);
+
+    await expect(
+      service.createMessage('docs', {}, PARAMS, signal),
+    ).rejects.toThrow('User rejected sampling request.');
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+
+  it('should reject requests when nobody can approve them', async () => {
+    approvalHandler = undefined;
+
+    await expect(
+      service.createMessage('docs', {}, PARAMS, signal),
+    ).rejects.toThrow('User rejected sampling request.');
+  });
+
+  it('should not ask for approval for trusted servers', async () => {
+    await service.createMessage('docs', { trust: true }, PARAMS, signal);
+
+    expect(approvalHandler).not.toHaveBeenCalled();
+    expect(generateContent).toHaveBeenCalledOnce();
+  });
+
+  it('should enforce the token limit of each server', async () => {
+    const serverConfig: MCPServerConfig = { samplingTokenLimit: 150 };
+
+    await service.createMessage('docs', serverConfig, PARAMS, signal);
+    expect(generateContent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        config: expect.objectContaining({ maxOutputTokens: 150 }),
+      }),
+    );
+
+    await service.createMessage('docs', serverConfig, PARAMS, signal);
+    expect(generateContent).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        config: expect.objectContaining({ maxOutputTokens: 30 }),
+      }),
+    );
+
+    await expect(
+      service.createMessage('docs', serverConfig, PARAMS, signal),
+    ).rejects.toThrow(
+      "MCP server 'docs' has used its sampling limit of 150 tokens.",
+    );
+    expect(service.getTokensUsed('other')).toBe(0);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { FinishReason, type Content, type Part } from '@google/genai';
+import type {
+  CreateMessageRequest,
+  CreateMessageResult,
+  SamplingMessage,
+} from '@modelcontextprotocol/sdk/types.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { Config, MCPServerConfig } from '../config/config.js';
+import {
+  DEFAULT_GEMINI_FLASH_MODEL,
+  DEFAULT_GEMINI_MODEL,
+  getEffectiveModel,
+} from '../config/models.js';
+import { getResponseText } from '../utils/partUtils.js';
+
+/** Tokens a server may use through sampling per session unless configured. */
+export const DEFAULT_MCP_SAMPLING_TOKEN_LIMIT = 50_000;
+
+export type McpSamplingParams = CreateMessageRequest['params'];
+
+/**
+ * A sampling request from an MCP server, as shown to the user for approval.
+ */
+export interface McpSamplingRequest {
+  serverName: string;
+  params: McpSamplingParams;
+  /** Tokens the server has already used through sampling in this session. */
+  tokensUsed: number;
+  /** Tokens the server may use through sampling in this session. */
+  tokenLimit: number;
+}
+
+/**
+ * Asks the user whether a sampling request may run. Resolves to `true` to
+ * approve the request.
+ */
+export type McpSamplingApprovalHandler = (
+  request: McpSamplingRequest,
+) => Promise<boolean>;
+
+function toPart(content: SamplingMessage['content']): Part {
+  if (content.type === 'text') {
+    return { text: content.text };
+  }
+  return { inlineData: { mimeType: content.mimeType, data: content.data } };
+}
+
+function toContents(messages: SamplingMessage[]): Content[] {
+  return messages.map((message) => ({
+    role: message.role === 'assistant' ? 'model' : 'user',
+    parts: [toPart(message.content)],
+  }));
+}
+
+/**
+ * Picks Pro when the server prefers intelligence over speed and cost, and
+ * Flash otherwise.
+ */
+function selectModel(
+  preferences: McpSamplingParams['modelPreferences'],
+): string {
+  const intelligence = preferences?.intelligencePriority ?? 0;
+  const speed = preferences?.speedPriority ?? 0;
+  const cost = preferences?.costPriority ?? 0;
+  return intelligence > Math.max(speed, cost)
+    ? DEFAULT_GEMINI_MODEL
+    : DEFAULT_GEMINI_FLASH_MODEL;
+}
+
+/**
+ * Runs `sampling/createMessage` requests from MCP servers on the host model.
+ *
+ * Requests from untrusted servers need the user's approval, and every server
+ * has a budget of tokens it may use per session (`samplingTokenLimit`).
+ */
+export class McpSamplingService {
+  private readonly tokensUsed = new Map<string, number>();
+
+  constructor(private readonly config: Config) {}
+
+  /**
+   * Returns the tokens a server has used through sampling in this session.
+   */
+  getTokensUsed(serverName: string): number {
+    return this.tokensUsed.get(serverName) ?? 0;
+  }
+
+  async createMessage(
+    serverName: string,
+    serverConfig: MCPServerConfig,
+    params: McpSamplingParams,
+    signal: AbortSignal,
+  ): Promise<CreateMessageResult> {
+    const tokenLimit =
+      serverConfig.samplingTokenLimit ?? DEFAULT_MCP_SAMPLING_TOKEN_LIMIT;
+    const tokensUsed = this.getTokensUsed(serverName);
+    if (tokensUsed >= tokenLimit) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `MCP server '${serverName}' has used its sampling limit of ${tokenLimit} tokens.`,
+      );
+    }
+
+    if (!serverConfig.trust) {
+      const approvalHandler = this.config.getMcpSamplingApprovalHandler();
+      const approved = approvalHandler
+        ? await approvalHandler({ serverName, params, tokensUsed, tokenLimit })
+        : false;
+      if (!approved) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          'User rejected sampling request.',
+        );
+      }
+    }
+
+    const model = getEffectiveModel(
+      this.config.isInFallbackMode(),
+      selectModel(params.modelPreferences),
+    );
+    const response = await this.config.getBaseLlmClient().generateContent({
+      contents: toContents(params.messages),
+      model,
+      systemInstruction: params.systemPrompt,
+      config: {
+        maxOutputTokens: Math.min(params.maxTokens, tokenLimit - tokensUsed),
+        temperature: params.temperature,
+        stopSequences: params.stopSequences,
+      },
+      abortSignal: signal,
+      promptId: `mcp-sampling-${serverName}`,
+    });
+
+    this.tokensUsed.set(
+      serverName,
+      tokensUsed + (response.usageMetadata?.totalTokenCount ?? 0),
+    );
+
+    return {
+      role: 'assistant',
+      content: { type: 'text', text: getResponseText(response) ?? '' },
+      model,
+      stopReason:
+        response.candidates?.[0]?.finishReason === FinishReason.MAX_TOKENS
+          ? 'maxTokens'
+          : 'endTurn',
+    };
+  }
+}
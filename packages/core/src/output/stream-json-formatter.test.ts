@@ -264,6 +264,7 @@ describe('StreamJsonFormatter', () => {
               thoughts: 0,
               tool: 0,
             },
+            cost: 0,
           },
         },
         tools: {
@@ -313,6 +314,7 @@ describe('StreamJsonFormatter', () => {
               thoughts: 0,
               tool: 0,
             },
+            cost: 0,
           },
           'gemini-1.5-pro': {
             api: {
@@ -328,6 +330,7 @@ describe('StreamJsonFormatter', () => {
               thoughts: 0,
               tool: 0,
             },
+            cost: 0,
           },
         },
         tools: {
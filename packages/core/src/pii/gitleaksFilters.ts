@@ -4,9 +4,24 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-interface RedactionRule {
+/**
+ * Where a redaction rule was defined: built in, shipped by an extension, or
+ * loaded from the user's or the project's `redaction.toml`.
+ */
+export type RedactionRuleOrigin = 'default' | 'extension' | 'user' | 'project';
+
+export interface RedactionRule {
   name: string;
   pattern: () => RegExp;
+  /** Fixed text that replaces matches instead of a reversible placeholder. */
+  replacement?: string;
+  /** Disabled rules are still listed but never applied. Defaults to true. */
+  enabled?: boolean;
+  /** Matches that also match one of these patterns are left untouched. */
+  allowlist?: RegExp[];
+  origin?: RedactionRuleOrigin;
+  /** The extension that defined the rule, when `origin` is `extension`. */
+  extensionName?: string;
 }
 
 const gitleaksRules: RedactionRule[] = [
@@ -0,0 +1,45 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { Redactor } from './redactor.js';
+
+// Each `<name>-clear.txt` fixture must redact to `<name>-redacted.txt` with
+// the built-in rules. Add a new pair to cover a new rule.
+const TEST_DATA_DIR = path.resolve(process.cwd(), 'src', 'pii', 'test-data');
+
+const CLEAR_SUFFIX = '-clear.txt';
+
+const normalize = (text: string) => text.replace(/\r\n/g, '\n').trim();
+
+const fixtures = fs
+  .readdirSync(TEST_DATA_DIR)
+  .filter((file) => file.endsWith(CLEAR_SUFFIX))
+  .map((file) => file.slice(0, -CLEAR_SUFFIX.length))
+  .sort();
+
+describe('Redactor Golden Test', () => {
+  it('should find fixture pairs', () => {
+    expect(fixtures.length).toBeGreaterThan(0);
+  });
+
+  it.each(fixtures)('should redact %s to the expected output', (name) => {
+    const clear = fs.readFileSync(
+      path.join(TEST_DATA_DIR, `${name}${CLEAR_SUFFIX}`),
+      'utf-8',
+    );
+    const expected = fs.readFileSync(
+      path.join(TEST_DATA_DIR, `${name}-redacted.txt`),
+      'utf-8',
+    );
+
+    expect(normalize(new Redactor().redactText(clear))).toBe(
+      normalize(expected),
+    );
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  Content,
+  ContentUnion,
+  GenerateContentParameters,
+  Part,
+  PartUnion,
+} from '@google/genai';
+import { toContents } from '../code_assist/converter.js';
+import type { RedactionRule } from './gitleaksFilters.js';
+import { customRules } from './gitleaksFilters.js';
+import type { SecretVault } from './secretVault.js';
+
+export const REDACTION_PLACEHOLDER = '[REDACTED]';
+
+/**
+ * A single secret that was removed from outbound content.
+ */
+export interface RedactionMatch {
+  /** The name of the rule that matched, e.g. `Private Key`. */
+  rule: string;
+  /** The original text that was replaced. Never leaves the process. */
+  value: string;
+}
+
+/**
+ * Redacts secrets from text, strings nested in JSON values and Gemini
+ * `Content`, collecting every match so callers can report what was removed.
+ *
+ * Without a vault every secret becomes `[REDACTED]`. With a vault each secret
+ * is replaced by a stable, reversible placeholder such as `<<SECRET_MYSQL_1>>`.
+ */
+export class Redactor {
+  constructor(
+    private readonly rules: RedactionRule[] = customRules,
+    private readonly vault?: SecretVault,
+  ) {}
+
+  /**
+   * Replaces every match of every enabled rule in `text`. Rules are applied in
+   * order, so a later rule never sees text already consumed by an earlier one.
+   * Matches on a rule's allowlist are kept, and a rule's own `replacement`
+   * takes precedence over placeholders.
+   */
+  redactText(text: string, matches: RedactionMatch[] = []): string {
+    let processed = text;
+    for (const rule of this.rules) {
+      if (rule.enabled === false) {
+        continue;
+      }
+      processed = processed.replace(rule.pattern(), (value) => {
+        if (rule.allowlist?.some((allowed) => allowed.test(value))) {
+          return value;
+        }
+        matches.push({ rule: rule.name, value });
+        if (rule.replacement !== undefined) {
+          return rule.replacement;
+        }
+        return this.vault
+          ? this.vault.placeholderFor(rule.name, value)
+          : REDACTION_PLACEHOLDER;
+      });
+    }
+    return processed;
+  }
+
+  /**
+   * Recursively redacts every string inside a JSON-like value (tool call
+   * arguments, tool results). Object keys are left untouched.
+   */
+  redactValue<T>(value: T, matches: RedactionMatch[] = []): T {
+    if (typeof value === 'string') {
+      return this.redactText(value, matches) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactValue(item, matches)) as T;
+    }
+    if (value && typeof value === 'object') {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = this.redactValue(item, matches);
+      }
+      return result as T;
+    }
+    return value;
+  }
+
+  /**
+   * Redacts the user-visible payload of a part: text (including `@file`
+   * inclusions), function call arguments and function responses. Binary
+   * data, file references and thought signatures are passed through.
+   */
+  redactPart(part: Part, matches: RedactionMatch[] = []): Part {
+    const redacted: Part = { ...part };
+    if (typeof part.text === 'string') {
+      redacted.text = this.redactText(part.text, matches);
+    }
+    if (part.functionCall?.args) {
+      redacted.functionCall = {
+        ...part.functionCall,
+        args: this.redactValue(part.functionCall.args, matches),
+      };
+    }
+    if (part.functionResponse?.response) {
+      redacted.functionResponse = {
+        ...part.functionResponse,
+        response: this.redactValue(part.functionResponse.response, matches),
+      };
+    }
+    return redacted;
+  }
+
+  redactContents(
+    contents: Content[],
+    matches: RedactionMatch[] = [],
+  ): Content[] {
+    return contents.map((content) => ({
+      ...content,
+      parts: content.parts?.map((part) => this.redactPart(part, matches)),
+    }));
+  }
+
+  /**
+   * Redacts a `systemInstruction`, which may be a string, a part, a list of
+   * parts or a full `Content`.
+   */
+  redactContentUnion(
+    content: ContentUnion,
+    matches: RedactionMatch[] = [],
+  ): ContentUnion {
+    if (Array.isArray(content)) {
+      return content.map((part) => this.redactPartUnion(part, matches));
+    }
+    if (typeof content === 'string') {
+      return this.redactText(content, matches);
+    }
+    if ('parts' in content) {
+      return this.redactContents([content], matches)[0];
+    }
+    return this.redactPart(content as Part, matches);
+  }
+
+  /**
+   * Redacts the contents and the `systemInstruction` of a model request.
+   */
+  redactRequest(
+    req: GenerateContentParameters,
+    matches: RedactionMatch[] = [],
+  ): GenerateContentParameters {
+    const redacted: GenerateContentParameters = {
+      ...req,
+      contents: this.redactContents(toContents(req.contents), matches),
+    };
+    if (req.config?.systemInstruction) {
+      redacted.config = {
+        ...req.config,
+        systemInstruction: this.redactContentUnion(
+          req.config.systemInstruction,
+          matches,
+        ),
+      };
+    }
+    return redacted;
+  }
+
+  private redactPartUnion(
+    part: PartUnion,
+    matches: RedactionMatch[],
+  ): PartUnion {
+    if (typeof part === 'string') {
+      return this.redactText(part, matches);
+    }
+    return this.redactPart(part, matches);
+  }
+}
+
+/**
+ * Counts matches per rule name, preserving the order in which rules first
+ * fired.
+ */
+export function countMatchesByRule(
+  matches: RedactionMatch[],
+): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const match of matches) {
+    counts[match.rule] = (counts[match.rule] ?? 0) + 1;
+  }
+  return counts;
+}
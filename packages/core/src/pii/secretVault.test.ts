@@ -0,0 +1,74 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SecretVault } from './secretVault.js';
+
+describe('SecretVault', () => {
+  let vault: SecretVault;
+
+  beforeEach(() => {
+    vault = new SecretVault();
+  });
+
+  it('should allocate numbered placeholders per rule kind', () => {
+    expect(vault.placeholderFor('MySQL Credentials', 'mysql://a')).toBe(
+      '<<SECRET_MYSQL_1>>',
+    );
+    expect(vault.placeholderFor('MySQL Credentials', 'mysql://b')).toBe(
+      '<<SECRET_MYSQL_2>>',
+    );
+    expect(vault.placeholderFor('Private Key', '-----BEGIN')).toBe(
+      '<<SECRET_PRIVATE_KEY_1>>',
+    );
+  });
+
+  it('should return the same placeholder for the same secret', () => {
+    const first = vault.placeholderFor('Email Address', 'me@example.com');
+    const second = vault.placeholderFor('Email Address', 'me@example.com');
+
+    expect(second).toBe(first);
+    expect(vault.size).toBe(1);
+  });
+
+  it('should restore known placeholders and leave unknown ones alone', () => {
+    vault.placeholderFor('MySQL Credentials', 'mysql://root:pw@db/app');
+    const restored = new Set<string>();
+
+    const text = vault.restoreText(
+      'url=<<SECRET_MYSQL_1>> other=<<SECRET_MYSQL_9>>',
+      restored,
+    );
+
+    expect(text).toBe('url=mysql://root:pw@db/app other=<<SECRET_MYSQL_9>>');
+    expect([...restored]).toEqual(['<<SECRET_MYSQL_1>>']);
+  });
+
+  it('should restore placeholders nested in tool arguments', () => {
+    vault.placeholderFor('Email Address', 'me@example.com');
+
+    expect(
+      vault.restoreValue({
+        file_path: '/tmp/config.yaml',
+        content: 'owner: <<SECRET_EMAIL_ADDRESS_1>>',
+        tags: ['<<SECRET_EMAIL_ADDRESS_1>>'],
+      }),
+    ).toEqual({
+      file_path: '/tmp/config.yaml',
+      content: 'owner: me@example.com',
+      tags: ['me@example.com'],
+    });
+  });
+
+  it('should list referenced placeholders without revealing secrets', () => {
+    vault.placeholderFor('Email Address', 'me@example.com');
+
+    expect(
+      vault.findPlaceholders({ command: 'echo <<SECRET_EMAIL_ADDRESS_1>>' }),
+    ).toEqual(['<<SECRET_EMAIL_ADDRESS_1>>']);
+    expect(vault.findPlaceholders({ command: 'echo hi' })).toEqual([]);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const PLACEHOLDER_PATTERN = /<<SECRET_[A-Z0-9_]+_\d+>>/g;
+
+/**
+ * Turns a rule name into the kind used in its placeholders, e.g.
+ * `MySQL Credentials` becomes `MYSQL` and `Private Key` becomes `PRIVATE_KEY`.
+ */
+function toPlaceholderKind(ruleName: string): string {
+  return ruleName
+    .replace(/\s+Credentials$/i, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Session-scoped, in-memory mapping between redacted secrets and the stable
+ * placeholders (`<<SECRET_MYSQL_1>>`) sent to the model in their place.
+ *
+ * The same secret always maps to the same placeholder, so the model can refer
+ * to it consistently, and the real value can be substituted back into tool
+ * calls that need it. Nothing is ever persisted.
+ */
+export class SecretVault {
+  private readonly placeholdersBySecret = new Map<string, string>();
+  private readonly secretsByPlaceholder = new Map<string, string>();
+  private readonly counters = new Map<string, number>();
+
+  /**
+   * Returns the placeholder for `secret`, allocating a new one the first time
+   * the secret is seen.
+   */
+  placeholderFor(ruleName: string, secret: string): string {
+    const existing = this.placeholdersBySecret.get(secret);
+    if (existing) {
+      return existing;
+    }
+    const kind = toPlaceholderKind(ruleName) || 'VALUE';
+    const index = (this.counters.get(kind) ?? 0) + 1;
+    this.counters.set(kind, index);
+    const placeholder = `<<SECRET_${kind}_${index}>>`;
+    this.placeholdersBySecret.set(secret, placeholder);
+    this.secretsByPlaceholder.set(placeholder, secret);
+    return placeholder;
+  }
+
+  get size(): number {
+    return this.secretsByPlaceholder.size;
+  }
+
+  /**
+   * Replaces every known placeholder in `text` with its secret. Unknown
+   * placeholders are left as-is.
+   */
+  restoreText(text: string, restored?: Set<string>): string {
+    return text.replace(PLACEHOLDER_PATTERN, (placeholder) => {
+      const secret = this.secretsByPlaceholder.get(placeholder);
+      if (secret === undefined) {
+        return placeholder;
+      }
+      restored?.add(placeholder);
+      return secret;
+    });
+  }
+
+  /**
+   * Recursively restores placeholders in every string of a JSON-like value,
+   * such as tool call arguments.
+   */
+  restoreValue<T>(value: T, restored?: Set<string>): T {
+    if (typeof value === 'string') {
+      return this.restoreText(value, restored) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.restoreValue(item, restored)) as T;
+    }
+    if (value && typeof value === 'object') {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = this.restoreValue(item, restored);
+      }
+      return result as T;
+    }
+    return value;
+  }
+
+  /**
+   * Lists the known placeholders referenced anywhere in `value`, without
+   * revealing the secrets behind them.
+   */
+  findPlaceholders(value: unknown): string[] {
+    const found = new Set<string>();
+    this.restoreValue(value, found);
+    return [...found];
+  }
+}
@@ -0,0 +1,255 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  getRedactionRuleSources,
+  loadRedactionRulesFromToml,
+  type RedactionRuleSource,
+} from './toml-loader.js';
+import type { RedactionRule } from './gitleaksFilters.js';
+import { Redactor } from './redactor.js';
+
+const baseRules: RedactionRule[] = [
+  {
+    name: 'Email Address',
+    pattern: () => /[a-z.]+@[a-z.]+\.[a-z]{2,}/g,
+  },
+];
+
+describe('loadRedactionRulesFromToml', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'redaction-rules-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function writeRules(
+    name: string,
+    content: string,
+    origin: RedactionRuleSource['origin'],
+  ): Promise<RedactionRuleSource> {
+    const filePath = path.join(tempDir, name);
+    await fs.writeFile(filePath, content);
+    return { filePath, origin };
+  }
+
+  it('should return the built-in rules when no files exist', async () => {
+    const result = await loadRedactionRulesFromToml(
+      [{ filePath: path.join(tempDir, 'missing.toml'), origin: 'user' }],
+      baseRules,
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.rules).toHaveLength(1);
+    expect(result.rules[0]).toMatchObject({
+      name: 'Email Address',
+      origin: 'default',
+    });
+  });
+
+  it('should add new rules with their origin', async () => {
+    const source = await writeRules(
+      'project.toml',
+      `
+[[rule]]
+name = "Customer ID"
+pattern = "cust_[0-9]{6}"
+replacement = "[CUSTOMER]"
+`,
+      'project',
+    );
+
+    const { rules, errors } = await loadRedactionRulesFromToml(
+      [source],
+      baseRules,
+    );
+
+    expect(errors).toEqual([]);
+    const rule = rules.find((r) => r.name === 'Customer ID')!;
+    expect(rule.origin).toBe('project');
+    expect(new Redactor(rules).redactText('id cust_123456 ok')).toBe(
+      'id [CUSTOMER] ok',
+    );
+  });
+
+  it('should let later sources override built-in rules by name', async () => {
+    const user = await writeRules(
+      'user.toml',
+      `
+[[rule]]
+name = "Email Address"
+allowlist = ["@example\\\\.com$"]
+`,
+      'user',
+    );
+    const project = await writeRules(
+      'project.toml',
+      `
+[[rule]]
+name = "Email Address"
+replacement = "[EMAIL]"
+`,
+      'project',
+    );
+
+    const { rules, errors } = await loadRedactionRulesFromToml(
+      [user, project],
+      baseRules,
+    );
+
+    expect(errors).toEqual([]);
+    expect(rules).toHaveLength(1);
+    expect(rules[0].origin).toBe('project');
+    expect(
+      new Redactor(rules).redactText('me@example.com and me@corp.io'),
+    ).toBe('me@example.com and [EMAIL]');
+  });
+
+  it('should keep disabled rules but never apply them', async () => {
+    const source = await writeRules(
+      'user.toml',
+      `
+[[rule]]
+name = "Email Address"
+enabled = false
+`,
+      'user',
+    );
+
+    const { rules } = await loadRedactionRulesFromToml([source], baseRules);
+
+    expect(rules[0].enabled).toBe(false);
+    expect(new Redactor(rules).redactText('me@corp.io')).toBe('me@corp.io');
+  });
+
+  it('should apply a top-level allowlist to every rule', async () => {
+    const source = await writeRules(
+      'user.toml',
+      `allowlist = ["^noreply@"]`,
+      'user',
+    );
+
+    const { rules } = await loadRedactionRulesFromToml([source], baseRules);
+
+    expect(new Redactor(rules).redactText('noreply@corp.io me@corp.io')).toBe(
+      'noreply@corp.io [REDACTED]',
+    );
+  });
+
+  it('should report new rules without a pattern', async () => {
+    const source = await writeRules(
+      'user.toml',
+      `
+[[rule]]
+name = "Hostname"
+`,
+      'user',
+    );
+
+    const { rules, errors } = await loadRedactionRulesFromToml(
+      [source],
+      baseRules,
+    );
+
+    expect(rules).toHaveLength(1);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({
+      errorType: 'rule_validation',
+      origin: 'user',
+      ruleIndex: 0,
+    });
+  });
+
+  it('should report invalid regexes and skip only that rule', async () => {
+    const source = await writeRules(
+      'user.toml',
+      `
+[[rule]]
+name = "Broken"
+pattern = "([a-z"
+
+[[rule]]
+name = "Hostname"
+pattern = "[a-z]+\\\\.corp\\\\.internal"
+`,
+      'user',
+    );
+
+    const { rules, errors } = await loadRedactionRulesFromToml(
+      [source],
+      baseRules,
+    );
+
+    expect(rules.map((r) => r.name)).toEqual(['Email Address', 'Hostname']);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].errorType).toBe('regex_compilation');
+  });
+
+  it('should report TOML syntax and schema errors', async () => {
+    const syntax = await writeRules('syntax.toml', `[[rule]`, 'user');
+    const schema = await writeRules(
+      'schema.toml',
+      `
+[[rule]]
+name = "Hostname"
+enabled = "yes"
+`,
+      'project',
+    );
+
+    const { errors } = await loadRedactionRulesFromToml(
+      [syntax, schema],
+      baseRules,
+    );
+
+    expect(errors.map((e) => e.errorType)).toEqual([
+      'toml_parse',
+      'schema_validation',
+    ]);
+  });
+});
+
+describe('getRedactionRuleSources', () => {
+  it('should order sources as active extensions, user, then project', () => {
+    const sources = getRedactionRuleSources({
+      userRulesPath: '/home/me/.gemini/redaction.toml',
+      projectRulesPath: '/work/.gemini/redaction.toml',
+      extensions: [
+        { name: 'active-ext', path: '/ext/active', isActive: true },
+        { name: 'inactive-ext', path: '/ext/inactive', isActive: false },
+      ],
+    });
+
+    expect(sources).toEqual([
+      {
+        filePath: path.join('/ext/active', 'redaction.toml'),
+        origin: 'extension',
+        extensionName: 'active-ext',
+      },
+      { filePath: '/home/me/.gemini/redaction.toml', origin: 'user' },
+      { filePath: '/work/.gemini/redaction.toml', origin: 'project' },
+    ]);
+  });
+
+  it('should omit the project file when it is not provided', () => {
+    const sources = getRedactionRuleSources({
+      userRulesPath: '/home/me/.gemini/redaction.toml',
+      extensions: [],
+    });
+
+    expect(sources).toEqual([
+      { filePath: '/home/me/.gemini/redaction.toml', origin: 'user' },
+    ]);
+  });
+});
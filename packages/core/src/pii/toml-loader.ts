@@ -0,0 +1,305 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import toml from '@iarna/toml';
+import { z, type ZodError } from 'zod';
+import type { RedactionRule, RedactionRuleOrigin } from './gitleaksFilters.js';
+import { customRules } from './gitleaksFilters.js';
+
+export const REDACTION_RULES_FILENAME = 'redaction.toml';
+
+/**
+ * Schema for a single redaction rule in the TOML file (before transformation).
+ */
+const RedactionRuleSchema = z.object({
+  name: z.string().min(1, { message: 'name must not be empty' }),
+  pattern: z.string().optional(),
+  flags: z
+    .string()
+    .regex(/^[imsu]*$/, {
+      message: 'flags may only contain i, m, s and u',
+    })
+    .optional(),
+  replacement: z.string().optional(),
+  enabled: z.boolean().optional(),
+  allowlist: z.array(z.string()).optional(),
+});
+
+/**
+ * Schema for the entire redaction TOML file.
+ */
+const RedactionFileSchema = z.object({
+  allowlist: z.array(z.string()).optional(),
+  rule: z.array(RedactionRuleSchema).optional(),
+});
+
+/**
+ * A redaction rules file and the tier it belongs to. Sources are merged in
+ * the order given, so later sources override earlier ones.
+ */
+export interface RedactionRuleSource {
+  filePath: string;
+  origin: RedactionRuleOrigin;
+  /** Set when `origin` is `extension`. */
+  extensionName?: string;
+}
+
+/**
+ * Types of errors that can occur while loading redaction rule files.
+ */
+export type RedactionFileErrorType =
+  | 'file_read'
+  | 'toml_parse'
+  | 'schema_validation'
+  | 'rule_validation'
+  | 'regex_compilation';
+
+/**
+ * Detailed error information for redaction rule file loading failures.
+ */
+export interface RedactionFileError {
+  filePath: string;
+  origin: RedactionRuleOrigin;
+  ruleIndex?: number;
+  errorType: RedactionFileErrorType;
+  message: string;
+  details?: string;
+  suggestion?: string;
+}
+
+/**
+ * Result of loading redaction rules from TOML files.
+ */
+export interface RedactionLoadResult {
+  /** Every rule after merging, including disabled ones. */
+  rules: RedactionRule[];
+  errors: RedactionFileError[];
+}
+
+/**
+ * Formats a Zod validation error into a readable error message.
+ */
+function formatSchemaError(error: ZodError): string {
+  return error.issues
+    .map((issue) => `  - Field "${issue.path.join('.')}": ${issue.message}`)
+    .join('\n');
+}
+
+/**
+ * Compiles a regex, returning the error message instead of throwing.
+ */
+function compileRegex(source: string, flags = ''): RegExp | string {
+  try {
+    return new RegExp(source, flags);
+  } catch (e) {
+    return (e as Error).message;
+  }
+}
+
+/**
+ * Formats a redaction rule file error for console logging.
+ */
+export function formatRedactionFileError(error: RedactionFileError): string {
+  const tierLabel = error.origin.toUpperCase();
+  let message = `[${tierLabel}] Redaction rules error in ${error.filePath}:\n`;
+  message += `  ${error.message}`;
+  if (error.details) {
+    message += `\n${error.details}`;
+  }
+  if (error.suggestion) {
+    message += `\n  Suggestion: ${error.suggestion}`;
+  }
+  return message;
+}
+
+/**
+ * Loads redaction rules from TOML files and merges them over the built-in
+ * gitleaks rules.
+ *
+ * A rule whose `name` matches an existing rule overrides it field by field,
+ * so a file can disable a built-in rule (`enabled = false`), change its
+ * `replacement` or extend its `allowlist` without repeating its `pattern`.
+ * A rule with a new name must provide a `pattern`. A top-level `allowlist`
+ * applies to every rule, including the built-in ones.
+ *
+ * Missing files are skipped silently; every other problem is reported in
+ * `errors` and only the offending rule (or file) is skipped.
+ *
+ * @param sources Rule files in order of increasing priority
+ * @returns Object containing the merged rules and any errors encountered
+ */
+export async function loadRedactionRulesFromToml(
+  sources: RedactionRuleSource[],
+  baseRules: RedactionRule[] = customRules,
+): Promise<RedactionLoadResult> {
+  const rulesByName = new Map<string, RedactionRule>();
+  for (const rule of baseRules) {
+    rulesByName.set(rule.name, { origin: 'default', ...rule });
+  }
+  const globalAllowlist: RegExp[] = [];
+  const errors: RedactionFileError[] = [];
+
+  for (const source of sources) {
+    const { filePath, origin } = source;
+
+    let fileContent: string;
+    try {
+      fileContent = await fs.readFile(filePath, 'utf-8');
+    } catch (e) {
+      const error = e as NodeJS.ErrnoException;
+      if (error.code !== 'ENOENT') {
+        errors.push({
+          filePath,
+          origin,
+          errorType: 'file_read',
+          message: 'Failed to read redaction rules file',
+          details: error.message,
+        });
+      }
+      continue;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = toml.parse(fileContent);
+    } catch (e) {
+      errors.push({
+        filePath,
+        origin,
+        errorType: 'toml_parse',
+        message: 'TOML parsing failed',
+        details: (e as Error).message,
+        suggestion:
+          'Check for syntax errors like missing quotes, brackets, or commas',
+      });
+      continue;
+    }
+
+    const validationResult = RedactionFileSchema.safeParse(parsed);
+    if (!validationResult.success) {
+      errors.push({
+        filePath,
+        origin,
+        errorType: 'schema_validation',
+        message: 'Schema validation failed',
+        details: formatSchemaError(validationResult.error),
+        suggestion:
+          'Each [[rule]] needs a name; pattern, replacement and flags must be strings, enabled a boolean and allowlist an array of strings',
+      });
+      continue;
+    }
+
+    const regexError = (pattern: string, message: string, index?: number) =>
+      errors.push({
+        filePath,
+        origin,
+        ruleIndex: index,
+        errorType: 'regex_compilation',
+        message: 'Invalid regex pattern',
+        details: `Pattern: ${pattern}\nError: ${message}`,
+        suggestion:
+          'Check regex syntax for errors like unmatched brackets or invalid escape sequences',
+      });
+
+    for (const pattern of validationResult.data.allowlist ?? []) {
+      const compiled = compileRegex(pattern);
+      if (typeof compiled === 'string') {
+        regexError(pattern, compiled);
+      } else {
+        globalAllowlist.push(compiled);
+      }
+    }
+
+    const fileRules = validationResult.data.rule ?? [];
+    for (let i = 0; i < fileRules.length; i++) {
+      const tomlRule = fileRules[i];
+      const existing = rulesByName.get(tomlRule.name);
+
+      if (!existing && tomlRule.pattern === undefined) {
+        errors.push({
+          filePath,
+          origin,
+          ruleIndex: i,
+          errorType: 'rule_validation',
+          message: 'Missing pattern',
+          details: `Rule #${i + 1} ("${tomlRule.name}") does not override an existing rule and has no pattern`,
+          suggestion: `Add a pattern, or use the exact name of an existing rule to override it`,
+        });
+        continue;
+      }
+
+      let pattern = existing?.pattern;
+      if (tomlRule.pattern !== undefined) {
+        // Always match globally so every occurrence is redacted.
+        const flags = `g${tomlRule.flags ?? ''}`;
+        const compiled = compileRegex(tomlRule.pattern, flags);
+        if (typeof compiled === 'string') {
+          regexError(tomlRule.pattern, compiled, i);
+          continue;
+        }
+        const source = compiled.source;
+        pattern = () => new RegExp(source, flags);
+      }
+
+      const allowlist = [...(existing?.allowlist ?? [])];
+      let allowlistValid = true;
+      for (const entry of tomlRule.allowlist ?? []) {
+        const compiled = compileRegex(entry);
+        if (typeof compiled === 'string') {
+          regexError(entry, compiled, i);
+          allowlistValid = false;
+          break;
+        }
+        allowlist.push(compiled);
+      }
+      if (!allowlistValid) {
+        continue;
+      }
+
+      rulesByName.set(tomlRule.name, {
+        name: tomlRule.name,
+        pattern: pattern!,
+        replacement: tomlRule.replacement ?? existing?.replacement,
+        enabled: tomlRule.enabled ?? existing?.enabled,
+        allowlist: allowlist.length > 0 ? allowlist : undefined,
+        origin,
+        extensionName: source.extensionName,
+      });
+    }
+  }
+
+  const rules = [...rulesByName.values()].map((rule) =>
+    globalAllowlist.length > 0
+      ? { ...rule, allowlist: [...(rule.allowlist ?? []), ...globalAllowlist] }
+      : rule,
+  );
+  return { rules, errors };
+}
+
+/**
+ * Gets the redaction rule files to load, in order of increasing priority
+ * (Extensions -> User -> Project).
+ */
+export function getRedactionRuleSources(options: {
+  userRulesPath: string;
+  projectRulesPath?: string;
+  extensions: Array<{ name: string; path: string; isActive: boolean }>;
+}): RedactionRuleSource[] {
+  const sources: RedactionRuleSource[] = options.extensions
+    .filter((extension) => extension.isActive)
+    .map((extension) => ({
+      filePath: path.join(extension.path, REDACTION_RULES_FILENAME),
+      origin: 'extension',
+      extensionName: extension.name,
+    }));
+  sources.push({ filePath: options.userRulesPath, origin: 'user' });
+  if (options.projectRulesPath) {
+    sources.push({ filePath: options.projectRulesPath, origin: 'project' });
+  }
+  return sources;
+}
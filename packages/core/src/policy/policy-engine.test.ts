@@ -4,7 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, beforeAll } from 'vitest';
 import { PolicyEngine } from './policy-engine.js';
 import {
   PolicyDecision,
@@ -12,6 +12,7 @@ import {
   type PolicyEngineConfig,
 } from './types.js';
 import type { FunctionCall } from '@google/genai';
+import { initializeShellParsers } from '../utils/shell-utils.js';
 
 describe('PolicyEngine', () => {
   let engine: PolicyEngine;
@@ -781,6 +782,238 @@ describe('PolicyEngine', () => {
     });
   });
 
+  describe('argument conditions', () => {
+    beforeEach(() => {
+      engine = new PolicyEngine({
+        rules: [
+          {
+            toolName: 'write_file',
+            argsConditions: [{ path: 'file_path', glob: '/project/src/**' }],
+            decision: PolicyDecision.ALLOW,
+          },
+          {
+            toolName: 'replace',
+            argsConditions: [
+              { path: 'options.mode', in: ['append', 'prepend'] },
+              { path: 'file_path', regex: /\.md$/ },
+            ],
+            decision: PolicyDecision.ALLOW,
+          },
+        ],
+      });
+    });
+
+    it('should match globs against argument paths', () => {
+      const check = (file_path: unknown) =>
+        engine.check({ name: 'write_file', args: { file_path } }, undefined);
+
+      expect(check('/project/src/a/b.ts')).toBe(PolicyDecision.ALLOW);
+      expect(check('/project/src/.env')).toBe(PolicyDecision.ALLOW);
+      expect(check('/project/package.json')).toBe(PolicyDecision.ASK_USER);
+      expect(check(42)).toBe(PolicyDecision.ASK_USER);
+      expect(engine.check({ name: 'write_file' }, undefined)).toBe(
+        PolicyDecision.ASK_USER,
+      );
+    });
+
+    it('should require every condition to hold', () => {
+      const check = (args: Record<string, unknown>) =>
+        engine.check({ name: 'replace', args }, undefined);
+
+      expect(
+        check({ file_path: 'README.md', options: { mode: 'append' } }),
+      ).toBe(PolicyDecision.ALLOW);
+      expect(
+        check({ file_path: 'README.md', options: { mode: 'overwrite' } }),
+      ).toBe(PolicyDecision.ASK_USER);
+      expect(
+        check({ file_path: 'index.ts', options: { mode: 'append' } }),
+      ).toBe(PolicyDecision.ASK_USER);
+      expect(check({ file_path: 'README.md' })).toBe(PolicyDecision.ASK_USER);
+    });
+
+    it('should match globs against paths relative to the workspace', () => {
+      engine = new PolicyEngine({
+        rules: [
+          {
+            toolName: 'read_file',
+            argsConditions: [{ path: 'file_path', glob: 'secrets/**' }],
+            decision: PolicyDecision.DENY,
+            priority: 2,
+          },
+          {
+            toolName: 'write_file',
+            argsConditions: [{ path: 'file_path', glob: 'src/**' }],
+            decision: PolicyDecision.ALLOW,
+            priority: 1,
+          },
+        ],
+        getWorkspaceRoots: () => ['/abs/project', '/abs/shared'],
+      });
+      const check = (name: string, file_path: string) =>
+        engine.check({ name, args: { file_path } }, undefined);
+
+      expect(
+        [
+          'secrets/a',
+          './secrets/a',
+          '/abs/project/secrets/a',
+          'src/../secrets/a',
+          '/abs/project/src/../secrets/a',
+          '/abs/shared/secrets/a',
+        ].map((filePath) => check('read_file', filePath)),
+      ).toEqual(Array(6).fill(PolicyDecision.DENY));
+      expect(check('read_file', 'src/secrets/a')).toBe(PolicyDecision.ASK_USER);
+
+      expect(check('write_file', 'src/index.ts')).toBe(PolicyDecision.ALLOW);
+      expect(check('write_file', '/abs/project/src/index.ts')).toBe(
+        PolicyDecision.ALLOW,
+      );
+      expect(check('write_file', 'src/../package.json')).toBe(
+        PolicyDecision.ASK_USER,
+      );
+      expect(check('write_file', '../other/src/index.ts')).toBe(
+        PolicyDecision.ASK_USER,
+      );
+    });
+
+    it('should normalize paths without workspace directories', () => {
+      engine = new PolicyEngine({
+        rules: [
+          {
+            toolName: 'read_file',
+            argsConditions: [{ path: 'file_path', glob: 'secrets/**' }],
+            decision: PolicyDecision.DENY,
+          },
+        ],
+      });
+
+      expect(
+        engine.check(
+          { name: 'read_file', args: { file_path: './src/../secrets/a' } },
+          undefined,
+        ),
+      ).toBe(PolicyDecision.DENY);
+    });
+  });
+
+  describe('shell command matchers', () => {
+    const shell = (command: string): FunctionCall => ({
+      name: 'run_shell_command',
+      args: { command },
+    });
+
+    beforeAll(async () => {
+      await initializeShellParsers();
+    });
+
+    beforeEach(() => {
+      engine = new PolicyEngine({
+        rules: [
+          {
+            toolName: 'run_shell_command',
+            commandMatcher: { program: ['git'], subcommand: ['push', 'reset'] },
+            decision: PolicyDecision.DENY,
+            priority: 2,
+          },
+          {
+            toolName: 'run_shell_command',
+            commandMatcher: { program: ['git', 'ls'] },
+            decision: PolicyDecision.ALLOW,
+            priority: 1,
+          },
+        ],
+      });
+    });
+
+    it('should match the program and subcommand of each command', () => {
+      expect(engine.check(shell('git status'), undefined)).toBe(
+        PolicyDecision.ALLOW,
+      );
+      expect(engine.check(shell('/usr/bin/git "push" origin'), undefined)).toBe(
+        PolicyDecision.DENY,
+      );
+      expect(engine.check(shell('gitk'), undefined)).toBe(
+        PolicyDecision.ASK_USER,
+      );
+    });
+
+    it('should deny when any command in a chain, pipe or subshell matches', () => {
+      expect(engine.check(shell('ls && git push'), undefined)).toBe(
+        PolicyDecision.DENY,
+      );
+      expect(engine.check(shell('ls | (git reset --hard)'), undefined)).toBe(
+        PolicyDecision.DENY,
+      );
+      expect(engine.check(shell('ls "$(git push)"'), undefined)).toBe(
+        PolicyDecision.DENY,
+      );
+    });
+
+    it('should only allow when every command matches', () => {
+      expect(engine.check(shell('git log | ls'), undefined)).toBe(
+        PolicyDecision.ALLOW,
+      );
+      expect(engine.check(shell('git log; rm -rf /'), undefined)).toBe(
+        PolicyDecision.ASK_USER,
+      );
+    });
+
+    it('should match words that are quoted in parts', () => {
+      expect(
+        [`git pu''sh`, 'git "pu"sh', 'git pu\\sh', `'g'it reset`].map(
+          (command) => engine.check(shell(command), undefined),
+        ),
+      ).toEqual(Array(4).fill(PolicyDecision.DENY));
+    });
+
+    it('should deny but never allow words only known when the command runs', () => {
+      expect(
+        ['git $SUBCOMMAND', 'git "$(echo push)"', '$GIT push', 'git pu*'].map(
+          (command) => engine.check(shell(command), undefined),
+        ),
+      ).toEqual(Array(4).fill(PolicyDecision.DENY));
+      expect(engine.check(shell('$GIT status'), undefined)).toBe(
+        PolicyDecision.ASK_USER,
+      );
+    });
+
+    it('should match the command run by command, env and exec', () => {
+      expect(
+        [
+          'command git push',
+          'env FOO=1 git push',
+          'env -u HOME -- git push',
+          'exec -a name git push',
+          'command env git reset',
+        ].map((command) => engine.check(shell(command), undefined)),
+      ).toEqual(Array(5).fill(PolicyDecision.DENY));
+      expect(engine.check(shell('env -S "git push"'), undefined)).toBe(
+        PolicyDecision.DENY,
+      );
+      expect(engine.check(shell('command git status'), undefined)).toBe(
+        PolicyDecision.ALLOW,
+      );
+    });
+
+    it('should never allow commands that cannot be parsed', () => {
+      engine = new PolicyEngine({
+        rules: [
+          {
+            toolName: 'run_shell_command',
+            commandMatcher: { program: ['git'] },
+            decision: PolicyDecision.ALLOW,
+          },
+        ],
+        defaultDecision: PolicyDecision.DENY,
+      });
+
+      expect(engine.check(shell('git log "'), undefined)).toBe(
+        PolicyDecision.DENY,
+      );
+    });
+  });
+
   describe('serverName requirement', () => {
     it('should require serverName for checks', () => {
       // @ts-expect-error - intentionally testing missing serverName
@@ -5,19 +5,133 @@
  */
 
 import { type FunctionCall } from '@google/genai';
+import picomatch from 'picomatch';
+import * as path from 'node:path';
+import { isDeepStrictEqual } from 'node:util';
 import {
   PolicyDecision,
+  type PolicyArgCondition,
   type PolicyEngineConfig,
   type PolicyRule,
 } from './types.js';
 import { stableStringify } from './stable-stringify.js';
 import { debugLogger } from '../utils/debugLogger.js';
+import {
+  matchesShellCommand,
+  parseShellCommands,
+  type ShellCommand,
+} from '../utils/shell-utils.js';
+
+function getValueAtPath(
+  args: Record<string, unknown>,
+  argPath: string,
+): unknown {
+  let value: unknown = args;
+  for (const key of argPath.split('.')) {
+    if (typeof value !== 'object' || value === null) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Returns the forms of a file path that `glob` conditions are matched against:
+ * the absolute path and the path relative to each workspace directory that
+ * contains it. Without workspace directories the path is only normalized.
+ */
+function getGlobCandidates(
+  filePath: string,
+  workspaceRoots: readonly string[],
+): string[] {
+  const toPosix = (candidate: string) => candidate.split(path.sep).join('/');
+  if (workspaceRoots.length === 0) {
+    return [toPosix(path.normalize(filePath))];
+  }
+  const absolutePath = path.resolve(workspaceRoots[0], filePath);
+  const candidates = workspaceRoots
+    .map((root) => path.relative(root, absolutePath))
+    .filter(
+      (relativePath) =>
+        relativePath !== '' &&
+        relativePath !== '..' &&
+        !relativePath.startsWith(`..${path.sep}`) &&
+        !path.isAbsolute(relativePath),
+    );
+  return [...candidates, absolutePath].map(toPosix);
+}
+
+function argConditionHolds(
+  condition: PolicyArgCondition,
+  args: Record<string, unknown>,
+  workspaceRoots: readonly string[],
+): boolean {
+  const value = getValueAtPath(args, condition.path);
+  if (value === undefined) {
+    return false;
+  }
+  if (
+    condition.equals !== undefined &&
+    !isDeepStrictEqual(value, condition.equals)
+  ) {
+    return false;
+  }
+  if (
+    condition.in &&
+    !condition.in.some((candidate) => isDeepStrictEqual(value, candidate))
+  ) {
+    return false;
+  }
+  if (condition.glob !== undefined) {
+    if (typeof value !== 'string') {
+      return false;
+    }
+    const isMatch = picomatch(condition.glob, { dot: true });
+    if (
+      !getGlobCandidates(value, workspaceRoots).some((candidate) =>
+        isMatch(candidate),
+      )
+    ) {
+      return false;
+    }
+  }
+  if (
+    condition.regex &&
+    (typeof value !== 'string' || !condition.regex.test(value))
+  ) {
+    return false;
+  }
+  return true;
+}
+
+function commandMatcherMatches(
+  rule: PolicyRule,
+  shellCommands: ShellCommand[] | null,
+): boolean {
+  if (!shellCommands || shellCommands.length === 0) {
+    // A command line that cannot be parsed is never allowed by a rule, but is
+    // denied or asked about by any rule that might cover it.
+    return rule.decision !== PolicyDecision.ALLOW;
+  }
+  const matches = (command: ShellCommand) =>
+    matchesShellCommand(
+      rule.commandMatcher!,
+      command,
+      rule.decision !== PolicyDecision.ALLOW,
+    );
+  return rule.decision === PolicyDecision.ALLOW
+    ? shellCommands.every(matches)
+    : shellCommands.some(matches);
+}
 
 function ruleMatches(
   rule: PolicyRule,
   toolCall: FunctionCall,
   stringifiedArgs: string | undefined,
   serverName: string | undefined,
+  getShellCommands: () => ShellCommand[] | null,
+  workspaceRoots: readonly string[],
 ): boolean {
   // Check tool name if specified
   if (rule.toolName) {
@@ -55,6 +169,27 @@ function ruleMatches(
     }
   }
 
+  if (rule.argsConditions) {
+    const args = toolCall.args;
+    if (
+      !args ||
+      !rule.argsConditions.every((condition) =>
+        argConditionHolds(condition, args, workspaceRoots),
+      )
+    ) {
+      return false;
+    }
+  }
+
+  if (rule.commandMatcher) {
+    if (typeof toolCall.args?.['command'] !== 'string') {
+      return false;
+    }
+    if (!commandMatcherMatches(rule, getShellCommands())) {
+      return false;
+    }
+  }
+
   return true;
 }
 
@@ -62,6 +197,7 @@ export class PolicyEngine {
   private rules: PolicyRule[];
   private readonly defaultDecision: PolicyDecision;
   private readonly nonInteractive: boolean;
+  private readonly getWorkspaceRoots: () => readonly string[];
 
   constructor(config: PolicyEngineConfig = {}) {
     this.rules = (config.rules ?? []).sort(
@@ -69,6 +205,7 @@ export class PolicyEngine {
     );
     this.defaultDecision = config.defaultDecision ?? PolicyDecision.ASK_USER;
     this.nonInteractive = config.nonInteractive ?? false;
+    this.getWorkspaceRoots = config.getWorkspaceRoots ?? (() => []);
   }
 
   /**
@@ -88,9 +225,29 @@ export class PolicyEngine {
       `[PolicyEngine.check] toolCall.name: ${toolCall.name}, stringifiedArgs: ${stringifiedArgs}`,
     );
 
+    // Parse shell commands at most once, and only if a rule needs them
+    let shellCommands: ShellCommand[] | null | undefined;
+    const getShellCommands = () => {
+      if (shellCommands === undefined) {
+        shellCommands = parseShellCommands(String(toolCall.args?.['command']));
+      }
+      return shellCommands;
+    };
+
+    const workspaceRoots = this.getWorkspaceRoots();
+
     // Find the first matching rule (already sorted by priority)
     for (const rule of this.rules) {
-      if (ruleMatches(rule, toolCall, stringifiedArgs, serverName)) {
+      if (
+        ruleMatches(
+          rule,
+          toolCall,
+          stringifiedArgs,
+          serverName,
+          getShellCommands,
+          workspaceRoots,
+        )
+      ) {
         debugLogger.debug(
           `[PolicyEngine.check] MATCHED rule: toolName=${rule.toolName}, decision=${rule.decision}, priority=${rule.priority}, argsPattern=${rule.argsPattern?.source || 'none'}`,
         );
@@ -255,6 +255,85 @@ priority = 100
       expect(result.errors[0].details).toContain('git (status|branch');
     });
 
+    it('should load argument conditions', async () => {
+      const result = await runLoadPoliciesFromToml(`
+[[rule]]
+toolName = "write_file"
+args = [
+  { path = "file_path", glob = "src/**" },
+  { path = "encoding", in = ["utf-8", "ascii"], regex = "^[a-z-]+$" },
+]
+decision = "allow"
+priority = 100
+`);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.rules[0].argsConditions).toEqual([
+        { path: 'file_path', glob: 'src/**' },
+        { path: 'encoding', in: ['utf-8', 'ascii'], regex: /^[a-z-]+$/ },
+      ]);
+    });
+
+    it('should load shell command matchers', async () => {
+      const result = await runLoadPoliciesFromToml(`
+[[rule]]
+toolName = "run_shell_command"
+command = { program = "git", subcommand = ["push", "reset"] }
+decision = "deny"
+priority = 100
+
+[[rule]]
+toolName = "run_shell_command"
+command = { prefix = "npm  run test" }
+decision = "allow"
+priority = 100
+`);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.rules[0].commandMatcher).toEqual({
+        program: ['git'],
+        subcommand: ['push', 'reset'],
+      });
+      expect(result.rules[1].commandMatcher).toEqual({
+        prefix: ['npm', 'run', 'test'],
+      });
+    });
+
+    it('should reject invalid argument and command conditions', async () => {
+      const result = await runLoadPoliciesFromToml(`
+[[rule]]
+toolName = "read_file"
+command = { program = "git" }
+decision = "allow"
+priority = 100
+
+[[rule]]
+toolName = "write_file"
+args = [{ path = "file_path" }]
+decision = "allow"
+priority = 100
+
+[[rule]]
+toolName = "write_file"
+args = [{ path = "file_path", regex = "src/(" }]
+decision = "allow"
+priority = 100
+`);
+
+      expect(result.errors.map((error) => error.errorType)).toEqual([
+        'rule_validation',
+        'rule_validation',
+        'regex_compilation',
+      ]);
+      expect(result.errors[0].details).toContain(
+        'command can only be used with toolName = "run_shell_command"',
+      );
+      expect(result.errors[1].details).toContain(
+        'the condition on args.file_path has no checks',
+      );
+      expect(result.errors[2].details).toContain('src/( (args.file_path)');
+    });
+
     it('should escape regex special characters in commandPrefix', async () => {
       const result = await runLoadPoliciesFromToml(`
 [[rule]]
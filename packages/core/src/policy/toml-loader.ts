@@ -4,12 +4,37 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { type PolicyRule, PolicyDecision, type ApprovalMode } from './types.js';
+import {
+  type PolicyArgCondition,
+  type PolicyRule,
+  PolicyDecision,
+  type ApprovalMode,
+} from './types.js';
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import toml from '@iarna/toml';
 import { z, type ZodError } from 'zod';
 
+/**
+ * Schema for a condition on a single tool argument.
+ */
+const ArgConditionSchema = z.object({
+  path: z.string().min(1, { message: 'path must not be empty' }),
+  equals: z.union([z.string(), z.number(), z.boolean()]).optional(),
+  in: z.array(z.union([z.string(), z.number(), z.boolean()])).optional(),
+  glob: z.string().optional(),
+  regex: z.string().optional(),
+});
+
+/**
+ * Schema for conditions on the parsed commands of a shell command line.
+ */
+const CommandMatcherSchema = z.object({
+  program: z.union([z.string(), z.array(z.string())]).optional(),
+  subcommand: z.union([z.string(), z.array(z.string())]).optional(),
+  prefix: z.string().optional(),
+});
+
 /**
  * Schema for a single policy rule in the TOML file (before transformation).
  */
@@ -17,8 +42,10 @@ const PolicyRuleSchema = z.object({
   toolName: z.union([z.string(), z.array(z.string())]).optional(),
   mcpName: z.string().optional(),
   argsPattern: z.string().optional(),
+  args: z.array(ArgConditionSchema).optional(),
   commandPrefix: z.union([z.string(), z.array(z.string())]).optional(),
   commandRegex: z.string().optional(),
+  command: CommandMatcherSchema.optional(),
   decision: z.nativeEnum(PolicyDecision),
   // Priority must be in range [0, 999] to prevent tier overflow.
   // With tier transformation (tier + priority/1000), this ensures:
@@ -94,6 +121,13 @@ function escapeRegex(str: string): string {
   return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
+function toArray(value: string | string[] | undefined): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
 /**
  * Converts a tier number to a human-readable tier name.
  */
@@ -129,6 +163,47 @@ function validateShellCommandSyntax(
   const hasCommandRegex = rule.commandRegex !== undefined;
   const hasArgsPattern = rule.argsPattern !== undefined;
 
+  if (rule.command !== undefined) {
+    if (rule.toolName !== 'run_shell_command') {
+      return (
+        `Rule #${ruleIndex + 1}: command can only be used with toolName = "run_shell_command"\n` +
+        `  Found: toolName = ${JSON.stringify(rule.toolName)}\n` +
+        `  Fix: Set toolName = "run_shell_command" (not an array)`
+      );
+    }
+    if (hasCommandPrefix || hasCommandRegex) {
+      return (
+        `Rule #${ruleIndex + 1}: cannot use both command and commandPrefix/commandRegex\n` +
+        `  command matches the parsed commands and replaces the older fields\n` +
+        `  Fix: Move the prefix to command.prefix`
+      );
+    }
+    if (
+      rule.command.program === undefined &&
+      rule.command.subcommand === undefined &&
+      rule.command.prefix === undefined
+    ) {
+      return (
+        `Rule #${ruleIndex + 1}: command has no conditions\n` +
+        `  Fix: Set at least one of command.program, command.subcommand or command.prefix`
+      );
+    }
+  }
+
+  const emptyCondition = rule.args?.find(
+    (condition) =>
+      condition.equals === undefined &&
+      condition.in === undefined &&
+      condition.glob === undefined &&
+      condition.regex === undefined,
+  );
+  if (emptyCondition) {
+    return (
+      `Rule #${ruleIndex + 1}: the condition on args.${emptyCondition.path} has no checks\n` +
+      `  Fix: Set at least one of equals, in, glob or regex`
+    );
+  }
+
   if (hasCommandPrefix || hasCommandRegex) {
     // Must have exactly toolName = "run_shell_command"
     if (rule.toolName !== 'run_shell_command' || Array.isArray(rule.toolName)) {
@@ -341,6 +416,14 @@ export async function loadPoliciesFromToml(
                   priority: transformPriority(rule.priority, tier),
                 };
 
+                if (rule.command) {
+                  policyRule.commandMatcher = {
+                    program: toArray(rule.command.program),
+                    subcommand: toArray(rule.command.subcommand),
+                    prefix: rule.command.prefix?.trim().split(/\s+/),
+                  };
+                }
+
                 // Compile regex pattern
                 if (argsPattern) {
                   try {
@@ -362,6 +445,37 @@ export async function loadPoliciesFromToml(
                   }
                 }
 
+                if (rule.args) {
+                  const argsConditions: PolicyArgCondition[] = [];
+                  for (const condition of rule.args) {
+                    const { regex, ...rest } = condition;
+                    if (regex === undefined) {
+                      argsConditions.push(rest);
+                      continue;
+                    }
+                    try {
+                      argsConditions.push({
+                        ...rest,
+                        regex: new RegExp(regex),
+                      });
+                    } catch (e) {
+                      const error = e as Error;
+                      errors.push({
+                        filePath,
+                        fileName: file,
+                        tier: tierName,
+                        errorType: 'regex_compilation',
+                        message: 'Invalid regex pattern',
+                        details: `Pattern: ${regex} (args.${condition.path})\nError: ${error.message}`,
+                        suggestion:
+                          'Check regex syntax for errors like unmatched brackets or invalid escape sequences',
+                      });
+                      return null;
+                    }
+                  }
+                  policyRule.argsConditions = argsConditions;
+                }
+
                 return policyRule;
               });
             });
@@ -4,6 +4,8 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import type { ShellCommandMatcher } from '../utils/shell-utils.js';
+
 export enum PolicyDecision {
   ALLOW = 'allow',
   DENY = 'deny',
@@ -29,6 +31,19 @@ export interface PolicyRule {
    */
   argsPattern?: RegExp;
 
+  /**
+   * Conditions on individual arguments, all of which must hold.
+   */
+  argsConditions?: PolicyArgCondition[];
+
+  /**
+   * For shell tools, conditions on the commands of the command line. Each
+   * command joined with pipes, `&&`, `||` or `;`, or run in a subshell or
+   * substitution, is checked separately: an ALLOW rule matches when every
+   * command matches, any other rule when one command matches.
+   */
+  commandMatcher?: ShellCommandMatcher;
+
   /**
    * The decision to make when this rule matches.
    */
@@ -41,6 +56,27 @@ export interface PolicyRule {
   priority?: number;
 }
 
+/**
+ * A condition on the value at a path of the tool arguments. The condition
+ * holds when the value satisfies all of the given checks.
+ */
+export interface PolicyArgCondition {
+  /** Dot-separated path of the argument, e.g. `file_path` or `options.force`. */
+  path: string;
+  /** The value must equal this value. */
+  equals?: unknown;
+  /** The value must equal one of these values. */
+  in?: unknown[];
+  /**
+   * The value must be a file path that matches this glob. Relative paths
+   * resolve against the target directory, and paths inside a workspace
+   * directory are matched relative to it.
+   */
+  glob?: string;
+  /** The value must be a string that matches this pattern. */
+  regex?: RegExp;
+}
+
 export interface PolicyEngineConfig {
   /**
    * List of policy rules to apply.
@@ -58,6 +94,12 @@ export interface PolicyEngineConfig {
    * When true, ASK_USER decisions become DENY.
    */
   nonInteractive?: boolean;
+
+  /**
+   * Returns the workspace directories, the first being the target directory.
+   * Used to match `glob` argument conditions against file paths.
+   */
+  getWorkspaceRoots?: () => readonly string[];
 }
 
 export interface PolicySettings {
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ResourceRegistry } from './resource-registry.js';
+
+describe('ResourceRegistry', () => {
+  let registry: ResourceRegistry;
+
+  beforeEach(() => {
+    registry = new ResourceRegistry();
+  });
+
+  it('should return resources ordered by server and URI', () => {
+    registry.setServerResources(
+      'notes',
+      [
+        { uri: 'note://b', name: 'b', serverName: 'notes' },
+        { uri: 'note://a', name: 'a', serverName: 'notes' },
+      ],
+      [],
+      vi.fn(),
+    );
+    registry.setServerResources(
+      'docs',
+      [{ uri: 'doc://x', name: 'x', serverName: 'docs' }],
+      [{ uriTemplate: 'doc://{id}', name: 'doc', serverName: 'docs' }],
+      vi.fn(),
+    );
+
+    expect(registry.getServerNames()).toEqual(['docs', 'notes']);
+    expect(registry.getAllResources().map((resource) => resource.uri)).toEqual([
+      'doc://x',
+      'note://a',
+      'note://b',
+    ]);
+    expect(registry.getAllResourceTemplates()).toHaveLength(1);
+  });
+
+  it('should replace the resources of a server', () => {
+    registry.setServerResources(
+      'notes',
+      [{ uri: 'note://a', name: 'a', serverName: 'notes' }],
+      [],
+      vi.fn(),
+    );
+    registry.setServerResources('notes', [], [], vi.fn());
+
+    expect(registry.getResourcesByServer('notes')).toEqual([]);
+    expect(registry.hasServer('notes')).toBe(true);
+  });
+
+  it('should read resources through the server reader', async () => {
+    const read = vi.fn().mockResolvedValue({ contents: [] });
+    registry.setServerResources('notes', [], [], read);
+
+    await expect(registry.readResource('notes', 'note://a')).resolves.toEqual({
+      contents: [],
+    });
+    expect(read).toHaveBeenCalledWith('note://a');
+  });
+
+  it('should reject reads from unknown servers', async () => {
+    await expect(registry.readResource('missing', 'x://y')).rejects.toThrow(
+      "MCP server 'missing' has no resources.",
+    );
+  });
+
+  it('should parse references to servers with resources', () => {
+    registry.setServerResources('docs', [], [], vi.fn());
+
+    expect(registry.parseReference('docs:file:///readme.md')).toEqual({
+      serverName: 'docs',
+      uri: 'file:///readme.md',
+    });
+    expect(registry.parseReference('notes:note://a')).toBeUndefined();
+    expect(registry.parseReference('docs:')).toBeUndefined();
+    expect(registry.parseReference('src/index.ts')).toBeUndefined();
+  });
+
+  it('should remove the resources of a server', () => {
+    registry.setServerResources('notes', [], [], vi.fn());
+    registry.setServerResources('docs', [], [], vi.fn());
+
+    registry.removeResourcesByServer('notes');
+
+    expect(registry.getServerNames()).toEqual(['docs']);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import type {
+  DiscoveredMCPResource,
+  DiscoveredMCPResourceTemplate,
+} from '../tools/mcp-client.js';
+
+export type ReadMcpResource = (uri: string) => Promise<ReadResourceResult>;
+
+interface ServerResources {
+  resources: DiscoveredMCPResource[];
+  templates: DiscoveredMCPResourceTemplate[];
+  read: ReadMcpResource;
+}
+
+/**
+ * Holds the resources and resource templates discovered from MCP servers,
+ * grouped by server so that a server's list can be replaced as a whole when
+ * it reports a change.
+ */
+export class ResourceRegistry {
+  private servers: Map<string, ServerResources> = new Map();
+
+  /**
+   * Replaces the resources and templates of a server.
+   * @param read - Reads a resource of the server by URI.
+   */
+  setServerResources(
+    serverName: string,
+    resources: DiscoveredMCPResource[],
+    templates: DiscoveredMCPResourceTemplate[],
+    read: ReadMcpResource,
+  ): void {
+    this.servers.set(serverName, { resources, templates, read });
+  }
+
+  /**
+   * Returns the names of the servers that provide resources.
+   */
+  getServerNames(): string[] {
+    return Array.from(this.servers.keys()).sort((a, b) => a.localeCompare(b));
+  }
+
+  /**
+   * Returns whether resources can be read from a server.
+   */
+  hasServer(serverName: string): boolean {
+    return this.servers.has(serverName);
+  }
+
+  /**
+   * Splits a `server:uri` reference, such as `docs:file:///readme.md`, into
+   * its server name and URI. Returns undefined when the part before the
+   * first colon is not a server that provides resources.
+   */
+  parseReference(
+    reference: string,
+  ): { serverName: string; uri: string } | undefined {
+    const separatorIndex = reference.indexOf(':');
+    if (separatorIndex <= 0) {
+      return undefined;
+    }
+    const serverName = reference.substring(0, separatorIndex);
+    const uri = reference.substring(separatorIndex + 1);
+    return this.servers.has(serverName) && uri
+      ? { serverName, uri }
+      : undefined;
+  }
+
+  /**
+   * Returns all resources, ordered by server and URI.
+   */
+  getAllResources(): DiscoveredMCPResource[] {
+    return this.getServerNames().flatMap((serverName) =>
+      this.getResourcesByServer(serverName),
+    );
+  }
+
+  /**
+   * Returns the resources of a specific server, ordered by URI.
+   */
+  getResourcesByServer(serverName: string): DiscoveredMCPResource[] {
+    const resources = this.servers.get(serverName)?.resources ?? [];
+    return [...resources].sort((a, b) => a.uri.localeCompare(b.uri));
+  }
+
+  /**
+   * Returns all resource templates, ordered by server.
+   */
+  getAllResourceTemplates(): DiscoveredMCPResourceTemplate[] {
+    return this.getServerNames().flatMap(
+      (serverName) => this.servers.get(serverName)!.templates,
+    );
+  }
+
+  /**
+   * Reads a resource from a server. The URI does not have to be listed, so
+   * that URIs expanded from resource templates can be read as well.
+   */
+  async readResource(
+    serverName: string,
+    uri: string,
+  ): Promise<ReadResourceResult> {
+    const server = this.servers.get(serverName);
+    if (!server) {
+      throw new Error(`MCP server '${serverName}' has no resources.`);
+    }
+    return server.read(uri);
+  }
+
+  /**
+   * Clears all the resources from the registry.
+   */
+  clear(): void {
+    this.servers.clear();
+  }
+
+  /**
+   * Removes all resources and templates of a specific server.
+   */
+  removeResourcesByServer(serverName: string): void {
+    this.servers.delete(serverName);
+  }
+}
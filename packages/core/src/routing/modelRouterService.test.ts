@@ -12,6 +12,7 @@ import type { RoutingContext, RoutingDecision } from './routingStrategy.js';
 import { DefaultStrategy } from './strategies/defaultStrategy.js';
 import { CompositeStrategy } from './strategies/compositeStrategy.js';
 import { FallbackStrategy } from './strategies/fallbackStrategy.js';
+import { BudgetStrategy } from './strategies/budgetStrategy.js';
 import { OverrideStrategy } from './strategies/overrideStrategy.js';
 import { ClassifierStrategy } from './strategies/classifierStrategy.js';
 import { logModelRouting } from '../telemetry/loggers.js';
@@ -22,6 +23,7 @@ vi.mock('../core/baseLlmClient.js');
 vi.mock('./strategies/defaultStrategy.js');
 vi.mock('./strategies/compositeStrategy.js');
 vi.mock('./strategies/fallbackStrategy.js');
+vi.mock('./strategies/budgetStrategy.js');
 vi.mock('./strategies/overrideStrategy.js');
 vi.mock('./strategies/classifierStrategy.js');
 vi.mock('../telemetry/loggers.js');
@@ -44,6 +46,7 @@ describe('ModelRouterService', () => {
     mockCompositeStrategy = new CompositeStrategy(
       [
         new FallbackStrategy(),
+        new BudgetStrategy(),
         new OverrideStrategy(),
         new ClassifierStrategy(),
         new DefaultStrategy(),
@@ -73,11 +76,12 @@ describe('ModelRouterService', () => {
     const compositeStrategyArgs = vi.mocked(CompositeStrategy).mock.calls[0];
     const childStrategies = compositeStrategyArgs[0];
 
-    expect(childStrategies.length).toBe(4);
+    expect(childStrategies.length).toBe(5);
     expect(childStrategies[0]).toBeInstanceOf(FallbackStrategy);
-    expect(childStrategies[1]).toBeInstanceOf(OverrideStrategy);
-    expect(childStrategies[2]).toBeInstanceOf(ClassifierStrategy);
-    expect(childStrategies[3]).toBeInstanceOf(DefaultStrategy);
+    expect(childStrategies[1]).toBeInstanceOf(BudgetStrategy);
+    expect(childStrategies[2]).toBeInstanceOf(OverrideStrategy);
+    expect(childStrategies[3]).toBeInstanceOf(ClassifierStrategy);
+    expect(childStrategies[4]).toBeInstanceOf(DefaultStrategy);
     expect(compositeStrategyArgs[1]).toBe('agent-router');
   });
 
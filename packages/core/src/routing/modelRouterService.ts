@@ -10,6 +10,7 @@ import type {
   RoutingDecision,
   TerminalStrategy,
 } from './routingStrategy.js';
+import { BudgetStrategy } from './strategies/budgetStrategy.js';
 import { DefaultStrategy } from './strategies/defaultStrategy.js';
 import { ClassifierStrategy } from './strategies/classifierStrategy.js';
 import { CompositeStrategy } from './strategies/compositeStrategy.js';
@@ -37,6 +38,7 @@ export class ModelRouterService {
     return new CompositeStrategy(
       [
         new FallbackStrategy(),
+        new BudgetStrategy(),
         new OverrideStrategy(),
         new ClassifierStrategy(),
         new DefaultStrategy(),
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BudgetStrategy } from './budgetStrategy.js';
+import type { RoutingContext } from '../routingStrategy.js';
+import type { BaseLlmClient } from '../../core/baseLlmClient.js';
+import type { Config } from '../../config/config.js';
+import type { BudgetExceededInfo } from '../../services/budgetService.js';
+import {
+  DEFAULT_GEMINI_MODEL,
+  DEFAULT_GEMINI_MODEL_AUTO,
+  DEFAULT_GEMINI_FLASH_MODEL,
+  DEFAULT_GEMINI_FLASH_LITE_MODEL,
+} from '../../config/models.js';
+
+const EXCEEDED: BudgetExceededInfo = {
+  scope: 'daily',
+  metric: 'usd',
+  limit: 5,
+  spent: 5.5,
+};
+
+function createConfig(
+  onExceeded: 'stop' | 'downgrade',
+  exceeded: BudgetExceededInfo | undefined,
+  model = DEFAULT_GEMINI_MODEL,
+): Config {
+  return {
+    getModel: () => model,
+    budgetService: {
+      getOnExceeded: () => onExceeded,
+      getExceeded: () => exceeded,
+    },
+  } as unknown as Config;
+}
+
+describe('BudgetStrategy', () => {
+  const strategy = new BudgetStrategy();
+  const mockContext = {} as RoutingContext;
+  const mockClient = {} as BaseLlmClient;
+
+  it('should return null while within budget', async () => {
+    const decision = await strategy.route(
+      mockContext,
+      createConfig('downgrade', undefined),
+      mockClient,
+    );
+    expect(decision).toBeNull();
+  });
+
+  it('should return null when the budget is configured to stop', async () => {
+    const decision = await strategy.route(
+      mockContext,
+      createConfig('stop', EXCEEDED),
+      mockClient,
+    );
+    expect(decision).toBeNull();
+  });
+
+  it('should downgrade to the flash model once the budget is exceeded', async () => {
+    for (const model of [DEFAULT_GEMINI_MODEL, DEFAULT_GEMINI_MODEL_AUTO]) {
+      const decision = await strategy.route(
+        mockContext,
+        createConfig('downgrade', EXCEEDED, model),
+        mockClient,
+      );
+
+      expect(decision?.model).toBe(DEFAULT_GEMINI_FLASH_MODEL);
+      expect(decision?.metadata.source).toBe('budget');
+      expect(decision?.metadata.reasoning).toContain(
+        'Daily budget of $5.00 exceeded ($5.50 spent).',
+      );
+    }
+  });
+
+  it('should honor a lite model request', async () => {
+    const decision = await strategy.route(
+      mockContext,
+      createConfig('downgrade', EXCEEDED, DEFAULT_GEMINI_FLASH_LITE_MODEL),
+      mockClient,
+    );
+    expect(decision?.model).toBe(DEFAULT_GEMINI_FLASH_LITE_MODEL);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Config } from '../../config/config.js';
+import { getEffectiveModel } from '../../config/models.js';
+import type { BaseLlmClient } from '../../core/baseLlmClient.js';
+import { formatBudgetExceeded } from '../../services/budgetService.js';
+import type {
+  RoutingContext,
+  RoutingDecision,
+  RoutingStrategy,
+} from '../routingStrategy.js';
+
+/**
+ * Switches to the flash model once a budget limit has been reached and the
+ * budget is configured to downgrade rather than stop.
+ */
+export class BudgetStrategy implements RoutingStrategy {
+  readonly name = 'budget';
+
+  async route(
+    _context: RoutingContext,
+    config: Config,
+    _baseLlmClient: BaseLlmClient,
+  ): Promise<RoutingDecision | null> {
+    const budgetService = config.budgetService;
+    if (budgetService.getOnExceeded() !== 'downgrade') {
+      return null;
+    }
+    const exceeded = budgetService.getExceeded();
+    if (!exceeded) {
+      return null;
+    }
+
+    // Like fallback mode, this keeps a requested lite model.
+    const model = getEffectiveModel(true, config.getModel());
+    return {
+      model,
+      metadata: {
+        source: this.name,
+        latencyMs: 0,
+        reasoning: `${formatBudgetExceeded(exceeded)} Using: ${model}`,
+      },
+    };
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Storage } from '../config/storage.js';
+import { BudgetService, formatBudgetExceeded } from './budgetService.js';
+import { coreEvents } from '../utils/events.js';
+
+describe('BudgetService', () => {
+  let tempDir: string;
+  let storage: Storage;
+  let now: Date;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'budget-test-'));
+    const projectTempDir = path.join(tempDir, 'project');
+    storage = {
+      getProjectTempDir: () => projectTempDir,
+      ensureProjectTempDirExists: () =>
+        fs.mkdirSync(projectTempDir, { recursive: true }),
+    } as Storage;
+    now = new Date(2025, 5, 1, 12);
+    vi.spyOn(coreEvents, 'emitFeedback');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function createService(
+    settings: ConstructorParameters<typeof BudgetService>[2],
+    sessionId = 'session-1',
+  ): BudgetService {
+    return new BudgetService(storage, sessionId, settings, () => now);
+  }
+
+  it('should not track or persist anything without limits', () => {
+    const service = createService({ warnAt: [0.5] });
+
+    service.recordUsage(10, 1000);
+
+    expect(service.isEnabled()).toBe(false);
+    expect(service.getExceeded()).toBeUndefined();
+    expect(fs.existsSync(path.join(tempDir, 'project'))).toBe(false);
+  });
+
+  it('should report the first limit reached', () => {
+    const service = createService({
+      session: { usd: 1 },
+      daily: { tokens: 5000 },
+    });
+
+    service.recordUsage(0.5, 5000);
+
+    expect(service.getExceeded()).toEqual({
+      scope: 'daily',
+      metric: 'tokens',
+      limit: 5000,
+      spent: 5000,
+    });
+  });
+
+  it('should share daily and project spend across sessions', () => {
+    createService({ daily: { usd: 5 } }, 'session-1').recordUsage(3, 100);
+    const service = createService(
+      { daily: { usd: 5 }, project: { usd: 10 } },
+      'session-2',
+    );
+    service.recordUsage(2.5, 100);
+
+    expect(service.getUsage()).toEqual({
+      session: { usd: 2.5, tokens: 100 },
+      daily: { usd: 5.5, tokens: 200 },
+      project: { usd: 5.5, tokens: 200 },
+    });
+    expect(service.getExceeded()?.scope).toBe('daily');
+  });
+
+  it('should reset daily spend on a new day', () => {
+    const service = createService({ daily: { usd: 5 }, project: { usd: 10 } });
+    service.recordUsage(6, 100);
+    expect(service.getExceeded()?.scope).toBe('daily');
+
+    now = new Date(2025, 5, 2, 9);
+
+    expect(service.getUsage().daily).toEqual({ usd: 0, tokens: 0 });
+    expect(service.getUsage().project).toEqual({ usd: 6, tokens: 100 });
+    expect(service.getExceeded()).toBeUndefined();
+  });
+
+  it('should not lose the spend of sessions that record concurrently', () => {
+    const first = createService({ project: { usd: 100 } }, 'session-1');
+    const second = createService({ project: { usd: 100 } }, 'session-2');
+
+    first.recordUsage(1, 10);
+    second.recordUsage(2, 20);
+    first.recordUsage(4, 40);
+
+    const budgetDir = path.join(tempDir, 'project', 'budget');
+    expect(fs.readdirSync(budgetDir).sort()).toEqual([
+      'session-1.json',
+      'session-2.json',
+    ]);
+    expect(second.getUsage().project).toEqual({ usd: 7, tokens: 70 });
+  });
+
+  it('should keep adding to the spend of a resumed session', () => {
+    createService({ project: { usd: 10 } }).recordUsage(3, 30);
+    const resumed = createService({ project: { usd: 10 } });
+
+    resumed.recordUsage(1, 10);
+
+    expect(resumed.getUsage()).toEqual({
+      session: { usd: 1, tokens: 10 },
+      daily: { usd: 4, tokens: 40 },
+      project: { usd: 4, tokens: 40 },
+    });
+  });
+
+  it('should recover from a corrupt budget file', () => {
+    const budgetDir = path.join(tempDir, 'project', 'budget');
+    fs.mkdirSync(budgetDir, { recursive: true });
+    fs.writeFileSync(path.join(budgetDir, 'session-0.json'), '{oops');
+    const service = createService({ project: { usd: 10 } });
+
+    service.recordUsage(1, 10);
+
+    expect(service.getUsage().project).toEqual({ usd: 1, tokens: 10 });
+  });
+
+  it('should warn once per threshold crossed', () => {
+    const service = createService({
+      session: { usd: 10 },
+      warnAt: [0.5, 0.9],
+    });
+
+    service.recordUsage(4, 0);
+    expect(coreEvents.emitFeedback).not.toHaveBeenCalled();
+
+    service.recordUsage(2, 0);
+    service.recordUsage(1, 0);
+    expect(coreEvents.emitFeedback).toHaveBeenCalledTimes(1);
+    expect(coreEvents.emitFeedback).toHaveBeenCalledWith(
+      'warning',
+      'Session budget 50% used: $6.00 of $10.00.',
+    );
+
+    service.recordUsage(2.5, 0);
+    expect(coreEvents.emitFeedback).toHaveBeenCalledTimes(2);
+    expect(coreEvents.emitFeedback).toHaveBeenLastCalledWith(
+      'warning',
+      'Session budget 90% used: $9.50 of $10.00.',
+    );
+  });
+
+  it('should default to warning at 80%', () => {
+    const service = createService({ project: { tokens: 1_000_000 } });
+
+    service.recordUsage(0, 850_000);
+
+    expect(coreEvents.emitFeedback).toHaveBeenCalledWith(
+      'warning',
+      'Project budget 80% used: 850,000 tokens of 1,000,000 tokens.',
+    );
+  });
+
+  it('should default to stopping when exceeded', () => {
+    expect(createService({}).getOnExceeded()).toBe('stop');
+    expect(createService({ onExceeded: 'downgrade' }).getOnExceeded()).toBe(
+      'downgrade',
+    );
+  });
+});
+
+describe('formatBudgetExceeded', () => {
+  it('should describe usd and token limits', () => {
+    expect(
+      formatBudgetExceeded({
+        scope: 'session',
+        metric: 'usd',
+        limit: 2,
+        spent: 2.0412,
+      }),
+    ).toBe('Session budget of $2.00 exceeded ($2.04 spent).');
+    expect(
+      formatBudgetExceeded({
+        scope: 'project',
+        metric: 'tokens',
+        limit: 500_000,
+        spent: 512_345,
+      }),
+    ).toBe('Project budget of 500,000 tokens exceeded (512,345 tokens spent).');
+  });
+});
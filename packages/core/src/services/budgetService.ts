@@ -0,0 +1,283 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { Storage } from '../config/storage.js';
+import { coreEvents } from '../utils/events.js';
+import { debugLogger } from '../utils/debugLogger.js';
+import { formatLocalDate } from '../utils/formatters.js';
+
+const BUDGET_DIR_NAME = 'budget';
+const BUDGET_FILE_SUFFIX = '.json';
+const DEFAULT_WARN_AT = [0.8];
+
+export interface BudgetLimit {
+  // Estimated spend in USD.
+  usd?: number;
+  // Total tokens, as reported by the API.
+  tokens?: number;
+}
+
+export type BudgetScope = 'session' | 'daily' | 'project';
+export type BudgetMetric = keyof BudgetLimit;
+
+export interface BudgetSettings {
+  // Spend in the current session.
+  session?: BudgetLimit;
+  // Spend in this project since local midnight, across sessions.
+  daily?: BudgetLimit;
+  // All recorded spend in this project.
+  project?: BudgetLimit;
+  // Fractions of a limit at which to warn, e.g. [0.5, 0.9].
+  warnAt?: number[];
+  // Whether to stop the agent or switch to the flash model once a limit is
+  // reached. Defaults to 'stop'.
+  onExceeded?: 'stop' | 'downgrade';
+}
+
+export interface BudgetUsage {
+  usd: number;
+  tokens: number;
+}
+
+export interface BudgetExceededInfo {
+  scope: BudgetScope;
+  metric: BudgetMetric;
+  limit: number;
+  spent: number;
+}
+
+// Shape of budget/<sessionId>.json in the project temp dir. Each session only
+// writes its own file, so concurrent sessions never overwrite each other's
+// spend; daily and project spend is the sum over all files.
+interface PersistedBudget {
+  // Spend per local date (YYYY-MM-DD).
+  days: Record<string, BudgetUsage>;
+}
+
+const SCOPE_LABELS: Record<BudgetScope, string> = {
+  session: 'Session',
+  daily: 'Daily',
+  project: 'Project',
+};
+
+function emptyUsage(): BudgetUsage {
+  return { usd: 0, tokens: 0 };
+}
+
+function formatAmount(metric: BudgetMetric, value: number): string {
+  return metric === 'usd'
+    ? `$${value.toFixed(2)}`
+    : `${Math.round(value).toLocaleString('en-US')} tokens`;
+}
+
+/**
+ * Returns a user-facing description of an exceeded budget.
+ */
+export function formatBudgetExceeded(info: BudgetExceededInfo): string {
+  return `${SCOPE_LABELS[info.scope]} budget of ${formatAmount(
+    info.metric,
+    info.limit,
+  )} exceeded (${formatAmount(info.metric, info.spent)} spent).`;
+}
+
+/**
+ * Tracks spend against the `budget` settings. Session spend lives in memory;
+ * daily and project spend is persisted in the project temp dir so it survives
+ * restarts and is shared by concurrent sessions in the same project.
+ */
+export class BudgetService {
+  private readonly session: BudgetUsage = emptyUsage();
+  private readonly warned = new Set<string>();
+  private persisted?: PersistedBudget;
+
+  constructor(
+    private readonly storage: Storage,
+    private readonly sessionId: string,
+    private readonly settings: BudgetSettings = {},
+    private readonly now: () => Date = () => new Date(),
+  ) {}
+
+  /**
+   * Whether any limit is configured. Nothing is persisted otherwise.
+   */
+  isEnabled(): boolean {
+    return (['session', 'daily', 'project'] as const).some((scope) => {
+      const limit = this.settings[scope];
+      return limit?.usd !== undefined || limit?.tokens !== undefined;
+    });
+  }
+
+  getOnExceeded(): 'stop' | 'downgrade' {
+    return this.settings.onExceeded ?? 'stop';
+  }
+
+  /**
+   * Adds the cost of a single API response to every scope, and warns about
+   * any threshold that has newly been crossed.
+   */
+  recordUsage(usd: number, tokens: number): void {
+    if (!this.isEnabled()) {
+      return;
+    }
+    this.session.usd += usd;
+    this.session.tokens += tokens;
+
+    const persisted = this.getPersisted();
+    const today = formatLocalDate(this.now());
+    const day = (persisted.days[today] ??= emptyUsage());
+    day.usd += usd;
+    day.tokens += tokens;
+    this.writePersisted(persisted);
+
+    this.warnIfNeeded(this.getUsage());
+  }
+
+  /**
+   * Returns the spend recorded so far for each scope.
+   */
+  getUsage(): Record<BudgetScope, BudgetUsage> {
+    const today = formatLocalDate(this.now());
+    const daily = emptyUsage();
+    const project = emptyUsage();
+    for (const persisted of this.readAllPersisted()) {
+      for (const [date, usage] of Object.entries(persisted.days)) {
+        project.usd += usage.usd;
+        project.tokens += usage.tokens;
+        if (date === today) {
+          daily.usd += usage.usd;
+          daily.tokens += usage.tokens;
+        }
+      }
+    }
+    return { session: { ...this.session }, daily, project };
+  }
+
+  /**
+   * Returns the first limit that has been reached, or undefined if the agent
+   * is still within budget.
+   */
+  getExceeded(): BudgetExceededInfo | undefined {
+    if (!this.isEnabled()) {
+      return undefined;
+    }
+    const usage = this.getUsage();
+    for (const scope of ['session', 'daily', 'project'] as const) {
+      for (const metric of ['usd', 'tokens'] as const) {
+        const limit = this.settings[scope]?.[metric];
+        if (limit !== undefined && usage[scope][metric] >= limit) {
+          return { scope, metric, limit, spent: usage[scope][metric] };
+        }
+      }
+    }
+    return undefined;
+  }
+
+  private warnIfNeeded(usage: Record<BudgetScope, BudgetUsage>): void {
+    const thresholds = (this.settings.warnAt ?? DEFAULT_WARN_AT)
+      .filter((threshold) => threshold > 0 && threshold < 1)
+      .sort((a, b) => b - a);
+    for (const scope of ['session', 'daily', 'project'] as const) {
+      for (const metric of ['usd', 'tokens'] as const) {
+        const limit = this.settings[scope]?.[metric];
+        if (!limit) {
+          continue;
+        }
+        const spent = usage[scope][metric];
+        // Only report the highest threshold crossed, once.
+        const threshold = thresholds.find((t) => spent >= limit * t);
+        if (threshold === undefined || spent >= limit) {
+          continue;
+        }
+        const key = `${scope}.${metric}.${threshold}`;
+        if (this.warned.has(key)) {
+          continue;
+        }
+        for (const lower of thresholds.filter((t) => t <= threshold)) {
+          this.warned.add(`${scope}.${metric}.${lower}`);
+        }
+        coreEvents.emitFeedback(
+          'warning',
+          `${SCOPE_LABELS[scope]} budget ${Math.round(
+            threshold * 100,
+          )}% used: ${formatAmount(metric, spent)} of ${formatAmount(
+            metric,
+            limit,
+          )}.`,
+        );
+      }
+    }
+  }
+
+  private getBudgetDir(): string {
+    return path.join(this.storage.getProjectTempDir(), BUDGET_DIR_NAME);
+  }
+
+  private getBudgetFilePath(): string {
+    return path.join(
+      this.getBudgetDir(),
+      `${this.sessionId}${BUDGET_FILE_SUFFIX}`,
+    );
+  }
+
+  /**
+   * Returns this session's persisted spend, read from disk the first time so
+   * that a resumed session adds to what it recorded before.
+   */
+  private getPersisted(): PersistedBudget {
+    this.persisted ??= this.readPersisted(this.getBudgetFilePath());
+    return this.persisted;
+  }
+
+  private readAllPersisted(): PersistedBudget[] {
+    let files: string[];
+    try {
+      files = fs.readdirSync(this.getBudgetDir());
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        debugLogger.warn('Failed to read budget directory:', error);
+      }
+      files = [];
+    }
+    const ownFile = path.basename(this.getBudgetFilePath());
+    const others = files
+      .filter((file) => file.endsWith(BUDGET_FILE_SUFFIX) && file !== ownFile)
+      .map((file) => this.readPersisted(path.join(this.getBudgetDir(), file)));
+    return [...others, this.getPersisted()];
+  }
+
+  private readPersisted(filePath: string): PersistedBudget {
+    try {
+      const persisted = JSON.parse(
+        fs.readFileSync(filePath, 'utf-8'),
+      ) as Partial<PersistedBudget>;
+      const days: Record<string, BudgetUsage> = {};
+      for (const [date, usage] of Object.entries(persisted.days ?? {})) {
+        days[date] = { ...emptyUsage(), ...usage };
+      }
+      return { days };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        debugLogger.warn(`Failed to read budget file ${filePath}:`, error);
+      }
+      return { days: {} };
+    }
+  }
+
+  private writePersisted(persisted: PersistedBudget): void {
+    const filePath = this.getBudgetFilePath();
+    // Written to a temp file first, so other sessions never read a partial file.
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    try {
+      fs.mkdirSync(this.getBudgetDir(), { recursive: true });
+      fs.writeFileSync(tempPath, JSON.stringify(persisted, null, 2));
+      fs.renameSync(tempPath, filePath);
+    } catch (error) {
+      debugLogger.warn('Failed to write budget file:', error);
+    }
+  }
+}
@@ -154,7 +154,9 @@ export class ChatCompressionService {
           },
         ],
         config: {
-          systemInstruction: { text: getCompressionPrompt() },
+          systemInstruction: {
+            text: getCompressionPrompt(config.promptProfileService),
+          },
         },
       },
       promptId,
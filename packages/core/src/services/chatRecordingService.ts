@@ -176,6 +176,13 @@ export class ChatRecordingService {
     }
   }
 
+  /**
+   * Returns the path of the conversation file, or null before initialization.
+   */
+  getConversationFilePath(): string | null {
+    return this.conversationFile;
+  }
+
   private getLastMessage(
     conversation: ConversationRecord,
   ): MessageRecord | undefined {
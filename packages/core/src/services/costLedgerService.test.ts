@@ -0,0 +1,206 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Storage } from '../config/storage.js';
+import type { CostLedgerEntry } from './costLedgerService.js';
+import {
+  CostLedgerService,
+  aggregateCostLedger,
+  loadCostLedger,
+  totalCostReport,
+} from './costLedgerService.js';
+
+function entry(overrides: Partial<CostLedgerEntry>): CostLedgerEntry {
+  return {
+    timestamp: '2025-06-01T12:00:00.000Z',
+    sessionId: 'session-a',
+    promptId: 'prompt-1',
+    projectRoot: '/work/app',
+    model: 'gemini-2.5-pro',
+    promptTokens: 100,
+    candidateTokens: 10,
+    cachedTokens: 0,
+    thoughtsTokens: 0,
+    totalTokens: 110,
+    costUsd: 0.01,
+    ...overrides,
+  };
+}
+
+describe('CostLedgerService', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cost-ledger-test-'));
+    vi.spyOn(Storage, 'getGlobalTempDir').mockReturnValue(tempDir);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should append entries to a per-session ledger next to the chats', async () => {
+    const storage = new Storage('/work/app');
+    const service = new CostLedgerService(storage, 'session-a');
+
+    service.record({
+      promptId: 'prompt-1',
+      model: 'gemini-2.5-pro',
+      promptTokens: 100,
+      candidateTokens: 10,
+      cachedTokens: 20,
+      thoughtsTokens: 5,
+      totalTokens: 115,
+      costUsd: 0.02,
+    });
+    service.record({
+      promptId: 'prompt-2',
+      model: 'gemini-2.5-flash',
+      promptTokens: 50,
+      candidateTokens: 5,
+      cachedTokens: 0,
+      thoughtsTokens: 0,
+      totalTokens: 55,
+      costUsd: 0.001,
+    });
+
+    expect(service.getLedgerFilePath()).toBe(
+      path.join(storage.getProjectTempDir(), 'chats', 'ledger-session-a.jsonl'),
+    );
+    const entries = await loadCostLedger({
+      projectTempDir: storage.getProjectTempDir(),
+    });
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      sessionId: 'session-a',
+      projectRoot: '/work/app',
+      promptId: 'prompt-1',
+      cachedTokens: 20,
+      costUsd: 0.02,
+    });
+    expect(entries[1].model).toBe('gemini-2.5-flash');
+  });
+
+  it('should load every project and skip malformed lines', async () => {
+    const app = new Storage('/work/app');
+    const lib = new Storage('/work/lib');
+    new CostLedgerService(app, 'session-a').record(entry({}));
+    const libLedger = new CostLedgerService(lib, 'session-b');
+    libLedger.record(entry({ projectRoot: '/work/lib' }));
+    fs.appendFileSync(libLedger.getLedgerFilePath(), '{"timestamp":');
+
+    const entries = await loadCostLedger();
+
+    expect(entries.map((e) => e.projectRoot).sort()).toEqual([
+      '/work/app',
+      '/work/lib',
+    ]);
+  });
+
+  it('should only return entries since the given date', async () => {
+    const chatsDir = path.join(tempDir, 'project', 'chats');
+    fs.mkdirSync(chatsDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(chatsDir, 'ledger-session-a.jsonl'),
+      [
+        entry({ timestamp: '2025-05-01T00:00:00.000Z' }),
+        entry({ timestamp: '2025-06-02T00:00:00.000Z' }),
+      ]
+        .map((e) => JSON.stringify(e))
+        .join('\n'),
+    );
+
+    const entries = await loadCostLedger({
+      projectTempDir: path.join(tempDir, 'project'),
+      since: new Date('2025-06-01T00:00:00.000Z'),
+    });
+
+    expect(entries.map((e) => e.timestamp)).toEqual([
+      '2025-06-02T00:00:00.000Z',
+    ]);
+  });
+
+  it('should return nothing when there are no ledgers', async () => {
+    expect(
+      await loadCostLedger({ projectTempDir: path.join(tempDir, 'missing') }),
+    ).toEqual([]);
+  });
+});
+
+describe('aggregateCostLedger', () => {
+  const entries = [
+    entry({ model: 'gemini-2.5-flash', costUsd: 0.001, sessionId: 's1' }),
+    entry({ model: 'gemini-2.5-pro', costUsd: 0.5, sessionId: 's1' }),
+    entry({
+      model: 'gemini-2.5-pro',
+      costUsd: 0.25,
+      sessionId: 's2',
+      projectRoot: '/work/lib',
+      timestamp: new Date(2025, 5, 3, 12).toISOString(),
+    }),
+  ];
+
+  it('should sum tokens and cost per model, most expensive first', () => {
+    const rows = aggregateCostLedger(entries, 'model');
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toEqual({
+      key: 'gemini-2.5-pro',
+      requests: 2,
+      promptTokens: 200,
+      candidateTokens: 20,
+      cachedTokens: 0,
+      totalTokens: 220,
+      costUsd: 0.75,
+    });
+    expect(rows[1].key).toBe('gemini-2.5-flash');
+  });
+
+  it('should group by project and session', () => {
+    expect(
+      aggregateCostLedger(entries, 'project').map((row) => row.key),
+    ).toEqual(['/work/app', '/work/lib']);
+    expect(
+      aggregateCostLedger(entries, 'session').map((row) => row.requests),
+    ).toEqual([2, 1]);
+  });
+
+  it('should list days in chronological order', () => {
+    const rows = aggregateCostLedger(
+      [
+        entries[2],
+        entry({ timestamp: new Date(2025, 5, 1, 12).toISOString() }),
+      ],
+      'day',
+    );
+
+    expect(rows.map((row) => row.key)).toEqual(['2025-06-01', '2025-06-03']);
+  });
+});
+
+describe('totalCostReport', () => {
+  it('should sum every row', () => {
+    const rows = aggregateCostLedger(
+      [entry({ model: 'a', costUsd: 0.5 }), entry({ model: 'b', costUsd: 1 })],
+      'model',
+    );
+
+    expect(totalCostReport(rows)).toEqual({
+      key: 'Total',
+      requests: 2,
+      promptTokens: 200,
+      candidateTokens: 20,
+      cachedTokens: 0,
+      totalTokens: 220,
+      costUsd: 1.5,
+    });
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { Storage } from '../config/storage.js';
+import { debugLogger } from '../utils/debugLogger.js';
+import { formatLocalDate } from '../utils/formatters.js';
+
+export const COST_LEDGER_FILE_PREFIX = 'ledger-';
+const COST_LEDGER_FILE_SUFFIX = '.jsonl';
+
+/**
+ * A single priced API response, as stored in a session's cost ledger.
+ */
+export interface CostLedgerEntry {
+  timestamp: string;
+  sessionId: string;
+  promptId: string;
+  projectRoot: string;
+  model: string;
+  promptTokens: number;
+  candidateTokens: number;
+  cachedTokens: number;
+  thoughtsTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export type CostReportGrouping = 'model' | 'project' | 'day' | 'session';
+
+export interface CostReportRow {
+  key: string;
+  requests: number;
+  promptTokens: number;
+  candidateTokens: number;
+  cachedTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+function getChatsDir(projectTempDir: string): string {
+  return path.join(projectTempDir, 'chats');
+}
+
+/**
+ * Appends one line per API response to `ledger-<sessionId>.jsonl`, next to the
+ * session files written by ChatRecordingService. Unlike the session files, the
+ * ledger holds no conversation content, so it is kept for cost reporting.
+ */
+export class CostLedgerService {
+  constructor(
+    private readonly storage: Storage,
+    private readonly sessionId: string,
+  ) {}
+
+  getLedgerFilePath(): string {
+    return path.join(
+      getChatsDir(this.storage.getProjectTempDir()),
+      `${COST_LEDGER_FILE_PREFIX}${this.sessionId}${COST_LEDGER_FILE_SUFFIX}`,
+    );
+  }
+
+  record(
+    entry: Omit<CostLedgerEntry, 'timestamp' | 'sessionId' | 'projectRoot'>,
+  ): void {
+    const line: CostLedgerEntry = {
+      timestamp: new Date().toISOString(),
+      sessionId: this.sessionId,
+      projectRoot: this.storage.getProjectRoot(),
+      ...entry,
+    };
+    try {
+      const filePath = this.getLedgerFilePath();
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.appendFileSync(filePath, JSON.stringify(line) + '\n');
+    } catch (error) {
+      debugLogger.warn('Failed to write cost ledger entry:', error);
+    }
+  }
+}
+
+async function readLedgerFile(filePath: string): Promise<CostLedgerEntry[]> {
+  const content = await fs.promises.readFile(filePath, 'utf-8');
+  const entries: CostLedgerEntry[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line) as CostLedgerEntry);
+    } catch {
+      // A session that crashed mid-write can leave a truncated last line.
+      debugLogger.debug(`Skipping malformed cost ledger line in ${filePath}`);
+    }
+  }
+  return entries;
+}
+
+async function readLedgerDir(chatsDir: string): Promise<CostLedgerEntry[]> {
+  let files: string[];
+  try {
+    files = await fs.promises.readdir(chatsDir);
+  } catch {
+    return [];
+  }
+  const ledgers = files.filter(
+    (file) =>
+      file.startsWith(COST_LEDGER_FILE_PREFIX) &&
+      file.endsWith(COST_LEDGER_FILE_SUFFIX),
+  );
+  const entries = await Promise.all(
+    ledgers.map((file) => readLedgerFile(path.join(chatsDir, file))),
+  );
+  return entries.flat();
+}
+
+/**
+ * Reads the cost ledgers of every session, either for one project (by its temp
+ * dir) or for every project under the global temp dir.
+ */
+export async function loadCostLedger(
+  options: { projectTempDir?: string; since?: Date } = {},
+): Promise<CostLedgerEntry[]> {
+  let projectTempDirs: string[];
+  if (options.projectTempDir) {
+    projectTempDirs = [options.projectTempDir];
+  } else {
+    const globalTempDir = Storage.getGlobalTempDir();
+    try {
+      const dirents = await fs.promises.readdir(globalTempDir, {
+        withFileTypes: true,
+      });
+      projectTempDirs = dirents
+        .filter((dirent) => dirent.isDirectory())
+        .map((dirent) => path.join(globalTempDir, dirent.name));
+    } catch {
+      projectTempDirs = [];
+    }
+  }
+
+  const entries = (
+    await Promise.all(
+      projectTempDirs.map((dir) => readLedgerDir(getChatsDir(dir))),
+    )
+  ).flat();
+  const since = options.since?.getTime();
+  return entries
+    .filter(
+      (entry) => since === undefined || Date.parse(entry.timestamp) >= since,
+    )
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+function getGroupKey(
+  entry: CostLedgerEntry,
+  grouping: CostReportGrouping,
+): string {
+  switch (grouping) {
+    case 'model':
+      return entry.model;
+    case 'project':
+      return entry.projectRoot;
+    case 'day':
+      return formatLocalDate(new Date(entry.timestamp));
+    case 'session':
+      return entry.sessionId;
+    default: {
+      const unreachable: never = grouping;
+      return unreachable;
+    }
+  }
+}
+
+/**
+ * Sums ledger entries per group. Days are in ascending order; every other
+ * grouping is sorted by cost, highest first.
+ */
+export function aggregateCostLedger(
+  entries: readonly CostLedgerEntry[],
+  grouping: CostReportGrouping,
+): CostReportRow[] {
+  const rows = new Map<string, CostReportRow>();
+  for (const entry of entries) {
+    const key = getGroupKey(entry, grouping);
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        key,
+        requests: 0,
+        promptTokens: 0,
+        candidateTokens: 0,
+        cachedTokens: 0,
+        totalTokens: 0,
+        costUsd: 0,
+      };
+      rows.set(key, row);
+    }
+    row.requests++;
+    row.promptTokens += entry.promptTokens;
+    row.candidateTokens += entry.candidateTokens;
+    row.cachedTokens += entry.cachedTokens;
+    row.totalTokens += entry.totalTokens;
+    row.costUsd += entry.costUsd;
+  }
+  return [...rows.values()].sort((a, b) =>
+    grouping === 'day'
+      ? a.key.localeCompare(b.key)
+      : b.costUsd - a.costUsd || a.key.localeCompare(b.key),
+  );
+}
+
+/**
+ * Sums report rows into a single row with the given key.
+ */
+export function totalCostReport(
+  rows: readonly CostReportRow[],
+  key = 'Total',
+): CostReportRow {
+  return rows.reduce(
+    (total, row) => ({
+      key,
+      requests: total.requests + row.requests,
+      promptTokens: total.promptTokens + row.promptTokens,
+      candidateTokens: total.candidateTokens + row.candidateTokens,
+      cachedTokens: total.cachedTokens + row.cachedTokens,
+      totalTokens: total.totalTokens + row.totalTokens,
+      costUsd: total.costUsd + row.costUsd,
+    }),
+    {
+      key,
+      requests: 0,
+      promptTokens: 0,
+      candidateTokens: 0,
+      cachedTokens: 0,
+      totalTokens: 0,
+      costUsd: 0,
+    },
+  );
+}
@@ -0,0 +1,124 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ModelPricingConfig } from './modelPricingService.js';
+import { ModelPricingService } from './modelPricingService.js';
+import type { GenAIUsageDetails } from '../telemetry/types.js';
+
+const PRICING: ModelPricingConfig = {
+  'gemini-2.5-pro': {
+    input: 1.25,
+    output: 10,
+    cached: 0.125,
+    tiers: [{ promptTokensAbove: 200_000, input: 2.5, output: 15 }],
+  },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+};
+
+function usage(overrides: Partial<GenAIUsageDetails>): GenAIUsageDetails {
+  return {
+    input_token_count: 0,
+    output_token_count: 0,
+    cached_content_token_count: 0,
+    thoughts_token_count: 0,
+    tool_token_count: 0,
+    total_token_count: 0,
+    ...overrides,
+  };
+}
+
+describe('ModelPricingService', () => {
+  const service = new ModelPricingService(PRICING);
+
+  describe('getPricing', () => {
+    it('should return the exact entry for a model', () => {
+      expect(service.getPricing('gemini-2.5-flash')).toBe(
+        PRICING['gemini-2.5-flash'],
+      );
+    });
+
+    it('should fall back to the longest matching prefix', () => {
+      expect(service.getPricing('gemini-2.5-flash-lite-preview-06-17')).toBe(
+        PRICING['gemini-2.5-flash-lite'],
+      );
+      expect(service.getPricing('gemini-2.5-flash-preview-09-2025')).toBe(
+        PRICING['gemini-2.5-flash'],
+      );
+    });
+
+    it('should return undefined for unknown models', () => {
+      expect(service.getPricing('my-local-model')).toBeUndefined();
+    });
+  });
+
+  describe('getRates', () => {
+    it('should default cached to input and thoughts to output', () => {
+      expect(service.getRates('gemini-2.5-flash', 1000)).toEqual({
+        input: 0.3,
+        output: 2.5,
+        cached: 0.3,
+        thoughts: 2.5,
+      });
+    });
+
+    it('should switch to the tier rates above the threshold', () => {
+      expect(service.getRates('gemini-2.5-pro', 200_000)?.input).toBe(1.25);
+      expect(service.getRates('gemini-2.5-pro', 200_001)).toEqual({
+        input: 2.5,
+        output: 15,
+        cached: 2.5,
+        thoughts: 15,
+      });
+    });
+  });
+
+  describe('estimateCost', () => {
+    it('should bill input, output and thoughts separately', () => {
+      const cost = service.estimateCost(
+        'gemini-2.5-pro',
+        usage({
+          input_token_count: 100_000,
+          output_token_count: 100_000,
+          thoughts_token_count: 50_000,
+        }),
+      );
+
+      expect(cost).toBeCloseTo(0.125 + 1 + 0.5);
+    });
+
+    it('should bill cached prompt tokens at the cached rate', () => {
+      const cost = service.estimateCost(
+        'gemini-2.5-pro',
+        usage({
+          input_token_count: 100_000,
+          cached_content_token_count: 80_000,
+        }),
+      );
+
+      expect(cost).toBeCloseTo((20_000 * 1.25 + 80_000 * 0.125) / 1_000_000);
+    });
+
+    it('should apply long-context rates to the whole request', () => {
+      const cost = service.estimateCost(
+        'gemini-2.5-pro',
+        usage({ input_token_count: 400_000, output_token_count: 10_000 }),
+      );
+
+      expect(cost).toBeCloseTo((400_000 * 2.5 + 10_000 * 15) / 1_000_000);
+    });
+
+    it('should return 0 for unknown models', () => {
+      expect(
+        service.estimateCost(
+          'my-local-model',
+          usage({ input_token_count: 1_000_000 }),
+        ),
+      ).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { GenAIUsageDetails } from '../telemetry/types.js';
+
+const TOKENS_PER_UNIT = 1_000_000;
+
+// All rates are in USD per million tokens.
+export interface ModelPricingRates {
+  // Uncached prompt tokens, including tool-use prompt tokens.
+  input: number;
+  // Candidate (response) tokens.
+  output: number;
+  // Prompt tokens served from the context cache. Defaults to `input`.
+  cached?: number;
+  // Thinking tokens. Defaults to `output`, which is how Gemini bills them.
+  thoughts?: number;
+}
+
+// Rates that replace the base rates for a request whose prompt is larger than
+// `promptTokensAbove`, e.g. long-context pricing above 200k tokens.
+export interface ModelPricingTier extends ModelPricingRates {
+  promptTokensAbove: number;
+}
+
+export interface ModelPricing extends ModelPricingRates {
+  tiers?: ModelPricingTier[];
+}
+
+// Keyed by model name. A key also prices every model whose name starts with
+// it, so `gemini-2.5-flash` covers `gemini-2.5-flash-preview-09-2025`; the
+// longest matching key wins.
+export type ModelPricingConfig = Record<string, ModelPricing>;
+
+export class ModelPricingService {
+  constructor(private readonly pricing: ModelPricingConfig) {}
+
+  /**
+   * Returns the pricing for a model, or undefined if the model is not priced.
+   */
+  getPricing(model: string): ModelPricing | undefined {
+    if (this.pricing[model]) {
+      return this.pricing[model];
+    }
+    const key = Object.keys(this.pricing)
+      .filter((candidate) => model.startsWith(candidate))
+      .sort((a, b) => b.length - a.length)[0];
+    return key ? this.pricing[key] : undefined;
+  }
+
+  /**
+   * Returns the rates that apply to a single request with the given prompt
+   * size, taking the highest tier whose threshold the prompt exceeds.
+   */
+  getRates(
+    model: string,
+    promptTokens: number,
+  ): Required<ModelPricingRates> | undefined {
+    const pricing = this.getPricing(model);
+    if (!pricing) {
+      return undefined;
+    }
+    const tier = (pricing.tiers ?? [])
+      .filter((candidate) => promptTokens > candidate.promptTokensAbove)
+      .sort((a, b) => b.promptTokensAbove - a.promptTokensAbove)[0];
+    const rates: ModelPricingRates = tier ?? pricing;
+    return {
+      input: rates.input,
+      output: rates.output,
+      cached: rates.cached ?? rates.input,
+      thoughts: rates.thoughts ?? rates.output,
+    };
+  }
+
+  /**
+   * Estimates the cost in USD of a single API response. Unpriced models cost
+   * nothing.
+   */
+  estimateCost(model: string, usage: GenAIUsageDetails): number {
+    const rates = this.getRates(model, usage.input_token_count);
+    if (!rates) {
+      return 0;
+    }
+    // The prompt count includes cached tokens, which are billed separately.
+    const uncachedPrompt = Math.max(
+      0,
+      usage.input_token_count - usage.cached_content_token_count,
+    );
+    return (
+      ((uncachedPrompt + usage.tool_token_count) * rates.input +
+        usage.cached_content_token_count * rates.cached +
+        usage.output_token_count * rates.output +
+        usage.thoughts_token_count * rates.thoughts) /
+      TOKENS_PER_UNIT
+    );
+  }
+}
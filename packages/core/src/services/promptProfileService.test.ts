@@ -0,0 +1,199 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { GeminiCLIExtension } from '../config/config.js';
+import { Storage } from '../config/storage.js';
+import { coreEvents } from '../utils/events.js';
+import {
+  PromptProfileService,
+  readDefaultPrompt,
+} from './promptProfileService.js';
+
+function writePrompts(dir: string, files: Record<string, string>) {
+  fs.mkdirSync(dir, { recursive: true });
+  for (const [name, content] of Object.entries(files)) {
+    fs.writeFileSync(path.join(dir, `${name}.txt`), content);
+  }
+}
+
+function extension(
+  name: string,
+  extensionPath: string,
+  isActive = true,
+): GeminiCLIExtension {
+  return {
+    name,
+    version: '1.0.0',
+    isActive,
+    path: extensionPath,
+    contextFiles: [],
+    id: name,
+  };
+}
+
+describe('PromptProfileService', () => {
+  let tempDir: string;
+  let extensions: GeminiCLIExtension[];
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'prompt-profiles-test-'));
+    vi.stubGlobal('__dirname', path.join(tempDir, 'bundle'));
+    vi.spyOn(Storage, 'getUserPromptsDir').mockReturnValue(
+      path.join(tempDir, 'user-prompts'),
+    );
+    writePrompts(path.join(tempDir, 'bundle', 'hacked_prompts_source'), {
+      CORE_SYSTEM_PROMPT: 'default core\n',
+      COMPRESSION_PROMPT: 'default compression',
+      EDIT_SYS_PROMPT: 'default edit sys',
+      EDIT_USER_PROMPT: 'default edit user',
+      SUMMARIZE_TOOL_OUTPUT_PROMPT: 'default summarize',
+    });
+    writePrompts(path.join(tempDir, 'bundle', 'original_prompts'), {
+      CORE_SYSTEM_PROMPT: 'original core',
+      COMPRESSION_PROMPT: 'original compression',
+    });
+    extensions = [];
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function createService(activeProfile?: string) {
+    return new PromptProfileService(() => extensions, activeProfile);
+  }
+
+  it('should use the default profile when none is configured', () => {
+    const service = createService();
+
+    expect(service.getActiveProfileName()).toBe('default');
+    expect(service.getPrompt('CORE_SYSTEM_PROMPT')).toBe('default core');
+    expect(readDefaultPrompt('CORE_SYSTEM_PROMPT')).toBe('default core');
+  });
+
+  it('should fall back to the default profile for prompts a profile lacks', () => {
+    const service = createService('original');
+
+    expect(service.getPrompt('CORE_SYSTEM_PROMPT')).toBe('original core');
+    expect(service.getPrompt('SUMMARIZE_TOOL_OUTPUT_PROMPT')).toBe(
+      'default summarize',
+    );
+    expect(service.getProfile('original')?.kinds).toEqual([
+      'core',
+      'compression',
+    ]);
+  });
+
+  it('should only override edit-fixer prompts when both files exist', () => {
+    writePrompts(path.join(tempDir, 'user-prompts', 'terse'), {
+      EDIT_SYS_PROMPT: 'terse edit sys',
+    });
+    const service = createService('terse');
+
+    expect(service.getProfile('terse')?.kinds).toEqual([]);
+    expect(service.getPrompt('EDIT_SYS_PROMPT')).toBe('default edit sys');
+  });
+
+  it('should discover user and active extension profiles', () => {
+    writePrompts(path.join(tempDir, 'user-prompts', 'terse'), {
+      CORE_SYSTEM_PROMPT: 'terse core',
+    });
+    writePrompts(path.join(tempDir, 'ext-a', 'prompts', 'reviewer'), {
+      CORE_SYSTEM_PROMPT: 'reviewer core',
+    });
+    writePrompts(path.join(tempDir, 'ext-b', 'prompts', 'disabled'), {
+      CORE_SYSTEM_PROMPT: 'disabled core',
+    });
+    extensions = [
+      extension('ext-a', path.join(tempDir, 'ext-a')),
+      extension('ext-b', path.join(tempDir, 'ext-b'), false),
+    ];
+
+    const profiles = createService().listProfiles();
+
+    expect(
+      profiles.map(({ name, source, extensionName }) => ({
+        name,
+        source,
+        extensionName,
+      })),
+    ).toEqual([
+      { name: 'default', source: 'built-in', extensionName: undefined },
+      { name: 'original', source: 'built-in', extensionName: undefined },
+      { name: 'terse', source: 'user', extensionName: undefined },
+      { name: 'reviewer', source: 'extension', extensionName: 'ext-a' },
+    ]);
+  });
+
+  it('should rescan profiles only when extensions change or on reload', () => {
+    const service = createService();
+    expect(service.listProfiles().map((p) => p.name)).toEqual([
+      'default',
+      'original',
+    ]);
+    vi.mocked(Storage.getUserPromptsDir).mockClear();
+
+    service.getPrompt('CORE_SYSTEM_PROMPT');
+    service.getPrompt('COMPRESSION_PROMPT');
+    expect(Storage.getUserPromptsDir).not.toHaveBeenCalled();
+
+    writePrompts(path.join(tempDir, 'user-prompts', 'terse'), {
+      CORE_SYSTEM_PROMPT: 'terse core',
+    });
+    expect(service.getProfile('terse')).toBeUndefined();
+    service.reload();
+    expect(service.getProfile('terse')?.source).toBe('user');
+
+    writePrompts(path.join(tempDir, 'ext-a', 'prompts', 'reviewer'), {
+      CORE_SYSTEM_PROMPT: 'reviewer core',
+    });
+    extensions = [extension('ext-a', path.join(tempDir, 'ext-a'))];
+    expect(service.getProfile('reviewer')?.source).toBe('extension');
+  });
+
+  it('should not let user profiles shadow built-in profiles', () => {
+    writePrompts(path.join(tempDir, 'user-prompts', 'original'), {
+      CORE_SYSTEM_PROMPT: 'user original core',
+    });
+
+    const service = createService('original');
+
+    expect(service.getProfile('original')?.source).toBe('built-in');
+    expect(service.getPrompt('CORE_SYSTEM_PROMPT')).toBe('original core');
+  });
+
+  it('should switch profiles and reject unknown names', () => {
+    const service = createService();
+
+    service.setActiveProfile('original');
+    expect(service.getPrompt('COMPRESSION_PROMPT')).toBe(
+      'original compression',
+    );
+    expect(() => service.setActiveProfile('missing')).toThrow(
+      'Unknown prompt profile "missing". Available profiles: default, original.',
+    );
+    expect(service.getActiveProfileName()).toBe('original');
+  });
+
+  it('should warn once and use the default profile when the configured one is missing', () => {
+    const feedbackSpy = vi.spyOn(coreEvents, 'emitFeedback');
+    const service = createService('missing');
+
+    expect(service.getPrompt('CORE_SYSTEM_PROMPT')).toBe('default core');
+    expect(service.getActiveProfileName()).toBe('default');
+    expect(feedbackSpy).toHaveBeenCalledTimes(1);
+    expect(feedbackSpy).toHaveBeenCalledWith(
+      'warning',
+      'Prompt profile "missing" was not found; using "default".',
+    );
+  });
+});
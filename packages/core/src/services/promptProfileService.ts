@@ -0,0 +1,242 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { GeminiCLIExtension } from '../config/config.js';
+import { Storage } from '../config/storage.js';
+import { coreEvents } from '../utils/events.js';
+import { debugLogger } from '../utils/debugLogger.js';
+
+export const DEFAULT_PROMPT_PROFILE = 'default';
+export const ORIGINAL_PROMPT_PROFILE = 'original';
+
+export type PromptKind = 'core' | 'compression' | 'edit-fixer' | 'summarizer';
+
+export type PromptFile =
+  | 'CORE_SYSTEM_PROMPT'
+  | 'COMPRESSION_PROMPT'
+  | 'EDIT_SYS_PROMPT'
+  | 'EDIT_USER_PROMPT'
+  | 'SUMMARIZE_TOOL_OUTPUT_PROMPT';
+
+// The files that make up each kind of prompt. A profile overrides a kind only
+// when it provides every file for it.
+export const PROMPT_KIND_FILES: Record<PromptKind, PromptFile[]> = {
+  core: ['CORE_SYSTEM_PROMPT'],
+  compression: ['COMPRESSION_PROMPT'],
+  'edit-fixer': ['EDIT_SYS_PROMPT', 'EDIT_USER_PROMPT'],
+  summarizer: ['SUMMARIZE_TOOL_OUTPUT_PROMPT'],
+};
+
+export type PromptProfileSource = 'built-in' | 'user' | 'extension';
+
+export interface PromptProfile {
+  name: string;
+  source: PromptProfileSource;
+  // Directory holding the profile's <PROMPT_FILE>.txt files.
+  dir: string;
+  // Set when the profile is contributed by an extension.
+  extensionName?: string;
+  // Prompt kinds this profile provides. Anything else falls back to the
+  // default profile.
+  kinds: PromptKind[];
+}
+
+function builtInProfileDirs(): Record<string, string> {
+  return {
+    [DEFAULT_PROMPT_PROFILE]: path.join(
+      globalThis.__dirname,
+      'hacked_prompts_source',
+    ),
+    [ORIGINAL_PROMPT_PROFILE]: path.join(
+      globalThis.__dirname,
+      'original_prompts',
+    ),
+  };
+}
+
+function promptFilePath(dir: string, file: PromptFile): string {
+  return path.join(dir, `${file}.txt`);
+}
+
+function listProfileDirs(root: string): Array<{ name: string; dir: string }> {
+  try {
+    return fs
+      .readdirSync(root, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => ({ name: entry.name, dir: path.join(root, entry.name) }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      debugLogger.warn(`Failed to read prompt profiles from ${root}:`, error);
+    }
+    return [];
+  }
+}
+
+function profileKinds(dir: string): PromptKind[] {
+  return (Object.keys(PROMPT_KIND_FILES) as PromptKind[]).filter((kind) =>
+    PROMPT_KIND_FILES[kind].every((file) =>
+      fs.existsSync(promptFilePath(dir, file)),
+    ),
+  );
+}
+
+/**
+ * Reads a prompt from the default built-in profile.
+ */
+export function readDefaultPrompt(file: PromptFile): string {
+  return fs
+    .readFileSync(
+      promptFilePath(builtInProfileDirs()[DEFAULT_PROMPT_PROFILE], file),
+      'utf8',
+    )
+    .trim();
+}
+
+/**
+ * Tracks the named prompt profiles available to the session and which one is
+ * active. Profiles are directories of prompt files, discovered from the CLI
+ * bundle, `~/.gemini/prompts/<name>/` and `<extension>/prompts/<name>/`.
+ */
+export class PromptProfileService {
+  private activeProfileName: string;
+  private warnedMissingProfile = false;
+  // The profiles found by the last scan, and the active extensions they were
+  // scanned with.
+  private cache?: { extensionsKey: string; profiles: PromptProfile[] };
+
+  constructor(
+    private readonly getExtensions: () => GeminiCLIExtension[],
+    activeProfileName: string = DEFAULT_PROMPT_PROFILE,
+  ) {
+    this.activeProfileName = activeProfileName;
+  }
+
+  /**
+   * Lists every available profile. When two profiles share a name the first
+   * one wins, in the order built-in, user, extension.
+   *
+   * The profile directories are scanned once and again whenever the active
+   * extensions change; call `reload` to pick up other changes.
+   */
+  listProfiles(): PromptProfile[] {
+    const extensions = this.getExtensions().filter(
+      (extension) => extension.isActive,
+    );
+    const extensionsKey = JSON.stringify(
+      extensions.map((extension) => extension.path),
+    );
+    if (this.cache?.extensionsKey !== extensionsKey) {
+      this.cache = { extensionsKey, profiles: this.scanProfiles(extensions) };
+    }
+    return this.cache.profiles;
+  }
+
+  /**
+   * Forgets the profiles found so far, so the next lookup scans the profile
+   * directories again.
+   */
+  reload(): void {
+    this.cache = undefined;
+  }
+
+  private scanProfiles(extensions: GeminiCLIExtension[]): PromptProfile[] {
+    const profiles = new Map<string, PromptProfile>();
+    const add = (profile: Omit<PromptProfile, 'kinds'>) => {
+      if (profiles.has(profile.name)) {
+        debugLogger.debug(
+          `Ignoring prompt profile "${profile.name}" in ${profile.dir}; the name is already in use.`,
+        );
+        return;
+      }
+      profiles.set(profile.name, {
+        ...profile,
+        kinds: profileKinds(profile.dir),
+      });
+    };
+
+    for (const [name, dir] of Object.entries(builtInProfileDirs())) {
+      add({ name, dir, source: 'built-in' });
+    }
+    for (const { name, dir } of listProfileDirs(Storage.getUserPromptsDir())) {
+      add({ name, dir, source: 'user' });
+    }
+    for (const extension of extensions) {
+      for (const { name, dir } of listProfileDirs(
+        path.join(extension.path, 'prompts'),
+      )) {
+        add({
+          name,
+          dir,
+          source: 'extension',
+          extensionName: extension.name,
+        });
+      }
+    }
+    return [...profiles.values()];
+  }
+
+  getProfile(name: string): PromptProfile | undefined {
+    return this.listProfiles().find((profile) => profile.name === name);
+  }
+
+  /**
+   * Returns the active profile, falling back to the default profile if the
+   * configured one cannot be found.
+   */
+  getActiveProfile(): PromptProfile {
+    const profile = this.getProfile(this.activeProfileName);
+    if (profile) {
+      return profile;
+    }
+    if (!this.warnedMissingProfile) {
+      this.warnedMissingProfile = true;
+      coreEvents.emitFeedback(
+        'warning',
+        `Prompt profile "${this.activeProfileName}" was not found; using "${DEFAULT_PROMPT_PROFILE}".`,
+      );
+    }
+    return this.getProfile(DEFAULT_PROMPT_PROFILE)!;
+  }
+
+  getActiveProfileName(): string {
+    return this.getActiveProfile().name;
+  }
+
+  /**
+   * Switches the active profile. Throws if no profile has the given name.
+   */
+  setActiveProfile(name: string): PromptProfile {
+    const profile = this.getProfile(name);
+    if (!profile) {
+      throw new Error(
+        `Unknown prompt profile "${name}". Available profiles: ${this.listProfiles()
+          .map((p) => p.name)
+          .join(', ')}.`,
+      );
+    }
+    this.activeProfileName = name;
+    this.warnedMissingProfile = false;
+    return profile;
+  }
+
+  /**
+   * Reads a prompt file from the active profile, or from the default profile
+   * when the active one does not provide it.
+   */
+  getPrompt(file: PromptFile): string {
+    const profile = this.getActiveProfile();
+    const provided = profile.kinds.some((kind) =>
+      PROMPT_KIND_FILES[kind].includes(file),
+    );
+    if (!provided) {
+      return readDefaultPrompt(file);
+    }
+    return fs.readFileSync(promptFilePath(profile.dir, file), 'utf8').trim();
+  }
+}
@@ -475,6 +475,7 @@ export enum GenAiOperationName {
 export enum GenAiProviderName {
   GCP_GEN_AI = 'gcp.gen_ai',
   GCP_VERTEX_AI = 'gcp.vertex_ai',
+  OPENAI = 'openai',
 }
 
 export enum GenAiTokenType {
@@ -889,6 +890,8 @@ function getGenAiProvider(authType?: string): GenAiProviderName {
     case AuthType.CLOUD_SHELL:
     case AuthType.LOGIN_WITH_GOOGLE:
       return GenAiProviderName.GCP_VERTEX_AI;
+    case AuthType.OPENAI_COMPATIBLE:
+      return GenAiProviderName.OPENAI;
     case AuthType.USE_GEMINI:
     default:
       return GenAiProviderName.GCP_GEN_AI;
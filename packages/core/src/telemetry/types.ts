@@ -531,6 +531,8 @@ export class ApiResponseEvent implements BaseTelemetryEvent {
   prompt: GenAIPromptDetails;
   response: GenAIResponseDetails;
   usage: GenAIUsageDetails;
+  /** Estimated cost in USD, from the model pricing registry. */
+  cost_usd?: number;
 
   constructor(
     model: string,
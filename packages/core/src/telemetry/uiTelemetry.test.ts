@@ -180,6 +180,7 @@ describe('UiTelemetryService', () => {
           thoughts: 2,
           tool: 3,
         },
+        cost: 0,
       });
       expect(service.getLastPromptTokenCount()).toBe(0);
     });
@@ -197,6 +198,7 @@ describe('UiTelemetryService', () => {
           thoughts_token_count: 2,
           tool_token_count: 3,
         },
+        cost_usd: 0.25,
       } as ApiResponseEvent & {
         'event.name': typeof EVENT_API_RESPONSE;
       };
@@ -212,6 +214,7 @@ describe('UiTelemetryService', () => {
           thoughts_token_count: 4,
           tool_token_count: 6,
         },
+        cost_usd: 0.5,
       } as ApiResponseEvent & {
         'event.name': typeof EVENT_API_RESPONSE;
       };
@@ -234,6 +237,7 @@ describe('UiTelemetryService', () => {
           thoughts: 6,
           tool: 9,
         },
+        cost: 0.75,
       });
       expect(service.getLastPromptTokenCount()).toBe(0);
     });
@@ -308,6 +312,7 @@ describe('UiTelemetryService', () => {
           thoughts: 0,
           tool: 0,
         },
+        cost: 0,
       });
     });
 
@@ -352,6 +357,7 @@ describe('UiTelemetryService', () => {
           thoughts: 2,
           tool: 3,
         },
+        cost: 0,
       });
     });
   });
@@ -50,6 +50,8 @@ export interface ModelMetrics {
     thoughts: number;
     tool: number;
   };
+  // Estimated cost in USD, from the model pricing registry.
+  cost: number;
 }
 
 export interface SessionMetrics {
@@ -87,6 +89,7 @@ const createInitialModelMetrics = (): ModelMetrics => ({
     thoughts: 0,
     tool: 0,
   },
+  cost: 0,
 });
 
 const createInitialMetrics = (): SessionMetrics => ({
@@ -171,6 +174,7 @@ export class UiTelemetryService extends EventEmitter {
     modelMetrics.tokens.cached += event.usage.cached_content_token_count;
     modelMetrics.tokens.thoughts += event.usage.thoughts_token_count;
     modelMetrics.tokens.tool += event.usage.tool_token_count;
+    modelMetrics.cost += event.cost_usd ?? 0;
   }
 
   private processApiError(event: ApiErrorEvent) {
@@ -0,0 +1,124 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Tool as McpTool } from '@modelcontextprotocol/sdk/types.js';
+import { IdeLanguageTool, syncIdeLanguageTools } from './ide-language-tool.js';
+import { ToolRegistry } from './tool-registry.js';
+import { ToolErrorType } from './tool-error.js';
+import type { Config } from '../config/config.js';
+import type { IdeClient } from '../ide/ide-client.js';
+
+const getDiagnosticsTool: McpTool = {
+  name: 'getDiagnostics',
+  inputSchema: {
+    type: 'object',
+    properties: { filePath: { type: 'string' } },
+  },
+};
+
+const goToDefinitionTool: McpTool = {
+  name: 'goToDefinition',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      filePath: { type: 'string' },
+      line: { type: 'number' },
+      character: { type: 'number' },
+    },
+    required: ['filePath', 'line', 'character'],
+  },
+};
+
+describe('IdeLanguageTool', () => {
+  const signal = new AbortController().signal;
+  let config: Config;
+  let ideClient: IdeClient;
+  let callTool: ReturnType<typeof vi.fn>;
+  let getLanguageTools: ReturnType<typeof vi.fn>;
+  let setTools: ReturnType<typeof vi.fn>;
+  let registry: ToolRegistry;
+
+  beforeEach(() => {
+    callTool = vi.fn();
+    getLanguageTools = vi.fn().mockReturnValue([getDiagnosticsTool]);
+    setTools = vi.fn();
+    ideClient = { callTool, getLanguageTools } as unknown as IdeClient;
+    config = {
+      getToolRegistry: () => registry,
+      getExcludeTools: () => [],
+      getEnableMessageBusIntegration: () => false,
+      getGeminiClient: () => ({ isInitialized: () => true, setTools }),
+      getWorkspaceContext: () => ({
+        isPathWithinWorkspace: (filePath: string) =>
+          filePath.startsWith('/workspace/'),
+        getDirectories: () => ['/workspace'],
+      }),
+    } as unknown as Config;
+    registry = new ToolRegistry(config);
+  });
+
+  it('should call the IDE tool and return its response', async () => {
+    const response = JSON.stringify({ diagnostics: [], total: 2 });
+    callTool.mockResolvedValue({ content: [{ type: 'text', text: response }] });
+    const tool = new IdeLanguageTool(config, ideClient, getDiagnosticsTool);
+
+    const result = await tool.buildAndExecute(
+      { filePath: '/workspace/a.ts' },
+      signal,
+    );
+
+    expect(tool.name).toBe('ide_get_diagnostics');
+    expect(callTool).toHaveBeenCalledWith(
+      'getDiagnostics',
+      { filePath: '/workspace/a.ts' },
+      signal,
+    );
+    expect(result.llmContent).toBe(response);
+    expect(result.returnDisplay).toBe('Found 2 diagnostics.');
+  });
+
+  it('should report errors from the IDE', async () => {
+    callTool.mockResolvedValue({
+      content: [{ type: 'text', text: 'No definition provider' }],
+      isError: true,
+    });
+    const tool = new IdeLanguageTool(config, ideClient, goToDefinitionTool);
+
+    const result = await tool.buildAndExecute(
+      { filePath: '/workspace/a.ts', line: 3, character: 7 },
+      signal,
+    );
+
+    expect(result.error).toEqual({
+      message:
+        'Error calling goToDefinition in the IDE: No definition provider',
+      type: ToolErrorType.IDE_TOOL_ERROR,
+    });
+  });
+
+  it('should reject files outside the workspace', () => {
+    const tool = new IdeLanguageTool(config, ideClient, goToDefinitionTool);
+
+    expect(() =>
+      tool.build({ filePath: '/elsewhere/a.ts', line: 1, character: 1 }),
+    ).toThrow(
+      'File path must be within one of the workspace directories: /workspace',
+    );
+  });
+
+  it('should register the language tools of the connected IDE', async () => {
+    await syncIdeLanguageTools(config, ideClient);
+
+    expect(registry.getAllToolNames()).toEqual(['ide_get_diagnostics']);
+    expect(setTools).toHaveBeenCalled();
+
+    getLanguageTools.mockReturnValue([]);
+    await syncIdeLanguageTools(config, ideClient);
+
+    expect(registry.getAllToolNames()).toEqual([]);
+  });
+});
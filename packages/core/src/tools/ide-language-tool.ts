@@ -0,0 +1,262 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as path from 'node:path';
+import type {
+  CallToolResult,
+  Tool as McpTool,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import type { Config } from '../config/config.js';
+import type { IdeLanguageToolName } from '../ide/constants.js';
+import type { IdeClient } from '../ide/ide-client.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { ToolErrorType } from './tool-error.js';
+import {
+  IDE_FIND_REFERENCES_TOOL_NAME,
+  IDE_GET_DIAGNOSTICS_TOOL_NAME,
+  IDE_GO_TO_DEFINITION_TOOL_NAME,
+  IDE_WORKSPACE_SYMBOLS_TOOL_NAME,
+} from './tool-names.js';
+import type { ToolInvocation, ToolResult } from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+
+/**
+ * Parameters of the IDE language tools, as defined by the IDE's input schema.
+ */
+export interface IdeLanguageToolParams {
+  filePath?: string;
+  line?: number;
+  character?: number;
+  query?: string;
+}
+
+interface IdeLanguageToolDefinition {
+  name: string;
+  displayName: string;
+  description: string;
+  kind: Kind;
+  // The name of the results in the IDE's response, e.g. `diagnostics`.
+  resultName: string;
+}
+
+const IDE_LANGUAGE_TOOL_DEFINITIONS: Record<
+  IdeLanguageToolName,
+  IdeLanguageToolDefinition
+> = {
+  getDiagnostics: {
+    name: IDE_GET_DIAGNOSTICS_TOOL_NAME,
+    displayName: 'IDE Diagnostics',
+    description:
+      "Gets the errors and warnings, such as compile and type errors, that the user's IDE reports for a file or, when no file is given, for the whole workspace. Use this to find and verify fixes for compile errors without running the build.",
+    kind: Kind.Read,
+    resultName: 'diagnostics',
+  },
+  findReferences: {
+    name: IDE_FIND_REFERENCES_TOOL_NAME,
+    displayName: 'IDE Find References',
+    description:
+      "Finds the references to the symbol at a position in a file using the user's IDE. Positions are 1-based.",
+    kind: Kind.Search,
+    resultName: 'references',
+  },
+  goToDefinition: {
+    name: IDE_GO_TO_DEFINITION_TOOL_NAME,
+    displayName: 'IDE Go To Definition',
+    description:
+      "Finds where the symbol at a position in a file is defined using the user's IDE. Positions are 1-based.",
+    kind: Kind.Search,
+    resultName: 'definitions',
+  },
+  workspaceSymbols: {
+    name: IDE_WORKSPACE_SYMBOLS_TOOL_NAME,
+    displayName: 'IDE Workspace Symbols',
+    description:
+      "Searches the symbols, such as classes, functions and variables, of the workspace by name using the user's IDE.",
+    kind: Kind.Search,
+    resultName: 'symbols',
+  },
+};
+
+function getTextContent(result: CallToolResult): string {
+  return result.content
+    .filter((part) => part.type === 'text')
+    .map((part) => part.text)
+    .join('\n');
+}
+
+/**
+ * Summarizes the IDE's JSON response for display, e.g. "Found 3 diagnostics."
+ */
+function getReturnDisplay(text: string, resultName: string): string {
+  try {
+    const total = JSON.parse(text)?.total;
+    if (typeof total === 'number') {
+      return `Found ${total} ${resultName}.`;
+    }
+  } catch (_e) {
+    // Not JSON; fall through to the generic summary.
+  }
+  return `Received ${resultName} from the IDE.`;
+}
+
+class IdeLanguageToolInvocation extends BaseToolInvocation<
+  IdeLanguageToolParams,
+  ToolResult
+> {
+  constructor(
+    private readonly ideClient: IdeClient,
+    private readonly ideToolName: string,
+    private readonly resultName: string,
+    params: IdeLanguageToolParams,
+    messageBus?: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ) {
+    super(params, messageBus, _toolName, _toolDisplayName);
+  }
+
+  getDescription(): string {
+    const { filePath, line, character, query } = this.params;
+    if (query !== undefined) {
+      return query;
+    }
+    if (filePath === undefined) {
+      return 'workspace';
+    }
+    return line === undefined
+      ? filePath
+      : `${filePath}:${line}:${character ?? 1}`;
+  }
+
+  async execute(signal: AbortSignal): Promise<ToolResult> {
+    let text: string;
+    try {
+      const result = await this.ideClient.callTool(
+        this.ideToolName,
+        { ...this.params },
+        signal,
+      );
+      text = getTextContent(result);
+      if (result.isError) {
+        throw new Error(text || `Tool '${this.ideToolName}' failed.`);
+      }
+    } catch (error) {
+      const message = `Error calling ${this.ideToolName} in the IDE: ${getErrorMessage(error)}`;
+      return {
+        llmContent: message,
+        returnDisplay: `Error: ${message}`,
+        error: {
+          message,
+          type: ToolErrorType.IDE_TOOL_ERROR,
+        },
+      };
+    }
+
+    return {
+      llmContent: text,
+      returnDisplay: getReturnDisplay(text, this.resultName),
+    };
+  }
+}
+
+/**
+ * A tool that calls one of the language service tools, such as
+ * `getDiagnostics`, of the connected IDE. The parameters are the ones the IDE
+ * declares for the tool.
+ */
+export class IdeLanguageTool extends BaseDeclarativeTool<
+  IdeLanguageToolParams,
+  ToolResult
+> {
+  private readonly resultName: string;
+
+  constructor(
+    private readonly config: Config,
+    private readonly ideClient: IdeClient,
+    readonly ideTool: McpTool,
+    messageBus?: MessageBus,
+  ) {
+    const definition =
+      IDE_LANGUAGE_TOOL_DEFINITIONS[ideTool.name as IdeLanguageToolName];
+    super(
+      definition.name,
+      definition.displayName,
+      definition.description,
+      definition.kind,
+      ideTool.inputSchema,
+      false,
+      false,
+      messageBus,
+    );
+    this.resultName = definition.resultName;
+  }
+
+  protected override validateToolParamValues(
+    params: IdeLanguageToolParams,
+  ): string | null {
+    if (params.filePath === undefined) {
+      return null;
+    }
+    if (!path.isAbsolute(params.filePath)) {
+      return `File path must be absolute: ${params.filePath}`;
+    }
+    const workspaceContext = this.config.getWorkspaceContext();
+    if (!workspaceContext.isPathWithinWorkspace(params.filePath)) {
+      const directories = workspaceContext.getDirectories();
+      return `File path must be within one of the workspace directories: ${directories.join(', ')}`;
+    }
+    return null;
+  }
+
+  protected createInvocation(
+    params: IdeLanguageToolParams,
+    messageBus?: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ): ToolInvocation<IdeLanguageToolParams, ToolResult> {
+    return new IdeLanguageToolInvocation(
+      this.ideClient,
+      this.ideTool.name,
+      this.resultName,
+      params,
+      messageBus,
+      _toolName,
+      _toolDisplayName,
+    );
+  }
+}
+
+/**
+ * Registers a model tool for each language service tool that the connected
+ * IDE provides, and removes those of a previous connection. Call it whenever
+ * the IDE connects or disconnects.
+ */
+export async function syncIdeLanguageTools(
+  config: Config,
+  ideClient: IdeClient,
+): Promise<void> {
+  const registry = config.getToolRegistry();
+  for (const definition of Object.values(IDE_LANGUAGE_TOOL_DEFINITIONS)) {
+    registry.unregisterTool(definition.name);
+  }
+
+  const excludeTools = config.getExcludeTools() ?? [];
+  const messageBus = config.getEnableMessageBusIntegration()
+    ? config.getMessageBus()
+    : undefined;
+  for (const ideTool of ideClient.getLanguageTools()) {
+    const tool = new IdeLanguageTool(config, ideClient, ideTool, messageBus);
+    if (!excludeTools.includes(tool.name)) {
+      registry.registerTool(tool);
+    }
+  }
+
+  const geminiClient = config.getGeminiClient();
+  if (geminiClient?.isInitialized()) {
+    await geminiClient.setTools();
+  }
+}
@@ -43,6 +43,7 @@ describe('McpClientManager', () => {
       isTrustedFolder: vi.fn().mockReturnValue(true),
       getMcpServers: vi.fn().mockReturnValue({}),
       getPromptRegistry: () => {},
+      getResourceRegistry: () => {},
       getDebugMode: () => false,
       getWorkspaceContext: () => {},
       getAllowedMcpServers: vi.fn().mockReturnValue([]),
@@ -173,6 +173,7 @@ export class McpClientManager {
               config,
               this.toolRegistry,
               this.cliConfig.getPromptRegistry(),
+              this.cliConfig.getResourceRegistry(),
               this.cliConfig.getWorkspaceContext(),
               this.cliConfig.getDebugMode(),
             );
@@ -181,7 +182,7 @@ export class McpClientManager {
             this.eventEmitter?.emit('mcp-client-update', this.clients);
           }
           try {
-            await client.connect();
+            await client.connect(this.cliConfig);
             await client.discover(this.cliConfig);
             this.eventEmitter?.emit('mcp-client-update', this.clients);
           } catch (error) {
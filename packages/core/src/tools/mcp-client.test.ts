@@ -8,6 +8,10 @@ import * as GenAiLib from '@google/genai';
 import * as ClientLib from '@modelcontextprotocol/sdk/client/index.js';
 import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
 import * as SdkClientStdioLib from '@modelcontextprotocol/sdk/client/stdio.js';
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { AuthProviderType, type Config } from '../config/config.js';
@@ -16,6 +20,7 @@ import { MCPOAuthProvider } from '../mcp/oauth-provider.js';
 import { MCPOAuthTokenStorage } from '../mcp/oauth-token-storage.js';
 import { OAuthUtils } from '../mcp/oauth-utils.js';
 import type { PromptRegistry } from '../prompts/prompt-registry.js';
+import { ResourceRegistry } from '../resources/resource-registry.js';
 import { WorkspaceContext } from '../utils/workspaceContext.js';
 import {
   connectToMcpServer,
@@ -99,6 +104,7 @@ describe('mcp-client', () => {
         },
         mockedToolRegistry,
         {} as PromptRegistry,
+        {} as ResourceRegistry,
         workspaceContext,
         false,
       );
@@ -164,6 +170,7 @@ describe('mcp-client', () => {
         },
         mockedToolRegistry,
         {} as PromptRegistry,
+        {} as ResourceRegistry,
         workspaceContext,
         false,
       );
@@ -205,12 +212,13 @@ describe('mcp-client', () => {
         },
         mockedToolRegistry,
         {} as PromptRegistry,
+        {} as ResourceRegistry,
         workspaceContext,
         false,
       );
       await client.connect();
       await expect(client.discover({} as Config)).rejects.toThrow(
-        'No prompts or tools found on the server.',
+        'No prompts, tools or resources found on the server.',
       );
       expect(coreEvents.emitFeedback).toHaveBeenCalledWith(
         'error',
@@ -249,12 +257,13 @@ describe('mcp-client', () => {
         },
         mockedToolRegistry,
         {} as PromptRegistry,
+        {} as ResourceRegistry,
         workspaceContext,
         false,
       );
       await client.connect();
       await expect(client.discover({} as Config)).rejects.toThrow(
-        'No prompts or tools found on the server.',
+        'No prompts, tools or resources found on the server.',
       );
       expect(mockedMcpToTool).not.toHaveBeenCalled();
     });
@@ -299,6 +308,7 @@ describe('mcp-client', () => {
         },
         mockedToolRegistry,
         {} as PromptRegistry,
+        {} as ResourceRegistry,
         workspaceContext,
         false,
       );
@@ -308,7 +318,7 @@ describe('mcp-client', () => {
       expect(mockedToolRegistry.registerTool).toHaveBeenCalledOnce();
     });
 
-    it('should remove tools and prompts on disconnect', async () => {
+    it('should remove tools, prompts and resources on disconnect', async () => {
       const mockedClient = {
         connect: vi.fn(),
         close: vi.fn(),
@@ -351,6 +361,9 @@ describe('mcp-client', () => {
         unregisterPrompt: vi.fn(),
         removePromptsByServer: vi.fn(),
       } as unknown as PromptRegistry;
+      const mockedResourceRegistry = {
+        removeResourcesByServer: vi.fn(),
+      } as unknown as ResourceRegistry;
       const client = new McpClient(
         'test-server',
         {
@@ -358,6 +371,7 @@ describe('mcp-client', () => {
         },
         mockedToolRegistry,
         mockedPromptRegistry,
+        mockedResourceRegistry,
         workspaceContext,
         false,
       );
@@ -372,6 +386,204 @@ describe('mcp-client', () => {
       expect(mockedClient.close).toHaveBeenCalledOnce();
       expect(mockedToolRegistry.removeMcpToolsByServer).toHaveBeenCalledOnce();
       expect(mockedPromptRegistry.removePromptsByServer).toHaveBeenCalledOnce();
+      expect(
+        mockedResourceRegistry.removeResourcesByServer,
+      ).toHaveBeenCalledExactlyOnceWith('test-server');
+    });
+
+    it('should answer sampling and elicitation requests when given a config', async () => {
+      const mockedClient = {
+        connect: vi.fn(),
+        registerCapabilities: vi.fn(),
+        setRequestHandler: vi.fn(),
+      };
+      vi.mocked(ClientLib.Client).mockReturnValue(
+        mockedClient as unknown as ClientLib.Client,
+      );
+      vi.spyOn(SdkClientStdioLib, 'StdioClientTransport').mockReturnValue(
+        {} as SdkClientStdioLib.StdioClientTransport,
+      );
+      const createMessage = vi.fn().mockResolvedValue({
+        role: 'assistant',
+        content: { type: 'text', text: 'Done.' },
+        model: 'gemini',
+      });
+      const elicitationHandler = vi
+        .fn()
+        .mockResolvedValue({ action: 'decline' });
+      const cliConfig = {
+        getMcpSamplingService: () => ({ createMessage }),
+        getMcpElicitationHandler: () => elicitationHandler,
+      } as unknown as Config;
+      const serverConfig = { command: 'test-command' };
+      const client = new McpClient(
+        'test-server',
+        serverConfig,
+        {} as ToolRegistry,
+        {} as PromptRegistry,
+        {} as ResourceRegistry,
+        workspaceContext,
+        false,
+      );
+
+      await client.connect(cliConfig);
+
+      expect(mockedClient.registerCapabilities).toHaveBeenCalledWith({
+        roots: { listChanged: true },
+        sampling: {},
+        elicitation: {},
+      });
+      const getHandler = (schema: unknown) =>
+        mockedClient.setRequestHandler.mock.calls.find(
+          ([handlerSchema]) => handlerSchema === schema,
+        )![1];
+      const signal = new AbortController().signal;
+      const samplingParams = { messages: [], maxTokens: 10 };
+      await getHandler(CreateMessageRequestSchema)(
+        { method: 'sampling/createMessage', params: samplingParams },
+        { signal },
+      );
+      expect(createMessage).toHaveBeenCalledWith(
+        'test-server',
+        serverConfig,
+        samplingParams,
+        signal,
+      );
+      await expect(
+        getHandler(ElicitRequestSchema)({
+          method: 'elicitation/create',
+          params: {
+            message: 'Name?',
+            requestedSchema: { type: 'object', properties: {} },
+          },
+        }),
+      ).resolves.toEqual({ action: 'decline' });
+      expect(elicitationHandler).toHaveBeenCalledWith({
+        serverName: 'test-server',
+        message: 'Name?',
+        requestedSchema: { type: 'object', properties: {} },
+      });
+    });
+
+    it('should only advertise roots when connected without a config', async () => {
+      const mockedClient = {
+        connect: vi.fn(),
+        registerCapabilities: vi.fn(),
+        setRequestHandler: vi.fn(),
+      };
+      vi.mocked(ClientLib.Client).mockReturnValue(
+        mockedClient as unknown as ClientLib.Client,
+      );
+      vi.spyOn(SdkClientStdioLib, 'StdioClientTransport').mockReturnValue(
+        {} as SdkClientStdioLib.StdioClientTransport,
+      );
+      const client = new McpClient(
+        'test-server',
+        { command: 'test-command' },
+        {} as ToolRegistry,
+        {} as PromptRegistry,
+        {} as ResourceRegistry,
+        workspaceContext,
+        false,
+      );
+
+      await client.connect();
+
+      expect(mockedClient.registerCapabilities).toHaveBeenCalledWith({
+        roots: { listChanged: true },
+      });
+      expect(mockedClient.setRequestHandler).toHaveBeenCalledOnce();
+    });
+
+    it('should discover resources and rediscover them when they change', async () => {
+      const resourcePages: Record<string, object> = {
+        '': {
+          resources: [{ uri: 'file:///a.md', name: 'a' }],
+          nextCursor: 'page2',
+        },
+        page2: { resources: [{ uri: 'file:///b.md', name: 'b' }] },
+      };
+      const mockedClient = {
+        connect: vi.fn(),
+        getStatus: vi.fn(),
+        registerCapabilities: vi.fn(),
+        setRequestHandler: vi.fn(),
+        setNotificationHandler: vi.fn(),
+        getServerCapabilities: vi
+          .fn()
+          .mockReturnValue({ resources: { listChanged: true } }),
+        request: vi.fn(
+          async (request: {
+            method: string;
+            params: { cursor?: string; uri?: string };
+          }) => {
+            switch (request.method) {
+              case 'resources/list':
+                return resourcePages[request.params.cursor ?? ''];
+              case 'resources/templates/list':
+                return {
+                  resourceTemplates: [
+                    { uriTemplate: 'file:///{path}', name: 'files' },
+                  ],
+                };
+              case 'resources/read':
+                return {
+                  contents: [{ uri: request.params.uri, text: 'hello' }],
+                };
+              default:
+                throw new Error('Method not found');
+            }
+          },
+        ),
+      };
+      vi.mocked(ClientLib.Client).mockReturnValue(
+        mockedClient as unknown as ClientLib.Client,
+      );
+      vi.spyOn(SdkClientStdioLib, 'StdioClientTransport').mockReturnValue(
+        {} as SdkClientStdioLib.StdioClientTransport,
+      );
+      const resourceRegistry = new ResourceRegistry();
+      const client = new McpClient(
+        'test-server',
+        {
+          command: 'test-command',
+        },
+        {
+          sortTools: vi.fn(),
+          getMessageBus: vi.fn().mockReturnValue(undefined),
+        } as unknown as ToolRegistry,
+        {} as PromptRegistry,
+        resourceRegistry,
+        workspaceContext,
+        false,
+      );
+      await client.connect();
+      await client.discover({} as Config);
+
+      expect(
+        resourceRegistry.getAllResources().map((resource) => resource.uri),
+      ).toEqual(['file:///a.md', 'file:///b.md']);
+      expect(resourceRegistry.getAllResourceTemplates()).toEqual([
+        {
+          uriTemplate: 'file:///{path}',
+          name: 'files',
+          serverName: 'test-server',
+        },
+      ]);
+      await expect(
+        resourceRegistry.readResource('test-server', 'file:///c.md'),
+      ).resolves.toEqual({
+        contents: [{ uri: 'file:///c.md', text: 'hello' }],
+      });
+
+      resourcePages[''] = { resources: [{ uri: 'file:///new.md', name: 'n' }] };
+      const onListChanged =
+        mockedClient.setNotificationHandler.mock.calls[0][1];
+      await onListChanged();
+
+      expect(
+        resourceRegistry.getAllResources().map((resource) => resource.uri),
+      ).toEqual(['file:///new.md']);
     });
   });
   describe('appendMcpServerCommand', () => {
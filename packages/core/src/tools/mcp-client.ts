@@ -13,17 +13,29 @@ import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/
 import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import type {
   GetPromptResult,
+  ListResourcesResult,
+  ListResourceTemplatesResult,
   Prompt,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
 } from '@modelcontextprotocol/sdk/types.js';
 import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
   GetPromptResultSchema,
   ListPromptsResultSchema,
+  ListResourcesResultSchema,
+  ListResourceTemplatesResultSchema,
   ListRootsRequestSchema,
+  ReadResourceResultSchema,
+  ResourceListChangedNotificationSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { parse } from 'shell-quote';
 import type { Config, MCPServerConfig } from '../config/config.js';
 import { AuthProviderType } from '../config/config.js';
 import { GoogleCredentialProvider } from '../mcp/google-auth-provider.js';
+import { handleElicitationRequest } from '../mcp/elicitation.js';
 import { ServiceAccountImpersonationProvider } from '../mcp/sa-impersonation-provider.js';
 import { DiscoveredMCPTool } from './mcp-tool.js';
 
@@ -35,6 +47,7 @@ import { MCPOAuthProvider } from '../mcp/oauth-provider.js';
 import { MCPOAuthTokenStorage } from '../mcp/oauth-token-storage.js';
 import { OAuthUtils } from '../mcp/oauth-utils.js';
 import type { PromptRegistry } from '../prompts/prompt-registry.js';
+import type { ResourceRegistry } from '../resources/resource-registry.js';
 import { getErrorMessage } from '../utils/errors.js';
 import type {
   Unsubscribe,
@@ -52,6 +65,14 @@ export type DiscoveredMCPPrompt = Prompt & {
   invoke: (params: Record<string, unknown>) => Promise<GetPromptResult>;
 };
 
+export type DiscoveredMCPResource = Resource & {
+  serverName: string;
+};
+
+export type DiscoveredMCPResourceTemplate = ResourceTemplate & {
+  serverName: string;
+};
+
 /**
  * Enum representing the connection status of an MCP server
  */
@@ -94,14 +115,16 @@ export class McpClient {
     private readonly serverConfig: MCPServerConfig,
     private readonly toolRegistry: ToolRegistry,
     private readonly promptRegistry: PromptRegistry,
+    private readonly resourceRegistry: ResourceRegistry,
     private readonly workspaceContext: WorkspaceContext,
     private readonly debugMode: boolean,
   ) {}
 
   /**
-   * Connects to the MCP server.
+   * Connects to the MCP server. With a `cliConfig`, the client also answers
+   * sampling and elicitation requests from the server.
    */
-  async connect(): Promise<void> {
+  async connect(cliConfig?: Config): Promise<void> {
     if (this.status !== MCPServerStatus.DISCONNECTED) {
       throw new Error(
         `Can only connect when the client is disconnected, current state is ${this.status}`,
@@ -114,6 +137,7 @@ export class McpClient {
         this.serverConfig,
         this.debugMode,
         this.workspaceContext,
+        cliConfig,
       );
       const originalOnError = this.client.onerror;
       this.client.onerror = (error) => {
@@ -136,22 +160,34 @@ export class McpClient {
   }
 
   /**
-   * Discovers tools and prompts from the MCP server.
+   * Discovers tools, prompts and resources from the MCP server.
    */
   async discover(cliConfig: Config): Promise<void> {
     this.assertConnected();
 
     const prompts = await this.discoverPrompts();
     const tools = await this.discoverTools(cliConfig);
+    const resources = await this.discoverResources();
 
-    if (prompts.length === 0 && tools.length === 0) {
-      throw new Error('No prompts or tools found on the server.');
+    if (prompts.length === 0 && tools.length === 0 && resources.length === 0) {
+      throw new Error('No prompts, tools or resources found on the server.');
     }
 
     for (const tool of tools) {
       this.toolRegistry.registerTool(tool);
     }
     this.toolRegistry.sortTools();
+
+    if (this.client!.getServerCapabilities()?.resources?.listChanged) {
+      this.client!.setNotificationHandler(
+        ResourceListChangedNotificationSchema,
+        async () => {
+          if (this.status === MCPServerStatus.CONNECTED) {
+            await this.discoverResources();
+          }
+        },
+      );
+    }
   }
 
   /**
@@ -163,6 +199,7 @@ export class McpClient {
     }
     this.toolRegistry.removeMcpToolsByServer(this.serverName);
     this.promptRegistry.removePromptsByServer(this.serverName);
+    this.resourceRegistry.removeResourcesByServer(this.serverName);
     this.updateStatus(MCPServerStatus.DISCONNECTING);
     const client = this.client;
     this.client = undefined;
@@ -211,6 +248,17 @@ export class McpClient {
     return discoverPrompts(this.serverName, this.client!, this.promptRegistry);
   }
 
+  private async discoverResources(): Promise<
+    Array<Resource | ResourceTemplate>
+  > {
+    this.assertConnected();
+    return discoverResources(
+      this.serverName,
+      this.client!,
+      this.resourceRegistry,
+    );
+  }
+
   getServerConfig(): MCPServerConfig {
     return this.serverConfig;
   }
@@ -536,6 +584,7 @@ export async function connectAndDiscover(
       mcpServerConfig,
       debugMode,
       workspaceContext,
+      cliConfig,
     );
 
     mcpClient.onerror = (error) => {
@@ -718,6 +767,101 @@ export async function discoverPrompts(
   }
 }
 
+/**
+ * Discovers the resources and resource templates of a connected MCP client
+ * and replaces the ones registered for the server.
+ *
+ * @param mcpServerName The name of the MCP server.
+ * @param mcpClient The active MCP client instance.
+ * @param resourceRegistry The registry to register the resources with.
+ * @returns The discovered resources and resource templates.
+ */
+export async function discoverResources(
+  mcpServerName: string,
+  mcpClient: Client,
+  resourceRegistry: ResourceRegistry,
+): Promise<Array<Resource | ResourceTemplate>> {
+  try {
+    // Only request resources if the server supports them.
+    if (mcpClient.getServerCapabilities()?.resources == null) return [];
+
+    const resources: Resource[] = [];
+    let cursor: string | undefined;
+    do {
+      const response: ListResourcesResult = await mcpClient.request(
+        { method: 'resources/list', params: cursor ? { cursor } : {} },
+        ListResourcesResultSchema,
+      );
+      resources.push(...response.resources);
+      cursor = response.nextCursor;
+    } while (cursor);
+
+    const templates: ResourceTemplate[] = [];
+    try {
+      cursor = undefined;
+      do {
+        const response: ListResourceTemplatesResult = await mcpClient.request(
+          {
+            method: 'resources/templates/list',
+            params: cursor ? { cursor } : {},
+          },
+          ListResourceTemplatesResultSchema,
+        );
+        templates.push(...response.resourceTemplates);
+        cursor = response.nextCursor;
+      } while (cursor);
+    } catch (error) {
+      // Templates are optional, even for servers that list resources.
+      if (
+        !(error instanceof Error) ||
+        !error.message?.includes('Method not found')
+      ) {
+        throw error;
+      }
+    }
+
+    resourceRegistry.setServerResources(
+      mcpServerName,
+      resources.map((resource) => ({ ...resource, serverName: mcpServerName })),
+      templates.map((template) => ({ ...template, serverName: mcpServerName })),
+      (uri: string) => readMcpResource(mcpClient, uri),
+    );
+    return [...resources, ...templates];
+  } catch (error) {
+    // Don't log an error if the method is not found, which is a common case.
+    if (
+      error instanceof Error &&
+      !error.message?.includes('Method not found')
+    ) {
+      coreEvents.emitFeedback(
+        'error',
+        `Error discovering resources from ${mcpServerName}: ${getErrorMessage(
+          error,
+        )}`,
+        error,
+      );
+    }
+    return [];
+  }
+}
+
+/**
+ * Reads a resource from a connected MCP client.
+ *
+ * @param mcpClient The active MCP client instance.
+ * @param uri The URI of the resource to read.
+ * @returns A promise that resolves to the contents of the resource.
+ */
+export async function readMcpResource(
+  mcpClient: Client,
+  uri: string,
+): Promise<ReadResourceResult> {
+  return mcpClient.request(
+    { method: 'resources/read', params: { uri } },
+    ReadResourceResultSchema,
+  );
+}
+
 /**
  * Invokes a prompt on a connected MCP client.
  *
@@ -780,6 +924,8 @@ export function hasNetworkTransport(config: MCPServerConfig): boolean {
  *
  * @param mcpServerName The name of the MCP server, used for logging and identification.
  * @param mcpServerConfig The configuration specifying how to connect to the server.
+ * @param cliConfig When given, the client advertises the `sampling` and
+ *   `elicitation` capabilities and answers those requests from the server.
  * @returns A promise that resolves to a connected MCP `Client` instance.
  * @throws An error if the connection fails or the configuration is invalid.
  */
@@ -788,6 +934,7 @@ export async function connectToMcpServer(
   mcpServerConfig: MCPServerConfig,
   debugMode: boolean,
   workspaceContext: WorkspaceContext,
+  cliConfig?: Config,
 ): Promise<Client> {
   const mcpClient = new Client({
     name: 'gemini-cli-mcp-client',
@@ -798,8 +945,27 @@ export async function connectToMcpServer(
     roots: {
       listChanged: true,
     },
+    ...(cliConfig && { sampling: {}, elicitation: {} }),
   });
 
+  if (cliConfig) {
+    mcpClient.setRequestHandler(
+      CreateMessageRequestSchema,
+      async (request, extra) =>
+        cliConfig
+          .getMcpSamplingService()
+          .createMessage(
+            mcpServerName,
+            mcpServerConfig,
+            request.params,
+            extra.signal,
+          ),
+    );
+    mcpClient.setRequestHandler(ElicitRequestSchema, async (request) =>
+      handleElicitationRequest(cliConfig, mcpServerName, request.params),
+    );
+  }
+
   mcpClient.setRequestHandler(ListRootsRequestSchema, async () => {
     const roots = [];
     for (const dir of workspaceContext.getDirectories()) {
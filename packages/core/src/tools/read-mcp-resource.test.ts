@@ -0,0 +1,78 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ReadMcpResourceTool } from './read-mcp-resource.js';
+import { ResourceRegistry } from '../resources/resource-registry.js';
+import { ToolErrorType } from './tool-error.js';
+import type { Config } from '../config/config.js';
+
+describe('ReadMcpResourceTool', () => {
+  const signal = new AbortController().signal;
+  let registry: ResourceRegistry;
+  let read: ReturnType<typeof vi.fn>;
+  let tool: ReadMcpResourceTool;
+
+  beforeEach(() => {
+    registry = new ResourceRegistry();
+    read = vi.fn();
+    registry.setServerResources(
+      'docs',
+      [{ uri: 'doc://readme', name: 'readme', serverName: 'docs' }],
+      [],
+      read,
+    );
+    tool = new ReadMcpResourceTool({
+      getResourceRegistry: () => registry,
+    } as unknown as Config);
+  });
+
+  it('should return text and binary contents as parts', async () => {
+    read.mockResolvedValue({
+      contents: [
+        { uri: 'doc://readme', text: '# Readme' },
+        { uri: 'doc://readme', mimeType: 'image/png', blob: 'aGVsbG8=' },
+      ],
+    });
+
+    const result = await tool.buildAndExecute(
+      { server_name: 'docs', uri: 'doc://readme' },
+      signal,
+    );
+
+    expect(read).toHaveBeenCalledWith('doc://readme');
+    expect(result.llmContent).toEqual([
+      { text: '# Readme' },
+      {
+        text: '[Resource doc://readme has the following content with mime-type: image/png]',
+      },
+      { inlineData: { mimeType: 'image/png', data: 'aGVsbG8=' } },
+    ]);
+    expect(result.returnDisplay).toBe(
+      'Read 2 content item(s) from docs:doc://readme.',
+    );
+  });
+
+  it('should report read errors', async () => {
+    read.mockRejectedValue(new Error('Resource not found'));
+
+    const result = await tool.buildAndExecute(
+      { server_name: 'docs', uri: 'doc://missing' },
+      signal,
+    );
+
+    expect(result.error).toEqual({
+      message: 'Error reading resource docs:doc://missing: Resource not found',
+      type: ToolErrorType.MCP_RESOURCE_READ_ERROR,
+    });
+  });
+
+  it('should reject unknown servers', () => {
+    expect(() => tool.build({ server_name: 'notes', uri: 'note://a' })).toThrow(
+      "Unknown MCP server 'notes'. Servers with resources: docs",
+    );
+  });
+});
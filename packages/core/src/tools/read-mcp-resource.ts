@@ -0,0 +1,173 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Part } from '@google/genai';
+import type { ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import type { Config } from '../config/config.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { ToolErrorType } from './tool-error.js';
+import { READ_MCP_RESOURCE_TOOL_NAME } from './tool-names.js';
+import type { ToolInvocation, ToolResult } from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+
+/**
+ * Parameters for the ReadMcpResource tool
+ */
+export interface ReadMcpResourceToolParams {
+  /**
+   * The name of the MCP server that provides the resource
+   */
+  server_name: string;
+
+  /**
+   * The URI of the resource to read
+   */
+  uri: string;
+}
+
+/**
+ * Converts the contents of a read resource to parts. Text contents are kept
+ * as text and binary contents are inlined with their mime type.
+ */
+export function resourceContentsToParts(result: ReadResourceResult): Part[] {
+  const parts: Part[] = [];
+  for (const content of result.contents) {
+    if ('text' in content && typeof content.text === 'string') {
+      parts.push({ text: content.text });
+    } else if ('blob' in content && typeof content.blob === 'string') {
+      const mimeType = content.mimeType || 'application/octet-stream';
+      parts.push(
+        {
+          text: `[Resource ${content.uri} has the following content with mime-type: ${mimeType}]`,
+        },
+        { inlineData: { mimeType, data: content.blob } },
+      );
+    }
+  }
+  return parts;
+}
+
+class ReadMcpResourceToolInvocation extends BaseToolInvocation<
+  ReadMcpResourceToolParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    params: ReadMcpResourceToolParams,
+    messageBus?: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ) {
+    super(params, messageBus, _toolName, _toolDisplayName);
+  }
+
+  getDescription(): string {
+    return `${this.params.server_name}:${this.params.uri}`;
+  }
+
+  async execute(_signal: AbortSignal): Promise<ToolResult> {
+    let result: ReadResourceResult;
+    try {
+      result = await this.config
+        .getResourceRegistry()
+        .readResource(this.params.server_name, this.params.uri);
+    } catch (error) {
+      const message = `Error reading resource ${this.getDescription()}: ${getErrorMessage(error)}`;
+      return {
+        llmContent: message,
+        returnDisplay: `Error: ${message}`,
+        error: {
+          message,
+          type: ToolErrorType.MCP_RESOURCE_READ_ERROR,
+        },
+      };
+    }
+
+    const parts = resourceContentsToParts(result);
+    if (parts.length === 0) {
+      return {
+        llmContent: `Resource ${this.getDescription()} is empty.`,
+        returnDisplay: 'Resource is empty.',
+      };
+    }
+    return {
+      llmContent: parts,
+      returnDisplay: `Read ${result.contents.length} content item(s) from ${this.getDescription()}.`,
+    };
+  }
+}
+
+/**
+ * Implementation of the ReadMcpResource tool logic
+ */
+export class ReadMcpResourceTool extends BaseDeclarativeTool<
+  ReadMcpResourceToolParams,
+  ToolResult
+> {
+  static readonly Name = READ_MCP_RESOURCE_TOOL_NAME;
+
+  constructor(
+    private readonly config: Config,
+    messageBus?: MessageBus,
+  ) {
+    super(
+      ReadMcpResourceTool.Name,
+      'ReadMcpResource',
+      'Reads a resource, such as a document, file or database record, from a connected MCP server. The URI can be one of the resources listed by the server or one built from its resource templates.',
+      Kind.Read,
+      {
+        properties: {
+          server_name: {
+            description:
+              'The name of the MCP server that provides the resource',
+            type: 'string',
+          },
+          uri: {
+            description: 'The URI of the resource to read',
+            type: 'string',
+          },
+        },
+        required: ['server_name', 'uri'],
+        type: 'object',
+      },
+      true,
+      false,
+      messageBus,
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: ReadMcpResourceToolParams,
+  ): string | null {
+    const registry = this.config.getResourceRegistry();
+    if (!registry.hasServer(params.server_name)) {
+      const serverNames = registry.getServerNames();
+      return serverNames.length > 0
+        ? `Unknown MCP server '${params.server_name}'. Servers with resources: ${serverNames.join(', ')}`
+        : 'No connected MCP server provides resources.';
+    }
+    if (params.uri.trim() === '') {
+      return "The 'uri' parameter must be non-empty.";
+    }
+    return null;
+  }
+
+  protected createInvocation(
+    params: ReadMcpResourceToolParams,
+    messageBus?: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ): ToolInvocation<ReadMcpResourceToolParams, ToolResult> {
+    return new ReadMcpResourceToolInvocation(
+      this.config,
+      params,
+      messageBus,
+      _toolName,
+      _toolDisplayName,
+    );
+  }
+}
@@ -370,6 +370,7 @@ describe('ShellTool', () => {
         mockConfig.getGeminiClient(),
         mockAbortSignal,
         1000,
+        mockConfig.promptProfileService,
       );
       expect(result.llmContent).toBe('summarized output');
       expect(result.returnDisplay).toBe('long output');
@@ -312,6 +312,7 @@ export class ShellToolInvocation extends BaseToolInvocation<
           this.config.getGeminiClient(),
           signal,
           summarizeConfig[SHELL_TOOL_NAME].tokenBudget,
+          this.config.promptProfileService,
         );
         return {
           llmContent: summary,
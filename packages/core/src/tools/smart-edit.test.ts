@@ -513,6 +513,7 @@ describe('SmartEditTool', () => {
         externallyModifiedContent, // The new content for correction
         expect.any(Object), // baseLlmClient
         expect.any(Object), // abortSignal
+        undefined, // promptProfiles
       );
     });
   });
@@ -424,6 +424,7 @@ class EditToolInvocation
       contentForLlmEditFixer,
       this.config.getBaseLlmClient(),
       abortSignal,
+      this.config.promptProfileService,
     );
 
     // If the self-correction attempt timed out, return the original error.
@@ -51,6 +51,10 @@ export enum ToolErrorType {
 
   // MCP-specific Errors
   MCP_TOOL_ERROR = 'mcp_tool_error',
+  MCP_RESOURCE_READ_ERROR = 'mcp_resource_read_error',
+
+  // IDE-specific Errors
+  IDE_TOOL_ERROR = 'ide_tool_error',
 
   // Memory-specific Errors
   MEMORY_TOOL_EXECUTION_ERROR = 'memory_tool_execution_error',
@@ -71,6 +75,9 @@ export enum ToolErrorType {
 
   // WebSearch-specific Errors
   WEB_SEARCH_FAILED = 'web_search_failed',
+
+  // Hook Errors
+  BLOCKED_BY_HOOK = 'blocked_by_hook',
 }
 
 /**
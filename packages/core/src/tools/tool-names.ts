@@ -20,3 +20,9 @@ export const READ_MANY_FILES_TOOL_NAME = 'read_many_files';
 export const READ_FILE_TOOL_NAME = 'read_file';
 export const LS_TOOL_NAME = 'list_directory';
 export const MEMORY_TOOL_NAME = 'save_memory';
+export const PARALLEL_SUBAGENTS_TOOL_NAME = 'run_subagents_in_parallel';
+export const READ_MCP_RESOURCE_TOOL_NAME = 'read_mcp_resource';
+export const IDE_GET_DIAGNOSTICS_TOOL_NAME = 'ide_get_diagnostics';
+export const IDE_FIND_REFERENCES_TOOL_NAME = 'ide_find_references';
+export const IDE_GO_TO_DEFINITION_TOOL_NAME = 'ide_go_to_definition';
+export const IDE_WORKSPACE_SYMBOLS_TOOL_NAME = 'ide_workspace_symbols';
@@ -223,6 +223,14 @@ export class ToolRegistry {
     this.tools.set(tool.name, tool);
   }
 
+  /**
+   * Removes a tool, if it is registered.
+   * @param name The name of the tool as seen by the LLM.
+   */
+  unregisterTool(name: string): void {
+    this.tools.delete(name);
+  }
+
   /**
    * Sorts tools as:
    * 1. Built in tools.
@@ -642,6 +642,8 @@ export interface ToolEditConfirmationDetails {
   newContent: string;
   isModifying?: boolean;
   ideConfirmation?: Promise<DiffUpdateResult>;
+  /** Secret placeholders that were replaced by their real values. */
+  restoredSecrets?: string[];
 }
 
 export interface ToolConfirmationPayload {
@@ -656,6 +658,8 @@ export interface ToolExecuteConfirmationDetails {
   onConfirm: (outcome: ToolConfirmationOutcome) => Promise<void>;
   command: string;
   rootCommand: string;
+  /** Secret placeholders that were replaced by their real values. */
+  restoredSecrets?: string[];
 }
 
 export interface ToolMcpConfirmationDetails {
@@ -673,6 +677,8 @@ export interface ToolInfoConfirmationDetails {
   onConfirm: (outcome: ToolConfirmationOutcome) => Promise<void>;
   prompt: string;
   urls?: string[];
+  /** Secret placeholders that were replaced by their real values. */
+  restoredSecrets?: string[];
 }
 
 export type ToolCallConfirmationDetails =
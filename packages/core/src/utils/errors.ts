@@ -64,6 +64,11 @@ export class FatalToolExecutionError extends FatalError {
     super(message, 54);
   }
 }
+export class FatalBudgetExceededError extends FatalError {
+  constructor(message: string) {
+    super(message, 55);
+  }
+}
 export class FatalCancellationError extends FatalError {
   constructor(message: string) {
     super(message, 130); // Standard exit code for SIGINT
@@ -169,4 +169,22 @@ describe('CoreEventEmitter', () => {
       expect(listener).toHaveBeenCalledWith({ model: newModel });
     });
   });
+
+  describe('SecretsRedacted Event', () => {
+    it('should emit SecretsRedacted event with the total count', () => {
+      const listener = vi.fn();
+      events.on(CoreEvent.SecretsRedacted, listener);
+
+      events.emitSecretsRedacted('prompt-1', {
+        'Email Address': 2,
+        'Private Key': 1,
+      });
+
+      expect(listener).toHaveBeenCalledWith({
+        promptId: 'prompt-1',
+        count: 3,
+        rules: { 'Email Address': 2, 'Private Key': 1 },
+      });
+    });
+  });
 });
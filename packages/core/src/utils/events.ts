@@ -53,10 +53,29 @@ export interface ModelChangedPayload {
   model: string;
 }
 
+/**
+ * Payload for the 'secrets-redacted' event.
+ */
+export interface SecretsRedactedPayload {
+  /**
+   * The prompt the redacted request belongs to.
+   */
+  promptId: string;
+  /**
+   * The number of secrets redacted for the first time in this request.
+   */
+  count: number;
+  /**
+   * How many of those secrets each redaction rule matched, keyed by rule name.
+   */
+  rules: Record<string, number>;
+}
+
 export enum CoreEvent {
   UserFeedback = 'user-feedback',
   FallbackModeChanged = 'fallback-mode-changed',
   ModelChanged = 'model-changed',
+  SecretsRedacted = 'secrets-redacted',
 }
 
 export class CoreEventEmitter extends EventEmitter {
@@ -105,6 +124,15 @@ export class CoreEventEmitter extends EventEmitter {
     this.emit(CoreEvent.ModelChanged, payload);
   }
 
+  /**
+   * Notifies subscribers that secrets were scrubbed from an outbound request.
+   */
+  emitSecretsRedacted(promptId: string, rules: Record<string, number>): void {
+    const count = Object.values(rules).reduce((sum, n) => sum + n, 0);
+    const payload: SecretsRedactedPayload = { promptId, count, rules };
+    this.emit(CoreEvent.SecretsRedacted, payload);
+  }
+
   /**
    * Flushes buffered messages. Call this immediately after primary UI listener
    * subscribes.
@@ -129,6 +157,10 @@ export class CoreEventEmitter extends EventEmitter {
     event: CoreEvent.ModelChanged,
     listener: (payload: ModelChangedPayload) => void,
   ): this;
+  override on(
+    event: CoreEvent.SecretsRedacted,
+    listener: (payload: SecretsRedactedPayload) => void,
+  ): this;
   override on(
     event: string | symbol,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -149,6 +181,10 @@ export class CoreEventEmitter extends EventEmitter {
     event: CoreEvent.ModelChanged,
     listener: (payload: ModelChangedPayload) => void,
   ): this;
+  override off(
+    event: CoreEvent.SecretsRedacted,
+    listener: (payload: SecretsRedactedPayload) => void,
+  ): this;
   override off(
     event: string | symbol,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -169,6 +205,10 @@ export class CoreEventEmitter extends EventEmitter {
     event: CoreEvent.ModelChanged,
     payload: ModelChangedPayload,
   ): boolean;
+  override emit(
+    event: CoreEvent.SecretsRedacted,
+    payload: SecretsRedactedPayload,
+  ): boolean;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   override emit(event: string | symbol, ...args: any[]): boolean {
     return super.emit(event, ...args);
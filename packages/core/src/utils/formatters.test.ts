@@ -6,7 +6,7 @@
 
 import { describe, it, expect } from 'vitest';
 
-import { bytesToMB, formatMemoryUsage } from './formatters.js';
+import { bytesToMB, formatLocalDate, formatMemoryUsage } from './formatters.js';
 
 describe('bytesToMB', () => {
   it('converts bytes to megabytes', () => {
@@ -29,3 +29,10 @@ describe('formatMemoryUsage', () => {
     expect(formatMemoryUsage(2 * 1024 * 1024 * 1024)).toBe('2.00 GB');
   });
 });
+
+describe('formatLocalDate', () => {
+  it('formats the local calendar date with zero padding', () => {
+    expect(formatLocalDate(new Date(2025, 0, 5, 23, 59))).toBe('2025-01-05');
+    expect(formatLocalDate(new Date(2025, 10, 30, 0, 0))).toBe('2025-11-30');
+  });
+});
@@ -16,3 +16,12 @@ export const formatMemoryUsage = (bytes: number): string => {
   }
   return `${gb.toFixed(2)} GB`;
 };
+
+/**
+ * Formats a date as YYYY-MM-DD in the local time zone.
+ */
+export const formatLocalDate = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
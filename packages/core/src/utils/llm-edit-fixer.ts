@@ -11,24 +11,12 @@ import { LruCache } from './LruCache.js';
 import { DEFAULT_GEMINI_FLASH_MODEL } from '../config/models.js';
 import { promptIdContext } from './promptIdContext.js';
 import { debugLogger } from './debugLogger.js';
-import path from 'node:path';
-import fs from 'node:fs';
+import type { PromptProfileService } from '../services/promptProfileService.js';
+import { readDefaultPrompt } from '../services/promptProfileService.js';
 
 const MAX_CACHE_SIZE = 50;
 const GENERATE_JSON_TIMEOUT_MS = 40000; // 40 seconds
 
-const BUNDLE_PROMPTS_DIR = path.join(
-  globalThis.__dirname,
-  'hacked_prompts_source',
-);
-
-export const EDIT_SYS_PROMPT = fs
-  .readFileSync(path.join(BUNDLE_PROMPTS_DIR, 'EDIT_SYS_PROMPT.txt'), 'utf8')
-  .trim();
-export const EDIT_USER_PROMPT = fs
-  .readFileSync(path.join(BUNDLE_PROMPTS_DIR, 'EDIT_USER_PROMPT.txt'), 'utf8')
-  .trim();
-
 export interface SearchReplaceEdit {
   search: string;
   replace: string;
@@ -87,7 +75,7 @@ async function generateJsonWithTimeout<T>(
  * @param current_content The current content of the file.
  * @param baseLlmClient The BaseLlmClient to use for the LLM call.
  * @param abortSignal An abort signal to cancel the operation.
- * @param promptId A unique ID for the prompt.
+ * @param promptProfiles The prompt profiles to read the fixer prompts from.
  * @returns A new search and replace pair.
  */
 export async function FixLLMEditWithInstruction(
@@ -98,6 +86,7 @@ export async function FixLLMEditWithInstruction(
   current_content: string,
   baseLlmClient: BaseLlmClient,
   abortSignal: AbortSignal,
+  promptProfiles?: PromptProfileService,
 ): Promise<SearchReplaceEdit | null> {
   let promptId = promptIdContext.getStore();
   if (!promptId) {
@@ -122,7 +111,14 @@ export async function FixLLMEditWithInstruction(
   if (cachedResult) {
     return cachedResult;
   }
-  const userPrompt = EDIT_USER_PROMPT.replace('{instruction}', instruction)
+  const editUserPrompt =
+    promptProfiles?.getPrompt('EDIT_USER_PROMPT') ??
+    readDefaultPrompt('EDIT_USER_PROMPT');
+  const editSysPrompt =
+    promptProfiles?.getPrompt('EDIT_SYS_PROMPT') ??
+    readDefaultPrompt('EDIT_SYS_PROMPT');
+  const userPrompt = editUserPrompt
+    .replace('{instruction}', instruction)
     .replace('{old_string}', old_string)
     .replace('{new_string}', new_string)
     .replace('{error}', error)
@@ -142,7 +138,7 @@ export async function FixLLMEditWithInstruction(
       schema: SearchReplaceEditSchema,
       abortSignal,
       model: DEFAULT_GEMINI_FLASH_MODEL,
-      systemInstruction: EDIT_SYS_PROMPT,
+      systemInstruction: editSysPrompt,
       promptId,
       maxAttempts: 1,
     },
@@ -0,0 +1,122 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  hasPromptTemplateTags,
+  renderPromptTemplate,
+} from './promptTemplate.js';
+
+const variables = {
+  cwd: '/work/app',
+  model: 'gemini-2.5-pro',
+  tools: ['read_file', 'run_shell_command'],
+  git: true,
+  sandbox: false,
+  empty: '',
+};
+
+describe('renderPromptTemplate', () => {
+  it('should insert variables and join lists', () => {
+    expect(
+      renderPromptTemplate(
+        'Working in {{cwd}} with {{ model }}. Tools: {{tools}}.',
+        variables,
+      ),
+    ).toBe(
+      'Working in /work/app with gemini-2.5-pro. Tools: read_file, run_shell_command.',
+    );
+  });
+
+  it('should keep or drop conditional sections', () => {
+    expect(
+      renderPromptTemplate(
+        '{{#if git}}git{{/if}}|{{#if sandbox}}sandbox{{else}}host{{/if}}|{{#if !sandbox}}unsandboxed{{/if}}|{{#if empty}}x{{/if}}',
+        variables,
+      ),
+    ).toBe('git|host|unsandboxed|');
+  });
+
+  it('should test list membership', () => {
+    expect(
+      renderPromptTemplate(
+        '{{#if tools.run_shell_command}}shell{{/if}}{{#if tools.web_fetch}}web{{/if}}',
+        variables,
+      ),
+    ).toBe('shell');
+  });
+
+  it('should support nested sections', () => {
+    expect(
+      renderPromptTemplate(
+        '{{#if git}}a{{#if sandbox}}b{{else}}c{{/if}}d{{/if}}',
+        variables,
+      ),
+    ).toBe('acd');
+  });
+
+  it('should drop the lines of block tags that stand alone', () => {
+    const template = [
+      '# Intro',
+      '{{#if git}}',
+      '# Git',
+      '{{else}}',
+      '# No Git',
+      '  {{/if}}  ',
+      '# Outro',
+    ].join('\n');
+
+    expect(renderPromptTemplate(template, variables)).toBe(
+      '# Intro\n# Git\n# Outro',
+    );
+  });
+
+  it('should leave tags for unknown variables untouched', () => {
+    expect(
+      renderPromptTemplate('Hello {{ user.name }} in {{cwd}}', variables),
+    ).toBe('Hello {{ user.name }} in /work/app');
+  });
+
+  it('should reject sections on unknown variables', () => {
+    expect(() =>
+      renderPromptTemplate('{{#if cwd.x}}{{/if}}', variables),
+    ).toThrow('Unknown prompt template variable "cwd.x" in {{#if}}.');
+  });
+
+  it('should reject unbalanced sections', () => {
+    expect(() => renderPromptTemplate('{{#if git}}', variables)).toThrow(
+      'Unclosed {{#if git}} in prompt template.',
+    );
+    expect(() => renderPromptTemplate('{{/if}}', variables)).toThrow(
+      'Unexpected {{/if}} in prompt template.',
+    );
+    expect(() =>
+      renderPromptTemplate('{{#if git}}{{else}}{{else}}{{/if}}', variables),
+    ).toThrow('Unexpected {{else}} in prompt template.');
+  });
+});
+
+describe('hasPromptTemplateTags', () => {
+  it('should only match template tags', () => {
+    expect(hasPromptTemplateTags('Hello {{cwd}}', variables)).toBe(true);
+    expect(hasPromptTemplateTags('{{#if git}}x{{/if}}', variables)).toBe(true);
+    expect(
+      hasPromptTemplateTags('Summarize in {maxOutputTokens} tokens', variables),
+    ).toBe(false);
+    expect(hasPromptTemplateTags('const x = { a: {} };', variables)).toBe(
+      false,
+    );
+  });
+
+  it('should ignore tags for unknown variables', () => {
+    expect(
+      hasPromptTemplateTags(
+        'Render <h1>{{ title }}</h1> in the view.',
+        variables,
+      ),
+    ).toBe(false);
+  });
+});
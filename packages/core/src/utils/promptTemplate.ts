@@ -0,0 +1,191 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * A minimal template language for prompt files:
+ *
+ * - `{{name}}` inserts a variable. Lists are joined with ", ".
+ * - `{{#if name}}...{{else}}...{{/if}}` keeps a section when the variable is
+ *   true, a non-empty string or a non-empty list. `{{#if !name}}` negates it,
+ *   and `{{#if list.item}}` tests whether a list contains `item`.
+ *
+ * Block tags on a line of their own are removed together with the line, so
+ * sections can be written one per line without leaving blank lines behind.
+ * A `{{name}}` tag for a variable that does not exist is left as it is, so
+ * prompts can quote other template languages such as Handlebars or Jinja.
+ */
+
+export type PromptTemplateValue = string | boolean | string[];
+export type PromptTemplateVariables = Record<string, PromptTemplateValue>;
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'variable'; name: string; raw: string }
+  | {
+      kind: 'if';
+      name: string;
+      negated: boolean;
+      then: TemplateNode[];
+      else: TemplateNode[];
+    };
+
+const TAG_PATTERN = /\{\{\s*(#if\s+!?[\w.-]+|else|\/if|[\w.-]+)\s*\}\}/g;
+const STANDALONE_BLOCK_TAG_PATTERN =
+  /^[ \t]*(\{\{\s*(?:#if\s+!?[\w.-]+|else|\/if)\s*\}\})[ \t]*\r?\n/gm;
+
+/**
+ * Returns true if the text contains a block tag or a tag for one of the given
+ * variables. Tags for other names are treated as plain text.
+ */
+export function hasPromptTemplateTags(
+  text: string,
+  variables: PromptTemplateVariables,
+): boolean {
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    const tag = match[1];
+    if (
+      tag.startsWith('#if') ||
+      tag === 'else' ||
+      tag === '/if' ||
+      lookup(variables, tag) !== undefined
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function parse(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Each open `{{#if}}` with the branch currently being filled.
+  const stack: Array<{
+    node: Extract<TemplateNode, { kind: 'if' }>;
+    inElse: boolean;
+  }> = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    if (!top) {
+      return root;
+    }
+    return top.inElse ? top.node.else : top.node.then;
+  };
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    if (match.index > lastIndex) {
+      current().push({
+        kind: 'text',
+        text: template.slice(lastIndex, match.index),
+      });
+    }
+    lastIndex = match.index + match[0].length;
+
+    const tag = match[1];
+    if (tag.startsWith('#if')) {
+      const condition = tag.slice(3).trim();
+      const node: Extract<TemplateNode, { kind: 'if' }> = {
+        kind: 'if',
+        name: condition.replace(/^!/, ''),
+        negated: condition.startsWith('!'),
+        then: [],
+        else: [],
+      };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        throw new Error('Unexpected {{else}} in prompt template.');
+      }
+      top.inElse = true;
+    } else if (tag === '/if') {
+      if (!stack.pop()) {
+        throw new Error('Unexpected {{/if}} in prompt template.');
+      }
+    } else {
+      current().push({ kind: 'variable', name: tag, raw: match[0] });
+    }
+  }
+  if (lastIndex < template.length) {
+    current().push({ kind: 'text', text: template.slice(lastIndex) });
+  }
+  if (stack.length > 0) {
+    throw new Error(
+      `Unclosed {{#if ${stack[stack.length - 1].node.name}}} in prompt template.`,
+    );
+  }
+  return root;
+}
+
+function lookup(
+  variables: PromptTemplateVariables,
+  name: string,
+): PromptTemplateValue | undefined {
+  if (Object.hasOwn(variables, name)) {
+    return variables[name];
+  }
+  const dot = name.indexOf('.');
+  if (dot > 0) {
+    const list = variables[name.slice(0, dot)];
+    if (Array.isArray(list)) {
+      return list.includes(name.slice(dot + 1));
+    }
+  }
+  return undefined;
+}
+
+function isTruthy(value: PromptTemplateValue): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  variables: PromptTemplateVariables,
+): string {
+  return nodes
+    .map((node) => {
+      switch (node.kind) {
+        case 'text':
+          return node.text;
+        case 'variable': {
+          const value = lookup(variables, node.name);
+          if (value === undefined) {
+            return node.raw;
+          }
+          return Array.isArray(value) ? value.join(', ') : String(value);
+        }
+        case 'if': {
+          const value = lookup(variables, node.name);
+          if (value === undefined) {
+            throw new Error(
+              `Unknown prompt template variable "${node.name}" in {{#if}}.`,
+            );
+          }
+          const matches = isTruthy(value) !== node.negated;
+          return renderNodes(matches ? node.then : node.else, variables);
+        }
+        default: {
+          const unreachable: never = node;
+          return unreachable;
+        }
+      }
+    })
+    .join('');
+}
+
+/**
+ * Renders a prompt template. Throws if the template is malformed or a section
+ * depends on a variable that was not provided.
+ */
+export function renderPromptTemplate(
+  template: string,
+  variables: PromptTemplateVariables,
+): string {
+  return renderNodes(
+    parse(template.replace(STANDALONE_BLOCK_TAG_PATTERN, '$1')),
+    variables,
+  );
+}
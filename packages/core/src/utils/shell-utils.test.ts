@@ -22,6 +22,9 @@ import {
   initializeShellParsers,
   stripShellWrapper,
   isShellInvocationAllowlisted,
+  matchesShellCommand,
+  parseShellCommands,
+  type ShellCommand,
 } from './shell-utils.js';
 import type { Config } from '../config/config.js';
 import type { AnyToolInvocation } from '../index.js';
@@ -531,6 +534,100 @@ describeWindowsOnly('PowerShell integration', () => {
   });
 });
 
+describe('parseShellCommands', () => {
+  it('should parse each command with its unquoted arguments', () => {
+    expect(
+      parseShellCommands(`/usr/bin/git  commit -m "a b" | (FOO=1 ls 'x')`),
+    ).toEqual([
+      {
+        program: 'git',
+        args: ['commit', '-m', 'a b'],
+        words: ['/usr/bin/git', 'commit', '-m', 'a b'],
+        text: '/usr/bin/git commit -m "a b"',
+      },
+      { program: 'ls', args: ['x'], words: ['ls', 'x'], text: `FOO=1 ls 'x'` },
+    ]);
+  });
+
+  it('should join the quoted parts of words', () => {
+    expect(parseShellCommands(`git pu''sh "a\\"b" c\\ d`)?.[0].words).toEqual([
+      'git',
+      'push',
+      'a"b',
+      'c d',
+    ]);
+  });
+
+  it('should return null for words only known when the command runs', () => {
+    expect(
+      parseShellCommands('$GIT "$X" $(echo a) ~/a *.ts {a,b} "a"$b')?.[0],
+    ).toMatchObject({
+      program: null,
+      words: [null, null, null, null, null, null, null],
+    });
+  });
+
+  it('should parse the command run by command, env and exec', () => {
+    expect(
+      parseShellCommands(
+        'command -p env -i FOO=1 -u BAR exec -a name git push',
+      )?.[0],
+    ).toMatchObject({ program: 'git', args: ['push'] });
+    expect(parseShellCommands('env FOO=1')?.[0].program).toBe('env');
+    expect(parseShellCommands('env -S "git push"')?.[0].words).toEqual([
+      null,
+      null,
+    ]);
+  });
+
+  it('should return null for commands that cannot be parsed', () => {
+    expect(parseShellCommands('echo "unterminated')).toBeNull();
+  });
+});
+
+describe('matchesShellCommand', () => {
+  let command: ShellCommand;
+
+  beforeEach(() => {
+    [command] = parseShellCommands('/usr/bin/git push origin main')!;
+  });
+
+  it('should match programs by name and subcommands by first argument', () => {
+    expect(matchesShellCommand({ program: ['git'] }, command)).toBe(true);
+    expect(
+      matchesShellCommand({ program: ['git'], subcommand: ['push'] }, command),
+    ).toBe(true);
+    expect(matchesShellCommand({ subcommand: ['origin'] }, command)).toBe(
+      false,
+    );
+  });
+
+  it('should match unknown words only when asked to', () => {
+    [command] = parseShellCommands('git $SUBCOMMAND')!;
+
+    expect(matchesShellCommand({ subcommand: ['push'] }, command)).toBe(false);
+    expect(matchesShellCommand({ subcommand: ['push'] }, command, true)).toBe(
+      true,
+    );
+    expect(
+      matchesShellCommand({ prefix: ['git', 'push'] }, command, true),
+    ).toBe(true);
+  });
+
+  it('should match prefixes word by word against the command as written', () => {
+    expect(
+      matchesShellCommand({ prefix: ['/usr/bin/git', 'push'] }, command),
+    ).toBe(true);
+    expect(matchesShellCommand({ prefix: ['git', 'push'] }, command)).toBe(
+      false,
+    );
+    expect(
+      matchesShellCommand({ prefix: ['/usr/bin/git', 'pu'] }, command),
+    ).toBe(false);
+    expect(matchesShellCommand({ prefix: [] }, command)).toBe(false);
+  });
+});
+
 describe('stripShellWrapper', () => {
   it('should strip sh -c with quotes', () => {
     expect(stripShellWrapper('sh -c "ls -l"')).toEqual('ls -l');
@@ -613,6 +710,22 @@ describe('isShellInvocationAllowlisted', () => {
       ]),
     ).toBe(true);
   });
+
+  it('should compare allowlist prefixes word by word', () => {
+    const allowed = ['run_shell_command(git log --oneline)'];
+    expect(
+      isShellInvocationAllowlisted(
+        createInvocation(`git  'log' --oneline -5`),
+        allowed,
+      ),
+    ).toBe(true);
+    expect(
+      isShellInvocationAllowlisted(
+        createInvocation('git log --onelines'),
+        allowed,
+      ),
+    ).toBe(false);
+  });
 });
 
 describe('escapeShellArg', () => {
@@ -8,7 +8,6 @@ import type { AnyToolInvocation } from '../index.js';
 import type { Config } from '../config/config.js';
 import os from 'node:os';
 import { quote } from 'shell-quote';
-import { doesToolInvocationMatch } from './tool-utils.js';
 import {
   spawn,
   spawnSync,
@@ -110,6 +109,11 @@ export async function initializeShellParsers(): Promise<void> {
 interface ParsedCommandDetail {
   name: string;
   text: string;
+  /**
+   * The words of the command, unquoted, the name as written first. Words
+   * whose value is only known when the command runs are null.
+   */
+  words: Array<string | null>;
 }
 
 interface CommandParseResult {
@@ -201,6 +205,83 @@ function normalizeCommandName(raw: string): string {
   return trimmed.split(/[\\/]/).pop() ?? trimmed;
 }
 
+// Unquoted characters that make the shell expand a word into other words.
+const EXPANDING_WORD_PATTERN = /^~|[*?[{]/;
+
+/**
+ * Returns the value the shell passes for a word, joining its quoted and
+ * unquoted parts. Returns null when the value is only known when the command
+ * runs, because the word contains an expansion, a substitution or a pattern.
+ */
+function getWordValue(node: Node): string | null {
+  switch (node.type) {
+    case 'command_name': {
+      const child = node.namedChild(0);
+      return child ? getWordValue(child) : null;
+    }
+    case 'word':
+    case 'number':
+      if (EXPANDING_WORD_PATTERN.test(node.text)) {
+        return null;
+      }
+      return node.text.replace(/\\\n/g, '').replace(/\\(.)/g, '$1');
+    case 'raw_string':
+      return node.text.slice(1, -1);
+    case 'string':
+    case 'concatenation': {
+      let value = '';
+      for (let i = 0; i < node.namedChildCount; i += 1) {
+        const child = node.namedChild(i);
+        if (!child) {
+          return null;
+        }
+        if (node.type === 'string') {
+          if (child.type !== 'string_content') {
+            return null;
+          }
+          value += child.text
+            .replace(/\\\n/g, '')
+            .replace(/\\([$`"\\])/g, '$1');
+        } else {
+          const part = getWordValue(child);
+          if (part === null) {
+            return null;
+          }
+          value += part;
+        }
+      }
+      return value;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Splits text into words on whitespace outside of quotes, removing the
+ * quotes. Used where no syntax tree is available.
+ */
+function splitWords(text: string): string[] {
+  const words: string[] = [];
+  for (const match of text.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)) {
+    words.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return words;
+}
+
+function extractWordsFromNode(
+  node: Node,
+  source: string,
+): Array<string | null> {
+  if (node.type !== 'command') {
+    return splitWords(source.slice(node.startIndex, node.endIndex));
+  }
+  const nameNode = node.childForFieldName('name');
+  return [nameNode, ...node.childrenForFieldName('argument')]
+    .filter((child): child is Node => child !== null)
+    .map(getWordValue);
+}
+
 function extractNameFromNode(node: Node): string | null {
   switch (node.type) {
     case 'command': {
@@ -242,6 +323,7 @@ function collectCommandDetails(
       details.push({
         name: commandName,
         text: source.slice(current.startIndex, current.endIndex).trim(),
+        words: extractWordsFromNode(current, source),
       });
     }
 
@@ -372,7 +454,7 @@ function parsePowerShellCommandDetails(
     }
 
     const details = (parsed.commands ?? [])
-      .map((commandDetail) => {
+      .map((commandDetail): ParsedCommandDetail | null => {
         if (!commandDetail || typeof commandDetail.name !== 'string') {
           return null;
         }
@@ -386,6 +468,7 @@ function parsePowerShellCommandDetails(
         return {
           name,
           text,
+          words: splitWords(text),
         };
       })
       .filter((detail): detail is ParsedCommandDetail => detail !== null);
@@ -527,6 +610,206 @@ export function getCommandRoots(command: string): string[] {
   return parsed.details.map((detail) => detail.name).filter(Boolean);
 }
 
+/**
+ * A single command of a shell command line. Commands joined with pipes, `&&`,
+ * `||` or `;`, and commands in subshells or substitutions, are parsed
+ * separately.
+ */
+export interface ShellCommand {
+  /** The program name, without quotes or directory. */
+  program: string | null;
+  /** The arguments, without quotes. */
+  args: Array<string | null>;
+  /**
+   * The words of the command, unquoted, the program as written first. Words
+   * whose value is only known when the command runs, such as ones with
+   * expansions or substitutions, are null.
+   */
+  words: Array<string | null>;
+  /** The source text of the command, with whitespace collapsed. */
+  text: string;
+}
+
+/**
+ * Conditions on a {@link ShellCommand}. A command matches when all given
+ * conditions hold.
+ */
+export interface ShellCommandMatcher {
+  /** Program names, one of which must be the program. */
+  program?: string[];
+  /** Values, one of which must be the first argument. */
+  subcommand?: string[];
+  /** Words the command must start with, the program as written first. */
+  prefix?: string[];
+}
+
+interface CommandWrapperOptions {
+  /** Options that take no value. */
+  flags: RegExp;
+  /** Options whose value is the next word. */
+  withValue?: RegExp;
+  /** Whether `NAME=value` words set variables for the command. */
+  assignments?: boolean;
+}
+
+/** Programs that run the command given as their arguments. */
+const COMMAND_WRAPPERS = new Map<string, CommandWrapperOptions>([
+  ['command', { flags: /^-[pvV]+$/ }],
+  ['exec', { flags: /^-[cl]+$/, withValue: /^-[cl]*a$/ }],
+  [
+    'env',
+    {
+      flags:
+        /^(-[i0]*|-[i0]*[uC].+|--ignore-environment|--null|--(unset|chdir)=.*)$/,
+      withValue: /^-[i0]*[uC]$/,
+      assignments: true,
+    },
+  ],
+]);
+
+/**
+ * Removes `command`, `env` and `exec`, with their options, from the start of
+ * a command so the command they run is matched. When an option cannot be
+ * followed, the words are returned as unknown.
+ */
+function stripCommandWrappers(
+  words: Array<string | null>,
+): Array<string | null> {
+  let start = 0;
+  for (;;) {
+    const wrapper = words[start];
+    const options = wrapper ? COMMAND_WRAPPERS.get(wrapper) : undefined;
+    if (!options) {
+      return words.slice(start);
+    }
+    let index = start + 1;
+    while (index < words.length) {
+      const word = words[index];
+      if (word === '--') {
+        index += 1;
+        break;
+      }
+      if (word !== null && !word.startsWith('-')) {
+        if (!options.assignments || !/^[A-Za-z_]\w*=/.test(word)) {
+          break;
+        }
+      } else if (word !== null && options.withValue?.test(word)) {
+        index += 1;
+      } else if (word === null || !options.flags.test(word)) {
+        return words.slice(index).map(() => null);
+      }
+      index += 1;
+    }
+    if (index >= words.length) {
+      // Without a command, the wrapper runs on its own.
+      return words.slice(start);
+    }
+    start = index;
+  }
+}
+
+/**
+ * Parses a shell command line into its individual commands.
+ *
+ * @returns The commands, or null if the command line cannot be parsed
+ * safely.
+ */
+export function parseShellCommands(command: string): ShellCommand[] | null {
+  const parsed = parseCommandDetails(command);
+  if (!parsed || parsed.hasError) {
+    return null;
+  }
+
+  return parsed.details
+    .map((detail) => {
+      const words = stripCommandWrappers(detail.words);
+      const [program] = words;
+      return {
+        program:
+          program === undefined
+            ? detail.name
+            : program && normalizeCommandName(program),
+        args: words.slice(1),
+        words,
+        text: detail.text.trim().replace(/\s+/g, ' '),
+      };
+    })
+    .filter((parsedCommand) => parsedCommand.text);
+}
+
+/**
+ * Checks whether a parsed command satisfies a matcher.
+ *
+ * @param unknownWordsMatch Whether a word whose value is only known when the
+ * command runs satisfies a condition on it. Checks that allow a command leave
+ * this false, and checks that deny or ask about one set it.
+ */
+export function matchesShellCommand(
+  matcher: ShellCommandMatcher,
+  command: ShellCommand,
+  unknownWordsMatch = false,
+): boolean {
+  const wordMatches = (word: string | null, values: string[]) =>
+    word === null ? unknownWordsMatch : values.includes(word);
+
+  if (matcher.program && !wordMatches(command.program, matcher.program)) {
+    return false;
+  }
+  if (
+    matcher.subcommand &&
+    (command.args.length === 0 ||
+      !wordMatches(command.args[0], matcher.subcommand))
+  ) {
+    return false;
+  }
+  if (matcher.prefix) {
+    const { prefix } = matcher;
+    if (
+      prefix.length === 0 ||
+      prefix.length > command.words.length ||
+      prefix.some((word, index) => !wordMatches(command.words[index], [word]))
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Checks a parsed command against `tools.core` / `tools.exclude` style
+ * patterns: a shell tool name matches any command, and a pattern such as
+ * `run_shell_command(git push)` matches commands that start with the words
+ * `git push`.
+ */
+function matchesShellToolPatterns(
+  command: ShellCommand,
+  patterns: string[],
+  unknownWordsMatch = false,
+): boolean {
+  return patterns.some((pattern) => {
+    if (SHELL_TOOL_NAMES.includes(pattern)) {
+      return true;
+    }
+    const openParen = pattern.indexOf('(');
+    if (
+      openParen === -1 ||
+      !pattern.endsWith(')') ||
+      !SHELL_TOOL_NAMES.includes(pattern.substring(0, openParen))
+    ) {
+      return false;
+    }
+    return matchesShellCommand(
+      {
+        prefix: splitWords(
+          pattern.substring(openParen + 1, pattern.length - 1),
+        ),
+      },
+      command,
+      unknownWordsMatch,
+    );
+  });
+}
+
 export function stripShellWrapper(command: string): string {
   const pattern =
     /^\s*(?:(?:sh|bash|zsh)\s+-c|cmd\.exe\s+\/c|powershell(?:\.exe)?\s+(?:-NoProfile\s+)?-Command|pwsh(?:\.exe)?\s+(?:-NoProfile\s+)?-Command)\s+/i;
@@ -586,8 +869,8 @@ export function checkCommandPermissions(
   blockReason?: string;
   isHardDenial?: boolean;
 } {
-  const parseResult = parseCommandDetails(command);
-  if (!parseResult || parseResult.hasError) {
+  const commandsToValidate = parseShellCommands(command);
+  if (!commandsToValidate) {
     return {
       allAllowed: false,
       disallowedCommands: [command],
@@ -596,14 +879,6 @@ export function checkCommandPermissions(
     };
   }
 
-  const normalize = (cmd: string): string => cmd.trim().replace(/\s+/g, ' ');
-  const commandsToValidate = parseResult.details
-    .map((detail) => normalize(detail.text))
-    .filter(Boolean);
-  const invocation: AnyToolInvocation & { params: { command: string } } = {
-    params: { command: '' },
-  } as AnyToolInvocation & { params: { command: string } };
-
   // 1. Blocklist Check (Highest Priority)
   const excludeTools = config.getExcludeTools() || [];
   const isWildcardBlocked = SHELL_TOOL_NAMES.some((name) =>
@@ -613,21 +888,18 @@ export function checkCommandPermissions(
   if (isWildcardBlocked) {
     return {
       allAllowed: false,
-      disallowedCommands: commandsToValidate,
+      disallowedCommands: commandsToValidate.map((cmd) => cmd.text),
       blockReason: 'Shell tool is globally disabled in configuration',
       isHardDenial: true,
     };
   }
 
   for (const cmd of commandsToValidate) {
-    invocation.params['command'] = cmd;
-    if (
-      doesToolInvocationMatch('run_shell_command', invocation, excludeTools)
-    ) {
+    if (matchesShellToolPatterns(cmd, excludeTools, true)) {
       return {
         allAllowed: false,
-        disallowedCommands: [cmd],
-        blockReason: `Command '${cmd}' is blocked by configuration`,
+        disallowedCommands: [cmd.text],
+        blockReason: `Command '${cmd.text}' is blocked by configuration`,
         isHardDenial: true,
       };
     }
@@ -656,22 +928,15 @@ export function checkCommandPermissions(
     );
 
     for (const cmd of commandsToValidate) {
-      invocation.params['command'] = cmd;
-      const isSessionAllowed = doesToolInvocationMatch(
-        'run_shell_command',
-        invocation,
-        [...normalizedSessionAllowlist],
-      );
+      const isSessionAllowed = matchesShellToolPatterns(cmd, [
+        ...normalizedSessionAllowlist,
+      ]);
       if (isSessionAllowed) continue;
 
-      const isGloballyAllowed = doesToolInvocationMatch(
-        'run_shell_command',
-        invocation,
-        coreTools,
-      );
+      const isGloballyAllowed = matchesShellToolPatterns(cmd, coreTools);
       if (isGloballyAllowed) continue;
 
-      disallowedCommands.push(cmd);
+      disallowedCommands.push(cmd.text);
     }
 
     if (disallowedCommands.length > 0) {
@@ -693,14 +958,9 @@ export function checkCommandPermissions(
 
     if (hasSpecificAllowedCommands) {
       for (const cmd of commandsToValidate) {
-        invocation.params['command'] = cmd;
-        const isGloballyAllowed = doesToolInvocationMatch(
-          'run_shell_command',
-          invocation,
-          coreTools,
-        );
+        const isGloballyAllowed = matchesShellToolPatterns(cmd, coreTools);
         if (!isGloballyAllowed) {
-          disallowedCommands.push(cmd);
+          disallowedCommands.push(cmd.text);
         }
       }
       if (disallowedCommands.length > 0) {
@@ -825,25 +1085,12 @@ export function isShellInvocationAllowlisted(
 
   const command = commandValue.trim();
 
-  const parseResult = parseCommandDetails(command);
-  if (!parseResult || parseResult.hasError) {
-    return false;
-  }
-
-  const normalize = (cmd: string): string => cmd.trim().replace(/\s+/g, ' ');
-  const commandsToValidate = parseResult.details
-    .map((detail) => normalize(detail.text))
-    .filter(Boolean);
-
-  if (commandsToValidate.length === 0) {
+  const commandsToValidate = parseShellCommands(command);
+  if (!commandsToValidate || commandsToValidate.length === 0) {
     return false;
   }
 
   return commandsToValidate.every((commandSegment) =>
-    doesToolInvocationMatch(
-      SHELL_TOOL_NAMES[0],
-      { params: { command: commandSegment } } as AnyToolInvocation,
-      allowedPatterns,
-    ),
+    matchesShellToolPatterns(commandSegment, allowedPatterns),
   );
 }
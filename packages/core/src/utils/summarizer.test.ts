@@ -10,6 +10,7 @@ import { GeminiClient } from '../core/client.js';
 import { Config } from '../config/config.js';
 import { summarizeToolOutput, llmSummarizer } from './summarizer.js';
 import type { ToolResult } from '../tools/tools.js';
+import { PromptProfileService } from '../services/promptProfileService.js';
 
 // Mock GeminiClient and Config constructor
 vi.mock('../core/client.js');
@@ -112,7 +113,13 @@ describe('summarizers', () => {
         candidates: [{ content: { parts: [{ text: summary }] } }],
       });
 
-      await summarizeToolOutput(longText, mockGeminiClient, abortSignal, 1000);
+      await summarizeToolOutput(
+        longText,
+        mockGeminiClient,
+        abortSignal,
+        1000,
+        new PromptProfileService(() => [], 'original'),
+      );
 
       const expectedPrompt = `Summarize the following tool output to be a maximum of 1000 tokens. The summary should be concise and capture the main points of the tool output.
 
@@ -125,8 +132,7 @@ The summarization should be done based on the content that is provided. Here are
 Text to summarize:
 "${longText}"
 
-Return the summary string which should first contain an overall summarization of text followed by the full stack trace of errors and warnings in the tool output.
-`;
+Return the summary string which should first contain an overall summarization of text followed by the full stack trace of errors and warnings in the tool output.`;
       const calledWith = (mockGeminiClient.generateContent as Mock).mock
         .calls[0];
       const contents = calledWith[0];
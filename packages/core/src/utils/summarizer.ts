@@ -14,23 +14,14 @@ import type { GeminiClient } from '../core/client.js';
 import { DEFAULT_GEMINI_FLASH_LITE_MODEL } from '../config/models.js';
 import { getResponseText, partToString } from './partUtils.js';
 import { debugLogger } from './debugLogger.js';
-import path from 'node:path';
-import fs from 'node:fs';
+import type { PromptProfileService } from '../services/promptProfileService.js';
+import { readDefaultPrompt } from '../services/promptProfileService.js';
 
 export type Summarizer = (
   result: ToolResult,
   geminiClient: GeminiClient,
   abortSignal: AbortSignal,
 ) => Promise<string>;
-export const SUMMARIZE_TOOL_OUTPUT_PROMPT = fs
-  .readFileSync(
-    path.join(
-      globalThis.__dirname,
-      'hacked_prompts_source/SUMMARIZE_TOOL_OUTPUT_PROMPT.txt',
-    ),
-    'utf8',
-  )
-  .trim();
 
 export const llmSummarizer: Summarizer = (result, geminiClient, abortSignal) =>
   summarizeToolOutput(
@@ -44,16 +35,19 @@ export async function summarizeToolOutput(
   geminiClient: GeminiClient,
   abortSignal: AbortSignal,
   maxOutputTokens: number = 2000,
+  promptProfiles?: PromptProfileService,
 ): Promise<string> {
   // There is going to be a slight difference here since we are comparing length of string with maxOutputTokens.
   // This is meant to be a ballpark estimation of if we need to summarize the tool output.
   if (!textToSummarize || textToSummarize.length < maxOutputTokens) {
     return textToSummarize;
   }
-  const prompt = SUMMARIZE_TOOL_OUTPUT_PROMPT.replace(
-    '{maxOutputTokens}',
-    String(maxOutputTokens),
-  ).replace('{textToSummarize}', textToSummarize);
+  const summarizePrompt =
+    promptProfiles?.getPrompt('SUMMARIZE_TOOL_OUTPUT_PROMPT') ??
+    readDefaultPrompt('SUMMARIZE_TOOL_OUTPUT_PROMPT');
+  const prompt = summarizePrompt
+    .replace('{maxOutputTokens}', String(maxOutputTokens))
+    .replace('{textToSummarize}', textToSummarize);
 
   const contents: Content[] = [{ role: 'user', parts: [{ text: prompt }] }];
   const toolOutputSummarizerConfig: GenerateContentConfig = {
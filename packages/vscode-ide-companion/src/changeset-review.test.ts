@@ -0,0 +1,178 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import * as vscode from 'vscode';
+import {
+  ChangesetReview,
+  computeHunks,
+  revertHunk,
+  type ReviewItem,
+} from './changeset-review.js';
+import type { DiffContentProvider } from './diff-manager.js';
+
+vi.mock('./extension.js', () => ({ DIFF_SCHEME: 'gemini-diff' }));
+
+vi.mock('vscode', () => {
+  class Uri {
+    constructor(
+      readonly scheme: string,
+      readonly fsPath: string,
+      readonly query = '',
+    ) {}
+    static file(path: string) {
+      return new Uri('file', path);
+    }
+    static from({
+      scheme,
+      path,
+      query,
+    }: {
+      scheme: string;
+      path: string;
+      query?: string;
+    }) {
+      return new Uri(scheme, path, query);
+    }
+    toString() {
+      return `${this.scheme}:${this.fsPath}?${this.query}`;
+    }
+  }
+  return {
+    Uri,
+    EventEmitter: vi.fn(() => ({
+      event: vi.fn(),
+      fire: vi.fn(),
+      dispose: vi.fn(),
+    })),
+    Range: vi.fn(),
+    WorkspaceEdit: vi.fn(),
+    TreeItem: vi.fn(),
+    ThemeIcon: vi.fn(),
+    TreeItemCollapsibleState: { None: 0, Collapsed: 1, Expanded: 2 },
+    workspace: {
+      onDidChangeTextDocument: vi.fn(() => ({ dispose: vi.fn() })),
+      fs: { readFile: vi.fn() },
+      textDocuments: [],
+      applyEdit: vi.fn(),
+    },
+    commands: { executeCommand: vi.fn() },
+    window: { tabGroups: { all: [], close: vi.fn() } },
+  };
+});
+
+describe('computeHunks', () => {
+  it('should find each run of changed lines', () => {
+    const original = 'a\nb\nc\nd\ne\n';
+    const modified = 'a\nB\nc\nd\nd2\ne\n';
+
+    expect(computeHunks(original, modified)).toEqual([
+      {
+        originalStart: 1,
+        originalLines: ['b'],
+        modifiedStart: 1,
+        modifiedLines: ['B'],
+      },
+      {
+        originalStart: 4,
+        originalLines: [],
+        modifiedStart: 4,
+        modifiedLines: ['d2'],
+      },
+    ]);
+  });
+
+  it('should revert a single hunk', () => {
+    const original = 'a\nb\nc\nd\ne\n';
+    const modified = 'a\nB\nc\nd\nd2\ne\n';
+    const [, insertion] = computeHunks(original, modified);
+
+    expect(revertHunk(modified, insertion)).toBe('a\nB\nc\nd\ne\n');
+  });
+});
+
+describe('ChangesetReview', () => {
+  let review: ChangesetReview;
+  let notify: ReturnType<typeof vi.fn>;
+
+  const fileItem = (filePath: string) =>
+    review
+      .getChildren()
+      .find((item) => item.type === 'file' && item.file.filePath === filePath)!;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    notify = vi.fn();
+    vi.mocked(vscode.workspace.fs.readFile).mockImplementation(async (uri) => {
+      if (uri.fsPath === '/ws/a.ts') {
+        return new TextEncoder().encode('one\ntwo\nthree\n');
+      }
+      throw new Error('File not found');
+    });
+    review = new ChangesetReview(
+      vi.fn(),
+      {
+        setContent: vi.fn(),
+        deleteContent: vi.fn(),
+      } as unknown as DiffContentProvider,
+      notify,
+    );
+    await review.start('changeset-1', [
+      { filePath: '/ws/a.ts', newContent: 'ONE\ntwo\nTHREE\n' },
+      { filePath: '/ws/b.ts', newContent: 'new file\n' },
+    ]);
+  });
+
+  it('should report every file in one notification once all are decided', async () => {
+    const [firstHunk] = review.getChildren(fileItem('/ws/a.ts'));
+    await review.rejectHunk(firstHunk);
+    await review.acceptFile(fileItem('/ws/a.ts'));
+    expect(notify).not.toHaveBeenCalled();
+
+    await review.rejectFile(fileItem('/ws/b.ts'));
+
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(notify).toHaveBeenCalledWith({
+      jsonrpc: '2.0',
+      method: 'ide/changesetClosed',
+      params: {
+        changesetId: 'changeset-1',
+        files: [
+          {
+            filePath: '/ws/a.ts',
+            status: 'accepted',
+            content: 'one\ntwo\nTHREE\n',
+          },
+          { filePath: '/ws/b.ts', status: 'rejected' },
+        ],
+      },
+    });
+    expect(review.getChildren()).toEqual([]);
+  });
+
+  it('should reject files whose changes were all reverted', async () => {
+    for (const hunk of review.getChildren(fileItem('/ws/a.ts')).reverse()) {
+      await review.rejectHunk(hunk as ReviewItem);
+    }
+
+    await review.finish();
+
+    expect(notify.mock.calls[0][0].params.files).toEqual([
+      { filePath: '/ws/a.ts', status: 'rejected' },
+      { filePath: '/ws/b.ts', status: 'accepted', content: 'new file\n' },
+    ]);
+  });
+
+  it('should leave out files closed from the CLI', async () => {
+    await expect(review.removeFile('/ws/b.ts')).resolves.toBe('new file\n');
+
+    await review.discard();
+
+    expect(notify.mock.calls[0][0].params.files).toEqual([
+      { filePath: '/ws/a.ts', status: 'rejected' },
+    ]);
+  });
+});
@@ -0,0 +1,552 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  IdeChangesetClosedNotificationSchema,
+  type ChangesetFileResultSchema,
+} from '@google/gemini-cli-core/src/ide/types.js';
+import { type JSONRPCNotification } from '@modelcontextprotocol/sdk/types.js';
+import * as path from 'node:path';
+import * as vscode from 'vscode';
+import type { z } from 'zod';
+import type { DiffContentProvider } from './diff-manager.js';
+import { DIFF_SCHEME } from './extension.js';
+
+// Above this many line pairs, the changed lines are shown as a single hunk
+// instead of being diffed.
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * A run of changed lines. Line numbers are 0-based.
+ */
+export interface Hunk {
+  originalStart: number;
+  originalLines: string[];
+  modifiedStart: number;
+  modifiedLines: string[];
+}
+
+type FileStatus = 'pending' | 'accepted' | 'rejected';
+
+interface ReviewFile {
+  filePath: string;
+  originalContent: string;
+  isNewFile: boolean;
+  // The proposed content, including the user's edits and reverted hunks.
+  content: string;
+  status: FileStatus;
+  rightDocUri: vscode.Uri;
+  acceptedHunks: Set<string>;
+}
+
+interface ReviewSession {
+  changesetId: string;
+  files: ReviewFile[];
+}
+
+export type ReviewItem =
+  | { type: 'file'; file: ReviewFile }
+  | { type: 'hunk'; file: ReviewFile; hunk: Hunk };
+
+/**
+ * Computes the hunks that turn `original` into `modified`, without context
+ * lines.
+ */
+export function computeHunks(original: string, modified: string): Hunk[] {
+  const a = original.split('\n');
+  const b = modified.split('\n');
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const aMid = a.slice(prefix, a.length - suffix);
+  const bMid = b.slice(prefix, b.length - suffix);
+  if (aMid.length === 0 && bMid.length === 0) {
+    return [];
+  }
+  if (aMid.length * bMid.length > MAX_DIFF_CELLS) {
+    return [
+      {
+        originalStart: prefix,
+        originalLines: aMid,
+        modifiedStart: prefix,
+        modifiedLines: bMid,
+      },
+    ];
+  }
+
+  // lcs[i][j] is the length of the longest common subsequence of aMid[i:]
+  // and bMid[j:].
+  const lcs = Array.from({ length: aMid.length + 1 }, () =>
+    new Array<number>(bMid.length + 1).fill(0),
+  );
+  for (let i = aMid.length - 1; i >= 0; i--) {
+    for (let j = bMid.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        aMid[i] === bMid[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const hunks: Hunk[] = [];
+  let current: Hunk | undefined;
+  let i = 0;
+  let j = 0;
+  while (i < aMid.length || j < bMid.length) {
+    if (i < aMid.length && j < bMid.length && aMid[i] === bMid[j]) {
+      current = undefined;
+      i++;
+      j++;
+      continue;
+    }
+    if (!current) {
+      current = {
+        originalStart: prefix + i,
+        originalLines: [],
+        modifiedStart: prefix + j,
+        modifiedLines: [],
+      };
+      hunks.push(current);
+    }
+    if (
+      j < bMid.length &&
+      (i >= aMid.length || lcs[i][j + 1] >= lcs[i + 1][j])
+    ) {
+      current.modifiedLines.push(bMid[j++]);
+    } else {
+      current.originalLines.push(aMid[i++]);
+    }
+  }
+  return hunks;
+}
+
+/**
+ * Returns `modified` with one of its hunks replaced by the original lines.
+ */
+export function revertHunk(modified: string, hunk: Hunk): string {
+  const lines = modified.split('\n');
+  lines.splice(
+    hunk.modifiedStart,
+    hunk.modifiedLines.length,
+    ...hunk.originalLines,
+  );
+  return lines.join('\n');
+}
+
+function getHunkKey(hunk: Hunk): string {
+  return JSON.stringify([
+    hunk.originalStart,
+    hunk.originalLines,
+    hunk.modifiedLines,
+  ]);
+}
+
+async function readOriginalContent(
+  fileUri: vscode.Uri,
+): Promise<string | undefined> {
+  try {
+    const bytes = await vscode.workspace.fs.readFile(fileUri);
+    return new TextDecoder().decode(bytes);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Manages a review of the changes to several files at once. The files and
+ * their hunks are shown in a tree, where each file and hunk can be accepted
+ * or rejected. The outcome of every file is sent to the CLI in a single
+ * `ide/changesetClosed` notification when the review is done.
+ */
+export class ChangesetReview implements vscode.TreeDataProvider<ReviewItem> {
+  private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<
+    ReviewItem | undefined
+  >();
+  readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+  private session: ReviewSession | undefined;
+  private readonly subscriptions: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly log: (message: string) => void,
+    private readonly diffContentProvider: DiffContentProvider,
+    private readonly notify: (notification: JSONRPCNotification) => void,
+  ) {
+    this.subscriptions.push(
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        const file = this.findFile(event.document.uri);
+        if (file) {
+          file.content = event.document.getText();
+          this.onDidChangeTreeDataEmitter.fire(undefined);
+        }
+      }),
+    );
+  }
+
+  dispose() {
+    for (const subscription of this.subscriptions) {
+      subscription.dispose();
+    }
+  }
+
+  /**
+   * Starts a review of the given files and shows the review tree. A review
+   * that is still open is discarded first.
+   */
+  async start(
+    changesetId: string,
+    files: Array<{ filePath: string; newContent: string }>,
+  ) {
+    if (this.session) {
+      await this.discard();
+    }
+
+    const reviewFiles: ReviewFile[] = [];
+    for (const { filePath, newContent } of files) {
+      const originalContent = await readOriginalContent(
+        vscode.Uri.file(filePath),
+      );
+      const rightDocUri = vscode.Uri.from({
+        scheme: DIFF_SCHEME,
+        path: filePath,
+        query: `changeset=${changesetId}`,
+      });
+      this.diffContentProvider.setContent(rightDocUri, newContent);
+      reviewFiles.push({
+        filePath,
+        originalContent: originalContent ?? '',
+        isNewFile: originalContent === undefined,
+        content: newContent,
+        status: 'pending',
+        rightDocUri,
+        acceptedHunks: new Set(),
+      });
+    }
+    this.session = { changesetId, files: reviewFiles };
+    this.log(
+      `Started review of changeset ${changesetId} with ${files.length} files`,
+    );
+
+    this.onDidChangeTreeDataEmitter.fire(undefined);
+    await vscode.commands.executeCommand(
+      'setContext',
+      'gemini.changeset.isActive',
+      true,
+    );
+    await vscode.commands.executeCommand('gemini.changesetReview.focus');
+    if (reviewFiles.length > 0) {
+      await this.openFile(reviewFiles[0]);
+    }
+  }
+
+  /**
+   * Returns whether the document is the proposed side of a file under review.
+   */
+  hasDocument(uri: vscode.Uri): boolean {
+    return !!this.findFile(uri);
+  }
+
+  /**
+   * Returns whether the file is part of the review.
+   */
+  hasFile(filePath: string): boolean {
+    return !!this.session?.files.some((file) => file.filePath === filePath);
+  }
+
+  getTreeItem(item: ReviewItem): vscode.TreeItem {
+    const { file } = item;
+    if (item.type === 'file') {
+      const treeItem = new vscode.TreeItem(
+        path.basename(file.filePath),
+        file.status === 'pending'
+          ? vscode.TreeItemCollapsibleState.Expanded
+          : vscode.TreeItemCollapsibleState.Collapsed,
+      );
+      treeItem.resourceUri = vscode.Uri.file(file.filePath);
+      treeItem.description = [
+        vscode.workspace.asRelativePath(path.dirname(file.filePath)),
+        file.isNewFile ? 'new' : undefined,
+        file.status === 'pending' ? undefined : file.status,
+      ]
+        .filter(Boolean)
+        .join(' · ');
+      treeItem.iconPath = new vscode.ThemeIcon(
+        file.status === 'accepted'
+          ? 'check'
+          : file.status === 'rejected'
+            ? 'close'
+            : 'diff',
+      );
+      treeItem.contextValue = `changesetFile.${file.status}`;
+      treeItem.command = {
+        command: 'gemini.changeset.openFile',
+        title: 'Open Diff',
+        arguments: [item],
+      };
+      return treeItem;
+    }
+
+    const { hunk } = item;
+    const firstLine = hunk.modifiedStart + 1;
+    const lastLine =
+      hunk.modifiedStart + Math.max(hunk.modifiedLines.length, 1);
+    const treeItem = new vscode.TreeItem(
+      firstLine === lastLine
+        ? `Line ${firstLine}`
+        : `Lines ${firstLine}–${lastLine}`,
+      vscode.TreeItemCollapsibleState.None,
+    );
+    const preview = [...hunk.modifiedLines, ...hunk.originalLines].find(
+      (line) => line.trim() !== '',
+    );
+    treeItem.description = `+${hunk.modifiedLines.length} −${hunk.originalLines.length}${preview ? ` ${preview.trim()}` : ''}`;
+    const isAccepted = file.acceptedHunks.has(getHunkKey(hunk));
+    treeItem.iconPath = new vscode.ThemeIcon(
+      isAccepted ? 'pass-filled' : 'circle-outline',
+    );
+    treeItem.contextValue =
+      file.status === 'pending'
+        ? `changesetHunk.${isAccepted ? 'accepted' : 'pending'}`
+        : 'changesetHunk.decided';
+    treeItem.command = {
+      command: 'gemini.changeset.openFile',
+      title: 'Open Diff',
+      arguments: [item],
+    };
+    return treeItem;
+  }
+
+  getChildren(item?: ReviewItem): ReviewItem[] {
+    if (!this.session) {
+      return [];
+    }
+    if (!item) {
+      return this.session.files.map((file) => ({ type: 'file', file }));
+    }
+    if (item.type === 'hunk') {
+      return [];
+    }
+    return computeHunks(item.file.originalContent, item.file.content).map(
+      (hunk) => ({ type: 'hunk', file: item.file, hunk }),
+    );
+  }
+
+  /**
+   * Opens the diff of a file under review, revealing the hunk if one is given.
+   */
+  async openFile(target: ReviewFile | ReviewItem) {
+    const file = 'file' in target ? target.file : target;
+    const line = 'hunk' in target ? target.hunk.modifiedStart : 0;
+    const fileUri = vscode.Uri.file(file.filePath);
+    const leftDocUri = file.isNewFile
+      ? vscode.Uri.from({ scheme: 'untitled', path: file.filePath })
+      : fileUri;
+
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      leftDocUri,
+      file.rightDocUri,
+      `${path.basename(file.filePath)} ↔ Proposed`,
+      {
+        preview: true,
+        preserveFocus: false,
+        selection: new vscode.Range(line, 0, line, 0),
+      },
+    );
+    await vscode.commands.executeCommand(
+      'workbench.action.files.setActiveEditorWriteableInSession',
+    );
+  }
+
+  /**
+   * Marks a hunk as reviewed. Its changes are kept.
+   */
+  acceptHunk(item: ReviewItem | undefined) {
+    if (item?.type !== 'hunk') {
+      return;
+    }
+    item.file.acceptedHunks.add(getHunkKey(item.hunk));
+    this.onDidChangeTreeDataEmitter.fire(undefined);
+  }
+
+  /**
+   * Reverts a hunk in the proposed content of its file.
+   */
+  async rejectHunk(item: ReviewItem | undefined) {
+    if (item?.type !== 'hunk') {
+      return;
+    }
+    await this.setContent(item.file, revertHunk(item.file.content, item.hunk));
+  }
+
+  /**
+   * Accepts a file with its current proposed content, which includes the
+   * user's edits and reverted hunks.
+   */
+  async acceptFile(target: ReviewItem | vscode.Uri | undefined) {
+    await this.decideFile(target, 'accepted');
+  }
+
+  async rejectFile(target: ReviewItem | vscode.Uri | undefined) {
+    await this.decideFile(target, 'rejected');
+  }
+
+  /**
+   * Ends the review. Files that were not decided on are accepted.
+   */
+  async finish() {
+    await this.end('accepted');
+  }
+
+  /**
+   * Ends the review. Files that were not decided on are rejected.
+   */
+  async discard() {
+    await this.end('rejected');
+  }
+
+  /**
+   * Removes a file from the review, for example because the user answered
+   * for it in the CLI. Returns its current proposed content.
+   */
+  async removeFile(filePath: string): Promise<string | undefined> {
+    const session = this.session;
+    const file = session?.files.find((file) => file.filePath === filePath);
+    if (!session || !file) {
+      return undefined;
+    }
+    session.files = session.files.filter((other) => other !== file);
+    await this.closeFile(file);
+    this.diffContentProvider.deleteContent(file.rightDocUri);
+    if (session.files.length === 0) {
+      await this.clear();
+    } else {
+      this.onDidChangeTreeDataEmitter.fire(undefined);
+    }
+    return file.content;
+  }
+
+  private findFile(uri: vscode.Uri): ReviewFile | undefined {
+    return this.session?.files.find(
+      (file) => file.rightDocUri.toString() === uri.toString(),
+    );
+  }
+
+  private resolveFile(
+    target: ReviewItem | vscode.Uri | undefined,
+  ): ReviewFile | undefined {
+    if (target instanceof vscode.Uri) {
+      return this.findFile(target);
+    }
+    if (target) {
+      return target.file;
+    }
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    return activeUri ? this.findFile(activeUri) : undefined;
+  }
+
+  private async decideFile(
+    target: ReviewItem | vscode.Uri | undefined,
+    status: 'accepted' | 'rejected',
+  ) {
+    const file = this.resolveFile(target);
+    if (!file || !this.session) {
+      return;
+    }
+    file.status = status;
+    await this.closeFile(file);
+
+    if (this.session.files.every((other) => other.status !== 'pending')) {
+      await this.finish();
+      return;
+    }
+    this.onDidChangeTreeDataEmitter.fire(undefined);
+    const next = this.session.files.find((other) => other.status === 'pending');
+    if (next) {
+      await this.openFile(next);
+    }
+  }
+
+  private async setContent(file: ReviewFile, content: string) {
+    file.content = content;
+    this.diffContentProvider.setContent(file.rightDocUri, content);
+    const document = vscode.workspace.textDocuments.find(
+      (doc) => doc.uri.toString() === file.rightDocUri.toString(),
+    );
+    if (document && document.getText() !== content) {
+      const edit = new vscode.WorkspaceEdit();
+      edit.replace(
+        file.rightDocUri,
+        new vscode.Range(0, 0, document.lineCount, 0),
+        content,
+      );
+      await vscode.workspace.applyEdit(edit);
+    }
+    this.onDidChangeTreeDataEmitter.fire(undefined);
+  }
+
+  private async end(pendingStatus: 'accepted' | 'rejected') {
+    const session = this.session;
+    if (!session) {
+      return;
+    }
+
+    const results: Array<z.infer<typeof ChangesetFileResultSchema>> =
+      session.files.map((file) => {
+        const status = file.status === 'pending' ? pendingStatus : file.status;
+        // Accepting a file whose hunks were all reverted changes nothing.
+        return status === 'accepted' && file.content !== file.originalContent
+          ? { filePath: file.filePath, status, content: file.content }
+          : { filePath: file.filePath, status: 'rejected' };
+      });
+
+    for (const file of session.files) {
+      await this.closeFile(file);
+      this.diffContentProvider.deleteContent(file.rightDocUri);
+    }
+    await this.clear();
+    this.log(`Finished review of changeset ${session.changesetId}`);
+
+    this.notify(
+      IdeChangesetClosedNotificationSchema.parse({
+        jsonrpc: '2.0',
+        method: 'ide/changesetClosed',
+        params: { changesetId: session.changesetId, files: results },
+      }),
+    );
+  }
+
+  private async clear() {
+    this.session = undefined;
+    this.onDidChangeTreeDataEmitter.fire(undefined);
+    await vscode.commands.executeCommand(
+      'setContext',
+      'gemini.changeset.isActive',
+      false,
+    );
+  }
+
+  private async closeFile(file: ReviewFile) {
+    for (const tabGroup of vscode.window.tabGroups.all) {
+      for (const tab of tabGroup.tabs) {
+        const input = tab.input as { modified?: vscode.Uri };
+        if (input?.modified?.toString() === file.rightDocUri.toString()) {
+          await vscode.window.tabGroups.close(tab);
+        }
+      }
+    }
+  }
+}
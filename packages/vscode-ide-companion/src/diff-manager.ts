@@ -12,6 +12,7 @@ import { type JSONRPCNotification } from '@modelcontextprotocol/sdk/types.js';
 import * as path from 'node:path';
 import * as vscode from 'vscode';
 import { DIFF_SCHEME } from './extension.js';
+import { ChangesetReview } from './changeset-review.js';
 
 export class DiffContentProvider implements vscode.TextDocumentContentProvider {
   private content = new Map<string, string>();
@@ -55,12 +56,19 @@ export class DiffManager {
   readonly onDidChange = this.onDidChangeEmitter.event;
   private diffDocuments = new Map<string, DiffInfo>();
   private readonly subscriptions: vscode.Disposable[] = [];
+  readonly changesetReview: ChangesetReview;
 
   constructor(
     private readonly log: (message: string) => void,
     private readonly diffContentProvider: DiffContentProvider,
   ) {
+    this.changesetReview = new ChangesetReview(
+      log,
+      diffContentProvider,
+      (notification) => this.onDidChangeEmitter.fire(notification),
+    );
     this.subscriptions.push(
+      this.changesetReview,
       vscode.window.onDidChangeActiveTextEditor((editor) => {
         this.onActiveEditorChange(editor);
       }),
@@ -130,9 +138,24 @@ export class DiffManager {
   }
 
   /**
-   * Closes an open diff view for a specific file.
+   * Shows the changes to several files in a single review.
+   */
+  async showChangeset(
+    changesetId: string,
+    files: Array<{ filePath: string; newContent: string }>,
+  ) {
+    await this.changesetReview.start(changesetId, files);
+  }
+
+  /**
+   * Closes an open diff view for a specific file. A file that is part of a
+   * changeset review is removed from the review.
    */
   async closeDiff(filePath: string, suppressNotification = false) {
+    if (this.changesetReview.hasFile(filePath)) {
+      return this.changesetReview.removeFile(filePath);
+    }
+
     let uriToClose: vscode.Uri | undefined;
     for (const [uriString, diffInfo] of this.diffDocuments.entries()) {
       if (diffInfo.originalFilePath === filePath) {
@@ -166,6 +189,10 @@ export class DiffManager {
    * User accepts the changes in a diff view. Does not apply changes.
    */
   async acceptDiff(rightDocUri: vscode.Uri) {
+    if (this.changesetReview.hasDocument(rightDocUri)) {
+      await this.changesetReview.acceptFile(rightDocUri);
+      return;
+    }
     const diffInfo = this.diffDocuments.get(rightDocUri.toString());
     if (!diffInfo) {
       return;
@@ -191,6 +218,10 @@ export class DiffManager {
    * Called when a user cancels a diff view.
    */
   async cancelDiff(rightDocUri: vscode.Uri) {
+    if (this.changesetReview.hasDocument(rightDocUri)) {
+      await this.changesetReview.rejectFile(rightDocUri);
+      return;
+    }
     const diffInfo = this.diffDocuments.get(rightDocUri.toString());
     if (!diffInfo) {
       await this.closeDiffEditor(rightDocUri);
@@ -216,7 +247,9 @@ export class DiffManager {
   private async onActiveEditorChange(editor: vscode.TextEditor | undefined) {
     let isVisible = false;
     if (editor) {
-      isVisible = this.diffDocuments.has(editor.document.uri.toString());
+      isVisible =
+        this.diffDocuments.has(editor.document.uri.toString()) ||
+        this.changesetReview.hasDocument(editor.document.uri);
       if (!isVisible) {
         for (const document of this.diffDocuments.values()) {
           if (document.originalFilePath === editor.document.uri.fsPath) {
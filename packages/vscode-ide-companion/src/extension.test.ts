@@ -40,10 +40,12 @@ vi.mock('vscode', () => ({
     },
     showTextDocument: vi.fn(),
     showWorkspaceFolderPick: vi.fn(),
+    createTreeView: vi.fn(),
   },
   workspace: {
     workspaceFolders: [],
     onDidCloseTextDocument: vi.fn(),
+    onDidChangeTextDocument: vi.fn(),
     registerTextDocumentContentProvider: vi.fn(),
     onDidChangeWorkspaceFolders: vi.fn(),
     onDidGrantWorkspaceTrust: vi.fn(),
@@ -8,6 +8,7 @@ import * as vscode from 'vscode';
 import { IDEServer } from './ide-server.js';
 import semver from 'semver';
 import { DiffContentProvider, DiffManager } from './diff-manager.js';
+import type { ReviewItem } from './changeset-review.js';
 import { createLogger } from './utils/logger.js';
 import {
   detectIdeFromEnv,
@@ -117,9 +118,15 @@ export async function activate(context: vscode.ExtensionContext) {
   const diffContentProvider = new DiffContentProvider();
   const diffManager = new DiffManager(log, diffContentProvider);
 
+  const { changesetReview } = diffManager;
+
   context.subscriptions.push(
     vscode.workspace.onDidCloseTextDocument((doc) => {
-      if (doc.uri.scheme === DIFF_SCHEME) {
+      // Closing a file of a changeset review does not decide on it.
+      if (
+        doc.uri.scheme === DIFF_SCHEME &&
+        !changesetReview.hasDocument(doc.uri)
+      ) {
         diffManager.cancelDiff(doc.uri);
       }
     }),
@@ -145,6 +152,36 @@ export async function activate(context: vscode.ExtensionContext) {
         }
       },
     ),
+    vscode.window.createTreeView('gemini.changesetReview', {
+      treeDataProvider: changesetReview,
+      showCollapseAll: true,
+    }),
+    vscode.commands.registerCommand(
+      'gemini.changeset.openFile',
+      (item: ReviewItem) => changesetReview.openFile(item),
+    ),
+    vscode.commands.registerCommand(
+      'gemini.changeset.acceptFile',
+      (item?: ReviewItem) => changesetReview.acceptFile(item),
+    ),
+    vscode.commands.registerCommand(
+      'gemini.changeset.rejectFile',
+      (item?: ReviewItem) => changesetReview.rejectFile(item),
+    ),
+    vscode.commands.registerCommand(
+      'gemini.changeset.acceptHunk',
+      (item?: ReviewItem) => changesetReview.acceptHunk(item),
+    ),
+    vscode.commands.registerCommand(
+      'gemini.changeset.rejectHunk',
+      (item?: ReviewItem) => changesetReview.rejectHunk(item),
+    ),
+    vscode.commands.registerCommand('gemini.changeset.finish', () =>
+      changesetReview.finish(),
+    ),
+    vscode.commands.registerCommand('gemini.changeset.discard', () =>
+      changesetReview.discard(),
+    ),
   );
 
   ideServer = new IDEServer(log, diffManager);
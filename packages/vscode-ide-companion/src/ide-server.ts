@@ -8,6 +8,7 @@ import * as vscode from 'vscode';
 import {
   CloseDiffRequestSchema,
   IdeContextNotificationSchema,
+  OpenChangesetRequestSchema,
   OpenDiffRequestSchema,
 } from '@google/gemini-cli-core/src/ide/types.js';
 import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
@@ -26,6 +27,7 @@ import * as fs from 'node:fs/promises';
 import * as os from 'node:os';
 import type { z } from 'zod';
 import type { DiffManager } from './diff-manager.js';
+import { registerLanguageTools } from './language-tools.js';
 import { OpenFilesManager } from './open-files-manager.js';
 
 class CORSError extends Error {
@@ -488,5 +490,24 @@ const createMcpServer = (
       };
     },
   );
+  server.registerTool(
+    'openChangeset',
+    {
+      description:
+        '(IDE Tool) Open a review of the changes to several files. Returns a notification with the outcome of every file once the review is done.',
+      inputSchema: OpenChangesetRequestSchema.shape,
+    },
+    async ({
+      changesetId,
+      files,
+    }: z.infer<typeof OpenChangesetRequestSchema>) => {
+      log(
+        `Received openChangeset request for ${files.length} files: ${changesetId}`,
+      );
+      await diffManager.showChangeset(changesetId, files);
+      return { content: [] };
+    },
+  );
+  registerLanguageTools(server, log);
   return server;
 };
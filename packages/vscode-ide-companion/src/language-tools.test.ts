@@ -0,0 +1,169 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import * as vscode from 'vscode';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  findReferences,
+  getDiagnostics,
+  goToDefinition,
+  workspaceSymbols,
+} from './language-tools.js';
+
+vi.mock('vscode', () => ({
+  languages: {
+    getDiagnostics: vi.fn(),
+  },
+  commands: {
+    executeCommand: vi.fn(),
+  },
+  Uri: {
+    file: (path: string) => ({ fsPath: path, scheme: 'file' }),
+  },
+  Position: vi.fn((line: number, character: number) => ({ line, character })),
+  SymbolKind: { 4: 'Class', 11: 'Function' },
+}));
+
+const range = (line: number, character: number) => ({
+  start: { line, character },
+  end: { line, character: character + 3 },
+});
+
+const parse = (result: CallToolResult) =>
+  JSON.parse((result.content[0] as { text: string }).text);
+
+describe('language tools', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should report diagnostics with 1-based positions, errors first', () => {
+    vi.mocked(vscode.languages.getDiagnostics).mockReturnValue([
+      [
+        vscode.Uri.file('/ws/a.ts'),
+        [
+          { range: range(0, 0), message: 'unused', severity: 1 },
+          {
+            range: range(4, 2),
+            message: 'type error',
+            severity: 0,
+            source: 'ts',
+            code: { value: 2322 },
+          },
+        ],
+      ],
+      [{ fsPath: 'output', scheme: 'output' }, [{ range: range(0, 0) }]],
+    ] as unknown as ReturnType<typeof vscode.languages.getDiagnostics>);
+
+    const result = parse(getDiagnostics({}));
+
+    expect(result).toEqual({
+      diagnostics: [
+        {
+          filePath: '/ws/a.ts',
+          line: 5,
+          character: 3,
+          endLine: 5,
+          endCharacter: 6,
+          severity: 'error',
+          message: 'type error',
+          source: 'ts',
+          code: '2322',
+        },
+        {
+          filePath: '/ws/a.ts',
+          line: 1,
+          character: 1,
+          endLine: 1,
+          endCharacter: 4,
+          severity: 'warning',
+          message: 'unused',
+        },
+      ],
+      total: 2,
+      truncated: false,
+    });
+  });
+
+  it('should find references at a 1-based position', async () => {
+    vi.mocked(vscode.commands.executeCommand).mockResolvedValue([
+      { uri: vscode.Uri.file('/ws/b.ts'), range: range(9, 4) },
+    ]);
+
+    const result = parse(
+      await findReferences({ filePath: '/ws/a.ts', line: 2, character: 5 }),
+    );
+
+    expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+      'vscode.executeReferenceProvider',
+      vscode.Uri.file('/ws/a.ts'),
+      { line: 1, character: 4 },
+    );
+    expect(result.references).toEqual([
+      {
+        filePath: '/ws/b.ts',
+        line: 10,
+        character: 5,
+        endLine: 10,
+        endCharacter: 8,
+      },
+    ]);
+  });
+
+  it('should resolve definitions from location links', async () => {
+    vi.mocked(vscode.commands.executeCommand).mockResolvedValue([
+      {
+        targetUri: vscode.Uri.file('/ws/c.ts'),
+        targetRange: range(0, 0),
+        targetSelectionRange: range(2, 6),
+      },
+    ]);
+
+    const result = parse(
+      await goToDefinition({ filePath: '/ws/a.ts', line: 1, character: 1 }),
+    );
+
+    expect(result.definitions).toEqual([
+      {
+        filePath: '/ws/c.ts',
+        line: 3,
+        character: 7,
+        endLine: 3,
+        endCharacter: 10,
+      },
+    ]);
+  });
+
+  it('should search workspace symbols', async () => {
+    vi.mocked(vscode.commands.executeCommand).mockResolvedValue([
+      {
+        name: 'Config',
+        kind: 4,
+        containerName: '',
+        location: { uri: vscode.Uri.file('/ws/config.ts'), range: range(7, 0) },
+      },
+    ]);
+
+    const result = parse(await workspaceSymbols({ query: 'Config' }));
+
+    expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+      'vscode.executeWorkspaceSymbolProvider',
+      'Config',
+    );
+    expect(result.symbols).toEqual([
+      {
+        name: 'Config',
+        kind: 'Class',
+        filePath: '/ws/config.ts',
+        line: 8,
+        character: 1,
+        endLine: 8,
+        endCharacter: 4,
+      },
+    ]);
+  });
+});
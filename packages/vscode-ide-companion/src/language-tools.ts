@@ -0,0 +1,265 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as vscode from 'vscode';
+import {
+  GetDiagnosticsRequestSchema,
+  TextDocumentPositionRequestSchema,
+  WorkspaceSymbolsRequestSchema,
+} from '@google/gemini-cli-core/src/ide/types.js';
+import { IDE_MAX_LANGUAGE_RESULTS } from '@google/gemini-cli-core/src/ide/constants.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { z } from 'zod';
+
+/**
+ * A range in a file. Lines and characters are 1-based, like the cursor in
+ * the IDE context.
+ */
+interface FileRange {
+  filePath: string;
+  line: number;
+  character: number;
+  endLine: number;
+  endCharacter: number;
+}
+
+interface DiagnosticResult extends FileRange {
+  severity: 'error' | 'warning' | 'information' | 'hint';
+  message: string;
+  source?: string;
+  code?: string;
+}
+
+interface SymbolResult extends FileRange {
+  name: string;
+  kind: string;
+  containerName?: string;
+}
+
+const SEVERITIES: Array<DiagnosticResult['severity']> = [
+  'error',
+  'warning',
+  'information',
+  'hint',
+];
+
+function toFileRange(uri: vscode.Uri, range: vscode.Range): FileRange {
+  return {
+    filePath: uri.fsPath,
+    line: range.start.line + 1,
+    character: range.start.character + 1,
+    endLine: range.end.line + 1,
+    endCharacter: range.end.character + 1,
+  };
+}
+
+function toPosition({
+  line,
+  character,
+}: z.infer<typeof TextDocumentPositionRequestSchema>): vscode.Position {
+  return new vscode.Position(line - 1, character - 1);
+}
+
+function toDiagnosticCode(code: vscode.Diagnostic['code']): string | undefined {
+  if (code === undefined) {
+    return undefined;
+  }
+  return typeof code === 'object' ? String(code.value) : String(code);
+}
+
+/**
+ * Limits results to `IDE_MAX_LANGUAGE_RESULTS` so that a large workspace does
+ * not flood the CLI's context.
+ */
+function limitResults<T>(results: T[]): {
+  results: T[];
+  total: number;
+  truncated: boolean;
+} {
+  return {
+    results: results.slice(0, IDE_MAX_LANGUAGE_RESULTS),
+    total: results.length,
+    truncated: results.length > IDE_MAX_LANGUAGE_RESULTS,
+  };
+}
+
+function jsonResult(value: unknown): CallToolResult {
+  return { content: [{ type: 'text', text: JSON.stringify(value) }] };
+}
+
+/**
+ * Returns the diagnostics of a file, or of every file with diagnostics when
+ * no file is given. Errors come first.
+ */
+export function getDiagnostics({
+  filePath,
+}: z.infer<typeof GetDiagnosticsRequestSchema>): CallToolResult {
+  const entries: Array<[vscode.Uri, readonly vscode.Diagnostic[]]> = filePath
+    ? [
+        [
+          vscode.Uri.file(filePath),
+          vscode.languages.getDiagnostics(vscode.Uri.file(filePath)),
+        ],
+      ]
+    : vscode.languages
+        .getDiagnostics()
+        .filter(([uri]) => uri.scheme === 'file');
+
+  const diagnostics: DiagnosticResult[] = entries
+    .flatMap(([uri, fileDiagnostics]) =>
+      fileDiagnostics.map((diagnostic) => ({
+        ...toFileRange(uri, diagnostic.range),
+        severity: SEVERITIES[diagnostic.severity] ?? 'error',
+        message: diagnostic.message,
+        source: diagnostic.source,
+        code: toDiagnosticCode(diagnostic.code),
+      })),
+    )
+    .sort(
+      (a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity),
+    );
+
+  const { results, total, truncated } = limitResults(diagnostics);
+  return jsonResult({ diagnostics: results, total, truncated });
+}
+
+/**
+ * Returns the locations that reference the symbol at a position.
+ */
+export async function findReferences(
+  params: z.infer<typeof TextDocumentPositionRequestSchema>,
+): Promise<CallToolResult> {
+  const locations =
+    (await vscode.commands.executeCommand<vscode.Location[] | undefined>(
+      'vscode.executeReferenceProvider',
+      vscode.Uri.file(params.filePath),
+      toPosition(params),
+    )) ?? [];
+
+  const { results, total, truncated } = limitResults(
+    locations.map((location) => toFileRange(location.uri, location.range)),
+  );
+  return jsonResult({ references: results, total, truncated });
+}
+
+/**
+ * Returns the locations where the symbol at a position is defined.
+ */
+export async function goToDefinition(
+  params: z.infer<typeof TextDocumentPositionRequestSchema>,
+): Promise<CallToolResult> {
+  const definitions =
+    (await vscode.commands.executeCommand<
+      Array<vscode.Location | vscode.LocationLink> | undefined
+    >(
+      'vscode.executeDefinitionProvider',
+      vscode.Uri.file(params.filePath),
+      toPosition(params),
+    )) ?? [];
+
+  const { results, total, truncated } = limitResults(
+    definitions.map((definition) =>
+      'targetUri' in definition
+        ? toFileRange(
+            definition.targetUri,
+            definition.targetSelectionRange ?? definition.targetRange,
+          )
+        : toFileRange(definition.uri, definition.range),
+    ),
+  );
+  return jsonResult({ definitions: results, total, truncated });
+}
+
+/**
+ * Returns the symbols of the workspace whose names match a query.
+ */
+export async function workspaceSymbols({
+  query,
+}: z.infer<typeof WorkspaceSymbolsRequestSchema>): Promise<CallToolResult> {
+  const symbols =
+    (await vscode.commands.executeCommand<
+      vscode.SymbolInformation[] | undefined
+    >('vscode.executeWorkspaceSymbolProvider', query)) ?? [];
+
+  const { results, total, truncated } = limitResults(
+    symbols.map(
+      (symbol): SymbolResult => ({
+        name: symbol.name,
+        kind: vscode.SymbolKind[symbol.kind] ?? 'Unknown',
+        containerName: symbol.containerName || undefined,
+        ...toFileRange(symbol.location.uri, symbol.location.range),
+      }),
+    ),
+  );
+  return jsonResult({ symbols: results, total, truncated });
+}
+
+/**
+ * Wraps a tool handler so that failures are reported to the CLI as tool
+ * errors instead of protocol errors.
+ */
+function withErrorResult<T>(
+  name: string,
+  handler: (params: T) => CallToolResult | Promise<CallToolResult>,
+  log: (message: string) => void,
+): (params: T) => Promise<CallToolResult> {
+  return async (params: T) => {
+    try {
+      return await handler(params);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log(`${name} failed: ${message}`);
+      return { content: [{ type: 'text', text: message }], isError: true };
+    }
+  };
+}
+
+/**
+ * Registers the tools that expose the IDE's language services, such as
+ * diagnostics and go to definition, to the CLI.
+ */
+export function registerLanguageTools(
+  server: McpServer,
+  log: (message: string) => void,
+): void {
+  server.registerTool(
+    'getDiagnostics',
+    {
+      description:
+        '(IDE Tool) Get the errors and warnings that the language services report for a file or the whole workspace.',
+      inputSchema: GetDiagnosticsRequestSchema.shape,
+    },
+    withErrorResult('getDiagnostics', getDiagnostics, log),
+  );
+  server.registerTool(
+    'findReferences',
+    {
+      description:
+        '(IDE Tool) Find the references to the symbol at a position in a file.',
+      inputSchema: TextDocumentPositionRequestSchema.shape,
+    },
+    withErrorResult('findReferences', findReferences, log),
+  );
+  server.registerTool(
+    'goToDefinition',
+    {
+      description:
+        '(IDE Tool) Find the definition of the symbol at a position in a file.',
+      inputSchema: TextDocumentPositionRequestSchema.shape,
+    },
+    withErrorResult('goToDefinition', goToDefinition, log),
+  );
+  server.registerTool(
+    'workspaceSymbols',
+    {
+      description:
+        '(IDE Tool) Search the symbols, such as classes and functions, of the workspace by name.',
+      inputSchema: WorkspaceSymbolsRequestSchema.shape,
+    },
+    withErrorResult('workspaceSymbols', workspaceSymbols, log),
+  );
+}
@@ -37,12 +37,13 @@ for (const file of sbFiles) {
   copyFileSync(join(root, file), join(bundleDir, basename(file)));
 }
 
-// Copy the hacked_prompts_source directory
-const hackedPromptsDir = join(root, 'hacked_prompts_source');
-if (existsSync(hackedPromptsDir)) {
-  cpSync(hackedPromptsDir, join(bundleDir, 'hacked_prompts_source'), {
-    recursive: true,
-  });
+// Copy the built-in prompt profiles
+for (const promptsDir of ['hacked_prompts_source', 'original_prompts']) {
+  if (existsSync(join(root, promptsDir))) {
+    cpSync(join(root, promptsDir), join(bundleDir, promptsDir), {
+      recursive: true,
+    });
+  }
 }
 
 console.log('Assets copied to bundle/');